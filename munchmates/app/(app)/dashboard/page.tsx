@@ -4,7 +4,8 @@
 // Includes:
 // - Personalized greeting from Keycloak ID/Access token claims
 // - "Tip of the day" motivation, rotated deterministically by date
-// - Today’s meal plan (breakfast / lunch / dinner) with quick links to recipes
+// - Today’s meal plan (breakfast / lunch / dinner, plus any other slot planned today)
+//   with quick links to recipes
 // - Quick action cards for Recipes, Meal Planner, Grocery List, Pantry,
 //   Shared Collections, and Community
 // - Pantry alerts for items expiring soon (API-backed via /api/pantry)
@@ -23,8 +24,9 @@ import {
     AlertTriangle,
     ArrowRight,
     Check,
-    Coffee,Droplets,Drumstick, Flame,
+    Coffee,Cookie,Droplets,Drumstick, Flame,
     FolderHeart,
+    IceCreamCone,
     Heart,
     type LucideIcon,
     Moon,
@@ -43,7 +45,13 @@ import { Button } from '@/components/ui/button';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import { authedFetch } from '@/lib/authedFetch';
 import { ensureToken, getAccessTokenClaims, getParsedIdToken, keycloak } from '@/lib/keycloak';
-import type { NutritionDaySummary, NutritionMetricProgress } from '@/lib/types/meal-plan';
+import { countPlannedMeals, DEFAULT_MEAL_SLOTS, normalizeWeeklyPlan, planSlots } from '@/lib/meal-plan';
+import {
+    DEFAULT_WEEK_START_DAY,
+    getWeekStart,
+    type NutritionDaySummary,
+    type NutritionMetricProgress,
+} from '@/lib/types/meal-plan';
 
 // initialize types
 type IdClaims = { name?: string; preferred_username?: string; email?: string };
@@ -62,9 +70,7 @@ interface MealPlanEntry {
 // Meal plan for single day
 interface DayPlan {
     date: string;
-    breakfast?: MealPlanEntry;
-    lunch?: MealPlanEntry;
-    dinner?: MealPlanEntry;
+    meals: Record<string, MealPlanEntry[]>; // Dishes per meal slot, in order
 }
 
 // Meal plan for entire week
@@ -110,14 +116,6 @@ interface NutritionProgressDial {
   data: NutritionMetricProgress | null
 }
 
-// helper function to get Monday of the week for a given date
-function getWeekMonday(date: Date): Date {
-    const d = new Date(date);
-    const day = d.getDay();
-    const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-    return new Date(d.setDate(diff));
-}
-
 // helper function to get local date string in YYYY-MM-DD format
 function formatLocalDateStr(d: Date): string {
     const year = d.getFullYear();
@@ -130,10 +128,9 @@ function formatTodayStr(): string {
   return formatLocalDateStr(new Date());
 }
 
-function getCurrentWeekStartStr(): string {
-  const today = new Date();
-  const weekMonday = getWeekMonday(today);
-  return formatLocalDateStr(weekMonday);
+// helper function to get the first day of this week, on the day the meal planner's weeks start
+function getCurrentWeekStartStr(weekStartDay: number): string {
+  return formatLocalDateStr(getWeekStart(new Date(), weekStartDay));
 }
 
 // helper function to get greeting based on time of day
@@ -244,6 +241,9 @@ export default function Dashboard() {
     const [diets, setDiets] = useState<string[]>([]);
     const [intolerances, setIntolerances] = useState<string[]>([]);
 
+    // the profile's week start day; null until loaded
+    const [weekStartDay, setWeekStartDay] = useState<number | null>(null);
+
     // nutrition widget
     const [nutritionProgress, setNutritionProgress] = useState<NutritionProgressDial[]>(makeNutritionDials(null));
 
@@ -303,32 +303,51 @@ export default function Dashboard() {
         };
     }, []);
 
+    // load the week start day from the profile, so this week is the meal planner's week
+    // falls back to this device's copy, then the default
+    useEffect(() => {
+        const loadWeekStartDay = async () => {
+            try {
+                const res = await authedFetch('/api/profile');
+                if (res.ok) {
+                    const data = await res.json();
+                    if (typeof data.weekStartDay === 'number') {
+                        localStorage.setItem('weekStartDay', String(data.weekStartDay));
+                        setWeekStartDay(data.weekStartDay);
+                        return;
+                    }
+                }
+            } catch {
+                // fall back to localStorage
+            }
+
+            const saved = localStorage.getItem('weekStartDay');
+            setWeekStartDay(saved === null ? DEFAULT_WEEK_START_DAY : Number(saved));
+        };
+        loadWeekStartDay();
+    }, []);
+
     // load today's meal plan
     // tries API first, falls back to localStorage
     // also calculates weekly stats
     useEffect(() => {
+        if (weekStartDay === null) return;
+
         const loadMealPlan = async () => {
             const today = new Date();
-            const weekMonday = getWeekMonday(today);
-            const weekStart = formatLocalDateStr(weekMonday);
+            const weekStart = getCurrentWeekStartStr(weekStartDay);
             const todayStr = formatLocalDateStr(today);
 
             try {
                 // try API fetch
                 const res = await authedFetch(`/api/meal-plan?weekStart=${weekStart}`);
                 if (res.ok) {
-                    const data: WeeklyMealPlan = await res.json();
-                    const todayMeals = data.days.find(d => d.date === todayStr);
+                    const { plan }: { plan: WeeklyMealPlan | null } = await res.json();
+                    const todayMeals = plan?.days.find(d => d.date === todayStr);
                     setTodayPlan(todayMeals || null);
 
                     // calculate weekly stats
-                    let mealsCount = 0;
-                    data.days.forEach(day => {
-                        if (day.breakfast) mealsCount++;
-                        if (day.lunch) mealsCount++;
-                        if (day.dinner) mealsCount++;
-                    });
-                    setWeeklyStats(prev => ({ ...prev, mealsPlanned: mealsCount }));
+                    setWeeklyStats(prev => ({ ...prev, mealsPlanned: countPlannedMeals(plan) }));
                     return;
                 }
             } catch {
@@ -338,22 +357,16 @@ export default function Dashboard() {
             // localStorage fallback
             const stored = localStorage.getItem(`mealPlan-${weekStart}`);
             if (stored) {
-                const data: WeeklyMealPlan = JSON.parse(stored);
+                const data: WeeklyMealPlan = normalizeWeeklyPlan(JSON.parse(stored));
                 const todayMeals = data.days.find(d => d.date === todayStr);
                 setTodayPlan(todayMeals || null);
 
-                let mealsCount = 0;
-                data.days.forEach(day => {
-                    if (day.breakfast) mealsCount++;
-                    if (day.lunch) mealsCount++;
-                    if (day.dinner) mealsCount++;
-                });
-                setWeeklyStats(prev => ({ ...prev, mealsPlanned: mealsCount }));
+                setWeeklyStats(prev => ({ ...prev, mealsPlanned: countPlannedMeals(data) }));
             }
         };
 
         loadMealPlan();
-    }, []);
+    }, [weekStartDay]);
 
     // load pantry alerts for items expiring within 7 days (from API)
     useEffect(() => {
@@ -415,8 +428,10 @@ export default function Dashboard() {
 
 
     useEffect(() => {
+      if (weekStartDay === null) return;
+
       const loadNutrition = async () => {
-        const res = await authedFetch(`/api/meal-plan/nutrition-summary?weekStart=${getCurrentWeekStartStr()}`);
+        const res = await authedFetch(`/api/meal-plan/nutrition-summary?weekStart=${getCurrentWeekStartStr(weekStartDay)}`);
         const empty = () => makeNutritionDials(null);
 
         if (!res.ok) {
@@ -437,7 +452,7 @@ export default function Dashboard() {
         setNutritionProgress(makeNutritionDials(today));
       }
       loadNutrition();
-    }, []);
+    }, [weekStartDay]);
 
     // toggle save/unsave a recipe
     const toggleSaveRecipe = async (recipeId: number, title: string, image?: string) => {
@@ -487,13 +502,21 @@ export default function Dashboard() {
         fetchPopularRecipes();
     }, [fetchPopularRecipes]);
 
-    const mealSlots: { key: 'breakfast' | 'lunch' | 'dinner'; label: string; icon: typeof Coffee; color: string; bg: string }[] = [
-        { key: 'breakfast', label: 'Breakfast', icon: Coffee, color: '#FF9F0A', bg: 'rgba(255,159,10,0.12)' },
-        { key: 'lunch', label: 'Lunch', icon: Utensils, color: '#30D158', bg: 'rgba(48,209,88,0.12)' },
-        { key: 'dinner', label: 'Dinner', icon: Moon, color: '#5E5CE6', bg: 'rgba(94,92,230,0.12)' },
-    ];
+    const slotStyles: Record<string, { icon: typeof Coffee; color: string; bg: string }> = {
+        breakfast: { icon: Coffee, color: '#FF9F0A', bg: 'rgba(255,159,10,0.12)' },
+        lunch: { icon: Utensils, color: '#30D158', bg: 'rgba(48,209,88,0.12)' },
+        dinner: { icon: Moon, color: '#5E5CE6', bg: 'rgba(94,92,230,0.12)' },
+        snack: { icon: Cookie, color: '#FF375F', bg: 'rgba(255,55,95,0.12)' },
+        dessert: { icon: IceCreamCone, color: '#BF5AF2', bg: 'rgba(191,90,242,0.12)' },
+    };
+    const customSlotStyle = { icon: Utensils, color: '#64D2FF', bg: 'rgba(100,210,255,0.12)' };
 
-    const hasMeals = todayPlan && (todayPlan.breakfast || todayPlan.lunch || todayPlan.dinner);
+    // Breakfast, lunch and dinner always show; other slots only when something is planned in them
+    const mealSlots = planSlots(todayPlan ? { days: [todayPlan] } : null, DEFAULT_MEAL_SLOTS).map((key) => ({
+        key,
+        label: key,
+        ...(slotStyles[key] ?? customSlotStyle),
+    }));
 
     // Shared card style — Apple: no border, soft shadow, big radius
     const card = 'rounded-2xl bg-card shadow-[0_1px_3px_rgba(0,0,0,0.08),0_1px_2px_rgba(0,0,0,0.06)]';
@@ -526,7 +549,7 @@ export default function Dashboard() {
                                     <div className="flex items-center gap-2.5 shrink-0">
                                         {[
                                             { label: 'pantry alerts', value: pantryAlerts.length, color: '#FF453A', href: '/pantry' },
-                                            { label: `of 21 meals`, value: weeklyStats.mealsPlanned, color: '#30D158', href: '/meal-planner' },
+                                            { label: 'meals planned', value: weeklyStats.mealsPlanned, color: '#30D158', href: '/meal-planner' },
                                             { label: 'grocery items', value: groceryCount, color: '#0A84FF', href: '/grocery-list' },
                                         ].map((stat) => (
                                             <Link key={stat.label} href={stat.href}
@@ -543,7 +566,8 @@ export default function Dashboard() {
                             <div className={`${card} p-1.5 grid grid-cols-1 lg:grid-cols-2 divide-y lg:divide-y-0 lg:divide-x divide-border/50`}>
                                 <div className="pr-2 grid grid-cols-1 divide-y divide-border/50">
                                     {mealSlots.map(({ key, label, icon: Icon, color, bg }) => {
-                                        const meal = hasMeals ? todayPlan?.[key] : undefined;
+                                        const dishes = todayPlan?.meals[key] ?? [];
+                                        const meal = dishes[0];
                                         const content = (
                                             <div className={`flex items-center gap-3.5 px-4 py-3.5 rounded-xl ${meal ? 'hover:bg-black/[0.03] dark:hover:bg-white/[0.05] cursor-pointer' : ''} transition-colors`}>
                                                 <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-xl" style={{ backgroundColor: bg }}>
@@ -552,7 +576,7 @@ export default function Dashboard() {
                                                 <div className="min-w-0 flex-1">
                                                     <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-muted-foreground">{label}</p>
                                                     {meal ? (
-                                                        <p className="font-semibold text-[14px] truncate leading-snug mt-0.5">{meal.title}</p>
+                                                        <p className="font-semibold text-[14px] truncate leading-snug mt-0.5">{dishes.map((dish) => dish.title).join(' + ')}</p>
                                                     ) : (
                                                         <p className="text-[14px] text-muted-foreground/70 mt-0.5">Not planned</p>
                                                     )}
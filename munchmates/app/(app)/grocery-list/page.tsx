@@ -3,14 +3,42 @@
 // and optional imports from the meal planner.
 // Features:
 // - Database persistence via /api/grocery — data syncs across devices
-// - Import and merge of aggregated ingredients from the meal planner via
-//   `pending-grocery-items` and `fromMealPlan=true` URL flag (calls API import endpoint)
+// - Meal-plan imports happen server-side (`/api/meal-plan/grocery`); the planner
+//   redirects here with `fromMealPlan=true&added=&reduced=` to show what changed
 // - Category-based organization with per-category cards and item counts
 // - Inline editing of item name, quantity, and category with keyboard shortcuts
+// - Meal-plan items show which planned meals they're for ("for: Chicken Tikka (Tue dinner)")
+//   and, when the ingredient comes in fixed sizes, the packages to buy ("buy 1 gal")
+// - Multiple named lists ("Costco run", "Farmers market") with a list switcher;
+//   the last opened list is remembered in localStorage (`groceryListId`) and
+//   is where the meal planner imports to
 // - Filters for All / To Buy / Completed plus summary stats (total, active, done)
 // - Image-powered item entry via ImageClassificationDialog ("Add via image")
+// - Quick add: several items typed as one sentence, previewed and added in a
+//   single batch via QuickAddDialog
 // - Category management (add/delete, with safe reassignment of affected items)
 // - Bulk actions to clear completed items or wipe the entire list
+// - "Finish trip" moves checked-off items into the pantry (`/api/grocery/finish-trip`)
+//   with a short-lived Undo
+// - Store layouts (`/api/grocery/stores`): picking a store sorts the category cards
+//   in that store's walking order with aisle labels, and check-offs made while a
+//   store is selected teach it the order (remembered in localStorage `groceryStoreId`)
+// - Staples (`/api/grocery/staples`) managed in StaplesDialog: scheduled ones are
+//   added by the server when the list loads, par-level ones when the pantry runs low
+// - "Buy again" chips from the purchase history (`/api/grocery/suggestions`): items
+//   that are overdue by their usual gap, or bought regularly, re-add with one tap.
+//   Clearing checked-off items or finishing a trip archives them into that history
+// - Prices & budget: items carry an optional unit price (each or per lb/kg/oz/g),
+//   prefilled from the price book of last prices paid (`/api/grocery/prices`); a bar
+//   under the header shows the cart total, the list estimate and this week's spending
+//   against the weekly budget (`/api/grocery/budget`)
+// - Export & share (ExportShareDialog): text / Markdown / CSV downloads, a print-ready
+//   page for paper or PDF, and expiring read-only links (`/api/grocery/share`)
+// - Offline-first (lib/grocery-offline): lists, categories and items are cached in
+//   IndexedDB so the list opens without a connection; adds, check-offs, edits and
+//   deletes made offline are queued and replayed once back online, with conflicting
+//   fields resolved per field on the server against each item's `updatedAt`.
+//   The banner shows the offline / pending-sync state with a "Sync now" action
 // - Suspense fallback layout that preserves the app shell while URL params load.
 
 'use client';
@@ -22,14 +50,32 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import {
     Trash2, Plus, ShoppingCart, CheckCircle2, PencilLine, X, Save,
-    CalendarDays, Loader2, ChevronDown, ChevronRight, Settings, Camera, Search,
+    CalendarDays, Loader2, ChevronDown, ChevronRight, Settings, Camera, Search, ListPlus,
+    PackageCheck, Undo2, Store, Sparkles, Repeat, Share2, History, Wallet,
 } from 'lucide-react';
 import { SidebarProvider } from '@/components/ui/sidebar';
 import AppSidebar from '@/components/layout/app-sidebar';
 import ImageClassificationDialog from '@/components/image-classification-dialog';
+import StoreLayoutDialog, { type StoreProfile } from '@/components/grocery/StoreLayoutDialog';
+import StaplesDialog from '@/components/grocery/StaplesDialog';
+import ExportShareDialog from '@/components/grocery/ExportShareDialog';
+import QuickAddDialog from '@/components/ingredients/QuickAddDialog';
 import { authedFetch } from '@/lib/authedFetch';
 import ApiErrorBanner from '@/components/ui/api-error-banner';
 import { assertOk, getErrorMessage, isValidationError } from '@/lib/apiClient';
+import {
+    buildUpdateOp,
+    createTempId,
+    enqueueGroceryOp,
+    groceryOpRequest,
+    isNetworkError,
+    isTempId,
+    readCached,
+    readGroceryQueue,
+    replayGroceryQueue,
+    writeCached,
+    type QueuedGroceryOp,
+} from '@/lib/grocery-offline';
 import {
     Select,
     SelectTrigger,
@@ -37,7 +83,6 @@ import {
     SelectContent,
     SelectItem,
 } from "@/components/ui/select";
-import { AggregatedIngredient } from '@/lib/types/meal-plan';
 
 const CATEGORY_THEMES: Record<string, { icon: string; bg: string; text: string; border: string; badge: string }> = {
     'Produce':            { icon: '🥬', bg: 'bg-emerald-50',  text: 'text-emerald-700', border: 'border-l-emerald-400', badge: 'bg-emerald-100 text-emerald-700' },
@@ -61,20 +106,124 @@ function getCategoryTheme(category: string) {
     return CATEGORY_THEMES[category] || DEFAULT_THEME;
 }
 
+interface GroceryItemSource {
+    mealEntryId: string;
+    recipeId: number;
+    recipeTitle: string;
+    date: string;
+    mealType: string;
+    amount: number;
+    unit: string;
+}
+
 interface GroceryItem {
     id: number;
+    listId?: number;
     name: string;
     category: string;
     completed: boolean;
     quantity?: string | null;
+    packageQuantity?: string | null;
+    unitPrice?: number | null;
+    priceUnit?: string;
+    cost?: number | null;
     fromMealPlan?: boolean;
     addedAt: string;
+    updatedAt?: string;
+    sources?: GroceryItemSource[];
+}
+
+// Cost totals from /api/grocery/budget
+interface CostSummary {
+    total: number;
+    pricedCount: number;
+    unpricedCount: number;
+}
+
+interface BudgetSummary {
+    weeklyBudget: number | null;
+    spentThisWeek: number;
+    trip: CostSummary;
+    list: CostSummary;
+    remaining: number | null;
+}
+
+// A "buy again" suggestion from /api/grocery/suggestions
+interface BuyAgainSuggestion {
+    name: string;
+    quantity: string | null;
+    category: string;
+    reason: 'overdue' | 'frequent';
+    message: string;
+}
+
+function formatMoney(amount: number): string {
+    return `$${amount.toFixed(2)}`;
+}
+
+// Price units offered when editing an item; the server stores "each" as ""
+const PER_ITEM_PRICE_UNIT = 'each';
+const PRICE_UNITS = [PER_ITEM_PRICE_UNIT, 'lb', 'kg', 'oz', 'g'];
+
+// "$3.99", "$5.49/lb"
+function formatUnitPrice(item: GroceryItem): string {
+    if (item.unitPrice === null || item.unitPrice === undefined) return '';
+    return item.priceUnit ? `${formatMoney(item.unitPrice)}/${item.priceUnit}` : `${formatMoney(item.unitPrice)} each`;
+}
+
+// "Chicken Tikka (Tue dinner), Oatmeal (Wed breakfast)"
+function formatItemSources(sources: GroceryItemSource[]): string {
+    return sources
+        .map((source) => {
+            const weekday = new Date(source.date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short' });
+            return `${source.recipeTitle} (${weekday} ${source.mealType})`;
+        })
+        .join(', ');
+}
+
+interface GroceryList {
+    id: number;
+    name: string;
+    itemCount?: number;
+    activeCount?: number;
+}
+
+const ACTIVE_LIST_STORAGE_KEY = 'groceryListId';
+const ACTIVE_STORE_STORAGE_KEY = 'groceryStoreId';
+const NO_STORE_VALUE = 'none';
+// Add-form category value that lets the server classify the item
+const AUTO_CATEGORY = '__auto';
+// Where an auto-categorized item sits while offline, until the server classifies it
+const OFFLINE_CATEGORY = 'Other';
+
+// Replays a change queued offline
+function sendQueuedOp(op: QueuedGroceryOp) {
+    const { url, init } = groceryOpRequest(op);
+    return authedFetch(url, init);
+}
+
+// One pantry lot created by finishing a trip, as returned by /api/grocery/finish-trip
+interface ShoppingTripEntry {
+    groceryItem: {
+        name: string;
+        quantity: string | null;
+        category: string;
+        fromMealPlan: boolean;
+        unitPrice?: number | null;
+        priceUnit?: string;
+    };
+    pantryItemId: number;
+    lotId: number;
+    name: string;
+    quantity: string;
+    expiryDate: string | null;
 }
 
 interface GroceryCategory {
     id: number;
     name: string;
     sortOrder: number;
+    aisle?: string | null;
 }
 
 type RetryAction = () => void | Promise<void>;
@@ -84,21 +233,47 @@ function GroceryListContent() {
     const [newItem, setNewItem] = useState('');
     const [newCategory, setNewCategory] = useState('');
     const [items, setItems] = useState<GroceryItem[]>([]);
+    const [lists, setLists] = useState<GroceryList[]>([]);
+    const [activeListId, setActiveListId] = useState<number | null>(null);
+    const [newListName, setNewListName] = useState('');
+    const [showNewList, setShowNewList] = useState(false);
+    const [finishedTrip, setFinishedTrip] = useState<{ listId: number; movedCount: number; added: ShoppingTripEntry[] } | null>(null);
+    const [isFinishingTrip, setIsFinishingTrip] = useState(false);
     const [categories, setCategories] = useState<string[]>([]);
+    const [categoryAisles, setCategoryAisles] = useState<Record<string, string>>({});
+    const [stores, setStores] = useState<StoreProfile[]>([]);
+    const [activeStoreId, setActiveStoreId] = useState<number | null>(null);
+    const [storeDialogOpen, setStoreDialogOpen] = useState(false);
+    const [editingStore, setEditingStore] = useState<StoreProfile | null>(null);
     const [filter, setFilter] = useState<'all' | 'active' | 'completed' | 'mealplan'>('all');
     const [searchQuery, setSearchQuery] = useState('');
     const [importedCount, setImportedCount] = useState(0);
+    const [pantryReducedCount, setPantryReducedCount] = useState(0);
     const [isLoading, setIsLoading] = useState(true);
     const [isSaving, setIsSaving] = useState(false);
     const [apiError, setApiError] = useState<{ message: string; isValidation: boolean; onRetry?: RetryAction } | null>(null);
+    const [isOffline, setIsOffline] = useState(false);
+    const [pendingCount, setPendingCount] = useState(0);
+    const [isSyncing, setIsSyncing] = useState(false);
+    // The list the items in state belong to, so they're never cached under another list
+    const loadedListIdRef = useRef<number | null>(null);
 
     const [newItemQuantity, setNewItemQuantity] = useState('');
-    const [newItemCategory, setNewItemCategory] = useState('');
+    const [newItemCategory, setNewItemCategory] = useState(AUTO_CATEGORY);
     const [editingId, setEditingId] = useState<number | null>(null);
     const [editName, setEditName] = useState('');
     const [editQuantity, setEditQuantity] = useState('');
     const [editCategory, setEditCategory] = useState('');
+    const [editPrice, setEditPrice] = useState('');
+    const [editPriceUnit, setEditPriceUnit] = useState(PER_ITEM_PRICE_UNIT);
     const [imageDialogOpen, setImageDialogOpen] = useState(false);
+    const [quickAddOpen, setQuickAddOpen] = useState(false);
+    const [staplesOpen, setStaplesOpen] = useState(false);
+    const [exportOpen, setExportOpen] = useState(false);
+    const [suggestions, setSuggestions] = useState<BuyAgainSuggestion[]>([]);
+    const [budget, setBudget] = useState<BudgetSummary | null>(null);
+    const [editingBudget, setEditingBudget] = useState(false);
+    const [budgetInput, setBudgetInput] = useState('');
 
     const [collapsedCategories, setCollapsedCategories] = useState<Set<string>>(new Set());
     const [showCategoryPopover, setShowCategoryPopover] = useState(false);
@@ -127,6 +302,7 @@ function GroceryListContent() {
     const clearError = () => setApiError(null);
 
     const setUiError = (error: unknown, fallbackMessage: string, onRetry?: RetryAction) => {
+        if (isNetworkError(error)) setIsOffline(true);
         setApiError({
             message: getErrorMessage(error, fallbackMessage),
             isValidation: isValidationError(error),
@@ -134,75 +310,282 @@ function GroceryListContent() {
         });
     };
 
+    const applyLists = (data: { lists?: GroceryList[]; defaultListId: number }) => {
+        const fetched: GroceryList[] = data.lists || [];
+        setLists(fetched);
+        setActiveListId(prev => {
+            if (prev !== null && fetched.some(list => list.id === prev)) return prev;
+            const stored = Number(localStorage.getItem(ACTIVE_LIST_STORAGE_KEY));
+            return fetched.some(list => list.id === stored) ? stored : data.defaultListId;
+        });
+    };
+
+    const fetchLists = useCallback(async () => {
+        try {
+            const res = await authedFetch('/api/grocery/lists');
+            await assertOk(res, 'Failed to fetch grocery lists');
+            const data = await res.json();
+            void writeCached('lists', data);
+            applyLists(data);
+        } catch (error) {
+            // Offline: open the lists as they were last seen
+            const cached = isNetworkError(error) ? await readCached<{ lists: GroceryList[]; defaultListId: number }>('lists') : null;
+            if (cached) {
+                setIsOffline(true);
+                applyLists(cached);
+                return;
+            }
+            setUiError(error, 'Failed to fetch grocery lists', fetchLists);
+            setIsLoading(false);
+        }
+    }, []);
+
     const fetchItems = useCallback(async () => {
+        if (activeListId === null) return;
         try {
-            const res = await authedFetch('/api/grocery');
+            const res = await authedFetch(`/api/grocery?listId=${activeListId}`);
             await assertOk(res, 'Failed to fetch grocery items');
             const data = await res.json();
+            loadedListIdRef.current = activeListId;
             setItems(data.items || []);
+            setIsOffline(false);
         } catch (error) {
+            const cached = isNetworkError(error) ? await readCached<GroceryItem[]>(`items:${activeListId}`) : null;
+            if (cached) {
+                setIsOffline(true);
+                loadedListIdRef.current = activeListId;
+                setItems(cached);
+                return;
+            }
             setUiError(error, 'Failed to fetch grocery items', fetchItems);
         }
+    }, [activeListId]);
+
+    // Keep the device copy of the open list current, offline changes included
+    useEffect(() => {
+        if (activeListId === null || loadedListIdRef.current !== activeListId) return;
+        void writeCached(`items:${activeListId}`, items);
+    }, [items, activeListId]);
+
+    const fetchSuggestions = useCallback(async () => {
+        if (activeListId === null) return;
+        try {
+            const res = await authedFetch(`/api/grocery/suggestions?listId=${activeListId}`);
+            await assertOk(res, 'Failed to fetch suggestions');
+            const data = await res.json();
+            setSuggestions(data.suggestions || []);
+        } catch (error) {
+            // Extras like suggestions just stay hidden while offline
+            if (isNetworkError(error)) { setIsOffline(true); return; }
+            setUiError(error, 'Failed to fetch suggestions', fetchSuggestions);
+        }
+    }, [activeListId]);
+
+    const fetchBudget = useCallback(async () => {
+        if (activeListId === null) return;
+        try {
+            const res = await authedFetch(`/api/grocery/budget?listId=${activeListId}`);
+            await assertOk(res, 'Failed to fetch budget');
+            setBudget(await res.json());
+        } catch (error) {
+            if (isNetworkError(error)) { setIsOffline(true); return; }
+            setUiError(error, 'Failed to fetch budget', fetchBudget);
+        }
+    }, [activeListId]);
+
+    const fetchStores = useCallback(async () => {
+        try {
+            const res = await authedFetch('/api/grocery/stores');
+            await assertOk(res, 'Failed to fetch stores');
+            const data = await res.json();
+            const fetched: StoreProfile[] = data.stores || [];
+            setStores(fetched);
+            const stored = Number(localStorage.getItem(ACTIVE_STORE_STORAGE_KEY));
+            setActiveStoreId(fetched.some(store => store.id === stored) ? stored : null);
+        } catch (error) {
+            if (isNetworkError(error)) { setIsOffline(true); return; }
+            setUiError(error, 'Failed to fetch stores', fetchStores);
+        }
     }, []);
 
+    const applyCategories = (cats: GroceryCategory[]) => {
+        setCategories(cats.map(c => c.name));
+        setCategoryAisles(Object.fromEntries(
+            cats.filter(c => c.aisle).map(c => [c.name, c.aisle as string])
+        ));
+    };
+
+    // With a store selected, categories come back in that store's order with aisles
     const fetchCategories = useCallback(async () => {
+        const cacheKey = `categories:${activeStoreId ?? NO_STORE_VALUE}`;
         try {
-            const res = await authedFetch('/api/grocery/categories');
+            const query = activeStoreId !== null ? `?storeId=${activeStoreId}` : '';
+            const res = await authedFetch(`/api/grocery/categories${query}`);
             await assertOk(res, 'Failed to fetch categories');
             const data = await res.json();
             const cats: GroceryCategory[] = data.categories || [];
-            setCategories(cats.map(c => c.name));
+            void writeCached(cacheKey, cats);
+            applyCategories(cats);
         } catch (error) {
+            const cached = isNetworkError(error) ? await readCached<GroceryCategory[]>(cacheKey) : null;
+            if (cached) {
+                setIsOffline(true);
+                applyCategories(cached);
+                return;
+            }
             setUiError(error, 'Failed to fetch categories', fetchCategories);
         }
-    }, []);
+    }, [activeStoreId]);
+
+    const refreshPendingCount = async () => {
+        setPendingCount((await readGroceryQueue()).length);
+    };
 
+    // Replay changes queued offline, then reload the list to show the merged result
+    const syncQueue = useCallback(async () => {
+        const queued = await readGroceryQueue().catch(() => []);
+        if (queued.length > 0) {
+            setIsSyncing(true);
+            try {
+                const result = await replayGroceryQueue(sendQueuedOp);
+                setPendingCount(result.remaining);
+                const notes: string[] = [];
+                if (result.conflicts.length > 0) {
+                    notes.push(`kept the newer ${[...new Set(result.conflicts)].join(', ')} from the server`);
+                }
+                if (result.rejected > 0) {
+                    notes.push(`${result.rejected} couldn't be applied`);
+                }
+                if (notes.length > 0) {
+                    setApiError({ message: `Synced offline changes; ${notes.join(' and ')}`, isValidation: true });
+                }
+            } catch (error) {
+                setUiError(error, 'Failed to sync offline changes', syncQueue);
+            } finally {
+                setIsSyncing(false);
+            }
+        }
+        await fetchItems();
+    }, [fetchItems]);
+
+    // Sync as soon as the connection comes back
     useEffect(() => {
-        const loadData = async () => {
-            setIsLoading(true);
-            clearError();
-            await Promise.all([fetchItems(), fetchCategories()]);
-            setIsLoading(false);
+        const handleOnline = () => void syncQueue();
+        const handleOffline = () => setIsOffline(true);
+        if (!navigator.onLine) setIsOffline(true);
+        void refreshPendingCount();
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
         };
-        loadData();
-    }, [fetchItems, fetchCategories]);
+    }, [syncQueue]);
 
-    useEffect(() => {
-        if (isLoading) return;
-        const fromMealPlan = searchParams.get('fromMealPlan');
-        if (fromMealPlan === 'true') {
-            const pendingData = localStorage.getItem('pending-grocery-items');
-            if (pendingData) {
-                (async () => {
-                    try {
-                        const aggregatedItems: AggregatedIngredient[] = JSON.parse(pendingData);
-                        const res = await authedFetch('/api/grocery/import', {
-                            method: 'POST',
-                            body: JSON.stringify({ items: aggregatedItems }),
-                        });
-                        await assertOk(res, 'Failed to import grocery items');
-                        const data = await res.json();
-                        setImportedCount(data.addedCount || 0);
-                        clearError();
-                        await Promise.all([fetchItems(), fetchCategories()]);
-                        localStorage.removeItem('pending-grocery-items');
-                        window.history.replaceState({}, '', '/grocery-list');
-                        setTimeout(() => setImportedCount(0), 5000);
-                    } catch (error) {
-                        setUiError(error, 'Failed to import grocery items', () => {
-                            void Promise.all([fetchItems(), fetchCategories()]);
-                        });
-                    }
-                })();
+    // Send a change, or apply it locally and queue it when there's no connection.
+    // Changes to items that were themselves added offline wait behind their add.
+    const sendOrQueue = async (op: QueuedGroceryOp, send: () => Promise<void>, applyLocally: () => void) => {
+        const targetsOfflineItem = op.kind !== 'add' && isTempId(op.itemId);
+        if (!isOffline && !targetsOfflineItem) {
+            try {
+                await send();
+                return;
+            } catch (error) {
+                if (!isNetworkError(error)) throw error;
+                setIsOffline(true);
             }
         }
-    }, [searchParams, isLoading, fetchItems, fetchCategories]);
+        applyLocally();
+        await enqueueGroceryOp(op);
+        await refreshPendingCount();
+    };
+
+    useEffect(() => {
+        clearError();
+        void Promise.all([fetchLists(), fetchStores()]);
+    }, [fetchLists, fetchStores]);
+
+    // Re-sort categories whenever the selected store changes
+    useEffect(() => {
+        void fetchCategories();
+    }, [fetchCategories]);
+
+    const selectStore = (value: string) => {
+        const storeId = value === NO_STORE_VALUE ? null : Number(value);
+        if (storeId === null) localStorage.removeItem(ACTIVE_STORE_STORAGE_KEY);
+        else localStorage.setItem(ACTIVE_STORE_STORAGE_KEY, String(storeId));
+        setActiveStoreId(storeId);
+    };
+
+    const openStoreDialog = (store: StoreProfile | null) => {
+        setEditingStore(store);
+        setStoreDialogOpen(true);
+    };
+
+    const handleStoreSaved = (saved: StoreProfile) => {
+        setStores(prev => {
+            const others = prev.filter(store => store.id !== saved.id);
+            return [...others, saved].sort((a, b) => a.name.localeCompare(b.name));
+        });
+        if (saved.id === activeStoreId) void fetchCategories();
+        else selectStore(String(saved.id));
+    };
+
+    const handleStoreDeleted = (id: number) => {
+        setStores(prev => prev.filter(store => store.id !== id));
+        if (id === activeStoreId) selectStore(NO_STORE_VALUE);
+    };
+
+    // Reload items whenever the selected list changes
+    useEffect(() => {
+        if (activeListId === null) return;
+        localStorage.setItem(ACTIVE_LIST_STORAGE_KEY, String(activeListId));
+        setEditingId(null);
+        syncQueue().finally(() => setIsLoading(false));
+        void fetchSuggestions();
+    }, [activeListId, syncQueue, fetchSuggestions]);
+
+    // Totals follow every change to the list: prices, check-offs, clears
+    useEffect(() => {
+        void fetchBudget();
+    }, [items, fetchBudget]);
+
+    const saveBudget = async () => {
+        clearError();
+        try {
+            const res = await authedFetch('/api/grocery/budget', {
+                method: 'PUT',
+                body: JSON.stringify({ weeklyBudget: budgetInput.trim() || null }),
+            });
+            await assertOk(res, 'Failed to save budget');
+            setEditingBudget(false);
+            await fetchBudget();
+        } catch (error) {
+            setUiError(error, 'Failed to save budget', saveBudget);
+        }
+    };
+
+    useEffect(() => {
+        if (searchParams.get('fromMealPlan') !== 'true') return;
+        const importedListId = Number(searchParams.get('listId'));
+        if (importedListId) setActiveListId(importedListId);
+        setImportedCount(Number(searchParams.get('added')) || 0);
+        setPantryReducedCount(Number(searchParams.get('reduced')) || 0);
+        window.history.replaceState({}, '', '/grocery-list');
+        const timer = setTimeout(() => {
+            setImportedCount(0);
+            setPantryReducedCount(0);
+        }, 5000);
+        return () => clearTimeout(timer);
+    }, [searchParams]);
 
     const beginEdit = (item: GroceryItem) => {
         setEditingId(item.id);
         setEditName(item.name);
         setEditQuantity(item.quantity ?? '');
         setEditCategory(item.category);
+        setEditPrice(item.unitPrice != null ? String(item.unitPrice) : '');
+        setEditPriceUnit(item.priceUnit || PER_ITEM_PRICE_UNIT);
     };
 
     const cancelEdit = () => {
@@ -210,24 +593,37 @@ function GroceryListContent() {
         setEditName('');
         setEditQuantity('');
         setEditCategory('');
+        setEditPrice('');
+        setEditPriceUnit(PER_ITEM_PRICE_UNIT);
     };
 
     const saveEdit = async (id: number) => {
+        const item = items.find(i => i.id === id);
+        if (!item) return;
         clearError();
         setIsSaving(true);
+        const changes = {
+            name: editName.trim(),
+            quantity: editQuantity.trim() || null,
+            category: editCategory,
+            unitPrice: editPrice.trim() ? Number(editPrice) : null,
+            priceUnit: editPriceUnit === PER_ITEM_PRICE_UNIT ? '' : editPriceUnit,
+        };
         try {
-            const res = await authedFetch('/api/grocery', {
-                method: 'PUT',
-                body: JSON.stringify({
-                    id,
-                    name: editName.trim(),
-                    quantity: editQuantity.trim() || null,
-                    category: editCategory,
-                }),
-            });
-            await assertOk(res, 'Failed to update grocery item');
-            const data = await res.json();
-            setItems(prev => prev.map(it => it.id === id ? data.item : it));
+            await sendOrQueue(
+                buildUpdateOp(item, changes),
+                async () => {
+                    const res = await authedFetch('/api/grocery', {
+                        method: 'PUT',
+                        body: JSON.stringify({ id, ...changes }),
+                    });
+                    await assertOk(res, 'Failed to update grocery item');
+                    const data = await res.json();
+                    setItems(prev => prev.map(it => it.id === id ? data.item : it));
+                },
+                // The cost is worked out by the server once the edit syncs
+                () => setItems(prev => prev.map(it => it.id === id ? { ...it, ...changes, cost: null } : it)),
+            );
             cancelEdit();
         } catch (error) {
             setUiError(error, 'Failed to update grocery item', () => saveEdit(id));
@@ -244,25 +640,44 @@ function GroceryListContent() {
     const addItem = async () => {
         if (!newItem.trim()) return;
         clearError();
-        const category = newItemCategory || categories[0] || 'Uncategorized';
+        // Auto leaves the category to the server's ingredient classifier
+        const category = newItemCategory === AUTO_CATEGORY ? undefined : newItemCategory;
         const quantity = newItemQuantity.trim() || null;
+        if (activeListId === null) return;
+        const listId = activeListId;
+        const body = { name: newItem.trim(), category, quantity };
+        const tempId = createTempId();
         setIsSaving(true);
         try {
-            const res = await authedFetch('/api/grocery', {
-                method: 'POST',
-                body: JSON.stringify({ name: newItem.trim(), category, quantity }),
-            });
-            await assertOk(res, 'Failed to add grocery item');
-            const data = await res.json();
-            setItems(prev => {
-                const existingIndex = prev.findIndex(i => i.id === data.item.id);
-                if (existingIndex >= 0) {
-                    const updated = [...prev];
-                    updated[existingIndex] = data.item;
-                    return updated;
-                }
-                return [data.item, ...prev];
-            });
+            await sendOrQueue(
+                { kind: 'add', listId, tempId, body },
+                async () => {
+                    const res = await authedFetch('/api/grocery', {
+                        method: 'POST',
+                        body: JSON.stringify({ ...body, listId }),
+                    });
+                    await assertOk(res, 'Failed to add grocery item');
+                    const data = await res.json();
+                    setItems(prev => {
+                        const existingIndex = prev.findIndex(i => i.id === data.item.id);
+                        if (existingIndex >= 0) {
+                            const updated = [...prev];
+                            updated[existingIndex] = data.item;
+                            return updated;
+                        }
+                        return [data.item, ...prev];
+                    });
+                },
+                () => setItems(prev => [{
+                    id: tempId,
+                    listId,
+                    name: body.name,
+                    quantity,
+                    category: category ?? (categories.includes(OFFLINE_CATEGORY) ? OFFLINE_CATEGORY : categories[0]),
+                    completed: false,
+                    addedAt: new Date().toISOString(),
+                }, ...prev]),
+            );
             setNewItem('');
             setNewItemQuantity('');
         } catch (error) {
@@ -272,6 +687,35 @@ function GroceryListContent() {
         }
     };
 
+    const addSuggestion = async (suggestion: BuyAgainSuggestion) => {
+        clearError();
+        try {
+            const res = await authedFetch('/api/grocery', {
+                method: 'POST',
+                body: JSON.stringify({
+                    name: suggestion.name,
+                    quantity: suggestion.quantity,
+                    category: suggestion.category,
+                    listId: activeListId,
+                }),
+            });
+            await assertOk(res, 'Failed to add grocery item');
+            const data = await res.json();
+            mergeAddedItems([data.item]);
+            setSuggestions(prev => prev.filter(entry => entry.name !== suggestion.name));
+        } catch (error) {
+            setUiError(error, 'Failed to add grocery item', () => addSuggestion(suggestion));
+        }
+    };
+
+    // Items from a quick-add batch replace same-named items already on the list
+    const mergeAddedItems = (added: GroceryItem[]) => {
+        setItems(prev => {
+            const addedIds = new Set(added.map(item => item.id));
+            return [...added, ...prev.filter(item => !addedIds.has(item.id))];
+        });
+    };
+
     const addCategory = async () => {
         if (!newCategory.trim() || categories.includes(newCategory.trim())) return;
         clearError();
@@ -293,14 +737,26 @@ function GroceryListContent() {
         const item = items.find(i => i.id === id);
         if (!item) return;
         clearError();
+        const changes = { completed: !item.completed };
         try {
-            const res = await authedFetch('/api/grocery', {
-                method: 'PUT',
-                body: JSON.stringify({ id, completed: !item.completed }),
-            });
-            await assertOk(res, 'Failed to update grocery item');
-            const data = await res.json();
-            setItems(prev => prev.map(it => it.id === id ? data.item : it));
+            await sendOrQueue(
+                buildUpdateOp(item, changes),
+                async () => {
+                    const res = await authedFetch('/api/grocery', {
+                        method: 'PUT',
+                        // The selected store learns its walking order from check-offs
+                        body: JSON.stringify({
+                            id,
+                            ...changes,
+                            ...(activeStoreId !== null ? { storeId: activeStoreId } : {}),
+                        }),
+                    });
+                    await assertOk(res, 'Failed to update grocery item');
+                    const data = await res.json();
+                    setItems(prev => prev.map(it => it.id === id ? data.item : it));
+                },
+                () => setItems(prev => prev.map(it => it.id === id ? { ...it, ...changes } : it)),
+            );
         } catch (error) {
             setUiError(error, 'Failed to toggle grocery item', () => toggleItem(id));
         }
@@ -308,10 +764,17 @@ function GroceryListContent() {
 
     const deleteItem = async (id: number) => {
         clearError();
+        const removeLocally = () => setItems(prev => prev.filter(item => item.id !== id));
         try {
-            const res = await authedFetch(`/api/grocery?id=${id}`, { method: 'DELETE' });
-            await assertOk(res, 'Failed to delete grocery item');
-            setItems(prev => prev.filter(item => item.id !== id));
+            await sendOrQueue(
+                { kind: 'delete', itemId: id },
+                async () => {
+                    const res = await authedFetch(`/api/grocery?id=${id}`, { method: 'DELETE' });
+                    await assertOk(res, 'Failed to delete grocery item');
+                    removeLocally();
+                },
+                removeLocally,
+            );
         } catch (error) {
             setUiError(error, 'Failed to delete grocery item', () => deleteItem(id));
         }
@@ -339,10 +802,11 @@ function GroceryListContent() {
         try {
             const res = await authedFetch('/api/grocery/clear', {
                 method: 'POST',
-                body: JSON.stringify({ action: 'completed' }),
+                body: JSON.stringify({ action: 'completed', listId: activeListId }),
             });
             await assertOk(res, 'Failed to clear completed items');
             setItems(prev => prev.filter(item => !item.completed));
+            void fetchSuggestions();
         } catch (error) {
             setUiError(error, 'Failed to clear completed items', clearCompleted);
         }
@@ -353,16 +817,95 @@ function GroceryListContent() {
         try {
             const res = await authedFetch('/api/grocery/clear', {
                 method: 'POST',
-                body: JSON.stringify({ action: 'all' }),
+                body: JSON.stringify({ action: 'all', listId: activeListId }),
             });
             await assertOk(res, 'Failed to clear grocery list');
             setItems([]);
             cancelEdit();
+            void fetchSuggestions();
         } catch (error) {
             setUiError(error, 'Failed to clear all items', clearAll);
         }
     };
 
+    const finishTrip = async () => {
+        clearError();
+        setIsFinishingTrip(true);
+        try {
+            const res = await authedFetch('/api/grocery/finish-trip', {
+                method: 'POST',
+                body: JSON.stringify({ listId: activeListId }),
+            });
+            await assertOk(res, 'Failed to move items to the pantry');
+            const data = await res.json();
+            setItems(prev => prev.filter(item => !item.completed));
+            setFinishedTrip({ listId: data.listId, movedCount: data.movedCount, added: data.added || [] });
+            void fetchSuggestions();
+        } catch (error) {
+            setUiError(error, 'Failed to move items to the pantry', finishTrip);
+        } finally {
+            setIsFinishingTrip(false);
+        }
+    };
+
+    const undoFinishTrip = async () => {
+        if (!finishedTrip) return;
+        clearError();
+        try {
+            const res = await authedFetch('/api/grocery/finish-trip/undo', {
+                method: 'POST',
+                body: JSON.stringify({ listId: finishedTrip.listId, added: finishedTrip.added }),
+            });
+            await assertOk(res, 'Failed to undo trip');
+            setFinishedTrip(null);
+            await Promise.all([fetchItems(), fetchSuggestions()]);
+        } catch (error) {
+            setUiError(error, 'Failed to undo trip', undoFinishTrip);
+        }
+    };
+
+    // Offer the undo for a short while only
+    useEffect(() => {
+        if (!finishedTrip) return;
+        const timer = setTimeout(() => setFinishedTrip(null), 15000);
+        return () => clearTimeout(timer);
+    }, [finishedTrip]);
+
+    const createList = async () => {
+        const name = newListName.trim();
+        if (!name) return;
+        clearError();
+        try {
+            const res = await authedFetch('/api/grocery/lists', {
+                method: 'POST',
+                body: JSON.stringify({ name }),
+            });
+            await assertOk(res, 'Failed to create list');
+            const data = await res.json();
+            setLists(prev => [...prev, data.list]);
+            setActiveListId(data.list.id);
+            setNewListName('');
+            setShowNewList(false);
+        } catch (error) {
+            setUiError(error, 'Failed to create list', createList);
+        }
+    };
+
+    const deleteList = async (id: number) => {
+        const list = lists.find(l => l.id === id);
+        if (!list || !confirm(`Delete "${list.name}" and all of its items?`)) return;
+        clearError();
+        try {
+            const res = await authedFetch(`/api/grocery/lists?id=${id}`, { method: 'DELETE' });
+            await assertOk(res, 'Failed to delete list');
+            const remaining = lists.filter(l => l.id !== id);
+            setLists(remaining);
+            setActiveListId(remaining[0]?.id ?? null);
+        } catch (error) {
+            setUiError(error, 'Failed to delete list', () => deleteList(id));
+        }
+    };
+
     const filteredItems = items.filter(item => {
         if (filter === 'active' && item.completed) return false;
         if (filter === 'completed' && !item.completed) return false;
@@ -379,6 +922,10 @@ function GroceryListContent() {
         return [...catItems.filter(i => !i.completed), ...catItems.filter(i => i.completed)];
     };
 
+    // Hide suggestions for anything added by hand since they were fetched
+    const listedNames = new Set(items.map(item => item.name.toLowerCase()));
+    const visibleSuggestions = suggestions.filter(suggestion => !listedNames.has(suggestion.name.toLowerCase()));
+
     const totalItems = items.length;
     const completedItems = items.filter(item => item.completed).length;
     const activeItems = totalItems - completedItems;
@@ -406,10 +953,22 @@ function GroceryListContent() {
                                     onDismiss={clearError}
                                     onRetry={() => {
                                         if (apiError.onRetry) { void apiError.onRetry(); return; }
-                                        void Promise.all([fetchItems(), fetchCategories()]);
+                                        void Promise.all([fetchLists(), fetchItems(), fetchCategories(), fetchStores()]);
                                     }}
                                 />
                             )}
+                            {(isOffline || pendingCount > 0) && (
+                                <ApiErrorBanner
+                                    message={
+                                        isOffline
+                                            ? "You're offline — showing the list saved on this device"
+                                            : isSyncing ? 'Syncing offline changes…' : "Offline changes haven't synced yet"
+                                    }
+                                    syncState={isOffline ? 'offline' : 'pending'}
+                                    pendingCount={pendingCount}
+                                    onRetry={isSyncing ? undefined : () => void syncQueue()}
+                                />
+                            )}
 
                             {/* Header: title + stats + photo button */}
                             <div
@@ -424,7 +983,57 @@ function GroceryListContent() {
                                             <ShoppingCart className="h-5 w-5 text-primary" />
                                         </div>
                                         <div>
-                                            <h1 className="text-lg font-bold text-foreground leading-tight">Grocery List</h1>
+                                            <div className="flex items-center gap-1.5">
+                                                <h1 className="sr-only">Grocery List</h1>
+                                                {showNewList ? (
+                                                    <Input
+                                                        autoFocus
+                                                        placeholder="List name..."
+                                                        value={newListName}
+                                                        onChange={(e) => setNewListName(e.target.value)}
+                                                        onKeyDown={(e) => {
+                                                            if (e.key === 'Enter') createList();
+                                                            if (e.key === 'Escape') { setShowNewList(false); setNewListName(''); }
+                                                        }}
+                                                        onBlur={() => { if (!newListName.trim()) setShowNewList(false); }}
+                                                        className="h-8 w-44 rounded-lg text-sm bg-white/70"
+                                                    />
+                                                ) : (
+                                                    <Select
+                                                        value={activeListId !== null ? String(activeListId) : undefined}
+                                                        onValueChange={(value) => setActiveListId(Number(value))}
+                                                    >
+                                                        <SelectTrigger className="h-8 w-auto min-w-[140px] gap-2 border-none bg-transparent px-1 text-lg font-bold text-foreground shadow-none">
+                                                            <SelectValue placeholder="Grocery List" />
+                                                        </SelectTrigger>
+                                                        <SelectContent>
+                                                            {lists.map(list => (
+                                                                <SelectItem key={list.id} value={String(list.id)}>{list.name}</SelectItem>
+                                                            ))}
+                                                        </SelectContent>
+                                                    </Select>
+                                                )}
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() => setShowNewList(true)}
+                                                    className="h-7 w-7 rounded-lg"
+                                                    title="New list"
+                                                >
+                                                    <ListPlus className="h-4 w-4" />
+                                                </Button>
+                                                {lists.length > 1 && activeListId !== null && (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="icon"
+                                                        onClick={() => deleteList(activeListId)}
+                                                        className="h-7 w-7 rounded-lg hover:bg-red-100 hover:text-red-600"
+                                                        title="Delete this list"
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </Button>
+                                                )}
+                                            </div>
                                             <div className="flex items-center gap-2 mt-0.5">
                                                 <span className="text-[12px] text-foreground/60">
                                                     <span className="font-bold" style={{ color: '#0A84FF' }}>{activeItems}</span> to buy
@@ -456,6 +1065,43 @@ function GroceryListContent() {
                                                 Added {importedCount} from meal plan
                                             </span>
                                         )}
+                                        {pantryReducedCount > 0 && (
+                                            <span className="flex items-center gap-1.5 rounded-full bg-amber-100/80 dark:bg-amber-900/30 backdrop-blur-sm px-3 py-1 text-[12px] font-semibold text-amber-700 dark:text-amber-400">
+                                                {pantryReducedCount} reduced by pantry stock
+                                            </span>
+                                        )}
+                                        <div className="flex items-center gap-0.5 rounded-full bg-white/60 dark:bg-white/10 pl-2.5 pr-1">
+                                            <Store className="h-3.5 w-3.5 text-foreground/60" />
+                                            <Select
+                                                value={activeStoreId !== null ? String(activeStoreId) : NO_STORE_VALUE}
+                                                onValueChange={(value) => {
+                                                    if (value === 'new') openStoreDialog(null);
+                                                    else selectStore(value);
+                                                }}
+                                            >
+                                                <SelectTrigger className="h-8 w-auto min-w-[110px] gap-1.5 border-none bg-transparent px-1.5 text-sm shadow-none">
+                                                    <SelectValue placeholder="Any store" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value={NO_STORE_VALUE}>Any store</SelectItem>
+                                                    {stores.map(store => (
+                                                        <SelectItem key={store.id} value={String(store.id)}>{store.name}</SelectItem>
+                                                    ))}
+                                                    <SelectItem value="new">+ New store...</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            {activeStoreId !== null && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() => openStoreDialog(stores.find(store => store.id === activeStoreId) ?? null)}
+                                                    className="h-7 w-7 rounded-full"
+                                                    title="Edit store layout"
+                                                >
+                                                    <Settings className="h-3.5 w-3.5" />
+                                                </Button>
+                                            )}
+                                        </div>
                                         <Button
                                             onClick={() => setImageDialogOpen(true)}
                                             className="rounded-full h-9 px-5 shadow-md bg-amber-600 hover:bg-amber-700 text-white text-sm font-medium"
@@ -467,6 +1113,103 @@ function GroceryListContent() {
                                 </div>
                             </div>
 
+                            {/* Trip total and weekly budget */}
+                            {budget && (
+                                <div className="flex flex-wrap items-center gap-x-3 gap-y-1.5 rounded-2xl bg-card shadow-sm border border-border/50 px-4 py-2 text-[12px] text-foreground/70">
+                                    <Wallet className="h-4 w-4 text-emerald-600" />
+                                    <span>
+                                        Cart <span className="font-bold text-foreground">{formatMoney(budget.trip.total)}</span>
+                                    </span>
+                                    <span className="text-foreground/20">|</span>
+                                    <span title={budget.list.unpricedCount > 0 ? `${budget.list.unpricedCount} items have no price` : undefined}>
+                                        List ≈ <span className="font-bold text-foreground">{formatMoney(budget.list.total)}</span>
+                                        {budget.list.unpricedCount > 0 && (
+                                            <span className="text-foreground/40"> ({budget.list.unpricedCount} unpriced)</span>
+                                        )}
+                                    </span>
+                                    <span className="text-foreground/20">|</span>
+                                    {editingBudget ? (
+                                        <span className="flex items-center gap-1.5">
+                                            Weekly budget $
+                                            <Input
+                                                autoFocus
+                                                type="number"
+                                                min="0"
+                                                step="1"
+                                                value={budgetInput}
+                                                onChange={(e) => setBudgetInput(e.target.value)}
+                                                onKeyDown={(e) => {
+                                                    if (e.key === 'Enter') saveBudget();
+                                                    if (e.key === 'Escape') setEditingBudget(false);
+                                                }}
+                                                className="h-7 w-24 rounded-lg text-xs"
+                                            />
+                                            <Button size="sm" onClick={saveBudget} className="h-7 rounded-lg text-xs">Save</Button>
+                                        </span>
+                                    ) : budget.weeklyBudget !== null ? (
+                                        <>
+                                            <span>
+                                                This week <span className="font-bold text-foreground">{formatMoney(budget.spentThisWeek + budget.trip.total)}</span>
+                                                {' '}of {formatMoney(budget.weeklyBudget)}
+                                            </span>
+                                            <div className="w-24 h-1.5 bg-muted rounded-full overflow-hidden">
+                                                <div
+                                                    className={`h-full rounded-full transition-all duration-500 ${
+                                                        (budget.remaining ?? 0) < 0 ? 'bg-red-500' : 'bg-emerald-500'
+                                                    }`}
+                                                    style={{ width: `${Math.min(100, ((budget.spentThisWeek + budget.trip.total) / budget.weeklyBudget) * 100)}%` }}
+                                                />
+                                            </div>
+                                            <span className={`font-semibold ${(budget.remaining ?? 0) < 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                                                {(budget.remaining ?? 0) < 0
+                                                    ? `${formatMoney(-(budget.remaining ?? 0))} over`
+                                                    : `${formatMoney(budget.remaining ?? 0)} left`}
+                                            </span>
+                                        </>
+                                    ) : (
+                                        <span>
+                                            This week <span className="font-bold text-foreground">{formatMoney(budget.spentThisWeek + budget.trip.total)}</span>
+                                        </span>
+                                    )}
+                                    {!editingBudget && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => {
+                                                setBudgetInput(budget.weeklyBudget !== null ? String(budget.weeklyBudget) : '');
+                                                setEditingBudget(true);
+                                            }}
+                                            className="h-6 rounded-lg px-2 text-[11px]"
+                                        >
+                                            {budget.weeklyBudget !== null ? 'Edit budget' : 'Set budget'}
+                                        </Button>
+                                    )}
+                                </div>
+                            )}
+
+                            {finishedTrip && (
+                                <div className="flex items-center justify-between gap-3 rounded-2xl border border-green-200 bg-green-50 dark:bg-green-900/20 dark:border-green-800 px-4 py-2.5 text-sm text-green-800 dark:text-green-300">
+                                    <span className="flex items-center gap-2">
+                                        <PackageCheck className="h-4 w-4" />
+                                        Moved {finishedTrip.movedCount} {finishedTrip.movedCount === 1 ? 'item' : 'items'} to your pantry
+                                        {finishedTrip.added.length > 0 && (
+                                            <span className="text-xs text-green-700/70 dark:text-green-400/70 truncate">
+                                                ({finishedTrip.added.map(entry => entry.quantity ? `${entry.quantity} ${entry.name}` : entry.name).join(', ')})
+                                            </span>
+                                        )}
+                                    </span>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        <Button variant="ghost" size="sm" onClick={undoFinishTrip} className="h-7 rounded-lg text-xs">
+                                            <Undo2 className="h-3 w-3 mr-1" />
+                                            Undo
+                                        </Button>
+                                        <Button variant="ghost" size="icon" onClick={() => setFinishedTrip(null)} className="h-7 w-7 rounded-lg">
+                                            <X className="h-3 w-3" />
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+
                             {/* Add item form */}
                             <div className="rounded-2xl bg-card shadow-sm border border-border/50 px-4 sm:px-5 py-3">
                                 <div className="flex items-center gap-2">
@@ -492,6 +1235,7 @@ function GroceryListContent() {
                                             <SelectValue placeholder="Category" />
                                         </SelectTrigger>
                                         <SelectContent>
+                                            <SelectItem value={AUTO_CATEGORY}>Auto</SelectItem>
                                             {categories.map(cat => (
                                                 <SelectItem key={cat} value={cat}>{cat}</SelectItem>
                                             ))}
@@ -504,6 +1248,33 @@ function GroceryListContent() {
                                     >
                                         {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
                                     </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setQuickAddOpen(true)}
+                                        className="h-10 w-10 rounded-xl"
+                                        title="Quick add several items"
+                                    >
+                                        <Sparkles className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setStaplesOpen(true)}
+                                        className="h-10 w-10 rounded-xl"
+                                        title="Staples"
+                                    >
+                                        <Repeat className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="icon"
+                                        onClick={() => setExportOpen(true)}
+                                        className="h-10 w-10 rounded-xl"
+                                        title="Export & share"
+                                    >
+                                        <Share2 className="h-4 w-4" />
+                                    </Button>
 
                                     {/* Category management gear */}
                                     <div className="relative" ref={categoryPopoverRef}>
@@ -549,6 +1320,31 @@ function GroceryListContent() {
                                         )}
                                     </div>
                                 </div>
+
+                                {/* Buy-again chips */}
+                                {visibleSuggestions.length > 0 && (
+                                    <div className="flex flex-wrap items-center gap-1.5 mt-2.5">
+                                        <span className="flex items-center gap-1 text-[11px] text-muted-foreground">
+                                            <History className="h-3 w-3" />
+                                            Buy again:
+                                        </span>
+                                        {visibleSuggestions.map(suggestion => (
+                                            <button
+                                                key={suggestion.name}
+                                                onClick={() => addSuggestion(suggestion)}
+                                                title={suggestion.message}
+                                                className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs transition-colors hover:bg-primary/10 ${
+                                                    suggestion.reason === 'overdue'
+                                                        ? 'border-primary/50 text-primary'
+                                                        : 'border-border text-muted-foreground'
+                                                }`}
+                                            >
+                                                <Plus className="h-3 w-3" />
+                                                {suggestion.name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
                             </div>
 
                             {/* Search + filter toolbar */}
@@ -607,6 +1403,11 @@ function GroceryListContent() {
                                                             }
                                                             <span className="text-base">{theme.icon}</span>
                                                             <span className={`text-[14px] font-semibold ${theme.text}`}>{category}</span>
+                                                            {categoryAisles[category] && (
+                                                                <span className={`text-[11px] font-medium ${theme.text} opacity-60`}>
+                                                                    Aisle {categoryAisles[category]}
+                                                                </span>
+                                                            )}
                                                         </div>
                                                         <span className={`text-[11px] font-bold rounded-full px-2.5 py-0.5 ${theme.badge}`}>
                                                             {categoryItems.length}
@@ -638,17 +1439,43 @@ function GroceryListContent() {
 
                                                                         {!isEditing ? (
                                                                             <>
-                                                                                <div className="flex-1 min-w-0 flex items-center gap-1.5">
-                                                                                    <span className={`text-[13px] font-medium truncate ${
-                                                                                        item.completed ? 'line-through text-muted-foreground' : ''
-                                                                                    }`}>
-                                                                                        {item.name}
-                                                                                    </span>
-                                                                                    {item.quantity && (
-                                                                                        <span className="text-[11px] text-muted-foreground shrink-0">{item.quantity}</span>
-                                                                                    )}
-                                                                                    {item.fromMealPlan && (
-                                                                                        <span className="h-1.5 w-1.5 rounded-full bg-primary flex-shrink-0" title="From meal plan" />
+                                                                                <div className="flex-1 min-w-0">
+                                                                                    <div className="flex items-center gap-1.5">
+                                                                                        <span className={`text-[13px] font-medium truncate ${
+                                                                                            item.completed ? 'line-through text-muted-foreground' : ''
+                                                                                        }`}>
+                                                                                            {item.name}
+                                                                                        </span>
+                                                                                        {item.quantity && (
+                                                                                            <span className="text-[11px] text-muted-foreground shrink-0">{item.quantity}</span>
+                                                                                        )}
+                                                                                        {item.packageQuantity && (
+                                                                                            <span
+                                                                                                className="text-[10px] rounded bg-muted px-1 text-muted-foreground shrink-0"
+                                                                                                title={`Recipes need ${item.quantity}; buy ${item.packageQuantity}`}
+                                                                                            >
+                                                                                                buy {item.packageQuantity}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {item.cost != null && (
+                                                                                            <span
+                                                                                                className="text-[11px] font-medium text-emerald-700 dark:text-emerald-400 shrink-0"
+                                                                                                title={formatUnitPrice(item)}
+                                                                                            >
+                                                                                                {formatMoney(item.cost)}
+                                                                                            </span>
+                                                                                        )}
+                                                                                        {item.fromMealPlan && (
+                                                                                            <span className="h-1.5 w-1.5 rounded-full bg-primary flex-shrink-0" title="From meal plan" />
+                                                                                        )}
+                                                                                    </div>
+                                                                                    {item.sources && item.sources.length > 0 && (
+                                                                                        <p
+                                                                                            className="text-[10px] text-muted-foreground truncate"
+                                                                                            title={formatItemSources(item.sources)}
+                                                                                        >
+                                                                                            for: {formatItemSources(item.sources)}
+                                                                                        </p>
                                                                                     )}
                                                                                 </div>
                                                                                 <div className="flex gap-0 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
@@ -704,6 +1531,30 @@ function GroceryListContent() {
                                                                                         </SelectContent>
                                                                                     </Select>
                                                                                 </div>
+                                                                                <div className="grid grid-cols-2 gap-2">
+                                                                                    <Input
+                                                                                        type="number"
+                                                                                        min="0"
+                                                                                        step="0.01"
+                                                                                        placeholder="Price ($)"
+                                                                                        value={editPrice}
+                                                                                        onChange={(e) => setEditPrice(e.target.value)}
+                                                                                        onKeyDown={(e) => handleEditKey(e, item.id)}
+                                                                                        className="h-8 rounded-lg text-sm"
+                                                                                    />
+                                                                                    <Select value={editPriceUnit} onValueChange={setEditPriceUnit}>
+                                                                                        <SelectTrigger className="h-8 rounded-lg text-sm bg-background">
+                                                                                            <SelectValue />
+                                                                                        </SelectTrigger>
+                                                                                        <SelectContent>
+                                                                                            {[...new Set([editPriceUnit, ...PRICE_UNITS])].map((unit) => (
+                                                                                                <SelectItem key={unit} value={unit}>
+                                                                                                    {unit === PER_ITEM_PRICE_UNIT ? 'each' : `per ${unit}`}
+                                                                                                </SelectItem>
+                                                                                            ))}
+                                                                                        </SelectContent>
+                                                                                    </Select>
+                                                                                </div>
                                                                                 <div className="flex gap-2">
                                                                                     <Button size="sm" onClick={() => saveEdit(item.id)} disabled={isSaving} className="h-7 rounded-lg text-xs">
                                                                                         {isSaving ? <Loader2 className="h-3 w-3 animate-spin mr-1" /> : <Save className="h-3 w-3 mr-1" />}
@@ -729,6 +1580,21 @@ function GroceryListContent() {
                                     {/* Bottom action row */}
                                     {(completedItems > 0 || totalItems > 0) && (
                                         <div className="flex items-center justify-end gap-3 px-4 sm:px-5 py-3 border-t border-border/30">
+                                            {completedItems > 0 && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="sm"
+                                                    onClick={finishTrip}
+                                                    disabled={isFinishingTrip}
+                                                    className="text-xs h-7 rounded-lg text-green-700 hover:text-green-800 hover:bg-green-50"
+                                                    title="Move checked-off items into your pantry"
+                                                >
+                                                    {isFinishingTrip
+                                                        ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                                        : <PackageCheck className="h-3 w-3 mr-1" />}
+                                                    Finish Trip ({completedItems})
+                                                </Button>
+                                            )}
                                             {completedItems > 0 && (
                                                 <Button variant="ghost" size="sm" onClick={clearCompleted} className="text-xs h-7 rounded-lg">
                                                     Clear Completed ({completedItems})
@@ -772,7 +1638,37 @@ function GroceryListContent() {
                         <ImageClassificationDialog
                             open={imageDialogOpen}
                             onOpenChange={setImageDialogOpen}
-                            onResult={(label) => setNewItem(label)}
+                            onResult={(label) => {
+                                setNewItem(label);
+                                setNewItemCategory(AUTO_CATEGORY);
+                            }}
+                        />
+                        <QuickAddDialog<GroceryItem>
+                            open={quickAddOpen}
+                            onOpenChange={setQuickAddOpen}
+                            target="grocery"
+                            categories={categories}
+                            listId={activeListId}
+                            onCommitted={mergeAddedItems}
+                        />
+                        <StoreLayoutDialog
+                            isOpen={storeDialogOpen}
+                            onOpenChange={setStoreDialogOpen}
+                            store={editingStore}
+                            categories={categories}
+                            onSaved={handleStoreSaved}
+                            onDeleted={handleStoreDeleted}
+                        />
+                        <StaplesDialog<GroceryItem>
+                            isOpen={staplesOpen}
+                            onOpenChange={setStaplesOpen}
+                            categories={categories}
+                            onRestocked={(added) => mergeAddedItems(added.filter(item => item.listId === activeListId))}
+                        />
+                        <ExportShareDialog
+                            isOpen={exportOpen}
+                            onOpenChange={setExportOpen}
+                            listId={activeListId}
                         />
                     </main>
                 </div>
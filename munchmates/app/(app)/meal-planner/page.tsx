@@ -2,17 +2,39 @@
 // Implements the weekly MunchMates meal planning experience with drag-and-drop,
 // persistent storage, and tight integration with the grocery list.
 // Features:
-// - Week-based meal planning (Mon–Sun) with three slots per day (breakfast, lunch, dinner)
-// - Uses `getWeekMonday` + `formatLocalDateStr` to anchor plans to a stable local week start
-// - Loads an existing plan from the meal-plan API when authenticated, otherwise falls back
-//   to per-week localStorage (`mealPlan-<YYYY-MM-DD>`), creating an empty plan when needed
+// - Week-based meal planning with the user's meal slots per day (breakfast, lunch and
+//   dinner to start; snack, dessert or custom slots via `/api/meal-plan/slots`)
+// - The slot editor also sets each slot's meal time, used by the calendar feed (set up on the profile page)
+// - Each slot holds an ordered list of dishes, so a dinner can be a main plus sides
+// - Uses `getWeekStart` + `formatLocalDateStr` to anchor plans to a stable local week start;
+//   weeks start on the day set in the user's profile (`weekStartDay`, Monday by default)
+// - Month view (MonthCalendar) shows every planned dish of the month from `/api/meal-plan/range`;
+//   picking a day opens its week
+// - Loads the week from the meal-plan API; localStorage (`mealPlan-<YYYY-MM-DD>`) only caches
+//   the last plan the server confirmed and is shown when the server can't be reached
+// - Each change (add, move, servings, remove) is sent on its own to `/api/meal-plan/entries`,
+//   in order, with the plan version it was made against. If the week changed in another tab or
+//   device, the server answers 409 with its current plan, which replaces the local one
 // - Horizontal layout: days as rows, meal types as columns, with "Today" row visually highlighted
-// - Drag-and-drop support via `@dnd-kit/core` to move or swap recipes between meal slots
-//   (DraggableRecipeCard + MealSlot + DragOverlay)
+// - Drag-and-drop support via `@dnd-kit/core` to move recipes between meal slots or reorder
+//   them within one (DraggableRecipeCard + MealSlot + DragOverlay)
 // - RecipePickerDialog to add a recipe into one or multiple days for the same meal type
 // - Per-entry servings control, preserving original servings for later scaling logic
-// - "Save Plan" persists the current week to both localStorage and the `/api/meal-plan` endpoint
-// - "Generate Grocery List" aggregates ingredients via `aggregateIngredients(weekPlan)`,
+// - "Generate My Week" plans the week from the user's own recipes (`/api/meal-plan/generate`: saved,
+//   collection and custom recipes, aiming for the profile's calorie and protein goals and using up
+//   pantry items before they expire), replaces the slots it filled and saves through `/api/meal-plan`;
+//   the seed it used is kept so the same plan can be made again
+// - Templates menu: save the week as a named template, apply a template or copy last week
+//   forward (`/api/meal-plan/templates`, `/api/meal-plan/copy-week`), adding to or replacing
+//   what's planned; each day can also be duplicated onto another day (`/api/meal-plan/copy-day`)
+// - "Generate Grocery List" waits for pending changes and asks `/api/meal-plan/grocery` to aggregate,
+//   consolidate and import its ingredients server-side, then opens the grocery list (the
+//   month view imports the whole month)
+// - Estimated grocery cost for the week from the price book of last prices paid
+//   (GET `/api/meal-plan/grocery`), refreshed after every save
+// - Leftovers: a meal can be cooked in a bigger batch and later meals planned as its
+//   leftovers (LeftoverDialog); leftovers aren't bought for, and the planner warns when
+//   they use more servings than were cooked (GET `/api/meal-plan/leftovers`)
 
 'use client';
 
@@ -24,17 +46,30 @@ import {
   ChevronRight,
   ChevronUp,
   Coffee,
+  CalendarDays,
+  Cookie,
+  Copy,
+  IceCreamCone,
+  LayoutTemplate,
   Loader2,
   Moon,
+  Plus,
+  Settings2,
   ShoppingCart,
   Sparkles,
+  Trash2,
+  TriangleAlert,
   Utensils,
+  Wallet,
+  X,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { useCallback, useEffect, useRef, useState } from 'react';
 import AppSidebar from '@/components/layout/app-sidebar';
 import DraggableRecipeCard from '@/components/meal-planner/DraggableRecipeCard';
-import MealSlot from '@/components/meal-planner/MealSlot';
+import LeftoverDialog, { type LeftoverPlan } from '@/components/meal-planner/LeftoverDialog';
+import MealSlot, { type MealSlotDropTarget } from '@/components/meal-planner/MealSlot';
+import MonthCalendar from '@/components/meal-planner/MonthCalendar';
 import RecipePickerDialog from '@/components/meal-planner/RecipePickerDialog';
 import RequireAuth from '@/components/RequireAuth';
 import { Button } from '@/components/ui/button';
@@ -46,14 +81,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import ApiErrorBanner from '@/components/ui/api-error-banner';
 import { SidebarProvider } from '@/components/ui/sidebar';
-import { aggregateIngredients } from '@/lib/ingredient-aggregator';
 import { ensureToken } from '@/lib/keycloak';
+import {
+  addMealEntry,
+  countPlannedMeals,
+  DEFAULT_MEAL_SLOTS,
+  MAX_SLOT_NAME_LENGTH,
+  monthGridRange,
+  moveMealEntry,
+  normalizeSlotName,
+  normalizeWeeklyPlan,
+  planSlots,
+  removeMealEntry,
+  SUGGESTED_MEAL_SLOTS,
+  updateMealEntry,
+} from '@/lib/meal-plan';
+import {
+  applyWeek,
+  copyDay,
+  MAX_TEMPLATE_NAME_LENGTH,
+  type MealTemplateEntry,
+  mergeDays,
+  templateDays,
+} from '@/lib/meal-plan-templates';
+import { batchServings, type LeftoverBatch, leftoverEntry } from '@/lib/meal-plan-leftovers';
 import {
   createEmptyWeekPlan,
   type DayPlan,
+  DEFAULT_WEEK_START_DAY,
   generateMealEntryId,
-  getWeekMonday,
+  getWeekStart,
   type MealPlanEntry,
   type MealType,
   type NutritionDaySummary,
@@ -61,21 +120,59 @@ import {
   type WeeklyMealPlan,
 } from '@/lib/types/meal-plan';
 
-const DAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
-const MEALS: MealType[] = ['breakfast', 'lunch', 'dinner'];
+// Short weekday name for a YYYY-MM-DD date ("Mon")
+function dayLabel(date: string): string {
+  return new Date(date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short' });
+}
 
-const MEAL_ICONS = {
+const MEAL_ICONS: Record<string, { icon: typeof Coffee; color: string; bg: string }> = {
   breakfast: { icon: Coffee, color: '#FF9F0A', bg: 'bg-[#FF9F0A]/10' },
   lunch: { icon: Utensils, color: '#30D158', bg: 'bg-[#30D158]/10' },
   dinner: { icon: Moon, color: '#5E5CE6', bg: 'bg-[#5E5CE6]/10' },
+  snack: { icon: Cookie, color: '#FF375F', bg: 'bg-[#FF375F]/10' },
+  dessert: { icon: IceCreamCone, color: '#BF5AF2', bg: 'bg-[#BF5AF2]/10' },
 };
 
+// Custom slots share one look
+const CUSTOM_MEAL_ICON = { icon: Utensils, color: '#64D2FF', bg: 'bg-[#64D2FF]/10' };
+
 const DIET_OPTIONS = [
   '', 'Gluten Free', 'Ketogenic', 'Vegetarian', 'Lacto-Vegetarian',
   'Ovo-Vegetarian', 'Vegan', 'Pescetarian', 'Paleo', 'Primal',
   'Low FODMAP', 'Whole30',
 ];
 
+// A change to send to the server, built once the version to send it against is known
+type PlanRequest = (version: number) => { url: string; method: string; body?: unknown };
+
+// Shown above the planner when the plan on screen isn't simply the saved one
+interface PlanNotice {
+  message: string;
+  kind: 'conflict' | 'error' | 'offline';
+}
+
+// A saved week from GET /api/meal-plan/templates
+interface MealTemplate {
+  id: number;
+  name: string;
+  entryCount: number;
+  dayCount: number;
+  entries: MealTemplateEntry[];
+}
+
+// The week's batches from GET /api/meal-plan/leftovers
+interface WeekLeftovers {
+  batches: LeftoverBatch[];
+  warnings: string[];
+}
+
+// Estimated cost of a week's groceries from GET /api/meal-plan/grocery
+interface WeekCostEstimate {
+  total: number;
+  pricedCount: number;
+  unpricedCount: number;
+}
+
 function clampPercent(value: number | null): number {
   if (value === null || Number.isNaN(value)) return 0;
   return Math.max(0, Math.min(value, 100));
@@ -84,27 +181,59 @@ function clampPercent(value: number | null): number {
 const MealPlanner = () => {
   const router = useRouter();
   const [currentDate, setCurrentDate] = useState(() => new Date());
+  const [weekStartDay, setWeekStartDay] = useState(DEFAULT_WEEK_START_DAY);
+  const [view, setView] = useState<'week' | 'month'>('week');
+  const [monthDays, setMonthDays] = useState<DayPlan[]>([]);
+  const [monthLoading, setMonthLoading] = useState(false);
   const [weekPlan, setWeekPlan] = useState<WeeklyMealPlan | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
   const [isGeneratingGrocery, setIsGeneratingGrocery] = useState(false);
 
-  // autosave state
+  // save state: changes go to the server one at a time, each against the
+  // version of the last plan the server confirmed
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved'>('idle');
-  const saveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const weekPlanRef = useRef<WeeklyMealPlan | null>(null);
-  const isInitialLoadRef = useRef(true);
+  const [planNotice, setPlanNotice] = useState<PlanNotice | null>(null);
+  const serverPlanRef = useRef<WeeklyMealPlan | null>(null);
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingSavesRef = useRef(0);
 
   // generate preferences dropdown
   const [showGenPrefs, setShowGenPrefs] = useState(false);
-  const [genCalories, setGenCalories] = useState('2000');
+  const [genCalories, setGenCalories] = useState('');
   const [genDiet, setGenDiet] = useState('');
   const [genExclude, setGenExclude] = useState('');
+  // Max cooking time per slot, in minutes; empty means any
+  const [genMaxMinutes, setGenMaxMinutes] = useState<Record<string, string>>({});
+  const [genAvoidRepeatDays, setGenAvoidRepeatDays] = useState('7');
+  const [genSeed, setGenSeed] = useState('');
+  // What the generator couldn't manage, for the week it generated
+  const [genWarnings, setGenWarnings] = useState<{ weekStart: string; warnings: string[] } | null>(null);
+
+  // Templates menu
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [templateName, setTemplateName] = useState('');
+  const [templateReplace, setTemplateReplace] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const [copyDayFrom, setCopyDayFrom] = useState<string | null>(null);
+
+  // Leftovers
+  const [leftovers, setLeftovers] = useState<WeekLeftovers | null>(null);
+  const [leftoverSource, setLeftoverSource] = useState<{ entry: MealPlanEntry; date: string } | null>(null);
 
   // recipe picker state
   const [pickerOpen, setPickerOpen] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<{ dayDate: string; mealType: MealType } | null>(null);
 
+  // meal slots (columns), in the user's order
+  const [slots, setSlots] = useState<MealType[]>(DEFAULT_MEAL_SLOTS);
+  const [showSlotEditor, setShowSlotEditor] = useState(false);
+  const [newSlotName, setNewSlotName] = useState('');
+  const [slotError, setSlotError] = useState<string | null>(null);
+  const [slotTimes, setSlotTimes] = useState<Record<MealType, string | null>>({});
+
   // drag-and-drop state
   const [activeDragEntry, setActiveDragEntry] = useState<MealPlanEntry | null>(null);
 
@@ -116,6 +245,9 @@ const MealPlanner = () => {
   // dietary goals section collapse
   const [nutritionCollapsed, setNutritionCollapsed] = useState(false);
 
+  // estimated grocery cost for the week
+  const [weekCost, setWeekCost] = useState<WeekCostEstimate | null>(null);
+
   useEffect(() => {
     setCurrentDate(new Date());
     const savedDiet = localStorage.getItem('diets');
@@ -123,6 +255,32 @@ const MealPlanner = () => {
       const diets = JSON.parse(savedDiet);
       if (diets.length > 0) setGenDiet(diets[0]);
     }
+
+    // The profile's week start day; the copy on this device avoids loading the wrong week first
+    const savedWeekStartDay = localStorage.getItem('weekStartDay');
+    if (savedWeekStartDay !== null) setWeekStartDay(Number(savedWeekStartDay));
+
+    const loadWeekStartDay = async () => {
+      try {
+        const token = await ensureToken();
+        if (!token) return;
+
+        const res = await fetch('/api/profile', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) return;
+
+        const data = await res.json();
+        if (typeof data.weekStartDay === 'number') {
+          localStorage.setItem('weekStartDay', String(data.weekStartDay));
+          setWeekStartDay(data.weekStartDay);
+        }
+      } catch (error) {
+        console.error('Failed to load week start day:', error);
+      }
+    };
+
+    loadWeekStartDay();
   }, []);
 
   const formatLocalDateStr = (d: Date): string => {
@@ -132,11 +290,13 @@ const MealPlanner = () => {
     return `${year}-${month}-${day}`;
   };
 
-  const weekMonday = getWeekMonday(currentDate);
-  const weekStartStr = formatLocalDateStr(weekMonday);
+  const weekStart = getWeekStart(currentDate, weekStartDay);
+  const weekStartStr = formatLocalDateStr(weekStart);
+  const monthStartStr = `${formatLocalDateStr(currentDate).slice(0, 8)}01`;
+  const monthEndStr = formatLocalDateStr(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0));
 
   const getWeekRange = (date: Date) => {
-    const start = getWeekMonday(date);
+    const start = getWeekStart(date, weekStartDay);
     const end = new Date(start);
     end.setDate(start.getDate() + 6);
     return {
@@ -149,68 +309,163 @@ const MealPlanner = () => {
 
   const isCurrentWeek = (() => {
     const today = new Date();
-    const todayMonday = getWeekMonday(today);
-    return formatLocalDateStr(todayMonday) === weekStartStr;
+    return formatLocalDateStr(getWeekStart(today, weekStartDay)) === weekStartStr;
   })();
 
-  const doSave = useCallback(async (plan: WeeklyMealPlan) => {
-    setSaveStatus('saving');
+  const isCurrentMonth = formatLocalDateStr(new Date()).startsWith(monthStartStr.slice(0, 7));
+
+  // Unsaved weeks have no estimate (the endpoint answers 404)
+  const loadWeekCost = useCallback(async (weekStart: string) => {
     try {
-      const localKey = `mealPlan-${plan.weekStart}`;
-      localStorage.setItem(localKey, JSON.stringify(plan));
+      const token = await ensureToken();
+      if (!token) {
+        setWeekCost(null);
+        return;
+      }
 
+      const res = await fetch(`/api/meal-plan/grocery?weekStart=${weekStart}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setWeekCost(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Failed to load week cost estimate:', error);
+      setWeekCost(null);
+    }
+  }, []);
+
+  const loadLeftovers = useCallback(async (weekStart: string) => {
+    try {
       const token = await ensureToken();
-      if (token) {
-        const saveRes = await fetch('/api/meal-plan', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${token}`,
-          },
-          body: JSON.stringify({ plan }),
+      if (!token) {
+        setLeftovers(null);
+        return;
+      }
+
+      const res = await fetch(`/api/meal-plan/leftovers?weekStart=${weekStart}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setLeftovers(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error('Failed to load leftovers:', error);
+      setLeftovers(null);
+    }
+  }, []);
+
+  // Nutrition, cost and leftovers follow the saved plan
+  const refreshWeekSummary = useCallback(async (weekStart: string) => {
+    try {
+      const token = await ensureToken();
+      if (!token) return;
+
+      const nutritionRes = await fetch(`/api/meal-plan/nutrition-summary?weekStart=${weekStart}`, {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+
+      if (nutritionRes.ok) {
+        const nutritionData = await nutritionRes.json();
+        const days: NutritionDaySummary[] = nutritionData.days ?? [];
+        setNutritionDays(days);
+
+        setSelectedNutritionDate((prev) => {
+          if (prev && days.some((d) => d.date === prev)) return prev;
+
+          const todayStr = formatLocalDateStr(new Date());
+          if (days.some((d) => d.date === todayStr)) return todayStr;
+          return days[0]?.date ?? "";
         });
+      }
 
-        if (!saveRes.ok) {
-          throw new Error('Failed to save meal plan');
-        }
+      void loadWeekCost(weekStart);
+      void loadLeftovers(weekStart);
+    } catch (error) {
+      console.error('Failed to refresh week summary:', error);
+    }
+  }, [loadWeekCost, loadLeftovers]);
+
+  // The server's plan becomes the one to build on, and the one cached on this device
+  const acceptServerPlan = useCallback((plan: WeeklyMealPlan) => {
+    localStorage.setItem(`mealPlan-${plan.weekStart}`, JSON.stringify(plan));
+    if (serverPlanRef.current?.weekStart !== plan.weekStart) return;
+    serverPlanRef.current = plan;
+  }, []);
+
+  // Show the change right away, then send it after the ones before it. When
+  // the last pending change settles the planner shows the server's plan, which
+  // also undoes changes the server refused.
+  const sendPlanChange = useCallback((optimistic: WeeklyMealPlan, request: PlanRequest) => {
+    setWeekPlan(optimistic);
+    setPlanNotice(null);
+    setSaveStatus('saving');
+    pendingSavesRef.current++;
 
-        const nutritionRes = await fetch(`/api/meal-plan/nutrition-summary?weekStart=${plan.weekStart}`, {
+    const run = async () => {
+      try {
+        const token = await ensureToken();
+        if (!token) throw new Error('Sign in again to save changes');
+
+        const { url, method, body } = request(serverPlanRef.current?.version ?? 0);
+        const res = await fetch(url, {
+          method,
           headers: {
+            'Content-Type': 'application/json',
             Authorization: `Bearer ${token}`,
           },
+          body: body === undefined ? undefined : JSON.stringify(body),
         });
+        const data = await res.json().catch(() => ({}));
 
-        if (nutritionRes.ok) {
-          const nutritionData = await nutritionRes.json();
-          const days: NutritionDaySummary[] = nutritionData.days ?? [];
-          setNutritionDays(days);
-
-          setSelectedNutritionDate((prev) => {
-            if (prev && days.some((d) => d.date === prev)) return prev;
+        if (data.plan) acceptServerPlan(data.plan);
+        if (res.status === 409 && data.plan) {
+          setPlanNotice({ message: data.error?.message ?? 'This week was changed somewhere else.', kind: 'conflict' });
+        } else if (!res.ok) {
+          throw new Error(data.error?.message || 'Failed to save meal plan');
+        }
 
-            const todayStr = formatLocalDateStr(new Date());
-            if (days.some((d) => d.date === todayStr)) return todayStr;
-            return days[0]?.date ?? "";
-          });
+        setSaveStatus('saved');
+        void refreshWeekSummary(optimistic.weekStart);
+      } catch (error) {
+        console.error('Failed to save meal plan:', error);
+        setPlanNotice({
+          message: error instanceof TypeError
+            ? "Couldn't reach the server, so that change wasn't saved."
+            : error instanceof Error ? error.message : 'Failed to save meal plan',
+          kind: 'error',
+        });
+        setSaveStatus('idle');
+      } finally {
+        pendingSavesRef.current--;
+        const serverPlan = serverPlanRef.current;
+        if (pendingSavesRef.current === 0 && serverPlan) {
+          setWeekPlan((prev) => (prev?.weekStart === serverPlan.weekStart ? serverPlan : prev));
         }
       }
+    };
 
-      setSaveStatus('saved');
-    } catch (error) {
-      console.error('Failed to save meal plan:', error);
-      setSaveStatus('idle');
-    }
-  }, []);
+    const next = saveQueueRef.current.then(run);
+    saveQueueRef.current = next;
+    return next;
+  }, [acceptServerPlan, refreshWeekSummary]);
 
   useEffect(() => {
     const loadMealPlan = async () => {
       setIsLoading(true);
-      isInitialLoadRef.current = true;
+      setPlanNotice(null);
+      const localKey = `mealPlan-${weekStartStr}`;
+      const firstDay = new Date(weekStartStr + 'T00:00:00');
+
+      // Let changes still on their way to the server land first
+      await saveQueueRef.current;
+
+      const showPlan = (plan: WeeklyMealPlan) => {
+        serverPlanRef.current = plan;
+        setWeekPlan(plan);
+        setIsLoading(false);
+      };
+
       try {
         const token = await ensureToken();
-        const localKey = `mealPlan-${weekStartStr}`;
-        const localData = localStorage.getItem(localKey);
-
         if (token) {
           const res = await fetch(`/api/meal-plan?weekStart=${weekStartStr}`, {
             headers: { Authorization: `Bearer ${token}` },
@@ -219,26 +474,27 @@ const MealPlanner = () => {
           if (res.ok) {
             const data = await res.json();
             if (data.plan) {
-              setWeekPlan(data.plan);
               localStorage.setItem(localKey, JSON.stringify(data.plan));
-              setIsLoading(false);
-              return;
+              showPlan(data.plan);
+            } else {
+              localStorage.removeItem(localKey);
+              showPlan(createEmptyWeekPlan(firstDay));
             }
+            return;
           }
         }
-
-        if (localData) {
-          setWeekPlan(JSON.parse(localData));
-        } else {
-          const monday = new Date(weekStartStr + 'T00:00:00');
-          setWeekPlan(createEmptyWeekPlan(monday));
-        }
       } catch (error) {
         console.error('Failed to load meal plan:', error);
-        const monday = new Date(weekStartStr + 'T00:00:00');
-        setWeekPlan(createEmptyWeekPlan(monday));
-      } finally {
-        setIsLoading(false);
+      }
+
+      // Server unreachable: show the last plan it confirmed, if this device has one.
+      // Its version still goes with every change, so it can't overwrite newer edits.
+      const localData = localStorage.getItem(localKey);
+      if (localData) {
+        setPlanNotice({ message: 'Showing the copy of this week saved on this device.', kind: 'offline' });
+        showPlan(normalizeWeeklyPlan(JSON.parse(localData)));
+      } else {
+        showPlan(createEmptyWeekPlan(firstDay));
       }
     };
 
@@ -293,68 +549,114 @@ const MealPlanner = () => {
   }, [weekStartStr]);
 
   useEffect(() => {
-    weekPlanRef.current = weekPlan;
+    void loadWeekCost(weekStartStr);
+    void loadLeftovers(weekStartStr);
+  }, [weekStartStr, loadWeekCost, loadLeftovers]);
+
+  useEffect(() => {
+    const loadSlots = async () => {
+      try {
+        const token = await ensureToken();
+        if (!token) return;
+
+        const res = await fetch('/api/meal-plan/slots', {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) return;
+
+        const data = await res.json();
+        const loaded: { name: string; time: string | null }[] = data.slots ?? [];
+        if (loaded.length > 0) setSlots(loaded.map((slot) => slot.name));
+        setSlotTimes(Object.fromEntries(loaded.map((slot) => [slot.name, slot.time])));
+      } catch (error) {
+        console.error('Failed to load meal slots:', error);
+      }
+    };
+
+    loadSlots();
+  }, []);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const token = await ensureToken();
+      if (!token) return;
 
-    if (isInitialLoadRef.current) {
-      isInitialLoadRef.current = false;
-      return;
+      const res = await fetch('/api/meal-plan/templates', {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) return;
+
+      const data = await res.json();
+      setTemplates(data.templates ?? []);
+    } catch (error) {
+      console.error('Failed to load meal plan templates:', error);
     }
+  }, []);
 
-    if (!weekPlan) return;
+  useEffect(() => {
+    void loadTemplates();
+  }, [loadTemplates]);
 
-    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+  // The month view reads every week it shows at once
+  useEffect(() => {
+    if (view !== 'month') return;
 
-    saveTimeoutRef.current = setTimeout(() => {
-      doSave(weekPlan);
-    }, 1500);
+    const loadMonth = async () => {
+      setMonthLoading(true);
+      try {
+        // Show changes made in the week view
+        await saveQueueRef.current;
 
-    return () => {
-      if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
-    };
-  }, [weekPlan, doSave]);
-
-  const flushSave = useCallback(() => {
-    if (saveTimeoutRef.current) {
-      clearTimeout(saveTimeoutRef.current);
-      saveTimeoutRef.current = null;
-      if (weekPlanRef.current) {
-        doSave(weekPlanRef.current);
+        const token = await ensureToken();
+        if (!token) return;
+
+        const { from, to } = monthGridRange(monthStartStr, weekStartDay);
+        const res = await fetch(`/api/meal-plan/range?from=${from}&to=${to}`, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!res.ok) throw new Error('Failed to load month');
+
+        const data = await res.json();
+        setMonthDays(data.days ?? []);
+      } catch (error) {
+        console.error('Failed to load meal plan month:', error);
+        setMonthDays([]);
+      } finally {
+        setMonthLoading(false);
       }
-    }
-  }, [doSave]);
+    };
 
+    loadMonth();
+  }, [view, monthStartStr, weekStartDay]);
+
+  // Arrows step a week, or a month in the month view
   const prevWeek = () => {
-    flushSave();
     const newDate = new Date(currentDate);
-    newDate.setDate(currentDate.getDate() - 7);
+    if (view === 'month') newDate.setMonth(currentDate.getMonth() - 1, 1);
+    else newDate.setDate(currentDate.getDate() - 7);
     setCurrentDate(newDate);
   };
 
   const nextWeek = () => {
-    flushSave();
     const newDate = new Date(currentDate);
-    newDate.setDate(currentDate.getDate() + 7);
+    if (view === 'month') newDate.setMonth(currentDate.getMonth() + 1, 1);
+    else newDate.setDate(currentDate.getDate() + 7);
     setCurrentDate(newDate);
   };
 
-  const goToToday = () => {
-    flushSave();
-    setCurrentDate(new Date());
+  const handleSelectMonthDay = (date: string) => {
+    setCurrentDate(new Date(date + 'T00:00:00'));
+    setView('week');
   };
 
-  const updateDayPlan = (dayDate: string, mealType: MealType, entry: MealPlanEntry | undefined) => {
-    if (!weekPlan) return;
-    const newDays = weekPlan.days.map((day) => {
-      if (day.date === dayDate) return { ...day, [mealType]: entry };
-      return day;
-    });
-    setWeekPlan({ ...weekPlan, days: newDays });
+  const goToToday = () => {
+    setCurrentDate(new Date());
   };
 
-  const getEntry = (dayDate: string, mealType: MealType): MealPlanEntry | undefined => {
-    if (!weekPlan) return undefined;
+  const getEntries = (dayDate: string, mealType: MealType): MealPlanEntry[] => {
+    if (!weekPlan) return [];
     const day = weekPlan.days.find((d) => d.date === dayDate);
-    return day?.[mealType];
+    return day?.meals[mealType] ?? [];
   };
 
   const handleAddRecipe = (dayDate: string, mealType: MealType) => {
@@ -367,34 +669,79 @@ const MealPlanner = () => {
     selectedDays: string[]
   ) => {
     if (!selectedSlot || !weekPlan) return;
-    const newDays = weekPlan.days.map((day) => {
-      if (selectedDays.includes(day.date)) {
-        const entry: MealPlanEntry = {
-          id: generateMealEntryId(),
-          recipeId: recipe.id,
-          title: recipe.title,
-          image: recipe.image,
-          servings: recipe.servings,
-          originalServings: recipe.servings,
-          readyInMinutes: recipe.readyInMinutes,
-        };
-        return { ...day, [selectedSlot.mealType]: entry };
-      }
-      return day;
-    });
-    setWeekPlan({ ...weekPlan, days: newDays });
+    const { mealType } = selectedSlot;
+    let plan = weekPlan;
+
+    // One add per day, each sent on its own
+    for (const day of weekPlan.days) {
+      if (!selectedDays.includes(day.date)) continue;
+      const entry: MealPlanEntry = {
+        id: generateMealEntryId(),
+        recipeId: recipe.id,
+        title: recipe.title,
+        image: recipe.image,
+        servings: recipe.servings,
+        originalServings: recipe.servings,
+        readyInMinutes: recipe.readyInMinutes,
+      };
+      plan = addMealEntry(plan, { dayDate: day.date, mealType }, entry);
+      void sendPlanChange(plan, (version) => ({
+        url: '/api/meal-plan/entries',
+        method: 'POST',
+        body: { weekStart: plan.weekStart, version, date: day.date, mealType, entry },
+      }));
+    }
     setSelectedSlot(null);
   };
 
-  const handleUpdateServings = (dayDate: string, mealType: MealType, newServings: number) => {
+  const handleUpdateServings = (entryId: string, newServings: number) => {
     if (!weekPlan || newServings < 1) return;
-    const newDays = weekPlan.days.map((day) => {
-      if (day.date === dayDate && day[mealType]) {
-        return { ...day, [mealType]: { ...day[mealType], servings: newServings } };
-      }
-      return day;
-    });
-    setWeekPlan({ ...weekPlan, days: newDays });
+    void sendPlanChange(updateMealEntry(weekPlan, entryId, { servings: newServings }), (version) => ({
+      url: '/api/meal-plan/entries',
+      method: 'PATCH',
+      body: { weekStart: weekPlan.weekStart, version, entryId, servings: newServings },
+    }));
+  };
+
+  const handleUpdateCookedServings = (entryId: string, cookedServings: number | null) => {
+    if (!weekPlan) return;
+    void sendPlanChange(updateMealEntry(weekPlan, entryId, { cookedServings: cookedServings ?? undefined }), (version) => ({
+      url: '/api/meal-plan/entries',
+      method: 'PATCH',
+      body: { weekStart: weekPlan.weekStart, version, entryId, cookedServings },
+    }));
+  };
+
+  const handleOpenLeftovers = (entry: MealPlanEntry) => {
+    const day = weekPlan?.days.find((d) => Object.values(d.meals).some((entries) => entries.some((e) => e.id === entry.id)));
+    if (day) setLeftoverSource({ entry, date: day.date });
+  };
+
+  // Set the batch size first, then add a leftover meal for each day picked
+  const handlePlanLeftovers = ({ cookedServings, mealType, dates, servings }: LeftoverPlan) => {
+    const source = leftoverSource?.entry;
+    setLeftoverSource(null);
+    if (!weekPlan || !source) return;
+
+    let plan = weekPlan;
+    if (cookedServings !== batchServings(source)) {
+      plan = updateMealEntry(plan, source.id, { cookedServings });
+      void sendPlanChange(plan, (version) => ({
+        url: '/api/meal-plan/entries',
+        method: 'PATCH',
+        body: { weekStart: weekPlan.weekStart, version, entryId: source.id, cookedServings },
+      }));
+    }
+
+    for (const date of dates) {
+      const entry = leftoverEntry(source, servings);
+      plan = addMealEntry(plan, { dayDate: date, mealType }, entry);
+      void sendPlanChange(plan, (version) => ({
+        url: '/api/meal-plan/entries',
+        method: 'POST',
+        body: { weekStart: weekPlan.weekStart, version, date, mealType, entry },
+      }));
+    }
   };
 
   const getAvailableDays = () => {
@@ -405,8 +752,194 @@ const MealPlanner = () => {
     }));
   };
 
-  const handleRemoveRecipe = (dayDate: string, mealType: MealType) => {
-    updateDayPlan(dayDate, mealType, undefined);
+  const handleRemoveRecipe = (entryId: string) => {
+    if (!weekPlan) return;
+    void sendPlanChange(removeMealEntry(weekPlan, entryId), (version) => {
+      const params = new URLSearchParams({ weekStart: weekPlan.weekStart, version: String(version), entryId });
+      return { url: `/api/meal-plan/entries?${params}`, method: 'DELETE' };
+    });
+  };
+
+  const handleAddSlot = async (value: string) => {
+    const name = normalizeSlotName(value);
+    if (!name) return;
+    setSlotError(null);
+    try {
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch('/api/meal-plan/slots', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name }),
+      });
+
+      // Already there (e.g. added in another tab) is fine too
+      if (!res.ok && res.status !== 409) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to add meal slot');
+      }
+
+      if (res.ok) {
+        const data = await res.json();
+        setSlotTimes((prev) => ({ ...prev, [name]: data.slot?.time ?? null }));
+      }
+      setSlots((prev) => (prev.includes(name) ? prev : [...prev, name]));
+      setNewSlotName('');
+    } catch (error) {
+      console.error('Failed to add meal slot:', error);
+      setSlotError(error instanceof Error ? error.message : 'Failed to add meal slot');
+    }
+  };
+
+  const handleDeleteSlot = async (name: MealType) => {
+    setSlotError(null);
+    try {
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch(`/api/meal-plan/slots?name=${encodeURIComponent(name)}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || 'Failed to remove meal slot');
+      }
+
+      setSlots((prev) => prev.filter((slot) => slot !== name));
+    } catch (error) {
+      console.error('Failed to remove meal slot:', error);
+      setSlotError(error instanceof Error ? error.message : 'Failed to remove meal slot');
+    }
+  };
+
+  // An empty time goes back to the slot's default
+  const handleSetSlotTime = async (name: MealType, time: string) => {
+    setSlotError(null);
+    try {
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch('/api/meal-plan/slots', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name, time: time || null }),
+      });
+
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save meal time');
+      }
+
+      setSlotTimes((prev) => ({ ...prev, [name]: data.slot?.time ?? null }));
+    } catch (error) {
+      console.error('Failed to save meal time:', error);
+      setSlotError(error instanceof Error ? error.message : 'Failed to save meal time');
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!weekPlan || !templateName.trim()) return;
+    setTemplateError(null);
+    setIsSavingTemplate(true);
+    try {
+      // The template is made from the saved week
+      await saveQueueRef.current;
+
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch('/api/meal-plan/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ name: templateName, weekStart: weekPlan.weekStart }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error?.message || 'Failed to save template');
+      }
+
+      setTemplateName('');
+      void loadTemplates();
+    } catch (error) {
+      console.error('Failed to save meal plan template:', error);
+      setTemplateError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (id: number) => {
+    setTemplateError(null);
+    try {
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch(`/api/meal-plan/templates?id=${id}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      // Already gone (e.g. deleted in another tab) is fine too
+      if (!res.ok && res.status !== 404) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error?.message || 'Failed to delete template');
+      }
+
+      setTemplates((prev) => prev.filter((template) => template.id !== id));
+    } catch (error) {
+      console.error('Failed to delete meal plan template:', error);
+      setTemplateError(error instanceof Error ? error.message : 'Failed to delete template');
+    }
+  };
+
+  const handleApplyTemplate = (template: MealTemplate) => {
+    if (!weekPlan) return;
+    setShowTemplates(false);
+
+    const plan = applyWeek(weekPlan, templateDays(template.entries, weekPlan.weekStart), templateReplace);
+    void sendPlanChange(plan, (version) => ({
+      url: '/api/meal-plan/templates/apply',
+      method: 'POST',
+      body: { templateId: template.id, weekStart: weekPlan.weekStart, version, replace: templateReplace },
+    }));
+  };
+
+  // Last week may not be loaded here, so the copied meals show up once the server answers
+  const handleCopyLastWeek = () => {
+    if (!weekPlan) return;
+    setShowTemplates(false);
+
+    const plan = templateReplace ? applyWeek(weekPlan, [], true) : weekPlan;
+    void sendPlanChange(plan, (version) => ({
+      url: '/api/meal-plan/copy-week',
+      method: 'POST',
+      body: { weekStart: weekPlan.weekStart, version, replace: templateReplace },
+    }));
+  };
+
+  const handleCopyDay = (fromDate: string, toDate: string) => {
+    setCopyDayFrom(null);
+    const source = weekPlan?.days.find((day) => day.date === fromDate);
+    if (!weekPlan || !source) return;
+
+    void sendPlanChange(mergeDays(weekPlan, [copyDay(source, toDate)], false), (version) => ({
+      url: '/api/meal-plan/copy-day',
+      method: 'POST',
+      body: { weekStart: weekPlan.weekStart, version, fromDate, toDate },
+    }));
   };
 
   const handleDragStart = (event: DragStartEvent) => {
@@ -421,77 +954,77 @@ const MealPlanner = () => {
     if (!over || !weekPlan) return;
 
     const sourceEntry = active.data.current?.entry as MealPlanEntry;
-    const targetData = over.data.current as { dayDate: string; mealType: MealType };
+    const targetData = over.data.current as MealSlotDropTarget;
     if (!sourceEntry || !targetData) return;
 
-    let sourceDayDate: string | null = null;
-    let sourceMealType: MealType | null = null;
-
-    for (const day of weekPlan.days) {
-      for (const meal of MEALS) {
-        if (day[meal]?.id === sourceEntry.id) {
-          sourceDayDate = day.date;
-          sourceMealType = meal;
-          break;
-        }
-      }
-      if (sourceDayDate) break;
-    }
-
-    if (!sourceDayDate || !sourceMealType) return;
+    // Dropping a recipe on itself leaves it where it was
+    if (over.id === `${targetData.dayDate}-${targetData.mealType}-${sourceEntry.id}`) return;
 
-    const targetEntry = getEntry(targetData.dayDate, targetData.mealType);
-    const newDays = weekPlan.days.map((day) => {
-      const updated: DayPlan = { ...day };
-      if (day.date === sourceDayDate) updated[sourceMealType!] = targetEntry;
-      if (day.date === targetData.dayDate) updated[targetData.mealType] = sourceEntry;
-      return updated;
-    });
-
-    setWeekPlan({ ...weekPlan, days: newDays });
+    const { dayDate, mealType, index } = targetData;
+    void sendPlanChange(moveMealEntry(weekPlan, sourceEntry.id, targetData), (version) => ({
+      url: '/api/meal-plan/entries',
+      method: 'PATCH',
+      body: { weekStart: weekPlan.weekStart, version, entryId: sourceEntry.id, to: { date: dayDate, mealType, index } },
+    }));
   };
 
   const handleGenerateMealPlan = async () => {
     if (!weekPlan) return;
     setIsGenerating(true);
     setShowGenPrefs(false);
+    setGenWarnings(null);
     try {
-      const params = new URLSearchParams({ timeFrame: 'week' });
-      if (genCalories) params.set('targetCalories', genCalories);
-      if (genDiet && genDiet !== '__none') params.set('diet', genDiet);
-      if (genExclude) params.set('exclude', genExclude);
-
-      const res = await fetch(`/api/spoonacular/recipes/generateMealPlan?${params}`);
-      if (!res.ok) throw new Error('Failed to generate meal plan');
-      const data = await res.json();
+      const token = await ensureToken();
+      if (!token) return;
+
+      const limitedSlots = slots.filter((slot) => genMaxMinutes[slot]);
+      const maxReadyInMinutes = limitedSlots.length > 0
+        ? Object.fromEntries(limitedSlots.map((slot) => [slot, genMaxMinutes[slot]]))
+        : undefined;
+
+      const res = await fetch('/api/meal-plan/generate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          weekStart: weekPlan.weekStart,
+          seed: genSeed || undefined,
+          dailyCalories: genCalories || undefined,
+          diet: genDiet && genDiet !== '__none' ? genDiet : undefined,
+          exclude: genExclude || undefined,
+          maxReadyInMinutes,
+          avoidRepeatDays: genAvoidRepeatDays,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to generate meal plan');
+      }
 
-      const dayNames = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
-      const mealSlots: MealType[] = ['breakfast', 'lunch', 'dinner'];
-
-      const newDays = weekPlan.days.map((day, idx) => {
-        const spoonDay = data.week?.[dayNames[idx]];
-        if (!spoonDay?.meals) return day;
-
-        const updated: DayPlan = { ...day };
-        spoonDay.meals.forEach((meal: { id: number; title: string; servings: number; readyInMinutes?: number }, mealIdx: number) => {
-          if (mealIdx < 3) {
-            updated[mealSlots[mealIdx]] = {
-              id: generateMealEntryId(),
-              recipeId: meal.id,
-              title: meal.title,
-              image: `https://img.spoonacular.com/recipes/${meal.id}-312x231.jpg`,
-              servings: meal.servings || 1,
-              originalServings: meal.servings || 1,
-              readyInMinutes: meal.readyInMinutes,
-            };
-          }
-        });
-        return updated;
+      // The generated slots replace what was planned in them; other slots stay as they are
+      const generated = new Map<string, DayPlan>(data.days.map((day: DayPlan) => [day.date, day]));
+      const newDays = weekPlan.days.map((day) => {
+        const generatedDay = generated.get(day.date);
+        return generatedDay ? { ...day, meals: { ...day.meals, ...generatedDay.meals } } : day;
       });
 
-      setWeekPlan({ ...weekPlan, days: newDays });
+      setGenSeed(data.seed ?? '');
+      setGenWarnings({ weekStart: weekPlan.weekStart, warnings: data.warnings ?? [] });
+
+      const plan = { ...weekPlan, days: newDays };
+      void sendPlanChange(plan, (version) => ({
+        url: '/api/meal-plan',
+        method: 'POST',
+        body: { plan: { ...plan, version } },
+      }));
     } catch (error) {
       console.error('Failed to generate meal plan:', error);
+      setPlanNotice({
+        message: error instanceof Error ? error.message : 'Failed to generate meal plan',
+        kind: 'error',
+      });
     } finally {
       setIsGenerating(false);
     }
@@ -501,9 +1034,40 @@ const MealPlanner = () => {
     if (!weekPlan) return;
     setIsGeneratingGrocery(true);
     try {
-      const aggregated = await aggregateIngredients(weekPlan);
-      localStorage.setItem('pending-grocery-items', JSON.stringify(aggregated));
-      router.push('/grocery-list?fromMealPlan=true');
+      // Make sure the server has every change before building the list from it
+      await saveQueueRef.current;
+
+      const token = await ensureToken();
+      if (!token) return;
+
+      const res = await fetch('/api/meal-plan/grocery', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        // Import into whichever list was last open on the grocery page. The month
+        // view shops for the whole month.
+        body: JSON.stringify({
+          ...(view === 'month'
+            ? { from: monthStartStr, to: monthEndStr }
+            : { weekStart: weekPlan.weekStart }),
+          listId: Number(localStorage.getItem('groceryListId')) || undefined,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to import grocery list');
+      }
+
+      const data = await res.json();
+      const params = new URLSearchParams({
+        fromMealPlan: 'true',
+        added: String(data.addedCount ?? 0),
+        reduced: String(data.reduced?.length ?? 0),
+        listId: String(data.listId ?? ''),
+      });
+      router.push(`/grocery-list?${params.toString()}`);
     } catch (error) {
       console.error('Failed to generate grocery list:', error);
     } finally {
@@ -511,11 +1075,24 @@ const MealPlanner = () => {
     }
   };
 
-  const hasRecipes = weekPlan?.days.some((day) => day.breakfast || day.lunch || day.dinner);
+  const hasRecipes = countPlannedMeals(weekPlan) > 0;
+  const monthHasRecipes = monthDays.some((day) =>
+    day.date >= monthStartStr && day.date <= monthEndStr && Object.values(day.meals).some((entries) => entries.length > 0));
+
+  // Columns: the user's slots, plus any removed slot that still has meals in it
+  const visibleSlots = planSlots(weekPlan, slots);
+  const remainingServings = Object.fromEntries(
+    (leftovers?.batches ?? []).map((batch) => [batch.entryId, batch.remainingServings]),
+  );
+  const leftoverBatch = leftovers?.batches.find((batch) => batch.entryId === leftoverSource?.entry.id);
 
+  // A meal is a slot with at least one dish planned in it
   const mealCount = weekPlan?.days.reduce((count, day) => {
-    return count + (day.breakfast ? 1 : 0) + (day.lunch ? 1 : 0) + (day.dinner ? 1 : 0);
+    return count + visibleSlots.filter((slot) => (day.meals[slot]?.length ?? 0) > 0).length;
   }, 0) ?? 0;
+  const mealCapacity = (weekPlan?.days.length ?? 7) * visibleSlots.length;
+
+  const suggestedSlots = SUGGESTED_MEAL_SLOTS.filter((slot) => !slots.includes(slot));
 
   const selectedNutritionDay =
       nutritionDays.find((day) => day.date === selectedNutritionDate) ??
@@ -571,14 +1148,16 @@ const MealPlanner = () => {
 
                           <div className="text-center flex flex-col items-center">
                             <h2 className="text-lg sm:text-xl font-bold text-foreground whitespace-nowrap">
-                              {weekRange.start} — {weekRange.end}
+                              {view === 'month'
+                                ? currentDate.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+                                : `${weekRange.start} — ${weekRange.end}`}
                             </h2>
-                            {!isCurrentWeek && (
+                            {!(view === 'month' ? isCurrentMonth : isCurrentWeek) && (
                               <button
                                 onClick={goToToday}
                                 className="text-xs font-medium text-primary bg-primary/10 px-2.5 py-0.5 rounded-full hover:bg-primary/20 transition-colors mt-0.5"
                               >
-                                ← Back to this week
+                                ← Back to {view === 'month' ? 'this month' : 'this week'}
                               </button>
                             )}
                           </div>
@@ -595,6 +1174,22 @@ const MealPlanner = () => {
 
                         {/* Right: action buttons */}
                         <div className="flex items-center gap-2 flex-shrink-0">
+                          {/* Week / month toggle */}
+                          <div className="flex rounded-full bg-white/60 p-0.5 shadow-sm">
+                            {(['week', 'month'] as const).map((option) => (
+                              <button
+                                key={option}
+                                onClick={() => setView(option)}
+                                className={`flex items-center gap-1 rounded-full px-2.5 py-1.5 text-xs font-medium capitalize transition-colors ${
+                                  view === option ? 'bg-white text-foreground shadow-sm' : 'text-foreground/60'
+                                }`}
+                              >
+                                {option === 'month' && <CalendarDays className="h-3.5 w-3.5" />}
+                                {option}
+                              </button>
+                            ))}
+                          </div>
+
                           {/* Save status */}
                           {saveStatus === 'saving' && (
                             <span className="text-xs text-foreground/60 flex items-center gap-1 whitespace-nowrap">
@@ -607,8 +1202,22 @@ const MealPlanner = () => {
                             </span>
                           )}
 
+                          {/* Estimated grocery cost */}
+                          {view === 'week' && hasRecipes && weekCost && weekCost.pricedCount > 0 && (
+                            <span
+                              className="text-xs text-foreground/70 flex items-center gap-1 whitespace-nowrap rounded-full bg-white/60 px-2.5 py-1"
+                              title={weekCost.unpricedCount > 0
+                                ? `${weekCost.unpricedCount} ingredients have no price yet`
+                                : 'From the prices you last paid'}
+                            >
+                              <Wallet className="h-3 w-3" />
+                              ≈ ${weekCost.total.toFixed(2)}
+                              {weekCost.unpricedCount > 0 && <span className="text-foreground/40">+</span>}
+                            </span>
+                          )}
+
                           {/* Grocery list button */}
-                          {hasRecipes && (
+                          {(view === 'month' ? monthHasRecipes : hasRecipes) && (
                             <Button
                               variant="outline"
                               size="sm"
@@ -625,6 +1234,96 @@ const MealPlanner = () => {
                             </Button>
                           )}
 
+                          {/* Templates menu */}
+                          <div className="relative">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setShowTemplates(!showTemplates)}
+                              disabled={!weekPlan}
+                              className="rounded-full gap-1.5 h-9 bg-white/70 hover:bg-white border-white/50 shadow-sm"
+                            >
+                              <LayoutTemplate className="h-3.5 w-3.5" />
+                              <span className="hidden sm:inline">Templates</span>
+                            </Button>
+
+                            {showTemplates && (
+                              <div className="absolute right-0 top-full mt-2 w-72 bg-card border rounded-2xl shadow-xl p-4 z-[100] space-y-3">
+                                {templates.length > 0 ? (
+                                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                                    {templates.map((template) => (
+                                      <li key={template.id} className="flex items-center gap-2">
+                                        <button
+                                          onClick={() => handleApplyTemplate(template)}
+                                          className="flex-1 min-w-0 text-left rounded-lg px-2 py-1.5 hover:bg-muted transition-colors"
+                                        >
+                                          <p className="text-sm font-medium truncate">{template.name}</p>
+                                          <p className="text-xs text-muted-foreground">
+                                            {template.entryCount} dishes over {template.dayCount} days
+                                          </p>
+                                        </button>
+                                        <button
+                                          onClick={() => handleDeleteTemplate(template.id)}
+                                          className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive"
+                                          title={`Delete ${template.name}`}
+                                        >
+                                          <Trash2 className="h-3.5 w-3.5" />
+                                        </button>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                ) : (
+                                  <p className="text-xs text-muted-foreground">
+                                    No templates yet. Save a week you like to reuse it.
+                                  </p>
+                                )}
+                                <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                                  <input
+                                    type="checkbox"
+                                    checked={templateReplace}
+                                    onChange={(e) => setTemplateReplace(e.target.checked)}
+                                  />
+                                  Replace what&apos;s planned this week
+                                </label>
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="w-full rounded-lg"
+                                  onClick={handleCopyLastWeek}
+                                >
+                                  <Copy className="h-4 w-4 mr-2" />
+                                  Copy Last Week
+                                </Button>
+                                {hasRecipes && (
+                                  <form
+                                    className="flex items-center gap-2 border-t pt-3"
+                                    onSubmit={(e) => {
+                                      e.preventDefault();
+                                      void handleSaveTemplate();
+                                    }}
+                                  >
+                                    <Input
+                                      value={templateName}
+                                      onChange={(e) => setTemplateName(e.target.value)}
+                                      placeholder="Save this week as…"
+                                      maxLength={MAX_TEMPLATE_NAME_LENGTH}
+                                      className="h-8 rounded-lg"
+                                    />
+                                    <Button
+                                      type="submit"
+                                      size="sm"
+                                      className="rounded-lg"
+                                      disabled={!templateName.trim() || isSavingTemplate}
+                                    >
+                                      {isSavingTemplate ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                                    </Button>
+                                  </form>
+                                )}
+                                {templateError && <p className="text-xs text-destructive">{templateError}</p>}
+                              </div>
+                            )}
+                          </div>
+
                           {/* Generate My Week split button */}
                           <div className="relative">
                             <div className="flex rounded-full overflow-hidden shadow-md">
@@ -666,7 +1365,41 @@ const MealPlanner = () => {
                                     type="number"
                                     value={genCalories}
                                     onChange={(e) => setGenCalories(e.target.value)}
-                                    placeholder="2000"
+                                    placeholder="Your profile goal"
+                                    className="h-8 rounded-lg"
+                                  />
+                                </div>
+                                <div>
+                                  <label className="text-xs font-medium text-muted-foreground mb-1 block">
+                                    Max Cook Time (min)
+                                  </label>
+                                  <div className="grid grid-cols-2 gap-2">
+                                    {slots.map((slot) => (
+                                      <div key={slot}>
+                                        <span className="text-[11px] text-muted-foreground capitalize block truncate">{slot}</span>
+                                        <Input
+                                          type="number"
+                                          min="1"
+                                          value={genMaxMinutes[slot] ?? ''}
+                                          onChange={(e) => setGenMaxMinutes((prev) => ({ ...prev, [slot]: e.target.value }))}
+                                          placeholder="Any"
+                                          className="h-8 rounded-lg"
+                                        />
+                                      </div>
+                                    ))}
+                                  </div>
+                                </div>
+                                <div>
+                                  <label className="text-xs font-medium text-muted-foreground mb-1 block">
+                                    No Repeats Within
+                                  </label>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    max="28"
+                                    value={genAvoidRepeatDays}
+                                    onChange={(e) => setGenAvoidRepeatDays(e.target.value)}
+                                    placeholder="Days"
                                     className="h-8 rounded-lg"
                                   />
                                 </div>
@@ -698,6 +1431,21 @@ const MealPlanner = () => {
                                     className="h-8 rounded-lg"
                                   />
                                 </div>
+                                <div>
+                                  <label className="text-xs font-medium text-muted-foreground mb-1 block">
+                                    Seed
+                                  </label>
+                                  <Input
+                                    value={genSeed}
+                                    onChange={(e) => setGenSeed(e.target.value)}
+                                    placeholder="Random"
+                                    title="The same seed plans the same week again"
+                                    className="h-8 rounded-lg"
+                                  />
+                                </div>
+                                <p className="text-[11px] text-muted-foreground">
+                                  Plans from your saved, collection and custom recipes, avoiding your intolerances.
+                                </p>
                                 <Button
                                   size="sm"
                                   className="w-full rounded-lg"
@@ -718,26 +1466,57 @@ const MealPlanner = () => {
                       </div>
 
                       {/* Meal count bar */}
-                      {hasRecipes && (
+                      {view === 'week' && hasRecipes && (
                         <div className="mt-3 bg-white/40 backdrop-blur-sm rounded-full px-4 py-1.5 flex items-center justify-center">
                           <div className="flex items-center gap-2">
                             <div className="h-1.5 flex-1 min-w-[120px] max-w-[200px] bg-white/60 rounded-full overflow-hidden">
                               <div
                                 className="h-full rounded-full transition-all duration-500"
                                 style={{
-                                  width: `${(mealCount / 21) * 100}%`,
+                                  width: `${mealCapacity > 0 ? (mealCount / mealCapacity) * 100 : 0}%`,
                                   background: 'linear-gradient(90deg, hsl(14 80% 50%), hsl(30 90% 52%))',
                                 }}
                               />
                             </div>
                             <span className="text-xs font-semibold text-foreground/70">
-                              {mealCount}/21 meals
+                              {mealCount}/{mealCapacity} meals
                             </span>
                           </div>
                         </div>
                       )}
                     </div>
                   </div>
+                  {planNotice && (
+                    <ApiErrorBanner
+                      message={planNotice.message}
+                      isValidation={planNotice.kind === 'conflict'}
+                      syncState={planNotice.kind === 'offline' ? 'offline' : undefined}
+                      onDismiss={() => setPlanNotice(null)}
+                    />
+                  )}
+                  {view === 'week' && genWarnings?.weekStart === weekStartStr && genWarnings.warnings.length > 0 && (
+                    <div className="flex items-start gap-2.5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                      <TriangleAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <ul className="flex-1 space-y-0.5">
+                        {genWarnings.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                      <button onClick={() => setGenWarnings(null)} className="text-amber-700 hover:text-amber-900" title="Dismiss">
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                  {view === 'week' && leftovers && leftovers.warnings.length > 0 && (
+                    <div className="flex items-start gap-2.5 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                      <TriangleAlert className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                      <ul className="space-y-0.5">
+                        {leftovers.warnings.map((warning) => (
+                          <li key={warning}>{warning}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
                   {/* Daily nutrition progress */}
                   <div className="bg-background rounded-2xl shadow-sm border border-border/50 overflow-hidden">
                     <div
@@ -877,7 +1656,7 @@ const MealPlanner = () => {
                                   <div className="divide-y divide-border/30">
                                     {selectedNutritionDay.meals.map((meal) => (
                                         <div
-                                            key={`${selectedNutritionDay.date}-${meal.mealType}-${meal.recipeId}`}
+                                            key={meal.entryId}
                                             className="px-4 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2"
                                         >
                                           <div>
@@ -906,8 +1685,24 @@ const MealPlanner = () => {
                       </div>
                     </div>
                   </div>
-                  {/* Meal planning grid */}
-                  {isLoading ? (
+                  {/* Month calendar */}
+                  {view === 'month' ? (
+                      monthLoading && monthDays.length === 0 ? (
+                          <div className="flex items-center justify-center py-12">
+                            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground"/>
+                          </div>
+                      ) : (
+                          <MonthCalendar
+                              monthStart={monthStartStr}
+                              weekStartDay={weekStartDay}
+                              days={monthDays}
+                              slots={slots}
+                              todayStr={formatLocalDateStr(new Date())}
+                              selectedWeek={weekPlan?.days.map((day) => day.date) ?? []}
+                              onSelectDay={handleSelectMonthDay}
+                          />
+                      )
+                  ) : isLoading ? (
                       <div className="flex items-center justify-center py-12">
                         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground"/>
                       </div>
@@ -916,20 +1711,97 @@ const MealPlanner = () => {
                         {/* Column headers */}
                         <div
                             className="hidden sm:flex items-center gap-3 px-3 py-3 border-b border-border/50 bg-muted/20">
-                          <div className="w-16 flex-shrink-0"/>
-                          {MEALS.map((meal) => {
-                            const {icon: Icon, color, bg} = MEAL_ICONS[meal];
+                          <div className="w-16 flex-shrink-0">
+                            <button
+                                onClick={() => setShowSlotEditor((prev) => !prev)}
+                                className="p-1.5 rounded-lg hover:bg-muted transition-colors text-muted-foreground"
+                                title="Edit meal slots"
+                            >
+                              <Settings2 className="h-4 w-4"/>
+                            </button>
+                          </div>
+                          {visibleSlots.map((meal) => {
+                            const {icon: Icon, color, bg} = MEAL_ICONS[meal] ?? CUSTOM_MEAL_ICON;
                             return (
-                                <div key={meal} className="flex-1 flex items-center justify-center gap-2">
+                                <div key={meal} className="flex-1 flex items-center justify-center gap-2 min-w-0">
                                   <div className={`${bg} p-1.5 rounded-lg`}>
                                     <Icon className="h-4 w-4" style={{color}}/>
                                   </div>
-                                  <span className="font-semibold text-sm capitalize" style={{color}}>{meal}</span>
+                                  <span className="font-semibold text-sm capitalize truncate" style={{color}}>{meal}</span>
                                 </div>
                             );
                           })}
                         </div>
 
+                        {/* Meal slot editor */}
+                        {showSlotEditor && (
+                            <div className="px-4 py-3 border-b border-border/50 bg-muted/10 space-y-2">
+                              <div className="flex flex-wrap items-center gap-2">
+                                {slots.map((slot) => (
+                                    <span
+                                        key={slot}
+                                        className="inline-flex items-center gap-1 rounded-full bg-muted px-3 py-1 text-xs font-medium capitalize"
+                                    >
+                                      {slot}
+                                      {slots.length > 1 && (
+                                          <button
+                                              onClick={() => handleDeleteSlot(slot)}
+                                              className="text-muted-foreground hover:text-destructive"
+                                              title={`Remove ${slot}`}
+                                          >
+                                            <X className="h-3 w-3"/>
+                                          </button>
+                                      )}
+                                    </span>
+                                ))}
+                                {suggestedSlots.map((slot) => (
+                                    <button
+                                        key={slot}
+                                        onClick={() => handleAddSlot(slot)}
+                                        className="inline-flex items-center gap-1 rounded-full border border-dashed border-border px-3 py-1 text-xs font-medium capitalize text-muted-foreground hover:bg-muted/40"
+                                    >
+                                      <Plus className="h-3 w-3"/>
+                                      {slot}
+                                    </button>
+                                ))}
+                              </div>
+                              <form
+                                  className="flex items-center gap-2 max-w-sm"
+                                  onSubmit={(e) => {
+                                    e.preventDefault();
+                                    void handleAddSlot(newSlotName);
+                                  }}
+                              >
+                                <Input
+                                    value={newSlotName}
+                                    onChange={(e) => setNewSlotName(e.target.value)}
+                                    placeholder="Add a slot, e.g. brunch"
+                                    maxLength={MAX_SLOT_NAME_LENGTH}
+                                    className="h-8 rounded-lg"
+                                />
+                                <Button type="submit" size="sm" className="rounded-lg" disabled={!newSlotName.trim()}>
+                                  Add
+                                </Button>
+                              </form>
+                              <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+                                <span className="text-xs text-muted-foreground">Meal times for the calendar feed:</span>
+                                {slots.map((slot) => (
+                                    <label key={slot} className="flex items-center gap-1.5 text-xs font-medium capitalize">
+                                      {slot}
+                                      <input
+                                          type="time"
+                                          value={slotTimes[slot] ?? ''}
+                                          onChange={(e) => void handleSetSlotTime(slot, e.target.value)}
+                                          className="h-7 rounded-md border border-border bg-background px-1.5 text-xs"
+                                          title={slotTimes[slot] ? undefined : 'No time set: shown as an all-day event'}
+                                      />
+                                    </label>
+                                ))}
+                              </div>
+                              {slotError && <p className="text-xs text-destructive">{slotError}</p>}
+                            </div>
+                        )}
+
                         {/* Day rows */}
                         <div className="divide-y divide-border/30">
                         {weekPlan?.days.map((day, dayIndex) => {
@@ -950,10 +1822,21 @@ const MealPlanner = () => {
                                     : 'bg-background'
                               }`}
                             >
-                              <div className="w-16 flex-shrink-0 flex flex-col justify-center">
-                                <p className={`font-bold text-base ${isToday ? 'text-primary' : 'text-foreground'}`}>
-                                  {DAYS[dayIndex]}
-                                </p>
+                              <div className="relative w-16 flex-shrink-0 flex flex-col justify-center">
+                                <div className="flex items-center gap-1">
+                                  <p className={`font-bold text-base ${isToday ? 'text-primary' : 'text-foreground'}`}>
+                                    {dayLabel(day.date)}
+                                  </p>
+                                  {Object.values(day.meals).some((entries) => entries.length > 0) && (
+                                    <button
+                                      onClick={() => setCopyDayFrom(copyDayFrom === day.date ? null : day.date)}
+                                      className="p-1 rounded-md text-muted-foreground hover:bg-muted transition-colors"
+                                      title={`Copy ${dayLabel(day.date)} to another day`}
+                                    >
+                                      <Copy className="h-3 w-3" />
+                                    </button>
+                                  )}
+                                </div>
                                 <p className="text-xs text-muted-foreground">
                                   {dayDate.toLocaleDateString(undefined, {
                                     month: 'short',
@@ -965,20 +1848,39 @@ const MealPlanner = () => {
                                     TODAY
                                   </span>
                                 )}
+
+                                {/* Copy this day onto another one */}
+                                {copyDayFrom === day.date && (
+                                  <div className="absolute left-0 top-full mt-1 w-40 bg-card border rounded-xl shadow-xl p-2 z-[100]">
+                                    <p className="text-xs font-medium text-muted-foreground px-1 pb-1">Copy to…</p>
+                                    <div className="grid grid-cols-2 gap-1">
+                                      {weekPlan.days.map((target) => target.date !== day.date && (
+                                        <button
+                                          key={target.date}
+                                          onClick={() => handleCopyDay(day.date, target.date)}
+                                          className="text-xs rounded-md px-2 py-1 hover:bg-muted transition-colors text-left"
+                                        >
+                                          {dayLabel(target.date)}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
                               </div>
 
                               <div className="flex-1 flex gap-2 sm:gap-3 min-w-0">
-                                {MEALS.map((mealType) => (
+                                {visibleSlots.map((mealType) => (
                                   <MealSlot
                                     key={mealType}
                                     dayDate={day.date}
                                     mealType={mealType}
-                                    entry={getEntry(day.date, mealType)}
+                                    entries={getEntries(day.date, mealType)}
                                     onAddRecipe={() => handleAddRecipe(day.date, mealType)}
-                                    onRemoveRecipe={() => handleRemoveRecipe(day.date, mealType)}
-                                    onUpdateServings={(newServings) =>
-                                      handleUpdateServings(day.date, mealType, newServings)
-                                    }
+                                    onRemoveRecipe={handleRemoveRecipe}
+                                    onUpdateServings={handleUpdateServings}
+                                    onUpdateCookedServings={handleUpdateCookedServings}
+                                    onPlanLeftovers={handleOpenLeftovers}
+                                    remainingServings={remainingServings}
                                   />
                                 ))}
                               </div>
@@ -1011,6 +1913,19 @@ const MealPlanner = () => {
           availableDays={getAvailableDays()}
         />
 
+        <LeftoverDialog
+          key={leftoverSource?.entry.id ?? 'closed'}
+          open={leftoverSource !== null}
+          onOpenChange={(open) => !open && setLeftoverSource(null)}
+          source={leftoverSource}
+          days={weekPlan?.days.map((day) => day.date) ?? []}
+          slots={visibleSlots}
+          plannedLeftoverServings={
+            leftoverBatch?.leftovers.reduce((sum, leftover) => sum + leftover.servings, 0) ?? 0
+          }
+          onConfirm={handlePlanLeftovers}
+        />
+
       </SidebarProvider>
     </RequireAuth>
   );
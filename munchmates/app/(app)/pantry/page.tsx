@@ -7,12 +7,19 @@
 //   so it fits the main application shell.
 // - Database persistence via /api/pantry — data syncs across devices
 // - Add Item form:
-//   - Name, quantity, category (via <Select>), optional expiry date
+//   - Name, quantity, category (via <Select>; "Auto" lets the server classify it), optional expiry date
 //   - "Add via image" opens ImageClassificationDialog and pre-fills the item name
 //   - Enter key support to quickly add items from the keyboard.
+//   - "Quick add" (QuickAddDialog) takes several items as one sentence,
+//     previews them and adds them in a single batch.
 // - Inline edit support per item:
 //   - Click the pencil icon to edit name, quantity, category, and expiry date
 //   - Save/Cancel actions, with Enter/Escape keyboard handling.
+// - Lots: adding an item that already exists stores a separate lot (batch)
+//   with its own amount and expiry; items with several lots list them
+//   individually and each lot can be removed on its own.
+// - History: the clock icon on an item opens PantryHistoryDialog with its
+//   recent adds, edits, cook deductions and undos.
 
 'use client';
 
@@ -23,8 +30,10 @@ import AppSidebar from '@/components/layout/app-sidebar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Plus, Trash2, Search, ShoppingBag, PencilLine, Save, X, Loader2, Camera, Calendar } from 'lucide-react';
+import { Plus, Trash2, Search, ShoppingBag, PencilLine, Save, X, Loader2, Camera, Calendar, History, Sparkles } from 'lucide-react';
 import ImageClassificationDialog from '@/components/image-classification-dialog';
+import PantryHistoryDialog from '@/components/pantry/PantryHistoryDialog';
+import QuickAddDialog from '@/components/ingredients/QuickAddDialog';
 import { authedFetch } from '@/lib/authedFetch';
 import ApiErrorBanner from '@/components/ui/api-error-banner';
 import { assertOk, getErrorMessage, isValidationError } from '@/lib/apiClient';
@@ -37,6 +46,15 @@ import {
     SelectItem,
 } from "@/components/ui/select";
 
+interface PantryLot {
+    id: number;
+    quantity: string;
+    amount: number | null;
+    unit: string;
+    expiryDate: string | null;
+    addedAt: string;
+}
+
 interface PantryItem {
     id: number;
     name: string;
@@ -46,6 +64,7 @@ interface PantryItem {
     category: string;
     expiryDate?: string | null;
     addedAt: string;
+    lots: PantryLot[];
 }
 
 type RetryAction = () => void | Promise<void>;
@@ -69,6 +88,9 @@ const DEFAULT_CATEGORIES = [
 
 const COMMON_UNITS = ['', 'cups', 'tbsp', 'tsp', 'oz', 'lbs', 'g', 'kg', 'ml', 'L', 'pieces'];
 
+// Add-form category value that lets the server classify the item
+const AUTO_CATEGORY = '__auto';
+
 const categoryEmoji: Record<string, string> = {
     'Produce': '🥬',
     'Dairy': '🥛',
@@ -84,6 +106,7 @@ const categoryEmoji: Record<string, string> = {
     'Baking': '🧁',
     'Beverages': '🥤',
     'Other': '📦',
+    'Leftovers': '🍲',
 };
 
 // Map old pantry-only categories into the grocery category set.
@@ -120,6 +143,7 @@ const categoryBorder: Record<string, string> = {
     'Baking': 'border-l-fuchsia-300',
     'Beverages': 'border-l-sky-300',
     'Other': 'border-l-gray-300',
+    'Leftovers': 'border-l-rose-300',
 };
 
 const categoryColor: Record<string, string> = {
@@ -137,9 +161,10 @@ const categoryColor: Record<string, string> = {
     'Baking': 'bg-fuchsia-50 dark:bg-fuchsia-950/30',
     'Beverages': 'bg-sky-50 dark:bg-sky-950/30',
     'Other': 'bg-gray-50 dark:bg-gray-950/30',
+    'Leftovers': 'bg-rose-50 dark:bg-rose-950/30',
 };
 
-function displayQuantity(item: PantryItem): string {
+function displayQuantity(item: Pick<PantryItem, 'amount' | 'unit' | 'quantity'>): string {
     if (item.amount !== null && item.amount !== undefined) {
         const formatted = formatAmount(item.amount);
         return item.unit ? `${formatted} ${item.unit}` : formatted;
@@ -157,7 +182,7 @@ const Pantry = () => {
     const [itemName, setItemName] = useState('');
     const [itemAmount, setItemAmount] = useState('');
     const [itemUnit, setItemUnit] = useState('');
-    const [itemCategory, setItemCategory] = useState(DEFAULT_CATEGORIES[0]);
+    const [itemCategory, setItemCategory] = useState(AUTO_CATEGORY);
     const [expiryDate, setExpiryDate] = useState('');
     const [searchTerm, setSearchTerm] = useState('');
     const [selectedTab, setSelectedTab] = useState('All');
@@ -170,6 +195,8 @@ const Pantry = () => {
     const [editExpiry, setEditExpiry] = useState('');
 
     const [imageDialogOpen, setImageDialogOpen] = useState(false);
+    const [quickAddOpen, setQuickAddOpen] = useState(false);
+    const [historyItem, setHistoryItem] = useState<PantryItem | null>(null);
 
     const clearError = () => setApiError(null);
 
@@ -218,7 +245,7 @@ const Pantry = () => {
 
     useEffect(() => {
         const fallbackCategory = categories[0] || DEFAULT_CATEGORIES[0];
-        if (!categories.includes(itemCategory)) {
+        if (itemCategory !== AUTO_CATEGORY && !categories.includes(itemCategory)) {
             setItemCategory(fallbackCategory);
         }
         if (editingId !== null && !categories.includes(editCategory)) {
@@ -309,7 +336,8 @@ const Pantry = () => {
                     name: itemName.trim(),
                     amount,
                     unit: itemUnit,
-                    category: itemCategory,
+                    // Auto leaves the category to the server's ingredient classifier
+                    category: itemCategory === AUTO_CATEGORY ? undefined : itemCategory,
                     expiryDate: expiryDate || null,
                 }),
             });
@@ -329,7 +357,7 @@ const Pantry = () => {
             setItemAmount('');
             setItemUnit('');
             setExpiryDate('');
-            setItemCategory(categories[0] || DEFAULT_CATEGORIES[0]);
+            setItemCategory(AUTO_CATEGORY);
         } catch (error) {
             setUiError(error, 'Failed to add pantry item', addItem);
         } finally {
@@ -337,6 +365,17 @@ const Pantry = () => {
         }
     };
 
+    // Items from a quick-add batch replace the same pantry items already shown
+    const mergeAddedItems = (added: PantryItem[]) => {
+        setItems(prev => {
+            const addedIds = new Set(added.map(item => item.id));
+            return [
+                ...added.map(item => ({ ...item, category: normalizeCategory(item.category) })),
+                ...prev.filter(item => !addedIds.has(item.id)),
+            ];
+        });
+    };
+
     const removeItem = async (id: number) => {
         clearError();
         try {
@@ -351,6 +390,23 @@ const Pantry = () => {
         }
     };
 
+    const removeLot = async (itemId: number, lotId: number) => {
+        clearError();
+        try {
+            const res = await authedFetch(`/api/pantry?id=${itemId}&lotId=${lotId}`, {
+                method: 'DELETE',
+            });
+
+            await assertOk(res, 'Failed to delete pantry lot');
+            const data = await res.json();
+            setItems(prev => data.item
+                ? prev.map(it => it.id === itemId ? { ...data.item, category: normalizeCategory(data.item.category) } : it)
+                : prev.filter(it => it.id !== itemId));
+        } catch (error) {
+            setUiError(error, 'Failed to delete pantry lot', () => removeLot(itemId, lotId));
+        }
+    };
+
     const clearAll = async () => {
         clearError();
         try {
@@ -527,6 +583,7 @@ const Pantry = () => {
                                                 <SelectValue placeholder="Category" />
                                             </SelectTrigger>
                                             <SelectContent>
+                                                <SelectItem value={AUTO_CATEGORY}>Auto</SelectItem>
                                                 {categories.map(cat => (
                                                     <SelectItem key={cat} value={cat}>{cat}</SelectItem>
                                                 ))}
@@ -546,6 +603,15 @@ const Pantry = () => {
                                         >
                                             {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Add'}
                                         </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="icon"
+                                            onClick={() => setQuickAddOpen(true)}
+                                            className="h-10 w-10 rounded-xl"
+                                            title="Quick add several items"
+                                        >
+                                            <Sparkles className="h-4 w-4" />
+                                        </Button>
                                     </div>
                                 </div>
 
@@ -650,7 +716,23 @@ const Pantry = () => {
                             <ImageClassificationDialog
                                 open={imageDialogOpen}
                                 onOpenChange={setImageDialogOpen}
-                                onResult={(label) => setItemName(label)}
+                                onResult={(label) => {
+                                    setItemName(label);
+                                    setItemCategory(AUTO_CATEGORY);
+                                }}
+                            />
+                            <QuickAddDialog<PantryItem>
+                                open={quickAddOpen}
+                                onOpenChange={setQuickAddOpen}
+                                target="pantry"
+                                categories={categories}
+                                onCommitted={mergeAddedItems}
+                            />
+
+                            <PantryHistoryDialog
+                                isOpen={historyItem !== null}
+                                onOpenChange={(open) => { if (!open) setHistoryItem(null); }}
+                                item={historyItem}
                             />
                         </main>
                     </div>
@@ -770,6 +852,28 @@ const Pantry = () => {
                                 </Badge>
                             )}
                         </div>
+                        {item.lots.length > 1 && (
+                            <ul className="mt-1.5 space-y-0.5 border-t border-amber-100/60 pt-1.5">
+                                {item.lots.map(lot => (
+                                    <li key={lot.id} className="group/lot flex items-center gap-1.5 text-[11px] text-muted-foreground">
+                                        <span className="text-foreground/70">{displayQuantity(lot)}</span>
+                                        {lot.expiryDate && (
+                                            <>
+                                                <span className="text-muted-foreground/30">·</span>
+                                                <span>Exp {new Date(lot.expiryDate + 'T00:00:00').toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}</span>
+                                            </>
+                                        )}
+                                        <button
+                                            onClick={() => removeLot(item.id, lot.id)}
+                                            className="ml-auto opacity-0 group-hover/lot:opacity-100 transition-opacity hover:text-red-600"
+                                            title="Remove lot"
+                                        >
+                                            <X className="h-3 w-3" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
                     </div>
                     <div className="flex gap-0 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
                         <Button
@@ -781,6 +885,15 @@ const Pantry = () => {
                         >
                             <PencilLine className="h-3 w-3" />
                         </Button>
+                        <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setHistoryItem(item)}
+                            className="h-6 w-6 rounded"
+                            title="History"
+                        >
+                            <History className="h-3 w-3" />
+                        </Button>
                         <Button
                             variant="ghost"
                             size="icon"
@@ -17,8 +17,16 @@ import {
     getAccessTokenClaims,
     logout,
 } from "@/lib/keycloak";
-import { LogOut, User, ShieldAlert, Trash2, Save, Leaf, AlertTriangle, Globe } from "lucide-react";
+import { LogOut, User, ShieldAlert, Trash2, Save, Leaf, AlertTriangle, Globe, CalendarDays, Copy, Check } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { DEFAULT_WEEK_START_DAY } from "@/lib/types/meal-plan";
+
+// The user's meal plan calendar feed (/api/meal-plan/calendar)
+type CalendarFeed = {
+    url: string;
+    webcalUrl: string;
+    includePantryExpiry: boolean;
+};
 
 type AccessTokenClaims = {
     sub?: string;
@@ -46,6 +54,9 @@ const allCuisines = [
     "Middle Eastern", "Nordic", "Southern", "Spanish", "Thai", "Vietnamese",
 ];
 
+// Index matches Date.getDay() and the profile's weekStartDay
+const weekDays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
 function toggleItem(item: string, setItems: Dispatch<SetStateAction<string[]>>) {
     setItems(prev =>
         prev.includes(item) ? prev.filter(s => s !== item) : [...prev, item]
@@ -95,6 +106,10 @@ const ProfilePage = () => {
     const [dailyProteinGoal, setDailyProteinGoal] = useState("");
     const [dailyCarbGoal, setDailyCarbGoal] = useState("");
     const [dailyFatGoal, setDailyFatGoal] = useState("");
+    const [weekStartDay, setWeekStartDay] = useState(DEFAULT_WEEK_START_DAY);
+    const [calendarFeed, setCalendarFeed] = useState<CalendarFeed | null>(null);
+    const [calendarBusy, setCalendarBusy] = useState(false);
+    const [calendarCopied, setCalendarCopied] = useState(false);
 
     // Load diets/intolerances from localStorage on mount
     useEffect(() => {
@@ -146,13 +161,81 @@ const ProfilePage = () => {
                 setDailyProteinGoal(data.dailyProteinGoal?.toString() ?? "");
                 setDailyCarbGoal(data.dailyCarbGoal?.toString() ?? "");
                 setDailyFatGoal(data.dailyFatGoal?.toString() ?? "");
+                if (typeof data.weekStartDay === "number") setWeekStartDay(data.weekStartDay);
             } catch (err) {
                 console.error("Error loading profile", err);
             }
         };
+        const loadCalendarFeed = async () => {
+            try {
+                const token = await ensureToken();
+                if (!token) return;
+                const res = await fetch("/api/meal-plan/calendar", {
+                    headers: { Authorization: `Bearer ${token}` },
+                });
+                if (!res.ok) return;
+                const data = await res.json();
+                setCalendarFeed(data.feed ?? null);
+            } catch (err) {
+                console.error("Error loading calendar feed", err);
+            }
+        };
         loadProfile();
+        loadCalendarFeed();
     }, [authReady]);
 
+    // Creates the feed the first time; regenerate gives it a new link
+    const saveCalendarFeed = async (options: { includePantryExpiry?: boolean; regenerate?: boolean }) => {
+        setCalendarBusy(true);
+        try {
+            const token = await ensureToken();
+            const headers: Record<string, string> = { "Content-Type": "application/json" };
+            if (token) headers.Authorization = `Bearer ${token}`;
+            const res = await fetch("/api/meal-plan/calendar", {
+                method: "POST",
+                headers,
+                body: JSON.stringify(options),
+            });
+            if (!res.ok) return;
+            const data = await res.json();
+            setCalendarFeed(data.feed);
+            setCalendarCopied(false);
+        } catch (err) {
+            console.error("Error saving calendar feed", err);
+        } finally {
+            setCalendarBusy(false);
+        }
+    };
+
+    const handleTurnOffCalendarFeed = async () => {
+        const confirmed = window.confirm(
+            "Turn off the calendar feed? Calendars subscribed to it will stop updating."
+        );
+        if (!confirmed) return;
+        setCalendarBusy(true);
+        try {
+            const token = await ensureToken();
+            const headers: Record<string, string> = {};
+            if (token) headers.Authorization = `Bearer ${token}`;
+            const res = await fetch("/api/meal-plan/calendar", { method: "DELETE", headers });
+            if (res.ok || res.status === 404) setCalendarFeed(null);
+        } catch (err) {
+            console.error("Error turning off calendar feed", err);
+        } finally {
+            setCalendarBusy(false);
+        }
+    };
+
+    const handleCopyCalendarLink = async () => {
+        if (!calendarFeed) return;
+        try {
+            await navigator.clipboard.writeText(calendarFeed.url);
+            setCalendarCopied(true);
+        } catch (err) {
+            console.error("Error copying calendar link", err);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
         e.preventDefault();
         setSaving(true);
@@ -160,6 +243,7 @@ const ProfilePage = () => {
             // Sync to localStorage for other components that read from there
             localStorage.setItem("diets", JSON.stringify(diets));
             localStorage.setItem("intolerances", JSON.stringify(intolerances));
+            localStorage.setItem("weekStartDay", String(weekStartDay));
 
             const token = await ensureToken();
             const headers: Record<string, string> = { "Content-Type": "application/json" };
@@ -175,6 +259,7 @@ const ProfilePage = () => {
                     dailyProteinGoal,
                     dailyCarbGoal,
                     dailyFatGoal,
+                    weekStartDay,
                 }),
             });
             if (!res.ok) { setSaving(false); return; }
@@ -355,6 +440,100 @@ const ProfilePage = () => {
                                         </div>
                                     </div>
                                 </div>
+                                {/* Meal Planning */}
+                                <div className={card}>
+                                    <div className="flex items-center gap-2 px-5 pt-4 pb-1">
+                                        <div className="flex h-8 w-8 items-center justify-center rounded-lg" style={{ backgroundColor: "rgba(94,92,230,0.1)" }}>
+                                            <CalendarDays className="h-4 w-4" style={{ color: "#5E5CE6" }} />
+                                        </div>
+                                        <h2 className="text-[15px] font-semibold">Meal Planning</h2>
+                                    </div>
+                                    <div className="px-5 pb-4 pt-2 space-y-2">
+                                        <p className="text-[12px] font-medium text-muted-foreground">Weeks start on</p>
+                                        <ChipGrid
+                                            items={weekDays}
+                                            selected={[weekDays[weekStartDay]]}
+                                            onToggle={(day) => setWeekStartDay(weekDays.indexOf(day))}
+                                        />
+                                    </div>
+                                    <div className="px-5 pb-4 pt-2 space-y-2 border-t border-border/30">
+                                        <p className="text-[12px] font-medium text-muted-foreground">Calendar feed</p>
+                                        <p className="text-[12px] text-muted-foreground">
+                                            Subscribe in Google Calendar, Apple Calendar or Outlook to see your planned meals
+                                            at their meal times, with a reminder to start cooking. Set meal times from the
+                                            meal planner&apos;s slot settings.
+                                        </p>
+                                        {calendarFeed ? (
+                                            <>
+                                                <div className="flex items-center gap-2">
+                                                    <Input
+                                                        readOnly
+                                                        value={calendarFeed.url}
+                                                        onFocus={(e) => e.target.select()}
+                                                        className="h-10 rounded-xl text-[12px]"
+                                                    />
+                                                    <Button
+                                                        type="button"
+                                                        variant="outline"
+                                                        className="h-10 rounded-xl"
+                                                        onClick={handleCopyCalendarLink}
+                                                    >
+                                                        {calendarCopied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                                                    </Button>
+                                                </div>
+                                                <label className="flex items-center gap-2 text-[13px]">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={calendarFeed.includePantryExpiry}
+                                                        disabled={calendarBusy}
+                                                        onChange={(e) => saveCalendarFeed({ includePantryExpiry: e.target.checked })}
+                                                    />
+                                                    Show pantry items on the day they expire
+                                                </label>
+                                                <div className="flex flex-wrap gap-2">
+                                                    <Button asChild size="sm" className="rounded-xl">
+                                                        <a href={calendarFeed.webcalUrl}>Open in Calendar App</a>
+                                                    </Button>
+                                                    <Button
+                                                        type="button"
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="rounded-xl"
+                                                        disabled={calendarBusy}
+                                                        onClick={() => saveCalendarFeed({ regenerate: true })}
+                                                    >
+                                                        New Link
+                                                    </Button>
+                                                    <Button
+                                                        type="button"
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        className="rounded-xl text-red-500"
+                                                        disabled={calendarBusy}
+                                                        onClick={handleTurnOffCalendarFeed}
+                                                    >
+                                                        Turn Off
+                                                    </Button>
+                                                </div>
+                                                <p className="text-[11px] text-muted-foreground">
+                                                    Anyone with this link can see your meal plan. Get a new link to cut off old ones.
+                                                </p>
+                                            </>
+                                        ) : (
+                                            <Button
+                                                type="button"
+                                                variant="outline"
+                                                size="sm"
+                                                className="rounded-xl"
+                                                disabled={calendarBusy}
+                                                onClick={() => saveCalendarFeed({})}
+                                            >
+                                                Create Calendar Link
+                                            </Button>
+                                        )}
+                                    </div>
+                                </div>
+
                                 {/* Save */}
                                 <Button type="submit" className="w-full h-11 rounded-xl text-[14px] font-semibold" disabled={saving}>
                                     <Save className="h-4 w-4 mr-2" />
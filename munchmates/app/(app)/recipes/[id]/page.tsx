@@ -282,6 +282,8 @@ export default function RecipeDetailPage() {
 
   const [recipe, setRecipe] = useState<RecipeInfo | null>(null);
   const [nutrition, setNutrition] = useState<NutritionInfo | null>(null);
+  // Custom recipes: nutrition is estimated from the ingredients, minus these ones
+  const [nutritionMissing, setNutritionMissing] = useState<string[] | null>(null);
   const [instructions, setInstructions] = useState<InstructionStep[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaved, setIsSaved] = useState(false);
@@ -301,6 +303,7 @@ export default function RecipeDetailPage() {
       setIsLoading(true);
       setError(null);
       setNutrition(null);
+      setNutritionMissing(null);
 
       try {
         const customRes = await authedFetch(`/api/recipes/create?id=${recipeId}`);
@@ -313,6 +316,8 @@ export default function RecipeDetailPage() {
           ]);
           setRecipe(data.recipe);
           setDisplayServings(data.recipe.servings || 1);
+          setNutrition(data.nutrition ?? null);
+          setNutritionMissing(data.nutritionMissing ?? []);
 
           // Parse numbered instructions into structured steps
           if (data.recipe.instructions) {
@@ -722,6 +727,12 @@ export default function RecipeDetailPage() {
                 ) : (
                   <p className="text-muted-foreground">Nutrition details not available.</p>
                 )}
+                {nutritionMissing && (
+                  <p className="mt-2 text-[11px] text-muted-foreground">
+                    Estimated from the ingredients
+                    {nutritionMissing.length > 0 && `; not counted: ${nutritionMissing.join(", ")}`}
+                  </p>
+                )}
               </div>
               <div className="rounded-xl border border-slate-200 bg-white/70 p-3">
                 <h3 className="font-semibold text-xs text-slate-600 uppercase tracking-wider mb-1">Allergens</h3>
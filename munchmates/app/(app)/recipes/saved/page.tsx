@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { authedFetch } from '@/lib/authedFetch';
+import { CUSTOM_RECIPE_MIN_ID } from '@/lib/custom-recipes';
 import RecipeCard from '@/components/recipes/RecipeCard';
 import { RecipeGridSkeleton } from '@/components/recipes/RecipeCardSkeleton';
 import AddToCollectionDialog, { useAddToCollection } from '@/components/recipes/AddToCollectionDialog';
@@ -32,7 +33,7 @@ type SavedRecipe = {
 
 const getSavedRecipeImage = (recipe: SavedRecipe) => {
     if (recipe.recipeImage) return recipe.recipeImage;
-    return recipe.recipeId < 100000
+    return recipe.recipeId < CUSTOM_RECIPE_MIN_ID
         ? `https://img.spoonacular.com/recipes/${recipe.recipeId}-636x393.jpg`
         : undefined;
 };
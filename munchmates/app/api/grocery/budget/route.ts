@@ -0,0 +1,89 @@
+// app/api/grocery/budget/route.ts
+// Endpoint for the weekly grocery budget and where a list stands against it
+// Spending comes from purchases archived this week (see /api/grocery/history)
+// plus the items checked off on the list right now
+// The budget itself is stored on the user's profile, and its weeks start on the
+// profile's week start day like the meal planner's
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import { budgetWeekStart, roundCents, summarizeBudget } from "@/lib/grocery-prices";
+import { DEFAULT_WEEK_START_DAY } from "@/lib/types/meal-plan";
+
+// GET /api/grocery/budget?listId= — Trip total, list estimate and this week's spending
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const [list, profile] = await Promise.all([
+            resolveGroceryList(prisma, p.sub, req.nextUrl.searchParams.get("listId")),
+            prisma.userProfile.findUnique({ where: { userId: p.sub } }),
+        ]);
+        const weekStart = budgetWeekStart(new Date(), profile?.weekStartDay ?? DEFAULT_WEEK_START_DAY);
+
+        const [items, purchases] = await Promise.all([
+            prisma.groceryItem.findMany({ where: { listId: list.id } }),
+            prisma.groceryPurchase.findMany({
+                where: { userId: p.sub, purchasedAt: { gte: weekStart } },
+                select: { cost: true },
+            }),
+        ]);
+
+        return NextResponse.json({
+            ok: true,
+            listId: list.id,
+            ...summarizeBudget(
+                items,
+                purchases.map((purchase) => purchase.cost),
+                profile?.weeklyGroceryBudget ?? null,
+                weekStart,
+            ),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/grocery/budget:");
+    }
+}
+
+// PUT /api/grocery/budget — Set or clear the weekly budget
+// Body: { weeklyBudget: number | null }
+export async function PUT(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (body.weeklyBudget === undefined) {
+            return errorResponse(400, "Missing required field: weeklyBudget");
+        }
+
+        let weeklyBudget: number | null = null;
+        if (body.weeklyBudget !== null && body.weeklyBudget !== "") {
+            weeklyBudget = Number(body.weeklyBudget);
+            if (!Number.isFinite(weeklyBudget) || weeklyBudget <= 0) {
+                return errorResponse(400, "weeklyBudget must be a positive number or null");
+            }
+            weeklyBudget = roundCents(weeklyBudget);
+        }
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        await prisma.userProfile.upsert({
+            where: { userId: p.sub },
+            update: { weeklyGroceryBudget: weeklyBudget },
+            create: { userId: p.sub, weeklyGroceryBudget: weeklyBudget },
+        });
+
+        return NextResponse.json({ ok: true, message: "Budget updated", weeklyBudget });
+    } catch (error) {
+        return handleRouteError(error, "Error in PUT /api/grocery/budget:");
+    }
+}
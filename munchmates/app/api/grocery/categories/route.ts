@@ -1,11 +1,15 @@
 // app/api/grocery/categories/route.ts
 // Endpoint to manage user's custom grocery categories
+// Categories are shared by all of a user's lists; pass listId to GET for per-list item counts
+// and storeId to get them in a store's walking order (see /api/grocery/stores)
 // Backed by Postgres via Prisma — data persists across server restarts
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import { orderCategoriesForStore, resolveStoreProfile } from "@/lib/store-layout";
 
 // Default categories seeded on first GET if user has none
 const DEFAULT_CATEGORIES = [
@@ -27,7 +31,9 @@ const DEFAULT_CATEGORIES = [
 
 const OTHER_CATEGORY = "Other";
 
-// GET /api/grocery/categories — List user's categories (return defaults if none exist)
+// GET /api/grocery/categories?listId=&storeId= — List user's categories (return defaults if none exist)
+// With listId, each category also reports how many items it holds on that list
+// With storeId, categories come back in the store's order with their aisle
 export async function GET(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -76,16 +82,46 @@ export async function GET(req: NextRequest) {
             });
         }
 
+        const listIdParam = req.nextUrl.searchParams.get("listId");
+        let itemCounts: Map<string, number> | null = null;
+
+        if (listIdParam) {
+            const list = await resolveGroceryList(prisma, p.sub, listIdParam);
+            const grouped = await prisma.groceryItem.groupBy({
+                by: ["category"],
+                where: { listId: list.id },
+                _count: { _all: true },
+            });
+            itemCounts = new Map(grouped.map((group) => [group.category, group._count._all]));
+        }
+
+        const storeIdParam = req.nextUrl.searchParams.get("storeId");
+        let aisles: Map<string, string | null> | null = null;
+
+        if (storeIdParam) {
+            const store = await resolveStoreProfile(prisma, p.sub, storeIdParam);
+            const layout = store.categories ?? [];
+            const order = orderCategoriesForStore(categories.map((cat) => cat.name), layout);
+            const byName = new Map(categories.map((cat) => [cat.name, cat]));
+            categories = order.map((name) => byName.get(name)!);
+            aisles = new Map(layout.map((row) => [row.category, row.aisle]));
+        }
+
         return NextResponse.json({
             ok: true,
             categories: categories.map((cat) => ({
                 id: cat.id,
                 name: cat.name,
                 sortOrder: cat.sortOrder,
+                ...(itemCounts ? { itemCount: itemCounts.get(cat.name) ?? 0 } : {}),
+                ...(aisles ? { aisle: aisles.get(cat.name) ?? null } : {}),
             })),
             count: categories.length,
         });
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in GET /api/grocery/categories:");
     }
 }
@@ -184,7 +220,7 @@ export async function DELETE(req: NextRequest) {
             });
         }
 
-        // Reassign items in deleted category to Other across grocery + pantry
+        // Reassign items in deleted category to Other across every grocery list + pantry
         await prisma.groceryItem.updateMany({
             where: { userId: p.sub, category: name },
             data: { category: OTHER_CATEGORY },
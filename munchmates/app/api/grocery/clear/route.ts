@@ -1,15 +1,19 @@
 // app/api/grocery/clear/route.ts
 // Endpoint for bulk grocery list operations (clear completed, clear all)
 // Backed by Postgres via Prisma — data persists across server restarts
+// Checked-off items are archived into the purchase history before they go
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import { archivePurchases } from "@/lib/purchase-history";
 
-// POST /api/grocery/clear — Bulk operations
-// Body: { action: "completed" } — Clear all completed items
-// Body: { action: "all" } — Clear entire list
+// POST /api/grocery/clear — Bulk operations on one list
+// Body: { action: "completed", listId?: number } — Clear all completed items
+// Body: { action: "all", listId?: number } — Clear entire list
+// listId defaults to the user's default list
 export async function POST(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -19,32 +23,51 @@ export async function POST(req: NextRequest) {
             return errorResponse(400, "Missing or invalid action. Use 'completed' or 'all'");
         }
 
-        let result;
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
 
         if (body.action === "completed") {
             // Delete only completed items
-            result = await prisma.groceryItem.deleteMany({
-                where: { userId: p.sub, completed: true },
+            const { result, archivedCount } = await prisma.$transaction(async (tx) => {
+                const completed = await tx.groceryItem.findMany({
+                    where: { listId: list.id, completed: true },
+                });
+                const archivedCount = await archivePurchases(tx, p.sub, completed);
+                const result = await tx.groceryItem.deleteMany({
+                    where: { id: { in: completed.map((item) => item.id) } },
+                });
+                return { result, archivedCount };
             });
 
             return NextResponse.json({
                 ok: true,
                 message: "Completed items cleared",
                 deletedCount: result.count,
+                archivedCount,
             });
         } else {
             // Delete all items
-            result = await prisma.groceryItem.deleteMany({
-                where: { userId: p.sub },
+            const { result, archivedCount } = await prisma.$transaction(async (tx) => {
+                const items = await tx.groceryItem.findMany({
+                    where: { listId: list.id },
+                });
+                const archivedCount = await archivePurchases(tx, p.sub, items);
+                const result = await tx.groceryItem.deleteMany({
+                    where: { listId: list.id },
+                });
+                return { result, archivedCount };
             });
 
             return NextResponse.json({
                 ok: true,
                 message: "All items cleared",
                 deletedCount: result.count,
+                archivedCount,
             });
         }
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in POST /api/grocery/clear:");
     }
 }
@@ -0,0 +1,48 @@
+// app/api/grocery/export/route.ts
+// Endpoint to export one grocery list as text, Markdown checklist, CSV or print-ready HTML
+// Items are grouped by the user's category sortOrder
+// For a PDF, open the HTML export and use the browser's "Save as PDF"
+
+import { NextRequest } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import {
+    exportFileName,
+    loadGroceryExportGroups,
+    parseExportFormat,
+    renderGroceryExport,
+} from "@/lib/grocery-export";
+
+// GET /api/grocery/export?format=text|markdown|csv|html&listId=&includeCompleted=
+// includeCompleted defaults to true (checked-off items are marked done)
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = req.nextUrl;
+
+        const format = parseExportFormat(searchParams.get("format") ?? undefined);
+        const includeCompleted = searchParams.get("includeCompleted") !== "false";
+        const list = await resolveGroceryList(prisma, p.sub, searchParams.get("listId"));
+
+        const groups = await loadGroceryExportGroups(prisma, p.sub, list.id, includeCompleted);
+        const document = renderGroceryExport(format, list.name, groups);
+
+        // HTML opens in the browser for printing; everything else downloads
+        const disposition = format === "html" ? "inline" : "attachment";
+
+        return new Response(document.body, {
+            headers: {
+                "Content-Type": document.contentType,
+                "Content-Disposition": `${disposition}; filename="${exportFileName(list.name, document.extension)}"`,
+                "Cache-Control": "no-store",
+            },
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/grocery/export:");
+    }
+}
@@ -0,0 +1,36 @@
+// app/api/grocery/finish-trip/route.ts
+// POST /api/grocery/finish-trip — Move checked-off items into the pantry
+// Body: { listId?: number } — listId defaults to the user's default list
+// Quantities are parsed with parseQuantityString and merged into existing stock
+// as new lots; items without an expiry get a default based on their category.
+// The response lists every lot that was added so the UI can offer an undo
+// (see /api/grocery/finish-trip/undo).
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { finishShoppingTrip, GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import { PantryServiceError } from "@/lib/pantry-service";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json().catch(() => ({}));
+
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+        const result = await prisma.$transaction((tx) => finishShoppingTrip(tx, p.sub, list.id));
+
+        return NextResponse.json({
+            ok: true,
+            message: result.movedCount > 0 ? "Trip finished" : "No checked-off items to move",
+            listId: list.id,
+            ...result,
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError || error instanceof PantryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/finish-trip:");
+    }
+}
@@ -0,0 +1,34 @@
+// app/api/grocery/finish-trip/undo/route.ts
+// POST /api/grocery/finish-trip/undo — Reverse a finished trip
+// Body: { listId?: number, added: ShoppingTripEntry[] } — `added` as returned by finish-trip
+// Removes the pantry lots the trip created and puts the items back on the list, checked off
+// 409 when one of those lots has been used or edited since, as undo would throw that away
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList, undoShoppingTrip } from "@/lib/grocery-service";
+import { PantryServiceError } from "@/lib/pantry-service";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+        const result = await prisma.$transaction((tx) => undoShoppingTrip(tx, p.sub, list.id, body.added));
+
+        return NextResponse.json({
+            ok: true,
+            message: "Trip undone",
+            listId: list.id,
+            ...result,
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError || error instanceof PantryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/finish-trip/undo:");
+    }
+}
@@ -0,0 +1,44 @@
+// app/api/grocery/history/route.ts
+// Endpoint to read the grocery purchase history
+// Items land here when they're checked off and the list is cleared or the trip
+// is finished (see /api/grocery/clear and /api/grocery/finish-trip)
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { formatGroceryPurchaseResponse } from "@/lib/purchase-history";
+
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 500;
+
+// GET /api/grocery/history?limit= — Most recent purchases first
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const limitParam = req.nextUrl.searchParams.get("limit");
+
+        let limit = DEFAULT_HISTORY_LIMIT;
+        if (limitParam) {
+            limit = parseInt(limitParam, 10);
+            if (isNaN(limit) || limit <= 0) {
+                return errorResponse(400, "Invalid limit");
+            }
+            limit = Math.min(limit, MAX_HISTORY_LIMIT);
+        }
+
+        const purchases = await prisma.groceryPurchase.findMany({
+            where: { userId: p.sub },
+            orderBy: { purchasedAt: "desc" },
+            take: limit,
+        });
+
+        return NextResponse.json({
+            ok: true,
+            purchases: purchases.map(formatGroceryPurchaseResponse),
+            count: purchases.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/grocery/history:");
+    }
+}
@@ -1,23 +1,22 @@
 // app/api/grocery/import/route.ts
 // Endpoint to import aggregated ingredients from meal plan into grocery list
 // Backed by Postgres via Prisma — data persists across server restarts
+// Subtracts pantry stock so only the shortfall is added to the list
+// See /api/meal-plan/grocery for the server-side pipeline that aggregates a saved week
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
-import { formatQuantity, mergeQuantityStrings } from "@/lib/grocery-consolidation";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
-import { normalize } from "@/lib/normalize";
-
-interface AggregatedIngredient {
-    name: string;
-    totalAmount: number;
-    unit: string;
-    category: string;
-}
+import {
+    GroceryServiceError,
+    importGroceryItems,
+    resolveGroceryList,
+    type GroceryImportItem,
+} from "@/lib/grocery-service";
 
 // POST /api/grocery/import — Import ingredients from meal plan
-// Body: { items: AggregatedIngredient[] }
+// Body: { items: GroceryImportItem[], listId?: number } — listId defaults to the user's default list
 export async function POST(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -27,128 +26,20 @@ export async function POST(req: NextRequest) {
             return errorResponse(400, "Missing required field: items (array)");
         }
 
-        const aggregatedItems: AggregatedIngredient[] = body.items;
-
-        // Ensure User record exists
-        await prisma.user.upsert({
-            where: { id: p.sub },
-            update: {},
-            create: { id: p.sub },
-        });
-
-        // Get existing items for this user
-        const existingItems = await prisma.groceryItem.findMany({
-            where: { userId: p.sub },
-        });
-        const existingByName = new Map(
-            existingItems.map((item) => [normalize(item.name), item])
-        );
-
-        // Fetch pantry items to filter out ingredients user already has
-        const pantryItems = await prisma.pantryItem.findMany({
-            where: { userId: p.sub },
-            select: { canonName: true, name: true },
-        });
-        const pantryCanonNames = new Set(
-            pantryItems.map((item) => item.canonName || normalize(item.name))
-        );
-
-        // Ensure categories exist
-        const existingCategories = await prisma.groceryCategory.findMany({
-            where: { userId: p.sub },
-        });
-        const categoryNames = new Set(existingCategories.map((c) => c.name));
-        const maxSort = existingCategories.reduce(
-            (max, c) => Math.max(max, c.sortOrder),
-            -1
-        );
-
-        let sortCounter = maxSort + 1;
-        const newCategories: { userId: string; name: string; sortOrder: number }[] = [];
-
-        for (const ingredient of aggregatedItems) {
-            if (ingredient.category && !categoryNames.has(ingredient.category)) {
-                categoryNames.add(ingredient.category);
-                newCategories.push({
-                    userId: p.sub,
-                    name: ingredient.category,
-                    sortOrder: sortCounter++,
-                });
-            }
-        }
-
-        if (newCategories.length > 0) {
-            await prisma.groceryCategory.createMany({ data: newCategories });
-        }
-
-        // Process each ingredient
-        let addedCount = 0;
-        let updatedCount = 0;
-        let filteredCount = 0;
-
-        for (const ingredient of aggregatedItems) {
-            const name = String(ingredient.name).trim().slice(0, 200);
-            const nameLower = normalize(name);
-
-            // Skip items the user already has in their pantry
-            if (pantryCanonNames.has(nameLower)) {
-                filteredCount++;
-                continue;
-            }
-
-            const quantity = formatQuantity(ingredient.totalAmount, ingredient.unit);
-            const category = String(ingredient.category || "Uncategorized")
-                .trim()
-                .slice(0, 100);
-
-            const existing = existingByName.get(nameLower);
-
-            if (existing) {
-                const newQuantity = mergeQuantityStrings(
-                    existing.quantity,
-                    ingredient.totalAmount,
-                    ingredient.unit
-                );
-
-                await prisma.groceryItem.update({
-                    where: { id: existing.id },
-                    data: {
-                        quantity: newQuantity,
-                        fromMealPlan: true,
-                    },
-                });
-                existingByName.set(nameLower, {
-                    ...existing,
-                    quantity: newQuantity,
-                    fromMealPlan: true,
-                });
-                updatedCount++;
-            } else {
-                // Create new item
-                const newItem = await prisma.groceryItem.create({
-                    data: {
-                        userId: p.sub,
-                        name,
-                        quantity: quantity || null,
-                        category,
-                        completed: false,
-                        fromMealPlan: true,
-                    },
-                });
-                existingByName.set(nameLower, newItem);
-                addedCount++;
-            }
-        }
+        const aggregatedItems: GroceryImportItem[] = body.items;
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+        const result = await importGroceryItems(prisma, p.sub, list.id, aggregatedItems);
 
         return NextResponse.json({
             ok: true,
             message: "Items imported from meal plan",
-            addedCount,
-            updatedCount,
-            filteredCount,
-            totalProcessed: aggregatedItems.length,
+            listId: list.id,
+            ...result,
         });
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in POST /api/grocery/import:");
     }
 }
@@ -0,0 +1,155 @@
+// app/api/grocery/lists/route.ts
+// Endpoint to manage a user's named grocery lists ("Costco run", "Farmers market")
+// Each list has its own items and completion state; categories stay shared per user
+// Backed by Postgres via Prisma — data persists across server restarts
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import {
+    formatGroceryListResponse,
+    getDefaultGroceryList,
+    GroceryServiceError,
+    resolveGroceryList,
+    sanitizeGroceryListName,
+} from "@/lib/grocery-service";
+
+// GET /api/grocery/lists — List the user's grocery lists (creates the default list on first use)
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const defaultList = await getDefaultGroceryList(prisma, p.sub);
+
+        const lists = await prisma.groceryList.findMany({
+            where: { userId: p.sub },
+            orderBy: { id: "asc" },
+            include: { items: { select: { completed: true } } },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            lists: lists.map(formatGroceryListResponse),
+            defaultListId: defaultList.id,
+            count: lists.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/grocery/lists:");
+    }
+}
+
+// POST /api/grocery/lists — Create a list
+// Body: { name: string }
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const name = sanitizeGroceryListName(body.name);
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        const existing = await prisma.groceryList.findFirst({
+            where: { userId: p.sub, name },
+        });
+
+        if (existing) {
+            return errorResponse(409, "List already exists");
+        }
+
+        const list = await prisma.groceryList.create({
+            data: { userId: p.sub, name },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "List created",
+            list: formatGroceryListResponse({ ...list, items: [] }),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/lists:");
+    }
+}
+
+// PUT /api/grocery/lists — Rename a list
+// Body: { id: number, name: string }
+export async function PUT(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (!body.id) {
+            return errorResponse(400, "Missing required field: id");
+        }
+
+        const list = await resolveGroceryList(prisma, p.sub, body.id);
+        const name = sanitizeGroceryListName(body.name);
+
+        const duplicate = await prisma.groceryList.findFirst({
+            where: { userId: p.sub, name, id: { not: list.id } },
+        });
+
+        if (duplicate) {
+            return errorResponse(409, "List already exists");
+        }
+
+        const updated = await prisma.groceryList.update({
+            where: { id: list.id },
+            data: { name },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "List renamed",
+            list: formatGroceryListResponse(updated),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in PUT /api/grocery/lists:");
+    }
+}
+
+// DELETE /api/grocery/lists?id= — Delete a list and its items (a user always keeps one list)
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return errorResponse(400, "Missing required param: id");
+        }
+
+        const list = await resolveGroceryList(prisma, p.sub, id);
+
+        const listCount = await prisma.groceryList.count({
+            where: { userId: p.sub },
+        });
+
+        if (listCount <= 1) {
+            return errorResponse(400, "Cannot delete your only grocery list");
+        }
+
+        await prisma.groceryList.delete({
+            where: { id: list.id },
+        });
+
+        return NextResponse.json({ ok: true, message: "List deleted" });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in DELETE /api/grocery/lists:");
+    }
+}
@@ -0,0 +1,54 @@
+// app/api/grocery/prices/route.ts
+// Endpoint for the user's price book: the last price paid for each ingredient
+// Prices are remembered when priced items are bought (the list is cleared or
+// the trip is finished) and fill in prices on items added later
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { formatPriceBookEntryResponse } from "@/lib/grocery-prices";
+
+// GET /api/grocery/prices — Every remembered price, by name
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const entries = await prisma.priceBookEntry.findMany({
+            where: { userId: p.sub },
+            orderBy: { name: "asc" },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            prices: entries.map(formatPriceBookEntryResponse),
+            count: entries.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/grocery/prices:");
+    }
+}
+
+// DELETE /api/grocery/prices?id= — Forget a remembered price
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const id = parseInt(req.nextUrl.searchParams.get("id") ?? "", 10);
+
+        if (isNaN(id)) {
+            return errorResponse(400, "Invalid id");
+        }
+
+        const { count } = await prisma.priceBookEntry.deleteMany({
+            where: { id, userId: p.sub },
+        });
+
+        if (count === 0) {
+            return errorResponse(404, "Price not found");
+        }
+
+        return NextResponse.json({ ok: true, message: "Price deleted" });
+    } catch (error) {
+        return handleRouteError(error, "Error in DELETE /api/grocery/prices:");
+    }
+}
@@ -1,13 +1,28 @@
 // app/api/grocery/route.ts
 // Endpoint to manage user's grocery list items
+// Items added from the meal plan carry the meal entries they were bought for
+// Items live on named lists (see /api/grocery/lists); listId defaults to the user's default list
+// Items can carry a unit price; new items pick up the last price paid (see /api/grocery/prices)
 // Backed by Postgres via Prisma — data persists across server restarts
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import {
+    addGroceryItem,
+    formatGroceryItemResponse,
+    GroceryServiceError,
+    parseItemPrice,
+    resolveGroceryList,
+} from "@/lib/grocery-service";
+import { addDueStaples } from "@/lib/grocery-staples";
+import { parseBaseUpdatedAt, resolveFieldConflicts } from "@/lib/grocery-sync";
+import { recordCategoryCorrection } from "@/lib/ingredient-classifier";
+import { checkoffPosition, recordStoreCheckoff, resolveStoreProfile } from "@/lib/store-layout";
 
-// GET /api/grocery — List all grocery items for user
+// GET /api/grocery?listId= — List all grocery items on one of the user's lists
+// Scheduled staples that have come due are added first (see /api/grocery/staples)
 export async function GET(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -19,46 +34,43 @@ export async function GET(req: NextRequest) {
             create: { id: p.sub },
         });
 
+        const list = await resolveGroceryList(prisma, p.sub, req.nextUrl.searchParams.get("listId"));
+        const staplesAdded = await prisma.$transaction((tx) => addDueStaples(tx, p.sub));
+
         const items = await prisma.groceryItem.findMany({
-            where: { userId: p.sub },
+            where: { listId: list.id },
             orderBy: { addedAt: "desc" },
+            include: { sources: { orderBy: { date: "asc" } } },
         });
 
         return NextResponse.json({
             ok: true,
-            items: items.map((item) => ({
-                id: item.id,
-                name: item.name,
-                quantity: item.quantity,
-                category: item.category,
-                completed: item.completed,
-                fromMealPlan: item.fromMealPlan,
-                addedAt: item.addedAt.toISOString(),
-            })),
+            listId: list.id,
+            items: items.map(formatGroceryItemResponse),
             count: items.length,
+            staplesAdded: staplesAdded.length,
         });
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in GET /api/grocery:");
     }
 }
 
-// POST /api/grocery — Add new grocery item
+// POST /api/grocery — Add new grocery item (body.listId picks the list)
+// Body: { name, category?, quantity?, unitPrice?, priceUnit?, fromMealPlan?, listId? }
+// or { items: [{ name, category?, quantity?, unitPrice?, priceUnit? }], listId? } to add a batch at once (quick add)
+// Leave category out to have the ingredient classifier pick one
 export async function POST(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
         const body = await req.json();
 
-        // Validate required fields
-        if (!body.name || !body.category) {
-            return errorResponse(400, "Missing required fields: name, category");
+        if (body.items !== undefined && (!Array.isArray(body.items) || body.items.length === 0)) {
+            return errorResponse(400, "items must be a non-empty array");
         }
 
-        // Sanitize inputs
-        const name = String(body.name).trim().slice(0, 200);
-        const quantity = body.quantity ? String(body.quantity).trim().slice(0, 100) : null;
-        const category = String(body.category).trim().slice(0, 100);
-        const fromMealPlan = Boolean(body.fromMealPlan);
-
         // Ensure User record exists
         await prisma.user.upsert({
             where: { id: p.sub },
@@ -66,45 +78,49 @@ export async function POST(req: NextRequest) {
             create: { id: p.sub },
         });
 
-        // Create or update item (upsert on name to prevent duplicates)
-        const item = await prisma.groceryItem.upsert({
-            where: {
-                userId_name: { userId: p.sub, name },
-            },
-            update: {
-                quantity: quantity,
-                category,
-                fromMealPlan: body.fromMealPlan !== undefined ? fromMealPlan : undefined,
-            },
-            create: {
-                userId: p.sub,
-                name,
-                quantity,
-                category,
-                fromMealPlan,
-                completed: false,
-            },
-        });
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+
+        if (Array.isArray(body.items)) {
+            // All or nothing, so a bad line doesn't leave half the batch behind
+            const items = await prisma.$transaction(async (tx) => {
+                const added = [];
+                for (const entry of body.items) {
+                    added.push(await addGroceryItem(tx, p.sub, list.id, entry ?? {}));
+                }
+                return added;
+            });
+
+            return NextResponse.json({
+                ok: true,
+                message: "Items added",
+                items: items.map(formatGroceryItemResponse),
+                count: items.length,
+            });
+        }
+
+        // Create or update item (upsert on name to prevent duplicates within a list)
+        const item = await addGroceryItem(prisma, p.sub, list.id, body);
 
         return NextResponse.json({
             ok: true,
             message: "Item added",
-            item: {
-                id: item.id,
-                name: item.name,
-                quantity: item.quantity,
-                category: item.category,
-                completed: item.completed,
-                fromMealPlan: item.fromMealPlan,
-                addedAt: item.addedAt.toISOString(),
-            },
+            item: formatGroceryItemResponse(item),
         });
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in POST /api/grocery:");
     }
 }
 
-// PUT /api/grocery — Update item (toggle completed, edit name/quantity/category)
+// PUT /api/grocery — Update item (toggle completed, edit name/quantity/category/price)
+// unitPrice is per priceUnit ("lb"); priceUnit "" prices per item or package
+// Pass storeId while shopping so check-offs teach that store its walking order
+// Moving an item to another category is remembered for the next time it's added
+// Edits replayed from the offline queue also send baseUpdatedAt (the item's updatedAt
+// when the edit was made) and base (the edited fields' values then); fields changed on
+// the server since keep the server's value and come back in conflicts
 export async function PUT(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -124,45 +140,84 @@ export async function PUT(req: NextRequest) {
         }
 
         // Build update data
-        const updateData: {
+        const requested: {
             name?: string;
             quantity?: string | null;
             category?: string;
             completed?: boolean;
-        } = {};
+            unitPrice?: number | null;
+            priceUnit?: string;
+        } = {
+            ...parseItemPrice(body),
+        };
 
         if (body.name !== undefined) {
-            updateData.name = String(body.name).trim().slice(0, 200);
+            requested.name = String(body.name).trim().slice(0, 200);
         }
         if (body.quantity !== undefined) {
-            updateData.quantity = body.quantity ? String(body.quantity).trim().slice(0, 100) : null;
+            requested.quantity = body.quantity ? String(body.quantity).trim().slice(0, 100) : null;
         }
         if (body.category !== undefined) {
-            updateData.category = String(body.category).trim().slice(0, 100);
+            requested.category = String(body.category).trim().slice(0, 100);
         }
         if (body.completed !== undefined) {
-            updateData.completed = Boolean(body.completed);
+            requested.completed = Boolean(body.completed);
+        }
+
+        const { changes, conflicts } = resolveFieldConflicts(
+            existing,
+            existing.updatedAt,
+            requested,
+            body.base,
+            parseBaseUpdatedAt(body.baseUpdatedAt),
+        );
+        const updateData: typeof changes & { packageQuantity?: null } = { ...changes };
+
+        // The package amount was worked out for the old quantity
+        if (updateData.quantity !== undefined && updateData.quantity !== existing.quantity) {
+            updateData.packageQuantity = null;
         }
 
-        const item = await prisma.groceryItem.update({
-            where: { id: body.id },
-            data: updateData,
+        const checkedOff = updateData.completed === true && !existing.completed;
+        const store = checkedOff && body.storeId
+            ? await resolveStoreProfile(prisma, p.sub, body.storeId)
+            : null;
+
+        const item = await prisma.$transaction(async (tx) => {
+            if (updateData.category && updateData.category !== existing.category) {
+                await recordCategoryCorrection(tx, p.sub, updateData.name ?? existing.name, updateData.category);
+            }
+
+            if (store) {
+                const [completedBefore, totalItems] = await Promise.all([
+                    tx.groceryItem.count({ where: { listId: existing.listId, completed: true } }),
+                    tx.groceryItem.count({ where: { listId: existing.listId } }),
+                ]);
+                await recordStoreCheckoff(
+                    tx,
+                    store,
+                    updateData.category ?? existing.category,
+                    checkoffPosition(completedBefore, totalItems),
+                );
+            }
+
+            return tx.groceryItem.update({
+                where: { id: body.id },
+                data: updateData,
+                include: { sources: { orderBy: { date: "asc" } } },
+            });
         });
 
         return NextResponse.json({
             ok: true,
             message: "Item updated",
-            item: {
-                id: item.id,
-                name: item.name,
-                quantity: item.quantity,
-                category: item.category,
-                completed: item.completed,
-                fromMealPlan: item.fromMealPlan,
-                addedAt: item.addedAt.toISOString(),
-            },
+            item: formatGroceryItemResponse(item),
+            conflicts,
         });
     } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(error, "Error in PUT /api/grocery:");
     }
 }
@@ -0,0 +1,103 @@
+// app/api/grocery/share/route.ts
+// Endpoint to manage read-only share links for a grocery list
+// A link lets someone without an account open the list (see /api/grocery/shared/[token])
+// until it expires or is revoked
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import { formatShareLinkResponse, shareLinkExpiry } from "@/lib/grocery-export";
+import { createShareToken } from "@/lib/share-token";
+
+// GET /api/grocery/share?listId= — List the active share links for one of the user's lists
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const list = await resolveGroceryList(prisma, p.sub, req.nextUrl.searchParams.get("listId"));
+
+        const links = await prisma.groceryShareLink.findMany({
+            where: { listId: list.id, expiresAt: { gt: new Date() } },
+            orderBy: { createdAt: "desc" },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            listId: list.id,
+            links: links.map((link) => formatShareLinkResponse(link, req.nextUrl.origin)),
+            count: links.length,
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/grocery/share:");
+    }
+}
+
+// POST /api/grocery/share — Create a share link
+// Body: { listId?: number, expiresInDays?: number } — defaults to the default list and 7 days
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const expiresAt = shareLinkExpiry(body.expiresInDays);
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+
+        // Expired links are useless; tidy them up while we're here
+        await prisma.groceryShareLink.deleteMany({
+            where: { userId: p.sub, expiresAt: { lte: new Date() } },
+        });
+
+        const link = await prisma.groceryShareLink.create({
+            data: {
+                token: createShareToken(),
+                userId: p.sub,
+                listId: list.id,
+                expiresAt,
+            },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Share link created",
+            link: formatShareLinkResponse(link, req.nextUrl.origin),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/share:");
+    }
+}
+
+// DELETE /api/grocery/share?id= — Revoke a share link
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const id = req.nextUrl.searchParams.get("id");
+
+        if (!id) {
+            return errorResponse(400, "Missing required param: id");
+        }
+
+        const linkId = parseInt(id, 10);
+        if (isNaN(linkId)) {
+            return errorResponse(400, "Invalid id");
+        }
+
+        const { count } = await prisma.groceryShareLink.deleteMany({
+            where: { id: linkId, userId: p.sub },
+        });
+
+        if (count === 0) {
+            return errorResponse(404, "Share link not found");
+        }
+
+        return NextResponse.json({ ok: true, message: "Share link revoked" });
+    } catch (error) {
+        return handleRouteError(error, "Error in DELETE /api/grocery/share:");
+    }
+}
@@ -0,0 +1,71 @@
+// app/api/grocery/shared/[token]/route.ts
+// Public, read-only view of a shared grocery list — no account needed
+// The token comes from POST /api/grocery/share; it stops working when it expires or is revoked
+// Defaults to a phone-friendly HTML page; ?format= accepts the same formats as /api/grocery/export
+
+import { NextRequest } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError } from "@/lib/grocery-service";
+import {
+    exportFileName,
+    formatGroceryMessageHtml,
+    loadGroceryExportGroups,
+    parseExportFormat,
+    renderGroceryExport,
+    type GroceryExportFormat,
+} from "@/lib/grocery-export";
+
+type RouteContext = {
+    params: Promise<{ token: string }>;
+};
+
+function unavailable(format: GroceryExportFormat, status: number, message: string) {
+    if (format !== "html") {
+        return errorResponse(status, message, "NOT_FOUND");
+    }
+    return new Response(formatGroceryMessageHtml("Grocery list", message), {
+        status,
+        headers: { "Content-Type": "text/html; charset=utf-8", "Cache-Control": "no-store" },
+    });
+}
+
+// GET /api/grocery/shared/[token]?format=
+export async function GET(req: NextRequest, context: RouteContext) {
+    try {
+        const { token } = await context.params;
+        const format = parseExportFormat(req.nextUrl.searchParams.get("format") ?? "html");
+
+        const link = await prisma.groceryShareLink.findUnique({
+            where: { token },
+            include: { list: true },
+        });
+
+        if (!link) {
+            return unavailable(format, 404, "This share link doesn't exist or has been revoked.");
+        }
+        if (link.expiresAt <= new Date()) {
+            return unavailable(format, 410, "This share link has expired.");
+        }
+
+        const groups = await loadGroceryExportGroups(prisma, link.userId, link.listId);
+        const document = renderGroceryExport(format, link.list.name, groups, {
+            expiresAt: link.expiresAt,
+            readOnly: true,
+        });
+
+        return new Response(document.body, {
+            headers: {
+                "Content-Type": document.contentType,
+                "Content-Disposition": `${format === "html" ? "inline" : "attachment"}; filename="${exportFileName(link.list.name, document.extension)}"`,
+                "Cache-Control": "no-store",
+                "X-Robots-Tag": "noindex",
+            },
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/grocery/shared:");
+    }
+}
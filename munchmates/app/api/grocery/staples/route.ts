@@ -0,0 +1,180 @@
+// app/api/grocery/staples/route.ts
+// Endpoint to manage grocery staples — things bought over and over (milk, bread, eggs)
+// A staple has a schedule (weekday + intervalWeeks), a pantry par level (parAmount + parUnit), or both
+// Scheduled staples are added when the list is loaded (GET /api/grocery); par staples
+// when /api/pantry/deduct or a pantry edit drops stock below par
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import {
+    formatGroceryItemResponse,
+    GroceryServiceError,
+    resolveGroceryList,
+} from "@/lib/grocery-service";
+import {
+    formatGroceryStapleResponse,
+    replenishStaples,
+    resolveGroceryStaple,
+    sanitizeStapleInput,
+} from "@/lib/grocery-staples";
+import { classifyIngredient } from "@/lib/ingredient-classifier";
+
+// GET /api/grocery/staples — List the user's staples
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const staples = await prisma.groceryStaple.findMany({
+            where: { userId: p.sub },
+            orderBy: { name: "asc" },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            staples: staples.map(formatGroceryStapleResponse),
+            count: staples.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/grocery/staples:");
+    }
+}
+
+// POST /api/grocery/staples — Create a staple
+// Body: { name, quantity?, category?, listId?, weekday?, intervalWeeks?, parAmount?, parUnit? }
+// category defaults to the ingredient classifier's pick; listId to the user's default list
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const input = sanitizeStapleInput(body);
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        const existing = await prisma.groceryStaple.findFirst({
+            where: { userId: p.sub, canonName: input.canonName },
+        });
+
+        if (existing) {
+            return errorResponse(409, "Staple already exists");
+        }
+
+        if (input.listId) {
+            await resolveGroceryList(prisma, p.sub, input.listId);
+        }
+
+        const { staple, restocked } = await prisma.$transaction(async (tx) => {
+            const created = await tx.groceryStaple.create({
+                data: {
+                    userId: p.sub,
+                    name: input.name!,
+                    canonName: input.canonName!,
+                    quantity: input.quantity ?? null,
+                    category: input.category ?? (await classifyIngredient(tx, p.sub, input.name!)).category,
+                    listId: input.listId ?? null,
+                    weekday: input.weekday ?? null,
+                    intervalWeeks: input.intervalWeeks ?? 1,
+                    parAmount: input.parAmount ?? null,
+                    parUnit: input.parUnit ?? "",
+                },
+            });
+
+            // A par level that is already short takes effect straight away
+            return { staple: created, restocked: await replenishStaples(tx, p.sub) };
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Staple created",
+            staple: formatGroceryStapleResponse(staple),
+            restocked: restocked.map(formatGroceryItemResponse),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/staples:");
+    }
+}
+
+// PUT /api/grocery/staples — Update a staple
+// Body: { id, ...any POST field }; send weekday: null or parAmount: null to drop a trigger
+export async function PUT(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (!body.id) {
+            return errorResponse(400, "Missing required field: id");
+        }
+
+        const existing = await resolveGroceryStaple(prisma, p.sub, body.id);
+        const input = sanitizeStapleInput(body, existing);
+
+        if (input.canonName && input.canonName !== existing.canonName) {
+            const duplicate = await prisma.groceryStaple.findFirst({
+                where: { userId: p.sub, canonName: input.canonName },
+            });
+            if (duplicate) {
+                return errorResponse(409, "Staple already exists");
+            }
+        }
+
+        if (input.listId) {
+            await resolveGroceryList(prisma, p.sub, input.listId);
+        }
+
+        const { staple, restocked } = await prisma.$transaction(async (tx) => {
+            const updated = await tx.groceryStaple.update({
+                where: { id: existing.id },
+                data: input,
+            });
+            return { staple: updated, restocked: await replenishStaples(tx, p.sub) };
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Staple updated",
+            staple: formatGroceryStapleResponse(staple),
+            restocked: restocked.map(formatGroceryItemResponse),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in PUT /api/grocery/staples:");
+    }
+}
+
+// DELETE /api/grocery/staples?id= — Delete a staple (items it already added stay on the list)
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return errorResponse(400, "Missing required param: id");
+        }
+
+        const staple = await resolveGroceryStaple(prisma, p.sub, id);
+
+        await prisma.groceryStaple.delete({
+            where: { id: staple.id },
+        });
+
+        return NextResponse.json({ ok: true, message: "Staple deleted" });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in DELETE /api/grocery/staples:");
+    }
+}
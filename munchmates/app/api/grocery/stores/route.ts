@@ -0,0 +1,172 @@
+// app/api/grocery/stores/route.ts
+// Endpoint to manage store layout profiles — a per-store category order with optional aisles
+// The order is also learned from check-offs (see PUT /api/grocery with storeId)
+// Pass storeId to GET /api/grocery/categories to get categories in a store's order
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { GroceryServiceError } from "@/lib/grocery-service";
+import {
+    formatStoreProfileResponse,
+    resolveStoreProfile,
+    sanitizeStoreLayout,
+    sanitizeStoreName,
+    saveStoreLayout,
+} from "@/lib/store-layout";
+
+const CATEGORY_INCLUDE = { categories: { orderBy: { sortOrder: "asc" as const } } };
+
+// GET /api/grocery/stores — List the user's stores with their layouts
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const stores = await prisma.storeProfile.findMany({
+            where: { userId: p.sub },
+            orderBy: { name: "asc" },
+            include: CATEGORY_INCLUDE,
+        });
+
+        return NextResponse.json({
+            ok: true,
+            stores: stores.map(formatStoreProfileResponse),
+            count: stores.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/grocery/stores:");
+    }
+}
+
+// POST /api/grocery/stores — Create a store
+// Body: { name: string, categories?: ({ category, aisle? } | string)[] }
+// Without categories the layout starts from the user's category order
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const name = sanitizeStoreName(body.name);
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        const existing = await prisma.storeProfile.findFirst({
+            where: { userId: p.sub, name },
+        });
+
+        if (existing) {
+            return errorResponse(409, "Store already exists");
+        }
+
+        let layout;
+        if (body.categories !== undefined) {
+            layout = sanitizeStoreLayout(body.categories);
+        } else {
+            const categories = await prisma.groceryCategory.findMany({
+                where: { userId: p.sub },
+                orderBy: { sortOrder: "asc" },
+            });
+            layout = categories.map((category) => ({ category: category.name, aisle: null }));
+        }
+
+        const store = await prisma.$transaction(async (tx) => {
+            const created = await tx.storeProfile.create({
+                data: { userId: p.sub, name },
+                include: CATEGORY_INCLUDE,
+            });
+            await saveStoreLayout(tx, created, layout);
+            return resolveStoreProfile(tx, p.sub, created.id);
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Store created",
+            store: formatStoreProfileResponse(store),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/grocery/stores:");
+    }
+}
+
+// PUT /api/grocery/stores — Rename a store, toggle learning, or save its layout
+// Body: { id: number, name?: string, learnOrder?: boolean, categories?: ({ category, aisle? } | string)[] }
+export async function PUT(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (!body.id) {
+            return errorResponse(400, "Missing required field: id");
+        }
+
+        const store = await prisma.$transaction(async (tx) => {
+            const existing = await resolveStoreProfile(tx, p.sub, body.id);
+
+            const updateData: { name?: string; learnOrder?: boolean } = {};
+            if (body.name !== undefined) {
+                updateData.name = sanitizeStoreName(body.name);
+            }
+            if (body.learnOrder !== undefined) {
+                updateData.learnOrder = Boolean(body.learnOrder);
+            }
+            if (Object.keys(updateData).length > 0) {
+                await tx.storeProfile.update({
+                    where: { id: existing.id },
+                    data: updateData,
+                });
+            }
+
+            if (body.categories !== undefined) {
+                await saveStoreLayout(tx, existing, sanitizeStoreLayout(body.categories));
+            }
+
+            return resolveStoreProfile(tx, p.sub, existing.id);
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Store updated",
+            store: formatStoreProfileResponse(store),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in PUT /api/grocery/stores:");
+    }
+}
+
+// DELETE /api/grocery/stores?id= — Delete a store profile
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = new URL(req.url);
+        const id = searchParams.get("id");
+
+        if (!id) {
+            return errorResponse(400, "Missing required param: id");
+        }
+
+        const store = await resolveStoreProfile(prisma, p.sub, id);
+
+        await prisma.storeProfile.delete({
+            where: { id: store.id },
+        });
+
+        return NextResponse.json({ ok: true, message: "Store deleted" });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in DELETE /api/grocery/stores:");
+    }
+}
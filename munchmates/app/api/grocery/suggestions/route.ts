@@ -0,0 +1,56 @@
+// app/api/grocery/suggestions/route.ts
+// "Buy again" suggestions built from the purchase history
+// Items that are overdue by their usual gap between purchases come first
+// ("you usually buy coffee every 10 days"), then ones bought regularly.
+// Anything already on the list, and staples (which refill themselves), is left out.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { normalize } from "@/lib/normalize";
+import { GroceryServiceError, resolveGroceryList } from "@/lib/grocery-service";
+import {
+    parseSuggestionLimit,
+    PURCHASE_HISTORY_DAYS,
+    suggestPurchases,
+} from "@/lib/purchase-history";
+
+// GET /api/grocery/suggestions?listId=&limit=
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = req.nextUrl;
+        const list = await resolveGroceryList(prisma, p.sub, searchParams.get("listId"));
+        const now = new Date();
+
+        const [purchases, items, staples] = await Promise.all([
+            prisma.groceryPurchase.findMany({
+                where: {
+                    userId: p.sub,
+                    purchasedAt: { gte: new Date(now.getTime() - PURCHASE_HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+                },
+            }),
+            prisma.groceryItem.findMany({ where: { listId: list.id } }),
+            prisma.groceryStaple.findMany({ where: { userId: p.sub } }),
+        ]);
+
+        const exclude = new Set([
+            ...items.map((item) => normalize(item.name)),
+            ...staples.map((staple) => staple.canonName),
+        ]);
+        const suggestions = suggestPurchases(purchases, exclude, now, parseSuggestionLimit(searchParams.get("limit")));
+
+        return NextResponse.json({
+            ok: true,
+            listId: list.id,
+            suggestions,
+            count: suggestions.length,
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/grocery/suggestions:");
+    }
+}
@@ -0,0 +1,73 @@
+// app/api/meal-plan/calendar/[token]/route.ts
+// Public iCalendar (.ics) feed of a user's meal plan for calendar apps to subscribe to —
+// calendar apps can't sign in, so the unguessable token in the URL is the only protection
+// The token comes from POST /api/meal-plan/calendar; it stops working when the feed is
+// turned off or given a new link. Covers the last two weeks and the next two months.
+
+import { NextRequest } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { prisma } from "@/lib/prisma";
+import { loadPlannedMeals } from "@/lib/meal-plan-service";
+import { buildMealPlanCalendar, calendarFeedRange } from "@/lib/meal-plan-calendar";
+import { addDays } from "@/lib/meal-plan";
+
+type RouteContext = {
+    params: Promise<{ token: string }>;
+};
+
+// GET /api/meal-plan/calendar/[token].ics
+export async function GET(req: NextRequest, context: RouteContext) {
+    try {
+        const { token } = await context.params;
+
+        const feed = await prisma.mealPlanCalendarFeed.findUnique({
+            where: { token: token.replace(/\.ics$/, "") },
+        });
+
+        if (!feed) {
+            return errorResponse(404, "This calendar feed doesn't exist or has been turned off.", "NOT_FOUND");
+        }
+
+        const range = calendarFeedRange(new Date().toISOString().split("T")[0]);
+
+        const [meals, slots, expiringItems] = await Promise.all([
+            loadPlannedMeals(prisma, feed.userId, range),
+            prisma.mealSlot.findMany({
+                where: { userId: feed.userId },
+                orderBy: { sortOrder: "asc" },
+            }),
+            feed.includePantryExpiry
+                ? prisma.pantryItem.findMany({
+                      where: {
+                          userId: feed.userId,
+                          expiryDate: {
+                              gte: new Date(`${range.from}T00:00:00Z`),
+                              lt: new Date(`${addDays(range.to, 1)}T00:00:00Z`),
+                          },
+                      },
+                  })
+                : Promise.resolve([]),
+        ]);
+
+        const body = buildMealPlanCalendar({
+            meals,
+            slots,
+            expiringItems: expiringItems.flatMap((item) =>
+                item.expiryDate ? [{ name: item.name, quantity: item.quantity, expiryDate: item.expiryDate }] : []
+            ),
+            feedToken: feed.token,
+            origin: req.nextUrl.origin,
+        });
+
+        return new Response(body, {
+            headers: {
+                "Content-Type": "text/calendar; charset=utf-8",
+                "Content-Disposition": 'inline; filename="munchmates-meal-plan.ics"',
+                "Cache-Control": "no-store",
+                "X-Robots-Tag": "noindex",
+            },
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/meal-plan/calendar:");
+    }
+}
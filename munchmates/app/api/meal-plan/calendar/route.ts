@@ -0,0 +1,93 @@
+// app/api/meal-plan/calendar/route.ts
+// Endpoint to manage the user's meal plan calendar feed: a private .ics link that
+// Google Calendar, Apple Calendar or Outlook can subscribe to (see /api/meal-plan/calendar/[token])
+// Events use the meal times set on the user's slots (PATCH /api/meal-plan/slots)
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { createCalendarFeedToken, formatCalendarFeedResponse } from "@/lib/meal-plan-calendar";
+
+// GET /api/meal-plan/calendar — The user's feed, or null if they haven't made one
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const feed = await prisma.mealPlanCalendarFeed.findUnique({ where: { userId: p.sub } });
+
+        return NextResponse.json({
+            ok: true,
+            feed: feed ? formatCalendarFeedResponse(feed, req.nextUrl.origin) : null,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/meal-plan/calendar:");
+    }
+}
+
+// POST /api/meal-plan/calendar — Create the feed, or change its options
+// Body: { includePantryExpiry?: boolean, regenerate?: boolean }
+// regenerate: true gives the feed a new link; calendars subscribed to the old one stop updating
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (body.includePantryExpiry !== undefined && typeof body.includePantryExpiry !== "boolean") {
+            return errorResponse(400, "includePantryExpiry must be a boolean");
+        }
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        const existing = await prisma.mealPlanCalendarFeed.findUnique({ where: { userId: p.sub } });
+
+        const feed = await prisma.mealPlanCalendarFeed.upsert({
+            where: { userId: p.sub },
+            update: {
+                ...(body.includePantryExpiry !== undefined && { includePantryExpiry: body.includePantryExpiry }),
+                ...(body.regenerate === true && { token: createCalendarFeedToken(), createdAt: new Date() }),
+            },
+            create: {
+                userId: p.sub,
+                token: createCalendarFeedToken(),
+                includePantryExpiry: body.includePantryExpiry ?? false,
+            },
+        });
+
+        const message = !existing
+            ? "Calendar feed created"
+            : body.regenerate === true
+                ? "Calendar feed link replaced"
+                : "Calendar feed updated";
+
+        return NextResponse.json({
+            ok: true,
+            message,
+            feed: formatCalendarFeedResponse(feed, req.nextUrl.origin),
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in POST /api/meal-plan/calendar:");
+    }
+}
+
+// DELETE /api/meal-plan/calendar — Turn the feed off; its link stops working
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const { count } = await prisma.mealPlanCalendarFeed.deleteMany({ where: { userId: p.sub } });
+
+        if (count === 0) {
+            return errorResponse(404, "Calendar feed not found");
+        }
+
+        return NextResponse.json({ ok: true, message: "Calendar feed turned off" });
+    } catch (error) {
+        return handleRouteError(error, "Error in DELETE /api/meal-plan/calendar:");
+    }
+}
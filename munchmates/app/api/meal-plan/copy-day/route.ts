@@ -0,0 +1,60 @@
+// app/api/meal-plan/copy-day/route.ts
+// POST /api/meal-plan/copy-day
+// Body: { weekStart, version, fromDate, toDate, replace? }
+// Duplicates the meals planned on fromDate (any week) onto toDate, which must be a
+// day of the week starting at weekStart. Meals are added after what's already
+// planned that day, or replace it. version is the target week's, as in
+// /api/meal-plan/entries.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { buildDayPlan, weekDates } from "@/lib/meal-plan";
+import {
+    loadPlannedMeals,
+    mealPlanErrorResponse,
+    MealPlanServiceError,
+    parsePlanDate,
+    parsePlanVersion,
+    parseWeekStart,
+    writeWeeklyPlan,
+} from "@/lib/meal-plan-service";
+import { copyDay, mergeDays } from "@/lib/meal-plan-templates";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const version = parsePlanVersion(body.version);
+        const fromDate = parsePlanDate(body.fromDate, "fromDate");
+        const toDate = String(body.toDate ?? "");
+
+        if (!weekDates(weekStart).includes(toDate)) {
+            return errorResponse(400, "toDate must be a day of the week being planned");
+        }
+        if (fromDate === toDate) {
+            return errorResponse(400, "Pick a different day to copy to");
+        }
+
+        const replace = Boolean(body.replace);
+        const result = await prisma.$transaction(async (tx) => {
+            const sourceMeals = await loadPlannedMeals(tx, p.sub, { from: fromDate, to: fromDate });
+            const source = buildDayPlan(fromDate, sourceMeals);
+
+            if (Object.keys(source.meals).length === 0) {
+                throw new MealPlanServiceError(404, "Nothing is planned that day");
+            }
+
+            return writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) =>
+                mergeDays(plan, [copyDay(source, toDate)], replace)
+            );
+        });
+
+        return NextResponse.json({ ok: true, message: "Day copied", ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in POST /api/meal-plan/copy-day:");
+    }
+}
@@ -0,0 +1,51 @@
+// app/api/meal-plan/copy-week/route.ts
+// POST /api/meal-plan/copy-week
+// Body: { weekStart, version, fromWeekStart?, replace? }
+// Copies the meals of another week (the week before, unless fromWeekStart is given)
+// into the week starting at weekStart, day for day, with their slots, order and
+// servings. Meals are added after what's already planned, or with replace the week
+// is cleared first. version works as in /api/meal-plan/entries.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { addDays } from "@/lib/meal-plan";
+import {
+    loadWeeklyPlan,
+    mealPlanErrorResponse,
+    parsePlanVersion,
+    parseWeekStart,
+    writeWeeklyPlan,
+} from "@/lib/meal-plan-service";
+import { applyWeek, templateDays, templateEntriesFromPlan } from "@/lib/meal-plan-templates";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const version = parsePlanVersion(body.version);
+        const fromWeekStart = body.fromWeekStart ? parseWeekStart(body.fromWeekStart) : addDays(weekStart, -7);
+
+        if (fromWeekStart === weekStart) {
+            return errorResponse(400, "Pick a different week to copy from");
+        }
+
+        const source = await loadWeeklyPlan(prisma, p.sub, fromWeekStart);
+        const entries = source ? templateEntriesFromPlan(source) : [];
+        if (entries.length === 0) {
+            return errorResponse(404, "Nothing is planned that week");
+        }
+
+        const days = templateDays(entries, weekStart);
+        const result = await prisma.$transaction((tx) =>
+            writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) => applyWeek(plan, days, Boolean(body.replace)))
+        );
+
+        return NextResponse.json({ ok: true, message: "Week copied", copiedCount: entries.length, ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in POST /api/meal-plan/copy-week:");
+    }
+}
@@ -0,0 +1,152 @@
+// app/api/meal-plan/entries/route.ts
+// Endpoint to change a single entry of a weekly meal plan instead of saving the whole week
+// Every request carries weekStart and the plan version the change was made against;
+// a stale version gets 409 with the current plan, a successful change answers with the
+// updated plan and its new version
+// POST: add an entry to a slot
+// PATCH: move an entry, swap it with another, or change its servings or batch size
+// DELETE: remove an entry
+// Grocery quantities added for removed or scaled-down entries are taken back off the list
+// Leftovers: an entry added with entry.leftoverOf eats from the batch of an earlier
+// entry (in any week) instead of being cooked; cookedServings sets how many servings a
+// cooked entry's batch makes. See /api/meal-plan/leftovers for what each batch has left.
+// Backed by Postgres via Prisma — data persists across server restarts
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import {
+    addMealEntry,
+    findMealEntry,
+    moveMealEntry,
+    removeMealEntry,
+    swapMealEntries,
+    updateMealEntry,
+} from "@/lib/meal-plan";
+import {
+    linkLeftoverEntry,
+    mealPlanErrorResponse,
+    MealPlanServiceError,
+    parseCookedServings,
+    parseMealEntryInput,
+    parsePlanVersion,
+    parseServings,
+    parseSlotTarget,
+    parseWeekStart,
+    requireMealEntry,
+    writeWeeklyPlan,
+} from "@/lib/meal-plan-service";
+
+// POST /api/meal-plan/entries — Add an entry
+// Body: { weekStart, version, date, mealType, index?, entry: { recipeId, title, servings, image?, originalServings?, readyInMinutes?, cookedServings?, leftoverOf?, id? } }
+// A leftover entry takes its recipe from the entry it's a leftover of
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const version = parsePlanVersion(body.version);
+        const target = parseSlotTarget(body, weekStart);
+        const entry = parseMealEntryInput(body.entry);
+
+        // Ensure User record exists
+        await prisma.user.upsert({
+            where: { id: p.sub },
+            update: {},
+            create: { id: p.sub },
+        });
+
+        const result = await prisma.$transaction(async (tx) => {
+            const linked = await linkLeftoverEntry(tx, p.sub, entry, target.dayDate);
+            return writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) => {
+                if (findMealEntry(plan, linked.id)) {
+                    throw new MealPlanServiceError(409, "Meal entry already exists");
+                }
+                return addMealEntry(plan, target, linked);
+            });
+        });
+
+        return NextResponse.json({ ok: true, message: "Meal added", entryId: entry.id, ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in POST /api/meal-plan/entries:");
+    }
+}
+
+// PATCH /api/meal-plan/entries — Change one entry
+// Body: { weekStart, version, entryId } plus exactly one of
+//   servings: number
+//   cookedServings: number | null — servings the batch makes (null: just the servings eaten)
+//   to: { date, mealType, index? } — move; without index it goes to the end of the slot
+//   swapWith: entryId — trade places with another entry
+export async function PATCH(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const version = parsePlanVersion(body.version);
+        const entryId = String(body.entryId ?? "");
+
+        const actions = ["servings", "cookedServings", "to", "swapWith"].filter((field) => body[field] !== undefined);
+        if (actions.length !== 1) {
+            return errorResponse(400, "Send exactly one of servings, cookedServings, to or swapWith");
+        }
+
+        const result = await prisma.$transaction((tx) =>
+            writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) => {
+                const location = requireMealEntry(plan, entryId);
+
+                if (body.servings !== undefined) {
+                    return updateMealEntry(plan, entryId, { servings: parseServings(body.servings) });
+                }
+                if (body.cookedServings !== undefined) {
+                    if (location.entry.leftoverOf) {
+                        throw new MealPlanServiceError(400, "Leftovers aren't cooked, so they can't have cookedServings");
+                    }
+                    const cookedServings = parseCookedServings(body.cookedServings) ?? undefined;
+                    return updateMealEntry(plan, entryId, { cookedServings });
+                }
+                if (body.to !== undefined) {
+                    const target = parseSlotTarget(body.to ?? {}, weekStart);
+                    return moveMealEntry(plan, entryId, target);
+                }
+
+                const other = requireMealEntry(plan, body.swapWith);
+                return swapMealEntries(plan, entryId, other.entry.id);
+            })
+        );
+
+        return NextResponse.json({ ok: true, message: "Meal updated", ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in PATCH /api/meal-plan/entries:");
+    }
+}
+
+// DELETE /api/meal-plan/entries?weekStart=&version=&entryId= — Remove an entry
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const params = req.nextUrl.searchParams;
+
+        const weekStart = parseWeekStart(params.get("weekStart"));
+        const version = parsePlanVersion(params.get("version"));
+        const entryId = params.get("entryId");
+
+        if (!entryId) {
+            return errorResponse(400, "Missing required param: entryId");
+        }
+
+        const result = await prisma.$transaction((tx) =>
+            writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) => {
+                requireMealEntry(plan, entryId);
+                return removeMealEntry(plan, entryId);
+            })
+        );
+
+        return NextResponse.json({ ok: true, message: "Meal removed", ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in DELETE /api/meal-plan/entries:");
+    }
+}
@@ -0,0 +1,208 @@
+// app/api/meal-plan/generate/route.ts
+// POST /api/meal-plan/generate
+// Body: { weekStart, seed?, slots?, dailyCalories?, diet?, exclude?, maxReadyInMinutes?, avoidRepeatDays? }
+// Generates a week from the user's own recipes: saved recipes, recipes in their shared
+// collections and their custom recipes (see lib/meal-plan-generator.ts). Calorie and
+// protein goals and intolerances come from the profile (dailyCalories overrides the goal),
+// and recipes that use pantry items before they expire are preferred.
+// The plan is returned, not saved: the planner saves it through POST /api/meal-plan.
+// The same seed gives the same plan for the same recipes; the seed used is returned.
+
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { getRecipeInformation, getRecipeNutrition } from "@/lib/spoonacular";
+import { normalize } from "@/lib/normalize";
+import { parseIngredientText } from "@/lib/parseIngredientText";
+import { parseNutritionNumber } from "@/lib/nutrition-goals";
+import { addDays, DEFAULT_MEAL_SLOTS, weekDates } from "@/lib/meal-plan";
+import { loadPlannedMeals, MealPlanServiceError, parseWeekStart } from "@/lib/meal-plan-service";
+import { generateMealPlan, parseGeneratorRequest, type GeneratorRecipe } from "@/lib/meal-plan-generator";
+import { withCurrentNutrition } from "@/lib/recipe-nutrition";
+import { CUSTOM_RECIPE_MIN_ID } from "@/lib/custom-recipes";
+
+// Spoonacular recipes cost two API calls each (cached for a week), so only the
+// most recently saved ones are considered
+const MAX_SPOONACULAR_RECIPES = 40;
+// Stay under Spoonacular's 5 req/sec limit
+const SPOONACULAR_BATCH_SIZE = 2;
+const SPOONACULAR_BATCH_DELAY_MS = 250;
+
+async function loadCustomRecipes(userId: string, recipeIds: number[]): Promise<GeneratorRecipe[]> {
+    const customRecipes = await withCurrentNutrition(
+        prisma,
+        await prisma.customRecipe.findMany({
+            where: { OR: [{ userId }, { id: { in: recipeIds } }] },
+            include: { structuredIngredients: true },
+        })
+    );
+
+    return customRecipes.map((recipe) => {
+        // Older custom recipes only have the flat ingredient strings
+        const ingredients = recipe.structuredIngredients.length > 0
+            ? recipe.structuredIngredients
+            : recipe.ingredients.map(parseIngredientText);
+        const names = ingredients.map((ingredient) => ingredient.name).filter(Boolean);
+
+        return {
+            recipeId: recipe.id,
+            title: recipe.title,
+            image: recipe.image ?? undefined,
+            servings: recipe.servings,
+            readyInMinutes: recipe.readyInMinutes,
+            calories: recipe.calories,
+            protein: recipe.protein,
+            dishTypes: recipe.dishTypes,
+            // Custom recipes carry no diet labels
+            diets: null,
+            ingredients: names,
+            ingredientKeys: names.map(normalize),
+        };
+    });
+}
+
+async function loadSpoonacularRecipes(recipeIds: number[]): Promise<GeneratorRecipe[]> {
+    const recipes: GeneratorRecipe[] = [];
+
+    for (let i = 0; i < recipeIds.length; i += SPOONACULAR_BATCH_SIZE) {
+        const batch = recipeIds.slice(i, i + SPOONACULAR_BATCH_SIZE);
+        await Promise.all(
+            batch.map(async (recipeId) => {
+                try {
+                    const [info, nutrition] = await Promise.all([
+                        getRecipeInformation(recipeId),
+                        getRecipeNutrition(recipeId),
+                    ]);
+                    const names = (info.extendedIngredients || []).map((ingredient) => ingredient.name);
+
+                    recipes.push({
+                        recipeId,
+                        title: info.title,
+                        image: info.image,
+                        servings: info.servings || 1,
+                        readyInMinutes: info.readyInMinutes ?? null,
+                        calories: parseNutritionNumber(nutrition.calories) || null,
+                        protein: parseNutritionNumber(nutrition.protein) || null,
+                        dishTypes: info.dishTypes || [],
+                        diets: info.diets || [],
+                        ingredients: names,
+                        ingredientKeys: names.map(normalize),
+                    });
+                } catch (error) {
+                    console.error(`Failed to fetch recipe ${recipeId}:`, error);
+                }
+            })
+        );
+
+        if (i + SPOONACULAR_BATCH_SIZE < recipeIds.length) {
+            await new Promise((resolve) => setTimeout(resolve, SPOONACULAR_BATCH_DELAY_MS));
+        }
+    }
+
+    return recipes;
+}
+
+// Every recipe the user can plan: saved, in one of their collections or their own
+async function loadRecipePool(userId: string): Promise<GeneratorRecipe[]> {
+    const [saved, collected] = await Promise.all([
+        prisma.savedRecipe.findMany({
+            where: { userId },
+            orderBy: { savedAt: "desc" },
+            select: { recipeId: true },
+        }),
+        prisma.collectionRecipe.findMany({
+            where: { collection: { members: { some: { userId } } } },
+            orderBy: { addedAt: "desc" },
+            select: { recipeId: true },
+        }),
+    ]);
+
+    const recipeIds = [...new Set([...saved, ...collected].map((recipe) => recipe.recipeId))];
+    const [custom, spoonacular] = await Promise.all([
+        loadCustomRecipes(userId, recipeIds.filter((id) => id >= CUSTOM_RECIPE_MIN_ID)),
+        loadSpoonacularRecipes(recipeIds.filter((id) => id < CUSTOM_RECIPE_MIN_ID).slice(0, MAX_SPOONACULAR_RECIPES)),
+    ]);
+
+    return [...custom, ...spoonacular];
+}
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const options = parseGeneratorRequest(body);
+        const dates = weekDates(weekStart);
+
+        const [profile, userSlots, pool] = await Promise.all([
+            prisma.userProfile.findUnique({ where: { userId: p.sub } }),
+            prisma.mealSlot.findMany({
+                where: { userId: p.sub },
+                orderBy: { sortOrder: "asc" },
+            }),
+            loadRecipePool(p.sub),
+        ]);
+
+        if (pool.length === 0) {
+            return errorResponse(400, "Save or create some recipes first: the generator plans from your own recipes");
+        }
+
+        const slotNames = userSlots.length > 0 ? userSlots.map((slot) => slot.name) : DEFAULT_MEAL_SLOTS;
+        const slots = options.slots ? options.slots.filter((slot) => slotNames.includes(slot)) : slotNames;
+        if (slots.length === 0) {
+            return errorResponse(400, "slots must name at least one of your meal slots");
+        }
+
+        // Meals planned around the week count toward repeats; the slots being
+        // generated this week are about to be replaced, so they don't
+        const from = addDays(weekStart, -options.avoidRepeatDays);
+        const to = addDays(weekStart, 6 + options.avoidRepeatDays);
+        const [nearbyMeals, pantryItems] = await Promise.all([
+            loadPlannedMeals(prisma, p.sub, { from, to }),
+            prisma.pantryItem.findMany({
+                where: {
+                    userId: p.sub,
+                    expiryDate: {
+                        gte: new Date(`${weekStart}T00:00:00Z`),
+                        lt: new Date(`${addDays(weekStart, 7)}T00:00:00Z`),
+                    },
+                },
+            }),
+        ]);
+
+        const plan = generateMealPlan(pool, {
+            dates,
+            slots,
+            seed: options.seed ?? randomBytes(6).toString("base64url"),
+            dailyCalories: options.dailyCalories ?? profile?.dailyCalorieGoal ?? null,
+            dailyProtein: profile?.dailyProteinGoal ?? null,
+            intolerances: profile?.intolerances ?? [],
+            exclude: options.exclude,
+            diet: options.diet,
+            maxReadyInMinutes: options.maxReadyInMinutes,
+            avoidRepeatDays: options.avoidRepeatDays,
+            expiring: pantryItems.flatMap((item) =>
+                item.expiryDate
+                    ? [{
+                          key: item.canonName || normalize(item.name),
+                          name: item.name,
+                          expiresOn: item.expiryDate.toISOString().split("T")[0],
+                      }]
+                    : []
+            ),
+            recentMeals: nearbyMeals.filter(
+                (meal) => !(dates.includes(meal.date) && slots.includes(meal.mealType))
+            ),
+        });
+
+        return NextResponse.json({ ok: true, weekStart, slots, recipeCount: pool.length, ...plan });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/meal-plan/generate:");
+    }
+}
@@ -0,0 +1,186 @@
+// app/api/meal-plan/grocery/route.ts
+// POST /api/meal-plan/grocery
+// Body: { weekStart: "YYYY-MM-DD", listId?: number } — listId defaults to the user's default list
+// Builds the grocery list for a saved week entirely on the server:
+// loads recipe ingredients, scales them to the planned servings, drops staples,
+// consolidates units, subtracts pantry stock and merges the result into the list.
+// GET /api/meal-plan/grocery?weekStart=YYYY-MM-DD
+// Estimates what the same groceries would cost at the user's price-book prices.
+// Both also take any date range instead of a week: from and to (YYYY-MM-DD, both included).
+// Custom recipes (ids >= 100000) are read from CustomRecipeIngredient; everything
+// else comes from Spoonacular.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { getRecipeInformation } from "@/lib/spoonacular";
+import { normalize } from "@/lib/normalize";
+import { parseIngredientText } from "@/lib/parseIngredientText";
+import { aggregateMealPlanIngredients, type RecipeIngredientSource } from "@/lib/ingredient-aggregator";
+import { GroceryServiceError, importGroceryItems, resolveGroceryList } from "@/lib/grocery-service";
+import { estimateIngredientCost, loadPriceBook } from "@/lib/grocery-prices";
+import { computePantryShortfalls } from "@/lib/pantry-service";
+import { loadPlannedMeals, MealPlanServiceError, parsePlanRange } from "@/lib/meal-plan-service";
+import { CUSTOM_RECIPE_MIN_ID } from "@/lib/custom-recipes";
+
+// Stay under Spoonacular's 5 req/sec limit
+const SPOONACULAR_BATCH_SIZE = 4;
+const SPOONACULAR_BATCH_DELAY_MS = 250;
+
+async function loadCustomRecipes(recipeIds: number[], recipes: Map<number, RecipeIngredientSource>) {
+    if (recipeIds.length === 0) return;
+
+    const customRecipes = await prisma.customRecipe.findMany({
+        where: { id: { in: recipeIds } },
+        include: { structuredIngredients: true },
+    });
+
+    for (const recipe of customRecipes) {
+        // Older custom recipes only have the flat ingredient strings
+        const ingredients = recipe.structuredIngredients.length > 0
+            ? recipe.structuredIngredients
+            : recipe.ingredients.map(parseIngredientText);
+
+        recipes.set(recipe.id, {
+            title: recipe.title,
+            ingredients: ingredients
+                .filter((ingredient) => ingredient.name)
+                .map((ingredient) => ({
+                    name: normalize(ingredient.name),
+                    amount: ingredient.amount,
+                    unit: ingredient.unit,
+                    original: ingredient.original,
+                })),
+        });
+    }
+}
+
+async function loadSpoonacularRecipes(recipeIds: number[], recipes: Map<number, RecipeIngredientSource>) {
+    for (let i = 0; i < recipeIds.length; i += SPOONACULAR_BATCH_SIZE) {
+        const batch = recipeIds.slice(i, i + SPOONACULAR_BATCH_SIZE);
+        await Promise.all(
+            batch.map(async (recipeId) => {
+                try {
+                    const info = await getRecipeInformation(recipeId);
+                    recipes.set(recipeId, {
+                        title: info.title,
+                        ingredients: (info.extendedIngredients || []).map((ingredient) => ({
+                            name: normalize(ingredient.name),
+                            amount: ingredient.amount,
+                            unit: ingredient.unit || ingredient.unitShort || ingredient.unitLong || "",
+                            aisle: ingredient.aisle,
+                            original: ingredient.original ?? ingredient.originalString,
+                        })),
+                    });
+                } catch (error) {
+                    console.error(`Failed to fetch recipe ${recipeId}:`, error);
+                }
+            })
+        );
+
+        if (i + SPOONACULAR_BATCH_SIZE < recipeIds.length) {
+            await new Promise((resolve) => setTimeout(resolve, SPOONACULAR_BATCH_DELAY_MS));
+        }
+    }
+}
+
+// Load every recipe the planned meals use
+async function loadMealPlanRecipes(meals: { recipeId: number }[]) {
+    const recipeIds = [...new Set(meals.map((meal) => meal.recipeId))];
+    const recipes = new Map<number, RecipeIngredientSource>();
+
+    await loadCustomRecipes(recipeIds.filter((id) => id >= CUSTOM_RECIPE_MIN_ID), recipes);
+    await loadSpoonacularRecipes(recipeIds.filter((id) => id < CUSTOM_RECIPE_MIN_ID), recipes);
+
+    return { recipeIds, recipes };
+}
+
+// GET /api/meal-plan/grocery?weekStart= (or ?from=&to=) — Estimated cost of the planned meals
+// Only what the pantry doesn't already cover is counted; ingredients missing
+// from the price book are listed with a null cost
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const params = req.nextUrl.searchParams;
+        const range = parsePlanRange({
+            weekStart: params.get("weekStart"),
+            from: params.get("from"),
+            to: params.get("to"),
+        });
+
+        const meals = await loadPlannedMeals(prisma, p.sub, range);
+        if (meals.length === 0) {
+            return errorResponse(404, "Nothing is planned for those dates");
+        }
+
+        const { recipeIds, recipes } = await loadMealPlanRecipes(meals);
+        const aggregated = aggregateMealPlanIngredients(meals, recipes);
+
+        const [pantryItems, priceBook] = await Promise.all([
+            prisma.pantryItem.findMany({ where: { userId: p.sub }, include: { lots: true } }),
+            loadPriceBook(prisma, p.sub),
+        ]);
+        const shortfalls = computePantryShortfalls(
+            pantryItems,
+            aggregated.map((ingredient) => ({
+                name: ingredient.name,
+                amount: ingredient.totalAmount,
+                unit: ingredient.unit,
+            })),
+        );
+        const estimate = estimateIngredientCost(
+            shortfalls.map((shortfall) => ({
+                name: shortfall.name,
+                amount: shortfall.shortfallAmount,
+                unit: shortfall.unit,
+            })),
+            priceBook,
+        );
+
+        return NextResponse.json({
+            ok: true,
+            ...range,
+            ...estimate,
+            missingRecipeIds: recipeIds.filter((id) => !recipes.has(id)),
+        });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/meal-plan/grocery:");
+    }
+}
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const range = parsePlanRange({ weekStart: body.weekStart, from: body.from, to: body.to });
+        const meals = await loadPlannedMeals(prisma, p.sub, range);
+        if (meals.length === 0) {
+            return errorResponse(404, "Nothing is planned for those dates");
+        }
+
+        const list = await resolveGroceryList(prisma, p.sub, body.listId);
+
+        const { recipeIds, recipes } = await loadMealPlanRecipes(meals);
+        const aggregated = aggregateMealPlanIngredients(meals, recipes);
+        const result = await importGroceryItems(prisma, p.sub, list.id, aggregated);
+
+        return NextResponse.json({
+            ok: true,
+            message: "Items imported from meal plan",
+            listId: list.id,
+            ...result,
+            missingRecipeIds: recipeIds.filter((id) => !recipes.has(id)),
+        });
+    } catch (error) {
+        if (error instanceof GroceryServiceError || error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/meal-plan/grocery:");
+    }
+}
@@ -0,0 +1,40 @@
+// app/api/meal-plan/leftovers/route.ts
+// GET /api/meal-plan/leftovers?weekStart=YYYY-MM-DD (or ?from=&to=)
+// The batches cooked or eaten from in those dates: each meal cooked with a batch size
+// (cookedServings) or with leftovers planned, its leftovers wherever they're planned,
+// and how many servings are left. warnings lists batches with more leftovers planned
+// than were cooked, or leftovers planned before the batch is cooked.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { leftoverWarnings } from "@/lib/meal-plan-leftovers";
+import { loadLeftoverBatches, MealPlanServiceError, parsePlanRange } from "@/lib/meal-plan-service";
+
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const params = req.nextUrl.searchParams;
+        const range = parsePlanRange({
+            weekStart: params.get("weekStart"),
+            from: params.get("from"),
+            to: params.get("to"),
+        });
+
+        const batches = await loadLeftoverBatches(prisma, p.sub, range);
+
+        return NextResponse.json({
+            ok: true,
+            ...range,
+            batches,
+            warnings: leftoverWarnings(batches),
+        });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/meal-plan/leftovers:");
+    }
+}
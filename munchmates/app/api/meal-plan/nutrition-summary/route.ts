@@ -1,6 +1,10 @@
 // app/api/meal-plan/nutrition-summary/route.ts
-// Returns daily nutrition totals for a saved weekly meal plan and compares
-// them against the authenticated user's dietary goals.
+// Returns daily nutrition totals for the meals planned in a week (or any range of
+// dates) and compares them against the authenticated user's dietary goals.
+// ?weekStart=YYYY-MM-DD for a week, or ?from=&to= for any range of dates (both included).
+// Each day's meals are listed in the user's slot order, dishes within a slot in order.
+// Custom recipes use the nutrition stored on them (see lib/recipe-nutrition.ts);
+// everything else comes from Spoonacular.
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
@@ -15,10 +19,37 @@ import {
     buildNutritionProgress,
     type MacroTotals,
 } from "@/lib/nutrition-goals";
+import { compareMealOrder, datesBetween, DEFAULT_MEAL_SLOTS } from "@/lib/meal-plan";
+import { loadPlannedMeals, MealPlanServiceError, parsePlanRange } from "@/lib/meal-plan-service";
+import { storedRecipeNutrition, withCurrentNutrition } from "@/lib/recipe-nutrition";
+import { CUSTOM_RECIPE_MIN_ID } from "@/lib/custom-recipes";
+
+// Per-serving nutrition of the custom recipes planned, by id. Recipes that are
+// gone or have nothing countable are left out and show as zeros.
+async function loadCustomRecipeNutrition(recipeIds: number[]): Promise<Map<number, MacroTotals>> {
+    const nutrition = new Map<number, MacroTotals>();
+    if (recipeIds.length === 0) return nutrition;
+
+    const recipes = await withCurrentNutrition(
+        prisma,
+        await prisma.customRecipe.findMany({
+            where: { id: { in: recipeIds } },
+            include: { structuredIngredients: true },
+        })
+    );
+
+    for (const recipe of recipes) {
+        const { perServing } = storedRecipeNutrition(recipe);
+        if (perServing) nutrition.set(recipe.id, perServing);
+    }
+    return nutrition;
+}
 
 type MealRow = {
+    entryId: string;
     date: string;
     mealType: string;
+    position: number;
     recipeId: number;
     title: string;
     servings: number;
@@ -29,22 +60,25 @@ export async function GET(req: NextRequest) {
     try {
         const payload = await verifyBearer(req.headers.get("authorization") || undefined);
 
-        const weekStart = req.nextUrl.searchParams.get("weekStart");
-        if (!weekStart) {
-            return errorResponse(400, "weekStart parameter required");
-        }
+        const params = req.nextUrl.searchParams;
+        const range = parsePlanRange({
+            weekStart: params.get("weekStart"),
+            from: params.get("from"),
+            to: params.get("to"),
+        });
 
-        const [mealPlan, profile] = await Promise.all([
-            prisma.weeklyMealPlan.findUnique({
-                where: { userId_weekStart: { userId: payload.sub, weekStart } },
-                include: { meals: true },
-            }),
+        const [plannedMeals, profile, slots] = await Promise.all([
+            loadPlannedMeals(prisma, payload.sub, range),
             prisma.userProfile.findUnique({
                 where: { userId: payload.sub },
             }),
+            prisma.mealSlot.findMany({
+                where: { userId: payload.sub },
+                orderBy: { sortOrder: "asc" },
+            }),
         ]);
 
-        if (!mealPlan) {
+        if (plannedMeals.length === 0) {
             return NextResponse.json({ days: [] });
         }
 
@@ -56,12 +90,16 @@ export async function GET(req: NextRequest) {
         };
 
         const mealsByDate = new Map<string, MealRow[]>();
+        const slotOrder = slots.length > 0 ? slots.map((slot) => slot.name) : DEFAULT_MEAL_SLOTS;
+        const orderedMeals = [...plannedMeals].sort(compareMealOrder(slotOrder));
 
-        for (const meal of mealPlan.meals) {
+        for (const meal of orderedMeals) {
             if (!mealsByDate.has(meal.date)) mealsByDate.set(meal.date, []);
             mealsByDate.get(meal.date)!.push({
+                entryId: meal.entryId,
                 date: meal.date,
                 mealType: meal.mealType,
+                position: meal.position,
                 recipeId: meal.recipeId,
                 title: meal.title,
                 servings: meal.servings,
@@ -69,16 +107,14 @@ export async function GET(req: NextRequest) {
             });
         }
 
-        const startDate = new Date(weekStart + "T00:00:00");
-        const dates: string[] = [];
-        for (let i = 0; i < 7; i++) {
-            const d = new Date(startDate);
-            d.setDate(startDate.getDate() + i);
-            const year = d.getFullYear();
-            const month = String(d.getMonth() + 1).padStart(2, "0");
-            const day = String(d.getDate()).padStart(2, "0");
-            dates.push(`${year}-${month}-${day}`);
-        }
+        const dates = datesBetween(range.from, range.to);
+        const customNutrition = await loadCustomRecipeNutrition([
+            ...new Set(
+                plannedMeals
+                    .map((meal) => meal.recipeId)
+                    .filter((recipeId) => recipeId >= CUSTOM_RECIPE_MIN_ID)
+            ),
+        ]);
 
         const days = await Promise.all(
             dates.map(async (date) => {
@@ -88,15 +124,18 @@ export async function GET(req: NextRequest) {
                 const mealBreakdown = await Promise.all(
                     meals.map(async (meal) => {
                         try {
-                            // Minimal implementation assumes stored meal IDs are Spoonacular recipes.
-                            const nutrition = await getRecipeNutrition(meal.recipeId);
-
-                            const baseNutrition: MacroTotals = {
-                                calories: parseNutritionNumber(nutrition.calories),
-                                protein: parseNutritionNumber(nutrition.protein),
-                                carbs: parseNutritionNumber(nutrition.carbs),
-                                fat: parseNutritionNumber(nutrition.fat),
-                            };
+                            let baseNutrition: MacroTotals;
+                            if (meal.recipeId >= CUSTOM_RECIPE_MIN_ID) {
+                                baseNutrition = customNutrition.get(meal.recipeId) ?? emptyNutrition();
+                            } else {
+                                const nutrition = await getRecipeNutrition(meal.recipeId);
+                                baseNutrition = {
+                                    calories: parseNutritionNumber(nutrition.calories),
+                                    protein: parseNutritionNumber(nutrition.protein),
+                                    carbs: parseNutritionNumber(nutrition.carbs),
+                                    fat: parseNutritionNumber(nutrition.fat),
+                                };
+                            }
 
                             const factor =
                                 meal.originalServings && meal.originalServings > 0
@@ -107,7 +146,9 @@ export async function GET(req: NextRequest) {
                             totals = addNutrition(totals, scaled);
 
                             return {
+                                entryId: meal.entryId,
                                 mealType: meal.mealType,
+                                position: meal.position,
                                 recipeId: meal.recipeId,
                                 title: meal.title,
                                 servings: meal.servings,
@@ -126,7 +167,9 @@ export async function GET(req: NextRequest) {
                             );
 
                             return {
+                                entryId: meal.entryId,
                                 mealType: meal.mealType,
+                                position: meal.position,
                                 recipeId: meal.recipeId,
                                 title: meal.title,
                                 servings: meal.servings,
@@ -156,6 +199,9 @@ export async function GET(req: NextRequest) {
 
         return NextResponse.json({ days });
     } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
         return handleRouteError(
             error,
             "Error in GET /api/meal-plan/nutrition-summary:"
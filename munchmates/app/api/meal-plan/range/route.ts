@@ -0,0 +1,39 @@
+// app/api/meal-plan/range/route.ts
+// GET /api/meal-plan/range?from=YYYY-MM-DD&to=YYYY-MM-DD
+// Every planned entry between two dates (both included), whichever weeks they
+// were saved under, as one day per date with its slots. Feeds the month calendar;
+// changes still go through the week endpoints. Ranges are capped at
+// MAX_PLAN_RANGE_DAYS days.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { buildDayPlans, datesBetween } from "@/lib/meal-plan";
+import { loadPlannedMeals, MealPlanServiceError, parsePlanDate, parsePlanRange } from "@/lib/meal-plan-service";
+
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const params = req.nextUrl.searchParams;
+
+        const range = parsePlanRange({
+            from: parsePlanDate(params.get("from"), "from"),
+            to: parsePlanDate(params.get("to"), "to"),
+        });
+
+        const meals = await loadPlannedMeals(prisma, p.sub, range);
+
+        return NextResponse.json({
+            ok: true,
+            ...range,
+            days: buildDayPlans(datesBetween(range.from, range.to), meals),
+            entryCount: meals.length,
+        });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in GET /api/meal-plan/range:");
+    }
+}
@@ -2,64 +2,34 @@
 // Fetches and updates weekly meal plan information
 // Verifies user token before performing any action
 // GET:
-// - Gets the current meal plan
+// - Gets the current meal plan, with its version
 // - Requires input week number
 // - Returns null if no plan was found
 // POST:
-// - Updates a given meal plan by week number
-// - Validates meal plan correctness and week
+// - Replaces a whole week at once (e.g. a generated week); single changes go
+//   through /api/meal-plan/entries
+// - Validates meal plan correctness and week: every day has to be in the week, and
+//   leftover links that don't point at one of the user's cooked meals are dropped
+// - plan.version must be the version the client last read (0 for a new week);
+//   otherwise answers 409 with the current plan
+// - Each day holds an ordered list of entries per meal slot (see /api/meal-plan/slots);
+//   plans in the old one-entry-per-slot shape are still accepted
+// - Takes back grocery quantities added for meals that were removed or scaled down
 // Backed by Postgres via Prisma — data persists across server restarts.
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
-import { WeeklyMealPlan, DayPlan, MealPlanEntry } from "@/lib/types/meal-plan";
-
-// Reconstruct the frontend-compatible DayPlan[] shape from flat MealEntry rows
-function buildWeeklyPlan(
-  weekStart: string,
-  meals: {
-    date: string;
-    mealType: string;
-    entryId: string;
-    recipeId: number;
-    title: string;
-    image: string | null;
-    servings: number;
-    originalServings: number;
-    readyInMinutes: number | null;
-  }[],
-  days: DayPlan[]
-): WeeklyMealPlan {
-  // Build a map of date -> mealType -> entry
-  const mealMap = new Map<string, Map<string, MealPlanEntry>>();
-  for (const meal of meals) {
-    if (!mealMap.has(meal.date)) mealMap.set(meal.date, new Map());
-    mealMap.get(meal.date)!.set(meal.mealType, {
-      id: meal.entryId,
-      recipeId: meal.recipeId,
-      title: meal.title,
-      image: meal.image ?? undefined,
-      servings: meal.servings,
-      originalServings: meal.originalServings,
-      readyInMinutes: meal.readyInMinutes ?? undefined,
-    });
-  }
-
-  // Fill each day with its meals
-  const resultDays: DayPlan[] = days.map((day) => {
-    const dayMeals = mealMap.get(day.date);
-    return {
-      date: day.date,
-      breakfast: dayMeals?.get("breakfast"),
-      lunch: dayMeals?.get("lunch"),
-      dinner: dayMeals?.get("dinner"),
-    };
-  });
-
-  return { weekStart, days: resultDays };
-}
+import { normalizeWeeklyPlan } from "@/lib/meal-plan";
+import {
+  checkPostedWeeklyPlan,
+  loadWeeklyPlan,
+  mealPlanErrorResponse,
+  parsePlanVersion,
+  parseWeekStart,
+  writeWeeklyPlan,
+} from "@/lib/meal-plan-service";
 
 export async function GET(req: NextRequest) {
   try {
@@ -70,28 +40,7 @@ export async function GET(req: NextRequest) {
       return errorResponse(400, "weekStart parameter required");
     }
 
-    const mealPlan = await prisma.weeklyMealPlan.findUnique({
-      where: { userId_weekStart: { userId: payload.sub, weekStart } },
-      include: { meals: true },
-    });
-
-    if (!mealPlan) {
-      return NextResponse.json({ plan: null });
-    }
-
-    // Generate the 7-day structure for the week
-    const startDate = new Date(weekStart + "T00:00:00");
-    const days: DayPlan[] = [];
-    for (let i = 0; i < 7; i++) {
-      const d = new Date(startDate);
-      d.setDate(startDate.getDate() + i);
-      const year = d.getFullYear();
-      const month = String(d.getMonth() + 1).padStart(2, "0");
-      const day = String(d.getDate()).padStart(2, "0");
-      days.push({ date: `${year}-${month}-${day}` });
-    }
-
-    const plan = buildWeeklyPlan(weekStart, mealPlan.meals, days);
+    const plan = await loadWeeklyPlan(prisma, payload.sub, weekStart);
     return NextResponse.json({ plan });
   } catch (error) {
     return handleRouteError(error, "Error in GET /api/meal-plan:");
@@ -104,12 +53,17 @@ export async function POST(req: NextRequest) {
 
     const body = await req.json();
 
-    if (!body.plan || !body.plan.weekStart) {
+    if (!body.plan || !body.plan.weekStart || !Array.isArray(body.plan.days)) {
       return errorResponse(400, "Invalid meal plan data");
     }
 
-    const plan: WeeklyMealPlan = body.plan;
     const userId = payload.sub;
+    const version = parsePlanVersion(body.plan.version ?? 0);
+    const plan = await checkPostedWeeklyPlan(
+      prisma,
+      userId,
+      normalizeWeeklyPlan({ ...body.plan, weekStart: parseWeekStart(body.plan.weekStart) }),
+    );
 
     // Ensure User record exists
     await prisma.user.upsert({
@@ -118,62 +72,13 @@ export async function POST(req: NextRequest) {
       create: { id: userId, name: payload.name ?? "", username: payload.preferred_username ?? "" },
     });
 
-    // Collect all meal entries from the plan
-    const mealEntries: {
-      date: string;
-      mealType: string;
-      entryId: string;
-      recipeId: number;
-      title: string;
-      image: string | null;
-      servings: number;
-      originalServings: number;
-      readyInMinutes: number | null;
-    }[] = [];
-
-    for (const day of plan.days) {
-      for (const mealType of ["breakfast", "lunch", "dinner"] as const) {
-        const entry = day[mealType];
-        if (entry) {
-          mealEntries.push({
-            date: day.date,
-            mealType,
-            entryId: entry.id,
-            recipeId: entry.recipeId,
-            title: entry.title,
-            image: entry.image ?? null,
-            servings: entry.servings,
-            originalServings: entry.originalServings,
-            readyInMinutes: entry.readyInMinutes ?? null,
-          });
-        }
-      }
-    }
-
-    // Transaction: upsert the plan, delete old meals, create new ones
-    await prisma.$transaction(async (tx) => {
-      const mealPlan = await tx.weeklyMealPlan.upsert({
-        where: { userId_weekStart: { userId, weekStart: plan.weekStart } },
-        update: {},
-        create: { userId, weekStart: plan.weekStart },
-      });
-
-      await tx.mealEntry.deleteMany({
-        where: { mealPlanId: mealPlan.id },
-      });
-
-      if (mealEntries.length > 0) {
-        await tx.mealEntry.createMany({
-          data: mealEntries.map((entry) => ({
-            mealPlanId: mealPlan.id,
-            ...entry,
-          })),
-        });
-      }
-    });
+    // Transaction: check the version, retract grocery contributions, write the changed meals
+    const result = await prisma.$transaction((tx) =>
+      writeWeeklyPlan(tx, userId, plan.weekStart, version, () => plan)
+    );
 
-    return NextResponse.json({ ok: true, plan });
+    return NextResponse.json({ ok: true, ...result });
   } catch (error) {
-    return handleRouteError(error, "Error in POST /api/meal-plan:");
+    return mealPlanErrorResponse(error, "Error in POST /api/meal-plan:");
   }
 }
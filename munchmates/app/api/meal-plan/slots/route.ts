@@ -0,0 +1,214 @@
+// app/api/meal-plan/slots/route.ts
+// Endpoint to manage the meal slots on a user's planner (breakfast, lunch, dinner,
+// snack, dessert or their own names). Each slot on a day holds an ordered list of
+// entries, so a dinner can be a main plus sides.
+// Slot names are stored lower case and match MealEntry.mealType
+// Each slot has a meal time for the calendar feed; the usual slots have a default one
+// Backed by Postgres via Prisma — data persists across server restarts
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_MEAL_SLOTS, normalizeSlotName } from "@/lib/meal-plan";
+import { mealSlotTime, parseMealTime } from "@/lib/meal-plan-calendar";
+import { MealPlanServiceError } from "@/lib/meal-plan-service";
+
+// time is the one the calendar uses: the user's own, else the slot's default (null = all day)
+function formatSlot(slot: { id: number; name: string; sortOrder: number; time: string | null }) {
+    return {
+        id: slot.id,
+        name: slot.name,
+        sortOrder: slot.sortOrder,
+        time: mealSlotTime(slot),
+        customTime: slot.time !== null,
+    };
+}
+
+// The user's slots in planner order, seeding the defaults if they have none yet,
+// so the first slot anyone adds goes after breakfast, lunch and dinner
+async function ensureMealSlots(userId: string) {
+    // Ensure User record exists
+    await prisma.user.upsert({
+        where: { id: userId },
+        update: {},
+        create: { id: userId },
+    });
+
+    const slots = await prisma.mealSlot.findMany({
+        where: { userId },
+        orderBy: { sortOrder: "asc" },
+    });
+    if (slots.length > 0) return slots;
+
+    await prisma.mealSlot.createMany({
+        data: DEFAULT_MEAL_SLOTS.map((name, index) => ({
+            userId,
+            name,
+            sortOrder: index,
+        })),
+        skipDuplicates: true,
+    });
+
+    return prisma.mealSlot.findMany({
+        where: { userId },
+        orderBy: { sortOrder: "asc" },
+    });
+}
+
+// GET /api/meal-plan/slots — List the user's slots in planner order (seeds the defaults if none exist)
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const slots = await ensureMealSlots(p.sub);
+
+        return NextResponse.json({
+            ok: true,
+            slots: slots.map(formatSlot),
+            count: slots.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/meal-plan/slots:");
+    }
+}
+
+// POST /api/meal-plan/slots — Add a slot at the end (after the defaults, seeded if none exist)
+// Body: { name }
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const name = normalizeSlotName(body.name);
+        if (!name) {
+            return errorResponse(400, "Missing required field: name");
+        }
+
+        const slots = await ensureMealSlots(p.sub);
+        if (slots.some((slot) => slot.name === name)) {
+            return errorResponse(409, "Meal slot already exists");
+        }
+
+        const slot = await prisma.mealSlot.create({
+            data: {
+                userId: p.sub,
+                name,
+                sortOrder: (slots[slots.length - 1]?.sortOrder ?? -1) + 1,
+            },
+        });
+
+        return NextResponse.json({ ok: true, message: "Meal slot added", slot: formatSlot(slot) });
+    } catch (error) {
+        return handleRouteError(error, "Error in POST /api/meal-plan/slots:");
+    }
+}
+
+// PUT /api/meal-plan/slots — Reorder slots
+// Body: { names: string[] } — every existing slot, in the new order
+export async function PUT(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        if (!Array.isArray(body.names)) {
+            return errorResponse(400, "names must be an array");
+        }
+
+        const names: string[] = body.names.map(normalizeSlotName);
+        const slots = await prisma.mealSlot.findMany({ where: { userId: p.sub } });
+
+        if (
+            names.length !== slots.length ||
+            new Set(names).size !== names.length ||
+            !slots.every((slot) => names.includes(slot.name))
+        ) {
+            return errorResponse(400, "names must list every meal slot exactly once");
+        }
+
+        const reordered = await prisma.$transaction(
+            names.map((name, index) =>
+                prisma.mealSlot.update({
+                    where: { userId_name: { userId: p.sub, name } },
+                    data: { sortOrder: index },
+                })
+            )
+        );
+
+        return NextResponse.json({ ok: true, message: "Meal slots reordered", slots: reordered.map(formatSlot) });
+    } catch (error) {
+        return handleRouteError(error, "Error in PUT /api/meal-plan/slots:");
+    }
+}
+
+// PATCH /api/meal-plan/slots — Set when a slot's meals are eaten
+// Body: { name, time: "HH:MM" | null } — null goes back to the slot's default time
+export async function PATCH(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const name = normalizeSlotName(body.name);
+        if (!name) {
+            return errorResponse(400, "Missing required field: name");
+        }
+        const time = parseMealTime(body.time);
+
+        const existing = await prisma.mealSlot.findUnique({
+            where: { userId_name: { userId: p.sub, name } },
+        });
+
+        if (!existing) {
+            return errorResponse(404, "Meal slot not found");
+        }
+
+        const slot = await prisma.mealSlot.update({
+            where: { id: existing.id },
+            data: { time },
+        });
+
+        return NextResponse.json({ ok: true, message: "Meal time saved", slot: formatSlot(slot) });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in PATCH /api/meal-plan/slots:");
+    }
+}
+
+// DELETE /api/meal-plan/slots?name= — Remove a slot that has no meals planned in it
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const name = normalizeSlotName(req.nextUrl.searchParams.get("name"));
+
+        if (!name) {
+            return errorResponse(400, "Missing required param: name");
+        }
+
+        const slot = await prisma.mealSlot.findUnique({
+            where: { userId_name: { userId: p.sub, name } },
+        });
+
+        if (!slot) {
+            return errorResponse(404, "Meal slot not found");
+        }
+
+        const slotCount = await prisma.mealSlot.count({ where: { userId: p.sub } });
+        if (slotCount <= 1) {
+            return errorResponse(400, "The last meal slot cannot be deleted");
+        }
+
+        const plannedMeals = await prisma.mealEntry.count({
+            where: { mealType: name, mealPlan: { userId: p.sub } },
+        });
+        if (plannedMeals > 0) {
+            return errorResponse(409, "Move or remove the meals planned in this slot first");
+        }
+
+        await prisma.mealSlot.delete({ where: { id: slot.id } });
+
+        return NextResponse.json({ ok: true, message: "Meal slot deleted" });
+    } catch (error) {
+        return handleRouteError(error, "Error in DELETE /api/meal-plan/slots:");
+    }
+}
@@ -0,0 +1,51 @@
+// app/api/meal-plan/templates/apply/route.ts
+// POST /api/meal-plan/templates/apply
+// Body: { templateId, weekStart, version, replace? }
+// Lays a template over the week starting at weekStart: each template day lands on
+// the same day of that week. Meals are added after what's already planned, or with
+// replace the week is cleared first. version works as in /api/meal-plan/entries.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import {
+    mealPlanErrorResponse,
+    parsePlanVersion,
+    parseWeekStart,
+    writeWeeklyPlan,
+} from "@/lib/meal-plan-service";
+import { applyWeek, templateDays } from "@/lib/meal-plan-templates";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const weekStart = parseWeekStart(body.weekStart);
+        const version = parsePlanVersion(body.version);
+        const templateId = Number(body.templateId);
+
+        if (!Number.isInteger(templateId) || templateId <= 0) {
+            return errorResponse(400, "Missing required field: templateId");
+        }
+
+        const template = await prisma.mealPlanTemplate.findFirst({
+            where: { id: templateId, userId: p.sub },
+            include: { entries: true },
+        });
+
+        if (!template) {
+            return errorResponse(404, "Template not found");
+        }
+
+        const days = templateDays(template.entries, weekStart);
+        const result = await prisma.$transaction((tx) =>
+            writeWeeklyPlan(tx, p.sub, weekStart, version, (plan) => applyWeek(plan, days, Boolean(body.replace)))
+        );
+
+        return NextResponse.json({ ok: true, message: `Applied "${template.name}"`, ...result });
+    } catch (error) {
+        return mealPlanErrorResponse(error, "Error in POST /api/meal-plan/templates/apply:");
+    }
+}
@@ -0,0 +1,132 @@
+// app/api/meal-plan/templates/route.ts
+// Endpoint to manage meal plan templates: named weeks saved by day of the week
+// (with each meal's slot, order and servings) that can be applied to any week
+// through /api/meal-plan/templates/apply
+// Backed by Postgres via Prisma — data persists across server restarts
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { loadWeeklyPlan, MealPlanServiceError, parseWeekStart } from "@/lib/meal-plan-service";
+import { MAX_TEMPLATE_NAME_LENGTH, templateEntriesFromPlan, type MealTemplateEntry } from "@/lib/meal-plan-templates";
+
+function formatTemplate(template: {
+    id: number;
+    name: string;
+    createdAt: Date;
+    entries: (MealTemplateEntry & { id: number })[];
+}) {
+    const entries = [...template.entries].sort(
+        (a, b) => a.dayOffset - b.dayOffset || a.mealType.localeCompare(b.mealType) || a.position - b.position
+    );
+
+    return {
+        id: template.id,
+        name: template.name,
+        createdAt: template.createdAt.toISOString(),
+        entryCount: entries.length,
+        dayCount: new Set(entries.map((entry) => entry.dayOffset)).size,
+        entries: entries.map((entry) => ({
+            dayOffset: entry.dayOffset,
+            mealType: entry.mealType,
+            position: entry.position,
+            recipeId: entry.recipeId,
+            title: entry.title,
+            image: entry.image,
+            servings: entry.servings,
+            originalServings: entry.originalServings,
+            readyInMinutes: entry.readyInMinutes,
+        })),
+    };
+}
+
+// GET /api/meal-plan/templates — List the user's templates, newest first
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+
+        const templates = await prisma.mealPlanTemplate.findMany({
+            where: { userId: p.sub },
+            include: { entries: true },
+            orderBy: { createdAt: "desc" },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            templates: templates.map(formatTemplate),
+            count: templates.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/meal-plan/templates:");
+    }
+}
+
+// POST /api/meal-plan/templates — Save a week as a template
+// Body: { name, weekStart }
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const name = String(body.name ?? "").trim().slice(0, MAX_TEMPLATE_NAME_LENGTH);
+        if (!name) {
+            return errorResponse(400, "Missing required field: name");
+        }
+        const weekStart = parseWeekStart(body.weekStart);
+
+        const plan = await loadWeeklyPlan(prisma, p.sub, weekStart);
+        const entries = plan ? templateEntriesFromPlan(plan) : [];
+        if (entries.length === 0) {
+            return errorResponse(400, "That week has no meals to save");
+        }
+
+        const existing = await prisma.mealPlanTemplate.findUnique({
+            where: { userId_name: { userId: p.sub, name } },
+        });
+
+        if (existing) {
+            return errorResponse(409, "Template already exists");
+        }
+
+        const template = await prisma.mealPlanTemplate.create({
+            data: {
+                userId: p.sub,
+                name,
+                entries: { create: entries },
+            },
+            include: { entries: true },
+        });
+
+        return NextResponse.json({ ok: true, message: "Template saved", template: formatTemplate(template) });
+    } catch (error) {
+        if (error instanceof MealPlanServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/meal-plan/templates:");
+    }
+}
+
+// DELETE /api/meal-plan/templates?id= — Delete a template
+export async function DELETE(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const id = Number(req.nextUrl.searchParams.get("id"));
+
+        if (!Number.isInteger(id) || id <= 0) {
+            return errorResponse(400, "Missing required param: id");
+        }
+
+        const deleted = await prisma.mealPlanTemplate.deleteMany({
+            where: { id, userId: p.sub },
+        });
+
+        if (deleted.count === 0) {
+            return errorResponse(404, "Template not found");
+        }
+
+        return NextResponse.json({ ok: true, message: "Template deleted" });
+    } catch (error) {
+        return handleRouteError(error, "Error in DELETE /api/meal-plan/templates:");
+    }
+}
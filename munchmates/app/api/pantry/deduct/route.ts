@@ -1,13 +1,26 @@
 // POST /api/pantry/deduct
 // Deducts ingredient amounts from pantry items after cooking
-// Removes items that reach zero or below
+// Consumes each item's lots soonest-expiry first (FIFO)
+// Amounts that cannot be converted to a lot's unit are reported as unconvertible, never subtracted raw
+// Whatever the lots can't cover is reported as a shortfall and kept on the cook event
+// Removes lots that reach zero and items whose lots are all used up
+// Groups the changes under a cook event so they can be undone via /api/pantry/undo
+// Staples that drop below their par level are put back on the grocery list
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
-import { convertToBase, getUnitType, COUNT_MULTIPLIERS, normalizeUnit } from "@/lib/unit-conversion";
-import { parseQuantity } from "@/lib/parseQuantity";
+import { formatGroceryItemResponse } from "@/lib/grocery-service";
+import { replenishStaples } from "@/lib/grocery-staples";
+import {
+    applyLotDeduction,
+    planLotDeduction,
+    recordPantryEvent,
+    resolvePantryAmount,
+    summarizePantryLots,
+    type CookShortfall,
+} from "@/lib/pantry-service";
 
 interface DeductionInput {
     pantryItemId: number;
@@ -34,13 +47,18 @@ export async function POST(req: NextRequest) {
         }
 
         if (deductions.length === 0) {
-            return NextResponse.json({ ok: true, results: [] });
+            return NextResponse.json({ ok: true, results: [], cookEventId: null });
         }
 
+        const recipeId = Number.isInteger(body.recipeId) ? body.recipeId : null;
+        const recipeTitle = typeof body.recipeTitle === "string" ? body.recipeTitle.trim().slice(0, 200) : "";
+        const servings = Number.isInteger(body.servings) && body.servings > 0 ? body.servings : null;
+
         // Verify all items belong to user
         const itemIds = deductions.map((d) => d.pantryItemId);
         const items = await prisma.pantryItem.findMany({
             where: { id: { in: itemIds }, userId: p.sub },
+            include: { lots: true },
         });
 
         const itemMap = new Map(items.map((item) => [item.id, item]));
@@ -53,118 +71,120 @@ export async function POST(req: NextRequest) {
         }
 
         // Process deductions in a transaction
-        const results = await prisma.$transaction(async (tx) => {
+        const { results, cookEventId, restocked } = await prisma.$transaction(async (tx) => {
+            const cookEvent = await tx.cookEvent.create({
+                data: { userId: p.sub, recipeId, recipeTitle, servings },
+            });
+
             const txResults: Array<{
                 pantryItemId: number;
-                action: 'updated' | 'removed';
+                action: 'updated' | 'removed' | 'unconvertible';
                 remainingAmount?: number;
                 remainingUnit?: string;
+                // Set when only part of the amount could be taken off, in the deduction's unit
+                shortfallAmount?: number;
+                shortfallUnit?: string;
             }> = [];
+            const shortfalls: CookShortfall[] = [];
 
             for (const deduction of deductions) {
                 const item = itemMap.get(deduction.pantryItemId)!;
 
-                // Get pantry item's current amount
-                let currentAmount = item.amount;
-                let currentUnit = item.unit;
-                if (currentAmount === null) {
-                    const parsed = parseQuantity(item.quantity);
-                    if (parsed) {
-                        currentAmount = parsed.amount;
-                        currentUnit = parsed.unit;
-                    }
-                }
-
-                // If we can't determine the current amount, skip
-                if (currentAmount === null || currentAmount === undefined) {
+                // Item was already used up by an earlier deduction in this request
+                if (item.lots.length === 0) {
+                    shortfalls.push({ pantryItemId: item.id, name: item.name, amount: deduction.amount, unit: deduction.unit });
                     txResults.push({
                         pantryItemId: item.id,
-                        action: 'updated',
-                        remainingAmount: undefined,
-                        remainingUnit: currentUnit,
+                        action: 'removed',
+                        shortfallAmount: deduction.amount,
+                        shortfallUnit: deduction.unit,
                     });
                     continue;
                 }
 
-                let remainingAmount: number;
-                let remainingUnit: string = currentUnit;
-
-                const currentUnitType = getUnitType(currentUnit);
-                const deductUnitType = getUnitType(deduction.unit);
-
-                if (currentUnitType === deductUnitType && currentUnitType !== 'unknown') {
-                    if (currentUnitType === 'count') {
-                        // Normalize both to individual items before subtracting
-                        // e.g. 1 dozen (12) - 2 large (2) = 10 items
-                        const currentMultiplier = COUNT_MULTIPLIERS[normalizeUnit(currentUnit)] ?? 1;
-                        const deductMultiplier = COUNT_MULTIPLIERS[normalizeUnit(deduction.unit)] ?? 1;
-                        const currentItems = currentAmount * currentMultiplier;
-                        const deductItems = deduction.amount * deductMultiplier;
-                        const remainingItems = currentItems - deductItems;
-                        // If the original unit was a group (dozen, pair) and the result
-                        // doesn't divide evenly, switch to plain count
-                        if (currentMultiplier > 1 && remainingItems % currentMultiplier !== 0) {
-                            remainingAmount = remainingItems;
-                            remainingUnit = '';
-                        } else {
-                            remainingAmount = remainingItems / currentMultiplier;
-                        }
-                    } else {
-                        // Convert both to base, subtract, convert back to original unit
-                        const currentBase = convertToBase(currentAmount, currentUnit);
-                        const deductBase = convertToBase(deduction.amount, deduction.unit);
-
-                        if (currentBase && deductBase) {
-                            const remainingBase = currentBase.amount - deductBase.amount;
-                            // Convert back to the original pantry unit instead of
-                            // letting convertFromBase pick a different unit
-                            if (currentAmount === 0) {
-                                remainingAmount = -deduction.amount;
-                            } else {
-                                const originalFactor = currentBase.amount / currentAmount;
-                                remainingAmount = remainingBase / originalFactor;
-                            }
-                            // Keep remainingUnit = currentUnit (already set above)
-                        } else {
-                            remainingAmount = currentAmount - deduction.amount;
-                        }
-                    }
-                } else {
-                    // Incompatible units — do direct subtraction as best effort
-                    remainingAmount = currentAmount - deduction.amount;
+                // Use up the soonest-expiring lots first, converting across
+                // volume/weight/count with the ingredient's density where needed
+                const { changes, shortfall } = planLotDeduction(item.lots, deduction.amount, deduction.unit, item.canonName);
+                const shortfallFields = shortfall > 0 ? { shortfallAmount: shortfall, shortfallUnit: deduction.unit } : {};
+                if (shortfall > 0) {
+                    shortfalls.push({ pantryItemId: item.id, name: item.name, amount: shortfall, unit: deduction.unit });
                 }
 
-                if (remainingAmount <= 0) {
-                    // Remove the item
-                    await tx.pantryItem.delete({ where: { id: item.id } });
+                // Nothing could be converted into the lots' units — leave the item alone
+                if (changes.length === 0) {
+                    const summary = resolvePantryAmount(item);
                     txResults.push({
                         pantryItemId: item.id,
-                        action: 'removed',
-                    });
-                } else {
-                    // Update with remaining amount
-                    const roundedAmount = Math.round(remainingAmount * 100) / 100;
-                    await tx.pantryItem.update({
-                        where: { id: item.id },
-                        data: {
-                            amount: roundedAmount,
-                            unit: remainingUnit,
-                            quantity: `${roundedAmount} ${remainingUnit}`.trim(),
-                        },
+                        action: 'unconvertible',
+                        remainingAmount: summary?.amount,
+                        remainingUnit: summary?.unit ?? item.unit,
+                        ...shortfallFields,
                     });
+                    continue;
+                }
+
+                const remainingLots = applyLotDeduction(item.lots, changes);
+
+                if (remainingLots.length === 0) {
+                    // Every lot is used up — remove the item
+                    await tx.pantryItem.delete({ where: { id: item.id } });
+                    await recordPantryEvent(tx, p.sub, 'deduct', item, null, cookEvent.id);
+                    itemMap.set(item.id, { ...item, lots: [] });
                     txResults.push({
                         pantryItemId: item.id,
-                        action: 'updated',
-                        remainingAmount: roundedAmount,
-                        remainingUnit,
+                        action: 'removed',
+                        ...shortfallFields,
                     });
+                    continue;
                 }
+
+                for (const change of changes) {
+                    if (change.action === 'removed') {
+                        await tx.pantryLot.delete({ where: { id: change.lotId } });
+                    } else {
+                        const lot = remainingLots.find((entry) => entry.id === change.lotId)!;
+                        await tx.pantryLot.update({
+                            where: { id: lot.id },
+                            data: { amount: lot.amount, unit: lot.unit, quantity: lot.quantity },
+                        });
+                    }
+                }
+
+                // Update the item summary with what is left across all lots
+                const summary = summarizePantryLots(remainingLots);
+                await tx.pantryItem.update({
+                    where: { id: item.id },
+                    data: summary,
+                });
+                const updated = { ...item, ...summary, lots: remainingLots };
+                await recordPantryEvent(tx, p.sub, 'deduct', item, updated, cookEvent.id);
+                itemMap.set(item.id, updated);
+                txResults.push({
+                    pantryItemId: item.id,
+                    action: 'updated',
+                    remainingAmount: summary.amount ?? undefined,
+                    remainingUnit: summary.unit,
+                    ...shortfallFields,
+                });
             }
 
-            return txResults;
+            if (shortfalls.length > 0) {
+                await tx.cookEvent.update({ where: { id: cookEvent.id }, data: { shortfalls } });
+            }
+
+            return {
+                results: txResults,
+                cookEventId: cookEvent.id,
+                restocked: await replenishStaples(tx, p.sub),
+            };
         });
 
-        return NextResponse.json({ ok: true, results });
+        return NextResponse.json({
+            ok: true,
+            results,
+            cookEventId,
+            restocked: restocked.map(formatGroceryItemResponse),
+        });
     } catch (error) {
         return handleRouteError(error, "Error in POST /api/pantry/deduct:");
     }
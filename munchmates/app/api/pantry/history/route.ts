@@ -0,0 +1,48 @@
+// GET /api/pantry/history?itemId=
+// Lists recent ledger events for a pantry item, newest first
+// Matches on canonical name too, so history survives an item being used up and re-added
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { formatPantryEventResponse } from "@/lib/pantry-service";
+
+const HISTORY_LIMIT = 50;
+
+export async function GET(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const { searchParams } = new URL(req.url);
+        const itemId = Number(searchParams.get("itemId"));
+
+        if (!Number.isInteger(itemId) || itemId <= 0) {
+            return errorResponse(400, "Missing required field: itemId");
+        }
+
+        const item = await prisma.pantryItem.findFirst({
+            where: { id: itemId, userId: p.sub },
+            select: { canonName: true },
+        });
+
+        const events = await prisma.pantryEvent.findMany({
+            where: {
+                userId: p.sub,
+                OR: [
+                    { pantryItemId: itemId },
+                    ...(item?.canonName ? [{ canonName: item.canonName }] : []),
+                ],
+            },
+            orderBy: { createdAt: "desc" },
+            take: HISTORY_LIMIT,
+            include: { cookEvent: { select: { recipeTitle: true, undoneAt: true } } },
+        });
+
+        return NextResponse.json({
+            ok: true,
+            events: events.map(formatPantryEventResponse),
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in GET /api/pantry/history:");
+    }
+}
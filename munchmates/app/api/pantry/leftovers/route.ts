@@ -0,0 +1,31 @@
+// POST /api/pantry/leftovers
+// Body: { recipeTitle, servings }
+// Puts what's left of a cooked dish in the pantry as "<recipe> (leftovers)", counted in
+// servings, in the Leftovers category with its short shelf life (see DEFAULT_SHELF_LIFE_DAYS).
+// Offered after cooking, next to the Undo of the pantry deduction.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { addLeftoversToPantry, formatPantryItemResponse, PantryServiceError } from "@/lib/pantry-service";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const item = await addLeftoversToPantry(prisma, p.sub, body);
+
+        return NextResponse.json({
+            ok: true,
+            message: "Leftovers added to pantry",
+            item: formatPantryItemResponse(item),
+        });
+    } catch (error) {
+        if (error instanceof PantryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/pantry/leftovers:");
+    }
+}
@@ -22,6 +22,7 @@ export async function POST(req: NextRequest) {
         // Fetch all pantry items for user
         const pantryItems = await prisma.pantryItem.findMany({
             where: { userId: p.sub },
+            include: { lots: true },
         });
 
         const matches = matchPantryIngredients(pantryItems, ingredients);
@@ -2,14 +2,21 @@
 // Endpoint to manage user's pantry items (ingredient inventory)
 // Backed by Postgres via Prisma — data persists across server restarts
 // Supports structured amount+unit alongside legacy quantity string
+// Each item holds one or more lots (batches) with their own amount and expiry
+// Every add, edit and delete is recorded in the pantry ledger (see /api/pantry/history)
+// Edits and deletes that drop a staple below its par level put it back on the grocery list
 
 import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import { formatGroceryItemResponse } from "@/lib/grocery-service";
+import { replenishStaples } from "@/lib/grocery-staples";
 import {
     addPantryItem,
+    clearPantry,
     deletePantryItem,
+    deletePantryLot,
     formatPantryItemResponse,
     PantryServiceError,
     updatePantryItem,
@@ -30,6 +37,7 @@ export async function GET(req: NextRequest) {
         const items = await prisma.pantryItem.findMany({
             where: { userId: p.sub },
             orderBy: { addedAt: "desc" },
+            include: { lots: true },
         });
 
         return NextResponse.json({
@@ -42,12 +50,40 @@ export async function GET(req: NextRequest) {
     }
 }
 
-// POST /api/pantry — Add new pantry item
+// POST /api/pantry — Add new pantry item (adds a new lot if the item already exists)
+// Send { items: [...] } to add a batch at once (quick add)
 export async function POST(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
         const body = await req.json();
-        const item = await addPantryItem(prisma, p.sub, body);
+
+        if (body.items !== undefined) {
+            if (!Array.isArray(body.items) || body.items.length === 0) {
+                return errorResponse(400, "items must be a non-empty array");
+            }
+
+            // All or nothing, so a bad line doesn't leave half the batch behind
+            const added = await prisma.$transaction(async (tx) => {
+                const results = [];
+                for (const entry of body.items) {
+                    results.push(await addPantryItem(tx, p.sub, entry ?? {}));
+                }
+                return results;
+            });
+
+            // The same item can appear twice in a batch; keep its final state
+            const items = [...new Map(added.map((item) => [item.id, item])).values()];
+
+            return NextResponse.json({
+                ok: true,
+                message: "Items added",
+                items: items.map(formatPantryItemResponse),
+                count: items.length,
+            });
+        }
+
+        // The new lot, the item's summary and the ledger row land together
+        const item = await prisma.$transaction((tx) => addPantryItem(tx, p.sub, body));
 
         return NextResponse.json({
             ok: true,
@@ -62,17 +98,23 @@ export async function POST(req: NextRequest) {
     }
 }
 
-// PUT /api/pantry — Update existing item (by id in body)
+// PUT /api/pantry — Update existing item (by id in body, optional lotId for a single lot)
 export async function PUT(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
         const body = await req.json();
-        const item = await updatePantryItem(prisma, p.sub, body);
+        // Replacing an item's lots deletes them first, so a failed write mustn't lose
+        // stock; the ledger row and any restocked staples go with it
+        const { item, restocked } = await prisma.$transaction(async (tx) => {
+            const updated = await updatePantryItem(tx, p.sub, body);
+            return { item: updated, restocked: await replenishStaples(tx, p.sub) };
+        });
 
         return NextResponse.json({
             ok: true,
             message: "Item updated",
             item: formatPantryItemResponse(item),
+            restocked: restocked.map(formatGroceryItemResponse),
         });
     } catch (error) {
         if (error instanceof PantryServiceError) {
@@ -82,7 +124,7 @@ export async function PUT(req: NextRequest) {
     }
 }
 
-// DELETE /api/pantry?id= — Remove item by id, or clear all items when no id is provided
+// DELETE /api/pantry?id=&lotId= — Remove a single lot, an item by id, or clear all items when no id is provided
 export async function DELETE(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -90,16 +132,36 @@ export async function DELETE(req: NextRequest) {
         const id = searchParams.get("id");
 
         if (!id) {
-            await prisma.pantryItem.deleteMany({
-                where: { userId: p.sub },
-            });
+            await prisma.$transaction((tx) => clearPantry(tx, p.sub));
 
             return NextResponse.json({ ok: true, message: "Pantry cleared" });
         }
 
-        await deletePantryItem(prisma, p.sub, searchParams.get("id"));
+        const lotId = searchParams.get("lotId");
+        if (lotId) {
+            const { item, restocked } = await prisma.$transaction(async (tx) => {
+                const remaining = await deletePantryLot(tx, p.sub, id, lotId);
+                return { item: remaining, restocked: await replenishStaples(tx, p.sub) };
+            });
+            return NextResponse.json({
+                ok: true,
+                message: item ? "Lot deleted" : "Item deleted",
+                item: item ? formatPantryItemResponse(item) : null,
+                restocked: restocked.map(formatGroceryItemResponse),
+            });
+        }
 
-        return NextResponse.json({ ok: true, message: "Item deleted" });
+        // The delete, its ledger row and any restocked staples land together
+        const restocked = await prisma.$transaction(async (tx) => {
+            await deletePantryItem(tx, p.sub, id);
+            return replenishStaples(tx, p.sub);
+        });
+
+        return NextResponse.json({
+            ok: true,
+            message: "Item deleted",
+            restocked: restocked.map(formatGroceryItemResponse),
+        });
     } catch (error) {
         if (error instanceof PantryServiceError) {
             return errorResponse(error.status, error.message);
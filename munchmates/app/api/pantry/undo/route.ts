@@ -0,0 +1,33 @@
+// POST /api/pantry/undo
+// Reverses the pantry deductions made by one cook event
+// Restores lots by the amount each deduction took, recreating used-up items
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import {
+    formatPantryItemResponse,
+    PantryServiceError,
+    undoCookEvent,
+} from "@/lib/pantry-service";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const items = await prisma.$transaction((tx) => undoCookEvent(tx, p.sub, body.cookEventId));
+
+        return NextResponse.json({
+            ok: true,
+            message: "Cook undone",
+            items: items.map(formatPantryItemResponse),
+        });
+    } catch (error) {
+        if (error instanceof PantryServiceError) {
+            return errorResponse(error.status, error.message);
+        }
+        return handleRouteError(error, "Error in POST /api/pantry/undo:");
+    }
+}
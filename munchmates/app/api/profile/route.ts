@@ -1,8 +1,12 @@
 // app/api/profile/route.ts
+// weekStartDay (0 = Sunday ... 6 = Saturday) sets the day meal plan weeks start on;
+// changing it moves planned meals into the new weeks
 import { NextRequest, NextResponse } from "next/server";
 import { handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import { realignMealPlanWeeks } from "@/lib/meal-plan-service";
+import { DEFAULT_WEEK_START_DAY } from "@/lib/types/meal-plan";
 
 const toNullableInt = (value: unknown): number | null => {
     if (value === "" || value === undefined || value === null) return null;
@@ -10,6 +14,13 @@ const toNullableInt = (value: unknown): number | null => {
     return Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
 };
 
+// Left unchanged when missing or not a day of the week
+const toWeekStartDay = (value: unknown): number | undefined => {
+    if (value === "" || value === undefined || value === null) return undefined;
+    const n = Number(value);
+    return Number.isInteger(n) && n >= 0 && n <= 6 ? n : undefined;
+};
+
 export async function GET(req: NextRequest) {
     try {
         const p = await verifyBearer(req.headers.get("authorization") || undefined);
@@ -26,6 +37,7 @@ export async function GET(req: NextRequest) {
             dailyProteinGoal: profile?.dailyProteinGoal ?? null,
             dailyCarbGoal: profile?.dailyCarbGoal ?? null,
             dailyFatGoal: profile?.dailyFatGoal ?? null,
+            weekStartDay: profile?.weekStartDay ?? DEFAULT_WEEK_START_DAY,
         });
     } catch (error) {
         return handleRouteError(error, "Error in GET /api/profile:");
@@ -45,6 +57,7 @@ export async function POST(req: NextRequest) {
             dailyProteinGoal: toNullableInt(body.dailyProteinGoal),
             dailyCarbGoal: toNullableInt(body.dailyCarbGoal),
             dailyFatGoal: toNullableInt(body.dailyFatGoal),
+            weekStartDay: toWeekStartDay(body.weekStartDay),
         };
 
         await prisma.user.upsert({
@@ -53,10 +66,18 @@ export async function POST(req: NextRequest) {
             create: { id: p.sub, name: p.name ?? "", username: p.preferred_username ?? "" },
         });
 
-        const profile = await prisma.userProfile.upsert({
-            where: { userId: p.sub },
-            update: data,
-            create: { userId: p.sub, ...data },
+        const profile = await prisma.$transaction(async (tx) => {
+            const previous = await tx.userProfile.findUnique({ where: { userId: p.sub } });
+            const saved = await tx.userProfile.upsert({
+                where: { userId: p.sub },
+                update: data,
+                create: { userId: p.sub, ...data },
+            });
+
+            if (saved.weekStartDay !== (previous?.weekStartDay ?? DEFAULT_WEEK_START_DAY)) {
+                await realignMealPlanWeeks(tx, p.sub, saved.weekStartDay);
+            }
+            return saved;
         });
 
         return NextResponse.json({
@@ -69,6 +90,7 @@ export async function POST(req: NextRequest) {
                 dailyProteinGoal: profile.dailyProteinGoal,
                 dailyCarbGoal: profile.dailyCarbGoal,
                 dailyFatGoal: profile.dailyFatGoal,
+                weekStartDay: profile.weekStartDay,
             },
         });
     } catch (error) {
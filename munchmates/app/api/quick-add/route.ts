@@ -0,0 +1,52 @@
+// app/api/quick-add/route.ts
+// POST /api/quick-add
+// Body: { text: "2 lbs chicken thighs, a dozen eggs and 1 gallon milk" }
+// Splits free text into items, parses amounts and units, canonicalizes names and
+// picks a category with the ingredient classifier (the user's own corrections first).
+// Nothing is saved — the preview is committed with POST /api/grocery or
+// POST /api/pantry using { items: [...] }.
+
+import { NextRequest, NextResponse } from "next/server";
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import { verifyBearer } from "@/lib/verifyToken";
+import { prisma } from "@/lib/prisma";
+import { parseQuickAddText, QUICK_ADD_MAX_LENGTH } from "@/lib/quick-add";
+
+export async function POST(req: NextRequest) {
+    try {
+        const p = await verifyBearer(req.headers.get("authorization") || undefined);
+        const body = await req.json();
+
+        const text = typeof body.text === "string" ? body.text.trim() : "";
+        if (!text) {
+            return errorResponse(400, "Missing required field: text");
+        }
+        if (text.length > QUICK_ADD_MAX_LENGTH) {
+            return errorResponse(400, `text must be at most ${QUICK_ADD_MAX_LENGTH} characters`);
+        }
+
+        // File items under the user's own categories when they have any
+        const [categories, corrections] = await Promise.all([
+            prisma.groceryCategory.findMany({
+                where: { userId: p.sub },
+                orderBy: { sortOrder: "asc" },
+            }),
+            prisma.categoryCorrection.findMany({
+                where: { userId: p.sub },
+            }),
+        ]);
+
+        const items = parseQuickAddText(text, {
+            categories: categories.map((category) => category.name),
+            corrections: new Map(corrections.map((correction) => [correction.canonName, correction.category])),
+        });
+
+        return NextResponse.json({
+            ok: true,
+            items,
+            count: items.length,
+        });
+    } catch (error) {
+        return handleRouteError(error, "Error in POST /api/quick-add:");
+    }
+}
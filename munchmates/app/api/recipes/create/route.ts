@@ -6,6 +6,8 @@
 //          by ID via the ?id= query param (no auth required for single lookups).
 // DELETE → Removes a custom recipe by ?id= for the authenticated user.
 // Backed by Postgres via Prisma — data persists across server restarts.
+// Per-serving nutrition is estimated from the ingredients when a recipe is created
+// (see lib/recipe-nutrition.ts) and returned with single-recipe lookups.
 // Uses mapToRecipeInfo() to convert DB rows into the RecipeInfo shape the UI expects,
 // mapping the ingredients string array into the extendedIngredients format.
 
@@ -13,6 +15,13 @@ import { NextRequest, NextResponse } from "next/server";
 import { errorResponse, handleRouteError } from "@/lib/apiErrors";
 import { verifyBearer } from "@/lib/verifyToken";
 import { prisma } from "@/lib/prisma";
+import {
+    currentRecipeNutrition,
+    customRecipeNutritionData,
+    formatNutritionWidget,
+    storedRecipeNutrition,
+    type RecipeNutrition,
+} from "@/lib/recipe-nutrition";
 
 export async function POST(req: NextRequest) {
     try {
@@ -42,10 +51,20 @@ export async function POST(req: NextRequest) {
             create: { id: userId, name: p.name ?? "", username: p.preferred_username ?? "" },
         });
 
+        const structuredIngredients = Array.isArray(body.structuredIngredients)
+            ? body.structuredIngredients.map((si: { name: string; amount: number; unit: string; original: string }) => ({
+                name: String(si.name || '').trim(),
+                amount: Number(si.amount) || 0,
+                unit: String(si.unit || '').trim(),
+                original: String(si.original || '').trim(),
+            }))
+            : [];
+        const recipeServings = Number(servings) || 1;
+
         const data: Parameters<typeof prisma.customRecipe.create>[0]['data'] = {
             userId,
             title: title.trim(),
-            servings: Number(servings) || 1,
+            servings: recipeServings,
             readyInMinutes: Number(readyInMinutes) || 30,
             dishTypes: dishTypes || ['main course'],
             cuisines: cuisines || ['American'],
@@ -53,18 +72,12 @@ export async function POST(req: NextRequest) {
             instructions: instructions.trim(),
             ...(image ? { image } : {}),
             ...(summary ? { summary } : {}),
+            ...customRecipeNutritionData({ servings: recipeServings, ingredients, structuredIngredients }),
         };
 
         // Create structured ingredients if provided
-        if (body.structuredIngredients && Array.isArray(body.structuredIngredients) && body.structuredIngredients.length > 0) {
-            data.structuredIngredients = {
-                create: body.structuredIngredients.map((si: { name: string; amount: number; unit: string; original: string }) => ({
-                    name: String(si.name || '').trim(),
-                    amount: Number(si.amount) || 0,
-                    unit: String(si.unit || '').trim(),
-                    original: String(si.original || '').trim(),
-                })),
-            };
+        if (structuredIngredients.length > 0) {
+            data.structuredIngredients = { create: structuredIngredients };
         }
 
         const newRecipe = await prisma.customRecipe.create({ data });
@@ -90,6 +103,7 @@ export async function POST(req: NextRequest) {
                 message: "Recipe created successfully",
                 id: newRecipe.id,
                 recipe,
+                ...formatRecipeNutrition(storedRecipeNutrition(newRecipe)),
             },
             { status: 201 }
         );
@@ -150,6 +164,15 @@ function mapToRecipeInfo(r: {
     };
 }
 
+// Helper: the estimated nutrition in the nutritionWidget shape the detail page shows
+// for Spoonacular recipes, or null when none of the ingredients could be counted
+function formatRecipeNutrition({ perServing, missing }: RecipeNutrition) {
+    return {
+        nutrition: perServing ? formatNutritionWidget(perServing) : null,
+        nutritionMissing: missing,
+    };
+}
+
 // GET endpoint to retrieve custom recipes
 // Supports two modes:
 //   ?id=<recipeId> → returns a single recipe mapped to RecipeInfo (no auth required)
@@ -174,7 +197,13 @@ export async function GET(req: NextRequest) {
                 return errorResponse(404, "Recipe not found");
             }
 
-            return NextResponse.json({ ok: true, recipe: mapToRecipeInfo(recipe) });
+            // Anyone can read a recipe, so nutrition stored with an older nutrient table is
+            // worked out again in memory; the signed-in summary and generator save it
+            return NextResponse.json({
+                ok: true,
+                recipe: mapToRecipeInfo(recipe),
+                ...formatRecipeNutrition(currentRecipeNutrition(recipe)),
+            });
         }
 
         // List all recipes for the authenticated user
@@ -1,13 +1,16 @@
 // CookConfirmModal.tsx
 // Modal to confirm pantry deductions when cooking a recipe
 // Shows ingredient matching status and allows user to toggle which items to deduct
+// After deducting, offers an Undo that restores the pantry via /api/pantry/undo
+// and to put what's left of the dish in the pantry as leftovers (/api/pantry/leftovers)
+// Undo goes away once leftovers are saved: it wouldn't take them back out of the pantry
 
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
 import { authedFetch } from '@/lib/authedFetch';
 import { Button } from '@/components/ui/button';
-import { CheckCircle2, XCircle, AlertTriangle, ChefHat, Loader2, Check, Minus } from 'lucide-react';
+import { CheckCircle2, XCircle, AlertTriangle, ChefHat, Loader2, Check, Minus, Plus, Undo2, HelpCircle, Refrigerator } from 'lucide-react';
 import { formatAmount } from '@/lib/unit-conversion';
 import {
     Dialog,
@@ -42,7 +45,7 @@ interface MatchResult {
         amount: number | null;
         unit: string;
     } | null;
-    status: 'matched' | 'partial' | 'unmatched';
+    status: 'matched' | 'partial' | 'unmatched' | 'unconvertible';
 }
 
 interface DeductionRow {
@@ -89,11 +92,19 @@ export default function CookConfirmModal({
     const [isLoading, setIsLoading] = useState(false);
     const [isDeducting, setIsDeducting] = useState(false);
     const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+    const [cookEventId, setCookEventId] = useState<number | null>(null);
+    const [isUndoing, setIsUndoing] = useState(false);
+    const [cooked, setCooked] = useState(false);
+    const [leftoverServings, setLeftoverServings] = useState(1);
+    const [leftoversState, setLeftoversState] = useState<'idle' | 'saving' | 'saved'>('idle');
 
     useEffect(() => {
         if (!isOpen) {
             setStatus(null);
             setRows([]);
+            setCookEventId(null);
+            setCooked(false);
+            setLeftoversState('idle');
             return;
         }
         if (!recipe?.extendedIngredients?.length) return;
@@ -118,12 +129,12 @@ export default function CookConfirmModal({
                 if (res.ok) {
                     const data = await res.json();
                     const matches: MatchResult[] = data.matches || [];
-                    const statusOrder = { matched: 0, partial: 1, unmatched: 2 };
+                    const statusOrder = { matched: 0, partial: 1, unconvertible: 2, unmatched: 3 };
                     const sorted = [...matches].sort((a, b) => statusOrder[a.status] - statusOrder[b.status]);
                     setRows(
                         sorted.map((match) => ({
                             match,
-                            enabled: match.status !== 'unmatched',
+                            enabled: match.status === 'matched' || match.status === 'partial',
                             scaledAmount: match.ingredientAmount,
                             scaledUnit: match.ingredientUnit,
                         }))
@@ -147,6 +158,47 @@ export default function CookConfirmModal({
         );
     };
 
+    // Stay open to offer the leftovers; half the batch is a guess the user adjusts
+    const markCooked = () => {
+        setCooked(true);
+        setLeftoverServings(Math.max(1, Math.floor(cookServings / 2)));
+    };
+
+    const handleSaveLeftovers = async () => {
+        if (!recipe) return;
+        setLeftoversState('saving');
+
+        try {
+            const res = await authedFetch('/api/pantry/leftovers', {
+                method: 'POST',
+                body: JSON.stringify({ recipeTitle: recipe.title, servings: leftoverServings }),
+            });
+
+            if (res.ok) {
+                const data = await res.json();
+                const useBy = data.item?.expiryDate
+                    ? new Date(data.item.expiryDate).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+                    : null;
+                setLeftoversState('saved');
+                setStatus({
+                    type: 'success',
+                    message: useBy ? `Leftovers added to your pantry. Eat them by ${useBy}.` : 'Leftovers added to your pantry.',
+                });
+            } else {
+                const data = await res.json().catch(() => ({}));
+                setLeftoversState('idle');
+                setStatus({
+                    type: 'error',
+                    message: data?.error?.message || 'Failed to add leftovers to pantry',
+                });
+            }
+        } catch (err) {
+            console.error('Error adding leftovers to pantry:', err);
+            setLeftoversState('idle');
+            setStatus({ type: 'error', message: 'Something went wrong. Please try again.' });
+        }
+    };
+
     const handleDeduct = async () => {
         setIsDeducting(true);
         setStatus(null);
@@ -162,27 +214,40 @@ export default function CookConfirmModal({
         if (deductions.length === 0) {
             setStatus({ type: 'success', message: 'Marked as cooked (no pantry items to deduct)' });
             setIsDeducting(false);
+            markCooked();
             onCooked?.();
-            setTimeout(() => onOpenChange(false), 1500);
             return;
         }
 
         try {
             const res = await authedFetch('/api/pantry/deduct', {
                 method: 'POST',
-                body: JSON.stringify({ deductions }),
+                body: JSON.stringify({
+                    deductions,
+                    recipeId: recipe?.id,
+                    recipeTitle: recipe?.title,
+                    servings: cookServings,
+                }),
             });
 
             if (res.ok) {
                 const data = await res.json();
                 const removed = data.results.filter((r: { action: string }) => r.action === 'removed').length;
                 const updated = data.results.filter((r: { action: string }) => r.action === 'updated').length;
+                const skipped = data.results.filter((r: { action: string }) => r.action === 'unconvertible').length;
+                const short = data.results.filter(
+                    (r: { action: string; shortfallAmount?: number }) => r.action !== 'unconvertible' && r.shortfallAmount,
+                ).length;
                 const parts = [];
                 if (updated > 0) parts.push(`${updated} item${updated > 1 ? 's' : ''} updated`);
                 if (removed > 0) parts.push(`${removed} item${removed > 1 ? 's' : ''} used up`);
+                if (short > 0) parts.push(`${short} didn't have enough in the pantry`);
+                if (skipped > 0) parts.push(`${skipped} left unchanged (units don't convert)`);
                 setStatus({ type: 'success', message: parts.join(', ') || 'Pantry updated!' });
+                markCooked();
                 onCooked?.();
-                setTimeout(() => onOpenChange(false), 1500);
+                // Keep the modal open so the deduction can be undone
+                if (data.cookEventId) setCookEventId(data.cookEventId);
             } else {
                 const data = await res.json().catch(() => ({}));
                 setStatus({
@@ -198,9 +263,41 @@ export default function CookConfirmModal({
         }
     };
 
+    const handleUndo = async () => {
+        if (!cookEventId) return;
+        setIsUndoing(true);
+
+        try {
+            const res = await authedFetch('/api/pantry/undo', {
+                method: 'POST',
+                body: JSON.stringify({ cookEventId }),
+            });
+
+            if (res.ok) {
+                setCookEventId(null);
+                setCooked(false);
+                setStatus({ type: 'success', message: 'Pantry restored' });
+                onCooked?.();
+                setTimeout(() => onOpenChange(false), 1500);
+            } else {
+                const data = await res.json().catch(() => ({}));
+                setStatus({
+                    type: 'error',
+                    message: data?.error?.message || 'Failed to undo pantry changes',
+                });
+            }
+        } catch (err) {
+            console.error('Error undoing pantry deduction:', err);
+            setStatus({ type: 'error', message: 'Something went wrong. Please try again.' });
+        } finally {
+            setIsUndoing(false);
+        }
+    };
+
     const matchedCount = rows.filter((r) => r.match.status === 'matched').length;
     const partialCount = rows.filter((r) => r.match.status === 'partial').length;
     const unmatchedCount = rows.filter((r) => r.match.status === 'unmatched').length;
+    const unconvertibleCount = rows.filter((r) => r.match.status === 'unconvertible').length;
 
     return (
         <Dialog open={isOpen} onOpenChange={onOpenChange}>
@@ -235,6 +332,42 @@ export default function CookConfirmModal({
                         </div>
                     )}
 
+                    {/* Offer what's left of the dish as a pantry item */}
+                    {cooked && leftoversState !== 'saved' && (
+                        <div className="flex items-center gap-3 px-4 py-3 rounded-xl border border-border bg-muted/30">
+                            <Refrigerator className="h-5 w-5 flex-shrink-0 text-muted-foreground" />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium">Any leftovers?</p>
+                                <p className="text-xs text-muted-foreground">Add them to your pantry. They keep a few days.</p>
+                            </div>
+                            <div className="flex items-center gap-1">
+                                <button
+                                    className="h-6 w-6 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                                    onClick={() => setLeftoverServings((n) => Math.max(1, n - 1))}
+                                    disabled={leftoverServings <= 1}
+                                >
+                                    <Minus className="h-3 w-3" />
+                                </button>
+                                <span className="w-6 text-center text-sm font-semibold tabular-nums">{leftoverServings}</span>
+                                <button
+                                    className="h-6 w-6 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                                    onClick={() => setLeftoverServings((n) => n + 1)}
+                                >
+                                    <Plus className="h-3 w-3" />
+                                </button>
+                            </div>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                className="rounded-full"
+                                onClick={handleSaveLeftovers}
+                                disabled={leftoversState === 'saving'}
+                            >
+                                {leftoversState === 'saving' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                            </Button>
+                        </div>
+                    )}
+
                     {isLoading ? (
                         <div className="flex items-center justify-center py-8">
                             <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
@@ -257,6 +390,11 @@ export default function CookConfirmModal({
                                         {partialCount} low
                                     </span>
                                 )}
+                                {unconvertibleCount > 0 && (
+                                    <span className="px-2 py-1 rounded-full bg-sky-100 text-sky-700 font-medium">
+                                        {unconvertibleCount} can&apos;t compare
+                                    </span>
+                                )}
                                 {unmatchedCount > 0 && (
                                     <span className="px-2 py-1 rounded-full bg-gray-100 text-gray-600 font-medium">
                                         {unmatchedCount} missing
@@ -272,6 +410,8 @@ export default function CookConfirmModal({
                                             ? 'border-green-200 bg-green-50/50'
                                             : row.match.status === 'partial'
                                             ? 'border-amber-200 bg-amber-50/50'
+                                            : row.match.status === 'unconvertible'
+                                            ? 'border-sky-200 bg-sky-50/50'
                                             : 'border-gray-200 bg-gray-50/50';
 
                                     const StatusIcon =
@@ -279,6 +419,8 @@ export default function CookConfirmModal({
                                             ? Check
                                             : row.match.status === 'partial'
                                             ? AlertTriangle
+                                            : row.match.status === 'unconvertible'
+                                            ? HelpCircle
                                             : Minus;
 
                                     const statusIconColor =
@@ -286,6 +428,8 @@ export default function CookConfirmModal({
                                             ? 'text-green-600'
                                             : row.match.status === 'partial'
                                             ? 'text-amber-600'
+                                            : row.match.status === 'unconvertible'
+                                            ? 'text-sky-600'
                                             : 'text-gray-400';
 
                                     return (
@@ -342,21 +486,46 @@ export default function CookConfirmModal({
                 </div>
 
                 <DialogFooter>
-                    <Button variant="outline" className="rounded-full" onClick={() => onOpenChange(false)}>
-                        Cancel
-                    </Button>
-                    <Button
-                        className="rounded-full gap-1.5"
-                        onClick={handleDeduct}
-                        disabled={isDeducting || isLoading}
-                    >
-                        {isDeducting ? (
-                            <Loader2 className="h-4 w-4 animate-spin" />
-                        ) : (
-                            <ChefHat className="h-4 w-4" />
-                        )}
-                        {isDeducting ? 'Cooking...' : 'I Cooked This'}
-                    </Button>
+                    {cooked || cookEventId ? (
+                        <>
+                            {cookEventId && leftoversState === 'idle' && (
+                                <Button
+                                    variant="outline"
+                                    className="rounded-full gap-1.5"
+                                    onClick={handleUndo}
+                                    disabled={isUndoing}
+                                >
+                                    {isUndoing ? (
+                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                        <Undo2 className="h-4 w-4" />
+                                    )}
+                                    Undo
+                                </Button>
+                            )}
+                            <Button className="rounded-full" onClick={() => onOpenChange(false)}>
+                                Done
+                            </Button>
+                        </>
+                    ) : (
+                        <>
+                            <Button variant="outline" className="rounded-full" onClick={() => onOpenChange(false)}>
+                                Cancel
+                            </Button>
+                            <Button
+                                className="rounded-full gap-1.5"
+                                onClick={handleDeduct}
+                                disabled={isDeducting || isLoading}
+                            >
+                                {isDeducting ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <ChefHat className="h-4 w-4" />
+                                )}
+                                {isDeducting ? 'Cooking...' : 'I Cooked This'}
+                            </Button>
+                        </>
+                    )}
                 </DialogFooter>
             </DialogContent>
         </Dialog>
@@ -0,0 +1,289 @@
+// ExportShareDialog.tsx
+// Dialog for taking a grocery list out of the app:
+// - Download as plain text, Markdown checklist or CSV (/api/grocery/export)
+// - Open a print-ready page (print it or "Save as PDF")
+// - Create, copy and revoke read-only share links that expire (/api/grocery/share)
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { authedFetch } from '@/lib/authedFetch';
+import { assertOk, getErrorMessage } from '@/lib/apiClient';
+import { Check, Copy, FileDown, Link2, Loader2, Printer, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+interface ShareLink {
+    id: number;
+    listId: number;
+    url: string;
+    expiresAt: string;
+    createdAt: string;
+}
+
+interface ExportShareDialogProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    listId: number | null;
+}
+
+const DOWNLOAD_FORMATS = [
+    { format: 'text', label: 'Text' },
+    { format: 'markdown', label: 'Markdown' },
+    { format: 'csv', label: 'CSV' },
+];
+
+const EXPIRY_OPTIONS = [
+    { days: '1', label: '1 day' },
+    { days: '7', label: '1 week' },
+    { days: '30', label: '30 days' },
+];
+
+// Pull the file name the server picked out of Content-Disposition
+function downloadName(res: Response, fallback: string): string {
+    const match = /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '');
+    return match?.[1] ?? fallback;
+}
+
+export default function ExportShareDialog({ isOpen, onOpenChange, listId }: ExportShareDialogProps) {
+    const [links, setLinks] = useState<ShareLink[]>([]);
+    const [expiryDays, setExpiryDays] = useState('7');
+    const [includeCompleted, setIncludeCompleted] = useState(true);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [copiedId, setCopiedId] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchLinks = useCallback(async () => {
+        if (listId === null) return;
+        try {
+            const res = await authedFetch(`/api/grocery/share?listId=${listId}`);
+            await assertOk(res, 'Failed to fetch share links');
+            const data = await res.json();
+            setLinks(data.links || []);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to fetch share links'));
+        }
+    }, [listId]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setError(null);
+        setCopiedId(null);
+        void fetchLinks();
+    }, [isOpen, fetchLinks]);
+
+    const exportUrl = (format: string) =>
+        `/api/grocery/export?format=${format}&listId=${listId}&includeCompleted=${includeCompleted}`;
+
+    const download = async (format: string) => {
+        if (listId === null) return;
+        setBusy(format);
+        setError(null);
+        try {
+            const res = await authedFetch(exportUrl(format));
+            await assertOk(res, 'Failed to export list');
+            const url = URL.createObjectURL(await res.blob());
+            const anchor = document.createElement('a');
+            anchor.href = url;
+            anchor.download = downloadName(res, `grocery-list.${format}`);
+            anchor.click();
+            URL.revokeObjectURL(url);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to export list'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const openPrintView = async () => {
+        if (listId === null) return;
+        // Open the tab before the request so popup blockers treat it as a click
+        const printWindow = window.open('', '_blank');
+        setBusy('html');
+        setError(null);
+        try {
+            const res = await authedFetch(exportUrl('html'));
+            await assertOk(res, 'Failed to export list');
+            const url = URL.createObjectURL(await res.blob());
+            if (printWindow) printWindow.location.href = url;
+            else window.location.href = url;
+        } catch (err) {
+            printWindow?.close();
+            setError(getErrorMessage(err, 'Failed to export list'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const createLink = async () => {
+        if (listId === null) return;
+        setBusy('share');
+        setError(null);
+        try {
+            const res = await authedFetch('/api/grocery/share', {
+                method: 'POST',
+                body: JSON.stringify({ listId, expiresInDays: Number(expiryDays) }),
+            });
+            await assertOk(res, 'Failed to create share link');
+            const data = await res.json();
+            setLinks(prev => [data.link, ...prev]);
+            await copyLink(data.link);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to create share link'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const copyLink = async (link: ShareLink) => {
+        try {
+            await navigator.clipboard.writeText(link.url);
+            setCopiedId(link.id);
+        } catch {
+            // Clipboard access can be refused; the link is still shown to copy by hand
+        }
+    };
+
+    const revokeLink = async (link: ShareLink) => {
+        setBusy(`revoke-${link.id}`);
+        setError(null);
+        try {
+            const res = await authedFetch(`/api/grocery/share?id=${link.id}`, { method: 'DELETE' });
+            await assertOk(res, 'Failed to revoke share link');
+            setLinks(prev => prev.filter(entry => entry.id !== link.id));
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to revoke share link'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="rounded-2xl max-w-md max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Export &amp; share</DialogTitle>
+                    <DialogDescription>
+                        Take this list with you, print it, or send a read-only link to someone without an account.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Export</p>
+                    <div className="flex flex-wrap gap-2">
+                        {DOWNLOAD_FORMATS.map(({ format, label }) => (
+                            <Button
+                                key={format}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => download(format)}
+                                disabled={busy !== null}
+                                className="rounded-xl"
+                            >
+                                {busy === format
+                                    ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                                    : <FileDown className="h-3.5 w-3.5 mr-1.5" />}
+                                {label}
+                            </Button>
+                        ))}
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={openPrintView}
+                            disabled={busy !== null}
+                            className="rounded-xl"
+                        >
+                            {busy === 'html'
+                                ? <Loader2 className="h-3.5 w-3.5 mr-1.5 animate-spin" />
+                                : <Printer className="h-3.5 w-3.5 mr-1.5" />}
+                            Print / PDF
+                        </Button>
+                    </div>
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <input
+                            type="checkbox"
+                            checked={includeCompleted}
+                            onChange={(e) => setIncludeCompleted(e.target.checked)}
+                        />
+                        Include checked-off items
+                    </label>
+                </div>
+
+                <div className="space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Share link</p>
+                    <div className="flex items-center gap-2">
+                        <Select value={expiryDays} onValueChange={setExpiryDays}>
+                            <SelectTrigger className="h-9 w-[120px] rounded-xl text-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {EXPIRY_OPTIONS.map(({ days, label }) => (
+                                    <SelectItem key={days} value={days}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button onClick={createLink} disabled={busy !== null} className="rounded-xl h-9">
+                            {busy === 'share'
+                                ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />
+                                : <Link2 className="h-4 w-4 mr-1.5" />}
+                            Create link
+                        </Button>
+                    </div>
+
+                    {links.length > 0 && (
+                        <ul className="space-y-1.5">
+                            {links.map(link => (
+                                <li key={link.id} className="flex items-center gap-1.5">
+                                    <Input
+                                        readOnly
+                                        value={link.url}
+                                        onFocus={(e) => e.target.select()}
+                                        className="h-8 flex-1 rounded-lg text-xs"
+                                        title={`Expires ${new Date(link.expiresAt).toLocaleString()}`}
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => copyLink(link)}
+                                        className="h-8 w-8 rounded-lg"
+                                        title="Copy link"
+                                    >
+                                        {copiedId === link.id
+                                            ? <Check className="h-3.5 w-3.5 text-green-600" />
+                                            : <Copy className="h-3.5 w-3.5" />}
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => revokeLink(link)}
+                                        disabled={busy !== null}
+                                        className="h-8 w-8 rounded-lg text-red-600 hover:bg-red-50 hover:text-red-700"
+                                        title="Revoke link"
+                                    >
+                                        <Trash2 className="h-3.5 w-3.5" />
+                                    </Button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+            </DialogContent>
+        </Dialog>
+    );
+}
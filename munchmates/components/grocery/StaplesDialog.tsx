@@ -0,0 +1,337 @@
+// StaplesDialog.tsx
+// Dialog for managing grocery staples — things bought over and over (milk, bread, eggs)
+// Each staple comes back on a schedule ("every Monday"), when the pantry drops
+// below a par level ("keep at least 2 l"), or both
+// Saves through /api/grocery/staples
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { authedFetch } from '@/lib/authedFetch';
+import { assertOk, getErrorMessage } from '@/lib/apiClient';
+import { Loader2, Repeat, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+export interface GroceryStaple {
+    id: number;
+    name: string;
+    quantity: string | null;
+    category: string;
+    listId: number | null;
+    weekday: number | null;
+    intervalWeeks: number;
+    parAmount: number | null;
+    parUnit: string;
+    lastAddedAt: string | null;
+}
+
+interface StaplesDialogProps<T> {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    categories: string[];
+    // Grocery items a par-level staple put on the list straight away
+    onRestocked: (items: T[]) => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const NO_SCHEDULE = 'none';
+const AUTO_CATEGORY = '__auto';
+
+interface StapleForm {
+    name: string;
+    quantity: string;
+    category: string;
+    weekday: string;
+    intervalWeeks: string;
+    parAmount: string;
+    parUnit: string;
+}
+
+const EMPTY_FORM: StapleForm = {
+    name: '',
+    quantity: '',
+    category: AUTO_CATEGORY,
+    weekday: NO_SCHEDULE,
+    intervalWeeks: '1',
+    parAmount: '',
+    parUnit: '',
+};
+
+function describeStaple(staple: GroceryStaple): string {
+    const parts: string[] = [];
+    if (staple.weekday !== null) {
+        parts.push(staple.intervalWeeks > 1
+            ? `Every ${staple.intervalWeeks} weeks on ${WEEKDAYS[staple.weekday]}`
+            : `Every ${WEEKDAYS[staple.weekday]}`);
+    }
+    if (staple.parAmount !== null) {
+        parts.push(`Keep ${staple.parAmount}${staple.parUnit ? ` ${staple.parUnit}` : ''}`);
+    }
+    if (staple.quantity) parts.push(staple.quantity);
+    return parts.join(' · ');
+}
+
+export default function StaplesDialog<T>({
+    isOpen, onOpenChange, categories, onRestocked,
+}: StaplesDialogProps<T>) {
+    const [staples, setStaples] = useState<GroceryStaple[]>([]);
+    const [editingId, setEditingId] = useState<number | null>(null);
+    const [form, setForm] = useState<StapleForm>(EMPTY_FORM);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchStaples = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            const res = await authedFetch('/api/grocery/staples');
+            await assertOk(res, 'Failed to fetch staples');
+            const data = await res.json();
+            setStaples(data.staples || []);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to fetch staples'));
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setError(null);
+        void fetchStaples();
+    }, [isOpen, fetchStaples]);
+
+    const updateForm = (changes: Partial<StapleForm>) => {
+        setForm(prev => ({ ...prev, ...changes }));
+    };
+
+    const beginEdit = (staple: GroceryStaple) => {
+        setEditingId(staple.id);
+        setError(null);
+        setForm({
+            name: staple.name,
+            quantity: staple.quantity ?? '',
+            category: staple.category,
+            weekday: staple.weekday !== null ? String(staple.weekday) : NO_SCHEDULE,
+            intervalWeeks: String(staple.intervalWeeks),
+            parAmount: staple.parAmount !== null ? String(staple.parAmount) : '',
+            parUnit: staple.parUnit,
+        });
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_FORM);
+        setError(null);
+    };
+
+    const save = async () => {
+        if (!form.name.trim()) {
+            setError('Give the staple a name');
+            return;
+        }
+        if (form.weekday === NO_SCHEDULE && !form.parAmount.trim()) {
+            setError('Pick a day, a par level, or both');
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await authedFetch('/api/grocery/staples', {
+                method: editingId !== null ? 'PUT' : 'POST',
+                body: JSON.stringify({
+                    ...(editingId !== null ? { id: editingId } : {}),
+                    name: form.name.trim(),
+                    quantity: form.quantity.trim() || null,
+                    ...(form.category !== AUTO_CATEGORY ? { category: form.category } : {}),
+                    weekday: form.weekday === NO_SCHEDULE ? null : Number(form.weekday),
+                    intervalWeeks: Number(form.intervalWeeks) || 1,
+                    parAmount: form.parAmount.trim() ? Number(form.parAmount) : null,
+                    parUnit: form.parUnit.trim(),
+                }),
+            });
+            await assertOk(res, 'Failed to save staple');
+            const data = await res.json();
+            setStaples(prev => [...prev.filter(staple => staple.id !== data.staple.id), data.staple]
+                .sort((a, b) => a.name.localeCompare(b.name)));
+            if (data.restocked?.length) onRestocked(data.restocked);
+            resetForm();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to save staple'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const remove = async (staple: GroceryStaple) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await authedFetch(`/api/grocery/staples?id=${staple.id}`, { method: 'DELETE' });
+            await assertOk(res, 'Failed to delete staple');
+            setStaples(prev => prev.filter(entry => entry.id !== staple.id));
+            if (editingId === staple.id) resetForm();
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to delete staple'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="rounded-2xl max-w-lg max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Staples</DialogTitle>
+                    <DialogDescription>
+                        Things you buy again and again. They go back on your list on their day, or when the pantry runs low.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : staples.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No staples yet.</p>
+                ) : (
+                    <ul className="divide-y divide-border/40 rounded-xl border border-border/50">
+                        {staples.map(staple => (
+                            <li
+                                key={staple.id}
+                                className={`flex items-center gap-2 px-3 py-1.5 ${editingId === staple.id ? 'bg-muted/50' : ''}`}
+                            >
+                                <button
+                                    type="button"
+                                    onClick={() => beginEdit(staple)}
+                                    className="flex-1 min-w-0 text-left"
+                                >
+                                    <span className="block text-sm truncate">{staple.name}</span>
+                                    <span className="block text-[11px] text-muted-foreground truncate">
+                                        {describeStaple(staple)}
+                                    </span>
+                                </button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => remove(staple)}
+                                    disabled={isSaving}
+                                    className="h-7 w-7 rounded-lg text-red-600 hover:bg-red-50 hover:text-red-700"
+                                    title="Delete staple"
+                                >
+                                    <Trash2 className="h-3.5 w-3.5" />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                <div className="space-y-2 rounded-xl border border-border/50 p-3">
+                    <div className="flex gap-2">
+                        <Input
+                            placeholder="Staple, e.g. milk"
+                            value={form.name}
+                            onChange={(e) => updateForm({ name: e.target.value })}
+                            className="h-9 flex-1 rounded-xl text-sm"
+                        />
+                        <Input
+                            placeholder="Qty"
+                            value={form.quantity}
+                            onChange={(e) => updateForm({ quantity: e.target.value })}
+                            className="h-9 w-24 rounded-xl text-sm"
+                        />
+                        <Select value={form.category} onValueChange={(category) => updateForm({ category })}>
+                            <SelectTrigger className="h-9 w-[120px] rounded-xl text-sm">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={AUTO_CATEGORY}>Auto</SelectItem>
+                                {[...new Set([...(form.category !== AUTO_CATEGORY ? [form.category] : []), ...categories])].map(cat => (
+                                    <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Repeat className="h-3.5 w-3.5 shrink-0" />
+                        <Select value={form.weekday} onValueChange={(weekday) => updateForm({ weekday })}>
+                            <SelectTrigger className="h-8 w-[130px] rounded-lg text-xs">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_SCHEDULE}>No schedule</SelectItem>
+                                {WEEKDAYS.map((day, index) => (
+                                    <SelectItem key={day} value={String(index)}>Every {day}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {form.weekday !== NO_SCHEDULE && (
+                            <>
+                                <span>every</span>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={form.intervalWeeks}
+                                    onChange={(e) => updateForm({ intervalWeeks: e.target.value })}
+                                    className="h-8 w-14 rounded-lg text-xs"
+                                />
+                                <span>week(s)</span>
+                            </>
+                        )}
+                    </div>
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <span>Keep at least</span>
+                        <Input
+                            type="number"
+                            min={0}
+                            step="any"
+                            placeholder="Amount"
+                            value={form.parAmount}
+                            onChange={(e) => updateForm({ parAmount: e.target.value })}
+                            className="h-8 w-20 rounded-lg text-xs"
+                        />
+                        <Input
+                            placeholder="Unit"
+                            value={form.parUnit}
+                            onChange={(e) => updateForm({ parUnit: e.target.value })}
+                            className="h-8 w-20 rounded-lg text-xs"
+                        />
+                        <span>in the pantry</span>
+                    </div>
+                </div>
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <DialogFooter className="gap-2">
+                    {editingId !== null && (
+                        <Button variant="ghost" onClick={resetForm} disabled={isSaving} className="rounded-xl">
+                            Cancel edit
+                        </Button>
+                    )}
+                    <Button onClick={save} disabled={isSaving} className="rounded-xl">
+                        {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                        {editingId !== null ? 'Save staple' : 'Add staple'}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,232 @@
+// StoreLayoutDialog.tsx
+// Dialog for creating or editing a store layout profile: category walking order
+// (up/down), optional aisle labels and whether check-offs keep refining the order
+// Saves through /api/grocery/stores
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { authedFetch } from '@/lib/authedFetch';
+import { assertOk, getErrorMessage } from '@/lib/apiClient';
+import { ArrowDown, ArrowUp, Loader2, Sparkles, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+export interface StoreCategory {
+    category: string;
+    sortOrder: number;
+    aisle: string | null;
+    learned: boolean;
+}
+
+export interface StoreProfile {
+    id: number;
+    name: string;
+    learnOrder: boolean;
+    categories: StoreCategory[];
+}
+
+interface StoreLayoutDialogProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    // null creates a new store
+    store: StoreProfile | null;
+    // The user's categories, so categories the store hasn't seen yet can be placed
+    categories: string[];
+    onSaved: (store: StoreProfile) => void;
+    onDeleted: (id: number) => void;
+}
+
+interface LayoutRow {
+    category: string;
+    aisle: string;
+    learned: boolean;
+}
+
+function buildRows(store: StoreProfile | null, categories: string[]): LayoutRow[] {
+    const rows: LayoutRow[] = (store?.categories ?? []).map((row) => ({
+        category: row.category,
+        aisle: row.aisle ?? '',
+        learned: row.learned,
+    }));
+    const known = new Set(rows.map((row) => row.category));
+    for (const category of categories) {
+        if (!known.has(category)) rows.push({ category, aisle: '', learned: false });
+    }
+    return rows;
+}
+
+export default function StoreLayoutDialog({
+    isOpen, onOpenChange, store, categories, onSaved, onDeleted,
+}: StoreLayoutDialogProps) {
+    const [name, setName] = useState('');
+    const [learnOrder, setLearnOrder] = useState(true);
+    const [rows, setRows] = useState<LayoutRow[]>([]);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setName(store?.name ?? '');
+        setLearnOrder(store?.learnOrder ?? true);
+        setRows(buildRows(store, categories));
+        setError(null);
+    }, [isOpen, store, categories]);
+
+    const moveRow = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= rows.length) return;
+        setRows(prev => {
+            const next = [...prev];
+            [next[index], next[target]] = [next[target], next[index]];
+            return next;
+        });
+    };
+
+    const setAisle = (index: number, aisle: string) => {
+        setRows(prev => prev.map((row, i) => i === index ? { ...row, aisle } : row));
+    };
+
+    const save = async () => {
+        if (!name.trim()) {
+            setError('Give the store a name');
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await authedFetch('/api/grocery/stores', {
+                method: store ? 'PUT' : 'POST',
+                body: JSON.stringify({
+                    ...(store ? { id: store.id } : {}),
+                    name: name.trim(),
+                    learnOrder,
+                    categories: rows.map((row) => ({ category: row.category, aisle: row.aisle })),
+                }),
+            });
+            await assertOk(res, 'Failed to save store');
+            const data = await res.json();
+            onSaved(data.store);
+            onOpenChange(false);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to save store'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const remove = async () => {
+        if (!store || !confirm(`Delete the "${store.name}" layout?`)) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            const res = await authedFetch(`/api/grocery/stores?id=${store.id}`, { method: 'DELETE' });
+            await assertOk(res, 'Failed to delete store');
+            onDeleted(store.id);
+            onOpenChange(false);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to delete store'));
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="rounded-2xl max-w-md max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{store ? 'Edit store layout' : 'New store'}</DialogTitle>
+                    <DialogDescription>
+                        Order categories the way you walk the store. Saving resets anything learned from your check-offs.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-3">
+                    <Input
+                        autoFocus={!store}
+                        placeholder="Store name..."
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        className="h-9 rounded-xl text-sm"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <input
+                            type="checkbox"
+                            checked={learnOrder}
+                            onChange={(e) => setLearnOrder(e.target.checked)}
+                        />
+                        Learn the order from the way I check items off
+                    </label>
+
+                    <ul className="divide-y divide-border/40 rounded-xl border border-border/50">
+                        {rows.map((row, index) => (
+                            <li key={row.category} className="flex items-center gap-2 px-3 py-1.5">
+                                <span className="w-5 text-[11px] font-semibold text-muted-foreground">{index + 1}</span>
+                                <span className="flex-1 text-sm truncate">{row.category}</span>
+                                {row.learned && (
+                                    <span title="Position learned from check-offs">
+                                        <Sparkles className="h-3 w-3 text-amber-500" />
+                                    </span>
+                                )}
+                                <Input
+                                    placeholder="Aisle"
+                                    value={row.aisle}
+                                    onChange={(e) => setAisle(index, e.target.value)}
+                                    className="h-7 w-16 rounded-lg text-xs"
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => moveRow(index, -1)}
+                                    disabled={index === 0}
+                                    className="h-7 w-7 rounded-lg"
+                                    title="Move up"
+                                >
+                                    <ArrowUp className="h-3.5 w-3.5" />
+                                </Button>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => moveRow(index, 1)}
+                                    disabled={index === rows.length - 1}
+                                    className="h-7 w-7 rounded-lg"
+                                    title="Move down"
+                                >
+                                    <ArrowDown className="h-3.5 w-3.5" />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    {error && <p className="text-sm text-red-600">{error}</p>}
+                </div>
+
+                <DialogFooter className="gap-2">
+                    {store && (
+                        <Button
+                            variant="ghost"
+                            onClick={remove}
+                            disabled={isSaving}
+                            className="mr-auto rounded-xl text-red-600 hover:bg-red-50 hover:text-red-700"
+                        >
+                            <Trash2 className="h-4 w-4 mr-1.5" />
+                            Delete
+                        </Button>
+                    )}
+                    <Button onClick={save} disabled={isSaving} className="rounded-xl">
+                        {isSaving && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                        Save layout
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
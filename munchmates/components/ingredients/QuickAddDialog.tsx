@@ -0,0 +1,216 @@
+// QuickAddDialog.tsx
+// One text box for several items: "2 lbs chicken thighs, a dozen eggs and 1 gallon milk"
+// - Parses the text with /api/quick-add and shows an editable preview
+// - Commits the preview in one batch to /api/grocery (target "grocery") or /api/pantry ("pantry")
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { authedFetch } from '@/lib/authedFetch';
+import { assertOk, getErrorMessage } from '@/lib/apiClient';
+import { Loader2, Sparkles, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+
+interface QuickAddItem {
+    name: string;
+    amount: number | null;
+    unit: string;
+    quantity: string | null;
+    category: string;
+    original: string;
+}
+
+interface QuickAddDialogProps<T> {
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    target: 'grocery' | 'pantry';
+    categories: string[];
+    // Grocery list to add to (grocery target only)
+    listId?: number | null;
+    onCommitted: (items: T[]) => void;
+}
+
+export default function QuickAddDialog<T>({
+    open, onOpenChange, target, categories, listId, onCommitted,
+}: QuickAddDialogProps<T>) {
+    const [text, setText] = useState('');
+    const [preview, setPreview] = useState<QuickAddItem[] | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (open) return;
+        setText('');
+        setPreview(null);
+        setError(null);
+    }, [open]);
+
+    const parseText = async () => {
+        if (!text.trim()) return;
+        setIsWorking(true);
+        setError(null);
+        try {
+            const res = await authedFetch('/api/quick-add', {
+                method: 'POST',
+                body: JSON.stringify({ text }),
+            });
+            await assertOk(res, 'Failed to read items');
+            const data = await res.json();
+            setPreview(data.items || []);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to read items'));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const updateItem = (index: number, changes: Partial<QuickAddItem>) => {
+        setPreview(prev => prev && prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+    };
+
+    const removeItem = (index: number) => {
+        setPreview(prev => prev && prev.filter((_, i) => i !== index));
+    };
+
+    const commit = async () => {
+        const items = (preview ?? []).filter(item => item.name.trim());
+        if (items.length === 0) return;
+        setIsWorking(true);
+        setError(null);
+        try {
+            const body = target === 'grocery'
+                ? {
+                    listId: listId ?? undefined,
+                    items: items.map(item => ({
+                        name: item.name.trim(),
+                        quantity: item.quantity,
+                        category: item.category,
+                    })),
+                }
+                : {
+                    // The pantry always needs an amount; a bare "eggs" counts as one
+                    items: items.map(item => ({
+                        name: item.name.trim(),
+                        ...(item.quantity ? { quantity: item.quantity } : { amount: 1, unit: '' }),
+                        category: item.category,
+                    })),
+                };
+            const res = await authedFetch(target === 'grocery' ? '/api/grocery' : '/api/pantry', {
+                method: 'POST',
+                body: JSON.stringify(body),
+            });
+            await assertOk(res, 'Failed to add items');
+            const data = await res.json();
+            onCommitted(data.items || []);
+            onOpenChange(false);
+        } catch (err) {
+            setError(getErrorMessage(err, 'Failed to add items'));
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="rounded-2xl max-w-lg max-h-[85vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>Quick add</DialogTitle>
+                    <DialogDescription>
+                        Type everything at once, separated by commas or &quot;and&quot;.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {preview === null ? (
+                    <textarea
+                        autoFocus
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) void parseText();
+                        }}
+                        placeholder="2 lbs chicken thighs, a dozen eggs and 1 gallon milk"
+                        rows={4}
+                        className="w-full rounded-xl border border-input bg-transparent px-3 py-2 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                    />
+                ) : preview.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No items found in that text.</p>
+                ) : (
+                    <ul className="space-y-1.5">
+                        {preview.map((item, index) => (
+                            <li key={`${item.original}-${index}`} className="flex items-center gap-2">
+                                <Input
+                                    value={item.quantity ?? ''}
+                                    onChange={(e) => updateItem(index, { quantity: e.target.value || null })}
+                                    placeholder="Qty"
+                                    className="h-8 w-24 rounded-lg text-xs"
+                                />
+                                <Input
+                                    value={item.name}
+                                    onChange={(e) => updateItem(index, { name: e.target.value })}
+                                    className="h-8 flex-1 rounded-lg text-sm"
+                                    title={item.original}
+                                />
+                                <Select value={item.category} onValueChange={(category) => updateItem(index, { category })}>
+                                    <SelectTrigger className="h-8 w-[130px] rounded-lg text-xs">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {[...new Set([item.category, ...categories])].map(cat => (
+                                            <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => removeItem(index)}
+                                    className="h-8 w-8 rounded-lg"
+                                    title="Remove"
+                                >
+                                    <X className="h-3.5 w-3.5" />
+                                </Button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <DialogFooter className="gap-2">
+                    {preview === null ? (
+                        <Button onClick={parseText} disabled={isWorking || !text.trim()} className="rounded-xl">
+                            {isWorking ? <Loader2 className="h-4 w-4 mr-1.5 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1.5" />}
+                            Preview
+                        </Button>
+                    ) : (
+                        <>
+                            <Button variant="ghost" onClick={() => setPreview(null)} disabled={isWorking} className="rounded-xl">
+                                Back
+                            </Button>
+                            <Button onClick={commit} disabled={isWorking || preview.length === 0} className="rounded-xl">
+                                {isWorking && <Loader2 className="h-4 w-4 mr-1.5 animate-spin" />}
+                                Add {preview.length} {preview.length === 1 ? 'item' : 'items'}
+                            </Button>
+                        </>
+                    )}
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -2,6 +2,8 @@
 // Recipe card element with support for movement via mouse
 // - Allows user to move the card around the page
 // - Update serving count for a recipe
+// - Cooked meals can make a bigger batch for leftovers; leftovers are marked and
+//   show no cooking time (they're reheated, not cooked)
 // - Allows deletion of recipe
 
 'use client';
@@ -9,18 +11,24 @@
 import { useDraggable } from '@dnd-kit/core';
 import { useRouter } from 'next/navigation';
 import { MealPlanEntry } from '@/lib/types/meal-plan';
-import { GripVertical, X, Minus, Plus, Users, Clock } from 'lucide-react';
+import { GripVertical, X, Minus, Plus, Users, Clock, CookingPot, Repeat } from 'lucide-react';
 
 interface DraggableRecipeCardProps {
   entry: MealPlanEntry;
   onRemove: () => void;
   onUpdateServings?: (newServings: number) => void;
+  onUpdateCookedServings?: (cookedServings: number | null) => void;
+  onPlanLeftovers?: () => void;
+  remainingServings?: number; // Servings the batch has left once every planned leftover is eaten
 }
 
 export default function DraggableRecipeCard({
   entry,
   onRemove,
   onUpdateServings,
+  onUpdateCookedServings,
+  onPlanLeftovers,
+  remainingServings,
 }: DraggableRecipeCardProps) {
   const router = useRouter();
   const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
@@ -35,6 +43,7 @@ export default function DraggableRecipeCard({
     : undefined;
 
   const isScaled = entry.originalServings && entry.servings !== entry.originalServings;
+  const isLeftover = Boolean(entry.leftoverOf);
 
   return (
     <div
@@ -102,7 +111,49 @@ export default function DraggableRecipeCard({
               </button>
             </div>
           )}
-          {entry.readyInMinutes != null && entry.readyInMinutes > 0 && (
+          {isLeftover && (
+            <span className="text-xs text-amber-600 font-medium flex items-center gap-0.5">
+              <Repeat className="h-3 w-3" />
+              Leftovers
+            </span>
+          )}
+          {!isLeftover && entry.cookedServings != null && (
+            <div className="flex items-center gap-0.5" title="Servings cooked, including leftovers">
+              {onUpdateCookedServings && (
+                <button
+                  className="h-5 w-5 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/60 transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    const next = entry.cookedServings! - 1;
+                    onUpdateCookedServings(next > entry.servings ? next : null);
+                  }}
+                >
+                  <Minus className="h-3 w-3" />
+                </button>
+              )}
+              <span
+                className={`text-xs flex items-center gap-0.5 tabular-nums px-0.5 font-medium ${
+                  remainingServings !== undefined && remainingServings < 0 ? 'text-amber-600' : 'text-muted-foreground'
+                }`}
+              >
+                <CookingPot className="h-3 w-3" />
+                {entry.cookedServings}
+                {remainingServings !== undefined && remainingServings > 0 && ` · ${remainingServings} left`}
+              </span>
+              {onUpdateCookedServings && (
+                <button
+                  className="h-5 w-5 flex items-center justify-center rounded-md text-muted-foreground hover:text-foreground hover:bg-muted/60 transition-colors"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onUpdateCookedServings(entry.cookedServings! + 1);
+                  }}
+                >
+                  <Plus className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          )}
+          {!isLeftover && entry.readyInMinutes != null && entry.readyInMinutes > 0 && (
             <span className="text-xs text-muted-foreground flex items-center gap-0.5">
               <Clock className="h-3 w-3" />
               {entry.readyInMinutes}m
@@ -111,6 +162,18 @@ export default function DraggableRecipeCard({
         </div>
       </div>
 
+      {/* Plan leftovers from this meal */}
+      {onPlanLeftovers && !isLeftover && (
+        <button
+          className="h-6 w-6 flex items-center justify-center rounded-full bg-amber-50 hover:bg-amber-100 text-amber-500 hover:text-amber-700 opacity-0 group-hover:opacity-100 transition-all flex-shrink-0"
+          onClick={(e) => { e.stopPropagation(); onPlanLeftovers(); }}
+          aria-label="Plan leftovers"
+          title="Cook extra and plan leftovers"
+        >
+          <Repeat className="h-3 w-3" />
+        </button>
+      )}
+
       {/* Remove button */}
       <button
         className="h-6 w-6 flex items-center justify-center rounded-full bg-red-50 hover:bg-red-100 text-red-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-all flex-shrink-0"
@@ -0,0 +1,167 @@
+// LeftoverDialog.tsx
+// Plan leftovers from a meal on the planner
+// - Sets how many servings the meal's batch makes (cooked once, groceries bought once)
+// - Picks a slot and the days (on or after the cooking day) to eat the leftovers
+// - Shows how many servings the batch has left, and warns when the plan uses more
+
+'use client';
+
+import { useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Check, Minus, Plus } from 'lucide-react';
+import { MealPlanEntry, MealType } from '@/lib/types/meal-plan';
+
+export interface LeftoverPlan {
+  cookedServings: number;
+  mealType: MealType;
+  dates: string[];
+  servings: number; // Servings per leftover meal
+}
+
+interface LeftoverDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  source: { entry: MealPlanEntry; date: string } | null;
+  days: string[]; // Days of the week on screen
+  slots: MealType[];
+  plannedLeftoverServings: number; // Servings already planned as leftovers of this batch
+  onConfirm: (plan: LeftoverPlan) => void;
+}
+
+function Stepper({ value, min, onChange }: { value: number; min: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex items-center gap-1">
+      <Button variant="outline" size="sm" className="h-7 w-7 p-0" disabled={value <= min} onClick={() => onChange(value - 1)}>
+        <Minus className="h-3 w-3" />
+      </Button>
+      <span className="w-8 text-center text-sm font-semibold tabular-nums">{value}</span>
+      <Button variant="outline" size="sm" className="h-7 w-7 p-0" onClick={() => onChange(value + 1)}>
+        <Plus className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+export default function LeftoverDialog({
+  open,
+  onOpenChange,
+  source,
+  days,
+  slots,
+  plannedLeftoverServings,
+  onConfirm,
+}: LeftoverDialogProps) {
+  // Rendered with a key per source, so each meal starts from its own batch
+  const [cookedServings, setCookedServings] = useState(() =>
+    source ? source.entry.cookedServings ?? source.entry.servings * 2 : 1,
+  );
+  const [servings, setServings] = useState(1);
+  const [mealType, setMealType] = useState<MealType>(() => (slots.includes('lunch') ? 'lunch' : slots[0] ?? ''));
+  const [dates, setDates] = useState<string[]>([]);
+
+  if (!source) return null;
+
+  const laterDays = days.filter((date) => date >= source.date);
+  const remaining = cookedServings - source.entry.servings - plannedLeftoverServings - dates.length * servings;
+
+  const toggleDate = (date: string) => {
+    setDates((prev) => (prev.includes(date) ? prev.filter((d) => d !== date) : [...prev, date]));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Plan Leftovers</DialogTitle>
+          <DialogDescription>
+            Cook a bigger batch of {source.entry.title} and eat the rest later in the week.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">Servings to cook</p>
+              <p className="text-xs text-muted-foreground">{source.entry.servings} eaten when it&apos;s cooked</p>
+            </div>
+            <Stepper value={cookedServings} min={source.entry.servings} onChange={setCookedServings} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm font-medium">Servings per leftover meal</p>
+            <Stepper value={servings} min={1} onChange={setServings} />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Eat them at</p>
+            <div className="flex flex-wrap gap-1.5">
+              {slots.map((slot) => (
+                <button
+                  key={slot}
+                  type="button"
+                  onClick={() => setMealType(slot)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium capitalize border transition-colors ${
+                    mealType === slot ? 'bg-primary text-primary-foreground border-primary' : 'hover:bg-muted/50 border-border'
+                  }`}
+                >
+                  {slot}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {laterDays.map((date) => {
+              const isSelected = dates.includes(date);
+              return (
+                <button
+                  key={date}
+                  type="button"
+                  onClick={() => toggleDate(date)}
+                  className={`flex items-center gap-2 p-2 rounded-lg border text-left text-sm transition-colors ${
+                    isSelected ? 'bg-primary/10 border-primary' : 'hover:bg-muted/50 border-border'
+                  }`}
+                >
+                  <div
+                    className={`w-4 h-4 rounded border-2 flex items-center justify-center flex-shrink-0 ${
+                      isSelected ? 'bg-primary border-primary text-primary-foreground' : 'border-muted-foreground/40'
+                    }`}
+                  >
+                    {isSelected && <Check className="h-3 w-3" />}
+                  </div>
+                  {new Date(date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                </button>
+              );
+            })}
+          </div>
+
+          <p className={`text-xs ${remaining < 0 ? 'text-amber-600 font-medium' : 'text-muted-foreground'}`}>
+            {remaining < 0
+              ? `That's ${-remaining} more serving${remaining === -1 ? '' : 's'} than the batch makes.`
+              : `${remaining} serving${remaining === 1 ? '' : 's'} left over after that.`}
+          </p>
+        </div>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!mealType || (dates.length === 0 && cookedServings === (source.entry.cookedServings ?? source.entry.servings))}
+            onClick={() => onConfirm({ cookedServings, mealType, dates, servings })}
+          >
+            {dates.length > 0 ? `Plan ${dates.length} Leftover Meal${dates.length !== 1 ? 's' : ''}` : 'Save Batch Size'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,10 @@
 // MealSlot.tsx
 // Container for recipe elements on meal plan view
-// - Holds a draggable recipe or empty slot
-// - Allows user to add a new recipe to the list
-// - Existing recipes can be dropped into an empty slot
-// - Currently holds 3 time slots for meals
+// - Holds an ordered list of draggable recipes (main + sides), or an empty slot
+// - Allows user to add another recipe to the slot
+// - Passes leftover actions and each batch's remaining servings down to the cards
+// - Recipes dropped on the slot go to its end; dropped on a recipe, they go before it
+// - Slots come from the user's configured meal slots (breakfast, lunch, dinner, snack, ...)
 
 'use client';
 
@@ -12,59 +13,119 @@ import { MealPlanEntry, MealType } from '@/lib/types/meal-plan';
 import { Plus } from 'lucide-react';
 import DraggableRecipeCard from './DraggableRecipeCard';
 
+// Where a dragged recipe lands: a slot, and optionally the position to insert at
+export interface MealSlotDropTarget {
+  dayDate: string;
+  mealType: MealType;
+  index?: number;
+}
+
 interface MealSlotProps {
   dayDate: string;
   mealType: MealType;
-  entry?: MealPlanEntry;
+  entries: MealPlanEntry[];
   onAddRecipe: () => void;
-  onRemoveRecipe: () => void;
+  onRemoveRecipe: (entryId: string) => void;
+  onUpdateServings?: (entryId: string, newServings: number) => void;
+  onUpdateCookedServings?: (entryId: string, cookedServings: number | null) => void;
+  onPlanLeftovers?: (entry: MealPlanEntry) => void;
+  remainingServings?: Record<string, number>; // Servings left per batch, by entry id
+}
+
+function SlotEntry({
+  target,
+  entry,
+  onRemove,
+  onUpdateServings,
+  onUpdateCookedServings,
+  onPlanLeftovers,
+  remainingServings,
+}: {
+  target: MealSlotDropTarget;
+  entry: MealPlanEntry;
+  onRemove: () => void;
   onUpdateServings?: (newServings: number) => void;
+  onUpdateCookedServings?: (cookedServings: number | null) => void;
+  onPlanLeftovers?: () => void;
+  remainingServings?: number;
+}) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `${target.dayDate}-${target.mealType}-${entry.id}`,
+    data: target,
+  });
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`rounded-xl transition-shadow ${isOver ? 'shadow-[0_-3px_0_0_hsl(var(--primary)/0.5)]' : ''}`}
+    >
+      <DraggableRecipeCard
+        entry={entry}
+        onRemove={onRemove}
+        onUpdateServings={onUpdateServings}
+        onUpdateCookedServings={onUpdateCookedServings}
+        onPlanLeftovers={onPlanLeftovers}
+        remainingServings={remainingServings}
+      />
+    </div>
+  );
 }
 
 export default function MealSlot({
   dayDate,
   mealType,
-  entry,
+  entries,
   onAddRecipe,
   onRemoveRecipe,
   onUpdateServings,
+  onUpdateCookedServings,
+  onPlanLeftovers,
+  remainingServings,
 }: MealSlotProps) {
   const droppableId = `${dayDate}-${mealType}`;
 
   const { setNodeRef, isOver } = useDroppable({
     id: droppableId,
-    data: { dayDate, mealType },
+    data: { dayDate, mealType } satisfies MealSlotDropTarget,
   });
 
   return (
     <div className="flex-1 flex flex-col min-w-0">
       <div
         ref={setNodeRef}
-        className={`flex-1 rounded-xl p-1 transition-all ${
+        className={`flex-1 flex flex-col gap-1.5 rounded-xl p-1 transition-all ${
           isOver
             ? 'bg-primary/10 ring-2 ring-primary/30 scale-[1.02]'
-            : entry
+            : entries.length > 0
               ? ''
               : 'border-2 border-dashed border-border/40 hover:border-border/60 hover:bg-muted/20'
         }`}
       >
-        {entry ? (
-          <DraggableRecipeCard
+        {entries.map((entry, index) => (
+          <SlotEntry
+            key={entry.id}
+            target={{ dayDate, mealType, index }}
             entry={entry}
-            onRemove={onRemoveRecipe}
-            onUpdateServings={onUpdateServings}
+            onRemove={() => onRemoveRecipe(entry.id)}
+            onUpdateServings={onUpdateServings ? (newServings) => onUpdateServings(entry.id, newServings) : undefined}
+            onUpdateCookedServings={
+              onUpdateCookedServings ? (cookedServings) => onUpdateCookedServings(entry.id, cookedServings) : undefined
+            }
+            onPlanLeftovers={onPlanLeftovers ? () => onPlanLeftovers(entry) : undefined}
+            remainingServings={remainingServings?.[entry.id]}
           />
-        ) : (
-          <button
-            onClick={onAddRecipe}
-            className="w-full min-h-[52px] flex items-center justify-center rounded-lg hover:bg-muted/30 transition-colors group"
-          >
-            <div className="flex items-center gap-1.5 text-muted-foreground/40 group-hover:text-muted-foreground/60 transition-colors">
-              <Plus className="h-4 w-4" />
-              <span className="text-xs font-medium hidden sm:inline">Add</span>
-            </div>
-          </button>
-        )}
+        ))}
+        <button
+          onClick={onAddRecipe}
+          className={`w-full flex items-center justify-center rounded-lg hover:bg-muted/30 transition-colors group ${
+            entries.length > 0 ? 'min-h-[28px]' : 'min-h-[52px]'
+          }`}
+        >
+          <div className="flex items-center gap-1.5 text-muted-foreground/40 group-hover:text-muted-foreground/60 transition-colors">
+            <Plus className="h-4 w-4" />
+            <span className="text-xs font-medium hidden sm:inline">{entries.length > 0 ? 'Add dish' : 'Add'}</span>
+          </div>
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,96 @@
+// MonthCalendar.tsx
+// Month view of the meal planner
+// - Whole weeks starting on the user's week start day, covering the month
+// - Each day lists its planned dishes in slot order, with a count of any that don't fit
+// - Days outside the month are dimmed; today and the week open in the planner are highlighted
+// - Read only: picking a day opens its week in the planner for editing
+
+'use client';
+
+import { datesBetween, monthGridRange } from '@/lib/meal-plan';
+import { DayPlan, MealType } from '@/lib/types/meal-plan';
+
+// Dishes shown per day before "+N more"
+const MAX_TITLES_PER_DAY = 3;
+
+interface MonthCalendarProps {
+  monthStart: string; // YYYY-MM-01
+  weekStartDay: number;
+  days: DayPlan[];
+  slots: MealType[];
+  todayStr: string;
+  selectedWeek: string[];
+  onSelectDay: (date: string) => void;
+}
+
+function dayTitles(day: DayPlan | undefined, slots: MealType[]): string[] {
+  if (!day) return [];
+  const order = [...slots, ...Object.keys(day.meals).filter((slot) => !slots.includes(slot))];
+  return order.flatMap((slot) => (day.meals[slot] ?? []).map((entry) => entry.title));
+}
+
+export default function MonthCalendar({
+  monthStart,
+  weekStartDay,
+  days,
+  slots,
+  todayStr,
+  selectedWeek,
+  onSelectDay,
+}: MonthCalendarProps) {
+  const { from, to } = monthGridRange(monthStart, weekStartDay);
+  const dates = datesBetween(from, to);
+  const daysByDate = new Map(days.map((day) => [day.date, day]));
+  const month = monthStart.slice(0, 7);
+
+  return (
+    <div className="bg-background rounded-2xl shadow-sm border border-border/50 overflow-hidden">
+      <div className="grid grid-cols-7 border-b border-border/50 bg-muted/20">
+        {dates.slice(0, 7).map((date) => (
+          <div key={date} className="px-2 py-2 text-center text-xs font-semibold text-muted-foreground">
+            {new Date(date + 'T00:00:00').toLocaleDateString(undefined, { weekday: 'short' })}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 divide-x divide-y divide-border/30">
+        {dates.map((date) => {
+          const titles = dayTitles(daysByDate.get(date), slots);
+          const inMonth = date.startsWith(month);
+          const isToday = date === todayStr;
+          const inSelectedWeek = selectedWeek.includes(date);
+
+          return (
+            <button
+              key={date}
+              onClick={() => onSelectDay(date)}
+              className={`min-h-[96px] p-1.5 text-left align-top transition-colors hover:bg-muted/40 ${
+                inSelectedWeek ? 'bg-primary/[0.05]' : ''
+              } ${inMonth ? '' : 'opacity-50'}`}
+            >
+              <span
+                className={`inline-flex h-6 min-w-6 items-center justify-center rounded-full px-1 text-xs font-semibold ${
+                  isToday ? 'bg-primary text-white' : 'text-foreground'
+                }`}
+              >
+                {Number(date.slice(8))}
+              </span>
+              <ul className="mt-1 space-y-0.5">
+                {titles.slice(0, MAX_TITLES_PER_DAY).map((title, i) => (
+                  <li key={i} className="truncate rounded bg-muted/60 px-1 py-0.5 text-[11px] leading-tight">
+                    {title}
+                  </li>
+                ))}
+              </ul>
+              {titles.length > MAX_TITLES_PER_DAY && (
+                <p className="mt-0.5 text-[11px] text-muted-foreground">
+                  +{titles.length - MAX_TITLES_PER_DAY} more
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Search, Clock, Users, ChefHat, Loader2, ArrowLeft, Check, Heart } from 'lucide-react';
 import { getDiets, getIntolerances } from '@/components/ingredients/Dietary';
 import { authedFetch } from '@/lib/authedFetch';
+import { CUSTOM_RECIPE_MIN_ID } from '@/lib/custom-recipes';
 
 interface Recipe {
   id: number;
@@ -42,7 +43,7 @@ interface SavedRecipe {
 
 const getSavedRecipeImage = (recipe: SavedRecipe) => {
   if (recipe.recipeImage) return recipe.recipeImage;
-  return recipe.recipeId < 100000
+  return recipe.recipeId < CUSTOM_RECIPE_MIN_ID
     ? `https://img.spoonacular.com/recipes/${recipe.recipeId}-636x393.jpg`
     : '';
 };
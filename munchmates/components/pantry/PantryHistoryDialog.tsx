@@ -0,0 +1,139 @@
+// PantryHistoryDialog.tsx
+// Dialog listing recent ledger events (adds, edits, cook deductions, undos) for a pantry item
+// Loads from /api/pantry/history each time it opens
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { authedFetch } from '@/lib/authedFetch';
+import { Loader2, XCircle } from 'lucide-react';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+
+interface PantryEvent {
+    id: number;
+    pantryItemId: number;
+    itemName: string;
+    action: 'add' | 'update' | 'deduct' | 'delete' | 'restore';
+    beforeQuantity: string | null;
+    afterQuantity: string | null;
+    cookEventId: number | null;
+    recipeTitle: string | null;
+    undone: boolean;
+    createdAt: string;
+}
+
+interface PantryHistoryDialogProps {
+    isOpen: boolean;
+    onOpenChange: (open: boolean) => void;
+    item: { id: number; name: string } | null;
+}
+
+const ACTION_LABELS: Record<PantryEvent['action'], string> = {
+    add: 'Added',
+    update: 'Edited',
+    deduct: 'Cooked',
+    delete: 'Removed',
+    restore: 'Restored',
+};
+
+function describeChange(event: PantryEvent): string {
+    if (event.beforeQuantity && event.afterQuantity) {
+        return `${event.beforeQuantity} → ${event.afterQuantity}`;
+    }
+    if (event.afterQuantity) return event.afterQuantity;
+    if (event.beforeQuantity) return `${event.beforeQuantity} → none`;
+    return '';
+}
+
+export default function PantryHistoryDialog({ isOpen, onOpenChange, item }: PantryHistoryDialogProps) {
+    const [events, setEvents] = useState<PantryEvent[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen || !item) {
+            setEvents([]);
+            setError(null);
+            return;
+        }
+
+        const fetchHistory = async () => {
+            setIsLoading(true);
+            try {
+                const res = await authedFetch(`/api/pantry/history?itemId=${item.id}`);
+                if (res.ok) {
+                    const data = await res.json();
+                    setEvents(data.events || []);
+                } else {
+                    setError('Failed to load history');
+                }
+            } catch (err) {
+                console.error('Error fetching pantry history:', err);
+                setError('Failed to load history');
+            } finally {
+                setIsLoading(false);
+            }
+        };
+
+        fetchHistory();
+    }, [isOpen, item]);
+
+    return (
+        <Dialog open={isOpen} onOpenChange={onOpenChange}>
+            <DialogContent className="rounded-2xl max-w-md max-h-[80vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle>{item?.name} history</DialogTitle>
+                    <DialogDescription>Recent changes to this pantry item.</DialogDescription>
+                </DialogHeader>
+
+                {isLoading ? (
+                    <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                    </div>
+                ) : error ? (
+                    <div className="flex items-center gap-2 px-4 py-3 rounded-xl text-sm font-medium bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+                        <XCircle className="h-4 w-4 flex-shrink-0" />
+                        {error}
+                    </div>
+                ) : events.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">No history yet.</p>
+                ) : (
+                    <ul className="space-y-1.5">
+                        {events.map((event) => (
+                            <li key={event.id} className="rounded-xl border px-3 py-2 text-sm">
+                                <div className="flex items-baseline justify-between gap-2">
+                                    <span className="font-medium">
+                                        {ACTION_LABELS[event.action] ?? event.action}
+                                        {event.recipeTitle && (
+                                            <span className="font-normal text-muted-foreground"> · {event.recipeTitle}</span>
+                                        )}
+                                    </span>
+                                    <span className="text-xs text-muted-foreground shrink-0">
+                                        {new Date(event.createdAt).toLocaleString(undefined, {
+                                            month: 'short',
+                                            day: 'numeric',
+                                            hour: 'numeric',
+                                            minute: '2-digit',
+                                        })}
+                                    </span>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {describeChange(event)}
+                                    {event.action === 'deduct' && event.undone && (
+                                        <span className="ml-1.5 text-amber-600">(undone)</span>
+                                    )}
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -4,17 +4,20 @@ Description: Reusable UI banner for displaying API failures and retry action.
 Programmer: Landon Bever
 Date Created: 02-12-2026
 Date Revised: 02-12-2026 - Initial implementation.
+              04-18-2026 - Added offline / pending-sync state for queued offline changes.
 
 Preconditions:
 - "message" must be a display-safe non-empty string.
 - "onRetry" should be a side-effect-safe callback.
 - "isValidation" should be boolean when provided.
+- "syncState" should be "offline" or "pending" when provided; "pendingCount" a non-negative integer.
 - Unacceptable input: sensitive/internal-only text in `message`.
 
 Postconditions:
 - Returns JSX for an accessible alert region containing the error message.
 - If "onRetry" is provided, renders a retry button bound to that callback.
 - Validation errors render amber styling; other errors render red styling.
+- With "syncState", renders a status (not alert) region in sky styling with an offline or syncing icon.
 
 Error / Exception Conditions:
 - Errors may occur only if parent passes invalid props not aligned with TypeScript contract.
@@ -28,7 +31,7 @@ Known Faults: None
 
 */
 
-import { AlertCircle, X } from "lucide-react";
+import { AlertCircle, CloudOff, RefreshCw, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 interface ApiErrorBannerProps { // Define prop contract for the error banner component
@@ -36,24 +39,34 @@ interface ApiErrorBannerProps { // Define prop contract for the error banner com
     onRetry?: () => void;
     onDismiss?: () => void;
     isValidation?: boolean;
+    syncState?: "offline" | "pending"; // Offline, or back online with changes still to sync
+    pendingCount?: number; // Changes waiting in the offline queue
 }
 
-export default function ApiErrorBanner({ message, onRetry, onDismiss, isValidation = false }: ApiErrorBannerProps) { // Render standardized error banner
-    const containerClasses = isValidation
-        ? "border-amber-300 bg-amber-50 text-amber-900"
-        : "border-red-300 bg-red-50 text-red-900";
+export default function ApiErrorBanner({ message, onRetry, onDismiss, isValidation = false, syncState, pendingCount = 0 }: ApiErrorBannerProps) { // Render standardized error banner
+    const containerClasses = syncState
+        ? "border-sky-300 bg-sky-50 text-sky-900"
+        : isValidation
+            ? "border-amber-300 bg-amber-50 text-amber-900"
+            : "border-red-300 bg-red-50 text-red-900";
+    const Icon = syncState === "offline" ? CloudOff : syncState === "pending" ? RefreshCw : AlertCircle; // Pick icon for the banner state
 
     return ( // Return accessible alert UI
-        <div className={`rounded-md border p-3 ${containerClasses}`} role="alert" aria-live="polite">
+        <div className={`rounded-md border p-3 ${containerClasses}`} role={syncState ? "status" : "alert"} aria-live="polite">
             <div className="flex items-start justify-between gap-3">
                 <div className="flex items-start gap-2">
-                    <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
-                    <p className="text-sm font-medium">{message}</p>
+                    <Icon className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                    <p className="text-sm font-medium">
+                        {message}
+                        {syncState && pendingCount > 0 ? ( // Show how many queued changes are waiting
+                            <span className="font-normal"> · {pendingCount} {pendingCount === 1 ? "change" : "changes"} waiting to sync</span>
+                        ) : null}
+                    </p>
                 </div>
                 <div className="flex items-center gap-1 flex-shrink-0">
                     {onRetry && !isValidation ? ( // Hide retry for validation errors since form state hasn't changed
                         <Button type="button" variant="outline" size="sm" onClick={onRetry}>
-                            Retry
+                            {syncState ? "Sync now" : "Retry"}
                         </Button>
                     ) : null}
                     {onDismiss ? ( // Render dismiss button when callback exists
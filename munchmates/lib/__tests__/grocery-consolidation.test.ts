@@ -3,6 +3,7 @@ import {
   consolidateIngredients,
   mergeQuantityStrings,
   parseQuantityString,
+  subtractQuantityString,
 } from "../grocery-consolidation";
 
 describe("consolidateIngredients", () => {
@@ -34,22 +35,22 @@ describe("consolidateIngredients", () => {
 
   it("preserves separate buckets for incompatible or unknown units and drops invalid amounts", () => {
     const result = consolidateIngredients([
-      { name: "Tomatoes", amount: 2, unit: "pieces", category: "Produce", sourceRecipe: "Salad" },
-      { name: "Tomatoes", amount: 400, unit: "g", category: "Produce", sourceRecipe: "Sauce" },
-      { name: "Tomatoes", amount: 0, unit: "cup", category: "Produce", sourceRecipe: "Ignore Me" },
-      { name: "Tomatoes", amount: -1, unit: "cup", category: "Produce", sourceRecipe: "Ignore Me Too" },
+      { name: "Mushrooms", amount: 2, unit: "pieces", category: "Produce", sourceRecipe: "Salad" },
+      { name: "Mushrooms", amount: 400, unit: "g", category: "Produce", sourceRecipe: "Sauce" },
+      { name: "Mushrooms", amount: 0, unit: "cup", category: "Produce", sourceRecipe: "Ignore Me" },
+      { name: "Mushrooms", amount: -1, unit: "cup", category: "Produce", sourceRecipe: "Ignore Me Too" },
     ]);
 
     expect(result).toEqual([
       {
-        name: "Tomatoes",
+        name: "Mushrooms",
         totalAmount: 2,
         unit: "",
         category: "Produce",
         sourceRecipes: ["Salad", "Sauce"],
       },
       {
-        name: "Tomatoes",
+        name: "Mushrooms",
         totalAmount: 14.11,
         unit: "oz",
         category: "Produce",
@@ -57,6 +58,32 @@ describe("consolidateIngredients", () => {
       },
     ]);
   });
+
+  it("folds volume, weight and whole-item amounts into grams when the ingredient has conversion data", () => {
+    const result = consolidateIngredients([
+      { name: "Tomatoes", amount: 2, unit: "", category: "Produce", sourceRecipe: "Salad" },
+      { name: "Tomatoes", amount: 400, unit: "g", category: "Produce", sourceRecipe: "Sauce" },
+      { name: "Flour", amount: 2, unit: "cups", category: "Baking", sourceRecipe: "Bread" },
+      { name: "Flour", amount: 250, unit: "g", category: "Baking", sourceRecipe: "Cake" },
+    ]);
+
+    expect(result).toEqual([
+      {
+        name: "Flour",
+        totalAmount: 1.1,
+        unit: "lb",
+        category: "Baking",
+        sourceRecipes: ["Bread", "Cake"],
+      },
+      {
+        name: "Tomatoes",
+        totalAmount: 1.41,
+        unit: "lb",
+        category: "Produce",
+        sourceRecipes: ["Salad", "Sauce"],
+      },
+    ]);
+  });
 });
 
 describe("quantity string helpers", () => {
@@ -74,4 +101,14 @@ describe("quantity string helpers", () => {
   it("returns the original quantity when the incoming amount is invalid", () => {
     expect(mergeQuantityStrings("1 cup", 0, "cup")).toBe("1 cup");
   });
+
+  it("subtracts an amount from the matching part of a quantity string", () => {
+    expect(subtractQuantityString("1 cup + 3 cloves", 8, "tbsp")).toBe("3 cloves + 8 tbsp");
+    expect(subtractQuantityString("1 cup + 3 cloves", 3, "cloves")).toBe("1 cup");
+    expect(subtractQuantityString("2 lb", 2, "lb")).toBeNull();
+  });
+
+  it("leaves quantities it cannot compare untouched", () => {
+    expect(subtractQuantityString("2 cans", 1, "cup")).toBe("2 cans");
+  });
 });
@@ -0,0 +1,228 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  exportFileName,
+  formatGroceryCsv,
+  formatGroceryHtml,
+  formatGroceryMarkdown,
+  formatGroceryText,
+  formatShareLinkResponse,
+  groupGroceryItems,
+  loadGroceryExportGroups,
+  parseExportFormat,
+  renderGroceryExport,
+  shareLinkExpiry,
+  type GroceryExportGroup,
+  type GroceryExportItem,
+} from "../grocery-export";
+import { GroceryServiceError } from "../grocery-service";
+
+function createItem(overrides: Partial<GroceryExportItem> = {}): GroceryExportItem {
+  return {
+    name: "Milk",
+    quantity: null,
+    category: "Dairy",
+    completed: false,
+    ...overrides,
+  };
+}
+
+const CATEGORIES = [
+  { name: "Produce", sortOrder: 0 },
+  { name: "Dairy", sortOrder: 1 },
+  { name: "Pantry", sortOrder: 2 },
+];
+
+const GROUPS: GroceryExportGroup[] = [
+  {
+    category: "Produce",
+    items: [createItem({ name: "Bananas", quantity: "6", category: "Produce" })],
+  },
+  {
+    category: "Dairy",
+    items: [
+      createItem({ name: "Milk", quantity: "1 gallon" }),
+      createItem({ name: "Butter", completed: true }),
+    ],
+  },
+];
+
+describe("parseExportFormat", () => {
+  it("defaults to text", () => {
+    expect(parseExportFormat(undefined)).toBe("text");
+  });
+
+  it("accepts aliases case-insensitively", () => {
+    expect(parseExportFormat("MD")).toBe("markdown");
+    expect(parseExportFormat("txt")).toBe("text");
+    expect(parseExportFormat("pdf")).toBe("html");
+    expect(parseExportFormat("print")).toBe("html");
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => parseExportFormat("docx")).toThrow(GroceryServiceError);
+    expect(() => parseExportFormat("docx")).toThrow("format must be one of: text, markdown, csv, html");
+  });
+});
+
+describe("groupGroceryItems", () => {
+  it("orders groups by category sortOrder with unknown categories last", () => {
+    const groups = groupGroceryItems(
+      [
+        createItem({ name: "Rice", category: "Pantry" }),
+        createItem({ name: "Soap", category: "Household" }),
+        createItem({ name: "Apples", category: "Produce" }),
+        createItem({ name: "Batteries", category: "Electronics" }),
+        createItem({ name: "Milk", category: "Dairy" }),
+      ],
+      CATEGORIES,
+    );
+
+    expect(groups.map((group) => group.category)).toEqual([
+      "Produce",
+      "Dairy",
+      "Pantry",
+      "Electronics",
+      "Household",
+    ]);
+  });
+
+  it("puts items still to buy before checked-off ones, then sorts by name", () => {
+    const [group] = groupGroceryItems(
+      [
+        createItem({ name: "Yogurt", completed: true }),
+        createItem({ name: "Milk" }),
+        createItem({ name: "Butter", completed: true }),
+        createItem({ name: "Cheese" }),
+      ],
+      CATEGORIES,
+    );
+
+    expect(group.items.map((item) => item.name)).toEqual(["Cheese", "Milk", "Butter", "Yogurt"]);
+  });
+});
+
+describe("loadGroceryExportGroups", () => {
+  it("filters out completed items when asked", async () => {
+    const repo = {
+      groceryItem: { findMany: vi.fn().mockResolvedValue([createItem()]) },
+      groceryCategory: { findMany: vi.fn().mockResolvedValue(CATEGORIES) },
+    };
+
+    const groups = await loadGroceryExportGroups(repo, "user-1", 4, false);
+
+    expect(repo.groceryItem.findMany).toHaveBeenCalledWith({ where: { listId: 4, completed: false } });
+    expect(repo.groceryCategory.findMany).toHaveBeenCalledWith({ where: { userId: "user-1" } });
+    expect(groups).toEqual([{ category: "Dairy", items: [createItem()] }]);
+  });
+});
+
+describe("formatters", () => {
+  it("formats a plain text checklist", () => {
+    expect(formatGroceryText("Weekly", GROUPS)).toBe(
+      "Weekly\n======\n\nPRODUCE\n[ ] 6 Bananas\n\nDAIRY\n[ ] 1 gallon Milk\n[x] Butter\n",
+    );
+  });
+
+  it("formats a Markdown task list and escapes Markdown punctuation", () => {
+    const markdown = formatGroceryMarkdown("Costco *run*", [
+      { category: "Dairy", items: [createItem({ name: "Half_and_half" }), createItem({ name: "Butter", completed: true })] },
+    ]);
+
+    expect(markdown).toBe("# Costco \\*run\\*\n\n## Dairy\n\n- [ ] Half\\_and\\_half\n- [x] Butter\n");
+  });
+
+  it("quotes CSV fields that contain commas, quotes or newlines", () => {
+    const csv = formatGroceryCsv([
+      { category: "Produce", items: [createItem({ name: 'Tomatoes, "heirloom"', quantity: "2 lb", category: "Produce" })] },
+    ]);
+
+    expect(csv).toBe('Category,Item,Quantity,Package,Done\r\nProduce,"Tomatoes, ""heirloom""",2 lb,,no\r\n');
+  });
+
+  it("escapes HTML and marks completed items as checked", () => {
+    const html = formatGroceryHtml("<Party>", [
+      { category: "Snacks", items: [createItem({ name: "Chips & <dip>", completed: true })] },
+    ]);
+
+    expect(html).toContain("<title>&lt;Party&gt;</title>");
+    expect(html).toContain('<input type="checkbox" checked><span>Chips &amp; &lt;dip&gt;</span>');
+    expect(html).not.toContain("<dip>");
+  });
+
+  it("shows the package amount next to the recipe amount", () => {
+    const text = formatGroceryText("Weekly", [
+      { category: "Dairy", items: [createItem({ quantity: "3.38 cup", packageQuantity: "1 gal" })] },
+    ]);
+
+    expect(text).toContain("[ ] 3.38 cup Milk (buy 1 gal)");
+  });
+
+  it("notes the expiry on shared pages", () => {
+    const html = formatGroceryHtml("Weekly", [], {
+      readOnly: true,
+      expiresAt: new Date("2026-04-20T00:00:00.000Z"),
+    });
+
+    expect(html).toContain("Shared read-only list.");
+    expect(html).toContain("Link expires Mon, 20 Apr 2026 00:00:00 GMT.");
+    expect(html).toContain("This list is empty.");
+  });
+
+  it("pairs each format with its content type and extension", () => {
+    const document = renderGroceryExport("csv", "Weekly", GROUPS);
+
+    expect(document.contentType).toBe("text/csv; charset=utf-8");
+    expect(document.extension).toBe("csv");
+    expect(document.body.startsWith("Category,Item,Quantity,Package,Done")).toBe(true);
+  });
+});
+
+describe("exportFileName", () => {
+  it("slugifies the list name", () => {
+    expect(exportFileName("Costco Run!", "md")).toBe("costco-run.md");
+  });
+
+  it("falls back when nothing usable is left", () => {
+    expect(exportFileName("🛒", "txt")).toBe("grocery-list.txt");
+  });
+});
+
+describe("share links", () => {
+  const now = new Date("2026-04-14T12:00:00.000Z");
+
+  it("defaults to a week", () => {
+    expect(shareLinkExpiry(undefined, now).toISOString()).toBe("2026-04-21T12:00:00.000Z");
+  });
+
+  it("accepts a custom number of days", () => {
+    expect(shareLinkExpiry("1", now).toISOString()).toBe("2026-04-15T12:00:00.000Z");
+  });
+
+  it("rejects expiries outside 0 to 30 days", () => {
+    expect(() => shareLinkExpiry(0, now)).toThrow("expiresInDays must be more than 0 and at most 30");
+    expect(() => shareLinkExpiry(31, now)).toThrow(GroceryServiceError);
+    expect(() => shareLinkExpiry("soon", now)).toThrow(GroceryServiceError);
+  });
+
+  it("builds an absolute public URL from the token", () => {
+    const response = formatShareLinkResponse(
+      {
+        id: 3,
+        token: "abc_123",
+        userId: "user-1",
+        listId: 4,
+        expiresAt: new Date("2026-04-21T12:00:00.000Z"),
+        createdAt: now,
+      },
+      "https://munchmates.example",
+    );
+
+    expect(response).toEqual({
+      id: 3,
+      listId: 4,
+      url: "https://munchmates.example/api/grocery/shared/abc_123",
+      expiresAt: "2026-04-21T12:00:00.000Z",
+      createdAt: "2026-04-14T12:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildUpdateOp,
+  createTempId,
+  groceryOpRequest,
+  isRetryableStatus,
+  isTempId,
+  remapQueuedOp,
+} from "../grocery-offline";
+
+const item = {
+  id: 7,
+  name: "Milk",
+  quantity: "1 gallon" as string | null,
+  completed: false,
+  updatedAt: "2026-04-18T09:00:00.000Z",
+};
+
+describe("buildUpdateOp", () => {
+  it("queues only the fields that change, with their previous values", () => {
+    expect(buildUpdateOp(item, { name: "Milk", quantity: "2 gallon", completed: true })).toEqual({
+      kind: "update",
+      itemId: 7,
+      changes: { quantity: "2 gallon", completed: true },
+      base: { quantity: "1 gallon", completed: false },
+      baseUpdatedAt: "2026-04-18T09:00:00.000Z",
+    });
+  });
+});
+
+describe("createTempId", () => {
+  it("hands out distinct negative ids", () => {
+    const first = createTempId();
+    const second = createTempId();
+
+    expect(isTempId(first)).toBe(true);
+    expect(second).not.toBe(first);
+    expect(isTempId(7)).toBe(false);
+  });
+});
+
+describe("remapQueuedOp", () => {
+  it("points changes to an offline item at its server id", () => {
+    const op = buildUpdateOp({ ...item, id: -5 }, { completed: true });
+
+    expect(remapQueuedOp(op, -5, 42)).toMatchObject({ kind: "update", itemId: 42 });
+    expect(remapQueuedOp({ kind: "delete", itemId: 3 }, -5, 42)).toEqual({ kind: "delete", itemId: 3 });
+  });
+});
+
+describe("groceryOpRequest", () => {
+  it("replays edits with the version they were made against", () => {
+    const { url, init } = groceryOpRequest(buildUpdateOp(item, { completed: true }));
+
+    expect(url).toBe("/api/grocery");
+    expect(init.method).toBe("PUT");
+    expect(JSON.parse(String(init.body))).toEqual({
+      id: 7,
+      completed: true,
+      base: { completed: false },
+      baseUpdatedAt: "2026-04-18T09:00:00.000Z",
+    });
+  });
+
+  it("replays adds onto their list and deletes by id", () => {
+    const add = groceryOpRequest({ kind: "add", listId: 3, tempId: -1, body: { name: "Eggs" } });
+
+    expect(add.init.method).toBe("POST");
+    expect(JSON.parse(String(add.init.body))).toEqual({ name: "Eggs", listId: 3 });
+    expect(groceryOpRequest({ kind: "delete", itemId: 9 }).url).toBe("/api/grocery?id=9");
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("retries auth, rate-limit and server errors but not rejected changes", () => {
+    expect([401, 429, 500, 503].every(isRetryableStatus)).toBe(true);
+    expect([400, 404].some(isRetryableStatus)).toBe(false);
+  });
+});
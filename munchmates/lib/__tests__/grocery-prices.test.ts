@@ -0,0 +1,152 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  budgetWeekStart,
+  estimateIngredientCost,
+  lineCost,
+  loadPriceBook,
+  summarizeBudget,
+  summarizeCosts,
+  type PriceBookEntryRecord,
+} from "../grocery-prices";
+
+function createEntry(overrides: Partial<PriceBookEntryRecord> = {}): PriceBookEntryRecord {
+  return {
+    id: 1,
+    userId: "user-1",
+    name: "Milk",
+    canonName: "milk",
+    unitPrice: 3.99,
+    priceUnit: "",
+    updatedAt: new Date("2026-04-10T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+describe("lineCost", () => {
+  it("multiplies a per-item price by a bare count", () => {
+    expect(lineCost({ name: "lemon", quantity: "3", unitPrice: 0.59 })).toBe(1.77);
+  });
+
+  it("charges a per-item price once for a measured quantity", () => {
+    expect(lineCost({ name: "spinach", quantity: "1 bag", unitPrice: 2.49, priceUnit: "" })).toBe(2.49);
+    expect(lineCost({ name: "bread", quantity: null, unitPrice: 2.99 })).toBe(2.99);
+  });
+
+  it("charges per package when the package amount is known", () => {
+    expect(
+      lineCost({ name: "sour cream", quantity: "30 oz", packageQuantity: "2 × 16 oz", unitPrice: 2.5 }),
+    ).toBe(5);
+  });
+
+  it("converts the quantity into the price unit", () => {
+    expect(lineCost({ name: "chicken thigh", quantity: "2 lb + 8 oz", unitPrice: 4, priceUnit: "lb" })).toBe(10);
+    expect(lineCost({ name: "flour", quantity: "500 g", unitPrice: 2, priceUnit: "kg" })).toBe(1);
+  });
+
+  it("returns null without a price or a convertible quantity", () => {
+    expect(lineCost({ name: "milk", quantity: "1 gallon" })).toBeNull();
+    expect(lineCost({ name: "garlic", quantity: "3 cloves", unitPrice: 5, priceUnit: "lb" })).toBeNull();
+    expect(lineCost({ name: "basil", quantity: null, unitPrice: 5, priceUnit: "oz" })).toBeNull();
+  });
+});
+
+describe("summarizeCosts", () => {
+  it("adds up priced lines and counts the rest", () => {
+    expect(
+      summarizeCosts([
+        { name: "lemon", quantity: "3", unitPrice: 0.59 },
+        { name: "milk", quantity: "1 gallon", unitPrice: 3.99 },
+        { name: "salt", quantity: null },
+      ]),
+    ).toEqual({ total: 5.76, pricedCount: 2, unpricedCount: 1 });
+  });
+});
+
+describe("loadPriceBook", () => {
+  it("keys entries by canonical name", async () => {
+    const repo = {
+      priceBookEntry: {
+        findMany: vi.fn().mockResolvedValue([createEntry()]),
+        findUnique: vi.fn(),
+        upsert: vi.fn(),
+      },
+    };
+
+    const book = await loadPriceBook(repo, "user-1");
+
+    expect(repo.priceBookEntry.findMany).toHaveBeenCalledWith({ where: { userId: "user-1" } });
+    expect(book.get("milk")?.unitPrice).toBe(3.99);
+  });
+});
+
+describe("estimateIngredientCost", () => {
+  it("prices ingredients from the price book, rounding per-item prices up to packages", () => {
+    const book = new Map([
+      ["milk", createEntry()],
+      ["onion", createEntry({ name: "Onion", canonName: "onion", unitPrice: 1.5, priceUnit: "lb" })],
+    ]);
+
+    const estimate = estimateIngredientCost(
+      [
+        { name: "milk", amount: 5, unit: "quart" },
+        { name: "onion", amount: 8, unit: "oz" },
+        { name: "saffron", amount: 1, unit: "g" },
+      ],
+      book,
+    );
+
+    // 5 qt of milk is bought as 1 gal + 1 qt, two packages
+    expect(estimate.items).toEqual([
+      { name: "milk", quantity: "5 quart", cost: 7.98 },
+      { name: "onion", quantity: "8 oz", cost: 0.75 },
+      { name: "saffron", quantity: "1 g", cost: null },
+    ]);
+    expect(estimate).toMatchObject({ total: 8.73, pricedCount: 2, unpricedCount: 1 });
+  });
+});
+
+describe("summarizeBudget", () => {
+  const weekStart = new Date("2026-04-13T00:00:00.000Z");
+
+  it("counts this week's purchases and the cart against the budget", () => {
+    const summary = summarizeBudget(
+      [
+        { name: "milk", quantity: "1 gallon", unitPrice: 3.99, completed: true },
+        { name: "lemon", quantity: "4", unitPrice: 0.5, completed: false },
+        { name: "salt", quantity: null, completed: true },
+      ],
+      [12.5, null, 20],
+      100,
+      weekStart,
+    );
+
+    expect(summary).toEqual({
+      weekStart: "2026-04-13T00:00:00.000Z",
+      weeklyBudget: 100,
+      spentThisWeek: 32.5,
+      trip: { total: 3.99, pricedCount: 1, unpricedCount: 1 },
+      list: { total: 5.99, pricedCount: 2, unpricedCount: 1 },
+      remaining: 63.51,
+    });
+  });
+
+  it("leaves remaining empty without a budget", () => {
+    expect(summarizeBudget([], [], null, weekStart).remaining).toBeNull();
+  });
+});
+
+describe("budgetWeekStart", () => {
+  it("goes back to Monday midnight UTC", () => {
+    expect(budgetWeekStart(new Date("2026-04-16T18:30:00.000Z")).toISOString()).toBe("2026-04-13T00:00:00.000Z");
+    expect(budgetWeekStart(new Date("2026-04-13T00:00:00.000Z")).toISOString()).toBe("2026-04-13T00:00:00.000Z");
+  });
+
+  it("keeps Sunday in the week that started the Monday before", () => {
+    expect(budgetWeekStart(new Date("2026-04-19T23:59:00.000Z")).toISOString()).toBe("2026-04-13T00:00:00.000Z");
+  });
+
+  it("starts on the profile's week start day", () => {
+    expect(budgetWeekStart(new Date("2026-04-16T18:30:00.000Z"), 0).toISOString()).toBe("2026-04-12T00:00:00.000Z");
+    expect(budgetWeekStart(new Date("2026-04-18T09:00:00.000Z"), 6).toISOString()).toBe("2026-04-18T00:00:00.000Z");
+  });
+});
@@ -0,0 +1,551 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addGroceryItem,
+  DEFAULT_GROCERY_LIST_NAME,
+  diffMealEntryRetractions,
+  finishShoppingTrip,
+  GroceryServiceError,
+  importGroceryItems,
+  resolveGroceryList,
+  retractMealEntryContributions,
+  undoShoppingTrip,
+  type GroceryItemRecord,
+  type GroceryItemSourceRecord,
+} from "../grocery-service";
+
+function createGroceryItem(overrides: Partial<GroceryItemRecord> = {}): GroceryItemRecord {
+  return {
+    id: 1,
+    userId: "user-1",
+    listId: 3,
+    name: "chicken thigh",
+    quantity: "2 lb",
+    category: "Meat & Seafood",
+    completed: false,
+    fromMealPlan: true,
+    addedAt: new Date("2026-04-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createSource(overrides: Partial<GroceryItemSourceRecord> = {}): GroceryItemSourceRecord {
+  return {
+    id: 1,
+    groceryItemId: 1,
+    mealEntryId: "meal-a",
+    recipeId: 7,
+    recipeTitle: "Chicken Tikka",
+    date: "2026-04-07",
+    mealType: "dinner",
+    amount: 1,
+    unit: "lb",
+    ...overrides,
+  };
+}
+
+function createRepo() {
+  return {
+    user: {
+      upsert: vi.fn().mockResolvedValue(undefined),
+    },
+    groceryItem: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+      upsert: vi.fn(),
+    },
+    groceryItemSource: {
+      createMany: vi.fn(),
+      findMany: vi.fn(),
+      count: vi.fn().mockResolvedValue(0),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    groceryCategory: {
+      findMany: vi.fn().mockResolvedValue([]),
+      createMany: vi.fn(),
+    },
+    pantryItem: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    pantryLot: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    pantryEvent: {
+      create: vi.fn(),
+    },
+    groceryList: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      create: vi.fn(),
+    },
+    categoryCorrection: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    groceryStaple: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+    groceryPurchase: {
+      createMany: vi.fn().mockImplementation(async ({ data }) => ({ count: data.length })),
+      findFirst: vi.fn().mockResolvedValue(null),
+      delete: vi.fn(),
+    },
+    priceBookEntry: {
+      findMany: vi.fn().mockResolvedValue([]),
+      findUnique: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn(),
+    },
+  };
+}
+
+describe("grocery lists", () => {
+  let repo: ReturnType<typeof createRepo>;
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  it("creates the default list the first time a user has none", async () => {
+    const created = { id: 4, userId: "user-1", name: DEFAULT_GROCERY_LIST_NAME, createdAt: new Date() };
+    repo.groceryList.create.mockResolvedValue(created);
+
+    await expect(resolveGroceryList(repo, "user-1", undefined)).resolves.toBe(created);
+    expect(repo.groceryList.findFirst).toHaveBeenCalledWith({
+      where: { userId: "user-1" },
+      orderBy: { id: "asc" },
+    });
+    expect(repo.user.upsert).toHaveBeenCalled();
+  });
+
+  it("only resolves lists owned by the user", async () => {
+    await expect(resolveGroceryList(repo, "user-1", "12")).rejects.toMatchObject({
+      status: 404,
+      message: "List not found",
+    });
+    expect(repo.groceryList.findFirst).toHaveBeenCalledWith({
+      where: { id: 12, userId: "user-1" },
+    });
+  });
+
+  it("rejects malformed list ids", async () => {
+    await expect(resolveGroceryList(repo, "user-1", "abc")).rejects.toBeInstanceOf(GroceryServiceError);
+    expect(repo.groceryList.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("imports into the chosen list only", async () => {
+    repo.groceryItem.create.mockResolvedValue(createGroceryItem({ id: 2, name: "onion" }));
+
+    await importGroceryItems(repo, "user-1", 3, [
+      { name: "onion", totalAmount: 2, unit: "", category: "Produce" },
+    ]);
+
+    expect(repo.groceryItem.findMany).toHaveBeenCalledWith({ where: { listId: 3 } });
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ userId: "user-1", listId: 3, name: "onion", quantity: "2" }),
+    });
+  });
+
+  it("rounds imported amounts up to package sizes alongside the recipe amount", async () => {
+    repo.groceryItem.findMany.mockResolvedValue([
+      createGroceryItem({ id: 6, name: "butter", quantity: "0.25 lb", category: "Dairy" }),
+    ]);
+    repo.groceryItem.create.mockResolvedValue(createGroceryItem({ id: 7, name: "milk" }));
+    repo.groceryItem.update.mockResolvedValue(createGroceryItem({ id: 6, name: "butter" }));
+
+    await importGroceryItems(repo, "user-1", 3, [
+      { name: "milk", totalAmount: 3.38, unit: "cup", category: "Dairy" },
+      { name: "butter", totalAmount: 0.42, unit: "lb", category: "Dairy" },
+    ]);
+
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: "milk", quantity: "3.38 cup", packageQuantity: "1 qt" }),
+    });
+    expect(repo.groceryItem.update).toHaveBeenCalledWith({
+      where: { id: 6 },
+      data: { quantity: "10.72 oz", packageQuantity: "1 lb (4 sticks)", fromMealPlan: true },
+    });
+  });
+
+  it("prices new imported items from the price book", async () => {
+    repo.priceBookEntry.findMany.mockResolvedValue([
+      { id: 1, userId: "user-1", name: "Onion", canonName: "onion", unitPrice: 1.2, priceUnit: "lb", updatedAt: new Date() },
+    ]);
+    repo.groceryItem.create.mockResolvedValue(createGroceryItem({ id: 2, name: "onion" }));
+
+    await importGroceryItems(repo, "user-1", 3, [
+      { name: "onion", totalAmount: 2, unit: "", category: "Produce" },
+      { name: "saffron", totalAmount: 1, unit: "g", category: "Spices" },
+    ]);
+
+    expect(repo.priceBookEntry.findMany).toHaveBeenCalledWith({ where: { userId: "user-1" } });
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: "onion", unitPrice: 1.2, priceUnit: "lb" }),
+    });
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.not.objectContaining({ unitPrice: expect.anything() }),
+    });
+  });
+
+  it("leaves a staple that is already on the list alone", async () => {
+    repo.groceryItem.findMany.mockResolvedValue([
+      createGroceryItem({ id: 5, name: "milk", quantity: "1 gallon", category: "Dairy", fromMealPlan: false }),
+    ]);
+    repo.groceryStaple.findMany.mockResolvedValue([{ canonName: "milk" }]);
+
+    const result = await importGroceryItems(repo, "user-1", 3, [
+      { name: "milk", totalAmount: 2, unit: "cup", category: "Dairy" },
+    ]);
+
+    expect(repo.groceryItem.update).not.toHaveBeenCalled();
+    expect(repo.groceryItem.create).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ addedCount: 0, updatedCount: 0, stapleCount: 1 });
+  });
+
+  it("classifies items added without a category and leaves existing ones alone", async () => {
+    repo.groceryCategory.findMany.mockResolvedValue([{ name: "Produce" }, { name: "Other" }]);
+    repo.groceryItem.upsert.mockResolvedValue(createGroceryItem({ name: "spinach", category: "Produce" }));
+
+    await addGroceryItem(repo, "user-1", 3, { name: "spinach", quantity: "1 bag" });
+
+    expect(repo.groceryItem.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        update: { quantity: "1 bag", packageQuantity: null, category: undefined, fromMealPlan: undefined },
+        create: expect.objectContaining({ name: "spinach", category: "Produce" }),
+      }),
+    );
+  });
+
+  it("fills in the price-book price on new items unless one is given", async () => {
+    repo.priceBookEntry.findUnique.mockResolvedValue({ unitPrice: 3.99, priceUnit: "" });
+    repo.groceryItem.upsert.mockResolvedValue(createGroceryItem({ name: "Milk" }));
+
+    await addGroceryItem(repo, "user-1", 3, { name: "Milk", category: "Dairy" });
+
+    expect(repo.priceBookEntry.findUnique).toHaveBeenCalledWith({
+      where: { userId_canonName: { userId: "user-1", canonName: "milk" } },
+    });
+    expect(repo.groceryItem.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        create: expect.objectContaining({ name: "Milk", unitPrice: 3.99, priceUnit: "" }),
+      }),
+    );
+
+    repo.priceBookEntry.findUnique.mockClear();
+    await addGroceryItem(repo, "user-1", 3, { name: "Milk", category: "Dairy", unitPrice: "4.299", priceUnit: "Each" });
+
+    expect(repo.priceBookEntry.findUnique).not.toHaveBeenCalled();
+    expect(repo.groceryItem.upsert).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        update: expect.objectContaining({ unitPrice: 4.3, priceUnit: "" }),
+        create: expect.objectContaining({ unitPrice: 4.3, priceUnit: "" }),
+      }),
+    );
+  });
+
+  it("rejects negative or non-numeric prices", async () => {
+    await expect(addGroceryItem(repo, "user-1", 3, { name: "Milk", unitPrice: -1 })).rejects.toMatchObject({
+      status: 400,
+      message: "unitPrice must be a number of 0 or more",
+    });
+    await expect(addGroceryItem(repo, "user-1", 3, { name: "Milk", unitPrice: "cheap" })).rejects.toBeInstanceOf(
+      GroceryServiceError,
+    );
+  });
+
+  it("requires a name but not a category", async () => {
+    await expect(addGroceryItem(repo, "user-1", 3, { category: "Produce" })).rejects.toMatchObject({
+      status: 400,
+      message: "Missing required field: name",
+    });
+  });
+});
+
+describe("grocery item provenance", () => {
+  let repo: ReturnType<typeof createRepo>;
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  it("stores only the share of each meal's contribution that went on the list", async () => {
+    repo.pantryItem.findMany.mockResolvedValue([
+      {
+        id: 5,
+        userId: "user-1",
+        name: "chicken thigh",
+        canonName: "chicken thigh",
+        quantity: "1 lb",
+        amount: 1,
+        unit: "lb",
+        category: "Meat & Seafood",
+        expiryDate: null,
+        addedAt: new Date("2026-04-01T00:00:00.000Z"),
+        lots: [],
+      },
+    ]);
+    repo.groceryItem.create.mockResolvedValue(createGroceryItem({ id: 9, quantity: "1 lb" }));
+
+    await importGroceryItems(repo, "user-1", 3, [
+      {
+        name: "chicken thigh",
+        totalAmount: 2,
+        unit: "lb",
+        category: "Meat & Seafood",
+        sources: [
+          { mealEntryId: "meal-a", recipeId: 7, recipeTitle: "Chicken Tikka", date: "2026-04-07", mealType: "dinner", amount: 1.5, unit: "lb" },
+          { mealEntryId: "meal-b", recipeId: 8, recipeTitle: "Stew", date: "2026-04-09", mealType: "lunch", amount: 0.5, unit: "lb" },
+        ],
+      },
+    ]);
+
+    expect(repo.groceryItemSource.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ groceryItemId: 9, mealEntryId: "meal-a", amount: 0.75 }),
+        expect.objectContaining({ groceryItemId: 9, mealEntryId: "meal-b", amount: 0.25 }),
+      ],
+    });
+  });
+
+  it("diffs removed, swapped and scaled-down meals", () => {
+    const previous = [
+      { entryId: "removed", recipeId: 1, date: "2026-04-07", mealType: "lunch", servings: 2 },
+      { entryId: "swapped", recipeId: 2, date: "2026-04-07", mealType: "dinner", servings: 2 },
+      { entryId: "halved", recipeId: 3, date: "2026-04-08", mealType: "dinner", servings: 4 },
+      { entryId: "doubled", recipeId: 4, date: "2026-04-09", mealType: "dinner", servings: 2 },
+    ];
+    const next = [
+      { entryId: "swapped", recipeId: 9, date: "2026-04-07", mealType: "dinner", servings: 2 },
+      { entryId: "halved", recipeId: 3, date: "2026-04-08", mealType: "dinner", servings: 2 },
+      { entryId: "doubled", recipeId: 4, date: "2026-04-09", mealType: "dinner", servings: 4 },
+    ];
+
+    expect(diffMealEntryRetractions(previous, next)).toEqual([
+      { mealEntryId: "removed", factor: 1 },
+      { mealEntryId: "swapped", factor: 1 },
+      { mealEntryId: "halved", factor: 0.5 },
+    ]);
+  });
+
+  it("shrinks the quantity and scales the source when servings drop", async () => {
+    repo.groceryItemSource.findMany.mockResolvedValue([
+      { ...createSource({ amount: 1 }), groceryItem: createGroceryItem() },
+    ]);
+    repo.groceryItemSource.count.mockResolvedValue(1);
+
+    const result = await retractMealEntryContributions(repo, "user-1", [
+      { mealEntryId: "meal-a", factor: 0.5 },
+    ]);
+
+    expect(repo.groceryItemSource.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { amount: 0.5 },
+    });
+    expect(repo.groceryItem.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { quantity: "1.5 lb", packageQuantity: null },
+    });
+    expect(result).toEqual({ updatedCount: 1, removedCount: 0 });
+  });
+
+  it("removes meal-plan items once their last contribution is taken back", async () => {
+    repo.groceryItemSource.findMany.mockResolvedValue([
+      { ...createSource({ amount: 2 }), groceryItem: createGroceryItem() },
+    ]);
+
+    const result = await retractMealEntryContributions(repo, "user-1", [
+      { mealEntryId: "meal-a", factor: 1 },
+    ]);
+
+    expect(repo.groceryItemSource.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    expect(repo.groceryItem.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    expect(result).toEqual({ updatedCount: 0, removedCount: 1 });
+  });
+
+  it("keeps the quantity of items that were already checked off", async () => {
+    repo.groceryItemSource.findMany.mockResolvedValue([
+      { ...createSource({ amount: 2 }), groceryItem: createGroceryItem({ completed: true }) },
+    ]);
+
+    const result = await retractMealEntryContributions(repo, "user-1", [
+      { mealEntryId: "meal-a", factor: 1 },
+    ]);
+
+    expect(repo.groceryItemSource.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    expect(repo.groceryItem.update).not.toHaveBeenCalled();
+    expect(repo.groceryItem.delete).not.toHaveBeenCalled();
+    expect(result).toEqual({ updatedCount: 0, removedCount: 0 });
+  });
+});
+
+describe("shopping trips", () => {
+  let repo: ReturnType<typeof createRepo>;
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  it("moves checked-off items into the pantry with category default expiry", async () => {
+    repo.groceryItem.findMany.mockResolvedValue([
+      createGroceryItem({
+        id: 4,
+        name: "milk",
+        quantity: "1 gallon",
+        category: "Dairy",
+        completed: true,
+        sources: [createSource({ groceryItemId: 4, amount: 1, unit: "gallon" })],
+      }),
+      createGroceryItem({ id: 5, name: "garlic", quantity: "1 cup + 3 cloves", category: "Produce", completed: true }),
+    ]);
+    let nextId = 10;
+    repo.pantryItem.create.mockImplementation(async ({ data }) => ({
+      id: nextId,
+      userId: "user-1",
+      name: data.name,
+      canonName: data.canonName,
+      quantity: data.quantity,
+      amount: data.amount,
+      unit: data.unit,
+      category: data.category,
+      expiryDate: data.expiryDate,
+      addedAt: new Date(),
+      lots: [{ id: nextId++, pantryItemId: 10, ...data.lots.create, addedAt: new Date() }],
+    }));
+
+    const result = await finishShoppingTrip(repo, "user-1", 3, new Date("2026-04-10T12:00:00.000Z"));
+
+    expect(repo.groceryItem.findMany).toHaveBeenCalledWith({
+      where: { listId: 3, completed: true },
+      orderBy: { addedAt: "asc" },
+      include: { sources: { orderBy: { date: "asc" } } },
+    });
+    expect(repo.pantryItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          name: "milk",
+          amount: 1,
+          unit: "gallon",
+          expiryDate: new Date("2026-04-20"),
+        }),
+      }),
+    );
+    expect(result.movedCount).toBe(2);
+    expect(result.added.map((entry) => [entry.name, entry.quantity, entry.expiryDate])).toEqual([
+      ["milk", "1 gallon", "2026-04-20"],
+      ["garlic", "1 cup", "2026-04-17"],
+      ["garlic", "3 cloves", "2026-04-17"],
+    ]);
+    expect(result.added[0].groceryItem.sources).toEqual([
+      expect.objectContaining({ mealEntryId: "meal-a", amount: 1, unit: "gallon" }),
+    ]);
+    expect(repo.groceryItem.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [4, 5] } } });
+    expect(repo.groceryPurchase.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ listId: 3, name: "milk", canonName: "milk", quantity: "1 gallon", category: "Dairy" }),
+        expect.objectContaining({ listId: 3, name: "garlic", quantity: "1 cup + 3 cloves" }),
+      ],
+    });
+  });
+
+  it("puts items back on the list and removes the lots on undo", async () => {
+    repo.pantryItem.findFirst.mockResolvedValue({
+      id: 10,
+      userId: "user-1",
+      name: "milk",
+      canonName: "milk",
+      quantity: "1 gallon",
+      amount: 1,
+      unit: "gallon",
+      category: "Dairy",
+      expiryDate: null,
+      addedAt: new Date(),
+      lots: [{ id: 21, pantryItemId: 10, quantity: "1 gallon", amount: 1, unit: "gallon", expiryDate: null, addedAt: new Date() }],
+    });
+    repo.groceryPurchase.findFirst.mockResolvedValue({ id: 30 });
+    repo.groceryItem.upsert.mockResolvedValue(createGroceryItem({ id: 8, name: "milk", completed: true }));
+
+    const result = await undoShoppingTrip(repo, "user-1", 3, [
+      {
+        groceryItem: {
+          name: "milk",
+          quantity: "1 gallon",
+          category: "Dairy",
+          fromMealPlan: true,
+          sources: [{ mealEntryId: "meal-a", recipeId: 7, recipeTitle: "Pancakes", date: "2026-04-11", mealType: "breakfast", amount: 1, unit: "gallon" }],
+        },
+        pantryItemId: 10,
+        lotId: 21,
+        name: "milk",
+        quantity: "1 gallon",
+        amount: 1,
+        unit: "gallon",
+        expiryDate: null,
+      },
+    ]);
+
+    expect(repo.pantryItem.delete).toHaveBeenCalledWith({ where: { id: 10 } });
+    expect(repo.groceryItem.upsert).toHaveBeenCalledWith({
+      where: { listId_name: { listId: 3, name: "milk" } },
+      update: { quantity: "1 gallon", category: "Dairy", completed: true },
+      create: expect.objectContaining({ listId: 3, name: "milk", completed: true }),
+    });
+    expect(repo.groceryPurchase.findFirst).toHaveBeenCalledWith({
+      where: { userId: "user-1", listId: 3, name: "milk" },
+      orderBy: { purchasedAt: "desc" },
+    });
+    expect(repo.groceryItemSource.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ groceryItemId: 8, mealEntryId: "meal-a", amount: 1, unit: "gallon" })],
+    });
+    expect(repo.groceryPurchase.delete).toHaveBeenCalledWith({ where: { id: 30 } });
+    expect(result).toEqual({ restoredCount: 1, removedLotCount: 1 });
+  });
+
+  it("refuses to undo once a lot from the trip has been partly used", async () => {
+    repo.pantryItem.findFirst.mockResolvedValue({
+      id: 10,
+      userId: "user-1",
+      name: "milk",
+      canonName: "milk",
+      quantity: "0.5 gallon",
+      amount: 0.5,
+      unit: "gallon",
+      category: "Dairy",
+      expiryDate: null,
+      addedAt: new Date(),
+      lots: [{ id: 21, pantryItemId: 10, quantity: "0.5 gallon", amount: 0.5, unit: "gallon", expiryDate: null, addedAt: new Date() }],
+    });
+
+    await expect(
+      undoShoppingTrip(repo, "user-1", 3, [
+        {
+          groceryItem: { name: "milk", quantity: "1 gallon", category: "Dairy", fromMealPlan: false },
+          pantryItemId: 10,
+          lotId: 21,
+          name: "milk",
+          quantity: "1 gallon",
+          amount: 1,
+          unit: "gallon",
+          expiryDate: null,
+        },
+      ]),
+    ).rejects.toMatchObject({ status: 409 });
+    expect(repo.pantryItem.delete).not.toHaveBeenCalled();
+    expect(repo.pantryLot.delete).not.toHaveBeenCalled();
+    expect(repo.groceryItem.upsert).not.toHaveBeenCalled();
+  });
+
+  it("rejects an undo without trip entries", async () => {
+    await expect(undoShoppingTrip(repo, "user-1", 3, undefined)).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  addDueStaples,
+  isStapleDue,
+  lastScheduledDate,
+  replenishStaples,
+  sanitizeStapleInput,
+  stapleParShortfall,
+  type GroceryStapleRecord,
+} from "../grocery-staples";
+import type { GroceryItemRecord } from "../grocery-service";
+import type { PantryItemRecord } from "../pantry-service";
+
+// 2026-04-06 is a Monday
+const MONDAY = 1;
+
+function createStaple(overrides: Partial<GroceryStapleRecord> = {}): GroceryStapleRecord {
+  return {
+    id: 1,
+    userId: "user-1",
+    listId: null,
+    name: "Milk",
+    canonName: "milk",
+    quantity: "1 gallon",
+    category: "Dairy",
+    weekday: null,
+    intervalWeeks: 1,
+    parAmount: null,
+    parUnit: "",
+    lastAddedAt: null,
+    createdAt: new Date("2026-04-01T09:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createPantryItem(overrides: Partial<PantryItemRecord> = {}): PantryItemRecord {
+  return {
+    id: 1,
+    userId: "user-1",
+    name: "Milk",
+    canonName: "milk",
+    quantity: "1 l",
+    amount: 1,
+    unit: "l",
+    category: "Dairy",
+    expiryDate: null,
+    addedAt: new Date("2026-04-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createGroceryItem(overrides: Partial<GroceryItemRecord> = {}): GroceryItemRecord {
+  return {
+    id: 10,
+    userId: "user-1",
+    listId: 3,
+    name: "Milk",
+    quantity: "1 gallon",
+    category: "Dairy",
+    completed: false,
+    fromMealPlan: false,
+    addedAt: new Date("2026-04-06T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createRepo() {
+  return {
+    user: {
+      upsert: vi.fn().mockResolvedValue(undefined),
+    },
+    groceryList: {
+      findFirst: vi.fn().mockResolvedValue({ id: 3, userId: "user-1", name: "Grocery List", createdAt: new Date() }),
+      create: vi.fn(),
+    },
+    groceryStaple: {
+      findMany: vi.fn().mockResolvedValue([]),
+      update: vi.fn().mockResolvedValue(undefined),
+    },
+    groceryItem: {
+      findMany: vi.fn().mockResolvedValue([]),
+      create: vi.fn().mockImplementation(({ data }) => Promise.resolve(createGroceryItem(data))),
+    },
+    pantryItem: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  };
+}
+
+describe("sanitizeStapleInput", () => {
+  it("needs a schedule or a par level", () => {
+    expect(() => sanitizeStapleInput({ name: "Milk" })).toThrowError("A staple needs a weekday or a par level");
+  });
+
+  it("keeps the stored trigger when an update leaves it out", () => {
+    const existing = createStaple({ weekday: MONDAY });
+
+    expect(sanitizeStapleInput({ quantity: "2 gallons" }, existing)).toEqual({ quantity: "2 gallons" });
+    expect(() => sanitizeStapleInput({ weekday: null }, existing)).toThrowError(
+      "A staple needs a weekday or a par level",
+    );
+  });
+
+  it("rejects out-of-range schedules and par levels", () => {
+    expect(() => sanitizeStapleInput({ name: "Milk", weekday: 7 })).toThrowError(/weekday must be/);
+    expect(() => sanitizeStapleInput({ name: "Milk", weekday: 1, intervalWeeks: 0 })).toThrowError(/intervalWeeks/);
+    expect(() => sanitizeStapleInput({ name: "Milk", parAmount: -1 })).toThrowError(/parAmount/);
+  });
+});
+
+describe("staple schedules", () => {
+  it("finds the latest scheduled day on or before now", () => {
+    const staple = createStaple({ weekday: MONDAY });
+
+    expect(lastScheduledDate(staple, new Date("2026-04-05T12:00:00.000Z"))).toBeNull();
+    expect(lastScheduledDate(staple, new Date("2026-04-08T12:00:00.000Z"))).toEqual(
+      new Date("2026-04-06T00:00:00.000Z"),
+    );
+  });
+
+  it("skips the off weeks of a fortnightly schedule", () => {
+    const staple = createStaple({ weekday: MONDAY, intervalWeeks: 2 });
+
+    expect(lastScheduledDate(staple, new Date("2026-04-14T12:00:00.000Z"))).toEqual(
+      new Date("2026-04-06T00:00:00.000Z"),
+    );
+    expect(lastScheduledDate(staple, new Date("2026-04-21T12:00:00.000Z"))).toEqual(
+      new Date("2026-04-20T00:00:00.000Z"),
+    );
+  });
+
+  it("is due once per scheduled day", () => {
+    const now = new Date("2026-04-08T12:00:00.000Z");
+
+    expect(isStapleDue(createStaple({ weekday: MONDAY }), now)).toBe(true);
+    expect(isStapleDue(createStaple({ weekday: MONDAY, lastAddedAt: new Date("2026-04-06T08:00:00.000Z") }), now)).toBe(false);
+  });
+});
+
+describe("stapleParShortfall", () => {
+  it("reports how far below par the pantry is", () => {
+    const staple = createStaple({ parAmount: 2, parUnit: "l" });
+
+    expect(stapleParShortfall(staple, [createPantryItem({ amount: 0.5, quantity: "0.5 l" })])).toBe(1.5);
+    expect(stapleParShortfall(staple, [createPantryItem({ amount: 3, quantity: "3 l" })])).toBeNull();
+  });
+
+  it("treats an empty pantry as fully short", () => {
+    expect(stapleParShortfall(createStaple({ parAmount: 2, parUnit: "l" }), [])).toBe(2);
+  });
+});
+
+describe("adding staples to the list", () => {
+  let repo: ReturnType<typeof createRepo>;
+  const now = new Date("2026-04-08T12:00:00.000Z");
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  it("adds due staples to the default list", async () => {
+    repo.groceryStaple.findMany.mockResolvedValue([createStaple({ weekday: MONDAY })]);
+
+    const added = await addDueStaples(repo, "user-1", now);
+
+    expect(added).toHaveLength(1);
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ listId: 3, name: "Milk", quantity: "1 gallon", category: "Dairy" }),
+    });
+    expect(repo.groceryStaple.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { lastAddedAt: now } });
+  });
+
+  it("never adds a staple that is already on the list", async () => {
+    repo.groceryStaple.findMany.mockResolvedValue([createStaple({ weekday: MONDAY })]);
+    repo.groceryItem.findMany.mockResolvedValue([createGroceryItem({ name: "milk", completed: true })]);
+
+    const added = await addDueStaples(repo, "user-1", now);
+
+    expect(added).toEqual([]);
+    expect(repo.groceryItem.create).not.toHaveBeenCalled();
+    expect(repo.groceryStaple.update).toHaveBeenCalled();
+  });
+
+  it("adds the shortfall when stock drops below par", async () => {
+    repo.groceryStaple.findMany.mockResolvedValue([createStaple({ quantity: null, parAmount: 2, parUnit: "l" })]);
+    repo.pantryItem.findMany.mockResolvedValue([createPantryItem({ amount: 0.5, quantity: "0.5 l" })]);
+
+    const added = await replenishStaples(repo, "user-1", now);
+
+    expect(added).toHaveLength(1);
+    expect(repo.groceryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ name: "Milk", quantity: "1.5 l" }),
+    });
+  });
+
+  it("leaves staples alone while stock is at par", async () => {
+    repo.groceryStaple.findMany.mockResolvedValue([createStaple({ parAmount: 1, parUnit: "l" })]);
+    repo.pantryItem.findMany.mockResolvedValue([createPantryItem()]);
+
+    await expect(replenishStaples(repo, "user-1", now)).resolves.toEqual([]);
+    expect(repo.groceryItem.create).not.toHaveBeenCalled();
+  });
+});
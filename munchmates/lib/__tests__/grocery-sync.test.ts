@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseBaseUpdatedAt, resolveFieldConflicts } from "../grocery-sync";
+import { GroceryServiceError } from "../grocery-service";
+
+const current = { name: "Milk", quantity: "2 gallon", completed: true, unitPrice: null };
+const SERVER_UPDATED = new Date("2026-04-18T10:00:00.000Z");
+
+describe("resolveFieldConflicts", () => {
+  it("applies everything when the item hasn't changed since the edit was made", () => {
+    const changes = { quantity: "1 gallon", completed: false };
+
+    expect(
+      resolveFieldConflicts(current, SERVER_UPDATED, changes, { quantity: "2 gallon" }, SERVER_UPDATED),
+    ).toEqual({ changes, conflicts: [] });
+  });
+
+  it("applies everything for an ordinary online edit", () => {
+    const changes = { quantity: "1 gallon" };
+
+    expect(resolveFieldConflicts(current, SERVER_UPDATED, changes, undefined, null)).toEqual({
+      changes,
+      conflicts: [],
+    });
+  });
+
+  it("keeps fields the server changed since and applies the rest", () => {
+    const result = resolveFieldConflicts(
+      current,
+      SERVER_UPDATED,
+      { quantity: "3 gallon", completed: true, unitPrice: 3.99 },
+      // Offline, the item was "1 gallon" and not checked off yet
+      { quantity: "1 gallon", completed: false, unitPrice: null },
+      new Date("2026-04-18T09:00:00.000Z"),
+    );
+
+    expect(result).toEqual({
+      changes: { unitPrice: 3.99 },
+      conflicts: ["quantity", "completed"],
+    });
+  });
+
+  it("applies fields sent without a base value", () => {
+    const result = resolveFieldConflicts(
+      current,
+      SERVER_UPDATED,
+      { name: "Oat milk", quantity: "1 gallon" },
+      { quantity: "1 gallon" },
+      new Date("2026-04-18T09:00:00.000Z"),
+    );
+
+    expect(result).toEqual({ changes: { name: "Oat milk" }, conflicts: ["quantity"] });
+  });
+});
+
+describe("parseBaseUpdatedAt", () => {
+  it("parses dates and treats missing values as an online edit", () => {
+    expect(parseBaseUpdatedAt("2026-04-18T09:00:00.000Z")?.toISOString()).toBe("2026-04-18T09:00:00.000Z");
+    expect(parseBaseUpdatedAt(undefined)).toBeNull();
+    expect(parseBaseUpdatedAt(null)).toBeNull();
+  });
+
+  it("rejects values that aren't dates", () => {
+    expect(() => parseBaseUpdatedAt("yesterday-ish")).toThrow(GroceryServiceError);
+  });
+});
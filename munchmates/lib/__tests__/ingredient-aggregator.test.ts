@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { aggregateMealPlanIngredients, type RecipeIngredientSource } from "../ingredient-aggregator";
+
+describe("aggregateMealPlanIngredients", () => {
+  const recipes = new Map<number, RecipeIngredientSource>([
+    [1, {
+      title: "Pancakes",
+      ingredients: [
+        { name: "flour", amount: 1, unit: "cup", aisle: "Baking" },
+        { name: "egg", amount: 2, unit: "", aisle: "Milk, Eggs, Other Dairy" },
+        { name: "kosher salt", amount: 1, unit: "pinch" },
+        { name: "maple syrup", amount: 0, unit: "", original: "maple syrup, for serving" },
+      ],
+    }],
+    [100001, {
+      title: "Omelette",
+      ingredients: [{ name: "egg", amount: 3, unit: "" }],
+    }],
+  ]);
+
+  it("scales to planned servings, drops staples and merges across recipes", () => {
+    const result = aggregateMealPlanIngredients(
+      [
+        { recipeId: 1, title: "Pancakes", servings: 4, originalServings: 2 },
+        { recipeId: 100001, title: "Omelette", servings: 1, originalServings: 1 },
+      ],
+      recipes,
+    );
+
+    expect(result).toEqual([
+      { name: "flour", totalAmount: 2, unit: "cup", category: "Baking", sourceRecipes: ["Pancakes"] },
+      { name: "egg", totalAmount: 7, unit: "", category: "Dairy", sourceRecipes: ["Pancakes", "Omelette"] },
+    ]);
+  });
+
+  it("skips entries whose recipe could not be loaded", () => {
+    expect(
+      aggregateMealPlanIngredients([{ recipeId: 99, title: "Missing", servings: 2, originalServings: 2 }], recipes),
+    ).toEqual([]);
+  });
+
+  it("records how much each planned meal contributed in the line's unit", () => {
+    const result = aggregateMealPlanIngredients(
+      [
+        { entryId: "meal-a", date: "2026-04-07", mealType: "breakfast", recipeId: 1, title: "Pancakes", servings: 2, originalServings: 2 },
+        { entryId: "meal-b", date: "2026-04-08", mealType: "dinner", recipeId: 100001, title: "Omelette", servings: 2, originalServings: 1 },
+      ],
+      recipes,
+    );
+
+    const eggs = result.find((item) => item.name === "egg");
+    expect(eggs?.totalAmount).toBe(8);
+    expect(eggs?.sources).toEqual([
+      { mealEntryId: "meal-a", recipeId: 1, recipeTitle: "Pancakes", date: "2026-04-07", mealType: "breakfast", amount: 2, unit: "" },
+      { mealEntryId: "meal-b", recipeId: 100001, recipeTitle: "Omelette", date: "2026-04-08", mealType: "dinner", amount: 6, unit: "" },
+    ]);
+  });
+
+  it("keeps a contribution for each dish planned in the same slot", () => {
+    const result = aggregateMealPlanIngredients(
+      [
+        { entryId: "meal-a", date: "2026-04-07", mealType: "snack", recipeId: 1, title: "Pancakes", servings: 2, originalServings: 2 },
+        { entryId: "meal-b", date: "2026-04-07", mealType: "snack", recipeId: 100001, title: "Omelette", servings: 1, originalServings: 1 },
+      ],
+      recipes,
+    );
+
+    const eggs = result.find((item) => item.name === "egg");
+    expect(eggs?.totalAmount).toBe(5);
+    expect(eggs?.sources?.map((source) => [source.mealEntryId, source.mealType, source.amount])).toEqual([
+      ["meal-a", "snack", 2],
+      ["meal-b", "snack", 3],
+    ]);
+  });
+
+  it("buys the whole batch once and nothing for its leftovers", () => {
+    const result = aggregateMealPlanIngredients(
+      [
+        { entryId: "meal-a", date: "2026-04-05", mealType: "dinner", recipeId: 100001, title: "Omelette", servings: 1, cookedServings: 3, originalServings: 1 },
+        { entryId: "meal-b", date: "2026-04-06", mealType: "lunch", recipeId: 100001, title: "Omelette", servings: 2, originalServings: 1, leftoverOf: "meal-a" },
+      ],
+      recipes,
+    );
+
+    const eggs = result.find((item) => item.name === "egg");
+    expect(eggs?.totalAmount).toBe(9);
+    expect(eggs?.sources?.map((source) => source.mealEntryId)).toEqual(["meal-a"]);
+  });
+});
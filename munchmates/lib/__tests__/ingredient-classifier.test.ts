@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  classifyCanonicalName,
+  classifyIngredient,
+  FALLBACK_CATEGORY,
+  recordCategoryCorrection,
+} from "../ingredient-classifier";
+
+function createRepo() {
+  return {
+    categoryCorrection: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn().mockResolvedValue(undefined),
+      deleteMany: vi.fn().mockResolvedValue(undefined),
+    },
+    groceryCategory: {
+      findMany: vi.fn().mockResolvedValue([]),
+    },
+  };
+}
+
+describe("classifyCanonicalName", () => {
+  it("looks names up in the aisle dictionary", () => {
+    expect(classifyCanonicalName("spinach")).toEqual({
+      canonName: "spinach",
+      category: "Produce",
+      source: "dictionary",
+    });
+  });
+
+  it("prefers the user's correction over the dictionary", () => {
+    const result = classifyCanonicalName("spinach", { corrections: new Map([["spinach", "Frozen"]]) });
+
+    expect(result).toMatchObject({ category: "Frozen", source: "correction" });
+  });
+
+  it("ignores corrections and suggestions outside the user's categories", () => {
+    const options = {
+      categories: ["Dairy", "Other"],
+      corrections: new Map([["spinach", "Frozen"]]),
+    };
+
+    expect(classifyCanonicalName("spinach", options)).toMatchObject({
+      category: FALLBACK_CATEGORY,
+      source: "fallback",
+    });
+  });
+
+  it("falls back to the user's last category when they have no Other", () => {
+    expect(classifyCanonicalName("unobtainium", { categories: ["Dairy", "Misc"] }).category).toBe("Misc");
+  });
+});
+
+describe("classifyIngredient", () => {
+  it("loads the user's correction and categories", async () => {
+    const repo = createRepo();
+    repo.categoryCorrection.findFirst.mockResolvedValue({ category: "Fridge" });
+    repo.groceryCategory.findMany.mockResolvedValue([{ name: "Fridge" }, { name: "Other" }]);
+
+    const result = await classifyIngredient(repo, "user-1", "Spinach");
+
+    expect(repo.categoryCorrection.findFirst).toHaveBeenCalledWith({
+      where: { userId: "user-1", canonName: "spinach" },
+    });
+    expect(result).toMatchObject({ category: "Fridge", source: "correction" });
+  });
+});
+
+describe("recordCategoryCorrection", () => {
+  let repo: ReturnType<typeof createRepo>;
+
+  beforeEach(() => {
+    repo = createRepo();
+  });
+
+  it("remembers a category that differs from the dictionary", async () => {
+    await recordCategoryCorrection(repo, "user-1", "Spinach", "Frozen");
+
+    expect(repo.categoryCorrection.upsert).toHaveBeenCalledWith({
+      where: { userId_canonName: { userId: "user-1", canonName: "spinach" } },
+      update: { category: "Frozen" },
+      create: { userId: "user-1", canonName: "spinach", category: "Frozen" },
+    });
+  });
+
+  it("forgets the correction when the item moves back to the dictionary category", async () => {
+    await recordCategoryCorrection(repo, "user-1", "spinach", "Produce");
+
+    expect(repo.categoryCorrection.deleteMany).toHaveBeenCalledWith({
+      where: { userId: "user-1", canonName: "spinach" },
+    });
+    expect(repo.categoryCorrection.upsert).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, expect, it } from "vitest";
+import type { MealEntryRow } from "../meal-plan";
+import {
+  buildMealPlanCalendar,
+  calendarFeedId,
+  calendarFeedRange,
+  escapeText,
+  foldLine,
+  formatCalendarFeedResponse,
+  mealSlotTime,
+  parseMealTime,
+} from "../meal-plan-calendar";
+import { MealPlanServiceError } from "../meal-plan-service";
+
+function row(overrides: Partial<MealEntryRow>): MealEntryRow {
+  return {
+    date: "2026-04-06",
+    mealType: "dinner",
+    position: 0,
+    entryId: "chili",
+    recipeId: 7,
+    title: "Chili",
+    image: null,
+    servings: 2,
+    originalServings: 4,
+    readyInMinutes: 45,
+    cookedServings: null,
+    leftoverOf: null,
+    ...overrides,
+  };
+}
+
+const slots = [
+  { name: "breakfast", time: null },
+  { name: "lunch", time: "12:00" },
+  { name: "dinner", time: null },
+  { name: "brunch", time: null },
+];
+
+const now = new Date("2026-04-01T09:30:00Z");
+
+// The unfolded lines of each VEVENT, in order
+function events(ics: string): string[][] {
+  const lines = ics.replace(/\r\n /g, "").split("\r\n");
+  const result: string[][] = [];
+  let current: string[] | null = null;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") current = [];
+    else if (line === "END:VEVENT" && current) {
+      result.push(current);
+      current = null;
+    } else if (current) current.push(line);
+  }
+  return result;
+}
+
+describe("buildMealPlanCalendar", () => {
+  it("puts each meal at its slot's time with a reminder to start cooking", () => {
+    const ics = buildMealPlanCalendar({
+      meals: [row({})],
+      slots,
+      feedToken: "feed-token",
+      origin: "https://munchmates.test",
+      now,
+    });
+
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+
+    const [event] = events(ics);
+    expect(event).toContain("UID:chili@munchmates.test");
+    expect(event).toContain("DTSTAMP:20260401T093000Z");
+    expect(event).toContain("DTSTART:20260406T183000");
+    expect(event).toContain("DTEND:20260406T190000");
+    expect(event).toContain("SUMMARY:Dinner: Chili");
+    expect(event).toContain("URL:https://munchmates.test/recipes/7");
+    expect(event).toContain("TRIGGER:-PT45M");
+    expect(event).toContain("DESCRIPTION:Start cooking Chili");
+  });
+
+  it("uses the user's time for a slot and lists meals in slot order", () => {
+    const ics = buildMealPlanCalendar({
+      meals: [row({}), row({ entryId: "soup", title: "Soup", mealType: "lunch" })],
+      slots,
+      feedToken: "feed-token",
+      origin: "https://munchmates.test",
+      now,
+    });
+
+    const [lunch, dinner] = events(ics);
+    expect(lunch).toContain("DTSTART:20260406T120000");
+    expect(dinner).toContain("DTSTART:20260406T183000");
+  });
+
+  it("makes meals in a slot without a time all-day events without a reminder", () => {
+    const [event] = events(
+      buildMealPlanCalendar({
+        meals: [row({ mealType: "brunch" })],
+        slots,
+        feedToken: "feed-token",
+        origin: "https://munchmates.test",
+        now,
+      }),
+    );
+
+    expect(event).toContain("DTSTART;VALUE=DATE:20260406");
+    expect(event).toContain("DTEND;VALUE=DATE:20260407");
+    expect(event.some((line) => line.startsWith("TRIGGER"))).toBe(false);
+  });
+
+  it("marks leftovers and doesn't remind anyone to cook them", () => {
+    const [cooked, leftovers] = events(
+      buildMealPlanCalendar({
+        meals: [
+          row({ cookedServings: 6 }),
+          row({ entryId: "lunch-left", date: "2026-04-07", mealType: "lunch", leftoverOf: "chili" }),
+        ],
+        slots,
+        feedToken: "feed-token",
+        origin: "https://munchmates.test",
+        now,
+      }),
+    );
+
+    expect(cooked.find((line) => line.startsWith("DESCRIPTION:"))).toContain("Cook 6 servings\\; the rest are leftovers");
+    expect(leftovers).toContain("SUMMARY:Lunch: Chili (leftovers)");
+    expect(leftovers.some((line) => line.startsWith("BEGIN:VALARM"))).toBe(false);
+  });
+
+  it("adds an all-day event for the pantry items expiring each day", () => {
+    const expiringItems = [
+      { name: "Spinach", quantity: "1 bag", expiryDate: new Date("2026-04-08T00:00:00Z") },
+      { name: "Milk", quantity: "1 l", expiryDate: new Date("2026-04-08T00:00:00Z") },
+      { name: "Eggs", quantity: "6", expiryDate: new Date("2026-04-10T00:00:00Z") },
+    ];
+    const ics = buildMealPlanCalendar({
+      meals: [],
+      slots,
+      expiringItems,
+      feedToken: "feed-token",
+      origin: "https://munchmates.test",
+      now,
+    });
+    const otherFeed = buildMealPlanCalendar({
+      meals: [],
+      slots,
+      expiringItems,
+      feedToken: "other-feed-token",
+      origin: "https://munchmates.test",
+      now,
+    });
+
+    const [first, second] = events(ics);
+    const uid = `UID:pantry-expiry-2026-04-08-${calendarFeedId("feed-token")}@munchmates.test`;
+    expect(first).toContain(uid);
+    expect(events(otherFeed)[0]).not.toContain(uid);
+    expect(ics).not.toContain("feed-token");
+    expect(first).toContain("DTSTART;VALUE=DATE:20260408");
+    expect(first).toContain("SUMMARY:Use up: Milk\\, Spinach");
+    expect(second).toContain("SUMMARY:Use up: Eggs");
+  });
+
+  it("folds long lines at 75 bytes", () => {
+    const ics = buildMealPlanCalendar({
+      meals: [row({ title: "Slow-cooked beef ragù with pappardelle, parmesan and a lot of fresh basil" })],
+      slots,
+      feedToken: "feed-token",
+      origin: "https://munchmates.test",
+      now,
+    });
+
+    for (const line of ics.split("\r\n")) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(events(ics)[0]).toContain(
+      "SUMMARY:Dinner: Slow-cooked beef ragù with pappardelle\\, parmesan and a lot of fresh basil",
+    );
+  });
+});
+
+describe("escapeText", () => {
+  it("escapes the characters iCalendar text treats specially", () => {
+    expect(escapeText("Mac, cheese; and\\more\nthings")).toBe("Mac\\, cheese\\; and\\\\more\\nthings");
+  });
+});
+
+describe("foldLine", () => {
+  it("leaves short lines alone and never splits a character", () => {
+    expect(foldLine("SUMMARY:Soup")).toBe("SUMMARY:Soup");
+
+    const folded = foldLine("X:" + "é".repeat(60));
+    for (const part of folded.split("\r\n")) {
+      expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe("X:" + "é".repeat(60));
+  });
+});
+
+describe("meal times", () => {
+  it("falls back to the slot's default time, or none for custom slots", () => {
+    expect(mealSlotTime({ name: "breakfast", time: null })).toBe("08:00");
+    expect(mealSlotTime({ name: "breakfast", time: "07:15" })).toBe("07:15");
+    expect(mealSlotTime({ name: "brunch", time: null })).toBeNull();
+  });
+
+  it("accepts 24-hour HH:MM times and null", () => {
+    expect(parseMealTime("06:45")).toBe("06:45");
+    expect(parseMealTime(null)).toBeNull();
+    expect(parseMealTime("")).toBeNull();
+    expect(() => parseMealTime("6:45pm")).toThrow(MealPlanServiceError);
+    expect(() => parseMealTime("24:00")).toThrow(MealPlanServiceError);
+  });
+});
+
+describe("calendar feed links", () => {
+  it("covers the last two weeks and the next two months", () => {
+    expect(calendarFeedRange("2026-04-15")).toEqual({ from: "2026-04-01", to: "2026-06-14" });
+  });
+
+  it("gives an https link and a webcal link for calendar apps", () => {
+    const feed = formatCalendarFeedResponse(
+      { token: "abc_123", includePantryExpiry: true, createdAt: now },
+      "https://munchmates.test",
+    );
+
+    expect(feed).toEqual({
+      url: "https://munchmates.test/api/meal-plan/calendar/abc_123.ics",
+      webcalUrl: "webcal://munchmates.test/api/meal-plan/calendar/abc_123.ics",
+      includePantryExpiry: true,
+      createdAt: "2026-04-01T09:30:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_AVOID_REPEAT_DAYS,
+  fitsDiet,
+  generateMealPlan,
+  parseGeneratorRequest,
+  ruledOutBy,
+  seededRandom,
+  type GeneratorRecipe,
+  type MealPlanGeneratorOptions,
+} from "../meal-plan-generator";
+import { MealPlanServiceError } from "../meal-plan-service";
+
+function recipe(recipeId: number, overrides: Partial<GeneratorRecipe> = {}): GeneratorRecipe {
+  return {
+    recipeId,
+    title: `Recipe ${recipeId}`,
+    servings: 2,
+    readyInMinutes: 30,
+    calories: 600,
+    protein: 30,
+    dishTypes: ["main course"],
+    diets: [],
+    ingredients: ["chicken", "rice"],
+    ingredientKeys: ["chicken", "rice"],
+    ...overrides,
+  };
+}
+
+const WEEK = ["2026-04-06", "2026-04-07", "2026-04-08", "2026-04-09", "2026-04-10", "2026-04-11", "2026-04-12"];
+
+function options(overrides: Partial<MealPlanGeneratorOptions> = {}): MealPlanGeneratorOptions {
+  let id = 0;
+  return {
+    dates: WEEK,
+    slots: ["dinner"],
+    seed: "test-seed",
+    dailyCalories: null,
+    dailyProtein: null,
+    intolerances: [],
+    exclude: [],
+    diet: null,
+    maxReadyInMinutes: {},
+    avoidRepeatDays: DEFAULT_AVOID_REPEAT_DAYS,
+    expiring: [],
+    recentMeals: [],
+    makeId: () => `meal-${++id}`,
+    ...overrides,
+  };
+}
+
+function recipeIds(plan: ReturnType<typeof generateMealPlan>, slot: string): (number | undefined)[] {
+  return plan.days.map((day) => day.meals[slot]?.[0]?.recipeId);
+}
+
+const pool = Array.from({ length: 10 }, (_, i) => recipe(i + 1));
+
+describe("generateMealPlan", () => {
+  it("gives the same plan for the same seed", () => {
+    const first = generateMealPlan(pool, options());
+    const again = generateMealPlan(pool, options());
+
+    expect(again).toEqual(first);
+    expect(recipeIds(first, "dinner").every(Boolean)).toBe(true);
+  });
+
+  it("doesn't depend on the order the recipes come in", () => {
+    expect(generateMealPlan([...pool].reverse(), options())).toEqual(generateMealPlan(pool, options()));
+  });
+
+  it("fills every slot of every day", () => {
+    const plan = generateMealPlan(pool, options({ slots: ["breakfast", "lunch", "dinner"] }));
+
+    for (const day of plan.days) {
+      expect(Object.keys(day.meals)).toEqual(["breakfast", "lunch", "dinner"]);
+      expect(Object.values(day.meals).every((entries) => entries.length === 1)).toBe(true);
+    }
+  });
+
+  it("doesn't repeat a recipe within avoidRepeatDays", () => {
+    const ids = recipeIds(generateMealPlan(pool, options()), "dinner");
+    expect(new Set(ids).size).toBe(7);
+  });
+
+  it("counts meals planned around the week toward repeats", () => {
+    const plan = generateMealPlan(pool.slice(0, 8), options({
+      recentMeals: [{ recipeId: 1, date: "2026-04-05" }],
+    }));
+
+    expect(recipeIds(plan, "dinner")).not.toContain(1);
+  });
+
+  it("repeats the recipe planned longest ago when there aren't enough, and says so", () => {
+    const plan = generateMealPlan(pool.slice(0, 3), options({ dates: WEEK.slice(0, 4) }));
+    const ids = recipeIds(plan, "dinner");
+
+    expect(ids[3]).toBe(ids[0]);
+    expect(plan.warnings[0]).toMatch(/avoid repeats within 7 days/);
+  });
+
+  it("leaves out recipes the user is intolerant of, and excluded ingredients", () => {
+    const recipes = [
+      recipe(1, { ingredients: ["butter", "flour"] }),
+      recipe(2, { ingredients: ["peanut butter", "banana"] }),
+      recipe(3, { ingredients: ["shrimp", "garlic"] }),
+      recipe(4, { ingredients: ["eggplant"] }),
+    ];
+    const plan = generateMealPlan(recipes, options({
+      dates: WEEK.slice(0, 2),
+      intolerances: ["Dairy"],
+      exclude: ["shrimp"],
+    }));
+
+    expect(recipeIds(plan, "dinner").sort()).toEqual([2, 4]);
+  });
+
+  it("keeps to the slot's max readyInMinutes and leaves the slot empty when nothing fits", () => {
+    const recipes = [recipe(1, { readyInMinutes: 90 }), recipe(2, { readyInMinutes: 20 }), recipe(3, { readyInMinutes: null })];
+    const quick = generateMealPlan(recipes, options({
+      dates: WEEK.slice(0, 2),
+      avoidRepeatDays: 0,
+      maxReadyInMinutes: { dinner: 25 },
+    }));
+    expect(recipeIds(quick, "dinner")).toEqual([2, 2]);
+
+    const none = generateMealPlan(recipes, options({ dates: WEEK.slice(0, 1), maxReadyInMinutes: { dinner: 10 } }));
+    expect(none.days[0].meals.dinner).toEqual([]);
+    expect(none.warnings).toContain("Nothing in your recipes fits dinner in 10 minutes or less, so it was left empty.");
+  });
+
+  it("puts recipes in the slots their dish types suit", () => {
+    const recipes = [
+      recipe(1, { dishTypes: ["breakfast"] }),
+      recipe(2, { dishTypes: ["breakfast"] }),
+      recipe(3, { dishTypes: ["main course"] }),
+      recipe(4, { dishTypes: ["main course"] }),
+    ];
+    const plan = generateMealPlan(recipes, options({ dates: WEEK.slice(0, 2), slots: ["breakfast", "dinner"] }));
+
+    expect(recipeIds(plan, "breakfast").sort()).toEqual([1, 2]);
+    expect(recipeIds(plan, "dinner").sort()).toEqual([3, 4]);
+  });
+
+  it("aims for the daily calorie and protein goals", () => {
+    const recipes = [
+      recipe(1, { calories: 300, protein: 10 }),
+      recipe(2, { calories: 1400, protein: 45 }),
+      recipe(3, { calories: 2600, protein: 90 }),
+    ];
+    const plan = generateMealPlan(recipes, options({
+      dates: WEEK.slice(0, 1),
+      dailyCalories: 1500,
+      dailyProtein: 50,
+    }));
+
+    expect(recipeIds(plan, "dinner")).toEqual([2]);
+    expect(plan.dailyTotals).toEqual([{ date: "2026-04-06", calories: 1400, protein: 45 }]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it("says when days can't get near the calorie goal", () => {
+    const plan = generateMealPlan([recipe(1, { calories: 400 })], options({
+      dates: WEEK.slice(0, 1),
+      dailyCalories: 2000,
+    }));
+
+    expect(plan.warnings).toContain("1 day is more than 15% off your 2000 kcal goal with the recipes you have.");
+  });
+
+  it("prefers recipes that use pantry items before they expire", () => {
+    const recipes = [recipe(1), recipe(2, { ingredientKeys: ["spinach", "egg"] }), recipe(3)];
+    const plan = generateMealPlan(recipes, options({
+      dates: WEEK.slice(0, 1),
+      expiring: [{ key: "spinach", name: "Spinach", expiresOn: "2026-04-07" }],
+    }));
+
+    expect(recipeIds(plan, "dinner")).toEqual([2]);
+    expect(plan.usesExpiring).toEqual(["Spinach"]);
+  });
+
+  it("doesn't count a pantry item used after it expires", () => {
+    const plan = generateMealPlan([recipe(2, { ingredientKeys: ["spinach"] })], options({
+      dates: ["2026-04-09"],
+      expiring: [{ key: "spinach", name: "Spinach", expiresOn: "2026-04-07" }],
+    }));
+
+    expect(plan.usesExpiring).toEqual([]);
+  });
+
+  it("plans a serving of the recipe's size, with its details", () => {
+    const plan = generateMealPlan([recipe(5, { image: "chili.jpg", servings: 4, readyInMinutes: 45 })], options({
+      dates: WEEK.slice(0, 1),
+    }));
+
+    expect(plan.days[0].meals.dinner[0]).toEqual({
+      id: "meal-1",
+      recipeId: 5,
+      title: "Recipe 5",
+      image: "chili.jpg",
+      servings: 4,
+      originalServings: 4,
+      readyInMinutes: 45,
+    });
+  });
+});
+
+describe("ruledOutBy", () => {
+  it("matches whole ingredient words, so eggplant isn't an egg", () => {
+    expect(ruledOutBy(recipe(1, { ingredients: ["eggplant"] }), ["Egg"], [])).toBeNull();
+    expect(ruledOutBy(recipe(1, { ingredients: ["2 large eggs"] }), ["Egg"], [])).toBe("Egg");
+    expect(ruledOutBy(recipe(1, { ingredients: ["coconut milk"] }), ["Dairy"], [])).toBeNull();
+    expect(ruledOutBy(recipe(1, { ingredients: ["toasted almonds"] }), ["Tree Nut"], [])).toBe("Tree Nut");
+    expect(ruledOutBy(recipe(1, { ingredients: ["black olives"] }), [], ["olive"])).toBe("olive");
+  });
+});
+
+describe("fitsDiet", () => {
+  it("accepts Spoonacular's labels for the planner's diets", () => {
+    expect(fitsDiet(recipe(1, { diets: ["lacto ovo vegetarian"] }), "Vegetarian")).toBe(true);
+    expect(fitsDiet(recipe(1, { diets: ["lacto ovo vegetarian"] }), "Vegan")).toBe(false);
+    expect(fitsDiet(recipe(1, { diets: [] }), "Paleo")).toBe(false);
+    expect(fitsDiet(recipe(1, { diets: [] }), null)).toBe(true);
+    expect(fitsDiet(recipe(1, { diets: null }), "Vegan")).toBeNull();
+  });
+
+  it("keeps recipes without diet labels, below the ones known to fit, and says so", () => {
+    const labelled = recipe(1, { diets: ["vegan"] });
+    const custom = recipe(100001, { diets: null });
+    const meat = recipe(2, { diets: ["gluten free"] });
+
+    const plan = generateMealPlan([labelled, custom, meat], options({ diet: "Vegan", avoidRepeatDays: 2 }));
+    const ids = recipeIds(plan, "dinner");
+
+    expect(ids).not.toContain(2);
+    expect(ids).toContain(100001);
+    expect(ids.filter((id) => id === 1).length).toBeGreaterThanOrEqual(ids.filter((id) => id === 100001).length);
+    expect(plan.warnings).toContain("Some meals are your own recipes, which have no diet labels; check they're vegan.");
+
+    const known = generateMealPlan([labelled, custom], options({ diet: "Vegan", dates: WEEK.slice(0, 1) }));
+    expect(recipeIds(known, "dinner")).toEqual([1]);
+    expect(known.warnings).toEqual([]);
+  });
+});
+
+describe("seededRandom", () => {
+  it("gives the same numbers for the same seed", () => {
+    const a = seededRandom("abc");
+    const b = seededRandom("abc");
+    const c = seededRandom("abd");
+    const first = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(first);
+    expect([c(), c(), c()]).not.toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+});
+
+describe("parseGeneratorRequest", () => {
+  it("reads the options and fills in defaults", () => {
+    expect(parseGeneratorRequest({
+      seed: "week-15",
+      dailyCalories: "1800",
+      diet: "Vegetarian",
+      exclude: "olives, anchovies",
+      maxReadyInMinutes: { Dinner: "30", lunch: "" },
+      slots: ["Dinner", "lunch", "dinner"],
+    })).toEqual({
+      seed: "week-15",
+      dailyCalories: 1800,
+      diet: "Vegetarian",
+      exclude: ["olives", "anchovies"],
+      maxReadyInMinutes: { dinner: 30 },
+      avoidRepeatDays: DEFAULT_AVOID_REPEAT_DAYS,
+      slots: ["dinner", "lunch"],
+    });
+
+    expect(parseGeneratorRequest({})).toMatchObject({ seed: null, dailyCalories: null, slots: null, exclude: [] });
+  });
+
+  it("rejects bad values", () => {
+    expect(() => parseGeneratorRequest({ dailyCalories: -5 })).toThrow(MealPlanServiceError);
+    expect(() => parseGeneratorRequest({ avoidRepeatDays: 40 })).toThrow(MealPlanServiceError);
+    expect(() => parseGeneratorRequest({ maxReadyInMinutes: { dinner: "soon" } })).toThrow(MealPlanServiceError);
+    expect(() => parseGeneratorRequest({ exclude: [1, 2] })).toThrow(MealPlanServiceError);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import type { MealEntryRow } from "../meal-plan";
+import {
+  leftoverEntry,
+  leftoverWarnings,
+  summarizeLeftovers,
+} from "../meal-plan-leftovers";
+
+function row(overrides: Partial<MealEntryRow>): MealEntryRow {
+  return {
+    date: "2026-04-05",
+    mealType: "dinner",
+    position: 0,
+    entryId: "chili",
+    recipeId: 7,
+    title: "Chili",
+    image: null,
+    servings: 2,
+    originalServings: 4,
+    readyInMinutes: null,
+    cookedServings: null,
+    leftoverOf: null,
+    ...overrides,
+  };
+}
+
+describe("summarizeLeftovers", () => {
+  it("draws the leftovers down from the batch they come from", () => {
+    const batches = summarizeLeftovers([
+      row({ cookedServings: 8 }),
+      row({ entryId: "tue", date: "2026-04-07", mealType: "lunch", servings: 2, leftoverOf: "chili" }),
+      row({ entryId: "mon", date: "2026-04-06", mealType: "lunch", servings: 1, leftoverOf: "chili" }),
+    ]);
+
+    expect(batches).toHaveLength(1);
+    expect(batches[0]).toMatchObject({ entryId: "chili", cookedServings: 8, servings: 2, remainingServings: 3 });
+    expect(batches[0].leftovers.map((leftover) => leftover.entryId)).toEqual(["mon", "tue"]);
+  });
+
+  it("counts a batch without a size as just the servings eaten", () => {
+    const [batch] = summarizeLeftovers([
+      row({}),
+      row({ entryId: "mon", date: "2026-04-06", servings: 1, leftoverOf: "chili" }),
+    ]);
+
+    expect(batch.cookedServings).toBe(2);
+    expect(batch.remainingServings).toBe(-1);
+  });
+
+  it("leaves out meals cooked without extra and leftovers whose batch isn't loaded", () => {
+    expect(
+      summarizeLeftovers([
+        row({ entryId: "soup" }),
+        row({ entryId: "mon", leftoverOf: "elsewhere" }),
+      ]),
+    ).toEqual([]);
+  });
+
+  it("flags leftovers planned before the batch is cooked", () => {
+    const [batch] = summarizeLeftovers([
+      row({ cookedServings: 6 }),
+      row({ entryId: "sat", date: "2026-04-04", servings: 1, leftoverOf: "chili" }),
+    ]);
+
+    expect(batch.leftovers[0].beforeCooking).toBe(true);
+  });
+});
+
+describe("leftoverWarnings", () => {
+  it("warns about overdrawn batches and leftovers eaten too early", () => {
+    const batches = summarizeLeftovers([
+      row({ cookedServings: 4 }),
+      row({ entryId: "sat", date: "2026-04-04", servings: 3, leftoverOf: "chili" }),
+    ]);
+
+    expect(leftoverWarnings(batches)).toEqual([
+      "Chili: 5 servings are planned from a batch of 4. Cook more or plan fewer leftovers.",
+      "Chili: leftovers are planned before it's cooked on 2026-04-05.",
+    ]);
+  });
+
+  it("is quiet while the batch covers everything planned", () => {
+    expect(leftoverWarnings(summarizeLeftovers([row({ cookedServings: 4 })]))).toEqual([]);
+  });
+});
+
+describe("leftoverEntry", () => {
+  it("takes the source's recipe and links back to it", () => {
+    const source = { id: "chili", recipeId: 7, title: "Chili", image: "chili.jpg", servings: 2, originalServings: 4, cookedServings: 8 };
+
+    expect(leftoverEntry(source, 1, "mon")).toEqual({
+      id: "mon",
+      recipeId: 7,
+      title: "Chili",
+      image: "chili.jpg",
+      servings: 1,
+      originalServings: 4,
+      leftoverOf: "chili",
+    });
+  });
+});
@@ -0,0 +1,411 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { addMealEntry, moveMealEntry, removeMealEntry, updateMealEntry } from "../meal-plan";
+import {
+  checkPostedWeeklyPlan,
+  linkLeftoverEntry,
+  MealPlanConflictError,
+  MealPlanServiceError,
+  parseMealEntryInput,
+  parsePlanRange,
+  parsePlanVersion,
+  parseSlotTarget,
+  realignMealPlanWeeks,
+  writeWeeklyPlan,
+  type MealEntryRecord,
+} from "../meal-plan-service";
+
+const WEEK = "2026-04-06";
+
+function createMealEntry(overrides: Partial<MealEntryRecord> = {}): MealEntryRecord {
+  return {
+    id: 1,
+    date: "2026-04-06",
+    mealType: "dinner",
+    position: 0,
+    entryId: "meal-a",
+    recipeId: 7,
+    title: "Chicken Tikka",
+    image: null,
+    servings: 4,
+    originalServings: 4,
+    readyInMinutes: null,
+    cookedServings: null,
+    leftoverOf: null,
+    ...overrides,
+  };
+}
+
+function createRepo(meals: MealEntryRecord[] = [], version = 3) {
+  return {
+    weeklyMealPlan: {
+      findUnique: vi.fn().mockResolvedValue({ id: 10, userId: "user-1", weekStart: WEEK, version, meals }),
+      upsert: vi.fn().mockResolvedValue({ id: 10, userId: "user-1", weekStart: WEEK, version }),
+      updateMany: vi.fn(async ({ where }: { where: { version: number } }) => ({
+        count: where.version === version ? 1 : 0,
+      })),
+    },
+    mealEntry: {
+      findMany: vi.fn().mockResolvedValue(meals),
+      createMany: vi.fn().mockResolvedValue({ count: 0 }),
+      update: vi.fn().mockResolvedValue(undefined),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+      deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+    groceryItem: {
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    groceryItemSource: {
+      findMany: vi.fn().mockResolvedValue([]),
+      count: vi.fn().mockResolvedValue(0),
+      update: vi.fn(),
+      delete: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue({ count: 0 }),
+    },
+  };
+}
+
+describe("writeWeeklyPlan", () => {
+  let repo: ReturnType<typeof createRepo>;
+
+  beforeEach(() => {
+    repo = createRepo([
+      createMealEntry(),
+      createMealEntry({ id: 2, entryId: "meal-b", position: 1, recipeId: 8, title: "Rice", servings: 2 }),
+    ]);
+  });
+
+  it("refuses a stale version and returns the current plan", async () => {
+    const error = await writeWeeklyPlan(repo, "user-1", WEEK, 2, (plan) => plan).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MealPlanConflictError);
+    expect(error.status).toBe(409);
+    expect(error.plan.version).toBe(3);
+    expect(error.plan.days[0].meals.dinner.map((entry: { id: string }) => entry.id)).toEqual(["meal-a", "meal-b"]);
+    expect(repo.mealEntry.update).not.toHaveBeenCalled();
+  });
+
+  it("writes only the entries that changed and returns the next version", async () => {
+    const { plan } = await writeWeeklyPlan(repo, "user-1", WEEK, 3, (current) =>
+      updateMealEntry(current, "meal-b", { servings: 3 }),
+    );
+
+    expect(repo.mealEntry.update).toHaveBeenCalledTimes(1);
+    expect(repo.mealEntry.update).toHaveBeenCalledWith({ where: { id: 2 }, data: { servings: 3 } });
+    expect(repo.mealEntry.createMany).not.toHaveBeenCalled();
+    expect(repo.mealEntry.deleteMany).not.toHaveBeenCalled();
+    expect(plan.version).toBe(4);
+    expect(plan.days[0].meals.dinner[1].servings).toBe(3);
+  });
+
+  it("moves grocery labels along with an entry dragged to another slot", async () => {
+    await writeWeeklyPlan(repo, "user-1", WEEK, 3, (current) =>
+      moveMealEntry(current, "meal-a", { dayDate: "2026-04-08", mealType: "lunch" }),
+    );
+
+    expect(repo.mealEntry.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { date: "2026-04-08", mealType: "lunch" },
+    });
+    // meal-b is now first in dinner
+    expect(repo.mealEntry.update).toHaveBeenCalledWith({ where: { id: 2 }, data: { position: 0 } });
+    expect(repo.groceryItemSource.updateMany).toHaveBeenCalledWith({
+      where: { mealEntryId: "meal-a", groceryItem: { userId: "user-1" } },
+      data: { date: "2026-04-08", mealType: "lunch" },
+    });
+  });
+
+  it("creates added entries and deletes removed ones, taking back their groceries", async () => {
+    await writeWeeklyPlan(repo, "user-1", WEEK, 3, (current) =>
+      addMealEntry(
+        removeMealEntry(current, "meal-a"),
+        { dayDate: "2026-04-07", mealType: "snack" },
+        { id: "meal-c", recipeId: 9, title: "Hummus", servings: 1, originalServings: 2 },
+      ),
+    );
+
+    expect(repo.mealEntry.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [1] } } });
+    expect(repo.mealEntry.createMany).toHaveBeenCalledWith({
+      data: [
+        expect.objectContaining({ mealPlanId: 10, entryId: "meal-c", date: "2026-04-07", mealType: "snack", position: 0 }),
+      ],
+    });
+    expect(repo.groceryItemSource.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { mealEntryId: { in: ["meal-a"] }, groceryItem: { userId: "user-1" } },
+      }),
+    );
+  });
+
+  it("unlinks the leftovers of a removed meal, in this week and others", async () => {
+    repo = createRepo([
+      createMealEntry({ cookedServings: 8 }),
+      createMealEntry({ id: 2, entryId: "meal-b", date: "2026-04-08", mealType: "lunch", servings: 2, leftoverOf: "meal-a" }),
+    ]);
+
+    const { plan } = await writeWeeklyPlan(repo, "user-1", WEEK, 3, (current) => removeMealEntry(current, "meal-a"));
+
+    expect(plan.days[2].meals.lunch[0].leftoverOf).toBeUndefined();
+    expect(repo.mealEntry.update).toHaveBeenCalledWith({ where: { id: 2 }, data: { leftoverOf: null } });
+    expect(repo.mealEntry.updateMany).toHaveBeenCalledWith({
+      where: { leftoverOf: { in: ["meal-a"] }, mealPlanId: { not: 10 }, mealPlan: { userId: "user-1" } },
+      data: { leftoverOf: null },
+    });
+  });
+
+  it("takes back groceries for a smaller batch", async () => {
+    repo = createRepo([createMealEntry({ servings: 2, cookedServings: 8 })]);
+
+    await writeWeeklyPlan(repo, "user-1", WEEK, 3, (current) =>
+      updateMealEntry(current, "meal-a", { cookedServings: 4 }),
+    );
+
+    expect(repo.mealEntry.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { cookedServings: 4 } });
+    expect(repo.groceryItemSource.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { mealEntryId: { in: ["meal-a"] }, groceryItem: { userId: "user-1" } } }),
+    );
+  });
+
+  it("starts a week that was never saved at version 0", async () => {
+    repo = createRepo([], 0);
+
+    const { plan } = await writeWeeklyPlan(repo, "user-1", WEEK, 0, (current) => current);
+
+    expect(repo.weeklyMealPlan.upsert).toHaveBeenCalledWith({
+      where: { userId_weekStart: { userId: "user-1", weekStart: WEEK } },
+      update: {},
+      create: { userId: "user-1", weekStart: WEEK },
+    });
+    expect(plan.version).toBe(1);
+  });
+});
+
+describe("request parsing", () => {
+  it("accepts versions as numbers or query strings", () => {
+    expect(parsePlanVersion(4)).toBe(4);
+    expect(parsePlanVersion("0")).toBe(0);
+    expect(() => parsePlanVersion(undefined)).toThrow(MealPlanServiceError);
+    expect(() => parsePlanVersion("-1")).toThrow(MealPlanServiceError);
+  });
+
+  it("only targets days of the week being planned", () => {
+    expect(parseSlotTarget({ date: "2026-04-12", mealType: " Snack ", index: 1 }, WEEK)).toEqual({
+      dayDate: "2026-04-12",
+      mealType: "snack",
+      index: 1,
+    });
+    expect(() => parseSlotTarget({ date: "2026-04-13", mealType: "lunch" }, WEEK)).toThrow(
+      "date must be a day of the week being planned",
+    );
+  });
+
+  it("fills in an entry's id and original servings", () => {
+    const entry = parseMealEntryInput({ recipeId: 7, title: " Chicken Tikka ", servings: 2 });
+
+    expect(entry).toEqual({
+      id: expect.stringMatching(/^meal-/),
+      recipeId: 7,
+      title: "Chicken Tikka",
+      servings: 2,
+      originalServings: 2,
+    });
+    expect(() => parseMealEntryInput({ recipeId: 7, title: "Tikka", servings: 0 })).toThrow(
+      "entry.servings must be a positive integer",
+    );
+  });
+
+  it("reads batch sizes and leftover links, but not both on one entry", () => {
+    expect(parseMealEntryInput({ recipeId: 7, title: "Chili", servings: 2, cookedServings: 8 }).cookedServings).toBe(8);
+    expect(parseMealEntryInput({ recipeId: 7, title: "Chili", servings: 1, leftoverOf: " meal-a " }).leftoverOf).toBe(
+      "meal-a",
+    );
+    expect(() =>
+      parseMealEntryInput({ recipeId: 7, title: "Chili", servings: 1, cookedServings: 4, leftoverOf: "meal-a" }),
+    ).toThrow(MealPlanServiceError);
+  });
+});
+
+describe("linkLeftoverEntry", () => {
+  const leftover = { id: "meal-l", recipeId: 1, title: "Anything", servings: 2, originalServings: 1, leftoverOf: "meal-a" };
+
+  function createLeftoverRepo(source: MealEntryRecord | null) {
+    return {
+      mealEntry: {
+        findFirst: vi.fn().mockResolvedValue(source),
+        findMany: vi.fn(),
+      },
+    };
+  }
+
+  it("gives the leftover its batch's recipe", async () => {
+    const repo = createLeftoverRepo(createMealEntry({ image: "tikka.jpg", cookedServings: 8 }));
+
+    expect(await linkLeftoverEntry(repo, "user-1", leftover, "2026-04-08")).toEqual({
+      id: "meal-l",
+      recipeId: 7,
+      title: "Chicken Tikka",
+      image: "tikka.jpg",
+      servings: 2,
+      originalServings: 4,
+      leftoverOf: "meal-a",
+    });
+    expect(repo.mealEntry.findFirst).toHaveBeenCalledWith({
+      where: { entryId: "meal-a", mealPlan: { userId: "user-1" } },
+    });
+  });
+
+  it("refuses missing batches, leftovers of leftovers and leftovers eaten before cooking", async () => {
+    await expect(linkLeftoverEntry(createLeftoverRepo(null), "user-1", leftover, "2026-04-08")).rejects.toThrow(
+      "The meal these leftovers come from wasn't found",
+    );
+    await expect(
+      linkLeftoverEntry(createLeftoverRepo(createMealEntry({ leftoverOf: "meal-z" })), "user-1", leftover, "2026-04-08"),
+    ).rejects.toThrow("Leftovers can't come from other leftovers");
+    await expect(
+      linkLeftoverEntry(createLeftoverRepo(createMealEntry()), "user-1", leftover, "2026-04-05"),
+    ).rejects.toThrow("Leftovers can't be planned before the meal is cooked");
+  });
+});
+
+describe("checkPostedWeeklyPlan", () => {
+  const meal = { recipeId: 7, title: "Chicken Tikka", servings: 2, originalServings: 4 };
+
+  function createSourceRepo(stored: MealEntryRecord[] = []) {
+    return { mealEntry: { findMany: vi.fn().mockResolvedValue(stored) } };
+  }
+
+  function leftoverLinks(plan: { days: { meals: Record<string, { id: string; leftoverOf?: string }[]> }[] }) {
+    return plan.days.flatMap((day) => Object.values(day.meals).flat().map((entry) => [entry.id, entry.leftoverOf]));
+  }
+
+  it("keeps leftovers of meals cooked earlier in the week or in another week", async () => {
+    const repo = createSourceRepo([createMealEntry({ entryId: "last-week", date: "2026-04-02" })]);
+    const plan = await checkPostedWeeklyPlan(repo, "user-1", {
+      weekStart: WEEK,
+      days: [
+        { date: "2026-04-06", meals: { dinner: [{ id: "meal-a", ...meal }] } },
+        {
+          date: "2026-04-07",
+          meals: { lunch: [{ id: "meal-b", ...meal, leftoverOf: "meal-a" }, { id: "meal-c", ...meal, leftoverOf: "last-week" }] },
+        },
+      ],
+    });
+
+    expect(leftoverLinks(plan)).toEqual([["meal-a", undefined], ["meal-b", "meal-a"], ["meal-c", "last-week"]]);
+    expect(repo.mealEntry.findMany).toHaveBeenCalledWith({
+      where: { entryId: { in: ["last-week"] }, mealPlan: { userId: "user-1" } },
+    });
+  });
+
+  it("drops links to missing meals, other leftovers and meals cooked later", async () => {
+    const repo = createSourceRepo([createMealEntry({ entryId: "stored-leftover", leftoverOf: "meal-z" })]);
+    const plan = await checkPostedWeeklyPlan(repo, "user-1", {
+      weekStart: WEEK,
+      days: [
+        {
+          date: "2026-04-06",
+          meals: {
+            lunch: [
+              { id: "meal-b", ...meal, leftoverOf: "someone-elses" },
+              { id: "meal-c", ...meal, leftoverOf: "stored-leftover" },
+              { id: "meal-d", ...meal, leftoverOf: "meal-a" },
+            ],
+          },
+        },
+        { date: "2026-04-07", meals: { dinner: [{ id: "meal-a", ...meal }] } },
+      ],
+    });
+
+    expect(leftoverLinks(plan)).toEqual([
+      ["meal-b", undefined],
+      ["meal-c", undefined],
+      ["meal-d", undefined],
+      ["meal-a", undefined],
+    ]);
+  });
+
+  it("refuses days outside the week", async () => {
+    await expect(
+      checkPostedWeeklyPlan(createSourceRepo(), "user-1", {
+        weekStart: WEEK,
+        days: [{ date: "2026-04-13", meals: { dinner: [{ id: "meal-a", ...meal }] } }],
+      }),
+    ).rejects.toThrow("2026-04-13 isn't in the week starting 2026-04-06");
+  });
+});
+
+describe("parsePlanRange", () => {
+  it("reads a week or any range of dates", () => {
+    expect(parsePlanRange({ weekStart: WEEK })).toEqual({ from: WEEK, to: "2026-04-12" });
+    expect(parsePlanRange({ weekStart: null, from: "2026-04-01", to: "2026-04-30" })).toEqual({
+      from: "2026-04-01",
+      to: "2026-04-30",
+    });
+  });
+
+  it("refuses missing, reversed and overlong ranges", () => {
+    expect(() => parsePlanRange({})).toThrow("Pass weekStart, or from and to");
+    expect(() => parsePlanRange({ from: "2026-04-01" })).toThrow("to must be a YYYY-MM-DD date");
+    expect(() => parsePlanRange({ from: "2026-04-10", to: "2026-04-01" })).toThrow("to must not be before from");
+    expect(() => parsePlanRange({ from: "2026-01-01", to: "2026-12-31" })).toThrow(MealPlanServiceError);
+  });
+});
+
+describe("realignMealPlanWeeks", () => {
+  function createWeekRepo(plans: { id: number; weekStart: string; meals: MealEntryRecord[] }[]) {
+    let nextId = 100;
+    return {
+      weeklyMealPlan: {
+        findMany: vi.fn().mockResolvedValue(plans.map((plan) => ({ userId: "user-1", version: 2, ...plan }))),
+        upsert: vi.fn(async ({ create }: { create: { userId: string; weekStart: string } }) => {
+          const existing = plans.find((plan) => plan.weekStart === create.weekStart);
+          return { id: existing?.id ?? nextId++, version: 0, ...create };
+        }),
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+        deleteMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+      mealEntry: {
+        updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+  }
+
+  it("moves each entry into the week it falls in and drops the old weeks", async () => {
+    // Monday weeks switched to Sunday weeks: Sunday the 12th starts a new week
+    const repo = createWeekRepo([
+      {
+        id: 10,
+        weekStart: WEEK,
+        meals: [
+          createMealEntry({ id: 1, date: "2026-04-06" }),
+          createMealEntry({ id: 2, date: "2026-04-11" }),
+          createMealEntry({ id: 3, date: "2026-04-12" }),
+        ],
+      },
+    ]);
+
+    const result = await realignMealPlanWeeks(repo, "user-1", 0);
+
+    expect(result).toEqual({ movedCount: 3 });
+    expect(repo.mealEntry.updateMany).toHaveBeenCalledWith({ where: { id: { in: [1, 2] } }, data: { mealPlanId: 100 } });
+    expect(repo.mealEntry.updateMany).toHaveBeenCalledWith({ where: { id: { in: [3] } }, data: { mealPlanId: 101 } });
+    expect(repo.weeklyMealPlan.upsert.mock.calls.map(([args]) => args.create.weekStart)).toEqual([
+      "2026-04-05",
+      "2026-04-12",
+    ]);
+    expect(repo.weeklyMealPlan.deleteMany).toHaveBeenCalledWith({ where: { id: { in: [10] } } });
+    expect(repo.weeklyMealPlan.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: [100, 101] } },
+      data: { version: { increment: 1 } },
+    });
+  });
+
+  it("leaves weeks that already start on the day alone", async () => {
+    const repo = createWeekRepo([{ id: 10, weekStart: WEEK, meals: [createMealEntry({ date: "2026-04-08" })] }]);
+
+    expect(await realignMealPlanWeeks(repo, "user-1", 1)).toEqual({ movedCount: 0 });
+    expect(repo.mealEntry.updateMany).not.toHaveBeenCalled();
+    expect(repo.weeklyMealPlan.deleteMany).not.toHaveBeenCalled();
+    expect(repo.weeklyMealPlan.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyWeek,
+  copyDay,
+  type MealTemplateEntry,
+  mergeDays,
+  templateDays,
+  templateEntriesFromPlan,
+} from "../meal-plan-templates";
+import { createEmptyWeekPlan, type MealPlanEntry, type WeeklyMealPlan } from "../types/meal-plan";
+
+function entry(id: string, title = id): MealPlanEntry {
+  return { id, recipeId: 1, title, servings: 2, originalServings: 4 };
+}
+
+function templateEntry(overrides: Partial<MealTemplateEntry>): MealTemplateEntry {
+  return {
+    dayOffset: 0,
+    mealType: "dinner",
+    position: 0,
+    recipeId: 1,
+    title: "Roast Chicken",
+    image: null,
+    servings: 2,
+    originalServings: 4,
+    readyInMinutes: null,
+    ...overrides,
+  };
+}
+
+function weekWith(weekStart: string, meals: Record<number, WeeklyMealPlan["days"][number]["meals"]>): WeeklyMealPlan {
+  const plan = createEmptyWeekPlan(new Date(weekStart + "T00:00:00"));
+  return {
+    ...plan,
+    days: plan.days.map((day, i) => ({ ...day, meals: meals[i] ?? {} })),
+  };
+}
+
+describe("templateEntriesFromPlan", () => {
+  it("stores meals by day of the week, slot and position", () => {
+    const plan = weekWith("2026-04-06", {
+      0: { dinner: [entry("a", "Tacos"), entry("b", "Salad")] },
+      3: { lunch: [entry("c", "Soup")] },
+    });
+
+    expect(templateEntriesFromPlan(plan).map(({ dayOffset, mealType, position, title }) => ({
+      dayOffset, mealType, position, title,
+    }))).toEqual([
+      { dayOffset: 0, mealType: "dinner", position: 0, title: "Tacos" },
+      { dayOffset: 0, mealType: "dinner", position: 1, title: "Salad" },
+      { dayOffset: 3, mealType: "lunch", position: 0, title: "Soup" },
+    ]);
+  });
+
+  it("keeps servings and leaves missing details empty", () => {
+    const plan = weekWith("2026-04-06", { 1: { dinner: [entry("a")] } });
+
+    expect(templateEntriesFromPlan(plan)[0]).toMatchObject({
+      servings: 2,
+      originalServings: 4,
+      image: null,
+      readyInMinutes: null,
+    });
+  });
+});
+
+describe("templateDays", () => {
+  it("lays entries over the dates of another week in order", () => {
+    const days = templateDays(
+      [
+        templateEntry({ dayOffset: 6, position: 1, title: "Pie" }),
+        templateEntry({ dayOffset: 6, position: 0, title: "Stew" }),
+        templateEntry({ dayOffset: 2, mealType: "breakfast", title: "Oats", image: "oats.jpg" }),
+      ],
+      "2026-05-04",
+    );
+
+    expect(days.map((day) => day.date)).toEqual(["2026-05-06", "2026-05-10"]);
+    expect(days[0].meals.breakfast?.[0]).toMatchObject({ title: "Oats", image: "oats.jpg" });
+    expect(days[1].meals.dinner?.map((e) => e.title)).toEqual(["Stew", "Pie"]);
+  });
+
+  it("gives every copy a new entry id", () => {
+    const days = templateDays([templateEntry({}), templateEntry({ position: 1 })], "2026-05-04");
+    const ids = days[0].meals.dinner?.map((e) => e.id) ?? [];
+
+    expect(new Set(ids).size).toBe(2);
+    expect(days[0].meals.dinner?.[0]).not.toHaveProperty("image");
+  });
+
+  it("skips offsets outside the week", () => {
+    expect(templateDays([templateEntry({ dayOffset: 7 })], "2026-05-04")).toEqual([]);
+  });
+});
+
+describe("copyDay", () => {
+  it("moves the meals to the new date with new ids", () => {
+    const copy = copyDay({ date: "2026-04-06", meals: { dinner: [entry("a")], lunch: [] } }, "2026-04-08");
+
+    expect(copy.date).toBe("2026-04-08");
+    expect(Object.keys(copy.meals)).toEqual(["dinner"]);
+    expect(copy.meals.dinner?.[0]).toMatchObject({ title: "a", servings: 2, originalServings: 4 });
+    expect(copy.meals.dinner?.[0].id).not.toBe("a");
+  });
+});
+
+describe("mergeDays", () => {
+  const plan = weekWith("2026-04-06", { 1: { dinner: [entry("a")], lunch: [entry("b")] } });
+  const addition = { date: "2026-04-07", meals: { dinner: [entry("c")] } };
+
+  it("adds the new meals after what's planned", () => {
+    const merged = mergeDays(plan, [addition], false);
+
+    expect(merged.days[1].meals.dinner?.map((e) => e.id)).toEqual(["a", "c"]);
+    expect(merged.days[1].meals.lunch?.map((e) => e.id)).toEqual(["b"]);
+  });
+
+  it("replaces the whole day with replace", () => {
+    const merged = mergeDays(plan, [addition], true);
+
+    expect(merged.days[1].meals).toEqual({ dinner: [entry("c")] });
+  });
+
+  it("ignores days outside the plan and leaves the input alone", () => {
+    const merged = mergeDays(plan, [{ date: "2026-05-01", meals: { dinner: [entry("z")] } }], false);
+
+    expect(merged.days).toEqual(plan.days);
+    expect(plan.days[1].meals.dinner).toHaveLength(1);
+  });
+});
+
+describe("applyWeek", () => {
+  const plan = weekWith("2026-04-06", { 0: { dinner: [entry("a")] }, 4: { lunch: [entry("b")] } });
+  const additions = [{ date: "2026-04-06", meals: { dinner: [entry("c")] } }];
+
+  it("keeps what's planned without replace", () => {
+    const applied = applyWeek(plan, additions, false);
+
+    expect(applied.days[0].meals.dinner?.map((e) => e.id)).toEqual(["a", "c"]);
+    expect(applied.days[4].meals.lunch?.map((e) => e.id)).toEqual(["b"]);
+  });
+
+  it("clears the whole week first with replace", () => {
+    const applied = applyWeek(plan, additions, true);
+
+    expect(applied.days[0].meals.dinner?.map((e) => e.id)).toEqual(["c"]);
+    expect(applied.days[4].meals).toEqual({});
+  });
+});
@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  addMealEntry,
+  buildDayPlan,
+  buildDayPlans,
+  buildWeeklyPlan,
+  compareMealOrder,
+  countPlannedMeals,
+  datesBetween,
+  findMealEntry,
+  flattenWeeklyPlan,
+  type MealEntryRow,
+  monthGridRange,
+  moveMealEntry,
+  normalizeDayPlan,
+  normalizeSlotName,
+  planSlots,
+  removeMealEntry,
+  swapMealEntries,
+  updateMealEntry,
+  weekStartOf,
+} from "../meal-plan";
+import { getWeekStart, type MealPlanEntry, type WeeklyMealPlan } from "../types/meal-plan";
+
+function entry(id: string, title = id): MealPlanEntry {
+  return { id, recipeId: 1, title, servings: 2, originalServings: 2 };
+}
+
+function row(overrides: Partial<MealEntryRow>): MealEntryRow {
+  return {
+    date: "2026-04-06",
+    mealType: "dinner",
+    position: 0,
+    entryId: "e1",
+    recipeId: 1,
+    title: "Roast Chicken",
+    image: null,
+    servings: 2,
+    originalServings: 4,
+    readyInMinutes: null,
+    cookedServings: null,
+    leftoverOf: null,
+    ...overrides,
+  };
+}
+
+function plan(days: WeeklyMealPlan["days"]): WeeklyMealPlan {
+  return { weekStart: "2026-04-06", days };
+}
+
+describe("normalizeSlotName", () => {
+  it("lower-cases, trims and collapses whitespace", () => {
+    expect(normalizeSlotName("  Late   Night Snack ")).toBe("late night snack");
+  });
+
+  it("treats missing values as empty", () => {
+    expect(normalizeSlotName(undefined)).toBe("");
+  });
+});
+
+describe("buildWeeklyPlan", () => {
+  it("groups rows into seven days with each slot in position order", () => {
+    const result = buildWeeklyPlan("2026-04-06", [
+      row({ entryId: "side", title: "Salad", position: 1 }),
+      row({ entryId: "main", title: "Roast Chicken", position: 0 }),
+      row({ entryId: "snack", mealType: "snack", date: "2026-04-08" }),
+    ]);
+
+    expect(result.days.map((day) => day.date)).toEqual([
+      "2026-04-06", "2026-04-07", "2026-04-08", "2026-04-09", "2026-04-10", "2026-04-11", "2026-04-12",
+    ]);
+    expect(result.days[0].meals.dinner.map((e) => e.id)).toEqual(["main", "side"]);
+    expect(result.days[2].meals.snack[0].id).toBe("snack");
+    expect(result.days[1].meals).toEqual({});
+  });
+
+  it("round-trips through flattenWeeklyPlan", () => {
+    const rows = [
+      row({ entryId: "main", position: 0 }),
+      row({ entryId: "side", title: "Salad", position: 1 }),
+    ];
+
+    expect(flattenWeeklyPlan(buildWeeklyPlan("2026-04-06", rows))).toEqual(rows);
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month and year ends", () => {
+    expect(addDays("2026-04-27", 7)).toBe("2026-05-04");
+    expect(addDays("2026-01-05", -7)).toBe("2025-12-29");
+  });
+});
+
+describe("weeks starting on any day", () => {
+  it("finds the week a date falls in", () => {
+    // 2026-04-12 is a Sunday
+    expect(weekStartOf("2026-04-12", 1)).toBe("2026-04-06");
+    expect(weekStartOf("2026-04-12", 0)).toBe("2026-04-12");
+    expect(weekStartOf("2026-04-10", 6)).toBe("2026-04-04");
+  });
+
+  it("keeps Sunday in the week that is ending for Monday weeks", () => {
+    const start = getWeekStart(new Date(2026, 3, 12, 18), 1);
+
+    expect([start.getFullYear(), start.getMonth(), start.getDate(), start.getHours()]).toEqual([2026, 3, 6, 0]);
+    expect(getWeekStart(new Date(2026, 3, 12), 0).getDate()).toBe(12);
+  });
+
+  it("lists every date of a range", () => {
+    expect(datesBetween("2026-02-27", "2026-03-02")).toEqual(["2026-02-27", "2026-02-28", "2026-03-01", "2026-03-02"]);
+    expect(datesBetween("2026-03-02", "2026-03-01")).toEqual([]);
+  });
+
+  it("covers a month with whole weeks", () => {
+    // April 2026 runs Wednesday 1st to Thursday 30th
+    expect(monthGridRange("2026-04-01", 1)).toEqual({ from: "2026-03-30", to: "2026-05-03" });
+    expect(monthGridRange("2026-04-01", 0)).toEqual({ from: "2026-03-29", to: "2026-05-02" });
+  });
+});
+
+describe("buildDayPlans", () => {
+  it("gives every date a day and drops rows outside them", () => {
+    const days = buildDayPlans(["2026-04-12", "2026-04-13"], [
+      row({ entryId: "a", date: "2026-04-13" }),
+      row({ entryId: "x", date: "2026-04-20" }),
+    ]);
+
+    expect(days).toEqual([
+      { date: "2026-04-12", meals: {} },
+      { date: "2026-04-13", meals: { dinner: [expect.objectContaining({ id: "a" })] } },
+    ]);
+  });
+});
+
+describe("buildDayPlan", () => {
+  it("keeps only that date's rows, ordered by position", () => {
+    const day = buildDayPlan("2026-04-06", [
+      row({ entryId: "b", position: 1 }),
+      row({ entryId: "a", position: 0 }),
+      row({ entryId: "x", date: "2026-04-07" }),
+    ]);
+
+    expect(day.date).toBe("2026-04-06");
+    expect(day.meals.dinner?.map((e) => e.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("normalizeDayPlan", () => {
+  it("converts a day saved with one entry per fixed slot", () => {
+    const day = normalizeDayPlan({ date: "2026-04-06", breakfast: entry("a"), dinner: entry("b") });
+
+    expect(day).toEqual({ date: "2026-04-06", meals: { breakfast: [entry("a")], dinner: [entry("b")] } });
+  });
+
+  it("drops empty slots from days in the current shape", () => {
+    const day = normalizeDayPlan({ date: "2026-04-06", meals: { lunch: [], snack: [entry("a")] } });
+
+    expect(day.meals).toEqual({ snack: [entry("a")] });
+  });
+});
+
+describe("compareMealOrder", () => {
+  it("orders by day, then slot order, then position", () => {
+    const meals = [
+      { date: "2026-04-07", mealType: "breakfast", position: 0 },
+      { date: "2026-04-06", mealType: "dinner", position: 1 },
+      { date: "2026-04-06", mealType: "brunch", position: 0 },
+      { date: "2026-04-06", mealType: "dinner", position: 0 },
+      { date: "2026-04-06", mealType: "snack", position: 0 },
+    ];
+
+    expect(meals.sort(compareMealOrder(["breakfast", "snack", "dinner"]))).toEqual([
+      { date: "2026-04-06", mealType: "snack", position: 0 },
+      { date: "2026-04-06", mealType: "dinner", position: 0 },
+      { date: "2026-04-06", mealType: "dinner", position: 1 },
+      // Not one of the user's slots any more
+      { date: "2026-04-06", mealType: "brunch", position: 0 },
+      { date: "2026-04-07", mealType: "breakfast", position: 0 },
+    ]);
+  });
+});
+
+describe("planSlots", () => {
+  it("adds removed slots that still have meals after the user's slots", () => {
+    const week = plan([
+      { date: "2026-04-06", meals: { brunch: [entry("a")], tea: [] } },
+      { date: "2026-04-07", meals: { dinner: [entry("b")] } },
+    ]);
+
+    expect(planSlots(week, ["breakfast", "lunch", "dinner"])).toEqual(["breakfast", "lunch", "dinner", "brunch"]);
+  });
+});
+
+describe("countPlannedMeals", () => {
+  it("counts every dish in every slot", () => {
+    const week = plan([
+      { date: "2026-04-06", meals: { dinner: [entry("a"), entry("b")], snack: [entry("c")] } },
+      { date: "2026-04-07", meals: {} },
+    ]);
+
+    expect(countPlannedMeals(week)).toBe(3);
+    expect(countPlannedMeals(null)).toBe(0);
+  });
+});
+
+describe("moveMealEntry", () => {
+  const week = plan([
+    { date: "2026-04-06", meals: { dinner: [entry("a"), entry("b"), entry("c")] } },
+    { date: "2026-04-07", meals: { lunch: [entry("d")] } },
+  ]);
+
+  it("appends to another day's slot", () => {
+    const result = moveMealEntry(week, "b", { dayDate: "2026-04-07", mealType: "lunch" });
+
+    expect(result.days[0].meals.dinner.map((e) => e.id)).toEqual(["a", "c"]);
+    expect(result.days[1].meals.lunch.map((e) => e.id)).toEqual(["d", "b"]);
+  });
+
+  it("inserts before the entry it was dropped on", () => {
+    const result = moveMealEntry(week, "d", { dayDate: "2026-04-06", mealType: "dinner", index: 1 });
+
+    expect(result.days[0].meals.dinner.map((e) => e.id)).toEqual(["a", "d", "b", "c"]);
+    expect(result.days[1].meals.lunch).toEqual([]);
+  });
+
+  it("reorders within a slot", () => {
+    const down = moveMealEntry(week, "a", { dayDate: "2026-04-06", mealType: "dinner", index: 2 });
+    const up = moveMealEntry(week, "c", { dayDate: "2026-04-06", mealType: "dinner", index: 0 });
+
+    expect(down.days[0].meals.dinner.map((e) => e.id)).toEqual(["b", "a", "c"]);
+    expect(up.days[0].meals.dinner.map((e) => e.id)).toEqual(["c", "a", "b"]);
+  });
+
+  it("starts a slot that had nothing planned", () => {
+    const result = moveMealEntry(week, "a", { dayDate: "2026-04-07", mealType: "snack" });
+
+    expect(result.days[1].meals.snack.map((e) => e.id)).toEqual(["a"]);
+  });
+
+  it("leaves the plan alone for an unknown entry or day", () => {
+    expect(moveMealEntry(week, "zz", { dayDate: "2026-04-07", mealType: "lunch" })).toBe(week);
+    expect(moveMealEntry(week, "a", { dayDate: "2026-05-01", mealType: "lunch" })).toBe(week);
+  });
+});
+
+describe("single-entry edits", () => {
+  const week = plan([
+    { date: "2026-04-06", meals: { dinner: [entry("a"), entry("b")] } },
+    { date: "2026-04-07", meals: { lunch: [entry("c")] } },
+  ]);
+
+  it("finds where an entry is planned", () => {
+    expect(findMealEntry(week, "b")).toEqual({ date: "2026-04-06", mealType: "dinner", index: 1, entry: entry("b") });
+    expect(findMealEntry(week, "zz")).toBeNull();
+  });
+
+  it("adds an entry at a position or the end of a slot", () => {
+    const first = addMealEntry(week, { dayDate: "2026-04-06", mealType: "dinner", index: 0 }, entry("d"));
+    const newSlot = addMealEntry(week, { dayDate: "2026-04-07", mealType: "snack" }, entry("d"));
+
+    expect(first.days[0].meals.dinner.map((e) => e.id)).toEqual(["d", "a", "b"]);
+    expect(newSlot.days[1].meals).toEqual({ lunch: [entry("c")], snack: [entry("d")] });
+  });
+
+  it("updates and removes a single entry", () => {
+    expect(updateMealEntry(week, "c", { servings: 5 }).days[1].meals.lunch[0].servings).toBe(5);
+    expect(removeMealEntry(week, "a").days[0].meals.dinner).toEqual([entry("b")]);
+  });
+
+  it("swaps two entries across days", () => {
+    const result = swapMealEntries(week, "a", "c");
+
+    expect(result.days[0].meals.dinner.map((e) => e.id)).toEqual(["c", "b"]);
+    expect(result.days[1].meals.lunch.map((e) => e.id)).toEqual(["a"]);
+  });
+});
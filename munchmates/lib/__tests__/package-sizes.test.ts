@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { formatPackagePlan, packageCount, packageQuantityFor, planPackages } from "../package-sizes";
+
+describe("planPackages", () => {
+  it("rounds a recipe amount up to the smallest package that covers it", () => {
+    const plan = planPackages("milk", 3.38, "cup");
+
+    expect(plan?.packages).toEqual([{ label: "1 qt", amount: 1, count: 1 }]);
+    expect(plan?.totalAmount).toBe(1);
+    expect(plan?.unit).toBe("quart");
+  });
+
+  it("prefers one bigger package when it is cheaper than several small ones", () => {
+    expect(formatPackagePlan(planPackages("milk", 2.5, "quart")!)).toBe("1 gal");
+    expect(formatPackagePlan(planPackages("butter", 0.67, "lb")!)).toBe("1 lb (4 sticks)");
+  });
+
+  it("mixes sizes when that is cheapest", () => {
+    const plan = planPackages("milk", 5, "quart")!;
+
+    expect(formatPackagePlan(plan)).toBe("1 gal + 1 qt");
+    expect(plan.price).toBe(5.78);
+  });
+
+  it("plans huge amounts quickly", () => {
+    const started = performance.now();
+    const plan = planPackages("milk", 16001, "quart")!;
+
+    expect(formatPackagePlan(plan)).toBe("4000 × 1 gal + 1 qt");
+    expect(performance.now() - started).toBeLessThan(50);
+  });
+
+  it("counts repeated packages", () => {
+    expect(formatPackagePlan(planPackages("sour cream", 30, "oz")!)).toBe("2 × 16 oz");
+  });
+
+  it("handles count-based packages", () => {
+    expect(formatPackagePlan(planPackages("egg", 5, "")!)).toBe("6-pack");
+    expect(formatPackagePlan(planPackages("egg", 13, "")!)).toBe("18-pack");
+    expect(formatPackagePlan(planPackages("egg", 1, "dozen")!)).toBe("dozen");
+  });
+
+  it("understands sticks of butter", () => {
+    expect(formatPackagePlan(planPackages("butter", 1, "stick")!)).toBe("½ lb (2 sticks)");
+    expect(formatPackagePlan(planPackages("butter", 3, "sticks")!)).toBe("1 lb (4 sticks)");
+  });
+
+  it("returns null for ingredients without package sizes or amounts it can't convert", () => {
+    expect(planPackages("saffron", 1, "g")).toBeNull();
+    expect(planPackages("milk", 2, "clove")).toBeNull();
+    expect(planPackages("milk", 0, "cup")).toBeNull();
+  });
+});
+
+describe("packageQuantityFor", () => {
+  it("adds up every part of a list quantity", () => {
+    expect(packageQuantityFor("milk", "6 cup + 2 tbsp")).toBe("½ gal");
+  });
+
+  it("gives up when any part can't be converted", () => {
+    expect(packageQuantityFor("milk", "1 cup + 2 clove")).toBeNull();
+  });
+
+  it("ignores missing or unparseable quantities", () => {
+    expect(packageQuantityFor("milk", null)).toBeNull();
+    expect(packageQuantityFor("milk", "a splash")).toBeNull();
+  });
+});
+
+describe("packageCount", () => {
+  it("counts every package in a plan", () => {
+    expect(packageCount("1 gal")).toBe(1);
+    expect(packageCount("1 gal + 1 qt")).toBe(2);
+    expect(packageCount("3 × 16 oz + 8 oz")).toBe(4);
+  });
+});
@@ -1,12 +1,22 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import {
+  addLeftoversToPantry,
   addPantryItem,
+  applyLotDeduction,
+  computePantryShortfalls,
   deletePantryItem,
+  deletePantryLot,
+  formatPantryEventResponse,
   formatPantryItemResponse,
   matchPantryIngredients,
   PantryServiceError,
+  planLotDeduction,
   sanitizePantryQuantity,
+  snapshotPantryItem,
+  summarizePantryLots,
+  undoCookEvent,
   type PantryItemRecord,
+  type PantryLotRecord,
   updatePantryItem,
 } from "../pantry-service";
 
@@ -26,6 +36,19 @@ function createPantryItem(overrides: Partial<PantryItemRecord> = {}): PantryItem
   };
 }
 
+function createLot(overrides: Partial<PantryLotRecord> = {}): PantryLotRecord {
+  return {
+    id: 1,
+    pantryItemId: 1,
+    quantity: "1 l",
+    amount: 1,
+    unit: "l",
+    expiryDate: null,
+    addedAt: new Date("2026-04-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
 function createRepo() {
   return {
     user: {
@@ -37,6 +60,29 @@ function createRepo() {
       create: vi.fn(),
       update: vi.fn(),
       delete: vi.fn().mockResolvedValue(undefined),
+      deleteMany: vi.fn().mockResolvedValue(undefined),
+    },
+    pantryLot: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+      deleteMany: vi.fn().mockResolvedValue(undefined),
+    },
+    pantryEvent: {
+      create: vi.fn().mockResolvedValue(undefined),
+    },
+    cookEvent: {
+      findFirst: vi.fn(),
+      update: vi.fn().mockResolvedValue(undefined),
+    },
+    categoryCorrection: {
+      findFirst: vi.fn().mockResolvedValue(null),
+      upsert: vi.fn().mockResolvedValue(undefined),
+      deleteMany: vi.fn().mockResolvedValue(undefined),
+    },
+    groceryCategory: {
+      findMany: vi.fn().mockResolvedValue([]),
     },
   };
 }
@@ -92,35 +138,61 @@ describe("pantry-service add and update", () => {
         quantity: "2 cups",
         amount: 2,
         unit: "cups",
+        lots: { create: expect.objectContaining({ quantity: "2 cups", amount: 2, unit: "cups" }) },
       }),
+      include: { lots: true },
     });
     expect(result).toBe(createdItem);
   });
 
-  it("updates an existing pantry item when a duplicate canonical name is added", async () => {
+  it("adds a new lot when a duplicate canonical name is added", async () => {
     const repo = createRepo();
-    const existing = createPantryItem({ id: 7, name: "Eggs", canonName: "egg" });
-    const updated = createPantryItem({ id: 7, quantity: "18", amount: 18, category: "Protein" });
+    const existingLot = createLot({
+      id: 10,
+      pantryItemId: 7,
+      quantity: "12",
+      amount: 12,
+      unit: "",
+      expiryDate: new Date("2026-04-20T00:00:00.000Z"),
+    });
+    const existing = createPantryItem({ id: 7, name: "Eggs", canonName: "egg", lots: [existingLot] });
+    const newLot = createLot({
+      id: 11,
+      pantryItemId: 7,
+      quantity: "18",
+      amount: 18,
+      unit: "",
+      expiryDate: new Date("2026-04-10T00:00:00.000Z"),
+      addedAt: new Date("2026-04-05T00:00:00.000Z"),
+    });
+    const updated = createPantryItem({ id: 7, quantity: "30", amount: 30, category: "Protein" });
 
     repo.pantryItem.findFirst.mockResolvedValue(existing);
+    repo.pantryLot.create.mockResolvedValue(newLot);
     repo.pantryItem.update.mockResolvedValue(updated);
 
     const result = await addPantryItem(repo, "user-1", {
       name: " eggs ",
       category: " Protein ",
       quantity: "18",
+      expiryDate: "2026-04-10",
     });
 
     expect(repo.pantryItem.create).not.toHaveBeenCalled();
+    expect(repo.pantryLot.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ pantryItemId: 7, quantity: "18", amount: 18, unit: "" }),
+    });
     expect(repo.pantryItem.update).toHaveBeenCalledWith({
       where: { id: 7 },
       data: expect.objectContaining({
         canonName: "egg",
-        quantity: "18",
-        amount: 18,
+        quantity: "30",
+        amount: 30,
         unit: "",
         category: "Protein",
+        expiryDate: new Date("2026-04-10T00:00:00.000Z"),
       }),
+      include: { lots: true },
     });
     expect(result).toBe(updated);
   });
@@ -146,21 +218,110 @@ describe("pantry-service add and update", () => {
         canonName: "bread flour",
         category: "Pantry",
       },
+      include: { lots: true },
+    });
+    expect(repo.pantryLot.update).not.toHaveBeenCalled();
+    expect(repo.categoryCorrection.upsert).toHaveBeenCalledWith({
+      where: { userId_canonName: { userId: "user-1", canonName: "bread flour" } },
+      update: { category: "Pantry" },
+      create: { userId: "user-1", canonName: "bread flour", category: "Pantry" },
     });
     expect(result).toBe(updated);
   });
 
+  it("classifies a new item added without a category", async () => {
+    const repo = createRepo();
+    repo.pantryItem.findFirst.mockResolvedValue(null);
+    repo.pantryItem.create.mockResolvedValue(createPantryItem());
+    repo.groceryCategory.findMany.mockResolvedValue([{ name: "Dairy" }, { name: "Other" }]);
+
+    await addPantryItem(repo, "user-1", { name: "Eggs", quantity: "12" });
+
+    expect(repo.pantryItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ category: "Dairy" }) }),
+    );
+  });
+
+  it("adds leftovers in servings with a short expiry", async () => {
+    const repo = createRepo();
+    repo.pantryItem.findFirst.mockResolvedValue(null);
+    repo.pantryItem.create.mockResolvedValue(createPantryItem());
+
+    await addLeftoversToPantry(repo, "user-1", { recipeTitle: " Chili ", servings: 6 }, new Date("2026-04-05T19:00:00Z"));
+
+    expect(repo.pantryItem.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          name: "Chili (leftovers)",
+          amount: 6,
+          unit: "servings",
+          category: "Leftovers",
+          expiryDate: new Date("2026-04-09T19:00:00Z"),
+        }),
+      }),
+    );
+    await expect(addLeftoversToPantry(repo, "user-1", { recipeTitle: "Chili", servings: 0 })).rejects.toThrow(
+      "servings must be a positive integer",
+    );
+  });
+
+  it("keeps an existing item's category when none is supplied", async () => {
+    const repo = createRepo();
+    const existing = createPantryItem({ id: 7, category: "Fridge", lots: [createLot({ pantryItemId: 7, quantity: "6", amount: 6, unit: "" })] });
+    repo.pantryItem.findFirst.mockResolvedValue(existing);
+    repo.pantryLot.create.mockResolvedValue(createLot({ id: 2, pantryItemId: 7, quantity: "6", amount: 6, unit: "" }));
+    repo.pantryItem.update.mockResolvedValue(existing);
+
+    await addPantryItem(repo, "user-1", { name: "Eggs", quantity: "6" });
+
+    expect(repo.pantryItem.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: expect.objectContaining({ category: "Fridge" }) }),
+    );
+    expect(repo.categoryCorrection.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("edits a single lot when a lotId is supplied", async () => {
+    const repo = createRepo();
+    const lots = [
+      createLot({ id: 20, pantryItemId: 3, quantity: "1 l", amount: 1, unit: "l" }),
+      createLot({ id: 21, pantryItemId: 3, quantity: "500 ml", amount: 500, unit: "ml" }),
+    ];
+    repo.pantryItem.findFirst.mockResolvedValue(createPantryItem({ id: 3, lots }));
+    repo.pantryLot.update.mockResolvedValue({ ...lots[1], quantity: "250 ml", amount: 250 });
+    repo.pantryItem.update.mockResolvedValue(createPantryItem({ id: 3 }));
+
+    await updatePantryItem(repo, "user-1", { id: 3, lotId: 21, amount: 250, unit: "ml" });
+
+    expect(repo.pantryLot.update).toHaveBeenCalledWith({
+      where: { id: 21 },
+      data: { quantity: "250 ml", amount: 250, unit: "ml" },
+    });
+    expect(repo.pantryItem.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: expect.objectContaining({ quantity: "1.25 l", amount: 1.25, unit: "l" }),
+      include: { lots: true },
+    });
+  });
+
   it("rejects updates for missing pantry items", async () => {
     const repo = createRepo();
     repo.pantryItem.findFirst.mockResolvedValue(null);
 
-    await expect(
-      updatePantryItem(repo, "user-1", { id: 999, quantity: "1 cup" }),
-    ).rejects.toMatchObject({
+    const update = updatePantryItem(repo, "user-1", { id: 999, quantity: "1 cup" });
+
+    await expect(update).rejects.toBeInstanceOf(PantryServiceError);
+    await expect(update).rejects.toMatchObject({
       status: 404,
       message: "Item not found",
     });
   });
+
+  it("rejects adding an item without a name", async () => {
+    const repo = createRepo();
+
+    await expect(addPantryItem(repo, "user-1", { quantity: "1 cup" })).rejects.toBeInstanceOf(PantryServiceError);
+    expect(repo.pantryItem.create).not.toHaveBeenCalled();
+  });
 });
 
 describe("pantry-service delete", () => {
@@ -175,6 +336,31 @@ describe("pantry-service delete", () => {
     });
   });
 
+  it("removes one lot and keeps the item while other lots remain", async () => {
+    const repo = createRepo();
+    const lots = [createLot({ id: 30, pantryItemId: 4 }), createLot({ id: 31, pantryItemId: 4, quantity: "2 l", amount: 2 })];
+    repo.pantryItem.findFirst.mockResolvedValue(createPantryItem({ id: 4, lots }));
+    repo.pantryItem.update.mockResolvedValue(createPantryItem({ id: 4 }));
+
+    await deletePantryLot(repo, "user-1", "4", "30");
+
+    expect(repo.pantryLot.delete).toHaveBeenCalledWith({ where: { id: 30 } });
+    expect(repo.pantryItem.delete).not.toHaveBeenCalled();
+    expect(repo.pantryItem.update).toHaveBeenCalledWith({
+      where: { id: 4 },
+      data: expect.objectContaining({ quantity: "2 l", amount: 2, unit: "l" }),
+      include: { lots: true },
+    });
+  });
+
+  it("removes the item when its last lot is deleted", async () => {
+    const repo = createRepo();
+    repo.pantryItem.findFirst.mockResolvedValue(createPantryItem({ id: 4, lots: [createLot({ id: 30, pantryItemId: 4 })] }));
+
+    await expect(deletePantryLot(repo, "user-1", "4", "30")).resolves.toBeNull();
+    expect(repo.pantryItem.delete).toHaveBeenCalledWith({ where: { id: 4 } });
+  });
+
   it("rejects invalid delete ids", async () => {
     const repo = createRepo();
 
@@ -183,6 +369,17 @@ describe("pantry-service delete", () => {
       message: "Invalid id",
     });
   });
+
+  it("rejects deleting a lot the item doesn't have", async () => {
+    const repo = createRepo();
+    repo.pantryItem.findFirst.mockResolvedValue(createPantryItem({ id: 4, lots: [createLot({ id: 30, pantryItemId: 4 })] }));
+
+    const deletion = deletePantryLot(repo, "user-1", "4", "99");
+
+    await expect(deletion).rejects.toBeInstanceOf(PantryServiceError);
+    await expect(deletion).rejects.toMatchObject({ status: 404, message: "Lot not found" });
+    expect(repo.pantryLot.delete).not.toHaveBeenCalled();
+  });
 });
 
 describe("pantry-service matching", () => {
@@ -215,7 +412,8 @@ describe("pantry-service matching", () => {
       { name: "Creamy Sauce", amount: 1, unit: "cup" },
     ]);
 
-    expect(matches[0]?.status).toBe("matched");
+    // A bottle has no known volume, so the amounts cannot be compared
+    expect(matches[0]?.status).toBe("unconvertible");
     expect(matches[0]?.pantryItem?.id).toBe(2);
     expect(matches[1]).toEqual(
       expect.objectContaining({
@@ -238,6 +436,299 @@ describe("pantry-service matching", () => {
     expect(matches[0]?.status).toBe("matched");
     expect(matches[1]?.status).toBe("partial");
   });
+
+  it("adds up every lot when deciding between matched and partial", () => {
+    const pantryItems = [
+      createPantryItem({
+        id: 6,
+        name: "Milk",
+        canonName: "milk",
+        quantity: "1 l",
+        amount: 1,
+        unit: "l",
+        lots: [
+          createLot({ id: 1, pantryItemId: 6, quantity: "500 ml", amount: 500, unit: "ml" }),
+          createLot({ id: 2, pantryItemId: 6, quantity: "500 ml", amount: 500, unit: "ml" }),
+        ],
+      }),
+    ];
+
+    const matches = matchPantryIngredients(pantryItems, [
+      { name: "Milk", amount: 3, unit: "cups" },
+      { name: "Milk", amount: 5, unit: "cups" },
+    ]);
+
+    expect(matches[0]?.status).toBe("matched");
+    expect(matches[1]?.status).toBe("partial");
+  });
+});
+
+describe("pantry-service density conversion", () => {
+  it("compares cups of flour against a pantry stock in kilograms", () => {
+    const pantryItems = [
+      createPantryItem({ id: 4, name: "Flour", canonName: "flour", quantity: "1 kg", amount: 1, unit: "kg" }),
+    ];
+
+    const [enough, tooMuch] = matchPantryIngredients(pantryItems, [
+      { name: "all-purpose flour", amount: 2, unit: "cups" },
+      { name: "flour", amount: 10, unit: "cups" },
+    ]);
+
+    expect(enough.status).toBe("matched");
+    expect(tooMuch.status).toBe("partial");
+  });
+
+  it("converts whole items to weight with typical item weights", () => {
+    const pantryItems = [
+      createPantryItem({ id: 5, name: "Onions", canonName: "onion", quantity: "500 g", amount: 500, unit: "g" }),
+    ];
+
+    const [match] = matchPantryIngredients(pantryItems, [{ name: "onion", amount: 4, unit: "" }]);
+    expect(match.status).toBe("partial");
+  });
+
+  it("deducts cups of flour from a lot stored in kilograms", () => {
+    const lots = [createLot({ id: 1, quantity: "1 kg", amount: 1, unit: "kg" })];
+
+    expect(planLotDeduction(lots, 2, "cups", "flour")).toEqual({
+      changes: [{ lotId: 1, action: "updated", remainingAmount: 0.75, remainingUnit: "kg" }],
+      shortfall: 0,
+    });
+  });
+
+  it("leaves lots untouched when the units cannot be converted", () => {
+    const lots = [createLot({ id: 1, quantity: "1 kg", amount: 1, unit: "kg" })];
+
+    expect(planLotDeduction(lots, 2, "cups", "mystery spice blend")).toEqual({ changes: [], shortfall: 2 });
+  });
+
+  it("reports what the lots couldn't cover, skipping lots that don't convert", () => {
+    const lots = [
+      createLot({ id: 1, quantity: "1 bunch", amount: 1, unit: "bunch", expiryDate: new Date("2026-04-02") }),
+      createLot({ id: 2, quantity: "1 l", amount: 1, unit: "l" }),
+    ];
+
+    expect(planLotDeduction(lots, 1.5, "l")).toEqual({
+      changes: [{ lotId: 2, action: "removed" }],
+      shortfall: 0.5,
+    });
+  });
+});
+
+describe("pantry-service shortfalls", () => {
+  it("only asks for what the pantry is missing", () => {
+    const pantryItems = [
+      createPantryItem({ id: 1, name: "Eggs", canonName: "egg", quantity: "1", amount: 1, unit: "" }),
+      createPantryItem({ id: 2, name: "Milk", canonName: "milk", quantity: "1 l", amount: 1, unit: "l" }),
+    ];
+
+    const shortfalls = computePantryShortfalls(pantryItems, [
+      { name: "eggs", amount: 12, unit: "" },
+      { name: "milk", amount: 2, unit: "cups" },
+      { name: "butter", amount: 100, unit: "g" },
+    ]);
+
+    expect(shortfalls.map(({ shortfallAmount, coveredByPantry }) => ({ shortfallAmount, coveredByPantry }))).toEqual([
+      { shortfallAmount: 11, coveredByPantry: false },
+      { shortfallAmount: 0, coveredByPantry: true },
+      { shortfallAmount: 100, coveredByPantry: false },
+    ]);
+  });
+
+  it("keeps the full amount when pantry stock cannot be converted", () => {
+    const pantryItems = [
+      createPantryItem({ id: 3, name: "Saffron", canonName: "saffron", quantity: "1 jar", amount: 1, unit: "jar" }),
+    ];
+
+    const [shortfall] = computePantryShortfalls(pantryItems, [{ name: "saffron", amount: 1, unit: "tsp" }]);
+    expect(shortfall).toMatchObject({ shortfallAmount: 1, coveredByPantry: false });
+  });
+});
+
+describe("pantry-service lots", () => {
+  const soon = createLot({ id: 1, quantity: "1 l", amount: 1, unit: "l", expiryDate: new Date("2026-04-05T00:00:00.000Z") });
+  const later = createLot({ id: 2, quantity: "2 l", amount: 2, unit: "l", expiryDate: new Date("2026-04-20T00:00:00.000Z") });
+  const undated = createLot({ id: 3, quantity: "500 ml", amount: 500, unit: "ml", expiryDate: null });
+
+  it("summarizes lots into a total in the first lot's unit and the earliest expiry", () => {
+    expect(summarizePantryLots([undated, later, soon])).toEqual({
+      quantity: "3.5 l",
+      amount: 3.5,
+      unit: "l",
+      expiryDate: new Date("2026-04-05T00:00:00.000Z"),
+    });
+  });
+
+  it("joins quantity strings when lots cannot be converted to one unit", () => {
+    expect(
+      summarizePantryLots([soon, createLot({ id: 4, quantity: "2 cans", amount: 2, unit: "cans" })]),
+    ).toEqual(expect.objectContaining({ quantity: "1 l + 2 cans", amount: null, unit: "" }));
+  });
+
+  it("deducts from the soonest-expiring lot first and carries the rest over", () => {
+    const { changes, shortfall } = planLotDeduction([later, undated, soon], 1.5, "l");
+
+    expect(changes).toEqual([
+      { lotId: 1, action: "removed" },
+      { lotId: 2, action: "updated", remainingAmount: 1.5, remainingUnit: "l" },
+    ]);
+    expect(shortfall).toBe(0);
+    expect(applyLotDeduction([later, undated, soon], changes)).toEqual([
+      expect.objectContaining({ id: 2, amount: 1.5, quantity: "1.5 l" }),
+      undated,
+    ]);
+  });
+
+  it("switches grouped count lots to plain counts when they no longer divide evenly", () => {
+    const eggs = createLot({ id: 5, quantity: "1 dozen", amount: 1, unit: "dozen" });
+
+    expect(planLotDeduction([eggs], 2, "").changes).toEqual([
+      { lotId: 5, action: "updated", remainingAmount: 10, remainingUnit: "" },
+    ]);
+  });
+});
+
+describe("pantry-service ledger", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("records an add event with an after snapshot only", async () => {
+    const repo = createRepo();
+    const createdItem = createPantryItem({ lots: [createLot({ quantity: "12", amount: 12, unit: "" })] });
+
+    repo.pantryItem.findFirst.mockResolvedValue(null);
+    repo.pantryItem.create.mockResolvedValue(createdItem);
+
+    await addPantryItem(repo, "user-1", { name: "Eggs", category: "Dairy", quantity: "12" });
+
+    const { data } = repo.pantryEvent.create.mock.calls[0][0];
+    expect(data).toMatchObject({ userId: "user-1", pantryItemId: 1, itemName: "Eggs", canonName: "egg", action: "add" });
+    expect(data).not.toHaveProperty("before");
+    expect(data.after.lots).toEqual([{ id: 1, quantity: "12", amount: 12, unit: "", expiryDate: null }]);
+  });
+
+  it("records a delete event with the removed item's snapshot", async () => {
+    const repo = createRepo();
+    const existing = createPantryItem({ lots: [createLot({ quantity: "12", amount: 12, unit: "" })] });
+    repo.pantryItem.findFirst.mockResolvedValue(existing);
+
+    await deletePantryItem(repo, "user-1", "1");
+
+    expect(repo.pantryEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "delete", before: snapshotPantryItem(existing) }),
+    });
+  });
+
+  it("restores a partially used lot by the amount the cook took", async () => {
+    const repo = createRepo();
+    const lotBefore = createLot({ id: 5, quantity: "1 l", amount: 1, unit: "l" });
+    const itemBefore = createPantryItem({ name: "Milk", canonName: "milk", quantity: "1 l", amount: 1, unit: "l", lots: [lotBefore] });
+    const lotAfter = createLot({ id: 5, quantity: "0.5 l", amount: 0.5, unit: "l" });
+    const itemAfter = { ...itemBefore, quantity: "0.5 l", amount: 0.5, lots: [lotAfter] };
+
+    repo.cookEvent.findFirst.mockResolvedValue({
+      id: 9,
+      undoneAt: null,
+      events: [{
+        id: 1,
+        pantryItemId: 1,
+        itemName: "Milk",
+        action: "deduct",
+        before: snapshotPantryItem(itemBefore),
+        after: snapshotPantryItem(itemAfter),
+        cookEventId: 9,
+        createdAt: new Date(),
+      }],
+    });
+    // Another 250 ml were added to the same lot after cooking
+    repo.pantryItem.findFirst.mockResolvedValue({ ...itemAfter, lots: [{ ...lotAfter, quantity: "0.75 l", amount: 0.75 }] });
+    repo.pantryLot.update.mockImplementation(({ data }) => Promise.resolve({ ...lotAfter, ...data }));
+    repo.pantryItem.update.mockImplementation(({ data }) => Promise.resolve({ ...itemAfter, ...data }));
+
+    const restored = await undoCookEvent(repo, "user-1", 9);
+
+    expect(repo.pantryLot.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { amount: 1.25, unit: "l", quantity: "1.25 l" },
+    });
+    expect(restored[0].amount).toBe(1.25);
+    expect(repo.pantryEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ action: "restore", cookEventId: 9 }),
+    });
+    expect(repo.cookEvent.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: { undoneAt: expect.any(Date) },
+    });
+  });
+
+  it("recreates an item that the cook used up", async () => {
+    const repo = createRepo();
+    const itemBefore = createPantryItem({ lots: [createLot({ id: 3, quantity: "2", amount: 2, unit: "" })] });
+
+    repo.cookEvent.findFirst.mockResolvedValue({
+      id: 4,
+      undoneAt: null,
+      events: [{
+        id: 1,
+        pantryItemId: 1,
+        itemName: "Eggs",
+        action: "deduct",
+        before: snapshotPantryItem(itemBefore),
+        after: null,
+        cookEventId: 4,
+        createdAt: new Date(),
+      }],
+    });
+    repo.pantryItem.findFirst.mockResolvedValue(null);
+    repo.pantryItem.create.mockResolvedValue({ ...itemBefore, id: 7, lots: [createLot({ id: 8, pantryItemId: 7, quantity: "2", amount: 2, unit: "" })] });
+    repo.pantryItem.update.mockImplementation(({ data }) => Promise.resolve({ ...itemBefore, id: 7, ...data }));
+
+    await undoCookEvent(repo, "user-1", 4);
+
+    expect(repo.pantryItem.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: "Eggs",
+        lots: { create: [{ quantity: "2", amount: 2, unit: "", expiryDate: null }] },
+      }),
+      include: { lots: true },
+    });
+  });
+
+  it("rejects undoing a cook event twice", async () => {
+    const repo = createRepo();
+    repo.cookEvent.findFirst.mockResolvedValue({ id: 4, undoneAt: new Date(), events: [] });
+
+    await expect(undoCookEvent(repo, "user-1", 4)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("formats events with before and after quantities", () => {
+    const item = createPantryItem();
+    expect(
+      formatPantryEventResponse({
+        id: 2,
+        pantryItemId: 1,
+        itemName: "Eggs",
+        action: "deduct",
+        before: snapshotPantryItem(item),
+        after: snapshotPantryItem({ ...item, quantity: "10" }),
+        cookEventId: 3,
+        createdAt: new Date("2026-04-06T00:00:00.000Z"),
+        cookEvent: { recipeTitle: "Omelette", undoneAt: null },
+      }),
+    ).toEqual({
+      id: 2,
+      pantryItemId: 1,
+      itemName: "Eggs",
+      action: "deduct",
+      beforeQuantity: "12",
+      afterQuantity: "10",
+      cookEventId: 3,
+      recipeTitle: "Omelette",
+      undone: false,
+      createdAt: "2026-04-06T00:00:00.000Z",
+    });
+  });
 });
 
 describe("pantry-service formatting", () => {
@@ -261,6 +752,7 @@ describe("pantry-service formatting", () => {
       category: "Dairy",
       expiryDate: "2026-05-01",
       addedAt: "2026-04-01",
+      lots: [],
     });
   });
 });
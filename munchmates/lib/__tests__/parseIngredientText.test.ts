@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseIngredientText } from '../parseIngredientText';
+import { parseIngredientText, splitIngredientList } from '../parseIngredientText';
 
 describe('parseIngredientText', () => {
   it('parses amount, unit, and name', () => {
@@ -35,3 +35,41 @@ describe('parseIngredientText', () => {
     expect(result.name).toBe('salt to taste');
   });
 });
+
+describe('parseIngredientText shopping-list phrasing', () => {
+  it('reads number words and dozens', () => {
+    expect(parseIngredientText('a dozen eggs')).toMatchObject({ amount: 12, unit: '', name: 'eggs' });
+    expect(parseIngredientText('half a dozen bagels')).toMatchObject({ amount: 6, name: 'bagels' });
+    expect(parseIngredientText('two bags of spinach')).toMatchObject({ amount: 2, unit: 'bags', name: 'spinach' });
+    expect(parseIngredientText('a couple of lemons')).toMatchObject({ amount: 2, name: 'lemons' });
+  });
+
+  it('reads unicode fractions and gallons', () => {
+    expect(parseIngredientText('1½ cups flour')).toMatchObject({ amount: 1.5, unit: 'cups', name: 'flour' });
+    expect(parseIngredientText('¾ gallon milk')).toMatchObject({ amount: 0.75, unit: 'gallon', name: 'milk' });
+  });
+
+  it('leaves names that only look like amounts alone', () => {
+    expect(parseIngredientText('half and half')).toMatchObject({ amount: 0, name: 'half and half' });
+    expect(parseIngredientText('apples')).toMatchObject({ amount: 0, name: 'apples' });
+  });
+});
+
+describe('splitIngredientList', () => {
+  it('splits on commas and on "and" before a quantity', () => {
+    expect(splitIngredientList('2 lbs chicken thighs, a dozen eggs and 1 gallon milk')).toEqual([
+      '2 lbs chicken thighs',
+      'a dozen eggs',
+      '1 gallon milk',
+    ]);
+  });
+
+  it('keeps "and" inside item names', () => {
+    expect(splitIngredientList('salt and pepper, half and half; mac and cheese, and bread')).toEqual([
+      'salt and pepper',
+      'half and half',
+      'mac and cheese',
+      'bread',
+    ]);
+  });
+});
@@ -0,0 +1,241 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  archivePurchases,
+  DEFAULT_SUGGESTION_LIMIT,
+  MAX_SUGGESTION_LIMIT,
+  parseSuggestionLimit,
+  suggestPurchases,
+  type GroceryPurchaseRecord,
+} from "../purchase-history";
+import type { GroceryItemRecord } from "../grocery-service";
+
+const NOW = new Date("2026-04-20T15:00:00.000Z");
+
+let nextId = 1;
+
+function purchase(name: string, date: string, overrides: Partial<GroceryPurchaseRecord> = {}): GroceryPurchaseRecord {
+  return {
+    id: nextId++,
+    userId: "user-1",
+    listId: 3,
+    name,
+    canonName: name.toLowerCase(),
+    quantity: null,
+    category: "Pantry",
+    cost: null,
+    purchasedAt: new Date(`${date}T18:00:00.000Z`),
+    ...overrides,
+  };
+}
+
+function createGroceryItem(overrides: Partial<GroceryItemRecord> = {}): GroceryItemRecord {
+  return {
+    id: 1,
+    userId: "user-1",
+    listId: 3,
+    name: "coffee",
+    quantity: "1 bag",
+    category: "Beverages",
+    completed: true,
+    fromMealPlan: false,
+    addedAt: new Date("2026-04-01T00:00:00.000Z"),
+    ...overrides,
+  };
+}
+
+function createRepo() {
+  return {
+    groceryPurchase: {
+      createMany: vi.fn().mockImplementation(async ({ data }) => ({ count: data.length })),
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+    },
+    priceBookEntry: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+    },
+  };
+}
+
+describe("archivePurchases", () => {
+  it("records only checked-off items, all with the same purchase time", async () => {
+    const repo = createRepo();
+
+    const count = await archivePurchases(
+      repo,
+      "user-1",
+      [createGroceryItem(), createGroceryItem({ id: 2, name: "tea", completed: false })],
+      NOW,
+    );
+
+    expect(count).toBe(1);
+    expect(repo.groceryPurchase.createMany).toHaveBeenCalledWith({
+      data: [
+        {
+          userId: "user-1",
+          listId: 3,
+          name: "coffee",
+          canonName: "coffee",
+          quantity: "1 bag",
+          category: "Beverages",
+          cost: null,
+          purchasedAt: NOW,
+        },
+      ],
+    });
+    expect(repo.priceBookEntry.upsert).not.toHaveBeenCalled();
+  });
+
+  it("keeps what priced items cost and remembers the price paid", async () => {
+    const repo = createRepo();
+
+    await archivePurchases(
+      repo,
+      "user-1",
+      [createGroceryItem({ name: "Ground Beef", quantity: "24 oz", unitPrice: 5.5, priceUnit: "lb" })],
+      NOW,
+    );
+
+    expect(repo.groceryPurchase.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ name: "Ground Beef", canonName: "minced beef", cost: 8.25 })],
+    });
+    expect(repo.priceBookEntry.upsert).toHaveBeenCalledWith({
+      where: { userId_canonName: { userId: "user-1", canonName: "minced beef" } },
+      update: { name: "Ground Beef", unitPrice: 5.5, priceUnit: "lb" },
+      create: { userId: "user-1", canonName: "minced beef", name: "Ground Beef", unitPrice: 5.5, priceUnit: "lb" },
+    });
+  });
+
+  it("skips the write when nothing was bought", async () => {
+    const repo = createRepo();
+
+    await expect(archivePurchases(repo, "user-1", [createGroceryItem({ completed: false })])).resolves.toBe(0);
+    expect(repo.groceryPurchase.createMany).not.toHaveBeenCalled();
+  });
+});
+
+describe("suggestPurchases", () => {
+  it("flags items whose usual gap since the last purchase has passed", () => {
+    const [suggestion] = suggestPurchases(
+      [
+        purchase("Coffee", "2026-03-10", { quantity: "1 bag" }),
+        purchase("Coffee", "2026-03-20"),
+        purchase("Coffee", "2026-03-30", { quantity: "2 bags" }),
+        purchase("Coffee", "2026-04-09", { quantity: "2 bags" }),
+      ],
+      new Set(),
+      NOW,
+    );
+
+    expect(suggestion).toMatchObject({
+      name: "Coffee",
+      reason: "overdue",
+      quantity: "2 bags",
+      purchaseCount: 4,
+      intervalDays: 10,
+      daysSinceLastPurchase: 11,
+      message: "You usually buy Coffee every 10 days; last bought 11 days ago",
+    });
+  });
+
+  it("uses the median gap so one late trip doesn't skew it", () => {
+    const [suggestion] = suggestPurchases(
+      [
+        purchase("Milk", "2026-03-01"),
+        purchase("Milk", "2026-03-08"),
+        purchase("Milk", "2026-04-05"),
+        purchase("Milk", "2026-04-12"),
+      ],
+      new Set(),
+      NOW,
+    );
+
+    expect(suggestion.intervalDays).toBe(7);
+    expect(suggestion.reason).toBe("overdue");
+  });
+
+  it("lists regulars that aren't due yet after overdue items", () => {
+    const suggestions = suggestPurchases(
+      [
+        purchase("Bread", "2026-04-14"),
+        purchase("Bread", "2026-04-17"),
+        purchase("Bread", "2026-04-19"),
+        purchase("Coffee", "2026-03-30"),
+        purchase("Coffee", "2026-04-09"),
+      ],
+      new Set(),
+      NOW,
+    );
+
+    expect(suggestions.map((suggestion) => [suggestion.name, suggestion.reason])).toEqual([
+      ["Coffee", "overdue"],
+      ["Bread", "frequent"],
+    ]);
+    expect(suggestions[1].message).toBe("You buy Bread about every 3 days");
+  });
+
+  it("puts the most overdue item first", () => {
+    const suggestions = suggestPurchases(
+      [
+        purchase("Coffee", "2026-03-30"),
+        purchase("Coffee", "2026-04-09"),
+        purchase("Eggs", "2026-04-06"),
+        purchase("Eggs", "2026-04-13"),
+      ],
+      new Set(),
+      NOW,
+    );
+
+    // Coffee is 11/10 of its gap overdue, eggs 7/7
+    expect(suggestions.map((suggestion) => suggestion.name)).toEqual(["Coffee", "Eggs"]);
+  });
+
+  it("leaves out excluded items, one-off purchases and items that aren't due", () => {
+    const suggestions = suggestPurchases(
+      [
+        purchase("Coffee", "2026-03-30"),
+        purchase("Coffee", "2026-04-09"),
+        purchase("Saffron", "2026-01-05"),
+        purchase("Rice", "2026-04-01"),
+        purchase("Rice", "2026-04-15"),
+      ],
+      new Set(["coffee"]),
+      NOW,
+    );
+
+    expect(suggestions).toEqual([]);
+  });
+
+  it("counts several purchases on one day once", () => {
+    const [suggestion] = suggestPurchases(
+      [
+        purchase("Bananas", "2026-04-10"),
+        purchase("Bananas", "2026-04-10"),
+        purchase("Bananas", "2026-04-13"),
+      ],
+      new Set(),
+      NOW,
+    );
+
+    expect(suggestion).toMatchObject({ purchaseCount: 2, intervalDays: 3, reason: "overdue" });
+  });
+
+  it("caps the number of suggestions", () => {
+    const purchases = ["A", "B", "C"].flatMap((name) => [
+      purchase(name, "2026-04-01"),
+      purchase(name, "2026-04-08"),
+    ]);
+
+    expect(suggestPurchases(purchases, new Set(), NOW, 2)).toHaveLength(2);
+  });
+});
+
+describe("parseSuggestionLimit", () => {
+  it("falls back to the default and caps large values", () => {
+    expect(parseSuggestionLimit(null)).toBe(DEFAULT_SUGGESTION_LIMIT);
+    expect(parseSuggestionLimit("-3")).toBe(DEFAULT_SUGGESTION_LIMIT);
+    expect(parseSuggestionLimit("5")).toBe(5);
+    expect(parseSuggestionLimit("500")).toBe(MAX_SUGGESTION_LIMIT);
+  });
+});
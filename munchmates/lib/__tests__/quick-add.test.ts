@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { lookupIngredientAisle } from "../aisle-dictionary";
+import { parseQuickAddText } from "../quick-add";
+
+describe("lookupIngredientAisle", () => {
+  it("prefers the longest matching phrase", () => {
+    expect(lookupIngredientAisle("peanut butter")).toBe("Condiments");
+    expect(lookupIngredientAisle("unsalted butter")).toBe("Dairy");
+    expect(lookupIngredientAisle("boneless chicken thighs")).toBe("Meat & Seafood");
+    expect(lookupIngredientAisle("black pepper")).toBe("Spices & Seasonings");
+  });
+
+  it("returns null for unknown ingredients", () => {
+    expect(lookupIngredientAisle("dragon fruit jerky")).toBeNull();
+  });
+});
+
+describe("parseQuickAddText", () => {
+  it("turns a sentence into categorized items", () => {
+    expect(parseQuickAddText("2 lbs chicken thighs, a dozen eggs and 1 gallon milk")).toEqual([
+      {
+        name: "chicken thigh",
+        amount: 2,
+        unit: "lbs",
+        quantity: "2 lbs",
+        category: "Meat & Seafood",
+        original: "2 lbs chicken thighs",
+      },
+      { name: "egg", amount: 12, unit: "", quantity: "12", category: "Dairy", original: "a dozen eggs" },
+      { name: "milk", amount: 1, unit: "gallon", quantity: "1 gallon", category: "Dairy", original: "1 gallon milk" },
+    ]);
+  });
+
+  it("keeps items without an amount and collapses repeats", () => {
+    const items = parseQuickAddText("peanut butter, milk, 1 gallon milk");
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ name: "peanut butter", amount: null, quantity: null, category: "Condiments" });
+    expect(items[1]).toMatchObject({ name: "milk", amount: 1, unit: "gallon", quantity: "1 gallon" });
+  });
+
+  it("files items under the user's corrections and categories", () => {
+    const items = parseQuickAddText("milk, 2 lbs chicken thighs", {
+      categories: ["Fridge", "Other"],
+      corrections: new Map([["milk", "Fridge"]]),
+    });
+
+    expect(items.map((item) => item.category)).toEqual(["Fridge", "Other"]);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { NUTRIENT_TABLE_VERSION } from "../nutrient-table";
+import {
+  currentRecipeNutrition,
+  customRecipeNutritionData,
+  estimateRecipeNutrition,
+  formatNutritionWidget,
+  storedRecipeNutrition,
+  withCurrentNutrition,
+  type CustomRecipeNutritionRecord,
+} from "../recipe-nutrition";
+
+function record(overrides: Partial<CustomRecipeNutritionRecord> = {}): CustomRecipeNutritionRecord {
+  return {
+    id: 100001,
+    servings: 2,
+    ingredients: ["200 g chicken breast", "1 tbsp olive oil"],
+    structuredIngredients: [],
+    calories: null,
+    protein: null,
+    carbs: null,
+    fat: null,
+    nutritionMissing: [],
+    nutritionVersion: null,
+    ...overrides,
+  };
+}
+
+describe("estimateRecipeNutrition", () => {
+  it("adds up the ingredients by weight and divides by servings", () => {
+    const { perServing, missing } = estimateRecipeNutrition(
+      [
+        { name: "chicken breast", amount: 400, unit: "g" },
+        { name: "rice", amount: 200, unit: "g" },
+      ],
+      4,
+    );
+
+    expect(missing).toEqual([]);
+    expect(perServing!.calories).toBeCloseTo((480 + 730) / 4);
+    expect(perServing!.protein).toBeCloseTo((90 + 14.2) / 4);
+    expect(perServing!.carbs).toBeCloseTo(160 / 4);
+  });
+
+  it("converts volumes by density and whole items by their typical weight", () => {
+    const { perServing } = estimateRecipeNutrition(
+      [
+        { name: "milk", amount: 1, unit: "cup" },
+        { name: "egg", amount: 2, unit: "" },
+      ],
+      1,
+    );
+
+    // 1 cup of milk is about 243 g; an egg is 50 g
+    expect(perServing!.calories).toBeCloseTo(61 * 2.437 + 143, 0);
+  });
+
+  it("counts garlic cloves and matches plurals and longer names", () => {
+    const { perServing, missing } = estimateRecipeNutrition(
+      [
+        { name: "garlic", amount: 4, unit: "cloves" },
+        { name: "yellow onions", amount: 300, unit: "g" },
+      ],
+      1,
+    );
+
+    expect(missing).toEqual([]);
+    expect(perServing!.calories).toBeCloseTo(149 * 0.12 + 40 * 3);
+  });
+
+  it("lists what it couldn't count and skips ingredients without an amount", () => {
+    const { perServing, missing } = estimateRecipeNutrition(
+      [
+        { name: "butter", amount: 50, unit: "g" },
+        { name: "dragon fruit", amount: 1, unit: "" },
+        { name: "flour", amount: 2, unit: "slices" },
+        { name: "salt", amount: 0, unit: "" },
+      ],
+      1,
+    );
+
+    expect(missing).toEqual(["dragon fruit", "flour"]);
+    expect(perServing!.fat).toBeCloseTo(40.5);
+  });
+
+  it("has nothing to show when no ingredient could be counted", () => {
+    expect(estimateRecipeNutrition([{ name: "dragon fruit", amount: 1, unit: "" }], 2)).toEqual({
+      perServing: null,
+      missing: ["dragon fruit"],
+    });
+  });
+});
+
+describe("customRecipeNutritionData", () => {
+  it("parses flat ingredient strings and rounds what it stores", () => {
+    expect(customRecipeNutritionData(record())).toEqual({
+      calories: 179,
+      protein: 22.5,
+      carbs: 0,
+      fat: 9.3,
+      nutritionMissing: [],
+      nutritionVersion: NUTRIENT_TABLE_VERSION,
+    });
+  });
+
+  it("prefers structured ingredients and leaves preparation notes out of the lookup", () => {
+    const data = customRecipeNutritionData(record({
+      servings: 1,
+      structuredIngredients: [
+        { name: "Onion, finely chopped", amount: 100, unit: "g" },
+        { name: "Mystery spice", amount: 1, unit: "tsp" },
+      ],
+    }));
+
+    expect(data.calories).toBe(40);
+    expect(data.nutritionMissing).toEqual(["mystery spice"]);
+  });
+});
+
+describe("withCurrentNutrition", () => {
+  it("works out and saves recipes from before the current table, and leaves the rest", async () => {
+    const update = vi.fn().mockResolvedValue({});
+    const current = record({ id: 100002, calories: 500, nutritionVersion: NUTRIENT_TABLE_VERSION });
+
+    const [stale, fresh] = await withCurrentNutrition({ customRecipe: { update } }, [record(), current]);
+
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 100001 },
+      data: expect.objectContaining({ calories: 179, nutritionVersion: NUTRIENT_TABLE_VERSION }),
+    });
+    expect(stale.calories).toBe(179);
+    expect(fresh).toBe(current);
+  });
+});
+
+describe("currentRecipeNutrition", () => {
+  it("uses what's stored with the current table and works out older estimates without saving", () => {
+    expect(currentRecipeNutrition(record({ calories: 500, nutritionVersion: NUTRIENT_TABLE_VERSION })).perServing?.calories).toBe(500);
+    expect(currentRecipeNutrition(record({ calories: 500, nutritionVersion: 0 })).perServing?.calories).toBe(179);
+  });
+});
+
+describe("stored nutrition", () => {
+  it("reads the stored fields back, and formats them like Spoonacular's nutrition widget", () => {
+    const { perServing } = storedRecipeNutrition(record({ calories: 412.4, protein: 26, carbs: 38.2, fat: 16.5 }));
+
+    expect(formatNutritionWidget(perServing!)).toEqual({
+      calories: "412k",
+      carbs: "38g",
+      fat: "17g",
+      protein: "26g",
+    });
+    expect(storedRecipeNutrition(record()).perServing).toBeNull();
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, expect, it, vi } from "vitest";
+import { GroceryServiceError } from "../grocery-service";
+import {
+  checkoffPosition,
+  nextWalkPosition,
+  orderCategoriesForStore,
+  recordStoreCheckoff,
+  resolveStoreProfile,
+  sanitizeStoreLayout,
+  saveStoreLayout,
+  type StoreCategoryOrderRecord,
+  type StoreProfileRecord,
+} from "../store-layout";
+
+function createRow(overrides: Partial<StoreCategoryOrderRecord> = {}): StoreCategoryOrderRecord {
+  return {
+    id: 1,
+    storeId: 5,
+    category: "Produce",
+    sortOrder: 0,
+    aisle: null,
+    walkPosition: null,
+    walkSamples: 0,
+    ...overrides,
+  };
+}
+
+function createStore(categories: StoreCategoryOrderRecord[], overrides: Partial<StoreProfileRecord> = {}): StoreProfileRecord {
+  return {
+    id: 5,
+    userId: "user-1",
+    name: "Corner Market",
+    learnOrder: true,
+    createdAt: new Date("2026-04-01T00:00:00.000Z"),
+    categories,
+    ...overrides,
+  };
+}
+
+function createRepo(store: StoreProfileRecord | null = null) {
+  return {
+    storeProfile: {
+      findFirst: vi.fn().mockResolvedValue(store),
+    },
+    storeCategoryOrder: {
+      create: vi.fn().mockImplementation(async ({ data }) => createRow({ id: 99, ...data })),
+      update: vi.fn().mockImplementation(async ({ where, data }) => createRow({ id: where.id, ...data })),
+      deleteMany: vi.fn(),
+    },
+  };
+}
+
+describe("orderCategoriesForStore", () => {
+  it("puts the store's categories first in store order and keeps the rest in user order", () => {
+    const order = orderCategoriesForStore(
+      ["Produce", "Dairy", "Bakery", "Frozen", "Other"],
+      [
+        { category: "Frozen", sortOrder: 0 },
+        { category: "Produce", sortOrder: 1 },
+        { category: "Dairy", sortOrder: 2 },
+      ],
+    );
+
+    expect(order).toEqual(["Frozen", "Produce", "Dairy", "Bakery", "Other"]);
+  });
+
+  it("ignores store categories the user no longer has", () => {
+    expect(orderCategoriesForStore(["Dairy"], [{ category: "Deli", sortOrder: 0 }, { category: "Dairy", sortOrder: 1 }]))
+      .toEqual(["Dairy"]);
+  });
+});
+
+describe("walk positions", () => {
+  it("places a check-off between 0 (first) and 1 (last)", () => {
+    expect(checkoffPosition(0, 5)).toBe(0);
+    expect(checkoffPosition(2, 5)).toBe(0.5);
+    expect(checkoffPosition(4, 5)).toBe(1);
+    expect(checkoffPosition(0, 1)).toBe(0);
+  });
+
+  it("moves a learned position part of the way towards what was observed", () => {
+    expect(nextWalkPosition(null, 0.6)).toBe(0.6);
+    expect(nextWalkPosition(0, 1)).toBe(0.25);
+  });
+});
+
+describe("sanitizeStoreLayout", () => {
+  it("accepts names or objects, dropping blanks and duplicates", () => {
+    expect(sanitizeStoreLayout(["Produce", { category: "Dairy", aisle: " 4 " }, { category: "Produce" }, "", { aisle: "2" }]))
+      .toEqual([
+        { category: "Produce", aisle: null },
+        { category: "Dairy", aisle: "4" },
+      ]);
+  });
+
+  it("rejects anything but an array", () => {
+    expect(() => sanitizeStoreLayout("Produce")).toThrow(GroceryServiceError);
+  });
+});
+
+describe("resolveStoreProfile", () => {
+  it("rejects malformed ids and other users' stores", async () => {
+    await expect(resolveStoreProfile(createRepo(), "user-1", "abc")).rejects.toMatchObject({ status: 400 });
+    await expect(resolveStoreProfile(createRepo(null), "user-1", "5")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("loads the store scoped to the user", async () => {
+    const store = createStore([]);
+    const repo = createRepo(store);
+
+    await expect(resolveStoreProfile(repo, "user-1", "5")).resolves.toBe(store);
+    expect(repo.storeProfile.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: 5, userId: "user-1" } }),
+    );
+  });
+});
+
+describe("saveStoreLayout", () => {
+  it("replaces the layout and resets learned positions", async () => {
+    const repo = createRepo();
+    const store = createStore([
+      createRow({ id: 1, category: "Produce", sortOrder: 0, walkPosition: 0.8, walkSamples: 3 }),
+      createRow({ id: 2, category: "Bakery", sortOrder: 1 }),
+    ]);
+
+    await saveStoreLayout(repo, store, [
+      { category: "Dairy", aisle: "3" },
+      { category: "Produce", aisle: null },
+    ]);
+
+    expect(repo.storeCategoryOrder.deleteMany).toHaveBeenCalledWith({
+      where: { storeId: 5, category: { notIn: ["Dairy", "Produce"] } },
+    });
+    expect(repo.storeCategoryOrder.create).toHaveBeenCalledWith({
+      data: { storeId: 5, category: "Dairy", sortOrder: 0, aisle: "3", walkPosition: 0, walkSamples: 0 },
+    });
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledWith({
+      where: { id: 1 },
+      data: { sortOrder: 1, aisle: null, walkPosition: 1, walkSamples: 0 },
+    });
+  });
+});
+
+describe("recordStoreCheckoff", () => {
+  const layout = () => [
+    createRow({ id: 1, category: "Produce", sortOrder: 0, walkPosition: 0 }),
+    createRow({ id: 2, category: "Dairy", sortOrder: 1, walkPosition: 0.5 }),
+    createRow({ id: 3, category: "Frozen", sortOrder: 2, walkPosition: 1 }),
+  ];
+
+  it("moves a category earlier once it keeps getting checked off first", async () => {
+    const repo = createRepo();
+
+    await recordStoreCheckoff(repo, createStore(layout()), "Frozen", 0);
+
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledWith({
+      where: { id: 3 },
+      data: { walkPosition: 0.75, walkSamples: 1 },
+    });
+    // 0.75 is still after Dairy, so nothing is re-sorted yet
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledTimes(1);
+
+    const learned = layout();
+    learned[2] = createRow({ id: 3, category: "Frozen", sortOrder: 2, walkPosition: 0.3, walkSamples: 4 });
+    repo.storeCategoryOrder.update.mockClear();
+
+    await recordStoreCheckoff(repo, createStore(learned), "Frozen", 0);
+
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledWith({ where: { id: 3 }, data: { sortOrder: 1 } });
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledWith({ where: { id: 2 }, data: { sortOrder: 2 } });
+  });
+
+  it("adds categories the store hasn't seen at the observed position", async () => {
+    const repo = createRepo();
+
+    await recordStoreCheckoff(repo, createStore(layout()), "Bakery", 0.2);
+
+    expect(repo.storeCategoryOrder.create).toHaveBeenCalledWith({
+      data: { storeId: 5, category: "Bakery", sortOrder: 3, walkPosition: 0.2, walkSamples: 1 },
+    });
+    expect(repo.storeCategoryOrder.update).toHaveBeenCalledWith({ where: { id: 99 }, data: { sortOrder: 1 } });
+  });
+
+  it("leaves stores with learning turned off alone", async () => {
+    const repo = createRepo();
+
+    await recordStoreCheckoff(repo, createStore(layout(), { learnOrder: false }), "Frozen", 0);
+
+    expect(repo.storeCategoryOrder.update).not.toHaveBeenCalled();
+    expect(repo.storeCategoryOrder.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+// lib/aisle-dictionary.ts
+// Local ingredient → grocery category lookup, so quick-add can file items
+// without a Spoonacular call. Keyed by canonical ingredient name as produced
+// by normalize() in lib/normalize.ts; category names match the default
+// grocery categories seeded by /api/grocery/categories.
+
+export const INGREDIENT_AISLES: Record<string, string> = {
+  // Produce
+  apple: "Produce", avocado: "Produce", banana: "Produce", basil: "Produce",
+  "bell pepper": "Produce", berry: "Produce", blueberry: "Produce", broccoli: "Produce",
+  cabbage: "Produce", carrot: "Produce", cauliflower: "Produce", celery: "Produce",
+  cilantro: "Produce", corn: "Produce", cucumber: "Produce", garlic: "Produce",
+  ginger: "Produce", grape: "Produce", "green bean": "Produce", jalapeno: "Produce",
+  kale: "Produce", lemon: "Produce", lettuce: "Produce", lime: "Produce",
+  mango: "Produce", mushroom: "Produce", onion: "Produce", orange: "Produce",
+  parsley: "Produce", peach: "Produce", pear: "Produce", pepper: "Produce",
+  potato: "Produce", "romaine lettuce": "Produce", scallion: "Produce", shallot: "Produce",
+  spinach: "Produce", squash: "Produce", strawberry: "Produce", "sweet potato": "Produce",
+  tomato: "Produce", zucchini: "Produce",
+
+  // Dairy
+  butter: "Dairy", buttermilk: "Dairy", cheddar: "Dairy", cheese: "Dairy",
+  "cottage cheese": "Dairy", cream: "Dairy", "cream cheese": "Dairy", egg: "Dairy",
+  feta: "Dairy", "half and half": "Dairy", "heavy cream": "Dairy", milk: "Dairy",
+  mozzarella: "Dairy", "parmigiano reggiano": "Dairy", parmesan: "Dairy",
+  "sour cream": "Dairy", yogurt: "Dairy",
+
+  // Meat & Seafood
+  bacon: "Meat & Seafood", beef: "Meat & Seafood", chicken: "Meat & Seafood",
+  "chicken breast": "Meat & Seafood", "chicken thigh": "Meat & Seafood", cod: "Meat & Seafood",
+  "ground beef": "Meat & Seafood", "ground turkey": "Meat & Seafood", ham: "Meat & Seafood",
+  lamb: "Meat & Seafood", pork: "Meat & Seafood", salmon: "Meat & Seafood",
+  sausage: "Meat & Seafood", shrimp: "Meat & Seafood", steak: "Meat & Seafood",
+  tilapia: "Meat & Seafood", tuna: "Meat & Seafood", turkey: "Meat & Seafood",
+
+  // Bakery
+  bagel: "Bakery", baguette: "Bakery", bread: "Bakery", bun: "Bakery",
+  croissant: "Bakery", muffin: "Bakery", pita: "Bakery", roll: "Bakery",
+  tortilla: "Bakery",
+
+  // Frozen
+  "frozen pea": "Frozen", "frozen vegetable": "Frozen", "ice cream": "Frozen",
+  pea: "Frozen", "frozen pizza": "Frozen",
+
+  // Spices & Seasonings
+  "black pepper": "Spices & Seasonings", "chili powder": "Spices & Seasonings",
+  cinnamon: "Spices & Seasonings", cumin: "Spices & Seasonings",
+  "garlic powder": "Spices & Seasonings", oregano: "Spices & Seasonings",
+  paprika: "Spices & Seasonings", salt: "Spices & Seasonings",
+  "kosher salt": "Spices & Seasonings", thyme: "Spices & Seasonings",
+  turmeric: "Spices & Seasonings",
+
+  // Canned Goods
+  bean: "Canned Goods", "black bean": "Canned Goods", broth: "Canned Goods",
+  chickpea: "Canned Goods", "coconut milk": "Canned Goods", "diced tomato": "Canned Goods",
+  "kidney bean": "Canned Goods", stock: "Canned Goods", "tomato paste": "Canned Goods",
+  "tomato sauce": "Canned Goods", "canned tomato": "Canned Goods",
+
+  // Pasta & Grains
+  couscous: "Pasta & Grains", lentil: "Pasta & Grains", noodle: "Pasta & Grains",
+  oat: "Pasta & Grains", pasta: "Pasta & Grains", quinoa: "Pasta & Grains",
+  rice: "Pasta & Grains", "rolled oat": "Pasta & Grains", spaghetti: "Pasta & Grains",
+  penne: "Pasta & Grains", cereal: "Pasta & Grains",
+
+  // Condiments
+  honey: "Condiments", jam: "Condiments", ketchup: "Condiments",
+  mayonnaise: "Condiments", mustard: "Condiments", "peanut butter": "Condiments",
+  salsa: "Condiments", "soy sauce": "Condiments", "hot sauce": "Condiments",
+  "maple syrup": "Condiments",
+
+  // Oils & Vinegars
+  "balsamic vinegar": "Oils & Vinegars", "coconut oil": "Oils & Vinegars",
+  oil: "Oils & Vinegars", "olive oil": "Oils & Vinegars",
+  "vegetable oil": "Oils & Vinegars", vinegar: "Oils & Vinegars",
+
+  // Baking
+  "baking powder": "Baking", "baking soda": "Baking", "brown sugar": "Baking",
+  "chocolate chip": "Baking", "cocoa powder": "Baking", cornstarch: "Baking",
+  flour: "Baking", "powdered sugar": "Baking", sugar: "Baking",
+  "vanilla extract": "Baking", yeast: "Baking",
+
+  // Beverages
+  beer: "Beverages", coffee: "Beverages", juice: "Beverages",
+  "orange juice": "Beverages", soda: "Beverages", "sparkling water": "Beverages",
+  tea: "Beverages", water: "Beverages", wine: "Beverages",
+};
+
+function singularize(word: string): string {
+  if (word.endsWith("ies") && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (/(?:oes|ches|shes|xes)$/.test(word)) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+// Look up an ingredient's category. Tries the whole name, then the longest
+// phrase inside it ("boneless chicken thighs" → "chicken thigh"), so
+// "peanut butter" wins over "butter". Returns null when nothing matches.
+export function lookupIngredientAisle(name: string): string | null {
+  const words = name.toLowerCase().replace(/[^a-z\s]/g, " ").split(/\s+/).filter(Boolean).map(singularize);
+  if (words.length === 0) return null;
+
+  for (let length = words.length; length > 0; length--) {
+    for (let start = 0; start + length <= words.length; start++) {
+      const phrase = words.slice(start, start + length).join(" ");
+      if (INGREDIENT_AISLES[phrase]) return INGREDIENT_AISLES[phrase];
+    }
+  }
+
+  return null;
+}
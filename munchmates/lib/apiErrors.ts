@@ -4,6 +4,7 @@ Description: Shared server-side API error model, serializer, and mapping helpers
 Programmer: Landon Bever
 Date Created: 02-12-2026
 Date Revised: 02-12-2026 - Initial implementation.
+              04-20-2026 - "errorResponse()" accepts extra top-level fields (e.g. the current state on a 409).
 
 Preconditions:
 - "status" values should be valid HTTP status numbers.
@@ -11,6 +12,7 @@ Preconditions:
 - "code" values must be one of the "ApiErrorCode" values.
 - "error" values may be "unknown"; mapper handles known classes and falls back safely.
 - "context" should be a short, non-sensitive operation label.
+- "extra" fields must not be named "ok" or "error".
 - Unacceptable input: status values outside HTTP semantics, non-string messages, or sensitive messages.
 
 Postconditions:
@@ -38,6 +40,7 @@ import { NextResponse } from "next/server";
 import type { ApiErrorCode } from "@/lib/types/api";
 
 export interface ApiErrorPayload { // Declare server error payload shape
+    [field: string]: unknown;
     ok: false;
     error: {
         status: number;
@@ -81,9 +84,11 @@ function statusToDefaultCode(status: number): ApiErrorCode { // Convert status t
 export function errorResponse( // Create standardized JSON response for known errors
     status: number,
     message: string,
-    code: ApiErrorCode = statusToDefaultCode(status)
+    code: ApiErrorCode = statusToDefaultCode(status),
+    extra: Record<string, unknown> = {}
 ) {
     const payload: ApiErrorPayload = { // Build error payload object
+        ...extra,
         ok: false,
         error: {
             status,
@@ -0,0 +1,3 @@
+// Custom recipes share the recipe id space with Spoonacular: their ids start
+// here (see the custom_recipe_id_start migration), Spoonacular's stay below
+export const CUSTOM_RECIPE_MIN_ID = 100000;
@@ -1,3 +1,4 @@
+import { fromGrams, toGrams } from "@/lib/ingredient-density";
 import { AggregatedIngredient } from "@/lib/types/meal-plan";
 
 export interface ConsolidationInput {
@@ -55,6 +56,15 @@ const UNIT_DEFINITIONS: Record<string, UnitDefinition> = {
   "fl oz": { kind: "volume", baseUnit: "ml", factor: 29.5735, canonicalUnit: "fl oz" },
   "fluid ounce": { kind: "volume", baseUnit: "ml", factor: 29.5735, canonicalUnit: "fl oz" },
   "fluid ounces": { kind: "volume", baseUnit: "ml", factor: 29.5735, canonicalUnit: "fl oz" },
+  pint: { kind: "volume", baseUnit: "ml", factor: 473.176, canonicalUnit: "pint" },
+  pints: { kind: "volume", baseUnit: "ml", factor: 473.176, canonicalUnit: "pint" },
+  pt: { kind: "volume", baseUnit: "ml", factor: 473.176, canonicalUnit: "pint" },
+  quart: { kind: "volume", baseUnit: "ml", factor: 946.353, canonicalUnit: "quart" },
+  quarts: { kind: "volume", baseUnit: "ml", factor: 946.353, canonicalUnit: "quart" },
+  qt: { kind: "volume", baseUnit: "ml", factor: 946.353, canonicalUnit: "quart" },
+  gallon: { kind: "volume", baseUnit: "ml", factor: 3785.41, canonicalUnit: "gallon" },
+  gallons: { kind: "volume", baseUnit: "ml", factor: 3785.41, canonicalUnit: "gallon" },
+  gal: { kind: "volume", baseUnit: "ml", factor: 3785.41, canonicalUnit: "gallon" },
 
   g: { kind: "weight", baseUnit: "g", factor: 1, canonicalUnit: "g" },
   gram: { kind: "weight", baseUnit: "g", factor: 1, canonicalUnit: "g" },
@@ -158,6 +168,29 @@ function formatNumber(amount: number): string {
   return rounded.toFixed(2).replace(/\.?0+$/, "");
 }
 
+// Convert an amount between two units using the same buckets the list is
+// consolidated with, falling back to density / per-item weight for an ingredient.
+// Returns null when the units cannot be compared.
+export function convertQuantityAmount(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientName = ""
+): number | null {
+  const from = getBucketKey(fromUnit);
+  const to = getBucketKey(toUnit);
+
+  if (from.key === to.key) {
+    const fromDefinition = getUnitDefinition(fromUnit);
+    const toDefinition = getUnitDefinition(toUnit);
+    if (!fromDefinition || !toDefinition) return amount;
+    return (amount * fromDefinition.factor) / toDefinition.factor;
+  }
+
+  const grams = toGrams(amount, fromUnit, ingredientName);
+  return grams === null ? null : fromGrams(grams, toUnit, ingredientName);
+}
+
 export function formatQuantity(amount: number, unit: string): string {
   if (!Number.isFinite(amount) || amount <= 0) return "";
   const numeric = formatNumber(amount);
@@ -208,6 +241,36 @@ function buildAggregatedIngredient(
   };
 }
 
+// When one ingredient shows up in several unit kinds (2 cups flour + 500 g
+// flour), fold every bucket that can be weighed into a single gram bucket.
+// Buckets without density or per-item weight data stay separate.
+function foldConvertibleBuckets(group: GroupedIngredient): void {
+  if (group.buckets.size < 2) return;
+
+  const convertible = Array.from(group.buckets.values()).filter((bucket) =>
+    bucket.amounts.every((item) => toGrams(item.amount, item.unit, group.normalizedName) !== null)
+  );
+  if (convertible.length < 2) return;
+
+  const weightKey = "weight:g";
+  const target = group.buckets.get(weightKey) ?? {
+    key: weightKey,
+    kind: "weight" as const,
+    canonicalUnit: "g",
+    amounts: [],
+  };
+
+  for (const bucket of convertible) {
+    if (bucket === target) continue;
+    for (const item of bucket.amounts) {
+      target.amounts.push({ amount: toGrams(item.amount, item.unit, group.normalizedName)!, unit: "g" });
+    }
+    group.buckets.delete(bucket.key);
+  }
+
+  group.buckets.set(weightKey, target);
+}
+
 export function consolidateIngredients(items: ConsolidationInput[]): AggregatedIngredient[] {
   const grouped = new Map<string, GroupedIngredient>();
 
@@ -250,6 +313,7 @@ export function consolidateIngredients(items: ConsolidationInput[]): AggregatedI
 
   const consolidated: AggregatedIngredient[] = [];
   for (const group of grouped.values()) {
+    foldConvertibleBuckets(group);
     for (const bucket of group.buckets.values()) {
       consolidated.push(buildAggregatedIngredient(group, bucket));
     }
@@ -340,3 +404,41 @@ export function mergeQuantityStrings(
 
   return formatted || null;
 }
+
+// Take an amount back out of a list quantity ("2 cup + 3 clove"), converting it
+// into whichever part shares its unit kind. Returns null once nothing is left.
+export function subtractQuantityString(
+  existingQuantity: string | null | undefined,
+  amount: number,
+  unit: string,
+  ingredientName = ""
+): string | null {
+  let remaining = amount;
+
+  const parts = parseQuantityString(existingQuantity).map((part) => {
+    if (remaining <= 0) return part;
+
+    const remainingInPartUnit = convertQuantityAmount(remaining, unit, part.unit, ingredientName);
+    if (remainingInPartUnit === null || remainingInPartUnit <= 0) return part;
+
+    const taken = Math.min(part.amount, remainingInPartUnit);
+    remaining -= remaining * (taken / remainingInPartUnit);
+    return { amount: part.amount - taken, unit: part.unit };
+  });
+
+  const remainingParts = consolidateIngredients(
+    parts.map((part) => ({
+      name: "ingredient",
+      amount: part.amount,
+      unit: part.unit,
+      category: "Pantry",
+    }))
+  );
+
+  const formatted = remainingParts
+    .map((part) => formatQuantity(part.totalAmount, part.unit))
+    .filter(Boolean)
+    .join(" + ");
+
+  return formatted || null;
+}
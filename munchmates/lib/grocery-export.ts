@@ -0,0 +1,326 @@
+import { GroceryServiceError } from "@/lib/grocery-service";
+
+// Grocery list export: plain text, Markdown checklist, CSV and a print-ready
+// HTML page (use the browser's "Save as PDF" for a PDF). Items are grouped by
+// the user's category order. The HTML page doubles as the read-only view
+// behind share links.
+
+export type GroceryExportFormat = "text" | "markdown" | "csv" | "html";
+
+export const GROCERY_EXPORT_FORMATS: GroceryExportFormat[] = ["text", "markdown", "csv", "html"];
+
+export interface GroceryExportItem {
+  name: string;
+  quantity: string | null;
+  packageQuantity?: string | null;
+  category: string;
+  completed: boolean;
+}
+
+export interface GroceryExportGroup {
+  category: string;
+  items: GroceryExportItem[];
+}
+
+export interface GroceryExportDocument {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+export interface GroceryShareLinkRecord {
+  id: number;
+  token: string;
+  userId: string;
+  listId: number;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface GroceryShareLinkResponse {
+  id: number;
+  listId: number;
+  url: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export interface GroceryExportOptions {
+  // Shown on shared pages so the viewer knows the link won't last
+  expiresAt?: Date | null;
+  readOnly?: boolean;
+}
+
+export const DEFAULT_SHARE_LINK_DAYS = 7;
+export const MAX_SHARE_LINK_DAYS = 30;
+
+interface GroceryExportRepository {
+  groceryItem: {
+    findMany(args: { where: Record<string, unknown> }): Promise<GroceryExportItem[]>;
+  };
+  groceryCategory: {
+    findMany(args: { where: Record<string, unknown> }): Promise<{ name: string; sortOrder: number }[]>;
+  };
+}
+
+const CONTENT_TYPES: Record<GroceryExportFormat, { contentType: string; extension: string }> = {
+  text: { contentType: "text/plain; charset=utf-8", extension: "txt" },
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: "md" },
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  html: { contentType: "text/html; charset=utf-8", extension: "html" },
+};
+
+export function parseExportFormat(value: unknown): GroceryExportFormat {
+  const format = String(value ?? "text").trim().toLowerCase();
+  // Accept the common short names too
+  const aliases: Record<string, GroceryExportFormat> = { txt: "text", md: "markdown", print: "html", pdf: "html" };
+  const resolved = aliases[format] ?? format;
+  if (!GROCERY_EXPORT_FORMATS.includes(resolved as GroceryExportFormat)) {
+    throw new GroceryServiceError(400, `format must be one of: ${GROCERY_EXPORT_FORMATS.join(", ")}`);
+  }
+  return resolved as GroceryExportFormat;
+}
+
+// Order items the way the user orders their categories. Categories the user
+// doesn't have (yet) go last, alphabetically; items within a category keep
+// to-buy first, then by name.
+export function groupGroceryItems(
+  items: GroceryExportItem[],
+  categories: { name: string; sortOrder: number }[],
+): GroceryExportGroup[] {
+  const order = new Map(categories.map((category) => [category.name, category.sortOrder]));
+  const groups = new Map<string, GroceryExportItem[]>();
+
+  for (const item of items) {
+    const group = groups.get(item.category);
+    if (group) group.push(item);
+    else groups.set(item.category, [item]);
+  }
+
+  return [...groups.entries()]
+    .sort(([left], [right]) => {
+      const leftOrder = order.get(left);
+      const rightOrder = order.get(right);
+      if (leftOrder !== undefined && rightOrder !== undefined) return leftOrder - rightOrder;
+      if (leftOrder !== undefined) return -1;
+      if (rightOrder !== undefined) return 1;
+      return left.localeCompare(right);
+    })
+    .map(([category, groupItems]) => ({
+      category,
+      items: [...groupItems].sort((left, right) =>
+        Number(left.completed) - Number(right.completed) || left.name.localeCompare(right.name),
+      ),
+    }));
+}
+
+// Load one list ready for export. Categories are per user, so the list
+// owner's order applies even when a share link is being viewed.
+export async function loadGroceryExportGroups(
+  repo: GroceryExportRepository,
+  userId: string,
+  listId: number,
+  includeCompleted = true,
+): Promise<GroceryExportGroup[]> {
+  const [items, categories] = await Promise.all([
+    repo.groceryItem.findMany({
+      where: includeCompleted ? { listId } : { listId, completed: false },
+    }),
+    repo.groceryCategory.findMany({ where: { userId } }),
+  ]);
+  return groupGroceryItems(items, categories);
+}
+
+function itemLabel(item: GroceryExportItem): string {
+  const label = item.quantity ? `${item.quantity} ${item.name}` : item.name;
+  return item.packageQuantity ? `${label} (buy ${item.packageQuantity})` : label;
+}
+
+export function formatGroceryText(title: string, groups: GroceryExportGroup[]): string {
+  const lines = [title, "=".repeat(title.length)];
+  for (const group of groups) {
+    lines.push("", group.category.toUpperCase());
+    for (const item of group.items) {
+      lines.push(`${item.completed ? "[x]" : "[ ]"} ${itemLabel(item)}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Markdown's own punctuation in item names would otherwise turn into formatting
+function escapeMarkdown(value: string): string {
+  return value.replace(/([\\`*_[\]#<>|])/g, "\\$1");
+}
+
+export function formatGroceryMarkdown(title: string, groups: GroceryExportGroup[]): string {
+  const lines = [`# ${escapeMarkdown(title)}`];
+  for (const group of groups) {
+    lines.push("", `## ${escapeMarkdown(group.category)}`, "");
+    for (const item of group.items) {
+      lines.push(`- [${item.completed ? "x" : " "}] ${escapeMarkdown(itemLabel(item))}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatGroceryCsv(groups: GroceryExportGroup[]): string {
+  const rows = [["Category", "Item", "Quantity", "Package", "Done"]];
+  for (const group of groups) {
+    for (const item of group.items) {
+      rows.push([
+        group.category,
+        item.name,
+        item.quantity ?? "",
+        item.packageQuantity ?? "",
+        item.completed ? "yes" : "no",
+      ]);
+    }
+  }
+  return `${rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n")}\r\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0 auto; max-width: 720px; padding: 16px; font: 16px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; color: #111; }
+  h1 { font-size: 1.4rem; margin: 0 0 4px; }
+  .meta { color: #666; font-size: 0.85rem; margin: 0 0 16px; }
+  h2 { font-size: 0.8rem; letter-spacing: 0.06em; text-transform: uppercase; color: #555; border-bottom: 1px solid #ddd; padding-bottom: 4px; margin: 20px 0 6px; }
+  ul { list-style: none; margin: 0; padding: 0; }
+  li label { display: flex; align-items: center; gap: 10px; padding: 8px 0; }
+  input[type="checkbox"] { width: 20px; height: 20px; flex-shrink: 0; }
+  input:checked + span { color: #999; text-decoration: line-through; }
+  .qty { color: #666; }
+  .print { margin: 0 0 16px; padding: 6px 14px; font: inherit; border: 1px solid #ccc; border-radius: 8px; background: #fff; }
+  @media print {
+    body { max-width: none; padding: 0; font-size: 11pt; }
+    .print, .meta { display: none; }
+    section { break-inside: avoid; }
+    li label { padding: 2px 0; }
+    input[type="checkbox"] { width: 12px; height: 12px; }
+  }
+`;
+
+export function formatGroceryHtml(
+  title: string,
+  groups: GroceryExportGroup[],
+  options: GroceryExportOptions = {},
+): string {
+  const meta = [
+    options.readOnly ? "Shared read-only list. Ticks stay on this device." : null,
+    options.expiresAt ? `Link expires ${options.expiresAt.toUTCString()}.` : null,
+  ].filter(Boolean).join(" ");
+
+  const sections = groups.map((group) => {
+    const items = group.items.map((item) => [
+      "<li><label>",
+      `<input type="checkbox"${item.completed ? " checked" : ""}>`,
+      `<span>${escapeHtml(item.name)}${item.quantity ? ` <span class="qty">${escapeHtml(item.quantity)}</span>` : ""}`,
+      item.packageQuantity ? ` <span class="qty">(buy ${escapeHtml(item.packageQuantity)})</span>` : "",
+      "</span>",
+      "</label></li>",
+    ].join("")).join("\n");
+    return `<section>\n<h2>${escapeHtml(group.category)}</h2>\n<ul>\n${items}\n</ul>\n</section>`;
+  });
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="robots" content="noindex">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    meta ? `<p class="meta">${escapeHtml(meta)}</p>` : "",
+    '<button class="print" onclick="window.print()">Print / Save as PDF</button>',
+    groups.length > 0 ? sections.join("\n") : "<p>This list is empty.</p>",
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+// A minimal page for share links that no longer work, so a phone shows a
+// sentence instead of a JSON error
+export function formatGroceryMessageHtml(title: string, message: string): string {
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<meta name="robots" content="noindex">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLES}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p>${escapeHtml(message)}</p>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+export function renderGroceryExport(
+  format: GroceryExportFormat,
+  title: string,
+  groups: GroceryExportGroup[],
+  options: GroceryExportOptions = {},
+): GroceryExportDocument {
+  const body = format === "markdown"
+    ? formatGroceryMarkdown(title, groups)
+    : format === "csv"
+      ? formatGroceryCsv(groups)
+      : format === "html"
+        ? formatGroceryHtml(title, groups, options)
+        : formatGroceryText(title, groups);
+
+  return { body, ...CONTENT_TYPES[format] };
+}
+
+// "Costco run" → "costco-run", for download file names
+export function exportFileName(title: string, extension: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "grocery-list";
+  return `${slug}.${extension}`;
+}
+
+export function sharePath(token: string): string {
+  return `/api/grocery/shared/${encodeURIComponent(token)}`;
+}
+
+export function formatShareLinkResponse(link: GroceryShareLinkRecord, origin: string): GroceryShareLinkResponse {
+  return {
+    id: link.id,
+    listId: link.listId,
+    url: new URL(sharePath(link.token), origin).toString(),
+    expiresAt: link.expiresAt.toISOString(),
+    createdAt: link.createdAt.toISOString(),
+  };
+}
+
+export function shareLinkExpiry(daysValue: unknown, now: Date = new Date()): Date {
+  const days = daysValue === undefined || daysValue === null || daysValue === ""
+    ? DEFAULT_SHARE_LINK_DAYS
+    : Number(daysValue);
+  if (!Number.isFinite(days) || days <= 0 || days > MAX_SHARE_LINK_DAYS) {
+    throw new GroceryServiceError(400, `expiresInDays must be more than 0 and at most ${MAX_SHARE_LINK_DAYS}`);
+  }
+  return new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+}
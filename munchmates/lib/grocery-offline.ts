@@ -0,0 +1,261 @@
+// lib/grocery-offline.ts
+// Offline support for the grocery list page, on top of IndexedDB.
+// - Caches lists, categories and each list's items on the device so the page still
+//   opens without a connection
+// - Queues adds, edits, check-offs and deletes made offline and replays them
+//   against /api/grocery in order once the connection is back
+// - Edits carry the item's updatedAt and the edited fields' previous values so the
+//   server can resolve conflicts per field (see lib/grocery-sync.ts)
+// - Items added offline get a temporary negative id until the server assigns one
+
+'use client';
+
+const DB_NAME = 'munchmates-offline';
+const DB_VERSION = 1;
+const CACHE_STORE = 'groceryCache'; // Last fetched responses, keyed like "items:3"
+const QUEUE_STORE = 'groceryQueue'; // Auto-increment key keeps replay order
+
+export type QueuedGroceryOp =
+    | { kind: 'add'; listId: number; tempId: number; body: Record<string, unknown> }
+    | {
+        kind: 'update';
+        itemId: number;
+        changes: Record<string, unknown>;
+        base: Record<string, unknown>;
+        baseUpdatedAt: string | null;
+    }
+    | { kind: 'delete'; itemId: number };
+
+export interface QueuedGroceryEntry {
+    seq: number;
+    op: QueuedGroceryOp;
+}
+
+export interface GroceryReplayResult {
+    replayed: number;
+    // Changes the server refused (item gone, invalid input) and dropped from the queue
+    rejected: number;
+    // Fields that kept the server's value because they changed there first
+    conflicts: string[];
+    // Changes still queued, e.g. because the connection dropped again mid-replay
+    remaining: number;
+}
+
+// ─── Pure helpers ───
+
+let lastTempId = 0;
+
+// Temporary ids are negative so they can never collide with a server id
+export function createTempId(): number {
+    lastTempId = Math.min(lastTempId, -Date.now()) - 1;
+    return lastTempId;
+}
+
+export function isTempId(id: number): boolean {
+    return id < 0;
+}
+
+// A rejected fetch (TypeError) means the request never reached the server
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof TypeError;
+}
+
+// Worth another try later: not signed in yet, rate limited or a server error
+export function isRetryableStatus(status: number): boolean {
+    return status === 401 || status === 429 || status >= 500;
+}
+
+// An edit for the queue: the fields that actually change plus what they held
+// before, so a newer server value isn't overwritten when it replays
+export function buildUpdateOp<T extends { id: number; updatedAt?: string | null }>(
+    item: T,
+    changes: Partial<T>,
+): QueuedGroceryOp {
+    const changed: Record<string, unknown> = {};
+    const base: Record<string, unknown> = {};
+    for (const field of Object.keys(changes) as (keyof T & string)[]) {
+        const before = item[field] ?? null;
+        if (before === (changes[field] ?? null)) continue;
+        changed[field] = changes[field];
+        base[field] = before;
+    }
+    return { kind: 'update', itemId: item.id, changes: changed, base, baseUpdatedAt: item.updatedAt ?? null };
+}
+
+// Point an op at the server id of an item that was added offline
+export function remapQueuedOp(op: QueuedGroceryOp, tempId: number, itemId: number): QueuedGroceryOp {
+    if (op.kind === 'add' || op.itemId !== tempId) return op;
+    return { ...op, itemId };
+}
+
+export function queuedOpTargets(op: QueuedGroceryOp, id: number): boolean {
+    return op.kind === 'add' ? op.tempId === id : op.itemId === id;
+}
+
+// The request that replays an op against /api/grocery
+export function groceryOpRequest(op: QueuedGroceryOp): { url: string; init: RequestInit } {
+    switch (op.kind) {
+        case 'add':
+            return {
+                url: '/api/grocery',
+                init: { method: 'POST', body: JSON.stringify({ ...op.body, listId: op.listId }) },
+            };
+        case 'update':
+            return {
+                url: '/api/grocery',
+                init: {
+                    method: 'PUT',
+                    body: JSON.stringify({
+                        id: op.itemId,
+                        ...op.changes,
+                        base: op.base,
+                        baseUpdatedAt: op.baseUpdatedAt,
+                    }),
+                },
+            };
+        case 'delete':
+            return { url: `/api/grocery?id=${op.itemId}`, init: { method: 'DELETE' } };
+    }
+}
+
+// ─── IndexedDB ───
+
+export function isOfflineStorageAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CACHE_STORE)) {
+                    db.createObjectStore(CACHE_STORE);
+                }
+                if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+                    db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+// Run one request in its own transaction and wait for the transaction to commit
+async function withStore<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const request = run(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+export async function readCached<T>(key: string): Promise<T | null> {
+    if (!isOfflineStorageAvailable()) return null;
+    const value = await withStore<T | undefined>(CACHE_STORE, 'readonly', (store) => store.get(key));
+    return value ?? null;
+}
+
+export async function writeCached<T>(key: string, value: T): Promise<void> {
+    if (!isOfflineStorageAvailable()) return;
+    await withStore(CACHE_STORE, 'readwrite', (store) => store.put(value, key));
+}
+
+export async function readGroceryQueue(): Promise<QueuedGroceryEntry[]> {
+    if (!isOfflineStorageAvailable()) return [];
+    return withStore<QueuedGroceryEntry[]>(QUEUE_STORE, 'readonly', (store) => store.getAll());
+}
+
+async function putQueuedEntry(entry: QueuedGroceryEntry): Promise<void> {
+    await withStore(QUEUE_STORE, 'readwrite', (store) => store.put(entry));
+}
+
+async function removeQueuedEntry(seq: number): Promise<void> {
+    await withStore(QUEUE_STORE, 'readwrite', (store) => store.delete(seq));
+}
+
+// Queue a change for later. Deleting an item that only exists offline just
+// drops everything queued for it instead.
+export async function enqueueGroceryOp(op: QueuedGroceryOp): Promise<void> {
+    if (op.kind === 'delete' && isTempId(op.itemId)) {
+        for (const entry of await readGroceryQueue()) {
+            if (queuedOpTargets(entry.op, op.itemId)) {
+                await removeQueuedEntry(entry.seq);
+            }
+        }
+        return;
+    }
+    await withStore(QUEUE_STORE, 'readwrite', (store) => store.add({ op }));
+}
+
+// Replay the queue in order. A network failure or retryable status stops the
+// replay and keeps the rest queued; a change the server rejects outright is
+// dropped so it can't block everything behind it.
+export async function replayGroceryQueue(
+    send: (op: QueuedGroceryOp) => Promise<Response>,
+): Promise<GroceryReplayResult> {
+    const entries = await readGroceryQueue();
+    const result: GroceryReplayResult = { replayed: 0, rejected: 0, conflicts: [], remaining: entries.length };
+
+    for (let i = 0; i < entries.length; i++) {
+        const { seq, op } = entries[i];
+
+        // Its add never made it to the server, so there is nothing to change
+        if (op.kind !== 'add' && isTempId(op.itemId)) {
+            await removeQueuedEntry(seq);
+            result.rejected++;
+            result.remaining--;
+            continue;
+        }
+
+        let response: Response;
+        try {
+            response = await send(op);
+        } catch (error) {
+            if (isNetworkError(error)) break;
+            throw error;
+        }
+
+        if (isRetryableStatus(response.status)) break;
+
+        if (response.ok) {
+            const data = await response.json().catch(() => ({}));
+            if (op.kind === 'add' && typeof data.item?.id === 'number') {
+                // Later changes to the new item go to its server id
+                for (const later of entries.slice(i + 1)) {
+                    const remapped = remapQueuedOp(later.op, op.tempId, data.item.id);
+                    if (remapped !== later.op) {
+                        later.op = remapped;
+                        await putQueuedEntry(later);
+                    }
+                }
+            }
+            if (Array.isArray(data.conflicts)) {
+                result.conflicts.push(...data.conflicts);
+            }
+            result.replayed++;
+        } else {
+            result.rejected++;
+        }
+
+        await removeQueuedEntry(seq);
+        result.remaining--;
+    }
+
+    return result;
+}
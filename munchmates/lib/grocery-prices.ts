@@ -0,0 +1,244 @@
+import { convertQuantityAmount, formatQuantity, parseQuantityString } from "@/lib/grocery-consolidation";
+import type { GroceryItemRecord } from "@/lib/grocery-service";
+import { weekStartOf } from "@/lib/meal-plan";
+import { normalize } from "@/lib/normalize";
+import { packageCount, packageQuantityFor } from "@/lib/package-sizes";
+import { DEFAULT_WEEK_START_DAY } from "@/lib/types/meal-plan";
+
+// Grocery prices: an item can carry a unit price, either per item / package
+// (priceUnit "") or per measured unit ("lb"). What was paid is remembered in
+// a per-user price book keyed by canonical name, which fills in prices on new
+// items and estimates what a planned week of meals will cost.
+
+export interface PriceBookEntryRecord {
+  id: number;
+  userId: string;
+  name: string;
+  canonName: string;
+  unitPrice: number;
+  priceUnit: string;
+  updatedAt: Date;
+}
+
+export interface PriceBookEntryResponse {
+  id: number;
+  name: string;
+  unitPrice: number;
+  priceUnit: string;
+  updatedAt: string;
+}
+
+export interface PriceBookRepository {
+  priceBookEntry: {
+    findMany(args: { where: Record<string, unknown> }): Promise<PriceBookEntryRecord[]>;
+    findUnique(args: {
+      where: { userId_canonName: { userId: string; canonName: string } };
+    }): Promise<PriceBookEntryRecord | null>;
+    upsert(args: {
+      where: { userId_canonName: { userId: string; canonName: string } };
+      update: { name: string; unitPrice: number; priceUnit: string };
+      create: { userId: string; name: string; canonName: string; unitPrice: number; priceUnit: string };
+    }): Promise<unknown>;
+  };
+}
+
+export interface ItemPrice {
+  unitPrice: number;
+  priceUnit: string;
+}
+
+// Anything with a quantity and optionally a price: grocery items, purchases,
+// meal-plan ingredients
+export interface PricedLine {
+  name: string;
+  quantity: string | null;
+  packageQuantity?: string | null;
+  unitPrice?: number | null;
+  priceUnit?: string;
+}
+
+export interface CostSummary {
+  total: number;
+  pricedCount: number;
+  unpricedCount: number;
+}
+
+export interface GroceryBudgetSummary {
+  weekStart: string;
+  weeklyBudget: number | null;
+  // Archived purchases since weekStart
+  spentThisWeek: number;
+  // Checked-off items on the list, not archived yet
+  trip: CostSummary;
+  // Every item on the list, checked off or not
+  list: CostSummary;
+  // Budget left after this week's purchases and the current trip
+  remaining: number | null;
+}
+
+export interface IngredientCostEstimate {
+  name: string;
+  quantity: string;
+  cost: number | null;
+}
+
+export interface MealPlanCostEstimate extends CostSummary {
+  items: IngredientCostEstimate[];
+}
+
+export function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function formatPriceBookEntryResponse(entry: PriceBookEntryRecord): PriceBookEntryResponse {
+  return {
+    id: entry.id,
+    name: entry.name,
+    unitPrice: entry.unitPrice,
+    priceUnit: entry.priceUnit,
+    updatedAt: entry.updatedAt.toISOString(),
+  };
+}
+
+// How many priceUnits a line comes to. Priced per item, that's the number of
+// packages when they're known, a bare count ("6"), or else one. Priced per
+// measured unit, every part of the quantity has to convert.
+function pricedAmount(line: PricedLine): number | null {
+  const parts = parseQuantityString(line.quantity);
+
+  if (!line.priceUnit) {
+    if (line.packageQuantity) return packageCount(line.packageQuantity);
+    if (parts.length === 1 && parts[0].unit === "") return parts[0].amount;
+    return 1;
+  }
+
+  if (parts.length === 0) return null;
+
+  let amount = 0;
+  for (const part of parts) {
+    const converted = convertQuantityAmount(part.amount, part.unit, line.priceUnit, normalize(line.name));
+    if (converted === null) return null;
+    amount += converted;
+  }
+  return amount;
+}
+
+// What a line costs at its unit price, or null when it has no price or its
+// quantity can't be measured in the price unit
+export function lineCost(line: PricedLine): number | null {
+  if (line.unitPrice === null || line.unitPrice === undefined) return null;
+  const amount = pricedAmount(line);
+  return amount === null ? null : roundCents(line.unitPrice * amount);
+}
+
+export function summarizeCosts(lines: PricedLine[]): CostSummary {
+  let total = 0;
+  let pricedCount = 0;
+  for (const line of lines) {
+    const cost = lineCost(line);
+    if (cost === null) continue;
+    total += cost;
+    pricedCount++;
+  }
+  return { total: roundCents(total), pricedCount, unpricedCount: lines.length - pricedCount };
+}
+
+export async function loadPriceBook(
+  repo: PriceBookRepository,
+  userId: string,
+): Promise<Map<string, PriceBookEntryRecord>> {
+  const entries = await repo.priceBookEntry.findMany({ where: { userId } });
+  return new Map(entries.map((entry) => [entry.canonName, entry]));
+}
+
+// The remembered price for an item name, if there is one
+export async function lookupPrice(
+  repo: PriceBookRepository,
+  userId: string,
+  name: string,
+): Promise<ItemPrice | null> {
+  const entry = await repo.priceBookEntry.findUnique({
+    where: { userId_canonName: { userId, canonName: normalize(name) } },
+  });
+  return entry ? { unitPrice: entry.unitPrice, priceUnit: entry.priceUnit } : null;
+}
+
+// Remember the price of every priced item that was just bought, replacing
+// whatever was paid last time
+export async function rememberPrices(
+  repo: PriceBookRepository,
+  userId: string,
+  items: GroceryItemRecord[],
+): Promise<void> {
+  for (const item of items) {
+    if (item.unitPrice === null || item.unitPrice === undefined) continue;
+    const price = { name: item.name, unitPrice: item.unitPrice, priceUnit: item.priceUnit ?? "" };
+    await repo.priceBookEntry.upsert({
+      where: { userId_canonName: { userId, canonName: normalize(item.name) } },
+      update: price,
+      create: { userId, canonName: normalize(item.name), ...price },
+    });
+  }
+}
+
+// Estimate what a set of meal-plan ingredients costs at price-book prices.
+// Ingredients priced per item are rounded up to whole packages where the
+// package catalog knows the ingredient, like they are on the grocery list.
+export function estimateIngredientCost(
+  ingredients: { name: string; amount: number; unit: string }[],
+  priceBook: Map<string, PriceBookEntryRecord>,
+): MealPlanCostEstimate {
+  const items = ingredients
+    .filter((ingredient) => ingredient.amount > 0)
+    .map((ingredient) => {
+      const canonName = normalize(ingredient.name);
+      const quantity = formatQuantity(ingredient.amount, ingredient.unit);
+      const entry = priceBook.get(canonName);
+      const cost = entry
+        ? lineCost({
+          name: ingredient.name,
+          quantity,
+          packageQuantity: entry.priceUnit ? null : packageQuantityFor(canonName, quantity),
+          unitPrice: entry.unitPrice,
+          priceUnit: entry.priceUnit,
+        })
+        : null;
+      return { name: ingredient.name, quantity, cost };
+    });
+
+  const priced = items.filter((item) => item.cost !== null);
+  return {
+    total: roundCents(priced.reduce((sum, item) => sum + (item.cost ?? 0), 0)),
+    pricedCount: priced.length,
+    unpricedCount: items.length - priced.length,
+    items,
+  };
+}
+
+// Where a list stands against the weekly budget. The trip total is what's in
+// the cart right now; it counts against the budget before it is archived.
+export function summarizeBudget(
+  items: (PricedLine & { completed: boolean })[],
+  purchaseCosts: (number | null)[],
+  weeklyBudget: number | null,
+  weekStart: Date,
+): GroceryBudgetSummary {
+  const spentThisWeek = roundCents(purchaseCosts.reduce<number>((sum, cost) => sum + (cost ?? 0), 0));
+  const trip = summarizeCosts(items.filter((item) => item.completed));
+
+  return {
+    weekStart: weekStart.toISOString(),
+    weeklyBudget,
+    spentThisWeek,
+    trip,
+    list: summarizeCosts(items),
+    remaining: weeklyBudget === null ? null : roundCents(weeklyBudget - spentThisWeek - trip.total),
+  };
+}
+
+// Budgets run on the meal planner's weeks, starting on the profile's
+// weekStartDay (Monday by default) at midnight UTC
+export function budgetWeekStart(now: Date = new Date(), weekStartDay: number = DEFAULT_WEEK_START_DAY): Date {
+  const today = now.toISOString().split("T")[0];
+  return new Date(`${weekStartOf(today, weekStartDay)}T00:00:00.000Z`);
+}
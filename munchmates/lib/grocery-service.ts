@@ -0,0 +1,943 @@
+import {
+  formatQuantity,
+  mergeQuantityStrings,
+  normalizeUnit,
+  parseQuantityString,
+  subtractQuantityString,
+} from "@/lib/grocery-consolidation";
+import {
+  lineCost,
+  loadPriceBook,
+  lookupPrice,
+  roundCents,
+  type PriceBookRepository,
+} from "@/lib/grocery-prices";
+import { classifyIngredient, type IngredientClassifierRepository } from "@/lib/ingredient-classifier";
+import { normalize } from "@/lib/normalize";
+import { packageQuantityFor } from "@/lib/package-sizes";
+import { archivePurchases, unarchivePurchases, type PurchaseHistoryRepository } from "@/lib/purchase-history";
+import {
+  addPantryItem,
+  computePantryShortfalls,
+  defaultExpiryForCategory,
+  deletePantryLot,
+  PantryServiceError,
+  type PantryItemRecord,
+  type PantryRepository,
+} from "@/lib/pantry-service";
+import type { IngredientContribution } from "@/lib/types/meal-plan";
+
+export interface GroceryImportItem {
+  name: string;
+  totalAmount: number;
+  unit: string;
+  category: string;
+  sources?: IngredientContribution[];
+}
+
+export interface GroceryListRecord {
+  id: number;
+  userId: string;
+  name: string;
+  createdAt: Date;
+}
+
+export interface GroceryListResponse {
+  id: number;
+  name: string;
+  createdAt: string;
+  itemCount?: number;
+  activeCount?: number;
+}
+
+export interface GroceryItemSourceRecord {
+  id: number;
+  groceryItemId: number;
+  mealEntryId: string;
+  recipeId: number;
+  recipeTitle: string;
+  date: string;
+  mealType: string;
+  amount: number;
+  unit: string;
+}
+
+export interface GroceryItemRecord {
+  id: number;
+  userId: string;
+  listId: number;
+  name: string;
+  quantity: string | null;
+  packageQuantity?: string | null;
+  unitPrice?: number | null;
+  priceUnit?: string;
+  category: string;
+  completed: boolean;
+  fromMealPlan: boolean;
+  addedAt: Date;
+  updatedAt?: Date;
+  sources?: GroceryItemSourceRecord[];
+}
+
+export interface GroceryItemSourceResponse {
+  mealEntryId: string;
+  recipeId: number;
+  recipeTitle: string;
+  date: string;
+  mealType: string;
+  amount: number;
+  unit: string;
+}
+
+export interface GroceryItemResponse {
+  id: number;
+  listId: number;
+  name: string;
+  quantity: string | null;
+  // What to buy to cover `quantity` in real package sizes; null when unknown
+  packageQuantity: string | null;
+  // Price per priceUnit; priceUnit "" means per item or package
+  unitPrice: number | null;
+  priceUnit: string;
+  // unitPrice times the quantity; null when unpriced or not measurable in priceUnit
+  cost: number | null;
+  category: string;
+  completed: boolean;
+  fromMealPlan: boolean;
+  addedAt: string;
+  // Last write; offline edits send it back so conflicts can be resolved per field
+  updatedAt: string;
+  sources: GroceryItemSourceResponse[];
+}
+
+// A meal-plan entry whose grocery contribution should shrink.
+// factor is the share of the contribution to take back (1 = all of it).
+export interface MealEntryRetraction {
+  mealEntryId: string;
+  factor: number;
+}
+
+export interface MealEntrySnapshot {
+  entryId: string;
+  recipeId: number;
+  date: string;
+  mealType: string;
+  servings: number;
+}
+
+export interface GroceryRetractionResult {
+  updatedCount: number;
+  removedCount: number;
+}
+
+export interface PantryReduction {
+  name: string;
+  unit: string;
+  requestedAmount: number;
+  reducedBy: number;
+  addedAmount: number;
+}
+
+export interface GroceryImportResult {
+  addedCount: number;
+  updatedCount: number;
+  filteredCount: number;
+  // Ingredients left out because a staple for them is already on the list
+  stapleCount: number;
+  reduced: PantryReduction[];
+  totalProcessed: number;
+}
+
+// One pantry lot created from a checked-off grocery item by finishing a trip.
+// Carries enough of the original grocery item, meal-plan sources included,
+// to put it back on undo.
+export interface ShoppingTripEntry {
+  groceryItem: {
+    name: string;
+    quantity: string | null;
+    category: string;
+    fromMealPlan: boolean;
+    unitPrice?: number | null;
+    priceUnit?: string;
+    sources?: GroceryItemSourceResponse[];
+  };
+  pantryItemId: number;
+  lotId: number;
+  name: string;
+  quantity: string;
+  amount: number | null;
+  unit: string;
+  expiryDate: string | null;
+}
+
+export interface ShoppingTripResult {
+  added: ShoppingTripEntry[];
+  movedCount: number;
+}
+
+export interface ShoppingTripUndoResult {
+  restoredCount: number;
+  removedLotCount: number;
+}
+
+// Kept loose so the Prisma client satisfies the repository interface
+type RecordInclude = Record<string, unknown> | null;
+
+export const DEFAULT_GROCERY_LIST_NAME = "Grocery List";
+
+export class GroceryServiceError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "GroceryServiceError";
+  }
+}
+
+export interface GroceryListRepository {
+  user: {
+    upsert(args: {
+      where: { id: string };
+      update: Record<string, never>;
+      create: { id: string };
+    }): Promise<unknown>;
+  };
+  groceryList: {
+    findFirst(args: {
+      where: Record<string, unknown>;
+      orderBy?: Record<string, "asc" | "desc">;
+    }): Promise<GroceryListRecord | null>;
+    create(args: { data: { userId: string; name: string } }): Promise<GroceryListRecord>;
+  };
+}
+
+interface GroceryRepository extends PriceBookRepository {
+  user: {
+    upsert(args: {
+      where: { id: string };
+      update: Record<string, never>;
+      create: { id: string };
+    }): Promise<unknown>;
+  };
+  groceryItem: {
+    findMany(args: { where: Record<string, unknown> }): Promise<GroceryItemRecord[]>;
+    create(args: { data: Record<string, unknown> }): Promise<GroceryItemRecord>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<GroceryItemRecord>;
+  };
+  groceryItemSource: {
+    createMany(args: { data: (IngredientContribution & { groceryItemId: number })[] }): Promise<unknown>;
+  };
+  groceryCategory: {
+    findMany(args: { where: Record<string, unknown> }): Promise<{ name: string; sortOrder: number }[]>;
+    createMany(args: { data: { userId: string; name: string; sortOrder: number }[] }): Promise<unknown>;
+  };
+  pantryItem: {
+    findMany(args: { where: Record<string, unknown>; include?: RecordInclude }): Promise<PantryItemRecord[]>;
+  };
+  groceryStaple: {
+    findMany(args: { where: Record<string, unknown> }): Promise<{ canonName: string }[]>;
+  };
+}
+
+export interface GroceryRetractionRepository {
+  groceryItem: {
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<GroceryItemRecord>;
+    delete(args: { where: { id: number } }): Promise<unknown>;
+  };
+  groceryItemSource: {
+    findMany(args: {
+      where: Record<string, unknown>;
+      include?: RecordInclude;
+    }): Promise<(GroceryItemSourceRecord & { groceryItem?: GroceryItemRecord })[]>;
+    count(args: { where: Record<string, unknown> }): Promise<number>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<unknown>;
+    delete(args: { where: { id: number } }): Promise<unknown>;
+  };
+}
+
+type ItemPriceFields = { unitPrice?: number | null; priceUnit?: string };
+
+interface GroceryItemWriteRepository extends IngredientClassifierRepository, PriceBookRepository {
+  groceryItem: {
+    upsert(args: {
+      where: { listId_name: { listId: number; name: string } };
+      update: { quantity: string | null; packageQuantity: null; category?: string; fromMealPlan?: boolean } & ItemPriceFields;
+      create: {
+        userId: string;
+        listId: number;
+        name: string;
+        quantity: string | null;
+        category: string;
+        completed: boolean;
+        fromMealPlan: boolean;
+      } & ItemPriceFields;
+      include?: RecordInclude;
+    }): Promise<GroceryItemRecord>;
+  };
+}
+
+type ShoppingTripRepository = PantryRepository & PurchaseHistoryRepository & PriceBookRepository & {
+  groceryItem: {
+    findMany(args: {
+      where: Record<string, unknown>;
+      orderBy?: Record<string, "asc" | "desc">;
+      include?: RecordInclude;
+    }): Promise<GroceryItemRecord[]>;
+    deleteMany(args: { where: Record<string, unknown> }): Promise<unknown>;
+    upsert(args: {
+      where: { listId_name: { listId: number; name: string } };
+      update: Record<string, unknown>;
+      create: {
+        userId: string;
+        listId: number;
+        name: string;
+        quantity: string | null;
+        category: string;
+        completed: boolean;
+        fromMealPlan: boolean;
+      } & ItemPriceFields;
+    }): Promise<GroceryItemRecord>;
+  };
+  groceryItemSource: {
+    createMany(args: { data: (IngredientContribution & { groceryItemId: number })[] }): Promise<unknown>;
+  };
+};
+
+// Contributions arrive from request bodies too, so keep only well-formed ones
+function sanitizeSources(sources: unknown): IngredientContribution[] {
+  if (!Array.isArray(sources)) return [];
+
+  return sources
+    .filter((source) =>
+      source &&
+      typeof source.mealEntryId === "string" &&
+      Number.isFinite(Number(source.amount)) &&
+      Number(source.amount) > 0
+    )
+    .map((source) => ({
+      mealEntryId: String(source.mealEntryId).slice(0, 100),
+      recipeId: Number(source.recipeId) || 0,
+      recipeTitle: String(source.recipeTitle ?? "").slice(0, 200),
+      date: String(source.date ?? ""),
+      mealType: String(source.mealType ?? ""),
+      amount: Number(source.amount),
+      unit: String(source.unit ?? ""),
+    }));
+}
+
+// Units that mean "per item" rather than a measured amount
+const PER_ITEM_PRICE_UNITS = new Set(["", "each", "ea", "item", "package", "pkg"]);
+
+// Price fields from a request body. A null or empty unitPrice clears the
+// price; leaving a field out leaves it alone.
+export function parseItemPrice(body: Record<string, unknown>): ItemPriceFields {
+  const price: ItemPriceFields = {};
+
+  if (body.unitPrice !== undefined) {
+    if (body.unitPrice === null || body.unitPrice === "") {
+      price.unitPrice = null;
+    } else {
+      const unitPrice = Number(body.unitPrice);
+      if (!Number.isFinite(unitPrice) || unitPrice < 0) {
+        throw new GroceryServiceError(400, "unitPrice must be a number of 0 or more");
+      }
+      price.unitPrice = roundCents(unitPrice);
+    }
+  }
+
+  if (body.priceUnit !== undefined) {
+    const priceUnit = normalizeUnit(String(body.priceUnit ?? "")).slice(0, 20);
+    price.priceUnit = PER_ITEM_PRICE_UNITS.has(priceUnit) ? "" : priceUnit;
+  }
+
+  return price;
+}
+
+function parseListId(value: unknown): number {
+  const listId = typeof value === "number" ? value : Number.parseInt(String(value), 10);
+  if (!Number.isInteger(listId) || listId <= 0) {
+    throw new GroceryServiceError(400, "Invalid listId");
+  }
+  return listId;
+}
+
+export function sanitizeGroceryListName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim().slice(0, 100) : "";
+  if (!name) {
+    throw new GroceryServiceError(400, "Missing required field: name");
+  }
+  return name;
+}
+
+// The user's oldest list, created on first use
+export async function getDefaultGroceryList(
+  repo: GroceryListRepository,
+  userId: string,
+): Promise<GroceryListRecord> {
+  const existing = await repo.groceryList.findFirst({
+    where: { userId },
+    orderBy: { id: "asc" },
+  });
+  if (existing) return existing;
+
+  await repo.user.upsert({
+    where: { id: userId },
+    update: {},
+    create: { id: userId },
+  });
+  return repo.groceryList.create({
+    data: { userId, name: DEFAULT_GROCERY_LIST_NAME },
+  });
+}
+
+// Look up the list a request targets. Omitting the id means the default list.
+export async function resolveGroceryList(
+  repo: GroceryListRepository,
+  userId: string,
+  listIdValue: unknown,
+): Promise<GroceryListRecord> {
+  if (listIdValue === undefined || listIdValue === null || listIdValue === "") {
+    return getDefaultGroceryList(repo, userId);
+  }
+
+  const list = await repo.groceryList.findFirst({
+    where: { id: parseListId(listIdValue), userId },
+  });
+  if (!list) {
+    throw new GroceryServiceError(404, "List not found");
+  }
+  return list;
+}
+
+export function formatGroceryListResponse(
+  list: GroceryListRecord & { items?: { completed: boolean }[] },
+): GroceryListResponse {
+  const response: GroceryListResponse = {
+    id: list.id,
+    name: list.name,
+    createdAt: list.createdAt.toISOString(),
+  };
+
+  if (list.items) {
+    response.itemCount = list.items.length;
+    response.activeCount = list.items.filter((item) => !item.completed).length;
+  }
+
+  return response;
+}
+
+function formatGroceryItemSource(source: GroceryItemSourceRecord): GroceryItemSourceResponse {
+  return {
+    mealEntryId: source.mealEntryId,
+    recipeId: source.recipeId,
+    recipeTitle: source.recipeTitle,
+    date: source.date,
+    mealType: source.mealType,
+    amount: source.amount,
+    unit: source.unit,
+  };
+}
+
+export function formatGroceryItemResponse(item: GroceryItemRecord): GroceryItemResponse {
+  return {
+    id: item.id,
+    listId: item.listId,
+    name: item.name,
+    quantity: item.quantity,
+    packageQuantity: item.packageQuantity ?? null,
+    unitPrice: item.unitPrice ?? null,
+    priceUnit: item.priceUnit ?? "",
+    cost: lineCost(item),
+    category: item.category,
+    completed: item.completed,
+    fromMealPlan: item.fromMealPlan,
+    addedAt: item.addedAt.toISOString(),
+    updatedAt: (item.updatedAt ?? item.addedAt).toISOString(),
+    sources: (item.sources ?? []).map(formatGroceryItemSource),
+  };
+}
+
+// Add one item to a list, or update it in place when the list already has
+// an item with that name. The caller has already resolved the list. Without a
+// category, new items are filed by the ingredient classifier and existing
+// ones keep theirs. A quantity typed by hand replaces any package amount.
+// New items without a price get the one from the user's price book.
+export async function addGroceryItem(
+  repo: GroceryItemWriteRepository,
+  userId: string,
+  listId: number,
+  body: Record<string, unknown>,
+): Promise<GroceryItemRecord> {
+  const name = String(body.name ?? "").trim().slice(0, 200);
+  if (!name) {
+    throw new GroceryServiceError(400, "Missing required field: name");
+  }
+
+  const quantity = body.quantity ? String(body.quantity).trim().slice(0, 100) : null;
+  const category = String(body.category ?? "").trim().slice(0, 100) || undefined;
+  const fromMealPlan = Boolean(body.fromMealPlan);
+  const price = parseItemPrice(body);
+  const rememberedPrice = price.unitPrice === undefined ? await lookupPrice(repo, userId, name) : null;
+
+  return repo.groceryItem.upsert({
+    where: {
+      listId_name: { listId, name },
+    },
+    update: {
+      quantity,
+      packageQuantity: null,
+      category,
+      fromMealPlan: body.fromMealPlan !== undefined ? fromMealPlan : undefined,
+      ...price,
+    },
+    create: {
+      userId,
+      listId,
+      name,
+      quantity,
+      category: category ?? (await classifyIngredient(repo, userId, name)).category,
+      fromMealPlan,
+      completed: false,
+      ...(rememberedPrice ?? price),
+    },
+    include: { sources: { orderBy: { date: "asc" } } },
+  });
+}
+
+// Compare a plan before and after a save. Entries that were removed or now
+// hold a different recipe give back everything they added; entries whose
+// servings dropped give back the matching share. Bigger servings add nothing
+// here — the next grocery import picks that up.
+export function diffMealEntryRetractions(
+  previous: MealEntrySnapshot[],
+  next: MealEntrySnapshot[],
+): MealEntryRetraction[] {
+  const nextById = new Map(next.map((entry) => [entry.entryId, entry]));
+  const retractions: MealEntryRetraction[] = [];
+
+  for (const entry of previous) {
+    const updated = nextById.get(entry.entryId);
+
+    if (!updated || updated.recipeId !== entry.recipeId) {
+      retractions.push({ mealEntryId: entry.entryId, factor: 1 });
+      continue;
+    }
+
+    if (entry.servings > 0 && updated.servings < entry.servings) {
+      retractions.push({
+        mealEntryId: entry.entryId,
+        factor: 1 - Math.max(0, updated.servings) / entry.servings,
+      });
+    }
+  }
+
+  return retractions;
+}
+
+// Take meal-plan contributions back off a user's grocery list. Checked-off
+// items keep their quantity (they've already been bought) but still lose the
+// source rows. Meal-plan items with nothing left and no other sources are removed.
+export async function retractMealEntryContributions(
+  repo: GroceryRetractionRepository,
+  userId: string,
+  retractions: MealEntryRetraction[],
+): Promise<GroceryRetractionResult> {
+  const factors = new Map(
+    retractions
+      .filter((retraction) => retraction.factor > 0)
+      .map((retraction) => [retraction.mealEntryId, Math.min(1, retraction.factor)]),
+  );
+  if (factors.size === 0) return { updatedCount: 0, removedCount: 0 };
+
+  const sources = await repo.groceryItemSource.findMany({
+    where: {
+      mealEntryId: { in: Array.from(factors.keys()) },
+      groceryItem: { userId },
+    },
+    include: { groceryItem: true },
+  });
+
+  const byItem = new Map<number, { item: GroceryItemRecord; sources: GroceryItemSourceRecord[] }>();
+  for (const source of sources) {
+    if (!source.groceryItem) continue;
+    if (!byItem.has(source.groceryItemId)) {
+      byItem.set(source.groceryItemId, { item: source.groceryItem, sources: [] });
+    }
+    byItem.get(source.groceryItemId)!.sources.push(source);
+  }
+
+  let updatedCount = 0;
+  let removedCount = 0;
+
+  for (const { item, sources: itemSources } of byItem.values()) {
+    let quantity = item.quantity;
+
+    for (const source of itemSources) {
+      const factor = factors.get(source.mealEntryId)!;
+
+      if (!item.completed) {
+        quantity = subtractQuantityString(quantity, source.amount * factor, source.unit, normalize(item.name));
+      }
+
+      if (factor >= 1) {
+        await repo.groceryItemSource.delete({ where: { id: source.id } });
+      } else {
+        await repo.groceryItemSource.update({
+          where: { id: source.id },
+          data: { amount: Math.round(source.amount * (1 - factor) * 100) / 100 },
+        });
+      }
+    }
+
+    if (item.completed || quantity === item.quantity) continue;
+
+    const remainingSources = await repo.groceryItemSource.count({
+      where: { groceryItemId: item.id },
+    });
+
+    if (!quantity && item.fromMealPlan && remainingSources === 0) {
+      await repo.groceryItem.delete({ where: { id: item.id } });
+      removedCount++;
+    } else {
+      await repo.groceryItem.update({
+        where: { id: item.id },
+        data: { quantity, packageQuantity: packageQuantityFor(normalize(item.name), quantity) },
+      });
+      updatedCount++;
+    }
+  }
+
+  return { updatedCount, removedCount };
+}
+
+// Merge aggregated ingredients into one of the user's grocery lists. Pantry
+// stock is subtracted first so only the shortfall is added; existing list items
+// have their quantities merged and missing categories are created. Staples
+// that are already on the list are left as they are. Each item also gets the
+// package amount to buy, rounded up to real package sizes, and new items get
+// their price-book price.
+export async function importGroceryItems(
+  repo: GroceryRepository,
+  userId: string,
+  listId: number,
+  aggregatedItems: GroceryImportItem[],
+): Promise<GroceryImportResult> {
+  await repo.user.upsert({
+    where: { id: userId },
+    update: {},
+    create: { id: userId },
+  });
+
+  const existingItems = await repo.groceryItem.findMany({
+    where: { listId },
+  });
+  const existingByName = new Map(
+    existingItems.map((item) => [normalize(item.name), item]),
+  );
+
+  // A staple already on the list covers the meal plan's need for it too
+  const staples = await repo.groceryStaple.findMany({
+    where: { userId },
+  });
+  const stapleNames = new Set(staples.map((staple) => staple.canonName));
+  const priceBook = await loadPriceBook(repo, userId);
+
+  // Work out how much of each ingredient the pantry already covers
+  const pantryItems = await repo.pantryItem.findMany({
+    where: { userId },
+    include: { lots: true },
+  });
+  const shortfalls = computePantryShortfalls(
+    pantryItems,
+    aggregatedItems.map((ingredient) => ({
+      name: String(ingredient.name),
+      amount: Number(ingredient.totalAmount) || 0,
+      unit: String(ingredient.unit ?? ""),
+    })),
+  );
+
+  // Ensure categories exist
+  const existingCategories = await repo.groceryCategory.findMany({
+    where: { userId },
+  });
+  const categoryNames = new Set(existingCategories.map((category) => category.name));
+  let sortCounter = existingCategories.reduce(
+    (max, category) => Math.max(max, category.sortOrder),
+    -1,
+  ) + 1;
+
+  const newCategories: { userId: string; name: string; sortOrder: number }[] = [];
+  for (const ingredient of aggregatedItems) {
+    if (ingredient.category && !categoryNames.has(ingredient.category)) {
+      categoryNames.add(ingredient.category);
+      newCategories.push({
+        userId,
+        name: ingredient.category,
+        sortOrder: sortCounter++,
+      });
+    }
+  }
+
+  if (newCategories.length > 0) {
+    await repo.groceryCategory.createMany({ data: newCategories });
+  }
+
+  let addedCount = 0;
+  let updatedCount = 0;
+  let filteredCount = 0;
+  let stapleCount = 0;
+  const reduced: PantryReduction[] = [];
+
+  for (const [index, ingredient] of aggregatedItems.entries()) {
+    const name = String(ingredient.name).trim().slice(0, 200);
+    const nameKey = normalize(name);
+
+    if (stapleNames.has(nameKey) && existingByName.has(nameKey)) {
+      stapleCount++;
+      continue;
+    }
+
+    const { requestedAmount, shortfallAmount, coveredByPantry } = shortfalls[index];
+
+    if (requestedAmount > 0 && shortfallAmount < requestedAmount) {
+      reduced.push({
+        name,
+        unit: ingredient.unit,
+        requestedAmount,
+        reducedBy: Math.round((requestedAmount - shortfallAmount) * 100) / 100,
+        addedAmount: shortfallAmount,
+      });
+    }
+
+    // Skip items the pantry fully covers
+    if (coveredByPantry) {
+      filteredCount++;
+      continue;
+    }
+
+    const quantity = formatQuantity(shortfallAmount, ingredient.unit);
+    const category = String(ingredient.category || "Uncategorized").trim().slice(0, 100);
+    const existing = existingByName.get(nameKey);
+    let groceryItemId: number;
+
+    if (existing) {
+      const newQuantity = mergeQuantityStrings(existing.quantity, shortfallAmount, ingredient.unit);
+      const updated = await repo.groceryItem.update({
+        where: { id: existing.id },
+        data: {
+          quantity: newQuantity,
+          packageQuantity: packageQuantityFor(nameKey, newQuantity),
+          fromMealPlan: true,
+        },
+      });
+      existingByName.set(nameKey, updated);
+      groceryItemId = updated.id;
+      updatedCount++;
+    } else {
+      const remembered = priceBook.get(nameKey);
+      const created = await repo.groceryItem.create({
+        data: {
+          userId,
+          listId,
+          name,
+          quantity: quantity || null,
+          packageQuantity: packageQuantityFor(nameKey, quantity),
+          category,
+          completed: false,
+          fromMealPlan: true,
+          ...(remembered ? { unitPrice: remembered.unitPrice, priceUnit: remembered.priceUnit } : {}),
+        },
+      });
+      existingByName.set(nameKey, created);
+      groceryItemId = created.id;
+      addedCount++;
+    }
+
+    // Only remember the part of each meal's contribution that actually went
+    // on the list, so retracting it never takes away more than was added
+    const scale = requestedAmount > 0 ? shortfallAmount / requestedAmount : 1;
+    const sources = sanitizeSources(ingredient.sources)
+      .map((source) => ({
+        ...source,
+        groceryItemId,
+        amount: Math.round(source.amount * scale * 100) / 100,
+      }))
+      .filter((source) => source.amount > 0);
+
+    if (sources.length > 0) {
+      await repo.groceryItemSource.createMany({ data: sources });
+    }
+  }
+
+  return {
+    addedCount,
+    updatedCount,
+    filteredCount,
+    stapleCount,
+    reduced,
+    totalProcessed: aggregatedItems.length,
+  };
+}
+
+function toDateOnly(date: Date | null): string | null {
+  return date?.toISOString().split("T")[0] ?? null;
+}
+
+// The lot addPantryItem just created is the newest one on the item
+function newestLotId(item: PantryItemRecord): number {
+  return (item.lots ?? []).reduce((max, lot) => Math.max(max, lot.id), 0);
+}
+
+// Move every checked-off item on a list into the pantry. Each part of the
+// quantity string ("1 cup + 3 cloves") becomes its own lot, merged into any
+// existing stock by addPantryItem. Items without an expiry get the category
+// default. The moved items are removed from the list and archived into the
+// purchase history.
+export async function finishShoppingTrip(
+  repo: ShoppingTripRepository,
+  userId: string,
+  listId: number,
+  now: Date = new Date(),
+): Promise<ShoppingTripResult> {
+  const completedItems = await repo.groceryItem.findMany({
+    where: { listId, completed: true },
+    orderBy: { addedAt: "asc" },
+    include: { sources: { orderBy: { date: "asc" } } },
+  });
+
+  const added: ShoppingTripEntry[] = [];
+
+  for (const groceryItem of completedItems) {
+    const expiryDate = toDateOnly(defaultExpiryForCategory(groceryItem.category, now));
+    const parts = parseQuantityString(groceryItem.quantity);
+
+    // Unparseable quantities ("a bunch") are kept as text; missing ones count as one
+    const bodies: Record<string, unknown>[] = parts.length > 0
+      ? parts.map((part) => ({ amount: part.amount, unit: part.unit }))
+      : [{ quantity: groceryItem.quantity?.trim() || "1" }];
+
+    for (const quantityFields of bodies) {
+      const pantryItem = await addPantryItem(repo, userId, {
+        name: groceryItem.name,
+        category: groceryItem.category,
+        expiryDate,
+        ...quantityFields,
+      });
+      const lotId = newestLotId(pantryItem);
+      const lot = pantryItem.lots?.find((candidate) => candidate.id === lotId);
+
+      added.push({
+        groceryItem: {
+          name: groceryItem.name,
+          quantity: groceryItem.quantity,
+          category: groceryItem.category,
+          fromMealPlan: groceryItem.fromMealPlan,
+          unitPrice: groceryItem.unitPrice ?? null,
+          priceUnit: groceryItem.priceUnit ?? "",
+          sources: (groceryItem.sources ?? []).map(formatGroceryItemSource),
+        },
+        pantryItemId: pantryItem.id,
+        lotId,
+        name: pantryItem.name,
+        quantity: lot?.quantity ?? pantryItem.quantity,
+        amount: lot?.amount ?? pantryItem.amount,
+        unit: lot?.unit ?? pantryItem.unit,
+        expiryDate,
+      });
+    }
+  }
+
+  if (completedItems.length > 0) {
+    await archivePurchases(repo, userId, completedItems, now);
+    await repo.groceryItem.deleteMany({
+      where: { id: { in: completedItems.map((item) => item.id) } },
+    });
+  }
+
+  return { added, movedCount: completedItems.length };
+}
+
+// Reverse finishShoppingTrip: remove the lots it created and put the items
+// back on the list, still checked off and with their meal-plan sources,
+// taking them out of the purchase history again. Lots that have since been
+// used up or deleted are skipped; a lot that has been partly used or edited
+// can't be told apart from later changes, so the undo is refused.
+export async function undoShoppingTrip(
+  repo: ShoppingTripRepository,
+  userId: string,
+  listId: number,
+  entries: unknown,
+): Promise<ShoppingTripUndoResult> {
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new GroceryServiceError(400, "Missing required field: added (array)");
+  }
+
+  let removedLotCount = 0;
+  const restored = new Map<string, ShoppingTripEntry["groceryItem"]>();
+
+  const tripEntries = entries as Partial<ShoppingTripEntry>[];
+  for (const entry of tripEntries) {
+    if (!entry?.groceryItem?.name || !entry.pantryItemId || !entry.lotId) {
+      throw new GroceryServiceError(400, "Invalid shopping trip entry");
+    }
+
+    const pantryItem = await repo.pantryItem.findFirst({
+      where: { id: entry.pantryItemId, userId },
+      include: { lots: true },
+    });
+    const lot = pantryItem?.lots?.find((candidate) => candidate.id === entry.lotId);
+    if (lot && (lot.quantity !== entry.quantity || lot.amount !== entry.amount || lot.unit !== entry.unit)) {
+      throw new GroceryServiceError(
+        409,
+        `${pantryItem!.name} has been used or changed in the pantry since the trip, so it can't be undone`,
+      );
+    }
+  }
+
+  for (const entry of tripEntries as ShoppingTripEntry[]) {
+    try {
+      await deletePantryLot(repo, userId, String(entry.pantryItemId), String(entry.lotId));
+      removedLotCount++;
+    } catch (error) {
+      if (!(error instanceof PantryServiceError) || error.status !== 404) throw error;
+    }
+
+    restored.set(entry.groceryItem.name, entry.groceryItem);
+  }
+
+  for (const groceryItem of restored.values()) {
+    const name = String(groceryItem.name).trim().slice(0, 200);
+    const quantity = groceryItem.quantity ? String(groceryItem.quantity).trim().slice(0, 100) : null;
+    const category = String(groceryItem.category || "Uncategorized").trim().slice(0, 100);
+    const price = groceryItem.unitPrice === null || groceryItem.unitPrice === undefined
+      ? {}
+      : parseItemPrice({ unitPrice: groceryItem.unitPrice, priceUnit: groceryItem.priceUnit ?? "" });
+
+    const item = await repo.groceryItem.upsert({
+      where: { listId_name: { listId, name } },
+      update: { quantity, category, completed: true, ...price },
+      create: {
+        userId,
+        listId,
+        name,
+        quantity,
+        category,
+        completed: true,
+        fromMealPlan: Boolean(groceryItem.fromMealPlan),
+        ...price,
+      },
+    });
+
+    // Meal-plan retraction finds the item through these again
+    const sources = sanitizeSources(groceryItem.sources).map((source) => ({ ...source, groceryItemId: item.id }));
+    if (sources.length > 0) {
+      await repo.groceryItemSource.createMany({ data: sources });
+    }
+  }
+
+  // They're back on the list, so they haven't been bought yet after all
+  await unarchivePurchases(repo, userId, listId, [...restored.keys()]);
+
+  return { restoredCount: restored.size, removedLotCount };
+}
@@ -0,0 +1,347 @@
+import { formatQuantity } from "@/lib/grocery-consolidation";
+import {
+  getDefaultGroceryList,
+  GroceryServiceError,
+  type GroceryItemRecord,
+  type GroceryListRepository,
+} from "@/lib/grocery-service";
+import { normalize } from "@/lib/normalize";
+import { matchPantryIngredients, type PantryItemRecord } from "@/lib/pantry-service";
+
+// Grocery staples: things a user buys over and over. Each staple is put back
+// on a list either on a schedule ("every Monday") or when pantry stock falls
+// below its par level ("keep at least 2 l milk"). A staple that is already on
+// the list is never added twice.
+
+export interface GroceryStapleRecord {
+  id: number;
+  userId: string;
+  listId: number | null;
+  name: string;
+  canonName: string;
+  quantity: string | null;
+  category: string;
+  weekday: number | null;
+  intervalWeeks: number;
+  parAmount: number | null;
+  parUnit: string;
+  lastAddedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface GroceryStapleResponse {
+  id: number;
+  name: string;
+  quantity: string | null;
+  category: string;
+  listId: number | null;
+  weekday: number | null;
+  intervalWeeks: number;
+  parAmount: number | null;
+  parUnit: string;
+  lastAddedAt: string | null;
+}
+
+export interface GroceryStapleInput {
+  name?: string;
+  canonName?: string;
+  quantity?: string | null;
+  category?: string;
+  listId?: number | null;
+  weekday?: number | null;
+  intervalWeeks?: number;
+  parAmount?: number | null;
+  parUnit?: string;
+}
+
+export interface GroceryStapleRepository extends GroceryListRepository {
+  groceryStaple: {
+    findMany(args: { where: Record<string, unknown> }): Promise<GroceryStapleRecord[]>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<unknown>;
+  };
+  groceryItem: {
+    findMany(args: { where: Record<string, unknown> }): Promise<GroceryItemRecord[]>;
+    create(args: { data: Record<string, unknown> }): Promise<GroceryItemRecord>;
+  };
+  pantryItem: {
+    findMany(args: { where: Record<string, unknown>; include?: Record<string, unknown> | null }): Promise<PantryItemRecord[]>;
+  };
+}
+
+interface GroceryStapleLookupRepository {
+  groceryStaple: {
+    findFirst(args: { where: Record<string, unknown> }): Promise<GroceryStapleRecord | null>;
+  };
+}
+
+export const MAX_STAPLE_INTERVAL_WEEKS = 52;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+export function formatGroceryStapleResponse(staple: GroceryStapleRecord): GroceryStapleResponse {
+  return {
+    id: staple.id,
+    name: staple.name,
+    quantity: staple.quantity,
+    category: staple.category,
+    listId: staple.listId,
+    weekday: staple.weekday,
+    intervalWeeks: staple.intervalWeeks,
+    parAmount: staple.parAmount,
+    parUnit: staple.parUnit,
+    lastAddedAt: staple.lastAddedAt?.toISOString() ?? null,
+  };
+}
+
+export async function resolveGroceryStaple(
+  repo: GroceryStapleLookupRepository,
+  userId: string,
+  stapleIdValue: unknown,
+): Promise<GroceryStapleRecord> {
+  const stapleId = typeof stapleIdValue === "number" ? stapleIdValue : Number.parseInt(String(stapleIdValue), 10);
+  if (!Number.isInteger(stapleId) || stapleId <= 0) {
+    throw new GroceryServiceError(400, "Invalid staple id");
+  }
+
+  const staple = await repo.groceryStaple.findFirst({
+    where: { id: stapleId, userId },
+  });
+  if (!staple) {
+    throw new GroceryServiceError(404, "Staple not found");
+  }
+  return staple;
+}
+
+function parseOptionalInteger(value: unknown, fieldName: string): number | null {
+  if (value === null || value === "") return null;
+  const parsed = typeof value === "number" ? value : Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new GroceryServiceError(400, `${fieldName} must be an integer`);
+  }
+  return parsed;
+}
+
+// Validate the fields a request sets. With `existing`, omitted fields keep
+// their stored values when checking that the staple still has a trigger.
+export function sanitizeStapleInput(
+  body: Record<string, unknown>,
+  existing?: GroceryStapleRecord,
+): GroceryStapleInput {
+  const input: GroceryStapleInput = {};
+
+  if (body.name !== undefined || !existing) {
+    const name = typeof body.name === "string" ? body.name.trim().slice(0, 200) : "";
+    if (!name) {
+      throw new GroceryServiceError(400, "Missing required field: name");
+    }
+    input.name = name;
+    input.canonName = normalize(name) || name.toLowerCase();
+  }
+
+  if (body.quantity !== undefined) {
+    input.quantity = body.quantity ? String(body.quantity).trim().slice(0, 100) || null : null;
+  }
+
+  if (body.category !== undefined) {
+    const category = String(body.category ?? "").trim().slice(0, 100);
+    if (category) input.category = category;
+  }
+
+  if (body.listId !== undefined) {
+    const listId = parseOptionalInteger(body.listId, "listId");
+    if (listId !== null && listId <= 0) {
+      throw new GroceryServiceError(400, "Invalid listId");
+    }
+    input.listId = listId;
+  }
+
+  if (body.weekday !== undefined) {
+    const weekday = parseOptionalInteger(body.weekday, "weekday");
+    if (weekday !== null && (weekday < 0 || weekday > 6)) {
+      throw new GroceryServiceError(400, "weekday must be 0 (Sunday) to 6 (Saturday)");
+    }
+    input.weekday = weekday;
+  }
+
+  if (body.intervalWeeks !== undefined) {
+    const intervalWeeks = parseOptionalInteger(body.intervalWeeks, "intervalWeeks") ?? 1;
+    if (intervalWeeks < 1 || intervalWeeks > MAX_STAPLE_INTERVAL_WEEKS) {
+      throw new GroceryServiceError(400, `intervalWeeks must be 1 to ${MAX_STAPLE_INTERVAL_WEEKS}`);
+    }
+    input.intervalWeeks = intervalWeeks;
+  }
+
+  if (body.parAmount !== undefined) {
+    if (body.parAmount === null || body.parAmount === "") {
+      input.parAmount = null;
+    } else {
+      const parAmount = Number(body.parAmount);
+      if (!Number.isFinite(parAmount) || parAmount <= 0) {
+        throw new GroceryServiceError(400, "parAmount must be a positive number");
+      }
+      input.parAmount = parAmount;
+    }
+  }
+
+  if (body.parUnit !== undefined) {
+    input.parUnit = String(body.parUnit ?? "").trim().toLowerCase().slice(0, 50);
+  }
+
+  const weekday = input.weekday !== undefined ? input.weekday : existing?.weekday ?? null;
+  const parAmount = input.parAmount !== undefined ? input.parAmount : existing?.parAmount ?? null;
+  if (weekday === null && parAmount === null) {
+    throw new GroceryServiceError(400, "A staple needs a weekday or a par level");
+  }
+
+  return input;
+}
+
+function startOfUtcDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// The latest scheduled day on or before `now`, or null before the first one.
+// Schedules count from the first matching weekday on or after the staple was
+// created, so "every 2 weeks" stays on the same weeks.
+export function lastScheduledDate(
+  staple: Pick<GroceryStapleRecord, "weekday" | "intervalWeeks" | "createdAt">,
+  now: Date,
+): Date | null {
+  if (staple.weekday === null) return null;
+
+  const created = startOfUtcDay(staple.createdAt);
+  const first = created + ((staple.weekday - new Date(created).getUTCDay() + 7) % 7) * DAY_MS;
+  const today = startOfUtcDay(now);
+  if (today < first) return null;
+
+  const period = Math.max(1, staple.intervalWeeks) * WEEK_MS;
+  return new Date(first + Math.floor((today - first) / period) * period);
+}
+
+export function isStapleDue(staple: GroceryStapleRecord, now: Date): boolean {
+  const scheduled = lastScheduledDate(staple, now);
+  if (!scheduled) return false;
+  return !staple.lastAddedAt || staple.lastAddedAt.getTime() < scheduled.getTime();
+}
+
+// How far below par the pantry is, in the staple's par unit. Returns null when
+// stock is at or above par, or when it can't be compared (unknown amount or a
+// unit that doesn't convert) — better to add nothing than to add every time.
+export function stapleParShortfall(staple: GroceryStapleRecord, pantryItems: PantryItemRecord[]): number | null {
+  if (staple.parAmount === null) return null;
+
+  const [match] = matchPantryIngredients(pantryItems, [
+    { name: staple.canonName, amount: staple.parAmount, unit: staple.parUnit },
+  ]);
+
+  if (match.status === "unmatched") return staple.parAmount;
+  if (match.status === "unconvertible" || match.availableAmount === null) return null;
+
+  const shortfall = Math.round((staple.parAmount - match.availableAmount) * 100) / 100;
+  return shortfall > 0 ? shortfall : null;
+}
+
+// Put a staple on its list unless the list already has it. Returns the new
+// item, or null when it was already there.
+async function addStapleToList(
+  repo: GroceryStapleRepository,
+  staple: GroceryStapleRecord,
+  quantity: string | null,
+  listItems: Map<number, GroceryItemRecord[]>,
+): Promise<GroceryItemRecord | null> {
+  const listId = staple.listId ?? (await getDefaultGroceryList(repo, staple.userId)).id;
+
+  let items = listItems.get(listId);
+  if (!items) {
+    items = await repo.groceryItem.findMany({ where: { listId } });
+    listItems.set(listId, items);
+  }
+
+  if (items.some((item) => normalize(item.name) === staple.canonName)) {
+    return null;
+  }
+
+  const created = await repo.groceryItem.create({
+    data: {
+      userId: staple.userId,
+      listId,
+      name: staple.name,
+      quantity,
+      category: staple.category,
+      completed: false,
+      fromMealPlan: false,
+    },
+  });
+  items.push(created);
+  return created;
+}
+
+// Add every scheduled staple whose day has come since it was last added.
+// Runs when a list is loaded, so there is no background job to keep alive.
+export async function addDueStaples(
+  repo: GroceryStapleRepository,
+  userId: string,
+  now: Date = new Date(),
+): Promise<GroceryItemRecord[]> {
+  const staples = await repo.groceryStaple.findMany({
+    where: { userId, weekday: { not: null } },
+  });
+
+  const listItems = new Map<number, GroceryItemRecord[]>();
+  const added: GroceryItemRecord[] = [];
+
+  for (const staple of staples) {
+    if (!isStapleDue(staple, now)) continue;
+
+    const item = await addStapleToList(repo, staple, staple.quantity, listItems);
+    if (item) added.push(item);
+
+    // Count it as handled even when it was already on the list, so deleting
+    // it later doesn't bring it back until the next scheduled day
+    await repo.groceryStaple.update({
+      where: { id: staple.id },
+      data: { lastAddedAt: now },
+    });
+  }
+
+  return added;
+}
+
+// Add every par-level staple the pantry has dropped below. Called after
+// anything that takes stock out of the pantry.
+export async function replenishStaples(
+  repo: GroceryStapleRepository,
+  userId: string,
+  now: Date = new Date(),
+): Promise<GroceryItemRecord[]> {
+  const staples = await repo.groceryStaple.findMany({
+    where: { userId, parAmount: { not: null } },
+  });
+  if (staples.length === 0) return [];
+
+  const pantryItems = await repo.pantryItem.findMany({
+    where: { userId },
+    include: { lots: true },
+  });
+
+  const listItems = new Map<number, GroceryItemRecord[]>();
+  const added: GroceryItemRecord[] = [];
+
+  for (const staple of staples) {
+    const shortfall = stapleParShortfall(staple, pantryItems);
+    if (shortfall === null) continue;
+
+    const quantity = staple.quantity ?? (formatQuantity(shortfall, staple.parUnit) || null);
+    const item = await addStapleToList(repo, staple, quantity, listItems);
+    if (!item) continue;
+
+    added.push(item);
+    await repo.groceryStaple.update({
+      where: { id: staple.id },
+      data: { lastAddedAt: now },
+    });
+  }
+
+  return added;
+}
@@ -0,0 +1,56 @@
+import { GroceryServiceError } from "@/lib/grocery-service";
+
+// Offline edits to grocery items are queued on the device and replayed once
+// it is back online, possibly after someone else changed the same item. A
+// replayed edit says which version of the item it was made against (the
+// item's updatedAt at the time) and what the fields it changes held then. A
+// field the server has changed since keeps the server's value; everything
+// else the edit touches is applied.
+
+export interface FieldConflictResolution<T> {
+  changes: Partial<T>;
+  // Fields left at the server's value
+  conflicts: string[];
+}
+
+export function parseBaseUpdatedAt(value: unknown): Date | null {
+  if (value === undefined || value === null || value === "") return null;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) {
+    throw new GroceryServiceError(400, "baseUpdatedAt must be a date");
+  }
+  return date;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return (a ?? null) === (b ?? null);
+}
+
+// Drop the changes that would overwrite a newer server value. Without a
+// baseUpdatedAt (an ordinary online edit) everything is applied, and so is
+// every field the client sent no base value for.
+export function resolveFieldConflicts<T extends Record<string, unknown>>(
+  current: Record<string, unknown>,
+  currentUpdatedAt: Date | undefined,
+  changes: T,
+  base: unknown,
+  baseUpdatedAt: Date | null,
+): FieldConflictResolution<T> {
+  if (!baseUpdatedAt || !currentUpdatedAt || currentUpdatedAt <= baseUpdatedAt) {
+    return { changes, conflicts: [] };
+  }
+
+  const baseValues = base && typeof base === "object" ? (base as Record<string, unknown>) : {};
+  const resolved: Partial<T> = {};
+  const conflicts: string[] = [];
+
+  for (const field of Object.keys(changes) as (keyof T & string)[]) {
+    if (field in baseValues && !sameValue(current[field], baseValues[field])) {
+      conflicts.push(field);
+    } else {
+      resolved[field] = changes[field];
+    }
+  }
+
+  return { changes: resolved, conflicts };
+}
@@ -1,30 +1,49 @@
 // file: ingredient-aggregator.ts
 // Aggregates ingredients from weekly meal plans together cohesively
-// - Fetches recipe ingredient information via spoonacular API
+// - Scales each recipe's ingredients to the planned servings (the whole batch when
+//   extra is cooked for leftovers); leftover entries add nothing
+// - Drops staples and "to taste" ingredients
 // - Standardizes ingredient units across the same items
 // - Pools together items by type and category
 // - Produces human readable final output with reasonable units
+// - Records how much each meal-plan entry contributed to every line
+// Recipe data is loaded by the caller (see /api/meal-plan/grocery), so this
+// module stays free of network and database access.
 
-import { WeeklyMealPlan, MealPlanEntry, AggregatedIngredient } from './types/meal-plan';
-import { consolidateIngredients } from './grocery-consolidation';
+import { MealPlanEntry, AggregatedIngredient, IngredientContribution } from './types/meal-plan';
+import { consolidateIngredients, convertQuantityAmount } from './grocery-consolidation';
 
-// ExtendedIngredient type (copied from spoonacular.ts to avoid importing server-side code)
-interface ExtendedIngredient {
-  id: number;
-  aisle: string;
-  image: string;
+// Ingredient data for one recipe, from Spoonacular or a custom recipe
+export interface RecipeIngredientSource {
+  title: string;
+  ingredients: Array<{
+    name: string;
+    amount: number;
+    unit: string;
+    aisle?: string;
+    original?: string;
+  }>;
+}
+
+// A planned meal to aggregate. Entries saved in a plan also carry their slot,
+// which lets each grocery line remember which meals it was bought for. A slot
+// can hold several dishes (main + side); each is its own entry.
+export interface MealPlanIngredientEntry
+  extends Pick<MealPlanEntry, 'recipeId' | 'title' | 'servings' | 'originalServings'> {
+  entryId?: string;
+  date?: string;
+  mealType?: string;
+  cookedServings?: number | null;
+  leftoverOf?: string | null;
+}
+
+interface CollectedIngredient {
   name: string;
   amount: number;
   unit: string;
-  unitShort: string;
-  unitLong: string;
-  originalString: string;
-  metaInformation: string[];
-}
-
-interface RecipeInfo {
-  title: string;
-  extendedIngredients: ExtendedIngredient[];
+  category: string;
+  sourceRecipe: string;
+  entry: MealPlanIngredientEntry;
 }
 
 // --- Ingredient filtering constants ---
@@ -80,23 +99,8 @@ function isToTaste(originalString: string): boolean {
   return TO_TASTE_PATTERNS.some((pattern) => pattern.test(originalString));
 }
 
-// Fetch recipe information via API route (client-safe)
-async function fetchRecipeInfo(recipeId: number): Promise<RecipeInfo | null> {
-  try {
-    const response = await fetch(`/api/spoonacular/recipes/info?id=${recipeId}`);
-    if (!response.ok) {
-      console.error(`Failed to fetch recipe ${recipeId}: ${response.status}`);
-      return null;
-    }
-    return response.json();
-  } catch (error) {
-    console.error(`Error fetching recipe ${recipeId}:`, error);
-    return null;
-  }
-}
-
 // Map aisle to a simpler category
-function mapAisleToCategory(aisle: string): string {
+export function mapAisleToCategory(aisle: string): string {
   const lowerAisle = aisle.toLowerCase();
 
   if (lowerAisle.includes('produce') || lowerAisle.includes('vegetable') || lowerAisle.includes('fruit')) {
@@ -139,62 +143,76 @@ function mapAisleToCategory(aisle: string): string {
   return 'Pantry';
 }
 
-export async function aggregateIngredients(weekPlan: WeeklyMealPlan): Promise<AggregatedIngredient[]> {
-  // Collect all recipe IDs from the week plan
-  const recipeEntries: MealPlanEntry[] = [];
-
-  for (const day of weekPlan.days) {
-    if (day.breakfast) recipeEntries.push(day.breakfast);
-    if (day.lunch) recipeEntries.push(day.lunch);
-    if (day.dinner) recipeEntries.push(day.dinner);
-  }
-
-  if (recipeEntries.length === 0) {
-    return [];
-  }
-
-  // Fetch full recipe information for each recipe via API route
-  // Batch in groups of 4 to stay under Spoonacular's 5 req/sec limit
-  const uniqueRecipeIds = [...new Set(recipeEntries.map((e) => e.recipeId))];
-  const recipeInfoMap = new Map<number, { ingredients: ExtendedIngredient[]; title: string }>();
-
-  const BATCH_SIZE = 4;
-  for (let i = 0; i < uniqueRecipeIds.length; i += BATCH_SIZE) {
-    const batch = uniqueRecipeIds.slice(i, i + BATCH_SIZE);
-    await Promise.all(
-      batch.map(async (recipeId) => {
-        const info = await fetchRecipeInfo(recipeId);
-        if (info) {
-          recipeInfoMap.set(recipeId, {
-            ingredients: info.extendedIngredients || [],
-            title: info.title,
-          });
-        }
-      })
-    );
-    // Small delay between batches to avoid rate limiting
-    if (i + BATCH_SIZE < uniqueRecipeIds.length) {
-      await new Promise((resolve) => setTimeout(resolve, 250));
+// Split each aggregated line back into per-entry contributions, converted into
+// the line's unit. Amounts that can't be converted into any line are dropped.
+function attachContributions(
+  aggregated: AggregatedIngredient[],
+  collected: CollectedIngredient[]
+): AggregatedIngredient[] {
+  const contributions = new Map<AggregatedIngredient, Map<string, IngredientContribution>>();
+
+  for (const ingredient of collected) {
+    const { entryId, date, mealType } = ingredient.entry;
+    if (!entryId || !date || !mealType || ingredient.amount <= 0) continue;
+
+    for (const line of aggregated) {
+      if (line.name !== ingredient.name.trim()) continue;
+
+      const amount = convertQuantityAmount(ingredient.amount, ingredient.unit, line.unit, ingredient.name);
+      if (amount === null) continue;
+
+      if (!contributions.has(line)) contributions.set(line, new Map());
+      const byEntry = contributions.get(line)!;
+      const existing = byEntry.get(entryId);
+
+      if (existing) {
+        existing.amount += amount;
+      } else {
+        byEntry.set(entryId, {
+          mealEntryId: entryId,
+          recipeId: ingredient.entry.recipeId,
+          recipeTitle: ingredient.entry.title,
+          date,
+          mealType,
+          amount,
+          unit: line.unit,
+        });
+      }
+      break;
     }
   }
 
-  const collectedIngredients: Array<{
-    name: string;
-    amount: number;
-    unit: string;
-    category: string;
-    sourceRecipe: string;
-  }> = [];
+  return aggregated.map((line) => {
+    const byEntry = contributions.get(line);
+    if (!byEntry) return line;
+    return {
+      ...line,
+      sources: Array.from(byEntry.values()).map((source) => ({
+        ...source,
+        amount: Math.round(source.amount * 100) / 100,
+      })),
+    };
+  });
+}
+
+export function aggregateMealPlanIngredients(
+  entries: MealPlanIngredientEntry[],
+  recipes: Map<number, RecipeIngredientSource>
+): AggregatedIngredient[] {
+  const collectedIngredients: CollectedIngredient[] = [];
+  for (const entry of entries) {
+    // Leftovers were bought for with the batch they come from
+    if (entry.leftoverOf) continue;
 
-  for (const entry of recipeEntries) {
-    const recipeInfo = recipeInfoMap.get(entry.recipeId);
+    const recipeInfo = recipes.get(entry.recipeId);
     if (!recipeInfo) continue;
 
     // Calculate serving multiplier based on user's desired servings vs recipe's original servings
     // entry.servings = user's desired servings for this meal
-    // entry.originalServings = recipe's default servings (from Spoonacular)
+    // entry.cookedServings = servings cooked when extra is made for leftovers
+    // entry.originalServings = recipe's default servings
     const originalServings = entry.originalServings || 1;
-    const desiredServings = entry.servings || originalServings;
+    const desiredServings = entry.cookedServings || entry.servings || originalServings;
     const servingMultiplier = desiredServings / originalServings;
 
     for (const ingredient of recipeInfo.ingredients) {
@@ -212,10 +230,9 @@ export async function aggregateIngredients(weekPlan: WeeklyMealPlan): Promise<Ag
       if (EXCLUDED_STAPLES.has(key)) continue;
 
       // Solution 4: Skip "to taste" / non-quantified ingredients
-      if (isToTaste(ingredient.originalString)) continue;
+      if (isToTaste(ingredient.original ?? '')) continue;
 
       const adjustedAmount = (ingredient.amount || 0) * servingMultiplier;
-      const unit = ingredient.unit || ingredient.unitShort || ingredient.unitLong || '';
       const category = mapAisleToCategory(ingredient.aisle || 'Pantry');
       const displayName = INGREDIENT_ALIASES[ingredient.name.toLowerCase().trim()]
         ? key
@@ -224,11 +241,12 @@ export async function aggregateIngredients(weekPlan: WeeklyMealPlan): Promise<Ag
       collectedIngredients.push({
         name: displayName,
         amount: adjustedAmount,
-        unit,
+        unit: ingredient.unit || '',
         category,
         sourceRecipe: entry.title,
+        entry,
       });
     }
   }
-  return consolidateIngredients(collectedIngredients);
+  return attachContributions(consolidateIngredients(collectedIngredients), collectedIngredients);
 }
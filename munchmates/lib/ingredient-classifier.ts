@@ -0,0 +1,116 @@
+import { lookupIngredientAisle } from "@/lib/aisle-dictionary";
+import { normalize } from "@/lib/normalize";
+
+// Server-side ingredient → grocery category classifier for items added by hand
+// (typed, quick-added or recognised from a photo), where there is no Spoonacular
+// aisle to go on. Names are canonicalized with normalize() — which folds the
+// aliases in data/aliases.json.br — and looked up in the curated table in
+// lib/aisle-dictionary.ts. A category the user corrected wins over both.
+
+export const FALLBACK_CATEGORY = "Other";
+
+export type ClassificationSource = "correction" | "dictionary" | "fallback";
+
+export interface IngredientClassification {
+  canonName: string;
+  category: string;
+  source: ClassificationSource;
+}
+
+export interface ClassifyOptions {
+  // The user's categories; anything outside them falls back to "Other"
+  categories?: string[];
+  // canonName → category the user picked before
+  corrections?: Map<string, string>;
+}
+
+export interface IngredientClassifierRepository {
+  categoryCorrection: {
+    findFirst(args: { where: { userId: string; canonName: string } }): Promise<{ category: string } | null>;
+    upsert(args: {
+      where: { userId_canonName: { userId: string; canonName: string } };
+      update: { category: string };
+      create: { userId: string; canonName: string; category: string };
+    }): Promise<unknown>;
+    deleteMany(args: { where: { userId: string; canonName: string } }): Promise<unknown>;
+  };
+  groceryCategory: {
+    findMany(args: { where: { userId: string } }): Promise<{ name: string }[]>;
+  };
+}
+
+function isAvailable(category: string, categories?: string[]): boolean {
+  return !categories || categories.length === 0 || categories.includes(category);
+}
+
+function fallbackCategory(categories?: string[]): string {
+  if (isAvailable(FALLBACK_CATEGORY, categories)) return FALLBACK_CATEGORY;
+  return categories![categories!.length - 1];
+}
+
+// Classify a name that has already been through normalize()
+export function classifyCanonicalName(
+  canonName: string,
+  options: ClassifyOptions = {},
+  rawName?: string,
+): IngredientClassification {
+  const { categories, corrections } = options;
+
+  const corrected = corrections?.get(canonName);
+  if (corrected && isAvailable(corrected, categories)) {
+    return { canonName, category: corrected, source: "correction" };
+  }
+
+  // The raw name helps when normalize() maps to a taxonomy name the table doesn't know
+  const category = lookupIngredientAisle(canonName) ?? (rawName ? lookupIngredientAisle(rawName) : null);
+  if (category && isAvailable(category, categories)) {
+    return { canonName, category, source: "dictionary" };
+  }
+
+  return { canonName, category: fallbackCategory(categories), source: "fallback" };
+}
+
+export async function classifyIngredient(
+  repo: IngredientClassifierRepository,
+  userId: string,
+  name: string,
+): Promise<IngredientClassification> {
+  const canonName = normalize(name);
+  const [correction, categories] = await Promise.all([
+    repo.categoryCorrection.findFirst({ where: { userId, canonName } }),
+    repo.groceryCategory.findMany({ where: { userId } }),
+  ]);
+
+  return classifyCanonicalName(
+    canonName,
+    {
+      categories: categories.map((category) => category.name),
+      corrections: correction ? new Map([[canonName, correction.category]]) : undefined,
+    },
+    name,
+  );
+}
+
+// Remember the category a user moved an item to. Moving it back to what the
+// table would have picked anyway just forgets the correction.
+export async function recordCategoryCorrection(
+  repo: IngredientClassifierRepository,
+  userId: string,
+  name: string,
+  category: string,
+): Promise<void> {
+  const canonName = normalize(name);
+  if (!canonName || !category) return;
+
+  const suggested = classifyCanonicalName(canonName, {}, name);
+  if (suggested.source === "dictionary" && suggested.category === category) {
+    await repo.categoryCorrection.deleteMany({ where: { userId, canonName } });
+    return;
+  }
+
+  await repo.categoryCorrection.upsert({
+    where: { userId_canonName: { userId, canonName } },
+    update: { category },
+    create: { userId, canonName, category },
+  });
+}
@@ -0,0 +1,157 @@
+// lib/ingredient-density.ts
+// Per-ingredient conversion data for crossing unit kinds (volume <-> weight <-> count)
+// Keyed by canonical ingredient name as produced by normalize() in lib/normalize.ts
+// Used by pantry match/deduct and grocery consolidation
+
+import {
+  COUNT_MULTIPLIERS,
+  convertAmount,
+  convertToBase,
+  getUnitType,
+  normalizeUnit,
+} from './unit-conversion';
+
+// Grams per millilitre
+export const INGREDIENT_DENSITIES: Record<string, number> = {
+  water: 1,
+  milk: 1.03,
+  buttermilk: 1.03,
+  cream: 1.01,
+  'heavy cream': 1.01,
+  'sour cream': 1.01,
+  yogurt: 1.03,
+  butter: 0.96,
+  oil: 0.92,
+  'olive oil': 0.91,
+  'vegetable oil': 0.92,
+  'coconut oil': 0.92,
+  honey: 1.42,
+  'maple syrup': 1.32,
+  molasses: 1.4,
+  'soy sauce': 1.15,
+  vinegar: 1.01,
+  stock: 1,
+  broth: 1,
+  flour: 0.53,
+  'bread flour': 0.55,
+  'whole wheat flour': 0.51,
+  cornstarch: 0.54,
+  sugar: 0.85,
+  'granulated sugar': 0.85,
+  'brown sugar': 0.93,
+  'powdered sugar': 0.56,
+  'cocoa powder': 0.42,
+  'baking soda': 0.92,
+  'baking powder': 0.9,
+  salt: 1.2,
+  'kosher salt': 0.64,
+  rice: 0.85,
+  oat: 0.41,
+  'rolled oat': 0.41,
+  cornmeal: 0.65,
+  breadcrumb: 0.45,
+  'peanut butter': 1.08,
+  'chocolate chip': 0.72,
+  cheese: 0.45,
+  cheddar: 0.45,
+  'parmigiano reggiano': 0.4,
+  lentil: 0.82,
+  quinoa: 0.72,
+};
+
+// Typical weight in grams of one whole item
+export const EACH_WEIGHTS: Record<string, number> = {
+  egg: 50,
+  onion: 150,
+  shallot: 40,
+  carrot: 60,
+  potato: 170,
+  'sweet potato': 130,
+  tomato: 120,
+  'bell pepper': 150,
+  cucumber: 300,
+  zucchini: 200,
+  lemon: 100,
+  lime: 65,
+  orange: 130,
+  apple: 180,
+  banana: 120,
+  avocado: 170,
+  'garlic head': 50,
+  'chicken breast': 200,
+  'chicken thigh': 115,
+};
+
+// Count units that mean "whole items". Cloves, cans and slices are
+// different things per ingredient, so they never convert by weight.
+const EACH_UNITS = new Set(
+  Object.keys(COUNT_MULTIPLIERS).filter((unit) => unit !== 'clove' && unit !== 'cloves'),
+);
+
+function singularize(word: string): string[] {
+  if (word.endsWith('es')) return [word.slice(0, -1), word.slice(0, -2)];
+  if (word.endsWith('s')) return [word.slice(0, -1)];
+  return [];
+}
+
+// Find an ingredient in a table, falling back to its singular form and then
+// to shorter trailing phrases ("yellow onions" -> "onion")
+export function lookupIngredientFactor<T>(table: Record<string, T>, name: string): T | null {
+  const words = name.toLowerCase().trim().split(/\s+/).filter(Boolean);
+
+  for (let start = 0; start < words.length; start++) {
+    const phrase = words.slice(start);
+    const last = phrase[phrase.length - 1];
+    const candidates = [last, ...singularize(last)].map((word) => [...phrase.slice(0, -1), word].join(' '));
+
+    for (const candidate of candidates) {
+      if (table[candidate]) return table[candidate];
+    }
+  }
+
+  return null;
+}
+
+// Convert an ingredient amount to grams, using density for volumes and
+// typical item weight for counts. Returns null when there is no data.
+export function toGrams(amount: number, unit: string, name: string): number | null {
+  const normalized = normalizeUnit(unit);
+  const type = getUnitType(normalized);
+
+  if (type === 'weight') {
+    return convertToBase(amount, normalized)!.amount;
+  }
+
+  if (type === 'volume') {
+    const density = lookupIngredientFactor(INGREDIENT_DENSITIES, name);
+    return density ? convertToBase(amount, normalized)!.amount * density : null;
+  }
+
+  if (type === 'count' && EACH_UNITS.has(normalized)) {
+    const eachWeight = lookupIngredientFactor(EACH_WEIGHTS, name);
+    return eachWeight ? amount * COUNT_MULTIPLIERS[normalized] * eachWeight : null;
+  }
+
+  return null;
+}
+
+// Inverse of toGrams
+export function fromGrams(grams: number, unit: string, name: string): number | null {
+  const perUnit = toGrams(1, unit, name);
+  return perUnit ? grams / perUnit : null;
+}
+
+// Convert between any two units for a given ingredient. Same-kind units
+// convert directly; otherwise the amount goes through grams.
+export function convertIngredientAmount(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  name: string,
+): number | null {
+  const direct = convertAmount(amount, fromUnit, toUnit);
+  if (direct !== null) return direct;
+
+  const grams = toGrams(amount, fromUnit, name);
+  return grams === null ? null : fromGrams(grams, toUnit, name);
+}
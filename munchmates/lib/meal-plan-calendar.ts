@@ -0,0 +1,262 @@
+import { createHash } from "crypto";
+import { addDays, compareMealOrder, type MealEntryRow } from "@/lib/meal-plan";
+import { batchServings } from "@/lib/meal-plan-leftovers";
+import { MealPlanServiceError } from "@/lib/meal-plan-service";
+import { createShareToken } from "@/lib/share-token";
+
+// The meal plan as an iCalendar (.ics) feed that calendar apps subscribe to.
+// Each planned dish is an event at its slot's meal time, with a reminder to
+// start cooking readyInMinutes before it; leftovers have nothing to cook, so
+// no reminder. Slots without a time (a custom slot nobody set a time for)
+// become all-day events. Times are "floating" (no time zone), so dinner at
+// 18:30 shows at 18:30 wherever the calendar is. Optionally, pantry items
+// get an all-day event on the day they expire.
+
+export interface MealSlotTimeRecord {
+  name: string;
+  time: string | null;
+}
+
+export interface ExpiringPantryItem {
+  name: string;
+  quantity: string;
+  expiryDate: Date;
+}
+
+export interface MealPlanCalendarFeedRecord {
+  token: string;
+  includePantryExpiry: boolean;
+  createdAt: Date;
+}
+
+export interface MealPlanCalendarFeedResponse {
+  url: string;
+  webcalUrl: string;
+  includePantryExpiry: boolean;
+  createdAt: string;
+}
+
+export interface MealPlanCalendarInput {
+  meals: MealEntryRow[];
+  slots: MealSlotTimeRecord[]; // in planner order
+  expiringItems?: ExpiringPantryItem[];
+  // Keeps the UIDs of events that aren't tied to a meal entry apart when
+  // several feeds are subscribed in the same calendar account
+  feedToken: string;
+  origin: string;
+  now?: Date;
+}
+
+// When each of the usual slots is eaten, until the user sets their own time
+export const DEFAULT_MEAL_TIMES: Record<string, string> = {
+  breakfast: "08:00",
+  lunch: "12:30",
+  snack: "15:30",
+  dinner: "18:30",
+  dessert: "20:00",
+};
+
+export const MEAL_EVENT_MINUTES = 30;
+
+// How much of the plan the feed covers, around today
+export const CALENDAR_FEED_PAST_DAYS = 14;
+export const CALENDAR_FEED_FUTURE_DAYS = 60;
+
+const MEAL_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// "HH:MM" (24-hour) or null to go back to the slot's default time
+export function parseMealTime(value: unknown): string | null {
+  if (value === undefined || value === null || value === "") return null;
+  if (typeof value !== "string" || !MEAL_TIME_PATTERN.test(value.trim())) {
+    throw new MealPlanServiceError(400, "time must be HH:MM (24-hour)");
+  }
+  return value.trim();
+}
+
+// The time meals in a slot are eaten, or null for all-day events
+export function mealSlotTime(slot: MealSlotTimeRecord): string | null {
+  return slot.time ?? DEFAULT_MEAL_TIMES[slot.name] ?? null;
+}
+
+export function calendarFeedRange(today: string): { from: string; to: string } {
+  return { from: addDays(today, -CALENDAR_FEED_PAST_DAYS), to: addDays(today, CALENDAR_FEED_FUTURE_DAYS) };
+}
+
+// The token is the only thing protecting the feed, so it ends up in the URL;
+// ".ics" on the end keeps calendar apps that look at the extension happy
+export function calendarFeedPath(token: string): string {
+  return `/api/meal-plan/calendar/${encodeURIComponent(token)}.ics`;
+}
+
+export function createCalendarFeedToken(): string {
+  return createShareToken();
+}
+
+// A short stand-in for the token in event UIDs, which calendar apps may show
+// or sync elsewhere; the token itself has to stay secret
+export function calendarFeedId(token: string): string {
+  return createHash("sha256").update(token).digest("base64url").slice(0, 16);
+}
+
+export function formatCalendarFeedResponse(
+  feed: MealPlanCalendarFeedRecord,
+  origin: string,
+): MealPlanCalendarFeedResponse {
+  const url = new URL(calendarFeedPath(feed.token), origin).toString();
+  return {
+    url,
+    webcalUrl: url.replace(/^https?:/, "webcal:"),
+    includePantryExpiry: feed.includePantryExpiry,
+    createdAt: feed.createdAt.toISOString(),
+  };
+}
+
+export function buildMealPlanCalendar(input: MealPlanCalendarInput): string {
+  const stamp = formatUtcDateTime(input.now ?? new Date());
+  const host = new URL(input.origin).hostname;
+  const feedId = calendarFeedId(input.feedToken);
+  const times = new Map(input.slots.map((slot) => [slot.name, mealSlotTime(slot)]));
+  const order = compareMealOrder(input.slots.map((slot) => slot.name));
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//MunchMates//Meal Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:MunchMates meal plan",
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+  ];
+
+  for (const meal of [...input.meals].sort(order)) {
+    lines.push(...mealEvent(meal, times.get(meal.mealType) ?? DEFAULT_MEAL_TIMES[meal.mealType] ?? null, {
+      stamp,
+      host,
+      origin: input.origin,
+    }));
+  }
+
+  for (const [date, items] of groupByExpiryDate(input.expiringItems ?? [])) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:pantry-expiry-${date}-${feedId}@${host}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${compactDate(date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(date, 1))}`,
+      `SUMMARY:${escapeText(`Use up: ${items.map((item) => item.name).join(", ")}`)}`,
+      `DESCRIPTION:${escapeText(
+        ["Expiring in the pantry today:", ...items.map((item) => `${item.name} (${item.quantity})`)].join("\n"),
+      )}`,
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function mealEvent(
+  meal: MealEntryRow,
+  time: string | null,
+  context: { stamp: string; host: string; origin: string },
+): string[] {
+  const slot = meal.mealType.charAt(0).toUpperCase() + meal.mealType.slice(1);
+  const summary = `${slot}: ${meal.title}${meal.leftoverOf ? " (leftovers)" : ""}`;
+
+  const details = [`${meal.servings} serving${meal.servings === 1 ? "" : "s"}`];
+  if (meal.leftoverOf) {
+    details.push("Leftovers, nothing to cook");
+  } else {
+    const batch = batchServings(meal);
+    if (batch > meal.servings) details.push(`Cook ${batch} servings; the rest are leftovers`);
+    if (meal.readyInMinutes) details.push(`Ready in ${meal.readyInMinutes} min`);
+  }
+  const url = new URL(`/recipes/${meal.recipeId}`, context.origin).toString();
+
+  const lines = ["BEGIN:VEVENT", `UID:${meal.entryId}@${context.host}`, `DTSTAMP:${context.stamp}`];
+
+  if (time) {
+    const start = floatingDateTime(meal.date, time, 0);
+    lines.push(`DTSTART:${start}`, `DTEND:${floatingDateTime(meal.date, time, MEAL_EVENT_MINUTES)}`);
+  } else {
+    lines.push(
+      `DTSTART;VALUE=DATE:${compactDate(meal.date)}`,
+      `DTEND;VALUE=DATE:${compactDate(addDays(meal.date, 1))}`,
+      "TRANSP:TRANSPARENT",
+    );
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText([...details, url].join("\n"))}`,
+    `URL:${url}`,
+  );
+
+  // A reminder needs a time to count back from
+  if (time && !meal.leftoverOf && meal.readyInMinutes) {
+    lines.push(
+      "BEGIN:VALARM",
+      "ACTION:DISPLAY",
+      `DESCRIPTION:${escapeText(`Start cooking ${meal.title}`)}`,
+      `TRIGGER:-PT${meal.readyInMinutes}M`,
+      "END:VALARM",
+    );
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+function groupByExpiryDate(items: ExpiringPantryItem[]): [string, ExpiringPantryItem[]][] {
+  const byDate = new Map<string, ExpiringPantryItem[]>();
+  for (const item of items) {
+    const date = item.expiryDate.toISOString().split("T")[0];
+    byDate.set(date, [...(byDate.get(date) ?? []), item]);
+  }
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayItems]) => [date, [...dayItems].sort((a, b) => a.name.localeCompare(b.name))]);
+}
+
+function compactDate(date: string): string {
+  return date.replace(/-/g, "");
+}
+
+// A local date and time with no time zone, minutes later
+function floatingDateTime(date: string, time: string, minutes: number): string {
+  const [hours, mins] = time.split(":").map(Number);
+  const at = new Date(Date.parse(`${date}T00:00:00Z`) + ((hours * 60 + mins + minutes) * 60_000));
+  return formatUtcDateTime(at).slice(0, -1);
+}
+
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// RFC 5545 TEXT values: backslash, semicolon, comma and newline are escaped
+export function escapeText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// Lines longer than 75 bytes continue on the next line after a space,
+// without splitting a multi-byte character
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let bytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = "";
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
@@ -0,0 +1,419 @@
+import { daysBetween, normalizeSlotName } from "@/lib/meal-plan";
+import { MealPlanServiceError } from "@/lib/meal-plan-service";
+import { generateMealEntryId, type DayPlan, type MealPlanEntry, type MealType } from "@/lib/types/meal-plan";
+
+// Generates a plan from the user's own recipes (saved, shared collections and
+// custom) instead of Spoonacular's meal planner. Days are filled in order,
+// slot by slot. Each slot takes the best-scoring recipe that passes the hard
+// rules (intolerances, excluded ingredients, diet, max readyInMinutes, no
+// repeats within avoidRepeatDays); the score favours recipes that close the
+// gap to the day's calorie and protein goals and that use pantry items before
+// they expire. Recipes without diet labels (custom ones) can't be ruled in or
+// out by a diet, so they stay in but rank below recipes known to fit. A seeded
+// random jitter breaks ties and varies the plan, so the same seed and recipes
+// always give the same plan.
+
+export interface GeneratorRecipe {
+  recipeId: number;
+  title: string;
+  image?: string;
+  servings: number;
+  readyInMinutes: number | null;
+  calories: number | null; // per serving; null when not known
+  protein: number | null;
+  dishTypes: string[];
+  diets: string[] | null; // Spoonacular's diet labels, e.g. "lacto ovo vegetarian"; null when not known
+  ingredients: string[]; // as written, checked against intolerances and exclusions
+  ingredientKeys: string[]; // canonical names, matched against the pantry
+}
+
+export interface ExpiringIngredient {
+  key: string; // canonical name
+  name: string;
+  expiresOn: string; // YYYY-MM-DD
+}
+
+export interface MealPlanGeneratorOptions {
+  dates: string[];
+  slots: MealType[];
+  seed: string;
+  dailyCalories: number | null;
+  dailyProtein: number | null;
+  intolerances: string[];
+  exclude: string[];
+  diet: string | null;
+  maxReadyInMinutes: Record<MealType, number>;
+  avoidRepeatDays: number;
+  expiring: ExpiringIngredient[];
+  recentMeals: { recipeId: number; date: string }[]; // planned around the dates, for avoiding repeats
+  makeId?: () => string;
+}
+
+export interface GeneratedDayTotals {
+  date: string;
+  calories: number | null; // null when no meal's nutrition is known
+  protein: number | null;
+}
+
+export interface GeneratedMealPlan {
+  seed: string;
+  days: DayPlan[]; // every requested slot, empty when nothing fits
+  dailyTotals: GeneratedDayTotals[];
+  usesExpiring: string[]; // pantry items the plan uses before they expire
+  warnings: string[];
+}
+
+export interface MealPlanGeneratorRequest {
+  seed: string | null;
+  dailyCalories: number | null;
+  diet: string | null;
+  exclude: string[];
+  maxReadyInMinutes: Record<MealType, number>;
+  avoidRepeatDays: number;
+  slots: MealType[] | null;
+}
+
+export const DEFAULT_AVOID_REPEAT_DAYS = 7;
+export const MAX_AVOID_REPEAT_DAYS = 28;
+
+// Ingredient words each of the profile's intolerances rules out
+export const INTOLERANCE_INGREDIENTS: Record<string, string[]> = {
+  dairy: [
+    "milk", "cheese", "butter", "cream", "yogurt", "yoghurt", "whey", "casein", "ghee", "buttermilk",
+    "parmesan", "mozzarella", "cheddar", "ricotta", "feta", "mascarpone", "custard",
+  ],
+  egg: ["egg", "mayonnaise", "mayo", "meringue"],
+  gluten: ["wheat", "flour", "bread", "breadcrumb", "pasta", "spaghetti", "noodle", "barley", "rye", "couscous", "seitan", "tortilla"],
+  grain: ["wheat", "flour", "bread", "pasta", "spaghetti", "noodle", "rice", "oat", "corn", "barley", "rye", "quinoa", "millet", "couscous"],
+  peanut: ["peanut"],
+  seafood: [
+    "fish", "salmon", "tuna", "cod", "anchovy", "sardine", "tilapia", "halibut", "trout", "mackerel",
+    "shrimp", "prawn", "crab", "lobster", "clam", "mussel", "oyster", "scallop", "squid",
+  ],
+  sesame: ["sesame", "tahini"],
+  shellfish: ["shrimp", "prawn", "crab", "lobster", "clam", "mussel", "oyster", "scallop", "crawfish"],
+  soy: ["soy", "soya", "tofu", "edamame", "tempeh", "miso"],
+  sulfite: ["wine", "sulfite", "sulphite"],
+  "tree nut": ["almond", "walnut", "pecan", "cashew", "pistachio", "hazelnut", "macadamia", "brazil nut", "pine nut"],
+  wheat: ["wheat", "flour", "bread", "breadcrumb", "pasta", "spaghetti", "noodle", "couscous", "seitan"],
+};
+
+// Names that contain a dairy word but aren't dairy
+const DAIRY_LOOKALIKES = [
+  "peanut butter", "almond butter", "nut butter", "cocoa butter",
+  "coconut milk", "almond milk", "oat milk", "soy milk", "rice milk", "coconut cream", "cream of tartar",
+];
+
+// Spoonacular diet labels that satisfy each diet the planner offers
+const DIET_LABELS: Record<string, string[]> = {
+  "gluten free": ["gluten free"],
+  ketogenic: ["ketogenic"],
+  vegetarian: ["vegetarian", "lacto ovo vegetarian", "vegan"],
+  "lacto-vegetarian": ["lacto vegetarian", "lacto ovo vegetarian", "vegan"],
+  "ovo-vegetarian": ["ovo vegetarian", "lacto ovo vegetarian", "vegan"],
+  vegan: ["vegan"],
+  pescetarian: ["pescatarian", "pescetarian", "lacto ovo vegetarian", "vegan"],
+  paleo: ["paleolithic", "paleo"],
+  primal: ["primal", "paleolithic"],
+  "low fodmap": ["fodmap friendly", "low fodmap"],
+  whole30: ["whole 30", "whole30"],
+};
+
+// Dish types that suit each of the usual slots; other slots take anything
+const SLOT_DISH_TYPES: Record<string, string[]> = {
+  breakfast: ["breakfast", "morning meal", "brunch"],
+  lunch: ["lunch", "main course", "main dish", "salad", "soup", "sandwich"],
+  dinner: ["dinner", "main course", "main dish"],
+  snack: ["snack", "appetizer", "fingerfood", "side dish"],
+  dessert: ["dessert"],
+};
+
+// Share of the day's calories each slot should bring
+const SLOT_CALORIE_SHARE: Record<string, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.4,
+  snack: 0.1,
+  dessert: 0.1,
+};
+const OTHER_SLOT_CALORIE_SHARE = 0.2;
+
+const PROTEIN_WEIGHT = 0.5;
+const UNKNOWN_NUTRITION_PENALTY = 0.5;
+const UNKNOWN_DIET_PENALTY = 1;
+const EXPIRING_BONUS = 0.5;
+const JITTER = 0.15;
+// Days off the calorie goal by more than this are called out
+const CALORIE_TOLERANCE = 0.15;
+
+// A small, fast PRNG (mulberry32) seeded from a string, so a seed gives the same sequence everywhere
+export function seededRandom(seed: string): () => number {
+  let hash = 2166136261;
+  for (let i = 0; i < seed.length; i++) {
+    hash = Math.imul(hash ^ seed.charCodeAt(i), 16777619);
+  }
+  let state = hash >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function containsWord(text: string, word: string): boolean {
+  const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}(s|es)?\\b`).test(text);
+}
+
+// The intolerance or excluded ingredient that rules the recipe out, if any
+export function ruledOutBy(recipe: GeneratorRecipe, intolerances: string[], exclude: string[]): string | null {
+  const names = recipe.ingredients.map((name) => name.toLowerCase());
+
+  for (const intolerance of intolerances) {
+    const key = intolerance.trim().toLowerCase();
+    const words = INTOLERANCE_INGREDIENTS[key] ?? [key];
+    const hit = names.some((name) => {
+      const text = key === "dairy"
+        ? DAIRY_LOOKALIKES.reduce((rest, lookalike) => rest.replaceAll(lookalike, " "), name)
+        : name;
+      return words.some((word) => containsWord(text, word));
+    });
+    if (hit) return intolerance;
+  }
+
+  for (const ingredient of exclude) {
+    const word = ingredient.trim().toLowerCase();
+    if (word && names.some((name) => containsWord(name, word))) return ingredient;
+  }
+
+  return null;
+}
+
+// Whether the recipe's labels fit the diet; null when it has no labels to go by
+export function fitsDiet(recipe: GeneratorRecipe, diet: string | null): boolean | null {
+  if (!diet) return true;
+  if (recipe.diets === null) return null;
+  const key = diet.trim().toLowerCase();
+  const labels = DIET_LABELS[key] ?? [key];
+  return recipe.diets.some((label) => labels.includes(label.toLowerCase()));
+}
+
+function suitsSlot(recipe: GeneratorRecipe, slot: MealType): boolean {
+  const dishTypes = SLOT_DISH_TYPES[slot];
+  return !dishTypes || recipe.dishTypes.some((type) => dishTypes.includes(type.toLowerCase()));
+}
+
+export function generateMealPlan(recipes: GeneratorRecipe[], options: MealPlanGeneratorOptions): GeneratedMealPlan {
+  const random = seededRandom(options.seed);
+  const makeId = options.makeId ?? generateMealEntryId;
+  const warnings = new Set<string>();
+
+  // A stable order, so only the seed decides ties
+  const pool = [...recipes]
+    .sort((a, b) => a.recipeId - b.recipeId)
+    .filter((recipe) => !ruledOutBy(recipe, options.intolerances, options.exclude) && fitsDiet(recipe, options.diet) !== false);
+
+  const planned: { recipeId: number; date: string }[] = [...options.recentMeals];
+  const expiringLeft = new Map(options.expiring.map((item) => [item.key, item]));
+  const usesExpiring: string[] = [];
+  const shares = options.slots.map((slot) => SLOT_CALORIE_SHARE[slot] ?? OTHER_SLOT_CALORIE_SHARE);
+
+  const days: DayPlan[] = [];
+  const dailyTotals: GeneratedDayTotals[] = [];
+
+  for (const date of options.dates) {
+    const day: DayPlan = { date, meals: {} };
+    let calories = 0;
+    let protein = 0;
+    let knownNutrition = false;
+
+    options.slots.forEach((slot, slotIndex) => {
+      day.meals[slot] = [];
+
+      const maxMinutes = options.maxReadyInMinutes[slot];
+      const allowed = pool.filter(
+        (recipe) =>
+          maxMinutes === undefined || (recipe.readyInMinutes !== null && recipe.readyInMinutes <= maxMinutes),
+      );
+      if (allowed.length === 0) {
+        warnings.add(
+          maxMinutes === undefined
+            ? `Nothing in your recipes fits ${slot}, so it was left empty.`
+            : `Nothing in your recipes fits ${slot} in ${maxMinutes} minutes or less, so it was left empty.`,
+        );
+        return;
+      }
+
+      const suited = allowed.filter((recipe) => suitsSlot(recipe, slot));
+      const candidates = suited.length > 0 ? suited : allowed;
+
+      const lastPlanned = (recipe: GeneratorRecipe) => {
+        let closest = Number.POSITIVE_INFINITY;
+        for (const meal of planned) {
+          if (meal.recipeId === recipe.recipeId) {
+            closest = Math.min(closest, Math.abs(daysBetween(meal.date, date)));
+          }
+        }
+        return closest;
+      };
+      const fresh = candidates.filter((recipe) => lastPlanned(recipe) >= options.avoidRepeatDays);
+
+      // Aim for what's left of the day's goals, shared among the slots still to fill
+      const remainingShare = shares.slice(slotIndex).reduce((sum, share) => sum + share, 0);
+      const slotShare = shares[slotIndex] / remainingShare;
+      const calorieTarget = options.dailyCalories ? Math.max(options.dailyCalories - calories, 0) * slotShare : null;
+      const proteinTarget = options.dailyProtein ? Math.max(options.dailyProtein - protein, 0) * slotShare : null;
+
+      const score = (recipe: GeneratorRecipe) => {
+        let value = random() * JITTER;
+        if (fitsDiet(recipe, options.diet) === null) value -= UNKNOWN_DIET_PENALTY;
+        if (calorieTarget !== null) {
+          value -= recipe.calories === null
+            ? UNKNOWN_NUTRITION_PENALTY
+            : Math.abs(recipe.calories - calorieTarget) / Math.max(calorieTarget, 1);
+        }
+        if (proteinTarget !== null) {
+          value -= PROTEIN_WEIGHT * (recipe.protein === null
+            ? UNKNOWN_NUTRITION_PENALTY
+            : Math.abs(recipe.protein - proteinTarget) / Math.max(proteinTarget, 1));
+        }
+        for (const key of recipe.ingredientKeys) {
+          const item = expiringLeft.get(key);
+          if (item && date <= item.expiresOn) value += EXPIRING_BONUS;
+        }
+        return value;
+      };
+
+      let choice: GeneratorRecipe;
+      if (fresh.length > 0) {
+        choice = fresh[0];
+        let best = score(choice);
+        for (const recipe of fresh.slice(1)) {
+          const value = score(recipe);
+          if (value > best) {
+            best = value;
+            choice = recipe;
+          }
+        }
+      } else {
+        // Every option was planned too recently: repeat the one planned longest ago
+        choice = candidates.reduce((best, recipe) => (lastPlanned(recipe) > lastPlanned(best) ? recipe : best));
+        warnings.add(
+          `There aren't enough recipes for ${slot} to avoid repeats within ${options.avoidRepeatDays} days; some meals repeat.`,
+        );
+      }
+
+      const entry: MealPlanEntry = {
+        id: makeId(),
+        recipeId: choice.recipeId,
+        title: choice.title,
+        servings: choice.servings,
+        originalServings: choice.servings,
+      };
+      if (choice.image) entry.image = choice.image;
+      if (choice.readyInMinutes) entry.readyInMinutes = choice.readyInMinutes;
+      day.meals[slot] = [entry];
+      planned.push({ recipeId: choice.recipeId, date });
+
+      if (fitsDiet(choice, options.diet) === null) {
+        warnings.add(
+          `Some meals are your own recipes, which have no diet labels; check they're ${options.diet!.trim().toLowerCase()}.`,
+        );
+      }
+
+      if (choice.calories !== null) {
+        calories += choice.calories;
+        knownNutrition = true;
+      }
+      if (choice.protein !== null) protein += choice.protein;
+
+      for (const key of choice.ingredientKeys) {
+        const item = expiringLeft.get(key);
+        if (item && date <= item.expiresOn) {
+          usesExpiring.push(item.name);
+          expiringLeft.delete(key);
+        }
+      }
+    });
+
+    days.push(day);
+    dailyTotals.push({
+      date,
+      calories: knownNutrition ? Math.round(calories) : null,
+      protein: knownNutrition ? Math.round(protein) : null,
+    });
+  }
+
+  if (options.dailyCalories) {
+    const goal = options.dailyCalories;
+    const offDays = dailyTotals.filter(
+      (day) => day.calories !== null && Math.abs(day.calories - goal) > goal * CALORIE_TOLERANCE,
+    ).length;
+    if (offDays > 0) {
+      warnings.add(
+        `${offDays} day${offDays === 1 ? " is" : "s are"} more than ${CALORIE_TOLERANCE * 100}% off your ${goal} kcal goal with the recipes you have.`,
+      );
+    }
+  }
+
+  return { seed: options.seed, days, dailyTotals, usesExpiring, warnings: [...warnings] };
+}
+
+function optionalPositiveInteger(value: unknown, fieldName: string): number | null {
+  if (value === undefined || value === null || value === "") return null;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new MealPlanServiceError(400, `${fieldName} must be a positive integer`);
+  }
+  return number;
+}
+
+function stringList(value: unknown, fieldName: string): string[] {
+  if (value === undefined || value === null) return [];
+  if (typeof value === "string") return value.split(",").map((item) => item.trim()).filter(Boolean);
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.map((item) => item.trim()).filter(Boolean);
+  }
+  throw new MealPlanServiceError(400, `${fieldName} must be a list of strings`);
+}
+
+// The options POST /api/meal-plan/generate takes; goals, intolerances and the
+// pantry come from the user's profile and pantry instead
+export function parseGeneratorRequest(body: Record<string, unknown>): MealPlanGeneratorRequest {
+  const seed = body.seed === undefined || body.seed === null || body.seed === "" ? null : String(body.seed).slice(0, 64);
+
+  const maxReadyInMinutes: Record<MealType, number> = {};
+  if (body.maxReadyInMinutes !== undefined && body.maxReadyInMinutes !== null) {
+    if (typeof body.maxReadyInMinutes !== "object" || Array.isArray(body.maxReadyInMinutes)) {
+      throw new MealPlanServiceError(400, "maxReadyInMinutes must map slot names to minutes");
+    }
+    for (const [slot, minutes] of Object.entries(body.maxReadyInMinutes)) {
+      const max = optionalPositiveInteger(minutes, `maxReadyInMinutes.${slot}`);
+      if (max !== null) maxReadyInMinutes[normalizeSlotName(slot)] = max;
+    }
+  }
+
+  let avoidRepeatDays = DEFAULT_AVOID_REPEAT_DAYS;
+  if (body.avoidRepeatDays !== undefined && body.avoidRepeatDays !== null && body.avoidRepeatDays !== "") {
+    avoidRepeatDays = Number(body.avoidRepeatDays);
+    if (!Number.isInteger(avoidRepeatDays) || avoidRepeatDays < 0 || avoidRepeatDays > MAX_AVOID_REPEAT_DAYS) {
+      throw new MealPlanServiceError(400, `avoidRepeatDays must be a whole number from 0 to ${MAX_AVOID_REPEAT_DAYS}`);
+    }
+  }
+
+  const slots = body.slots === undefined || body.slots === null
+    ? null
+    : [...new Set(stringList(body.slots, "slots").map(normalizeSlotName).filter(Boolean))];
+
+  return {
+    seed,
+    dailyCalories: optionalPositiveInteger(body.dailyCalories, "dailyCalories"),
+    diet: typeof body.diet === "string" && body.diet.trim() ? body.diet.trim() : null,
+    exclude: stringList(body.exclude, "exclude"),
+    maxReadyInMinutes,
+    avoidRepeatDays,
+    slots: slots && slots.length > 0 ? slots : null,
+  };
+}
@@ -0,0 +1,120 @@
+import type { MealEntryRow } from "@/lib/meal-plan";
+import { generateMealEntryId, type MealPlanEntry } from "@/lib/types/meal-plan";
+
+// Cook once, eat it again later: a planned meal can be cooked in a bigger
+// batch than is eaten that day (cookedServings), and later entries marked as
+// leftovers of it (leftoverOf) eat from that batch instead of being cooked.
+// Grocery imports buy for the whole batch once and nothing for its leftovers.
+// What's left after cooking can go in the pantry (see addLeftoversToPantry).
+
+export interface LeftoverServing {
+  entryId: string;
+  date: string;
+  mealType: string;
+  servings: number;
+  beforeCooking: boolean; // planned on an earlier day than the batch is cooked
+}
+
+// A cooked meal and the leftovers planned from it
+export interface LeftoverBatch {
+  entryId: string;
+  recipeId: number;
+  title: string;
+  date: string;
+  mealType: string;
+  cookedServings: number;
+  servings: number; // eaten the day it's cooked
+  leftovers: LeftoverServing[];
+  remainingServings: number; // below zero when more leftovers are planned than were cooked
+}
+
+// Servings an entry that's cooked makes
+export function batchServings(entry: { servings: number; cookedServings?: number | null }): number {
+  return entry.cookedServings ?? entry.servings;
+}
+
+// A meal eating servings from source's batch; it takes the source's recipe
+export function leftoverEntry(source: MealPlanEntry, servings: number, id = generateMealEntryId()): MealPlanEntry {
+  const entry: MealPlanEntry = {
+    id,
+    recipeId: source.recipeId,
+    title: source.title,
+    servings,
+    originalServings: source.originalServings,
+    leftoverOf: source.id,
+  };
+  if (source.image) entry.image = source.image;
+  return entry;
+}
+
+// The batches among rows: every cooked entry with a batch size or with
+// leftovers planned, in the order they're cooked. Leftovers whose batch
+// isn't among rows are left out.
+export function summarizeLeftovers(rows: MealEntryRow[]): LeftoverBatch[] {
+  const byEntryId = new Map(rows.map((row) => [row.entryId, row]));
+  const batches = new Map<string, LeftoverBatch>();
+
+  const batchOf = (source: MealEntryRow): LeftoverBatch => {
+    let batch = batches.get(source.entryId);
+    if (!batch) {
+      batch = {
+        entryId: source.entryId,
+        recipeId: source.recipeId,
+        title: source.title,
+        date: source.date,
+        mealType: source.mealType,
+        cookedServings: batchServings(source),
+        servings: source.servings,
+        leftovers: [],
+        remainingServings: 0,
+      };
+      batches.set(source.entryId, batch);
+    }
+    return batch;
+  };
+
+  for (const row of rows) {
+    if (!row.leftoverOf) {
+      if (row.cookedServings !== null) batchOf(row);
+      continue;
+    }
+
+    const source = byEntryId.get(row.leftoverOf);
+    if (!source || source.leftoverOf) continue;
+    batchOf(source).leftovers.push({
+      entryId: row.entryId,
+      date: row.date,
+      mealType: row.mealType,
+      servings: row.servings,
+      beforeCooking: row.date < source.date,
+    });
+  }
+
+  return [...batches.values()]
+    .map((batch) => {
+      const planned = batch.leftovers.reduce((sum, leftover) => sum + leftover.servings, 0);
+      return {
+        ...batch,
+        leftovers: [...batch.leftovers].sort((a, b) => a.date.localeCompare(b.date)),
+        remainingServings: batch.cookedServings - batch.servings - planned,
+      };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date) || a.entryId.localeCompare(b.entryId));
+}
+
+// Batches the planner should warn about
+export function leftoverWarnings(batches: LeftoverBatch[]): string[] {
+  const warnings: string[] = [];
+  for (const batch of batches) {
+    if (batch.remainingServings < 0) {
+      const planned = batch.cookedServings - batch.remainingServings;
+      warnings.push(
+        `${batch.title}: ${planned} servings are planned from a batch of ${batch.cookedServings}. Cook more or plan fewer leftovers.`,
+      );
+    }
+    if (batch.leftovers.some((leftover) => leftover.beforeCooking)) {
+      warnings.push(`${batch.title}: leftovers are planned before it's cooked on ${batch.date}.`);
+    }
+  }
+  return warnings;
+}
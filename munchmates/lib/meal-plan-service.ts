@@ -0,0 +1,575 @@
+import { errorResponse, handleRouteError } from "@/lib/apiErrors";
+import {
+  diffMealEntryRetractions,
+  retractMealEntryContributions,
+  type GroceryRetractionRepository,
+  type GroceryRetractionResult,
+} from "@/lib/grocery-service";
+import {
+  addDays,
+  buildWeeklyPlan,
+  daysBetween,
+  findMealEntry,
+  flattenWeeklyPlan,
+  MAX_PLAN_RANGE_DAYS,
+  type MealEntryLocation,
+  type MealEntryRow,
+  normalizeSlotName,
+  weekDates,
+  weekStartOf,
+} from "@/lib/meal-plan";
+import { batchServings, leftoverEntry, type LeftoverBatch, summarizeLeftovers } from "@/lib/meal-plan-leftovers";
+import { generateMealEntryId, type MealPlanEntry, type WeeklyMealPlan } from "@/lib/types/meal-plan";
+
+// Every write to a week goes through writeWeeklyPlan: the client says which
+// version of the plan it last saw, the write bumps the version, and a write
+// made against an older version is refused with the plan as it is now, so two
+// tabs or devices can't silently overwrite each other. Only the entries that
+// actually changed are written. Removing a meal that was cooked for leftovers
+// turns its leftovers, in any week, back into meals that are cooked.
+
+export interface WeeklyMealPlanRecord {
+  id: number;
+  userId: string;
+  weekStart: string;
+  version: number;
+}
+
+export type MealEntryRecord = MealEntryRow & { id: number };
+
+export interface MealPlanRepository extends GroceryRetractionRepository {
+  weeklyMealPlan: {
+    findUnique(args: {
+      where: { userId_weekStart: { userId: string; weekStart: string } };
+      include: { meals: true };
+    }): Promise<(WeeklyMealPlanRecord & { meals: MealEntryRecord[] }) | null>;
+    upsert(args: {
+      where: { userId_weekStart: { userId: string; weekStart: string } };
+      update: Record<string, never>;
+      create: { userId: string; weekStart: string };
+    }): Promise<WeeklyMealPlanRecord>;
+    updateMany(args: {
+      where: { id: number; version: number };
+      data: { version: { increment: number } };
+    }): Promise<{ count: number }>;
+  };
+  mealEntry: {
+    findMany(args: { where: { mealPlanId: number } }): Promise<MealEntryRecord[]>;
+    createMany(args: { data: (MealEntryRow & { mealPlanId: number })[] }): Promise<unknown>;
+    update(args: { where: { id: number }; data: Partial<MealEntryRow> }): Promise<unknown>;
+    updateMany(args: {
+      where: { leftoverOf: { in: string[] }; mealPlanId: { not: number }; mealPlan: { userId: string } };
+      data: { leftoverOf: null };
+    }): Promise<unknown>;
+    deleteMany(args: { where: { id: { in: number[] } } }): Promise<unknown>;
+  };
+  groceryItemSource: GroceryRetractionRepository["groceryItemSource"] & {
+    updateMany(args: {
+      where: Record<string, unknown>;
+      data: { date: string; mealType: string };
+    }): Promise<unknown>;
+  };
+}
+
+// Reading entries by date, whichever week they were saved under
+export interface MealPlanRangeRepository {
+  mealEntry: {
+    findMany(args: {
+      where: { date: { gte: string; lte: string }; mealPlan: { userId: string } };
+    }): Promise<MealEntryRecord[]>;
+  };
+}
+
+// Finding the batches leftovers come from, whichever week they were saved under
+export interface MealPlanLeftoverRepository {
+  mealEntry: {
+    findFirst(args: { where: { entryId: string; mealPlan: { userId: string } } }): Promise<MealEntryRecord | null>;
+    findMany(args: {
+      where: {
+        mealPlan: { userId: string };
+        OR: [{ entryId: { in: string[] } }, { leftoverOf: { in: string[] } }];
+      };
+    }): Promise<MealEntryRecord[]>;
+  };
+}
+
+// Checking the batches the leftovers in a posted week eat from
+export interface MealPlanLeftoverSourceRepository {
+  mealEntry: {
+    findMany(args: { where: { entryId: { in: string[] }; mealPlan: { userId: string } } }): Promise<MealEntryRecord[]>;
+  };
+}
+
+// Moving entries between weeks when the user's week start day changes
+export interface MealPlanWeekRepository {
+  weeklyMealPlan: {
+    findMany(args: {
+      where: { userId: string };
+      include: { meals: true };
+    }): Promise<(WeeklyMealPlanRecord & { meals: MealEntryRecord[] })[]>;
+    upsert: MealPlanRepository["weeklyMealPlan"]["upsert"];
+    updateMany(args: {
+      where: { id: { in: number[] } };
+      data: { version: { increment: number } };
+    }): Promise<{ count: number }>;
+    deleteMany(args: { where: { id: { in: number[] } } }): Promise<unknown>;
+  };
+  mealEntry: {
+    updateMany(args: { where: { id: { in: number[] } }; data: { mealPlanId: number } }): Promise<unknown>;
+  };
+}
+
+export interface WeeklyPlanWriteResult {
+  plan: WeeklyMealPlan;
+  groceryRetraction: GroceryRetractionResult;
+}
+
+export class MealPlanServiceError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "MealPlanServiceError";
+  }
+}
+
+// The write was made against an older version; carries the current plan so
+// the client can show it instead of retrying blind
+export class MealPlanConflictError extends MealPlanServiceError {
+  constructor(public readonly plan: WeeklyMealPlan) {
+    super(409, "This week was changed somewhere else. Showing the latest plan.");
+    this.name = "MealPlanConflictError";
+  }
+}
+
+// The error response for meal-plan routes: a conflict answers with the
+// current plan, other service errors with their status
+export function mealPlanErrorResponse(error: unknown, context: string) {
+  if (error instanceof MealPlanConflictError) {
+    return errorResponse(error.status, error.message, "CONFLICT", { plan: error.plan });
+  }
+  if (error instanceof MealPlanServiceError) {
+    return errorResponse(error.status, error.message);
+  }
+  return handleRouteError(error, context);
+}
+
+export function parsePlanDate(value: unknown, fieldName = "date"): string {
+  const date = String(value ?? "");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date + "T00:00:00").getTime())) {
+    throw new MealPlanServiceError(400, `${fieldName} must be a YYYY-MM-DD date`);
+  }
+  return date;
+}
+
+export function parseWeekStart(value: unknown): string {
+  return parsePlanDate(value, "weekStart");
+}
+
+// The dates a read covers: from through to, or the week starting at weekStart
+export function parsePlanRange(params: { weekStart?: unknown; from?: unknown; to?: unknown }): {
+  from: string;
+  to: string;
+} {
+  const given = (value: unknown) => value !== undefined && value !== null && value !== "";
+
+  if (!given(params.from) && !given(params.to)) {
+    if (!given(params.weekStart)) {
+      throw new MealPlanServiceError(400, "Pass weekStart, or from and to");
+    }
+    const weekStart = parseWeekStart(params.weekStart);
+    return { from: weekStart, to: addDays(weekStart, 6) };
+  }
+
+  const from = parsePlanDate(params.from, "from");
+  const to = parsePlanDate(params.to, "to");
+  if (to < from) {
+    throw new MealPlanServiceError(400, "to must not be before from");
+  }
+  if (daysBetween(from, to) + 1 > MAX_PLAN_RANGE_DAYS) {
+    throw new MealPlanServiceError(400, `A range can cover at most ${MAX_PLAN_RANGE_DAYS} days`);
+  }
+  return { from, to };
+}
+
+export function parsePlanVersion(value: unknown): number {
+  const version = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+    throw new MealPlanServiceError(400, "version must be the plan version the change was made against");
+  }
+  return version;
+}
+
+// Where an entry goes: a day of the week, a slot and optionally a position in it
+export function parseSlotTarget(
+  body: Record<string, unknown>,
+  weekStart: string,
+): { dayDate: string; mealType: string; index?: number } {
+  const dayDate = String(body.date ?? "");
+  if (!weekDates(weekStart).includes(dayDate)) {
+    throw new MealPlanServiceError(400, "date must be a day of the week being planned");
+  }
+
+  const mealType = normalizeSlotName(body.mealType);
+  if (!mealType) {
+    throw new MealPlanServiceError(400, "Missing required field: mealType");
+  }
+
+  if (body.index === undefined || body.index === null) return { dayDate, mealType };
+  const index = Number(body.index);
+  if (!Number.isInteger(index) || index < 0) {
+    throw new MealPlanServiceError(400, "index must be a non-negative integer");
+  }
+  return { dayDate, mealType, index };
+}
+
+function positiveInteger(value: unknown, fieldName: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new MealPlanServiceError(400, `${fieldName} must be a positive integer`);
+  }
+  return number;
+}
+
+export function parseServings(value: unknown): number {
+  return positiveInteger(value, "servings");
+}
+
+// A batch size, or null to cook just the servings eaten
+export function parseCookedServings(value: unknown): number | null {
+  return value === null ? null : positiveInteger(value, "cookedServings");
+}
+
+// A new entry from the request body; the id is generated unless the client sent one
+export function parseMealEntryInput(value: unknown): MealPlanEntry {
+  if (!value || typeof value !== "object") {
+    throw new MealPlanServiceError(400, "Missing required field: entry");
+  }
+  const input = value as Record<string, unknown>;
+
+  const title = String(input.title ?? "").trim().slice(0, 200);
+  if (!title) {
+    throw new MealPlanServiceError(400, "Missing required field: entry.title");
+  }
+
+  const servings = positiveInteger(input.servings, "entry.servings");
+  const entry: MealPlanEntry = {
+    id: String(input.id ?? "").trim().slice(0, 100) || generateMealEntryId(),
+    recipeId: positiveInteger(input.recipeId, "entry.recipeId"),
+    title,
+    servings,
+    originalServings:
+      input.originalServings === undefined ? servings : positiveInteger(input.originalServings, "entry.originalServings"),
+  };
+  if (typeof input.image === "string" && input.image) entry.image = input.image;
+  if (input.readyInMinutes !== undefined && input.readyInMinutes !== null) {
+    entry.readyInMinutes = positiveInteger(input.readyInMinutes, "entry.readyInMinutes");
+  }
+  if (input.cookedServings !== undefined && input.cookedServings !== null) {
+    entry.cookedServings = positiveInteger(input.cookedServings, "entry.cookedServings");
+  }
+  if (typeof input.leftoverOf === "string" && input.leftoverOf.trim()) {
+    if (entry.cookedServings !== undefined) {
+      throw new MealPlanServiceError(400, "Leftovers aren't cooked, so they can't have cookedServings");
+    }
+    entry.leftoverOf = input.leftoverOf.trim().slice(0, 100);
+  }
+  return entry;
+}
+
+// Check the meal a leftover entry eats from and give the entry its recipe.
+// The batch can be in any week, but has to be cooked by the day it's eaten.
+export async function linkLeftoverEntry(
+  repo: MealPlanLeftoverRepository,
+  userId: string,
+  entry: MealPlanEntry,
+  date: string,
+): Promise<MealPlanEntry> {
+  if (!entry.leftoverOf) return entry;
+
+  const source = await repo.mealEntry.findFirst({ where: { entryId: entry.leftoverOf, mealPlan: { userId } } });
+  if (!source) {
+    throw new MealPlanServiceError(404, "The meal these leftovers come from wasn't found");
+  }
+  if (source.leftoverOf) {
+    throw new MealPlanServiceError(400, "Leftovers can't come from other leftovers");
+  }
+  if (date < source.date) {
+    throw new MealPlanServiceError(400, "Leftovers can't be planned before the meal is cooked");
+  }
+
+  return leftoverEntry(
+    {
+      id: source.entryId,
+      recipeId: source.recipeId,
+      title: source.title,
+      image: source.image ?? undefined,
+      servings: source.servings,
+      originalServings: source.originalServings,
+    },
+    entry.servings,
+    entry.id,
+  );
+}
+
+// Check a whole week posted by the client. Every day has to be in the week.
+// Leftovers have to eat from one of the user's meals, in this week or any
+// other, cooked by the day they're eaten; links that don't are dropped, so
+// the meal is cooked (and shopped for) like any other.
+export async function checkPostedWeeklyPlan(
+  repo: MealPlanLeftoverSourceRepository,
+  userId: string,
+  plan: WeeklyMealPlan,
+): Promise<WeeklyMealPlan> {
+  const dates = weekDates(plan.weekStart);
+  const outside = plan.days.find((day) => !dates.includes(day.date));
+  if (outside) {
+    throw new MealPlanServiceError(400, `${outside.date} isn't in the week starting ${plan.weekStart}`);
+  }
+
+  const rows = flattenWeeklyPlan(plan);
+  const cookedOn = new Map(rows.filter((row) => !row.leftoverOf).map((row) => [row.entryId, row.date]));
+  const elsewhere = [
+    ...new Set(rows.flatMap((row) => (row.leftoverOf && !cookedOn.has(row.leftoverOf) ? [row.leftoverOf] : []))),
+  ];
+  if (elsewhere.length > 0) {
+    const stored = await repo.mealEntry.findMany({ where: { entryId: { in: elsewhere }, mealPlan: { userId } } });
+    for (const entry of stored) {
+      if (!entry.leftoverOf) cookedOn.set(entry.entryId, entry.date);
+    }
+  }
+
+  const checkLeftover = (entry: MealPlanEntry, date: string): MealPlanEntry => {
+    if (!entry.leftoverOf) return entry;
+    const cooked = cookedOn.get(entry.leftoverOf);
+    return cooked !== undefined && cooked <= date ? entry : { ...entry, leftoverOf: undefined };
+  };
+
+  return {
+    ...plan,
+    days: plan.days.map((day) => ({
+      date: day.date,
+      meals: Object.fromEntries(
+        Object.entries(day.meals).map(([mealType, entries]) => [
+          mealType,
+          entries.map((entry) => checkLeftover(entry, day.date)),
+        ]),
+      ),
+    })),
+  };
+}
+
+export function requireMealEntry(plan: WeeklyMealPlan, entryId: unknown): MealEntryLocation {
+  const location = findMealEntry(plan, String(entryId ?? ""));
+  if (!location) {
+    throw new MealPlanServiceError(404, "Meal entry not found");
+  }
+  return location;
+}
+
+export async function loadWeeklyPlan(
+  repo: MealPlanRepository,
+  userId: string,
+  weekStart: string,
+): Promise<WeeklyMealPlan | null> {
+  const record = await repo.weeklyMealPlan.findUnique({
+    where: { userId_weekStart: { userId, weekStart } },
+    include: { meals: true },
+  });
+  return record ? buildWeeklyPlan(weekStart, record.meals, record.version) : null;
+}
+
+// Every entry planned from one date to another
+export function loadPlannedMeals(
+  repo: MealPlanRangeRepository,
+  userId: string,
+  range: { from: string; to: string },
+): Promise<MealEntryRecord[]> {
+  return repo.mealEntry.findMany({
+    where: { date: { gte: range.from, lte: range.to }, mealPlan: { userId } },
+  });
+}
+
+// The batches cooked or eaten from between two dates, with all of their
+// leftovers wherever they're planned
+export async function loadLeftoverBatches(
+  repo: MealPlanRangeRepository & MealPlanLeftoverRepository,
+  userId: string,
+  range: { from: string; to: string },
+): Promise<LeftoverBatch[]> {
+  const meals = await loadPlannedMeals(repo, userId, range);
+  const entryIds = new Set<string>();
+  for (const meal of meals) {
+    entryIds.add(meal.leftoverOf ?? meal.entryId);
+  }
+  if (entryIds.size === 0) return [];
+
+  const ids = Array.from(entryIds);
+  const rows = await repo.mealEntry.findMany({
+    where: { mealPlan: { userId }, OR: [{ entryId: { in: ids } }, { leftoverOf: { in: ids } }] },
+  });
+  return summarizeLeftovers(rows);
+}
+
+// Weeks are stored under their first day, so a new week start day moves each
+// entry into the week it now belongs to. Weeks that started on the old day end
+// up empty and are dropped; every week that changed gets a new version, so
+// open planners reload instead of writing to the old weeks.
+export async function realignMealPlanWeeks(
+  repo: MealPlanWeekRepository,
+  userId: string,
+  weekStartDay: number,
+): Promise<{ movedCount: number }> {
+  const plans = await repo.weeklyMealPlan.findMany({ where: { userId }, include: { meals: true } });
+
+  const moves = new Map<string, number[]>();
+  for (const plan of plans) {
+    for (const meal of plan.meals) {
+      const weekStart = weekStartOf(meal.date, weekStartDay);
+      if (weekStart === plan.weekStart) continue;
+      const ids = moves.get(weekStart) ?? [];
+      ids.push(meal.id);
+      moves.set(weekStart, ids);
+    }
+  }
+
+  const targetIds: number[] = [];
+  let movedCount = 0;
+  for (const [weekStart, ids] of moves) {
+    const target = await repo.weeklyMealPlan.upsert({
+      where: { userId_weekStart: { userId, weekStart } },
+      update: {},
+      create: { userId, weekStart },
+    });
+    await repo.mealEntry.updateMany({ where: { id: { in: ids } }, data: { mealPlanId: target.id } });
+    targetIds.push(target.id);
+    movedCount += ids.length;
+  }
+
+  const staleIds = plans
+    .filter((plan) => weekStartOf(plan.weekStart, weekStartDay) !== plan.weekStart)
+    .map((plan) => plan.id);
+  if (staleIds.length > 0) {
+    await repo.weeklyMealPlan.deleteMany({ where: { id: { in: staleIds } } });
+  }
+
+  if (targetIds.length > 0) {
+    await repo.weeklyMealPlan.updateMany({
+      where: { id: { in: targetIds } },
+      data: { version: { increment: 1 } },
+    });
+  }
+
+  return { movedCount };
+}
+
+const ENTRY_FIELDS = [
+  "date",
+  "mealType",
+  "position",
+  "recipeId",
+  "title",
+  "image",
+  "servings",
+  "originalServings",
+  "readyInMinutes",
+  "cookedServings",
+  "leftoverOf",
+] as const;
+
+// Apply one change to a week. Runs inside the caller's transaction: the
+// conditional version bump locks the plan row, so a concurrent write waits
+// and then finds the version moved on. A week never saved is version 0.
+export async function writeWeeklyPlan(
+  repo: MealPlanRepository,
+  userId: string,
+  weekStart: string,
+  expectedVersion: number,
+  edit: (plan: WeeklyMealPlan) => WeeklyMealPlan,
+): Promise<WeeklyPlanWriteResult> {
+  const mealPlan = await repo.weeklyMealPlan.upsert({
+    where: { userId_weekStart: { userId, weekStart } },
+    update: {},
+    create: { userId, weekStart },
+  });
+
+  const bumped = await repo.weeklyMealPlan.updateMany({
+    where: { id: mealPlan.id, version: expectedVersion },
+    data: { version: { increment: 1 } },
+  });
+  if (bumped.count === 0) {
+    const current = await loadWeeklyPlan(repo, userId, weekStart);
+    throw new MealPlanConflictError(current ?? buildWeeklyPlan(weekStart, []));
+  }
+
+  const previousEntries = await repo.mealEntry.findMany({ where: { mealPlanId: mealPlan.id } });
+  const next = edit(buildWeeklyPlan(weekStart, previousEntries, expectedVersion));
+  const nextEntries = flattenWeeklyPlan(next);
+
+  const previousById = new Map(previousEntries.map((entry) => [entry.entryId, entry]));
+  const nextIds = new Set(nextEntries.map((entry) => entry.entryId));
+  const removed = previousEntries.filter((entry) => !nextIds.has(entry.entryId));
+
+  // Leftovers of a removed meal have nothing to eat from any more
+  const removedEntryIds = removed.map((entry) => entry.entryId);
+  for (const entry of nextEntries) {
+    if (entry.leftoverOf && removedEntryIds.includes(entry.leftoverOf)) {
+      entry.leftoverOf = null;
+    }
+  }
+
+  // A batch's groceries were bought for every serving it makes
+  const cooked = (entry: MealEntryRow) => ({ ...entry, servings: batchServings(entry) });
+  const groceryRetraction = await retractMealEntryContributions(
+    repo,
+    userId,
+    diffMealEntryRetractions(previousEntries.map(cooked), nextEntries.map(cooked)),
+  );
+
+  if (removed.length > 0) {
+    await repo.mealEntry.deleteMany({ where: { id: { in: removed.map((entry) => entry.id) } } });
+    await repo.mealEntry.updateMany({
+      where: { leftoverOf: { in: removedEntryIds }, mealPlanId: { not: mealPlan.id }, mealPlan: { userId } },
+      data: { leftoverOf: null },
+    });
+  }
+
+  const created: MealEntryRow[] = [];
+  for (const entry of nextEntries) {
+    const previous = previousById.get(entry.entryId);
+    if (!previous) {
+      created.push(entry);
+      continue;
+    }
+
+    const changes: Partial<MealEntryRow> = {};
+    for (const field of ENTRY_FIELDS) {
+      if ((previous[field] ?? null) !== (entry[field] ?? null)) {
+        Object.assign(changes, { [field]: entry[field] });
+      }
+    }
+    if (Object.keys(changes).length === 0) continue;
+
+    await repo.mealEntry.update({ where: { id: previous.id }, data: changes });
+
+    // Keep "for: ..." labels in step with meals dragged to another slot
+    if (previous.date !== entry.date || previous.mealType !== entry.mealType) {
+      await repo.groceryItemSource.updateMany({
+        where: { mealEntryId: entry.entryId, groceryItem: { userId } },
+        data: { date: entry.date, mealType: entry.mealType },
+      });
+    }
+  }
+
+  if (created.length > 0) {
+    await repo.mealEntry.createMany({
+      data: created.map((entry) => ({ mealPlanId: mealPlan.id, ...entry })),
+    });
+  }
+
+  return {
+    plan: buildWeeklyPlan(weekStart, nextEntries, expectedVersion + 1),
+    groceryRetraction,
+  };
+}
@@ -0,0 +1,108 @@
+import { flattenWeeklyPlan, weekDates } from "@/lib/meal-plan";
+import { generateMealEntryId, type DayPlan, type MealPlanEntry, type WeeklyMealPlan } from "@/lib/types/meal-plan";
+
+// Templates store a week by day of the week (0 = first day) instead of by
+// date, so the same week can be laid over any weekStart. Copying a week or a
+// day goes through the same steps. Copies always get new entry ids: grocery
+// items remember which entry they were added for, and a copy hasn't added
+// anything yet. Copies don't keep leftover links or batch sizes either: a
+// copied leftover is cooked like any other meal.
+
+export const MAX_TEMPLATE_NAME_LENGTH = 80;
+
+export interface MealTemplateEntry {
+  dayOffset: number;
+  mealType: string;
+  position: number;
+  recipeId: number;
+  title: string;
+  image: string | null;
+  servings: number;
+  originalServings: number;
+  readyInMinutes: number | null;
+}
+
+export function templateEntriesFromPlan(plan: WeeklyMealPlan): MealTemplateEntry[] {
+  const dates = weekDates(plan.weekStart);
+
+  return flattenWeeklyPlan(plan)
+    .filter((row) => dates.includes(row.date))
+    .map((row) => ({
+      dayOffset: dates.indexOf(row.date),
+      mealType: row.mealType,
+      position: row.position,
+      recipeId: row.recipeId,
+      title: row.title,
+      image: row.image,
+      servings: row.servings,
+      originalServings: row.originalServings,
+      readyInMinutes: row.readyInMinutes,
+    }));
+}
+
+function copyEntry(entry: Omit<MealPlanEntry, "id">): MealPlanEntry {
+  const copy: MealPlanEntry = {
+    id: generateMealEntryId(),
+    recipeId: entry.recipeId,
+    title: entry.title,
+    servings: entry.servings,
+    originalServings: entry.originalServings,
+  };
+  if (entry.image) copy.image = entry.image;
+  if (entry.readyInMinutes) copy.readyInMinutes = entry.readyInMinutes;
+  return copy;
+}
+
+// Lay template entries over the week starting at weekStart
+export function templateDays(entries: MealTemplateEntry[], weekStart: string): DayPlan[] {
+  const days: DayPlan[] = weekDates(weekStart).map((date) => ({ date, meals: {} }));
+  const sorted = [...entries].sort((a, b) => a.position - b.position);
+
+  for (const entry of sorted) {
+    const day = days[entry.dayOffset];
+    if (!day) continue;
+    (day.meals[entry.mealType] ??= []).push(
+      copyEntry({ ...entry, image: entry.image ?? undefined, readyInMinutes: entry.readyInMinutes ?? undefined }),
+    );
+  }
+
+  return days.filter((day) => Object.keys(day.meals).length > 0);
+}
+
+// The same meals on another date
+export function copyDay(day: DayPlan, date: string): DayPlan {
+  const meals: DayPlan["meals"] = {};
+  for (const [mealType, entries] of Object.entries(day.meals)) {
+    if (entries.length > 0) meals[mealType] = entries.map(copyEntry);
+  }
+  return { date, meals };
+}
+
+// Add days into a plan. Each slot gets the new meals after what's already
+// planned, or instead of it with replace (which also clears the other slots
+// of those days).
+export function mergeDays(plan: WeeklyMealPlan, additions: DayPlan[], replace: boolean): WeeklyMealPlan {
+  const byDate = new Map(additions.map((day) => [day.date, day]));
+
+  return {
+    ...plan,
+    days: plan.days.map((day) => {
+      const addition = byDate.get(day.date);
+      if (!addition) return day;
+      if (replace) return { ...day, meals: { ...addition.meals } };
+
+      const meals = { ...day.meals };
+      for (const [mealType, entries] of Object.entries(addition.meals)) {
+        meals[mealType] = [...(meals[mealType] ?? []), ...entries];
+      }
+      return { ...day, meals };
+    }),
+  };
+}
+
+// Without replace, copying keeps what's planned and adds to it; with it, the
+// whole target week is cleared first
+export function applyWeek(plan: WeeklyMealPlan, additions: DayPlan[], replace: boolean): WeeklyMealPlan {
+  const base = replace ? { ...plan, days: plan.days.map((day) => ({ ...day, meals: {} })) } : plan;
+  return mergeDays(base, additions, false);
+}
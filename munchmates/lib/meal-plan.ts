@@ -0,0 +1,319 @@
+import type { DayPlan, MealPlanEntry, MealType, WeeklyMealPlan } from "@/lib/types/meal-plan";
+
+// Meal plans are stored as flat MealEntry rows (date, slot, position) and sent
+// to the planner as days holding an ordered list of entries per slot. Slots
+// are per user; everyone starts with breakfast, lunch and dinner.
+
+export const DEFAULT_MEAL_SLOTS: MealType[] = ["breakfast", "lunch", "dinner"];
+
+// Offered on the planner when the user hasn't added them yet
+export const SUGGESTED_MEAL_SLOTS: MealType[] = ["snack", "dessert"];
+
+export const MAX_SLOT_NAME_LENGTH = 40;
+
+// Longest span /api/meal-plan/range and the range-based summaries cover
+// (enough for a six-week month grid, or a quarter)
+export const MAX_PLAN_RANGE_DAYS = 93;
+
+// Plans saved before slots held lists had one optional entry per fixed slot
+type LegacyDayPlan = {
+  date: string;
+  meals?: Record<MealType, MealPlanEntry[] | undefined>;
+} & Partial<Record<"breakfast" | "lunch" | "dinner", MealPlanEntry>>;
+
+// One stored entry
+export interface MealEntryRow {
+  date: string;
+  mealType: string;
+  position: number;
+  entryId: string;
+  recipeId: number;
+  title: string;
+  image: string | null;
+  servings: number;
+  originalServings: number;
+  readyInMinutes: number | null;
+  cookedServings: number | null;
+  leftoverOf: string | null;
+}
+
+// Slot names are matched case-insensitively, so they're kept lower case;
+// the planner capitalizes them for display
+export function normalizeSlotName(value: unknown): string {
+  return String(value ?? "").trim().replace(/\s+/g, " ").toLowerCase().slice(0, MAX_SLOT_NAME_LENGTH);
+}
+
+// The YYYY-MM-DD date the given number of days after date (before, if negative)
+export function addDays(date: string, days: number): string {
+  const d = new Date(date + "T00:00:00");
+  d.setDate(d.getDate() + days);
+  const year = d.getFullYear();
+  const month = String(d.getMonth() + 1).padStart(2, "0");
+  const day = String(d.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+// Whole days from one YYYY-MM-DD date to another
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to + "T00:00:00Z") - Date.parse(from + "T00:00:00Z")) / 86_400_000);
+}
+
+// Every date from from to to, both included
+export function datesBetween(from: string, to: string): string[] {
+  return Array.from({ length: Math.max(daysBetween(from, to) + 1, 0) }, (_, i) => addDays(from, i));
+}
+
+// The first day of the week date falls in, for weeks starting on weekStartDay
+// (0 = Sunday ... 6 = Saturday)
+export function weekStartOf(date: string, weekStartDay: number): string {
+  const day = new Date(date + "T00:00:00").getDay();
+  return addDays(date, -((day - weekStartDay + 7) % 7));
+}
+
+// The whole weeks a month calendar shows for the month starting on monthStart
+// (YYYY-MM-01): from the start of the week the 1st falls in to the end of the
+// week holding the month's last day
+export function monthGridRange(monthStart: string, weekStartDay: number): { from: string; to: string } {
+  const first = new Date(monthStart + "T00:00:00");
+  const lastDay = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  const last = `${monthStart.slice(0, 8)}${String(lastDay).padStart(2, "0")}`;
+  return {
+    from: weekStartOf(monthStart, weekStartDay),
+    to: addDays(weekStartOf(last, weekStartDay), 6),
+  };
+}
+
+// The seven YYYY-MM-DD dates of the week starting on weekStart
+export function weekDates(weekStart: string): string[] {
+  return Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+}
+
+// Accept days in the current shape or the old one-entry-per-slot shape
+export function normalizeDayPlan(day: LegacyDayPlan): DayPlan {
+  const meals: Record<MealType, MealPlanEntry[]> = {};
+
+  for (const [mealType, entries] of Object.entries(day.meals ?? {})) {
+    if (entries && entries.length > 0) meals[mealType] = [...entries];
+  }
+  for (const mealType of ["breakfast", "lunch", "dinner"] as const) {
+    const entry = day[mealType];
+    if (entry && !meals[mealType]) meals[mealType] = [entry];
+  }
+
+  return { date: day.date, meals };
+}
+
+export function normalizeWeeklyPlan(plan: { weekStart: string; days: LegacyDayPlan[]; version?: unknown }): WeeklyMealPlan {
+  const normalized: WeeklyMealPlan = { weekStart: plan.weekStart, days: plan.days.map(normalizeDayPlan) };
+  if (typeof plan.version === "number") normalized.version = plan.version;
+  return normalized;
+}
+
+// Rebuild the planner's days from stored rows, each slot in position order
+export function buildWeeklyPlan(weekStart: string, meals: MealEntryRow[], version = 0): WeeklyMealPlan {
+  return { weekStart, days: buildDayPlans(weekDates(weekStart), meals), version };
+}
+
+// One day from stored rows, each slot in position order
+export function buildDayPlan(date: string, meals: MealEntryRow[]): DayPlan {
+  return buildDayPlans([date], meals)[0];
+}
+
+// A day for each date, planned or not, from stored rows of any weeks
+export function buildDayPlans(dates: string[], meals: MealEntryRow[]): DayPlan[] {
+  const days = dates.map((date): DayPlan => ({ date, meals: {} }));
+  const byDate = new Map(days.map((day) => [day.date, day]));
+
+  for (const meal of [...meals].sort((a, b) => a.position - b.position)) {
+    const day = byDate.get(meal.date);
+    if (!day) continue;
+    (day.meals[meal.mealType] ??= []).push(rowToEntry(meal));
+  }
+  return days;
+}
+
+function rowToEntry(meal: MealEntryRow): MealPlanEntry {
+  return {
+    id: meal.entryId,
+    recipeId: meal.recipeId,
+    title: meal.title,
+    image: meal.image ?? undefined,
+    servings: meal.servings,
+    originalServings: meal.originalServings,
+    readyInMinutes: meal.readyInMinutes ?? undefined,
+    cookedServings: meal.cookedServings ?? undefined,
+    leftoverOf: meal.leftoverOf ?? undefined,
+  };
+}
+
+// Flatten a plan into rows to store, numbering each slot's entries in order
+export function flattenWeeklyPlan(plan: WeeklyMealPlan): MealEntryRow[] {
+  const rows: MealEntryRow[] = [];
+
+  for (const day of plan.days) {
+    for (const [mealType, entries] of Object.entries(day.meals)) {
+      entries.forEach((entry, position) => {
+        rows.push({
+          date: day.date,
+          mealType,
+          position,
+          entryId: entry.id,
+          recipeId: entry.recipeId,
+          title: entry.title,
+          image: entry.image ?? null,
+          servings: entry.servings,
+          originalServings: entry.originalServings,
+          readyInMinutes: entry.readyInMinutes ?? null,
+          cookedServings: entry.cookedServings ?? null,
+          leftoverOf: entry.leftoverOf ?? null,
+        });
+      });
+    }
+  }
+
+  return rows;
+}
+
+// Sort meals into the order they're eaten in: by day, then by the user's slot
+// order (slots that no longer exist go last), then by position in the slot
+export function compareMealOrder(slotOrder: MealType[]) {
+  const rank = (mealType: string) => {
+    const index = slotOrder.indexOf(mealType);
+    return index === -1 ? slotOrder.length : index;
+  };
+
+  return (
+    a: { date: string; mealType: string; position?: number },
+    b: { date: string; mealType: string; position?: number },
+  ): number =>
+    a.date.localeCompare(b.date) ||
+    rank(a.mealType) - rank(b.mealType) ||
+    a.mealType.localeCompare(b.mealType) ||
+    (a.position ?? 0) - (b.position ?? 0);
+}
+
+// The slots to show for a plan: the user's slots in order, then any slot that
+// still has meals planned in it but was since removed
+export function planSlots(plan: { days: DayPlan[] } | null, slots: MealType[]): MealType[] {
+  const extra = new Set<MealType>();
+  for (const day of plan?.days ?? []) {
+    for (const [mealType, entries] of Object.entries(day.meals)) {
+      if (entries.length > 0 && !slots.includes(mealType)) extra.add(mealType);
+    }
+  }
+  return [...slots, ...extra];
+}
+
+export function countPlannedMeals(plan: WeeklyMealPlan | null): number {
+  return (plan?.days ?? []).reduce(
+    (count, day) => count + Object.values(day.meals).reduce((sum, entries) => sum + entries.length, 0),
+    0,
+  );
+}
+
+// Move an entry to another slot (or within its own), inserting it before the
+// entry at target.index or at the end of the slot when no index is given
+export function moveMealEntry(
+  plan: WeeklyMealPlan,
+  entryId: string,
+  target: { dayDate: string; mealType: MealType; index?: number },
+): WeeklyMealPlan {
+  let moved: MealPlanEntry | undefined;
+  let insertAt = target.index ?? Infinity;
+
+  const days = plan.days.map((day) => {
+    const meals = { ...day.meals };
+    for (const [mealType, entries] of Object.entries(meals)) {
+      const index = entries.findIndex((entry) => entry.id === entryId);
+      if (index === -1) continue;
+      moved = entries[index];
+      meals[mealType] = entries.filter((entry) => entry.id !== entryId);
+      // Removing it shifts everything after it in the same slot up by one
+      if (day.date === target.dayDate && mealType === target.mealType && index < insertAt) insertAt--;
+    }
+    return { ...day, meals };
+  });
+
+  if (!moved || !days.some((day) => day.date === target.dayDate)) return plan;
+
+  for (const day of days) {
+    if (day.date !== target.dayDate) continue;
+    const entries = [...(day.meals[target.mealType] ?? [])];
+    entries.splice(Math.min(insertAt, entries.length), 0, moved);
+    day.meals[target.mealType] = entries;
+  }
+
+  return { ...plan, days };
+}
+
+export interface MealEntryLocation {
+  date: string;
+  mealType: MealType;
+  index: number;
+  entry: MealPlanEntry;
+}
+
+export function findMealEntry(plan: WeeklyMealPlan, entryId: string): MealEntryLocation | null {
+  for (const day of plan.days) {
+    for (const [mealType, entries] of Object.entries(day.meals)) {
+      const index = entries.findIndex((entry) => entry.id === entryId);
+      if (index !== -1) return { date: day.date, mealType, index, entry: entries[index] };
+    }
+  }
+  return null;
+}
+
+function mapEntries(plan: WeeklyMealPlan, update: (entry: MealPlanEntry) => MealPlanEntry | null): WeeklyMealPlan {
+  return {
+    ...plan,
+    days: plan.days.map((day) => ({
+      ...day,
+      meals: Object.fromEntries(
+        Object.entries(day.meals).map(([mealType, entries]) => [
+          mealType,
+          entries.map(update).filter((entry): entry is MealPlanEntry => entry !== null),
+        ]),
+      ),
+    })),
+  };
+}
+
+// Put a new entry in a slot, before the entry at target.index or at the end
+export function addMealEntry(
+  plan: WeeklyMealPlan,
+  target: { dayDate: string; mealType: MealType; index?: number },
+  entry: MealPlanEntry,
+): WeeklyMealPlan {
+  return {
+    ...plan,
+    days: plan.days.map((day) => {
+      if (day.date !== target.dayDate) return day;
+      const entries = [...(day.meals[target.mealType] ?? [])];
+      entries.splice(Math.min(target.index ?? entries.length, entries.length), 0, entry);
+      return { ...day, meals: { ...day.meals, [target.mealType]: entries } };
+    }),
+  };
+}
+
+export function updateMealEntry(
+  plan: WeeklyMealPlan,
+  entryId: string,
+  changes: Partial<Omit<MealPlanEntry, "id">>,
+): WeeklyMealPlan {
+  return mapEntries(plan, (entry) => (entry.id === entryId ? { ...entry, ...changes } : entry));
+}
+
+export function removeMealEntry(plan: WeeklyMealPlan, entryId: string): WeeklyMealPlan {
+  return mapEntries(plan, (entry) => (entry.id === entryId ? null : entry));
+}
+
+// Trade the places of two entries, wherever in the week they are
+export function swapMealEntries(plan: WeeklyMealPlan, entryId: string, otherEntryId: string): WeeklyMealPlan {
+  const first = findMealEntry(plan, entryId);
+  const second = findMealEntry(plan, otherEntryId);
+  if (!first || !second) return plan;
+
+  return mapEntries(plan, (entry) =>
+    entry.id === entryId ? second.entry : entry.id === otherEntryId ? first.entry : entry,
+  );
+}
@@ -0,0 +1,180 @@
+// lib/nutrient-table.ts
+// Calories and macros per 100 g for common ingredients, rounded from USDA
+// FoodData Central (SR Legacy) entries for the raw / as-sold food
+// Keyed by canonical ingredient name as produced by normalize() in lib/normalize.ts
+// and looked up like the density tables in lib/ingredient-density.ts
+// Used to estimate nutrition for custom recipes (lib/recipe-nutrition.ts)
+
+import type { MacroTotals } from './nutrition-goals';
+
+// Bump when values are added or corrected so stored estimates are worked out again
+export const NUTRIENT_TABLE_VERSION = 1;
+
+function per100g(calories: number, protein: number, carbs: number, fat: number): MacroTotals {
+  return { calories, protein, carbs, fat };
+}
+
+export const NUTRIENTS_PER_100G: Record<string, MacroTotals> = {
+  // Dairy and eggs
+  milk: per100g(61, 3.2, 4.8, 3.3),
+  buttermilk: per100g(40, 3.3, 4.8, 0.9),
+  cream: per100g(340, 2.8, 2.7, 36),
+  'fresh cream': per100g(340, 2.8, 2.7, 36),
+  'sour cream': per100g(198, 2.4, 4.6, 19),
+  'cream cheese': per100g(342, 6, 4.1, 34),
+  yogurt: per100g(61, 3.5, 4.7, 3.3),
+  'greek yogurt': per100g(97, 9, 4, 5),
+  butter: per100g(717, 0.9, 0.1, 81),
+  cheese: per100g(403, 24.9, 1.3, 33.1),
+  cheddar: per100g(403, 24.9, 1.3, 33.1),
+  'parmigiano reggiano': per100g(392, 35.8, 3.2, 25.8),
+  mozzarella: per100g(300, 22.2, 2.2, 22.4),
+  feta: per100g(264, 14.2, 4.1, 21.3),
+  ricotta: per100g(174, 11.3, 3, 13),
+  egg: per100g(143, 12.6, 0.7, 9.5),
+
+  // Fats, sweeteners and condiments
+  oil: per100g(884, 0, 0, 100),
+  'olive oil': per100g(884, 0, 0, 100),
+  'vegetable oil': per100g(884, 0, 0, 100),
+  'coconut oil': per100g(892, 0, 0, 99),
+  honey: per100g(304, 0.3, 82.4, 0),
+  'maple syrup': per100g(260, 0, 67, 0.1),
+  molasses: per100g(290, 0, 74.7, 0.1),
+  sugar: per100g(387, 0, 100, 0),
+  'granulated sugar': per100g(387, 0, 100, 0),
+  'brown sugar': per100g(380, 0.1, 98.1, 0),
+  'powdered sugar': per100g(389, 0, 99.8, 0),
+  'soy sauce': per100g(53, 8.1, 4.9, 0.6),
+  vinegar: per100g(18, 0, 0, 0),
+  mayonnaise: per100g(680, 1, 0.6, 75),
+  ketchup: per100g(101, 1, 27.4, 0.1),
+  mustard: per100g(60, 3.7, 5.8, 3.3),
+  salsa: per100g(36, 1.5, 7, 0.2),
+  jam: per100g(278, 0.4, 68.9, 0.1),
+  'peanut butter': per100g(588, 25, 20, 50),
+  tahini: per100g(595, 17, 21.2, 53.8),
+  'tomato concentrate': per100g(82, 4.3, 18.9, 0.5),
+  'tomato sauce': per100g(24, 1.2, 5.3, 0.3),
+  'coconut milk': per100g(197, 2, 2.8, 21.3),
+  'almond milk': per100g(15, 0.6, 0.3, 1.1),
+  broth: per100g(15, 1.6, 1.4, 0.5),
+  wine: per100g(85, 0.1, 2.6, 0),
+  beer: per100g(43, 0.5, 3.6, 0),
+  water: per100g(0, 0, 0, 0),
+
+  // Baking
+  flour: per100g(364, 10.3, 76.3, 1),
+  'bread flour': per100g(361, 12, 72.5, 1.7),
+  'whole wheat flour': per100g(340, 13.2, 72, 2.5),
+  'corn starch': per100g(381, 0.3, 91.3, 0.1),
+  cornmeal: per100g(370, 7.3, 79, 3.9),
+  'cocoa powder': per100g(228, 19.6, 57.9, 13.7),
+  'chocolate chip': per100g(480, 4.2, 63.9, 30),
+  chocolate: per100g(598, 7.8, 45.9, 42.6),
+  'baking powder': per100g(53, 0, 27.7, 0),
+  'baking soda': per100g(0, 0, 0, 0),
+  yeast: per100g(325, 40.4, 41.2, 7.6),
+  'vanilla extract': per100g(288, 0.1, 12.7, 0.1),
+  salt: per100g(0, 0, 0, 0),
+  'kosher salt': per100g(0, 0, 0, 0),
+
+  // Grains, pasta and bread (dry unless noted)
+  rice: per100g(365, 7.1, 80, 0.7),
+  'brown rice': per100g(370, 7.9, 77.2, 2.9),
+  oat: per100g(379, 13.2, 67.7, 6.5),
+  'rolled oat': per100g(379, 13.2, 67.7, 6.5),
+  quinoa: per100g(368, 14.1, 64.2, 6.1),
+  couscous: per100g(376, 12.8, 77.4, 0.6),
+  pasta: per100g(371, 13, 74.7, 1.5),
+  spaghetti: per100g(371, 13, 74.7, 1.5),
+  macaroni: per100g(371, 13, 74.7, 1.5),
+  noodle: per100g(384, 14.2, 71.3, 4.4),
+  bread: per100g(265, 9, 49, 3.2),
+  breadcrumb: per100g(395, 13.4, 71.9, 5.3),
+  tortilla: per100g(306, 8.2, 50.4, 8),
+
+  // Meat and fish (raw)
+  chicken: per100g(119, 21.4, 0, 3.1),
+  'chicken breast': per100g(120, 22.5, 0, 2.6),
+  'chicken thigh': per100g(121, 19.7, 0, 4.1),
+  'minced beef': per100g(254, 17.2, 0, 20),
+  beef: per100g(187, 19.4, 0, 12),
+  steak: per100g(201, 20.5, 0, 12.7),
+  'ground turkey': per100g(148, 19.7, 0, 7.7),
+  turkey: per100g(114, 23.7, 0, 1.5),
+  pork: per100g(143, 21, 0, 5.9),
+  bacon: per100g(417, 12.6, 1.4, 40),
+  sausage: per100g(301, 14.3, 0, 26.6),
+  ham: per100g(145, 21, 1.5, 5.5),
+  salmon: per100g(208, 20.4, 0, 13.4),
+  tuna: per100g(116, 25.5, 0, 0.8),
+  cod: per100g(82, 17.8, 0, 0.7),
+  shrimp: per100g(85, 20.1, 0, 0.5),
+
+  // Beans, nuts and seeds (beans cooked or canned and drained)
+  bean: per100g(127, 8.7, 22.8, 0.5),
+  'black bean': per100g(132, 8.9, 23.7, 0.5),
+  'kidney bean': per100g(127, 8.7, 22.8, 0.5),
+  'garbanzo bean': per100g(164, 8.9, 27.4, 2.6),
+  chickpea: per100g(164, 8.9, 27.4, 2.6),
+  lentil: per100g(352, 24.6, 63.4, 1.1),
+  tofu: per100g(144, 17.3, 2.8, 8.7),
+  almond: per100g(579, 21.2, 21.6, 49.9),
+  walnut: per100g(654, 15.2, 13.7, 65.2),
+  peanut: per100g(567, 25.8, 16.1, 49.2),
+  'cashew nut': per100g(553, 18.2, 30.2, 43.9),
+  'pecan nut': per100g(691, 9.2, 13.9, 72),
+  'sesame seed': per100g(573, 17.7, 23.5, 49.7),
+  'chia seed': per100g(486, 16.5, 42.1, 30.7),
+  raisin: per100g(299, 3.1, 79.2, 0.5),
+
+  // Vegetables
+  onion: per100g(40, 1.1, 9.3, 0.1),
+  shallot: per100g(72, 2.5, 16.8, 0.1),
+  garlic: per100g(149, 6.4, 33.1, 0.5),
+  ginger: per100g(80, 1.8, 17.8, 0.8),
+  carrot: per100g(41, 0.9, 9.6, 0.2),
+  potato: per100g(77, 2, 17.5, 0.1),
+  'sweet potato': per100g(86, 1.6, 20.1, 0.1),
+  tomato: per100g(18, 0.9, 3.9, 0.2),
+  'bell pepper': per100g(26, 1, 6, 0.3),
+  cucumber: per100g(15, 0.7, 3.6, 0.1),
+  courgette: per100g(17, 1.2, 3.1, 0.3),
+  aubergine: per100g(25, 1, 5.9, 0.2),
+  spinach: per100g(23, 2.9, 3.6, 0.4),
+  kale: per100g(35, 2.9, 4.4, 1.5),
+  lettuce: per100g(15, 1.4, 2.9, 0.2),
+  cabbage: per100g(25, 1.3, 5.8, 0.1),
+  broccoli: per100g(34, 2.8, 6.6, 0.4),
+  cauliflower: per100g(25, 1.9, 5, 0.3),
+  mushroom: per100g(22, 3.1, 3.3, 0.3),
+  celery: per100g(16, 0.7, 3, 0.2),
+  corn: per100g(86, 3.3, 19, 1.4),
+  pea: per100g(81, 5.4, 14.5, 0.4),
+  'green bean': per100g(31, 1.8, 7, 0.2),
+  'butternut squash': per100g(45, 1, 11.7, 0.1),
+  squash: per100g(16, 1.2, 3.4, 0.2),
+  avocado: per100g(160, 2, 8.5, 14.7),
+
+  // Fruit
+  lemon: per100g(29, 1.1, 9.3, 0.3),
+  lime: per100g(30, 0.7, 10.5, 0.2),
+  orange: per100g(47, 0.9, 11.8, 0.1),
+  apple: per100g(52, 0.3, 13.8, 0.2),
+  banana: per100g(89, 1.1, 22.8, 0.3),
+  strawberry: per100g(32, 0.7, 7.7, 0.3),
+  blueberry: per100g(57, 0.7, 14.5, 0.3),
+
+  // Herbs and spices
+  basil: per100g(23, 3.2, 2.7, 0.6),
+  parsley: per100g(36, 3, 6.3, 0.8),
+  'coriander leaf': per100g(23, 2.1, 3.7, 0.5),
+  'black pepper': per100g(251, 10.4, 64, 3.3),
+  pepper: per100g(251, 10.4, 64, 3.3),
+  cinnamon: per100g(247, 4, 80.6, 1.2),
+  cumin: per100g(375, 17.8, 44.2, 22.3),
+  paprika: per100g(282, 14.1, 54, 12.9),
+  oregano: per100g(265, 9, 68.9, 4.3),
+  'chili powder': per100g(282, 13.5, 49.7, 14.3),
+};
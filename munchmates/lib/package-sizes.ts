@@ -0,0 +1,338 @@
+// lib/package-sizes.ts
+// Package sizes ingredients are actually sold in, so a meal-plan amount like
+// "3.38 cup" milk can be shown as what to pick off the shelf ("1 gal").
+// Keyed by canonical ingredient name as produced by normalize() in lib/normalize.ts.
+// Prices are rough shelf prices in dollars, only used to compare combinations.
+
+import { convertQuantityAmount, normalizeUnit, parseQuantityString } from "@/lib/grocery-consolidation";
+
+export interface PackageSize {
+  label: string;
+  // Measured in the catalog entry's unit
+  amount: number;
+  price: number;
+}
+
+export interface PackageCatalogEntry {
+  unit: string;
+  sizes: PackageSize[];
+  // Recipe units the consolidation tables don't know, as amounts of `unit`
+  units?: Record<string, number>;
+}
+
+export interface PackagePlanEntry {
+  label: string;
+  amount: number;
+  count: number;
+}
+
+export interface PackagePlan {
+  packages: PackagePlanEntry[];
+  // Everything the packages hold together, in `unit`
+  totalAmount: number;
+  unit: string;
+  price: number;
+}
+
+const STICKS_OF_BUTTER = { stick: 0.25, sticks: 0.25 };
+
+export const PACKAGE_SIZES: Record<string, PackageCatalogEntry> = {
+  // Dairy
+  milk: {
+    unit: "quart",
+    sizes: [
+      { label: "1 qt", amount: 1, price: 1.79 },
+      { label: "½ gal", amount: 2, price: 2.79 },
+      { label: "1 gal", amount: 4, price: 3.99 },
+    ],
+  },
+  buttermilk: {
+    unit: "quart",
+    sizes: [
+      { label: "1 pt", amount: 0.5, price: 1.69 },
+      { label: "1 qt", amount: 1, price: 2.49 },
+    ],
+  },
+  "fresh cream": {
+    unit: "fl oz",
+    sizes: [
+      { label: "½ pt", amount: 8, price: 2.49 },
+      { label: "1 pt", amount: 16, price: 3.99 },
+      { label: "1 qt", amount: 32, price: 6.99 },
+    ],
+  },
+  "half and half": {
+    unit: "fl oz",
+    sizes: [
+      { label: "1 pt", amount: 16, price: 2.29 },
+      { label: "1 qt", amount: 32, price: 3.79 },
+    ],
+  },
+  butter: {
+    unit: "lb",
+    sizes: [
+      { label: "½ lb (2 sticks)", amount: 0.5, price: 2.99 },
+      { label: "1 lb (4 sticks)", amount: 1, price: 4.49 },
+    ],
+    units: STICKS_OF_BUTTER,
+  },
+  egg: {
+    unit: "",
+    sizes: [
+      { label: "6-pack", amount: 6, price: 1.99 },
+      { label: "dozen", amount: 12, price: 3.49 },
+      { label: "18-pack", amount: 18, price: 4.99 },
+    ],
+  },
+  "sour cream": {
+    unit: "oz",
+    sizes: [
+      { label: "8 oz", amount: 8, price: 1.79 },
+      { label: "16 oz", amount: 16, price: 2.79 },
+    ],
+  },
+  "cream cheese": {
+    unit: "oz",
+    sizes: [{ label: "8 oz block", amount: 8, price: 2.49 }],
+  },
+  yogurt: {
+    unit: "oz",
+    sizes: [
+      { label: "5.3 oz cup", amount: 5.3, price: 1.29 },
+      { label: "32 oz tub", amount: 32, price: 4.49 },
+    ],
+  },
+  cheddar: {
+    unit: "oz",
+    sizes: [
+      { label: "8 oz", amount: 8, price: 3.49 },
+      { label: "16 oz", amount: 16, price: 5.99 },
+    ],
+  },
+  mozzarella: {
+    unit: "oz",
+    sizes: [
+      { label: "8 oz", amount: 8, price: 3.29 },
+      { label: "16 oz", amount: 16, price: 5.79 },
+    ],
+  },
+  "parmigiano reggiano": {
+    unit: "oz",
+    sizes: [{ label: "5 oz wedge", amount: 5, price: 5.49 }],
+  },
+
+  // Meat & Seafood
+  bacon: {
+    unit: "oz",
+    sizes: [
+      { label: "12 oz", amount: 12, price: 5.99 },
+      { label: "16 oz", amount: 16, price: 7.49 },
+    ],
+  },
+  "minced beef": {
+    unit: "lb",
+    sizes: [
+      { label: "1 lb", amount: 1, price: 5.99 },
+      { label: "3 lb", amount: 3, price: 15.99 },
+    ],
+  },
+  "ground turkey": {
+    unit: "lb",
+    sizes: [{ label: "1 lb", amount: 1, price: 5.49 }],
+  },
+
+  // Canned Goods
+  broth: {
+    unit: "fl oz",
+    sizes: [
+      { label: "14.5 oz can", amount: 14.5, price: 1.49 },
+      { label: "32 oz carton", amount: 32, price: 2.99 },
+    ],
+  },
+  "coconut milk": {
+    unit: "fl oz",
+    sizes: [{ label: "13.5 oz can", amount: 13.5, price: 2.29 }],
+  },
+  "tomato concentrate": {
+    unit: "oz",
+    sizes: [{ label: "6 oz can", amount: 6, price: 0.99 }],
+  },
+
+  // Pasta & Grains
+  rice: {
+    unit: "lb",
+    sizes: [
+      { label: "2 lb bag", amount: 2, price: 2.49 },
+      { label: "5 lb bag", amount: 5, price: 5.49 },
+    ],
+  },
+  pasta: {
+    unit: "lb",
+    sizes: [{ label: "1 lb box", amount: 1, price: 1.49 }],
+  },
+
+  // Baking
+  flour: {
+    unit: "lb",
+    sizes: [
+      { label: "2 lb bag", amount: 2, price: 2.49 },
+      { label: "5 lb bag", amount: 5, price: 3.99 },
+    ],
+  },
+  sugar: {
+    unit: "lb",
+    sizes: [
+      { label: "2 lb bag", amount: 2, price: 2.29 },
+      { label: "4 lb bag", amount: 4, price: 3.79 },
+    ],
+  },
+  "brown sugar": {
+    unit: "lb",
+    sizes: [{ label: "2 lb bag", amount: 2, price: 2.79 }],
+  },
+
+  // Oils & Condiments
+  "olive oil": {
+    unit: "fl oz",
+    sizes: [
+      { label: "16.9 oz bottle", amount: 16.9, price: 7.99 },
+      { label: "33.8 oz bottle", amount: 33.8, price: 13.99 },
+    ],
+  },
+  "vegetable oil": {
+    unit: "fl oz",
+    sizes: [{ label: "48 oz bottle", amount: 48, price: 4.99 }],
+  },
+};
+
+// Packages may only just cover an amount after rounding ("1.00000001 qt")
+const EPSILON = 1e-6;
+
+interface Candidate {
+  counts: number[];
+  price: number;
+  totalAmount: number;
+  packageCount: number;
+}
+
+function isBetter(candidate: Candidate, best: Candidate | null): boolean {
+  if (!best) return true;
+  if (Math.abs(candidate.price - best.price) > EPSILON) return candidate.price < best.price;
+  if (Math.abs(candidate.totalAmount - best.totalAmount) > EPSILON) return candidate.totalAmount < best.totalAmount;
+  return candidate.packageCount < best.packageCount;
+}
+
+// Cheapest mix of sizes that covers `need`. Ties go to less left over, then
+// fewer packages. The size with the lowest price per unit makes up whatever
+// is still missing; every other size is tried only up to the count one of
+// those would replace, so the search stays small however large `need` is.
+function cheapestCombination(need: number, sizes: PackageSize[]): number[] {
+  const filler = sizes.reduce((bestIndex, size, index) => {
+    const best = sizes[bestIndex];
+    const perUnit = size.price / size.amount - best.price / best.amount;
+    return perUnit < -EPSILON || (Math.abs(perUnit) <= EPSILON && size.amount > best.amount) ? index : bestIndex;
+  }, 0);
+  const order = [...sizes.keys()].filter((index) => index !== filler).concat(filler);
+
+  let best: Candidate | null = null;
+  const counts = new Array<number>(sizes.length).fill(0);
+
+  const search = (position: number, remaining: number, price: number, totalAmount: number, packageCount: number) => {
+    const index = order[position];
+    const size = sizes[index];
+    const needed = Math.max(0, Math.ceil(remaining / size.amount - EPSILON));
+
+    if (position === order.length - 1) {
+      counts[index] = needed;
+      const candidate = {
+        counts: [...counts],
+        price: price + needed * size.price,
+        totalAmount: totalAmount + needed * size.amount,
+        packageCount: packageCount + needed,
+      };
+      if (isBetter(candidate, best)) best = candidate;
+      return;
+    }
+
+    const maxCount = Math.min(needed, Math.ceil(sizes[filler].amount / size.amount - EPSILON));
+    for (let count = 0; count <= maxCount; count++) {
+      counts[index] = count;
+      search(
+        position + 1,
+        remaining - count * size.amount,
+        price + count * size.price,
+        totalAmount + count * size.amount,
+        packageCount + count,
+      );
+    }
+  };
+
+  search(0, need, 0, 0, 0);
+  return best!.counts;
+}
+
+// Work out which packages to buy for an amount of one ingredient. Returns null
+// when the ingredient isn't in the catalog or the amount can't be converted
+// into its package unit.
+export function planPackages(canonName: string, amount: number, unit: string): PackagePlan | null {
+  const entry = PACKAGE_SIZES[canonName];
+  if (!entry || !Number.isFinite(amount) || amount <= 0) return null;
+
+  const extraUnit = entry.units?.[normalizeUnit(unit)];
+  const need = extraUnit !== undefined
+    ? amount * extraUnit
+    : convertQuantityAmount(amount, unit, entry.unit, canonName);
+  if (need === null || need <= 0) return null;
+
+  const counts = cheapestCombination(need, entry.sizes);
+  const packages = entry.sizes
+    .map((size, index) => ({ label: size.label, amount: size.amount, count: counts[index] }))
+    .filter((entryPackage) => entryPackage.count > 0)
+    .sort((left, right) => right.amount - left.amount);
+
+  return {
+    packages,
+    totalAmount: packages.reduce((sum, entryPackage) => sum + entryPackage.amount * entryPackage.count, 0),
+    unit: entry.unit,
+    price: Math.round(
+      entry.sizes.reduce((sum, size, index) => sum + size.price * counts[index], 0) * 100,
+    ) / 100,
+  };
+}
+
+// "1 gal + 1 qt", "2 × ½ gal"
+export function formatPackagePlan(plan: PackagePlan): string {
+  return plan.packages
+    .map((entryPackage) => (entryPackage.count === 1 ? entryPackage.label : `${entryPackage.count} × ${entryPackage.label}`))
+    .join(" + ");
+}
+
+// Package amount for a grocery quantity string ("3.38 cup", "1 cup + 2 tbsp").
+// Every part has to convert, otherwise the packages might not cover the list.
+export function packageQuantityFor(canonName: string, quantity: string | null | undefined): string | null {
+  const entry = PACKAGE_SIZES[canonName];
+  if (!entry) return null;
+
+  const parts = parseQuantityString(quantity);
+  if (parts.length === 0) return null;
+
+  let need = 0;
+  for (const part of parts) {
+    const extraUnit = entry.units?.[part.unit];
+    const converted = extraUnit !== undefined
+      ? part.amount * extraUnit
+      : convertQuantityAmount(part.amount, part.unit, entry.unit, canonName);
+    if (converted === null) return null;
+    need += converted;
+  }
+
+  const plan = planPackages(canonName, need, entry.unit);
+  return plan ? formatPackagePlan(plan) : null;
+}
+
+// Number of packages in a formatted plan: "1 gal + 1 qt" is 2, "3 × 16 oz" is 3
+export function packageCount(packageQuantity: string): number {
+  return packageQuantity
+    .split(" + ")
+    .reduce((sum, part) => sum + Number.parseInt(/^(\d+) × /.exec(part)?.[1] ?? "1", 10), 0);
+}
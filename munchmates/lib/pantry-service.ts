@@ -1,12 +1,28 @@
+import {
+  classifyIngredient,
+  recordCategoryCorrection,
+  type IngredientClassifierRepository,
+} from "@/lib/ingredient-classifier";
+import { convertIngredientAmount } from "@/lib/ingredient-density";
 import { normalize } from "@/lib/normalize";
 import { parseQuantity } from "@/lib/parseQuantity";
 import {
-  convertToBase,
+  convertAmount,
   COUNT_MULTIPLIERS,
   getUnitType,
   normalizeUnit,
 } from "@/lib/unit-conversion";
 
+export interface PantryLotRecord {
+  id: number;
+  pantryItemId: number;
+  quantity: string;
+  amount: number | null;
+  unit: string;
+  expiryDate: Date | null;
+  addedAt: Date;
+}
+
 export interface PantryItemRecord {
   id: number;
   userId?: string;
@@ -18,6 +34,16 @@ export interface PantryItemRecord {
   category: string;
   expiryDate: Date | null;
   addedAt: Date;
+  lots?: PantryLotRecord[];
+}
+
+export interface PantryLotResponse {
+  id: number;
+  quantity: string;
+  amount: number | null;
+  unit: string;
+  expiryDate: string | null;
+  addedAt: string;
 }
 
 export interface PantryResponseItem {
@@ -30,6 +56,7 @@ export interface PantryResponseItem {
   category: string;
   expiryDate: string | null;
   addedAt: string;
+  lots: PantryLotResponse[];
 }
 
 export interface PantryIngredientInput {
@@ -49,10 +76,103 @@ export interface PantryIngredientMatch {
     amount: number | null;
     unit: string;
   } | null;
-  status: "matched" | "partial" | "unmatched";
+  // Pantry stock expressed in the ingredient's unit, when it can be worked out
+  availableAmount: number | null;
+  // "unconvertible": the pantry amount cannot be expressed in the recipe's unit
+  status: "matched" | "partial" | "unmatched" | "unconvertible";
+}
+
+export interface PantryShortfall {
+  ingredientIndex: number;
+  name: string;
+  unit: string;
+  requestedAmount: number;
+  // How much still has to be bought; 0 when the pantry covers it
+  shortfallAmount: number;
+  coveredByPantry: boolean;
+}
+
+export interface PantryLotDeduction {
+  lotId: number;
+  action: "updated" | "removed";
+  remainingAmount?: number;
+  remainingUnit?: string;
+}
+
+export interface PantryDeductionPlan {
+  changes: PantryLotDeduction[];
+  // What the lots couldn't cover, in the deduction's own unit: they ran out,
+  // or their units don't convert. 0 when all of it comes off.
+  shortfall: number;
+}
+
+// What a cook needed but couldn't take out of a pantry item, kept on the
+// cook event (a type rather than an interface so it fits a Json column)
+export type CookShortfall = {
+  pantryItemId: number;
+  name: string;
+  amount: number;
+  unit: string;
+};
+
+export type PantryEventAction = "add" | "update" | "deduct" | "delete" | "restore";
+
+export interface PantryLotSnapshot {
+  id: number;
+  quantity: string;
+  amount: number | null;
+  unit: string;
+  expiryDate: string | null;
 }
 
-interface PantryRepository {
+// JSON-safe copy of an item and its lots, stored on each ledger event
+export interface PantryItemSnapshot {
+  id: number;
+  name: string;
+  canonName: string;
+  category: string;
+  quantity: string;
+  amount: number | null;
+  unit: string;
+  expiryDate: string | null;
+  lots: PantryLotSnapshot[];
+}
+
+export interface PantryEventRecord {
+  id: number;
+  pantryItemId: number;
+  itemName: string;
+  action: string;
+  before: unknown;
+  after: unknown;
+  cookEventId: number | null;
+  createdAt: Date;
+  cookEvent?: { recipeTitle: string; undoneAt: Date | null } | null;
+}
+
+export interface PantryEventResponse {
+  id: number;
+  pantryItemId: number;
+  itemName: string;
+  action: string;
+  beforeQuantity: string | null;
+  afterQuantity: string | null;
+  cookEventId: number | null;
+  recipeTitle: string | null;
+  undone: boolean;
+  createdAt: string;
+}
+
+// Kept loose so the Prisma client satisfies the repository interface
+type LotInclude = Record<string, unknown> | null;
+
+interface PantryEventRepository {
+  pantryEvent: {
+    create(args: { data: Record<string, unknown> }): Promise<unknown>;
+  };
+}
+
+export interface PantryRepository extends PantryEventRepository, IngredientClassifierRepository {
   user: {
     upsert(args: {
       where: { id: string };
@@ -61,11 +181,36 @@ interface PantryRepository {
     }): Promise<unknown>;
   };
   pantryItem: {
-    findFirst(args: { where: Record<string, unknown> }): Promise<PantryItemRecord | null>;
-    findMany(args: { where: Record<string, unknown>; orderBy?: Record<string, "asc" | "desc"> }): Promise<PantryItemRecord[]>;
-    create(args: { data: Record<string, unknown> }): Promise<PantryItemRecord>;
-    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<PantryItemRecord>;
+    findFirst(args: { where: Record<string, unknown>; include?: LotInclude }): Promise<PantryItemRecord | null>;
+    findMany(args: {
+      where: Record<string, unknown>;
+      orderBy?: Record<string, "asc" | "desc">;
+      include?: LotInclude;
+    }): Promise<PantryItemRecord[]>;
+    create(args: { data: Record<string, unknown>; include?: LotInclude }): Promise<PantryItemRecord>;
+    update(args: { where: { id: number }; data: Record<string, unknown>; include?: LotInclude }): Promise<PantryItemRecord>;
+    delete(args: { where: { id: number } }): Promise<unknown>;
+    deleteMany(args: { where: Record<string, unknown> }): Promise<unknown>;
+  };
+  pantryLot: {
+    create(args: { data: Record<string, unknown> }): Promise<PantryLotRecord>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<PantryLotRecord>;
+    updateMany(args: { where: Record<string, unknown>; data: Record<string, unknown> }): Promise<unknown>;
     delete(args: { where: { id: number } }): Promise<unknown>;
+    deleteMany(args: { where: Record<string, unknown> }): Promise<unknown>;
+  };
+}
+
+interface CookEventRecord {
+  id: number;
+  undoneAt: Date | null;
+  events?: PantryEventRecord[];
+}
+
+interface PantryLedgerRepository extends PantryRepository {
+  cookEvent: {
+    findFirst(args: { where: Record<string, unknown>; include?: LotInclude }): Promise<CookEventRecord | null>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<unknown>;
   };
 }
 
@@ -75,6 +220,36 @@ interface SanitizedPantryQuantity {
   unit: string;
 }
 
+interface PantryLotSummary extends SanitizedPantryQuantity {
+  expiryDate: Date | null;
+}
+
+const LOT_INCLUDE = { lots: true };
+
+// Typical days before groceries in each category go off, used when stock
+// arrives without an expiry date (e.g. moved in from a shopping trip).
+// Shelf-stable categories are left without a default.
+export const DEFAULT_SHELF_LIFE_DAYS: Record<string, number> = {
+  Produce: 7,
+  Dairy: 10,
+  "Meat & Seafood": 3,
+  Bakery: 5,
+  Frozen: 90,
+  Leftovers: 4,
+};
+
+// Cooked food put away for later (see addLeftoversToPantry)
+export const LEFTOVERS_CATEGORY = "Leftovers";
+
+export function defaultExpiryForCategory(category: string, from: Date = new Date()): Date | null {
+  const days = DEFAULT_SHELF_LIFE_DAYS[category];
+  if (!days) return null;
+
+  const expiry = new Date(from);
+  expiry.setDate(expiry.getDate() + days);
+  return expiry;
+}
+
 export class PantryServiceError extends Error {
   constructor(
     public readonly status: number,
@@ -93,6 +268,12 @@ function requireTrimmedString(value: unknown, fieldName: string, maxLength: numb
   return trimmed;
 }
 
+// Blank means "let the classifier pick"
+function optionalTrimmedString(value: unknown, maxLength: number): string | null {
+  const trimmed = String(value ?? "").trim().slice(0, maxLength);
+  return trimmed || null;
+}
+
 function sanitizeOptionalDate(value: unknown): Date | null {
   if (!value) return null;
   const parsed = new Date(String(value));
@@ -143,18 +324,82 @@ export function sanitizePantryQuantity(
   };
 }
 
-export function formatPantryItemResponse(item: PantryItemRecord): PantryResponseItem {
-  let amount = item.amount;
-  let unit = item.unit;
-
-  if (amount === null && item.quantity) {
-    const parsed = parseQuantity(item.quantity);
-    if (parsed) {
-      amount = parsed.amount;
-      unit = parsed.unit;
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toDateString(date: Date | null): string | null {
+  return date?.toISOString().split("T")[0] ?? null;
+}
+
+// Structured amount for an item or lot, falling back to its legacy quantity string
+export function resolvePantryAmount(record: {
+  quantity: string;
+  amount: number | null;
+  unit: string;
+}): { amount: number; unit: string } | null {
+  if (record.amount !== null) return { amount: record.amount, unit: record.unit };
+  const parsed = record.quantity ? parseQuantity(record.quantity) : null;
+  return parsed ? { amount: parsed.amount, unit: parsed.unit } : null;
+}
+
+// Soonest-expiring lot first; lots without an expiry date are used last
+export function sortLotsFifo<T extends { id: number; expiryDate: Date | null; addedAt: Date }>(lots: T[]): T[] {
+  return [...lots].sort((left, right) => {
+    const leftExpiry = left.expiryDate?.getTime() ?? Number.POSITIVE_INFINITY;
+    const rightExpiry = right.expiryDate?.getTime() ?? Number.POSITIVE_INFINITY;
+    if (leftExpiry !== rightExpiry) return leftExpiry - rightExpiry;
+    const addedDiff = left.addedAt.getTime() - right.addedAt.getTime();
+    return addedDiff !== 0 ? addedDiff : left.id - right.id;
+  });
+}
+
+// Roll lots up into the item-level quantity and earliest expiry.
+// Amounts are totalled in the unit of the first lot; if any lot cannot be
+// converted, the quantity strings are joined and the amount is left null.
+export function summarizePantryLots(
+  lots: Pick<PantryLotRecord, "id" | "quantity" | "amount" | "unit" | "expiryDate" | "addedAt">[],
+): PantryLotSummary {
+  const ordered = sortLotsFifo(lots);
+  const expiryDate = ordered[0]?.expiryDate ?? null;
+
+  if (ordered.length === 1) {
+    const [lot] = ordered;
+    return { quantity: lot.quantity, amount: lot.amount, unit: lot.unit, expiryDate };
+  }
+
+  const resolved = ordered.map(resolvePantryAmount);
+  const targetUnit = resolved.find((entry) => entry !== null)?.unit ?? "";
+  let total = 0;
+  let convertible = resolved.length > 0;
+
+  for (const entry of resolved) {
+    const converted = entry ? convertAmount(entry.amount, entry.unit, targetUnit) : null;
+    if (converted === null) {
+      convertible = false;
+      break;
     }
+    total += converted;
+  }
+
+  if (convertible) {
+    const amount = roundAmount(total);
+    return { quantity: `${amount} ${targetUnit}`.trim(), amount, unit: targetUnit, expiryDate };
   }
 
+  return {
+    quantity: ordered.map((lot) => lot.quantity).filter(Boolean).join(" + ").slice(0, 100),
+    amount: null,
+    unit: "",
+    expiryDate,
+  };
+}
+
+export function formatPantryItemResponse(item: PantryItemRecord): PantryResponseItem {
+  const resolved = resolvePantryAmount(item);
+  const amount = resolved?.amount ?? item.amount;
+  const unit = resolved?.unit ?? item.unit;
+
   return {
     id: item.id,
     name: item.name,
@@ -163,8 +408,86 @@ export function formatPantryItemResponse(item: PantryItemRecord): PantryResponse
     amount,
     unit,
     category: item.category,
-    expiryDate: item.expiryDate?.toISOString().split("T")[0] ?? null,
+    expiryDate: toDateString(item.expiryDate),
     addedAt: item.addedAt.toISOString().split("T")[0],
+    lots: sortLotsFifo(item.lots ?? []).map((lot) => ({
+      id: lot.id,
+      quantity: lot.quantity,
+      amount: lot.amount,
+      unit: lot.unit,
+      expiryDate: toDateString(lot.expiryDate),
+      addedAt: lot.addedAt.toISOString().split("T")[0],
+    })),
+  };
+}
+
+function toIsoString(date: Date | null): string | null {
+  return date ? date.toISOString() : null;
+}
+
+export function snapshotPantryItem(item: PantryItemRecord): PantryItemSnapshot {
+  return {
+    id: item.id,
+    name: item.name,
+    canonName: item.canonName,
+    category: item.category,
+    quantity: item.quantity,
+    amount: item.amount,
+    unit: item.unit,
+    expiryDate: toIsoString(item.expiryDate),
+    lots: (item.lots ?? []).map((lot) => ({
+      id: lot.id,
+      quantity: lot.quantity,
+      amount: lot.amount,
+      unit: lot.unit,
+      expiryDate: toIsoString(lot.expiryDate),
+    })),
+  };
+}
+
+// Append one row to the pantry ledger. A null before/after means the item
+// did not exist on that side of the change (add / delete).
+export async function recordPantryEvent(
+  repo: PantryEventRepository,
+  userId: string,
+  action: PantryEventAction,
+  before: PantryItemRecord | null,
+  after: PantryItemRecord | null,
+  cookEventId?: number,
+): Promise<void> {
+  const subject = after ?? before;
+  if (!subject) return;
+
+  // Prisma rejects plain null for Json columns, so absent sides are omitted
+  await repo.pantryEvent.create({
+    data: {
+      userId,
+      pantryItemId: subject.id,
+      itemName: subject.name,
+      canonName: subject.canonName || normalize(subject.name),
+      action,
+      ...(before ? { before: snapshotPantryItem(before) } : {}),
+      ...(after ? { after: snapshotPantryItem(after) } : {}),
+      ...(cookEventId !== undefined ? { cookEventId } : {}),
+    },
+  });
+}
+
+export function formatPantryEventResponse(event: PantryEventRecord): PantryEventResponse {
+  const before = event.before as PantryItemSnapshot | null;
+  const after = event.after as PantryItemSnapshot | null;
+
+  return {
+    id: event.id,
+    pantryItemId: event.pantryItemId,
+    itemName: event.itemName,
+    action: event.action,
+    beforeQuantity: before?.quantity ?? null,
+    afterQuantity: after?.quantity ?? null,
+    cookEventId: event.cookEventId,
+    recipeTitle: event.cookEvent?.recipeTitle || null,
+    undone: Boolean(event.cookEvent?.undoneAt),
+    createdAt: event.createdAt.toISOString(),
   };
 }
 
@@ -182,7 +505,7 @@ export async function addPantryItem(
   body: Record<string, unknown>,
 ): Promise<PantryItemRecord> {
   const name = requireTrimmedString(body.name, "name", 200);
-  const category = requireTrimmedString(body.category, "category", 100);
+  const category = optionalTrimmedString(body.category, 100);
   const expiryDate = sanitizeOptionalDate(body.expiryDate);
   const { quantity, amount, unit } = sanitizePantryQuantity(body, { requireQuantity: true });
 
@@ -191,23 +514,36 @@ export async function addPantryItem(
   const canonName = normalize(name);
   const existing = await repo.pantryItem.findFirst({
     where: { userId, canonName },
+    include: LOT_INCLUDE,
   });
 
+  // Adding an item that already exists stores a new lot instead of
+  // overwriting the stock (and expiry date) that is already there
   if (existing) {
-    return repo.pantryItem.update({
-      where: { id: existing.id },
+    const lot = await repo.pantryLot.create({
       data: {
+        pantryItemId: existing.id,
         quantity,
         amount,
         unit,
-        category,
         expiryDate,
+      },
+    });
+
+    const updated = await repo.pantryItem.update({
+      where: { id: existing.id },
+      data: {
+        ...summarizePantryLots([...(existing.lots ?? []), lot]),
+        category: category ?? existing.category,
         canonName,
       },
+      include: LOT_INCLUDE,
     });
+    await recordPantryEvent(repo, userId, "add", existing, updated);
+    return updated;
   }
 
-  return repo.pantryItem.create({
+  const created = await repo.pantryItem.create({
     data: {
       userId,
       name,
@@ -215,9 +551,38 @@ export async function addPantryItem(
       quantity,
       amount,
       unit,
-      category,
+      category: category ?? (await classifyIngredient(repo, userId, name)).category,
       expiryDate,
+      lots: {
+        create: { quantity, amount, unit, expiryDate },
+      },
     },
+    include: LOT_INCLUDE,
+  });
+  await recordPantryEvent(repo, userId, "add", null, created);
+  return created;
+}
+
+// What's left of a cooked dish, counted in servings. It keeps only a few
+// days, so it always gets the Leftovers shelf life rather than one sent in.
+export async function addLeftoversToPantry(
+  repo: PantryRepository,
+  userId: string,
+  body: Record<string, unknown>,
+  now: Date = new Date(),
+): Promise<PantryItemRecord> {
+  const title = requireTrimmedString(body.recipeTitle, "recipeTitle", 180);
+  const servings = Number(body.servings);
+  if (!Number.isInteger(servings) || servings < 1) {
+    throw new PantryServiceError(400, "servings must be a positive integer");
+  }
+
+  return addPantryItem(repo, userId, {
+    name: `${title} (leftovers)`,
+    amount: servings,
+    unit: "servings",
+    category: LEFTOVERS_CATEGORY,
+    expiryDate: defaultExpiryForCategory(LEFTOVERS_CATEGORY, now)?.toISOString(),
   });
 }
 
@@ -231,8 +596,14 @@ export async function updatePantryItem(
     throw new PantryServiceError(400, "Missing required field: id");
   }
 
+  const lotId = body.lotId === undefined || body.lotId === null ? null : Number(body.lotId);
+  if (lotId !== null && (!Number.isInteger(lotId) || lotId <= 0)) {
+    throw new PantryServiceError(400, "Invalid lotId");
+  }
+
   const existing = await repo.pantryItem.findFirst({
     where: { id: itemId, userId },
+    include: LOT_INCLUDE,
   });
 
   if (!existing) {
@@ -247,27 +618,92 @@ export async function updatePantryItem(
     updateData.canonName = normalize(name);
   }
 
+  const lotData: Record<string, unknown> = {};
+
   if (body.amount !== undefined || body.quantity !== undefined) {
     const quantityDetails = sanitizePantryQuantity(body, { requireQuantity: false });
     if (quantityDetails.quantity) {
-      updateData.quantity = quantityDetails.quantity;
+      lotData.quantity = quantityDetails.quantity;
     }
-    updateData.amount = quantityDetails.amount;
-    updateData.unit = quantityDetails.unit;
+    lotData.amount = quantityDetails.amount;
+    lotData.unit = quantityDetails.unit;
   }
 
   if (body.category !== undefined) {
-    updateData.category = requireTrimmedString(body.category, "category", 100);
+    const category = requireTrimmedString(body.category, "category", 100);
+    updateData.category = category;
+    if (category !== existing.category) {
+      await recordCategoryCorrection(repo, userId, String(updateData.name ?? existing.name), category);
+    }
   }
 
   if (body.expiryDate !== undefined) {
-    updateData.expiryDate = sanitizeOptionalDate(body.expiryDate);
+    lotData.expiryDate = sanitizeOptionalDate(body.expiryDate);
+  }
+
+  if (Object.keys(lotData).length > 0) {
+    const lots = await updateLots(repo, existing, lotId, lotData);
+    Object.assign(updateData, summarizePantryLots(lots));
   }
 
-  return repo.pantryItem.update({
+  const updated = await repo.pantryItem.update({
     where: { id: itemId },
     data: updateData,
+    include: LOT_INCLUDE,
+  });
+  await recordPantryEvent(repo, userId, "update", existing, updated);
+  return updated;
+}
+
+// Apply a quantity/expiry edit to an item's lots and return the resulting lots.
+// - With a lotId, only that lot changes.
+// - A single-lot item edits its only lot.
+// - A quantity edit on a multi-lot item replaces every lot with one lot of the new total.
+// - An expiry-only edit on a multi-lot item applies the date to every lot.
+async function updateLots(
+  repo: PantryRepository,
+  item: PantryItemRecord,
+  lotId: number | null,
+  lotData: Record<string, unknown>,
+): Promise<PantryLotRecord[]> {
+  const lots = item.lots ?? [];
+
+  if (lotId !== null || lots.length === 1) {
+    const target = lotId !== null ? lots.find((lot) => lot.id === lotId) : lots[0];
+    if (!target) {
+      throw new PantryServiceError(404, "Lot not found");
+    }
+
+    const updated = await repo.pantryLot.update({
+      where: { id: target.id },
+      data: lotData,
+    });
+    return lots.map((lot) => (lot.id === target.id ? updated : lot));
+  }
+
+  if (lots.length > 1 && !("amount" in lotData)) {
+    await repo.pantryLot.updateMany({
+      where: { pantryItemId: item.id },
+      data: lotData,
+    });
+    return lots.map((lot) => ({ ...lot, ...lotData }) as PantryLotRecord);
+  }
+
+  if (lots.length > 0) {
+    await repo.pantryLot.deleteMany({ where: { pantryItemId: item.id } });
+  }
+
+  const lot = await repo.pantryLot.create({
+    data: {
+      pantryItemId: item.id,
+      quantity: item.quantity,
+      amount: item.amount,
+      unit: item.unit,
+      expiryDate: item.expiryDate,
+      ...lotData,
+    },
   });
+  return [lot];
 }
 
 export async function deletePantryItem(
@@ -286,6 +722,7 @@ export async function deletePantryItem(
 
   const existing = await repo.pantryItem.findFirst({
     where: { id: itemId, userId },
+    include: LOT_INCLUDE,
   });
 
   if (!existing) {
@@ -295,6 +732,308 @@ export async function deletePantryItem(
   await repo.pantryItem.delete({
     where: { id: itemId },
   });
+  await recordPantryEvent(repo, userId, "delete", existing, null);
+}
+
+// Remove every pantry item for a user, recording a delete event for each
+export async function clearPantry(repo: PantryRepository, userId: string): Promise<void> {
+  const items = await repo.pantryItem.findMany({
+    where: { userId },
+    include: LOT_INCLUDE,
+  });
+
+  await repo.pantryItem.deleteMany({ where: { userId } });
+  for (const item of items) {
+    await recordPantryEvent(repo, userId, "delete", item, null);
+  }
+}
+
+// Remove a single lot; removing the last lot removes the whole item.
+// Returns the updated item, or null when the item was deleted.
+export async function deletePantryLot(
+  repo: PantryRepository,
+  userId: string,
+  idValue: string | null,
+  lotIdValue: string | null,
+): Promise<PantryItemRecord | null> {
+  const itemId = Number.parseInt(idValue ?? "", 10);
+  const lotId = Number.parseInt(lotIdValue ?? "", 10);
+  if (Number.isNaN(itemId) || Number.isNaN(lotId)) {
+    throw new PantryServiceError(400, "Invalid id or lotId");
+  }
+
+  const existing = await repo.pantryItem.findFirst({
+    where: { id: itemId, userId },
+    include: LOT_INCLUDE,
+  });
+
+  if (!existing) {
+    throw new PantryServiceError(404, "Item not found");
+  }
+
+  const lots = existing.lots ?? [];
+  if (!lots.some((lot) => lot.id === lotId)) {
+    throw new PantryServiceError(404, "Lot not found");
+  }
+
+  const remainingLots = lots.filter((lot) => lot.id !== lotId);
+  if (remainingLots.length === 0) {
+    await repo.pantryItem.delete({ where: { id: itemId } });
+    await recordPantryEvent(repo, userId, "delete", existing, null);
+    return null;
+  }
+
+  await repo.pantryLot.delete({ where: { id: lotId } });
+  const updated = await repo.pantryItem.update({
+    where: { id: itemId },
+    data: { ...summarizePantryLots(remainingLots) },
+    include: LOT_INCLUDE,
+  });
+  await recordPantryEvent(repo, userId, "update", existing, updated);
+  return updated;
+}
+
+// Work out which lots a deduction consumes, soonest-expiring first.
+// Lots whose amount is unknown or whose unit cannot be converted (even via
+// the ingredient's density) are left untouched. No changes means nothing
+// could be deducted; whatever the lots don't cover is the shortfall.
+export function planLotDeduction(
+  lots: PantryLotRecord[],
+  amount: number,
+  unit: string,
+  canonName = "",
+): PantryDeductionPlan {
+  const changes: PantryLotDeduction[] = [];
+  let remainingNeed = amount;
+
+  for (const lot of sortLotsFifo(lots)) {
+    if (remainingNeed <= 0) break;
+
+    const current = resolvePantryAmount(lot);
+    if (!current) continue;
+
+    const needInLotUnit = convertIngredientAmount(remainingNeed, unit, current.unit, canonName);
+    if (needInLotUnit === null) continue;
+    const left = current.amount - needInLotUnit;
+
+    if (left <= 0) {
+      changes.push({ lotId: lot.id, action: "removed" });
+      // Carry over the share of the need this lot could not cover
+      remainingNeed = current.amount > 0 ? remainingNeed * (1 - current.amount / needInLotUnit) : remainingNeed;
+      continue;
+    }
+
+    let remainingAmount = left;
+    let remainingUnit = current.unit;
+
+    // If the lot unit is a group (dozen, pair) and the result doesn't
+    // divide evenly, switch to plain count
+    const multiplier = getUnitType(current.unit) === "count"
+      ? COUNT_MULTIPLIERS[normalizeUnit(current.unit)] ?? 1
+      : 1;
+    if (multiplier > 1) {
+      const remainingItems = Math.round(left * multiplier * 1e6) / 1e6;
+      if (remainingItems % multiplier !== 0) {
+        remainingAmount = remainingItems;
+        remainingUnit = "";
+      }
+    }
+
+    changes.push({
+      lotId: lot.id,
+      action: "updated",
+      remainingAmount: roundAmount(remainingAmount),
+      remainingUnit,
+    });
+    remainingNeed = 0;
+  }
+
+  return { changes, shortfall: roundAmount(Math.max(remainingNeed, 0)) };
+}
+
+// Apply planned deductions to an in-memory list of lots
+export function applyLotDeduction(lots: PantryLotRecord[], changes: PantryLotDeduction[]): PantryLotRecord[] {
+  const byLot = new Map(changes.map((change) => [change.lotId, change]));
+  return lots.flatMap((lot) => {
+    const change = byLot.get(lot.id);
+    if (!change) return [lot];
+    if (change.action === "removed") return [];
+    const amount = change.remainingAmount ?? lot.amount;
+    const unit = change.remainingUnit ?? lot.unit;
+    return [{ ...lot, amount, unit, quantity: `${amount ?? ""} ${unit}`.trim() }];
+  });
+}
+
+function snapshotToLotData(lot: PantryLotSnapshot): Record<string, unknown> {
+  return {
+    quantity: lot.quantity,
+    amount: lot.amount,
+    unit: lot.unit,
+    expiryDate: lot.expiryDate ? new Date(lot.expiryDate) : null,
+  };
+}
+
+// Amount a deduction took out of a lot, in the lot's post-deduction unit
+function consumedFromLot(
+  beforeLot: PantryLotSnapshot,
+  afterLot: PantryLotSnapshot,
+): { amount: number; unit: string } | null {
+  const before = resolvePantryAmount(beforeLot);
+  const after = resolvePantryAmount(afterLot);
+  if (!before || !after) return null;
+
+  const amount = (convertAmount(before.amount, before.unit, after.unit) ?? before.amount) - after.amount;
+  return amount > 0 ? { amount, unit: after.unit } : null;
+}
+
+// Put back what one deduct event took out. Restores by difference rather
+// than overwriting, so changes made after the cook are kept. Items that were
+// used up are recreated (or merged into an item re-added under the same name).
+async function restoreDeduction(
+  repo: PantryRepository,
+  userId: string,
+  before: PantryItemSnapshot,
+  after: PantryItemSnapshot | null,
+): Promise<{ current: PantryItemRecord | null; restored: PantryItemRecord }> {
+  const current =
+    (await repo.pantryItem.findFirst({ where: { id: before.id, userId }, include: LOT_INCLUDE })) ??
+    (await repo.pantryItem.findFirst({ where: { userId, canonName: before.canonName }, include: LOT_INCLUDE }));
+
+  const newLots: Record<string, unknown>[] = [];
+  const lotAdditions = new Map<number, { amount: number; unit: string }>();
+
+  for (const beforeLot of before.lots) {
+    const afterLot = after?.lots.find((lot) => lot.id === beforeLot.id);
+    if (!afterLot) {
+      newLots.push(snapshotToLotData(beforeLot));
+      continue;
+    }
+
+    const consumed = consumedFromLot(beforeLot, afterLot);
+    if (consumed) {
+      lotAdditions.set(beforeLot.id, consumed);
+    }
+  }
+
+  if (!current) {
+    const lotData = [
+      ...newLots,
+      ...[...lotAdditions].map(([lotId, consumed]) => {
+        const beforeLot = before.lots.find((lot) => lot.id === lotId)!;
+        const amount = roundAmount(consumed.amount);
+        return {
+          ...snapshotToLotData(beforeLot),
+          amount,
+          unit: consumed.unit,
+          quantity: `${amount} ${consumed.unit}`.trim(),
+        };
+      }),
+    ];
+    const created = await repo.pantryItem.create({
+      data: {
+        userId,
+        name: before.name,
+        canonName: before.canonName,
+        category: before.category,
+        quantity: before.quantity,
+        amount: before.amount,
+        unit: before.unit,
+        lots: { create: lotData },
+      },
+      include: LOT_INCLUDE,
+    });
+    const restored = await repo.pantryItem.update({
+      where: { id: created.id },
+      data: { ...summarizePantryLots(created.lots ?? []) },
+      include: LOT_INCLUDE,
+    });
+    return { current: null, restored };
+  }
+
+  const lots = [...(current.lots ?? [])];
+  for (const [lotId, consumed] of lotAdditions) {
+    const index = lots.findIndex((lot) => lot.id === lotId);
+    const existingAmount = index >= 0 ? resolvePantryAmount(lots[index]) : null;
+    const added = existingAmount ? convertAmount(consumed.amount, consumed.unit, existingAmount.unit) : null;
+
+    if (existingAmount && added !== null) {
+      const amount = roundAmount(existingAmount.amount + added);
+      lots[index] = await repo.pantryLot.update({
+        where: { id: lotId },
+        data: { amount, unit: existingAmount.unit, quantity: `${amount} ${existingAmount.unit}`.trim() },
+      });
+      continue;
+    }
+
+    // The lot is gone (or changed units) since the cook — restore as a new lot
+    const beforeLot = before.lots.find((lot) => lot.id === lotId)!;
+    const amount = roundAmount(consumed.amount);
+    newLots.push({
+      ...snapshotToLotData(beforeLot),
+      amount,
+      unit: consumed.unit,
+      quantity: `${amount} ${consumed.unit}`.trim(),
+    });
+  }
+
+  for (const lotData of newLots) {
+    lots.push(await repo.pantryLot.create({ data: { ...lotData, pantryItemId: current.id } }));
+  }
+
+  const restored = await repo.pantryItem.update({
+    where: { id: current.id },
+    data: { ...summarizePantryLots(lots) },
+    include: LOT_INCLUDE,
+  });
+  return { current, restored };
+}
+
+// Reverse every deduction made by one cook event, newest first
+export async function undoCookEvent(
+  repo: PantryLedgerRepository,
+  userId: string,
+  cookEventIdValue: unknown,
+): Promise<PantryItemRecord[]> {
+  const cookEventId = Number(cookEventIdValue);
+  if (!Number.isInteger(cookEventId) || cookEventId <= 0) {
+    throw new PantryServiceError(400, "Missing required field: cookEventId");
+  }
+
+  const cookEvent = await repo.cookEvent.findFirst({
+    where: { id: cookEventId, userId },
+    include: { events: true },
+  });
+
+  if (!cookEvent) {
+    throw new PantryServiceError(404, "Cook event not found");
+  }
+
+  if (cookEvent.undoneAt) {
+    throw new PantryServiceError(409, "Cook event has already been undone");
+  }
+
+  const deductions = (cookEvent.events ?? [])
+    .filter((event) => event.action === "deduct" && event.before)
+    .sort((left, right) => right.id - left.id);
+
+  const restoredItems: PantryItemRecord[] = [];
+  for (const event of deductions) {
+    const { current, restored } = await restoreDeduction(
+      repo,
+      userId,
+      event.before as PantryItemSnapshot,
+      (event.after as PantryItemSnapshot | null) ?? null,
+    );
+    await recordPantryEvent(repo, userId, "restore", current, restored, cookEventId);
+    restoredItems.push(restored);
+  }
+
+  await repo.cookEvent.update({
+    where: { id: cookEventId },
+    data: { undoneAt: new Date() },
+  });
+
+  return restoredItems;
 }
 
 const GENERIC_WORDS = new Set([
@@ -395,71 +1134,59 @@ export function matchPantryIngredients(
         ingredientAmount: ingredient.amount,
         ingredientUnit: ingredient.unit,
         pantryItem: null,
+        availableAmount: null,
         status: "unmatched",
       };
     }
 
-    let pantryAmount = pantryItem.amount;
-    let pantryUnit = pantryItem.unit;
-    if (pantryAmount === null) {
-      const parsed = parseQuantity(pantryItem.quantity);
-      if (parsed) {
-        pantryAmount = parsed.amount;
-        pantryUnit = parsed.unit;
-      }
-    }
+    const resolved = resolvePantryAmount(pantryItem);
 
     const pantryItemResponse = {
       id: pantryItem.id,
       name: pantryItem.name,
-      amount: pantryAmount,
-      unit: pantryUnit,
+      amount: resolved?.amount ?? null,
+      unit: resolved?.unit ?? pantryItem.unit,
     };
 
-    if (pantryAmount === null || !ingredient.amount) {
+    // Add up every lot in the ingredient's unit; items loaded without
+    // lots are treated as a single lot
+    const lots = pantryItem.lots?.length ? pantryItem.lots : [pantryItem];
+    const pantryCanon = pantryItem.canonName || ingredientCanon;
+    let available: number | null = null;
+    let hasKnownAmount = false;
+    for (const lot of lots) {
+      const lotAmount = resolvePantryAmount(lot);
+      if (!lotAmount) continue;
+      hasKnownAmount = true;
+
+      const converted = convertIngredientAmount(lotAmount.amount, lotAmount.unit, ingredient.unit, pantryCanon);
+      if (converted !== null) {
+        available = (available ?? 0) + converted;
+      }
+    }
+
+    if (hasKnownAmount && available === null && ingredient.amount) {
       return {
         ingredientIndex: index,
         ingredientName: ingredient.name,
         ingredientAmount: ingredient.amount,
         ingredientUnit: ingredient.unit,
         pantryItem: pantryItemResponse,
-        status: "matched",
+        availableAmount: null,
+        status: "unconvertible",
       };
     }
 
-    const ingredientUnitType = getUnitType(ingredient.unit);
-    const pantryUnitType = getUnitType(pantryUnit);
-
-    if (ingredientUnitType === pantryUnitType && ingredientUnitType !== "unknown") {
-      if (ingredientUnitType === "count") {
-        const pantryMultiplier = COUNT_MULTIPLIERS[normalizeUnit(pantryUnit)] ?? 1;
-        const ingredientMultiplier = COUNT_MULTIPLIERS[normalizeUnit(ingredient.unit)] ?? 1;
-        const pantryCount = pantryAmount * pantryMultiplier;
-        const ingredientCount = ingredient.amount * ingredientMultiplier;
-
-        return {
-          ingredientIndex: index,
-          ingredientName: ingredient.name,
-          ingredientAmount: ingredient.amount,
-          ingredientUnit: ingredient.unit,
-          pantryItem: pantryItemResponse,
-          status: pantryCount >= ingredientCount ? "matched" : "partial",
-        };
-      }
-
-      const ingredientBase = convertToBase(ingredient.amount, ingredient.unit);
-      const pantryBase = convertToBase(pantryAmount, pantryUnit);
-
-      if (ingredientBase && pantryBase) {
-        return {
-          ingredientIndex: index,
-          ingredientName: ingredient.name,
-          ingredientAmount: ingredient.amount,
-          ingredientUnit: ingredient.unit,
-          pantryItem: pantryItemResponse,
-          status: pantryBase.amount >= ingredientBase.amount ? "matched" : "partial",
-        };
-      }
+    if (available === null || !ingredient.amount) {
+      return {
+        ingredientIndex: index,
+        ingredientName: ingredient.name,
+        ingredientAmount: ingredient.amount,
+        ingredientUnit: ingredient.unit,
+        pantryItem: pantryItemResponse,
+        availableAmount: available === null ? null : roundAmount(available),
+        status: "matched",
+      };
     }
 
     return {
@@ -468,7 +1195,42 @@ export function matchPantryIngredients(
       ingredientAmount: ingredient.amount,
       ingredientUnit: ingredient.unit,
       pantryItem: pantryItemResponse,
-      status: "matched",
+      availableAmount: roundAmount(available),
+      status: available >= ingredient.amount ? "matched" : "partial",
+    };
+  });
+}
+
+// Work out how much of each ingredient still needs buying once pantry stock
+// is taken into account. Items the pantry holds in an unknown amount count as
+// covered; amounts that cannot be converted are left in full.
+export function computePantryShortfalls(
+  pantryItems: PantryItemRecord[],
+  ingredients: PantryIngredientInput[],
+): PantryShortfall[] {
+  return matchPantryIngredients(pantryItems, ingredients).map((match) => {
+    if (match.status !== "matched" && match.status !== "partial") {
+      return {
+        ingredientIndex: match.ingredientIndex,
+        name: match.ingredientName,
+        unit: match.ingredientUnit,
+        requestedAmount: match.ingredientAmount,
+        shortfallAmount: match.ingredientAmount,
+        coveredByPantry: false,
+      };
+    }
+
+    const shortfallAmount = match.availableAmount === null
+      ? 0
+      : Math.max(0, roundAmount(match.ingredientAmount - match.availableAmount));
+
+    return {
+      ingredientIndex: match.ingredientIndex,
+      name: match.ingredientName,
+      unit: match.ingredientUnit,
+      requestedAmount: match.ingredientAmount,
+      shortfallAmount,
+      coveredByPantry: shortfallAmount <= 0,
     };
   });
 }
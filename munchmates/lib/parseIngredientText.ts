@@ -1,5 +1,7 @@
 // lib/parseIngredientText.ts
 // Parse freeform ingredient strings like "2 cups flour" into structured data
+// Also understands the way people type shopping lists: "a dozen eggs",
+// "1½ lbs chicken", "two bags of spinach"
 
 const KNOWN_UNITS = new Set([
   'cup', 'cups', 'tbsp', 'tablespoon', 'tablespoons', 'tsp', 'teaspoon', 'teaspoons',
@@ -9,8 +11,32 @@ const KNOWN_UNITS = new Set([
   'fl oz', 'fluid ounce', 'fluid ounces',
   'pinch', 'dash', 'bunch', 'can', 'cans', 'clove', 'cloves',
   'piece', 'pieces', 'slice', 'slices', 'whole',
+  'gallon', 'gallons', 'gal', 'quart', 'quarts', 'qt', 'pint', 'pints', 'pt',
+  'bag', 'bags', 'bottle', 'bottles', 'box', 'boxes', 'jar', 'jars',
+  'package', 'packages', 'pkg', 'pack', 'packs', 'carton', 'cartons',
+  'stick', 'sticks', 'head', 'heads', 'loaf', 'loaves', 'bunches',
 ]);
 
+const WORD_NUMBERS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 0.5, couple: 2,
+};
+
+const UNICODE_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅛': '1/8',
+};
+
+const WORD_NUMBER_PATTERN = new RegExp(
+  `^(?:a\\s+)?(${Object.keys(WORD_NUMBERS).join('|')})\\b(?:\\s+(?:an?|of)\\b)?\\s*`,
+  'i'
+);
+
+// Where a new item starts when splitting "eggs and 1 gallon milk"
+// ("half" is left out so "half and half" stays one item)
+const ITEM_START_WORDS = Object.keys(WORD_NUMBERS).filter((word) => word !== 'half');
+const ITEM_START_PATTERN = `(?:\\d|[${Object.keys(UNICODE_FRACTIONS).join('')}]|(?:${ITEM_START_WORDS.join('|')})\\b)`;
+
 export interface ParsedIngredient {
   amount: number;
   unit: string;
@@ -18,16 +44,56 @@ export interface ParsedIngredient {
   original: string;
 }
 
+// "1½" → "1 1/2", "¾" → "3/4"
+function expandUnicodeFractions(text: string): string {
+  return text.replace(/(\d)?\s*([½⅓⅔¼¾⅛])/g, (_match, whole: string | undefined, fraction: string) =>
+    `${whole ? `${whole} ` : ''}${UNICODE_FRACTIONS[fraction]}`
+  );
+}
+
+// Leading "a", "two", "half a", "a couple of" — only when something follows
+function parseWordAmount(text: string): { amount: number; rest: string } | null {
+  const match = text.match(WORD_NUMBER_PATTERN);
+  if (!match) return null;
+  const rest = text.slice(match[0].length).trim();
+  if (!rest || /^(?:and|or)\b/i.test(rest)) return null;
+  return { amount: WORD_NUMBERS[match[1].toLowerCase()], rest };
+}
+
+// "dozen eggs" after an amount multiplies it: "a dozen eggs" → 12 eggs
+function applyDozen(amount: number, rest: string): { amount: number; rest: string } {
+  const match = rest.match(/^dozens?\b(?:\s+of\b)?\s*/i);
+  if (!match) return { amount, rest };
+  return { amount: amount * 12, rest: rest.slice(match[0].length).trim() };
+}
+
+// "2 lbs chicken thighs, a dozen eggs and 1 gallon milk" → one string per item.
+// "and" only splits when a quantity follows, so "salt and pepper" stays whole.
+export function splitIngredientList(text: string): string[] {
+  const andPattern = new RegExp(`\\s+(?:and|&|plus)\\s+(?=${ITEM_START_PATTERN})`, 'i');
+  return text
+    .split(/[,;\n]+/)
+    .flatMap((part) => part.split(andPattern))
+    .map((part) => part.trim().replace(/^(?:and|&)\s+/i, '').replace(/[.!]+$/, '').trim())
+    .filter(Boolean);
+}
+
 export function parseIngredientText(text: string): ParsedIngredient {
   const original = text.trim();
   if (!original) return { amount: 0, unit: '', name: '', original };
 
+  const expanded = expandUnicodeFractions(original);
+
   // Match leading number (integer, decimal, fraction, mixed fraction)
   const numberPattern = /^(\d+\s+\d+\/\d+|\d+\/\d+|\d+\.?\d*)\s*/;
-  const numberMatch = original.match(numberPattern);
+  const numberMatch = expanded.match(numberPattern);
 
   if (!numberMatch) {
-    return { amount: 0, unit: '', name: original, original };
+    const wordAmount = parseWordAmount(expanded);
+    if (!wordAmount) {
+      return { amount: 0, unit: '', name: original, original };
+    }
+    return parseUnitAndName(applyDozen(wordAmount.amount, wordAmount.rest), original);
   }
 
   const rawNumber = numberMatch[1].trim();
@@ -53,7 +119,13 @@ export function parseIngredientText(text: string): ParsedIngredient {
     return { amount: 0, unit: '', name: original, original };
   }
 
-  const remainder = original.slice(numberMatch[0].length).trim();
+  return parseUnitAndName(applyDozen(amount, expanded.slice(numberMatch[0].length).trim()), original);
+}
+
+function parseUnitAndName(
+  { amount, rest: remainder }: { amount: number; rest: string },
+  original: string
+): ParsedIngredient {
   if (!remainder) {
     return { amount, unit: '', name: '', original };
   }
@@ -63,7 +135,7 @@ export function parseIngredientText(text: string): ParsedIngredient {
   const words = remainder.split(/\s+/);
   const twoWord = words.slice(0, 2).join(' ').toLowerCase();
   if (KNOWN_UNITS.has(twoWord)) {
-    const name = words.slice(2).join(' ').trim();
+    const name = stripOf(words.slice(2).join(' '));
     return { amount, unit: words.slice(0, 2).join(' '), name, original };
   }
 
@@ -71,10 +143,15 @@ export function parseIngredientText(text: string): ParsedIngredient {
   // Strip trailing period or comma from unit
   const cleanUnit = oneWord.replace(/[.,]$/, '');
   if (KNOWN_UNITS.has(cleanUnit)) {
-    const name = words.slice(1).join(' ').trim();
+    const name = stripOf(words.slice(1).join(' '));
     return { amount, unit: words[0].replace(/[.,]$/, ''), name, original };
   }
 
   // No known unit — entire remainder is the name
   return { amount, unit: '', name: remainder, original };
 }
+
+// "2 bags of spinach" → "spinach"
+function stripOf(name: string): string {
+  return name.trim().replace(/^of\s+/i, '');
+}
@@ -0,0 +1,237 @@
+import { lineCost, rememberPrices, type PriceBookRepository } from "@/lib/grocery-prices";
+import type { GroceryItemRecord } from "@/lib/grocery-service";
+import { normalize } from "@/lib/normalize";
+
+// Purchase history: checked-off grocery items are archived here instead of
+// disappearing when a list is cleared or a trip is finished. The history is
+// what "buy again" suggestions are built from — things bought often, and
+// things whose usual gap between purchases has run out. Archiving also keeps
+// what each line cost and remembers the prices paid in the price book.
+
+export interface GroceryPurchaseRecord {
+  id: number;
+  userId: string;
+  listId: number | null;
+  name: string;
+  canonName: string;
+  quantity: string | null;
+  category: string;
+  cost: number | null;
+  purchasedAt: Date;
+}
+
+export interface GroceryPurchaseResponse {
+  id: number;
+  listId: number | null;
+  name: string;
+  quantity: string | null;
+  category: string;
+  cost: number | null;
+  purchasedAt: string;
+}
+
+export type PurchaseSuggestionReason = "overdue" | "frequent";
+
+export interface PurchaseSuggestion {
+  name: string;
+  canonName: string;
+  quantity: string | null;
+  category: string;
+  reason: PurchaseSuggestionReason;
+  // Distinct days the item was bought on
+  purchaseCount: number;
+  lastPurchasedAt: string;
+  // Usual number of days between purchases; null with a single purchase
+  intervalDays: number | null;
+  daysSinceLastPurchase: number;
+  message: string;
+}
+
+export interface PurchaseHistoryRepository {
+  groceryPurchase: {
+    createMany(args: {
+      data: {
+        userId: string;
+        listId: number;
+        name: string;
+        canonName: string;
+        quantity: string | null;
+        category: string;
+        cost: number | null;
+        purchasedAt: Date;
+      }[];
+    }): Promise<{ count: number }>;
+    findFirst(args: {
+      where: Record<string, unknown>;
+      orderBy?: Record<string, "asc" | "desc">;
+    }): Promise<GroceryPurchaseRecord | null>;
+    delete(args: { where: { id: number } }): Promise<unknown>;
+  };
+}
+
+// How far back suggestions look
+export const PURCHASE_HISTORY_DAYS = 180;
+export const DEFAULT_SUGGESTION_LIMIT = 8;
+export const MAX_SUGGESTION_LIMIT = 20;
+// Bought on at least this many days to count as a regular without being due
+export const MIN_FREQUENT_PURCHASES = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function formatGroceryPurchaseResponse(purchase: GroceryPurchaseRecord): GroceryPurchaseResponse {
+  return {
+    id: purchase.id,
+    listId: purchase.listId,
+    name: purchase.name,
+    quantity: purchase.quantity,
+    category: purchase.category,
+    cost: purchase.cost,
+    purchasedAt: purchase.purchasedAt.toISOString(),
+  };
+}
+
+// Record the checked-off items among `items` as bought. Items still to buy
+// are ignored. Prices paid go into the price book. Returns how many purchases
+// were recorded.
+export async function archivePurchases(
+  repo: PurchaseHistoryRepository & PriceBookRepository,
+  userId: string,
+  items: GroceryItemRecord[],
+  now: Date = new Date(),
+): Promise<number> {
+  const completed = items.filter((item) => item.completed);
+  if (completed.length === 0) return 0;
+
+  const { count } = await repo.groceryPurchase.createMany({
+    data: completed.map((item) => ({
+      userId,
+      listId: item.listId,
+      name: item.name,
+      canonName: normalize(item.name),
+      quantity: item.quantity,
+      category: item.category,
+      cost: lineCost(item),
+      purchasedAt: now,
+    })),
+  });
+  await rememberPrices(repo, userId, completed);
+  return count;
+}
+
+// Take back the most recent purchase of each name on a list, for when
+// archived items go back on the list (undoing a finished trip).
+export async function unarchivePurchases(
+  repo: PurchaseHistoryRepository,
+  userId: string,
+  listId: number,
+  names: string[],
+): Promise<number> {
+  let removed = 0;
+  for (const name of new Set(names)) {
+    const purchase = await repo.groceryPurchase.findFirst({
+      where: { userId, listId, name },
+      orderBy: { purchasedAt: "desc" },
+    });
+    if (!purchase) continue;
+    await repo.groceryPurchase.delete({ where: { id: purchase.id } });
+    removed++;
+  }
+  return removed;
+}
+
+export function parseSuggestionLimit(value: unknown): number {
+  const limit = Number.parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(limit) || limit <= 0) return DEFAULT_SUGGESTION_LIMIT;
+  return Math.min(limit, MAX_SUGGESTION_LIMIT);
+}
+
+function utcDay(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((left, right) => left - right);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function everyDays(days: number): string {
+  return days === 1 ? "every day" : `every ${days} days`;
+}
+
+function daysAgo(days: number): string {
+  return days === 1 ? "yesterday" : `${days} days ago`;
+}
+
+// Suggest items to buy again from a purchase history. An item is overdue once
+// the usual gap between its purchases (the median, so one late trip doesn't
+// skew it) has passed since it was last bought; overdue items come first, the
+// most overdue at the top. Items bought on MIN_FREQUENT_PURCHASES or more days
+// follow as regulars. Anything in `exclude` (canonical names already on the
+// list, staples) is skipped. Several purchases on one day count once.
+export function suggestPurchases(
+  purchases: GroceryPurchaseRecord[],
+  exclude: Set<string>,
+  now: Date = new Date(),
+  limit = DEFAULT_SUGGESTION_LIMIT,
+): PurchaseSuggestion[] {
+  const byName = new Map<string, GroceryPurchaseRecord[]>();
+  for (const purchase of purchases) {
+    if (exclude.has(purchase.canonName)) continue;
+    const group = byName.get(purchase.canonName);
+    if (group) group.push(purchase);
+    else byName.set(purchase.canonName, [purchase]);
+  }
+
+  const today = utcDay(now);
+  const ranked: { suggestion: PurchaseSuggestion; score: number }[] = [];
+
+  for (const [canonName, group] of byName) {
+    const latest = group.reduce((newest, purchase) =>
+      purchase.purchasedAt > newest.purchasedAt ? purchase : newest,
+    );
+    const days = [...new Set(group.map((purchase) => utcDay(purchase.purchasedAt)))].sort((left, right) => left - right);
+    const gaps = days.slice(1).map((day, index) => day - days[index]);
+    const intervalDays = gaps.length > 0 ? Math.max(1, Math.round(median(gaps))) : null;
+    const daysSinceLastPurchase = Math.max(0, today - days[days.length - 1]);
+
+    const base = {
+      name: latest.name,
+      canonName,
+      quantity: latest.quantity,
+      category: latest.category,
+      purchaseCount: days.length,
+      lastPurchasedAt: latest.purchasedAt.toISOString(),
+      intervalDays,
+      daysSinceLastPurchase,
+    };
+
+    if (intervalDays !== null && daysSinceLastPurchase >= intervalDays) {
+      ranked.push({
+        suggestion: {
+          ...base,
+          reason: "overdue",
+          message: `You usually buy ${latest.name} ${everyDays(intervalDays)}; last bought ${daysAgo(daysSinceLastPurchase)}`,
+        },
+        // Overdue items outrank regulars however often those are bought
+        score: 1_000_000 + daysSinceLastPurchase / intervalDays,
+      });
+    } else if (intervalDays !== null && days.length >= MIN_FREQUENT_PURCHASES) {
+      ranked.push({
+        suggestion: {
+          ...base,
+          reason: "frequent",
+          message: `You buy ${latest.name} about ${everyDays(intervalDays)}`,
+        },
+        score: days.length,
+      });
+    }
+  }
+
+  return ranked
+    .sort((left, right) =>
+      right.score - left.score || left.suggestion.name.localeCompare(right.suggestion.name),
+    )
+    .slice(0, limit)
+    .map((entry) => entry.suggestion);
+}
@@ -0,0 +1,62 @@
+import { formatQuantity, mergeQuantityStrings } from "@/lib/grocery-consolidation";
+import { classifyCanonicalName, type ClassifyOptions } from "@/lib/ingredient-classifier";
+import { normalize } from "@/lib/normalize";
+import { parseIngredientText, splitIngredientList } from "@/lib/parseIngredientText";
+
+// Natural-language quick add: "2 lbs chicken thighs, a dozen eggs and 1 gallon milk"
+// becomes one previewable item per ingredient. Nothing is saved here — the
+// preview is committed in one batch through POST /api/grocery or /api/pantry.
+
+export interface QuickAddItem {
+  name: string;
+  amount: number | null;
+  unit: string;
+  quantity: string | null;
+  category: string;
+  original: string;
+}
+
+export const QUICK_ADD_MAX_LENGTH = 2000;
+export const QUICK_ADD_MAX_ITEMS = 50;
+
+export function parseQuickAddText(text: string, options: ClassifyOptions = {}): QuickAddItem[] {
+  const items = new Map<string, QuickAddItem>();
+
+  for (const segment of splitIngredientList(text.slice(0, QUICK_ADD_MAX_LENGTH))) {
+    const parsed = parseIngredientText(segment);
+    const rawName = parsed.name.trim();
+    if (!rawName) continue;
+
+    const name = normalize(rawName) || rawName.toLowerCase();
+    const amount = parsed.amount > 0 ? parsed.amount : null;
+    const unit = parsed.unit.toLowerCase();
+
+    // "milk, 1 gallon milk" collapses into a single line
+    const existing = items.get(name);
+    if (existing) {
+      if (amount !== null && existing.quantity === null) {
+        existing.amount = amount;
+        existing.unit = unit;
+        existing.quantity = formatQuantity(amount, unit) || null;
+      } else if (amount !== null) {
+        existing.quantity = mergeQuantityStrings(existing.quantity, amount, unit);
+        existing.amount = existing.unit === unit && existing.amount !== null ? existing.amount + amount : null;
+      }
+      existing.original = `${existing.original}, ${parsed.original}`;
+      continue;
+    }
+
+    if (items.size >= QUICK_ADD_MAX_ITEMS) break;
+
+    items.set(name, {
+      name,
+      amount,
+      unit: amount !== null ? unit : "",
+      quantity: amount !== null ? formatQuantity(amount, unit) || null : null,
+      category: classifyCanonicalName(name, options, rawName).category,
+      original: parsed.original,
+    });
+  }
+
+  return [...items.values()];
+}
@@ -0,0 +1,173 @@
+import { lookupIngredientFactor, toGrams } from "@/lib/ingredient-density";
+import { normalize } from "@/lib/normalize";
+import { NUTRIENT_TABLE_VERSION, NUTRIENTS_PER_100G } from "@/lib/nutrient-table";
+import { addNutrition, emptyNutrition, scaleNutrition, type MacroTotals } from "@/lib/nutrition-goals";
+import { parseIngredientText } from "@/lib/parseIngredientText";
+
+// Nutrition for custom recipes, which Spoonacular knows nothing about: each
+// ingredient is converted to grams (lib/ingredient-density.ts) and looked up
+// in the bundled per-100 g table (lib/nutrient-table.ts). The per-serving
+// result is stored on the recipe with the table version it was worked out
+// with, and worked out again when the table changes.
+
+// Cloves never convert by weight in toGrams (a clove of garlic isn't a clove
+// of anything else), but garlic cloves are what recipes measure garlic in
+const GARLIC_CLOVE_GRAMS = 3;
+
+export interface NutritionIngredient {
+  name: string;
+  amount: number;
+  unit: string;
+}
+
+export interface RecipeNutrition {
+  // Null when none of the ingredients could be counted
+  perServing: MacroTotals | null;
+  // Names of the ingredients left out of the estimate
+  missing: string[];
+}
+
+// What's stored on CustomRecipe
+export interface StoredRecipeNutrition {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  nutritionMissing: string[];
+  nutritionVersion: number;
+}
+
+export interface CustomRecipeNutritionRecord {
+  id: number;
+  servings: number;
+  ingredients: string[];
+  structuredIngredients: NutritionIngredient[];
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  nutritionMissing: string[];
+  nutritionVersion: number | null;
+}
+
+export interface CustomRecipeNutritionRepository {
+  customRecipe: {
+    update(args: { where: { id: number }; data: StoredRecipeNutrition }): Promise<unknown>;
+  };
+}
+
+function ingredientGrams(ingredient: NutritionIngredient): number | null {
+  if (/^cloves?$/i.test(ingredient.unit.trim()) && /\bgarlic\b/i.test(ingredient.name)) {
+    return ingredient.amount * GARLIC_CLOVE_GRAMS;
+  }
+  return toGrams(ingredient.amount, ingredient.unit, ingredient.name);
+}
+
+// Add up the ingredients (names as produced by normalize()) and divide by servings.
+// Ingredients without an amount ("salt to taste") add nothing and aren't missing.
+export function estimateRecipeNutrition(ingredients: NutritionIngredient[], servings: number): RecipeNutrition {
+  let total = emptyNutrition();
+  let counted = 0;
+  const missing: string[] = [];
+
+  for (const ingredient of ingredients) {
+    if (!ingredient.name || !(ingredient.amount > 0)) continue;
+
+    const per100g = lookupIngredientFactor(NUTRIENTS_PER_100G, ingredient.name);
+    const grams = per100g ? ingredientGrams(ingredient) : null;
+    if (!per100g || grams === null) {
+      missing.push(ingredient.name);
+      continue;
+    }
+
+    total = addNutrition(total, scaleNutrition(per100g, grams / 100));
+    counted++;
+  }
+
+  return {
+    perServing: counted > 0 ? scaleNutrition(total, 1 / Math.max(servings, 1)) : null,
+    missing: [...new Set(missing)],
+  };
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+// Work out the stored fields for a custom recipe. Older recipes only have
+// the flat ingredient strings, which are parsed the same way the create form does.
+// Preparation notes after a comma ("garlic, minced") are left out of the lookup.
+export function customRecipeNutritionData(recipe: {
+  servings: number;
+  ingredients: string[];
+  structuredIngredients: NutritionIngredient[];
+}): StoredRecipeNutrition {
+  const ingredients = recipe.structuredIngredients.length > 0
+    ? recipe.structuredIngredients
+    : recipe.ingredients.map(parseIngredientText);
+  const { perServing, missing } = estimateRecipeNutrition(
+    ingredients.map((ingredient) => ({ ...ingredient, name: normalize(ingredient.name.split(",")[0]) })),
+    recipe.servings,
+  );
+
+  return {
+    calories: perServing ? Math.round(perServing.calories) : null,
+    protein: perServing ? roundTo(perServing.protein, 1) : null,
+    carbs: perServing ? roundTo(perServing.carbs, 1) : null,
+    fat: perServing ? roundTo(perServing.fat, 1) : null,
+    nutritionMissing: missing,
+    nutritionVersion: NUTRIENT_TABLE_VERSION,
+  };
+}
+
+export function storedRecipeNutrition(
+  recipe: Pick<CustomRecipeNutritionRecord, "calories" | "protein" | "carbs" | "fat" | "nutritionMissing">,
+): RecipeNutrition {
+  return {
+    perServing: recipe.calories === null
+      ? null
+      : {
+          calories: recipe.calories,
+          protein: recipe.protein ?? 0,
+          carbs: recipe.carbs ?? 0,
+          fat: recipe.fat ?? 0,
+        },
+    missing: recipe.nutritionMissing,
+  };
+}
+
+// The recipe's nutrition as of the current nutrient table, worked out in memory
+// when what's stored is older. For reads that mustn't write, like anonymous ones.
+export function currentRecipeNutrition(recipe: CustomRecipeNutritionRecord): RecipeNutrition {
+  return storedRecipeNutrition(
+    recipe.nutritionVersion === NUTRIENT_TABLE_VERSION ? recipe : customRecipeNutritionData(recipe),
+  );
+}
+
+// Bring the stored nutrition of the given recipes up to date with the
+// nutrient table, saving any that were worked out again
+export async function withCurrentNutrition<T extends CustomRecipeNutritionRecord>(
+  repo: CustomRecipeNutritionRepository,
+  recipes: T[],
+): Promise<T[]> {
+  return Promise.all(
+    recipes.map(async (recipe) => {
+      if (recipe.nutritionVersion === NUTRIENT_TABLE_VERSION) return recipe;
+
+      const data = customRecipeNutritionData(recipe);
+      await repo.customRecipe.update({ where: { id: recipe.id }, data });
+      return { ...recipe, ...data };
+    }),
+  );
+}
+
+// The nutritionWidget.json shape the recipe detail page shows for Spoonacular recipes
+export function formatNutritionWidget(totals: MacroTotals) {
+  return {
+    calories: `${Math.round(totals.calories)}k`,
+    carbs: `${Math.round(totals.carbs)}g`,
+    fat: `${Math.round(totals.fat)}g`,
+    protein: `${Math.round(totals.protein)}g`,
+  };
+}
@@ -0,0 +1,8 @@
+import { randomBytes } from "crypto";
+
+// Tokens for links that work without signing in (grocery share links, the
+// meal plan's calendar feed). They're unguessable rather than signed;
+// revoking a link deletes its token.
+export function createShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
@@ -138,6 +138,7 @@ export interface ExtendedIngredient {
   unit: string;
   unitShort: string;
   unitLong: string;
+  original?: string;
   originalString: string;
   metaInformation: string[];
 }
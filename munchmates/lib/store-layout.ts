@@ -0,0 +1,236 @@
+import { GroceryServiceError } from "@/lib/grocery-service";
+
+// Store layout profiles: a per-store walking order of grocery categories.
+// The order starts from what the user saves and then drifts towards the
+// order items actually get checked off in, one trip at a time.
+
+export interface StoreCategoryOrderRecord {
+  id: number;
+  storeId: number;
+  category: string;
+  sortOrder: number;
+  aisle: string | null;
+  walkPosition: number | null;
+  walkSamples: number;
+}
+
+export interface StoreProfileRecord {
+  id: number;
+  userId: string;
+  name: string;
+  learnOrder: boolean;
+  createdAt: Date;
+  categories?: StoreCategoryOrderRecord[];
+}
+
+export interface StoreCategoryResponse {
+  category: string;
+  sortOrder: number;
+  aisle: string | null;
+  learned: boolean;
+}
+
+export interface StoreProfileResponse {
+  id: number;
+  name: string;
+  learnOrder: boolean;
+  categories: StoreCategoryResponse[];
+}
+
+export interface StoreLayoutInput {
+  category: string;
+  aisle: string | null;
+}
+
+// How far a single check-off moves a category's learned position
+export const WALK_LEARNING_RATE = 0.25;
+
+// Kept loose so the Prisma client satisfies the repository interface
+type RecordInclude = Record<string, unknown> | null;
+
+interface StoreLayoutRepository {
+  storeProfile: {
+    findFirst(args: { where: Record<string, unknown>; include?: RecordInclude }): Promise<StoreProfileRecord | null>;
+  };
+  storeCategoryOrder: {
+    create(args: { data: Record<string, unknown> }): Promise<StoreCategoryOrderRecord>;
+    update(args: { where: { id: number }; data: Record<string, unknown> }): Promise<StoreCategoryOrderRecord>;
+    deleteMany(args: { where: Record<string, unknown> }): Promise<unknown>;
+  };
+}
+
+const CATEGORY_INCLUDE = { categories: { orderBy: { sortOrder: "asc" } } };
+
+export function formatStoreProfileResponse(store: StoreProfileRecord): StoreProfileResponse {
+  return {
+    id: store.id,
+    name: store.name,
+    learnOrder: store.learnOrder,
+    categories: [...(store.categories ?? [])]
+      .sort((left, right) => left.sortOrder - right.sortOrder)
+      .map((row) => ({
+        category: row.category,
+        sortOrder: row.sortOrder,
+        aisle: row.aisle,
+        learned: row.walkSamples > 0,
+      })),
+  };
+}
+
+export function sanitizeStoreName(value: unknown): string {
+  const name = typeof value === "string" ? value.trim().slice(0, 100) : "";
+  if (!name) {
+    throw new GroceryServiceError(400, "Missing required field: name");
+  }
+  return name;
+}
+
+// Layouts arrive as an ordered array of { category, aisle? }
+export function sanitizeStoreLayout(value: unknown): StoreLayoutInput[] {
+  if (!Array.isArray(value)) {
+    throw new GroceryServiceError(400, "categories must be an array");
+  }
+
+  const seen = new Set<string>();
+  const layout: StoreLayoutInput[] = [];
+
+  for (const entry of value) {
+    const category = String(
+      typeof entry === "string" ? entry : (entry as { category?: unknown })?.category ?? "",
+    ).trim().slice(0, 100);
+    if (!category || seen.has(category)) continue;
+    seen.add(category);
+
+    const aisleValue = typeof entry === "object" && entry ? (entry as { aisle?: unknown }).aisle : null;
+    const aisle = aisleValue === undefined || aisleValue === null || String(aisleValue).trim() === ""
+      ? null
+      : String(aisleValue).trim().slice(0, 20);
+
+    layout.push({ category, aisle });
+  }
+
+  return layout;
+}
+
+// Order the user's categories for a store. Categories the store knows come
+// first in store order; the rest keep their usual order at the end.
+export function orderCategoriesForStore(
+  categories: string[],
+  layout: { category: string; sortOrder: number }[],
+): string[] {
+  const storeOrder = new Map(layout.map((row) => [row.category, row.sortOrder]));
+  const known = categories
+    .filter((category) => storeOrder.has(category))
+    .sort((left, right) => storeOrder.get(left)! - storeOrder.get(right)!);
+  const unknown = categories.filter((category) => !storeOrder.has(category));
+  return [...known, ...unknown];
+}
+
+// Where in the trip a check-off happened: 0 for the first item, 1 for the last
+export function checkoffPosition(completedBefore: number, totalItems: number): number {
+  if (totalItems <= 1) return 0;
+  return Math.min(1, Math.max(0, completedBefore / (totalItems - 1)));
+}
+
+export function nextWalkPosition(previous: number | null, observed: number): number {
+  if (previous === null) return observed;
+  return previous + (observed - previous) * WALK_LEARNING_RATE;
+}
+
+function spreadPosition(index: number, count: number): number {
+  return count > 1 ? index / (count - 1) : 0;
+}
+
+export async function resolveStoreProfile(
+  repo: StoreLayoutRepository,
+  userId: string,
+  storeIdValue: unknown,
+): Promise<StoreProfileRecord> {
+  const storeId = typeof storeIdValue === "number" ? storeIdValue : Number.parseInt(String(storeIdValue), 10);
+  if (!Number.isInteger(storeId) || storeId <= 0) {
+    throw new GroceryServiceError(400, "Invalid storeId");
+  }
+
+  const store = await repo.storeProfile.findFirst({
+    where: { id: storeId, userId },
+    include: CATEGORY_INCLUDE,
+  });
+  if (!store) {
+    throw new GroceryServiceError(404, "Store not found");
+  }
+  return store;
+}
+
+// Replace a store's layout with the given order. Saving resets what was
+// learned so the next trips start from the user's order.
+export async function saveStoreLayout(
+  repo: StoreLayoutRepository,
+  store: StoreProfileRecord,
+  layout: StoreLayoutInput[],
+): Promise<void> {
+  const existing = new Map((store.categories ?? []).map((row) => [row.category, row]));
+
+  await repo.storeCategoryOrder.deleteMany({
+    where: { storeId: store.id, category: { notIn: layout.map((entry) => entry.category) } },
+  });
+
+  for (const [index, entry] of layout.entries()) {
+    const data = {
+      sortOrder: index,
+      aisle: entry.aisle,
+      walkPosition: spreadPosition(index, layout.length),
+      walkSamples: 0,
+    };
+    const row = existing.get(entry.category);
+
+    if (row) {
+      await repo.storeCategoryOrder.update({ where: { id: row.id }, data });
+    } else {
+      await repo.storeCategoryOrder.create({
+        data: { storeId: store.id, category: entry.category, ...data },
+      });
+    }
+  }
+}
+
+// Learn from one check-off: nudge the category's position towards where in
+// the trip it was picked up, then re-sort the store by learned position.
+export async function recordStoreCheckoff(
+  repo: StoreLayoutRepository,
+  store: StoreProfileRecord,
+  category: string,
+  position: number,
+): Promise<void> {
+  if (!store.learnOrder) return;
+
+  const rows = [...(store.categories ?? [])].sort((left, right) => left.sortOrder - right.sortOrder);
+  const positions = new Map(
+    rows.map((row, index) => [row.category, row.walkPosition ?? spreadPosition(index, rows.length)]),
+  );
+
+  const existing = rows.find((row) => row.category === category);
+  const walkPosition = nextWalkPosition(existing ? positions.get(category)! : null, position);
+  positions.set(category, walkPosition);
+
+  let target: StoreCategoryOrderRecord;
+  if (existing) {
+    await repo.storeCategoryOrder.update({
+      where: { id: existing.id },
+      data: { walkPosition, walkSamples: existing.walkSamples + 1 },
+    });
+    target = existing;
+  } else {
+    target = await repo.storeCategoryOrder.create({
+      data: { storeId: store.id, category, sortOrder: rows.length, walkPosition, walkSamples: 1 },
+    });
+  }
+
+  const reordered = [...rows.filter((row) => row.category !== category), target]
+    .sort((left, right) => positions.get(left.category)! - positions.get(right.category)!);
+
+  for (const [index, row] of reordered.entries()) {
+    if (row.sortOrder !== index) {
+      await repo.storeCategoryOrder.update({ where: { id: row.id }, data: { sortOrder: index } });
+    }
+  }
+}
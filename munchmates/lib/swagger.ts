@@ -40,6 +40,13 @@ export const getApiDocs = async () => {
                             dailyProteinGoal: { type: "integer", nullable: true, example: 150 },
                             dailyCarbGoal: { type: "integer", nullable: true, example: 250 },
                             dailyFatGoal: { type: "integer", nullable: true, example: 65 },
+                            weekStartDay: {
+                                type: "integer",
+                                minimum: 0,
+                                maximum: 6,
+                                example: 1,
+                                description: "Day meal plan weeks start on (0 = Sunday, 1 = Monday, the default). Changing it moves planned meals into the new weeks.",
+                            },
                         },
                     },
                     MeProfile: {
@@ -50,16 +57,88 @@ export const getApiDocs = async () => {
                             intolerances: { type: "array", items: { type: "string" } },
                         },
                     },
+                    GroceryList: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "Costco run" },
+                            createdAt: { type: "string", format: "date-time" },
+                            itemCount: { type: "integer" },
+                            activeCount: { type: "integer", description: "Items not yet checked off" },
+                        },
+                    },
                     GroceryItem: {
                         type: "object",
                         properties: {
                             id: { type: "integer" },
+                            listId: { type: "integer" },
                             name: { type: "string" },
-                            quantity: { type: "string", nullable: true },
+                            quantity: { type: "string", nullable: true, example: "3.38 cup" },
+                            packageQuantity: {
+                                type: "string",
+                                nullable: true,
+                                example: "1 gal",
+                                description:
+                                    "Packages to buy to cover quantity, set by meal-plan imports; cleared when quantity is edited",
+                            },
+                            unitPrice: { type: "number", nullable: true, example: 5.49, description: "Price per priceUnit" },
+                            priceUnit: { type: "string", example: "lb", description: "Empty = per item or package" },
+                            cost: {
+                                type: "number",
+                                nullable: true,
+                                description: "unitPrice times the quantity; null when unpriced or the quantity can't be measured in priceUnit",
+                            },
                             category: { type: "string" },
                             completed: { type: "boolean" },
                             fromMealPlan: { type: "boolean" },
                             addedAt: { type: "string", format: "date-time" },
+                            updatedAt: {
+                                type: "string",
+                                format: "date-time",
+                                description: "Last write; send back as baseUpdatedAt when replaying an offline edit",
+                            },
+                            sources: {
+                                type: "array",
+                                description: "Meal-plan entries this item was added for",
+                                items: { $ref: "#/components/schemas/GroceryItemSource" },
+                            },
+                        },
+                    },
+                    GroceryItemSource: {
+                        type: "object",
+                        properties: {
+                            mealEntryId: { type: "string" },
+                            recipeId: { type: "integer" },
+                            recipeTitle: { type: "string" },
+                            date: { type: "string", format: "date" },
+                            mealType: { type: "string", description: "Meal slot, e.g. breakfast, snack or a custom slot" },
+                            amount: { type: "number", description: "Amount added for this meal, in unit" },
+                            unit: { type: "string" },
+                        },
+                    },
+                    ShoppingTripEntry: {
+                        type: "object",
+                        properties: {
+                            groceryItem: {
+                                type: "object",
+                                properties: {
+                                    name: { type: "string" },
+                                    quantity: { type: "string", nullable: true },
+                                    category: { type: "string" },
+                                    fromMealPlan: { type: "boolean" },
+                                    sources: {
+                                        type: "array",
+                                        items: { $ref: "#/components/schemas/GroceryItemSource" },
+                                    },
+                                },
+                            },
+                            pantryItemId: { type: "integer" },
+                            lotId: { type: "integer" },
+                            name: { type: "string" },
+                            quantity: { type: "string" },
+                            amount: { type: "number", nullable: true },
+                            unit: { type: "string" },
+                            expiryDate: { type: "string", format: "date", nullable: true },
                         },
                     },
                     GroceryCategory: {
@@ -68,6 +147,120 @@ export const getApiDocs = async () => {
                             id: { type: "integer" },
                             name: { type: "string" },
                             sortOrder: { type: "integer" },
+                            itemCount: { type: "integer", description: "Only present when listId is given" },
+                            aisle: { type: "string", nullable: true, description: "Only present when storeId is given" },
+                        },
+                    },
+                    StoreProfile: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "Trader Joe's" },
+                            learnOrder: { type: "boolean", description: "Refine the order from check-offs" },
+                            categories: {
+                                type: "array",
+                                description: "Categories in walking order",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        category: { type: "string" },
+                                        sortOrder: { type: "integer" },
+                                        aisle: { type: "string", nullable: true, example: "7" },
+                                        learned: { type: "boolean", description: "Position has been adjusted by check-offs" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    GroceryStaple: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "Milk" },
+                            quantity: { type: "string", nullable: true, example: "1 gallon" },
+                            category: { type: "string" },
+                            listId: { type: "integer", nullable: true, description: "null = the user's default list" },
+                            weekday: {
+                                type: "integer",
+                                nullable: true,
+                                minimum: 0,
+                                maximum: 6,
+                                description: "Day the staple is added (0 = Sunday); null = no schedule",
+                            },
+                            intervalWeeks: { type: "integer", minimum: 1, default: 1 },
+                            parAmount: {
+                                type: "number",
+                                nullable: true,
+                                description: "Add the staple when pantry stock drops below this; null = no par level",
+                            },
+                            parUnit: { type: "string", example: "l" },
+                            lastAddedAt: { type: "string", format: "date-time", nullable: true },
+                        },
+                    },
+                    GroceryPurchase: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            listId: { type: "integer", nullable: true, description: "null once the list is deleted" },
+                            name: { type: "string", example: "Coffee" },
+                            quantity: { type: "string", nullable: true, example: "1 bag" },
+                            category: { type: "string" },
+                            cost: { type: "number", nullable: true, description: "What the line cost, when it was priced" },
+                            purchasedAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    PriceBookEntry: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "Ground beef" },
+                            unitPrice: { type: "number", example: 5.99 },
+                            priceUnit: { type: "string", example: "lb", description: "Empty = per item or package" },
+                            updatedAt: { type: "string", format: "date-time", description: "When this price was last paid" },
+                        },
+                    },
+                    CostSummary: {
+                        type: "object",
+                        properties: {
+                            total: { type: "number", description: "Sum of the priced lines, in dollars" },
+                            pricedCount: { type: "integer" },
+                            unpricedCount: { type: "integer", description: "Lines left out of the total" },
+                        },
+                    },
+                    PurchaseSuggestion: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string", example: "Coffee" },
+                            canonName: { type: "string", example: "coffee" },
+                            quantity: { type: "string", nullable: true, description: "Quantity bought last time" },
+                            category: { type: "string" },
+                            reason: {
+                                type: "string",
+                                enum: ["overdue", "frequent"],
+                                description: "overdue = the usual gap between purchases has passed; frequent = bought regularly",
+                            },
+                            purchaseCount: { type: "integer", description: "Distinct days the item was bought on" },
+                            lastPurchasedAt: { type: "string", format: "date-time" },
+                            intervalDays: { type: "integer", nullable: true, example: 10 },
+                            daysSinceLastPurchase: { type: "integer" },
+                            message: {
+                                type: "string",
+                                example: "You usually buy Coffee every 10 days; last bought 11 days ago",
+                            },
+                        },
+                    },
+                    GroceryShareLink: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            listId: { type: "integer" },
+                            url: {
+                                type: "string",
+                                format: "uri",
+                                description: "Public read-only link; opens without signing in",
+                            },
+                            expiresAt: { type: "string", format: "date-time" },
+                            createdAt: { type: "string", format: "date-time" },
                         },
                     },
                     PantryItem: {
@@ -82,6 +275,36 @@ export const getApiDocs = async () => {
                             category: { type: "string" },
                             expiryDate: { type: "string", format: "date", nullable: true },
                             addedAt: { type: "string", format: "date" },
+                            lots: {
+                                type: "array",
+                                items: { $ref: "#/components/schemas/PantryLot" },
+                            },
+                        },
+                    },
+                    PantryLot: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            quantity: { type: "string" },
+                            amount: { type: "number", nullable: true },
+                            unit: { type: "string" },
+                            expiryDate: { type: "string", format: "date", nullable: true },
+                            addedAt: { type: "string", format: "date" },
+                        },
+                    },
+                    PantryEvent: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            pantryItemId: { type: "integer" },
+                            itemName: { type: "string" },
+                            action: { type: "string", enum: ["add", "update", "deduct", "delete", "restore"] },
+                            beforeQuantity: { type: "string", nullable: true },
+                            afterQuantity: { type: "string", nullable: true },
+                            cookEventId: { type: "integer", nullable: true },
+                            recipeTitle: { type: "string", nullable: true },
+                            undone: { type: "boolean" },
+                            createdAt: { type: "string", format: "date-time" },
                         },
                     },
                     SavedRecipe: {
@@ -113,15 +336,109 @@ export const getApiDocs = async () => {
                             servings: { type: "integer" },
                             originalServings: { type: "integer" },
                             readyInMinutes: { type: "integer" },
+                            cookedServings: {
+                                type: "integer",
+                                description: "Servings the batch makes when extra is cooked for leftovers; groceries are bought for all of them",
+                            },
+                            leftoverOf: {
+                                type: "string",
+                                description: "entryId of the meal whose batch this one eats from; nothing is bought for it",
+                            },
+                        },
+                    },
+                    LeftoverBatch: {
+                        type: "object",
+                        properties: {
+                            entryId: { type: "string" },
+                            recipeId: { type: "integer" },
+                            title: { type: "string" },
+                            date: { type: "string", format: "date" },
+                            mealType: { type: "string" },
+                            cookedServings: { type: "integer" },
+                            servings: { type: "integer", description: "Eaten the day it's cooked" },
+                            leftovers: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        entryId: { type: "string" },
+                                        date: { type: "string", format: "date" },
+                                        mealType: { type: "string" },
+                                        servings: { type: "integer" },
+                                        beforeCooking: { type: "boolean" },
+                                    },
+                                },
+                            },
+                            remainingServings: {
+                                type: "integer",
+                                description: "Below zero when more leftovers are planned than were cooked",
+                            },
                         },
                     },
                     DayPlan: {
                         type: "object",
                         properties: {
                             date: { type: "string", format: "date" },
-                            breakfast: { $ref: "#/components/schemas/MealPlanEntry" },
-                            lunch: { $ref: "#/components/schemas/MealPlanEntry" },
-                            dinner: { $ref: "#/components/schemas/MealPlanEntry" },
+                            meals: {
+                                type: "object",
+                                description: "Entries per meal slot (breakfast, lunch, dinner, snack, ...), in the order they're served",
+                                additionalProperties: {
+                                    type: "array",
+                                    items: { $ref: "#/components/schemas/MealPlanEntry" },
+                                },
+                                example: { dinner: [{ id: "meal-1", recipeId: 715538, title: "Bruschetta", servings: 2, originalServings: 4 }] },
+                            },
+                        },
+                    },
+                    MealSlot: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "snack", description: "Lower case; matches the keys of DayPlan.meals" },
+                            sortOrder: { type: "integer" },
+                            time: {
+                                type: "string",
+                                nullable: true,
+                                example: "18:30",
+                                description: "HH:MM the slot's meals are eaten in calendar events; null means all day",
+                            },
+                            customTime: { type: "boolean", description: "false when time is the slot's default" },
+                        },
+                    },
+                    MealPlanCalendarFeed: {
+                        type: "object",
+                        properties: {
+                            url: { type: "string", example: "https://munchmates.app/api/meal-plan/calendar/abc123.ics" },
+                            webcalUrl: { type: "string", description: "The same feed as a webcal:// link, which opens a calendar app" },
+                            includePantryExpiry: { type: "boolean" },
+                            createdAt: { type: "string", format: "date-time" },
+                        },
+                    },
+                    MealPlanTemplate: {
+                        type: "object",
+                        properties: {
+                            id: { type: "integer" },
+                            name: { type: "string", example: "Busy week" },
+                            createdAt: { type: "string", format: "date-time" },
+                            entryCount: { type: "integer" },
+                            dayCount: { type: "integer", description: "Days of the week with at least one meal" },
+                            entries: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        dayOffset: { type: "integer", minimum: 0, maximum: 6, description: "0 is the first day of the week" },
+                                        mealType: { type: "string", example: "dinner" },
+                                        position: { type: "integer" },
+                                        recipeId: { type: "integer" },
+                                        title: { type: "string" },
+                                        image: { type: "string", nullable: true },
+                                        servings: { type: "integer" },
+                                        originalServings: { type: "integer" },
+                                        readyInMinutes: { type: "integer", nullable: true },
+                                    },
+                                },
+                            },
                         },
                     },
                     WeeklyMealPlan: {
@@ -132,6 +449,40 @@ export const getApiDocs = async () => {
                                 type: "array",
                                 items: { $ref: "#/components/schemas/DayPlan" },
                             },
+                            version: {
+                                type: "integer",
+                                description: "Bumped on every write. Writes send the version they were made against; 0 for a week never saved.",
+                            },
+                        },
+                    },
+                    MealPlanWriteResult: {
+                        type: "object",
+                        properties: {
+                            ok: { type: "boolean" },
+                            plan: { $ref: "#/components/schemas/WeeklyMealPlan" },
+                            groceryRetraction: {
+                                type: "object",
+                                properties: {
+                                    updatedCount: { type: "integer" },
+                                    removedCount: { type: "integer" },
+                                },
+                            },
+                        },
+                    },
+                    MealPlanConflict: {
+                        type: "object",
+                        description: "The write was made against an older version; plan is the week as it is now",
+                        properties: {
+                            ok: { type: "boolean", example: false },
+                            error: {
+                                type: "object",
+                                properties: {
+                                    status: { type: "integer", example: 409 },
+                                    code: { type: "string", example: "CONFLICT" },
+                                    message: { type: "string" },
+                                },
+                            },
+                            plan: { $ref: "#/components/schemas/WeeklyMealPlan" },
                         },
                     },
                 },
@@ -144,13 +495,24 @@ export const getApiDocs = async () => {
                 { name: "Profile", description: "User profile and preferences (Prisma-backed)" },
                 { name: "Me", description: "User preferences (in-memory, legacy)" },
                 { name: "Grocery", description: "Grocery list management" },
+                { name: "Grocery Lists", description: "Named grocery lists" },
+                { name: "Grocery Stores", description: "Store layout profiles that order categories per store" },
+                { name: "Grocery Staples", description: "Recurring and par-level items that refill the grocery list" },
+                { name: "Grocery Export", description: "Export, print and share grocery lists" },
+                { name: "Grocery History", description: "Purchase history and buy-again suggestions" },
+                { name: "Grocery Budget", description: "Item prices, the price book and the weekly grocery budget" },
                 { name: "Grocery Categories", description: "Custom grocery categories" },
                 { name: "Grocery Import", description: "Import ingredients from meal plan" },
+                { name: "Quick Add", description: "Parse several items typed as one sentence" },
                 { name: "Meal Plan", description: "Weekly meal plan CRUD" },
+                { name: "Meal Slots", description: "The user's meal slots (breakfast, lunch, dinner, snack, ...)" },
+                { name: "Meal Plan Calendar", description: "The meal plan as an iCalendar feed for calendar apps" },
+                { name: "Meal Plan Templates", description: "Saved weeks, and copying weeks or days forward" },
                 { name: "Nutrition Summary", description: "Daily nutrition totals for meal plans" },
                 { name: "Pantry", description: "Pantry inventory management" },
                 { name: "Pantry Match", description: "Match recipe ingredients against pantry" },
                 { name: "Pantry Deduct", description: "Deduct ingredient amounts after cooking" },
+                { name: "Pantry History", description: "Pantry change ledger and cook undo" },
                 { name: "Custom Recipes", description: "Create and manage custom recipes" },
                 { name: "Saved Recipes", description: "Save and unsave recipes" },
                 { name: "Recipe Search", description: "Search recipes via Spoonacular" },
@@ -314,7 +676,16 @@ export const getApiDocs = async () => {
                     get: {
                         tags: ["Grocery"],
                         summary: "List grocery items",
-                        description: "Returns all grocery items for the authenticated user.",
+                        description: "Returns all items on one of the authenticated user's grocery lists. Scheduled staples that have come due are added first.",
+                        parameters: [
+                            {
+                                name: "listId",
+                                in: "query",
+                                required: false,
+                                schema: { type: "integer" },
+                                description: "Grocery list ID (defaults to the user's default list)",
+                            },
+                        ],
                         responses: {
                             200: {
                                 description: "Grocery list",
@@ -324,35 +695,54 @@ export const getApiDocs = async () => {
                                             type: "object",
                                             properties: {
                                                 ok: { type: "boolean" },
+                                                listId: { type: "integer" },
                                                 items: {
                                                     type: "array",
                                                     items: { $ref: "#/components/schemas/GroceryItem" },
                                                 },
                                                 count: { type: "integer" },
+                                                staplesAdded: { type: "integer", description: "Scheduled staples added by this request" },
                                             },
                                         },
                                     },
                                 },
                             },
+                            404: { description: "List not found" },
                         },
                     },
                     post: {
                         tags: ["Grocery"],
                         summary: "Add grocery item",
                         description:
-                            "Adds a new grocery item or updates an existing one with the same name (upsert).",
+                            "Adds a new grocery item to a list, or updates an existing item with the same name on that list (upsert). Send `items` instead of a single item to add a batch (e.g. a quick-add preview) in one transaction. Without a category, new items are filed by the ingredient classifier.",
                         requestBody: {
                             required: true,
                             content: {
                                 "application/json": {
                                     schema: {
                                         type: "object",
-                                        required: ["name", "category"],
+                                        required: ["name"],
                                         properties: {
                                             name: { type: "string", example: "Chicken breast" },
                                             quantity: { type: "string", example: "2 lbs", nullable: true },
-                                            category: { type: "string", example: "Meat & Seafood" },
+                                            category: {
+                                                type: "string",
+                                                example: "Meat & Seafood",
+                                                description: "Omit to classify the item from its name (the user's past corrections first)",
+                                            },
+                                            unitPrice: {
+                                                type: "number",
+                                                nullable: true,
+                                                description: "Omit on a new item to use the price-book price",
+                                            },
+                                            priceUnit: { type: "string", example: "lb", description: "each (default) or a unit such as lb, kg, oz" },
                                             fromMealPlan: { type: "boolean", default: false },
+                                            listId: { type: "integer", description: "Defaults to the user's default list" },
+                                            items: {
+                                                type: "array",
+                                                description: "Batch of { name, category?, quantity?, unitPrice?, priceUnit? }; replaces the single-item fields",
+                                                items: { type: "object" },
+                                            },
                                         },
                                     },
                                 },
@@ -369,19 +759,24 @@ export const getApiDocs = async () => {
                                                 ok: { type: "boolean" },
                                                 message: { type: "string" },
                                                 item: { $ref: "#/components/schemas/GroceryItem" },
+                                                items: {
+                                                    type: "array",
+                                                    description: "Batch requests only",
+                                                    items: { $ref: "#/components/schemas/GroceryItem" },
+                                                },
                                             },
                                         },
                                     },
                                 },
                             },
-                            400: { description: "Missing required fields" },
+                            400: { description: "Missing required field: name, or a negative unitPrice" },
                         },
                     },
                     put: {
                         tags: ["Grocery"],
                         summary: "Update grocery item",
                         description:
-                            "Updates a grocery item's name, quantity, category, or completed status.",
+                            "Updates a grocery item's name, quantity, category, price, or completed status. When an item is checked off with storeId, the store learns its walking order from the check-off sequence. A category change is remembered and used the next time the same ingredient is added. Edits replayed from an offline queue send baseUpdatedAt and base; any field changed on the server since baseUpdatedAt keeps the server's value and is listed in conflicts.",
                         requestBody: {
                             required: true,
                             content: {
@@ -395,15 +790,47 @@ export const getApiDocs = async () => {
                                             quantity: { type: "string", nullable: true },
                                             category: { type: "string" },
                                             completed: { type: "boolean" },
+                                            unitPrice: { type: "number", nullable: true, description: "null clears the price" },
+                                            priceUnit: { type: "string", example: "lb", description: "each or a unit such as lb, kg, oz" },
+                                            storeId: { type: "integer", description: "Store being shopped at" },
+                                            baseUpdatedAt: {
+                                                type: "string",
+                                                format: "date-time",
+                                                description: "The item's updatedAt when an offline edit was made",
+                                            },
+                                            base: {
+                                                type: "object",
+                                                additionalProperties: true,
+                                                description: "The edited fields' values when an offline edit was made",
+                                            },
                                         },
                                     },
                                 },
                             },
                         },
                         responses: {
-                            200: { description: "Item updated" },
-                            400: { description: "Missing id" },
-                            404: { description: "Item not found" },
+                            200: {
+                                description: "Item updated",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                item: { $ref: "#/components/schemas/GroceryItem" },
+                                                conflicts: {
+                                                    type: "array",
+                                                    items: { type: "string" },
+                                                    description: "Fields that kept the server's newer value",
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing id, invalid storeId, a negative unitPrice or an invalid baseUpdatedAt" },
+                            404: { description: "Item or store not found" },
                         },
                     },
                     delete: {
@@ -426,71 +853,26 @@ export const getApiDocs = async () => {
                     },
                 },
 
-                // ─── Grocery Clear ───────────────────────────────────
-                "/api/grocery/clear": {
-                    post: {
-                        tags: ["Grocery"],
-                        summary: "Bulk clear grocery items",
-                        description:
-                            'Clear completed items or the entire list. Action must be "completed" or "all".',
-                        requestBody: {
-                            required: true,
-                            content: {
-                                "application/json": {
-                                    schema: {
-                                        type: "object",
-                                        required: ["action"],
-                                        properties: {
-                                            action: {
-                                                type: "string",
-                                                enum: ["completed", "all"],
-                                            },
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                        responses: {
-                            200: {
-                                description: "Items cleared",
-                                content: {
-                                    "application/json": {
-                                        schema: {
-                                            type: "object",
-                                            properties: {
-                                                ok: { type: "boolean" },
-                                                message: { type: "string" },
-                                                deletedCount: { type: "integer" },
-                                            },
-                                        },
-                                    },
-                                },
-                            },
-                            400: { description: "Invalid action" },
-                        },
-                    },
-                },
-
-                // ─── Grocery Categories ──────────────────────────────
-                "/api/grocery/categories": {
+                // ─── Grocery Lists ───────────────────────────────────
+                "/api/grocery/lists": {
                     get: {
-                        tags: ["Grocery Categories"],
-                        summary: "List grocery categories",
-                        description:
-                            "Returns user's custom grocery categories. Seeds defaults on first call.",
+                        tags: ["Grocery Lists"],
+                        summary: "List grocery lists",
+                        description: "Returns the user's named grocery lists with item counts. Creates the default list on first call.",
                         responses: {
                             200: {
-                                description: "Category list",
+                                description: "Grocery lists",
                                 content: {
                                     "application/json": {
                                         schema: {
                                             type: "object",
                                             properties: {
                                                 ok: { type: "boolean" },
-                                                categories: {
+                                                lists: {
                                                     type: "array",
-                                                    items: { $ref: "#/components/schemas/GroceryCategory" },
+                                                    items: { $ref: "#/components/schemas/GroceryList" },
                                                 },
+                                                defaultListId: { type: "integer" },
                                                 count: { type: "integer" },
                                             },
                                         },
@@ -500,8 +882,8 @@ export const getApiDocs = async () => {
                         },
                     },
                     post: {
-                        tags: ["Grocery Categories"],
-                        summary: "Add a grocery category",
+                        tags: ["Grocery Lists"],
+                        summary: "Create a grocery list",
                         requestBody: {
                             required: true,
                             content: {
@@ -510,79 +892,1861 @@ export const getApiDocs = async () => {
                                         type: "object",
                                         required: ["name"],
                                         properties: {
-                                            name: { type: "string", example: "Snacks" },
+                                            name: { type: "string", example: "Farmers market" },
                                         },
                                     },
                                 },
                             },
                         },
                         responses: {
-                            200: { description: "Category added" },
+                            200: { description: "List created" },
                             400: { description: "Missing name" },
-                            409: { description: "Category already exists" },
+                            409: { description: "List already exists" },
                         },
                     },
-                    delete: {
-                        tags: ["Grocery Categories"],
-                        summary: "Delete a grocery category",
-                        description:
-                            "Removes a category and reassigns its items to the first remaining category.",
-                        parameters: [
-                            {
-                                name: "name",
-                                in: "query",
-                                required: true,
-                                schema: { type: "string" },
-                            },
-                        ],
-                        responses: {
-                            200: {
-                                description: "Category deleted",
-                                content: {
-                                    "application/json": {
+                    put: {
+                        tags: ["Grocery Lists"],
+                        summary: "Rename a grocery list",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["id", "name"],
+                                        properties: {
+                                            id: { type: "integer" },
+                                            name: { type: "string" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "List renamed" },
+                            400: { description: "Missing id or name" },
+                            404: { description: "List not found" },
+                            409: { description: "List already exists" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Lists"],
+                        summary: "Delete a grocery list",
+                        description: "Deletes a list and all of its items. A user's only list cannot be deleted.",
+                        parameters: [
+                            {
+                                name: "id",
+                                in: "query",
+                                required: true,
+                                schema: { type: "integer" },
+                                description: "Grocery list ID",
+                            },
+                        ],
+                        responses: {
+                            200: { description: "List deleted" },
+                            400: { description: "Missing id, or the user's only list" },
+                            404: { description: "List not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Stores ──────────────────────────────────
+                "/api/grocery/stores": {
+                    get: {
+                        tags: ["Grocery Stores"],
+                        summary: "List store layouts",
+                        description: "Returns the user's store profiles with their category order and aisles.",
+                        responses: {
+                            200: {
+                                description: "Store profiles",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                stores: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/StoreProfile" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    post: {
+                        tags: ["Grocery Stores"],
+                        summary: "Create a store layout",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name"],
+                                        properties: {
+                                            name: { type: "string", example: "Trader Joe's" },
+                                            learnOrder: { type: "boolean", default: true },
+                                            categories: {
+                                                type: "array",
+                                                description: "Categories in walking order; defaults to the user's category order",
+                                                items: {
+                                                    type: "object",
+                                                    properties: {
+                                                        category: { type: "string" },
+                                                        aisle: { type: "string", nullable: true },
+                                                    },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Store created" },
+                            400: { description: "Missing name or invalid categories" },
+                            409: { description: "Store already exists" },
+                        },
+                    },
+                    put: {
+                        tags: ["Grocery Stores"],
+                        summary: "Update a store layout",
+                        description: "Renames a store, toggles learning, or replaces its category order. Saving a layout resets what was learned from check-offs.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["id"],
+                                        properties: {
+                                            id: { type: "integer" },
+                                            name: { type: "string", example: "Trader Joe's" },
+                                            learnOrder: { type: "boolean" },
+                                            categories: {
+                                                type: "array",
+                                                description: "Categories in walking order",
+                                                items: {
+                                                    type: "object",
+                                                    properties: {
+                                                        category: { type: "string" },
+                                                        aisle: { type: "string", nullable: true },
+                                                    },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Store updated" },
+                            400: { description: "Missing id or invalid categories" },
+                            404: { description: "Store not found" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Stores"],
+                        summary: "Delete a store layout",
+                        parameters: [
+                            {
+                                name: "id",
+                                in: "query",
+                                required: true,
+                                schema: { type: "integer" },
+                                description: "Store profile ID",
+                            },
+                        ],
+                        responses: {
+                            200: { description: "Store deleted" },
+                            400: { description: "Missing id" },
+                            404: { description: "Store not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Staples ─────────────────────────────────
+                "/api/grocery/staples": {
+                    get: {
+                        tags: ["Grocery Staples"],
+                        summary: "List staples",
+                        description: "Returns the user's staples with their schedules and par levels.",
+                        responses: {
+                            200: {
+                                description: "Staples",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                staples: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/GroceryStaple" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    post: {
+                        tags: ["Grocery Staples"],
+                        summary: "Create a staple",
+                        description:
+                            "A staple needs a weekday, a par level, or both. Scheduled staples are added when the list is loaded on or after their day; par staples when /api/pantry/deduct or a pantry edit drops stock below par. A staple already on the list is never added again.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name"],
+                                        properties: {
+                                            name: { type: "string", example: "Milk" },
+                                            quantity: { type: "string", nullable: true, example: "1 gallon" },
+                                            category: { type: "string", description: "Omit to classify the staple from its name" },
+                                            listId: { type: "integer", nullable: true },
+                                            weekday: { type: "integer", nullable: true, minimum: 0, maximum: 6 },
+                                            intervalWeeks: { type: "integer", minimum: 1, default: 1 },
+                                            parAmount: { type: "number", nullable: true, example: 2 },
+                                            parUnit: { type: "string", example: "l" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Staple created",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                staple: { $ref: "#/components/schemas/GroceryStaple" },
+                                                restocked: {
+                                                    type: "array",
+                                                    description: "Staples added to the grocery list because stock fell below par",
+                                                    items: { $ref: "#/components/schemas/GroceryItem" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing name, no weekday or par level, or invalid values" },
+                            404: { description: "List not found" },
+                            409: { description: "Staple already exists" },
+                        },
+                    },
+                    put: {
+                        tags: ["Grocery Staples"],
+                        summary: "Update a staple",
+                        description: "Send weekday: null or parAmount: null to drop that trigger; at least one must remain.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["id"],
+                                        properties: {
+                                            id: { type: "integer" },
+                                            name: { type: "string", example: "Milk" },
+                                            quantity: { type: "string", nullable: true, example: "1 gallon" },
+                                            category: { type: "string", description: "Omit to classify the staple from its name" },
+                                            listId: { type: "integer", nullable: true },
+                                            weekday: { type: "integer", nullable: true, minimum: 0, maximum: 6 },
+                                            intervalWeeks: { type: "integer", minimum: 1, default: 1 },
+                                            parAmount: { type: "number", nullable: true, example: 2 },
+                                            parUnit: { type: "string", example: "l" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Staple updated" },
+                            400: { description: "Missing id or invalid values" },
+                            404: { description: "Staple or list not found" },
+                            409: { description: "Staple already exists" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Staples"],
+                        summary: "Delete a staple",
+                        description: "Items the staple already added stay on the list.",
+                        parameters: [
+                            {
+                                name: "id",
+                                in: "query",
+                                required: true,
+                                schema: { type: "integer" },
+                                description: "Staple ID",
+                            },
+                        ],
+                        responses: {
+                            200: { description: "Staple deleted" },
+                            400: { description: "Missing id" },
+                            404: { description: "Staple not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Export ──────────────────────────────────
+                "/api/grocery/export": {
+                    get: {
+                        tags: ["Grocery Export"],
+                        summary: "Export a grocery list",
+                        description:
+                            "Items are grouped by the user's category order. `html` is a print-ready page; " +
+                            "use the browser's \"Save as PDF\" for a PDF. `txt`, `md`, `print` and `pdf` are accepted as aliases.",
+                        parameters: [
+                            {
+                                name: "format",
+                                in: "query",
+                                schema: { type: "string", enum: ["text", "markdown", "csv", "html"], default: "text" },
+                            },
+                            {
+                                name: "listId",
+                                in: "query",
+                                schema: { type: "integer" },
+                                description: "List to export (defaults to the user's default list)",
+                            },
+                            {
+                                name: "includeCompleted",
+                                in: "query",
+                                schema: { type: "boolean", default: true },
+                                description: "Include checked-off items (marked done)",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "The exported list; HTML is served inline, other formats as an attachment",
+                                content: {
+                                    "text/plain": { schema: { type: "string" } },
+                                    "text/markdown": { schema: { type: "string" } },
+                                    "text/csv": { schema: { type: "string" } },
+                                    "text/html": { schema: { type: "string" } },
+                                },
+                            },
+                            400: { description: "Unknown format or invalid listId" },
+                            404: { description: "List not found" },
+                        },
+                    },
+                },
+                "/api/grocery/share": {
+                    get: {
+                        tags: ["Grocery Export"],
+                        summary: "List active share links for a list",
+                        parameters: [
+                            {
+                                name: "listId",
+                                in: "query",
+                                schema: { type: "integer" },
+                                description: "Defaults to the user's default list",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Links that haven't expired yet, newest first",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                listId: { type: "integer" },
+                                                links: { type: "array", items: { $ref: "#/components/schemas/GroceryShareLink" } },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            404: { description: "List not found" },
+                        },
+                    },
+                    post: {
+                        tags: ["Grocery Export"],
+                        summary: "Create a read-only share link",
+                        description: "Anyone with the link can view the list, without an account, until it expires or is revoked.",
+                        requestBody: {
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        properties: {
+                                            listId: { type: "integer", description: "Defaults to the user's default list" },
+                                            expiresInDays: { type: "number", minimum: 0, maximum: 30, default: 7 },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Share link created",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                link: { $ref: "#/components/schemas/GroceryShareLink" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid expiresInDays or listId" },
+                            404: { description: "List not found" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Export"],
+                        summary: "Revoke a share link",
+                        parameters: [
+                            {
+                                name: "id",
+                                in: "query",
+                                required: true,
+                                schema: { type: "integer" },
+                                description: "Share link ID",
+                            },
+                        ],
+                        responses: {
+                            200: { description: "Share link revoked" },
+                            400: { description: "Missing or invalid id" },
+                            404: { description: "Share link not found" },
+                        },
+                    },
+                },
+                "/api/grocery/shared/{token}": {
+                    get: {
+                        tags: ["Grocery Export"],
+                        summary: "View a shared grocery list (public)",
+                        description: "No authentication. Defaults to a phone-friendly HTML page.",
+                        security: [],
+                        parameters: [
+                            {
+                                name: "token",
+                                in: "path",
+                                required: true,
+                                schema: { type: "string" },
+                            },
+                            {
+                                name: "format",
+                                in: "query",
+                                schema: { type: "string", enum: ["text", "markdown", "csv", "html"], default: "html" },
+                            },
+                        ],
+                        responses: {
+                            200: { description: "The shared list in the requested format" },
+                            400: { description: "Unknown format" },
+                            404: { description: "Link doesn't exist or was revoked" },
+                            410: { description: "Link has expired" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Clear ───────────────────────────────────
+                "/api/grocery/clear": {
+                    post: {
+                        tags: ["Grocery"],
+                        summary: "Bulk clear grocery items",
+                        description:
+                            'Clear completed items or the entire list. Action must be "completed" or "all". Only the given list (default list when omitted) is affected. ' +
+                            "Checked-off items are archived into the purchase history first.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["action"],
+                                        properties: {
+                                            action: {
+                                                type: "string",
+                                                enum: ["completed", "all"],
+                                            },
+                                            listId: { type: "integer" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Items cleared",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                deletedCount: { type: "integer" },
+                                                archivedCount: {
+                                                    type: "integer",
+                                                    description: "Checked-off items added to the purchase history",
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid action or listId" },
+                            404: { description: "List not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery History ─────────────────────────────────
+                "/api/grocery/history": {
+                    get: {
+                        tags: ["Grocery History"],
+                        summary: "List past purchases",
+                        description:
+                            "Checked-off items are archived here when a list is cleared or a trip is finished. Most recent first.",
+                        parameters: [
+                            {
+                                name: "limit",
+                                in: "query",
+                                schema: { type: "integer", default: 100, maximum: 500 },
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Purchase history",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                purchases: { type: "array", items: { $ref: "#/components/schemas/GroceryPurchase" } },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid limit" },
+                        },
+                    },
+                },
+                "/api/grocery/suggestions": {
+                    get: {
+                        tags: ["Grocery History"],
+                        summary: "Buy-again suggestions",
+                        description:
+                            "Built from the last 180 days of purchases. Overdue items come first, most overdue at the top, " +
+                            "then items bought on 3 or more days. Items already on the list and staples are left out.",
+                        parameters: [
+                            {
+                                name: "listId",
+                                in: "query",
+                                schema: { type: "integer" },
+                                description: "List the suggestions are for (defaults to the user's default list)",
+                            },
+                            {
+                                name: "limit",
+                                in: "query",
+                                schema: { type: "integer", default: 8, maximum: 20 },
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Suggestions",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                listId: { type: "integer" },
+                                                suggestions: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/PurchaseSuggestion" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid listId" },
+                            404: { description: "List not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Budget ──────────────────────────────────
+                "/api/grocery/budget": {
+                    get: {
+                        tags: ["Grocery Budget"],
+                        summary: "Trip total and weekly budget",
+                        description:
+                            "Costs of the checked-off items (the cart) and of the whole list, and this week's spending " +
+                            "(purchases archived since the start of the week, 00:00 UTC on the profile's week start day, plus the cart) " +
+                            "against the weekly budget.",
+                        parameters: [
+                            {
+                                name: "listId",
+                                in: "query",
+                                schema: { type: "integer" },
+                                description: "Defaults to the user's default list",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Budget summary",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                listId: { type: "integer" },
+                                                weekStart: { type: "string", format: "date-time" },
+                                                weeklyBudget: { type: "number", nullable: true },
+                                                spentThisWeek: { type: "number", description: "Archived purchases this week" },
+                                                trip: { $ref: "#/components/schemas/CostSummary" },
+                                                list: { $ref: "#/components/schemas/CostSummary" },
+                                                remaining: {
+                                                    type: "number",
+                                                    nullable: true,
+                                                    description: "Budget minus spentThisWeek and the trip total; negative when over",
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            404: { description: "List not found" },
+                        },
+                    },
+                    put: {
+                        tags: ["Grocery Budget"],
+                        summary: "Set the weekly budget",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weeklyBudget"],
+                                        properties: {
+                                            weeklyBudget: { type: "number", nullable: true, example: 120, description: "null clears the budget" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Budget updated" },
+                            400: { description: "Missing weeklyBudget, or not a positive number" },
+                        },
+                    },
+                },
+                "/api/grocery/prices": {
+                    get: {
+                        tags: ["Grocery Budget"],
+                        summary: "List the price book",
+                        description:
+                            "The last price paid for each ingredient, keyed by canonical name. Prices are remembered when priced items are bought " +
+                            "(clearing checked-off items or finishing a trip) and fill in prices on items added later.",
+                        responses: {
+                            200: {
+                                description: "Price book",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                prices: { type: "array", items: { $ref: "#/components/schemas/PriceBookEntry" } },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Budget"],
+                        summary: "Forget a remembered price",
+                        parameters: [
+                            { name: "id", in: "query", required: true, schema: { type: "integer" } },
+                        ],
+                        responses: {
+                            200: { description: "Price deleted" },
+                            400: { description: "Invalid id" },
+                            404: { description: "Price not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Finish Trip ─────────────────────────────
+                "/api/grocery/finish-trip": {
+                    post: {
+                        tags: ["Grocery"],
+                        summary: "Finish shopping trip",
+                        description:
+                            "Moves every checked-off item on a list into the pantry. Quantity strings are parsed (each part of \"1 cup + 3 cloves\" becomes its own lot) and merged into existing stock. Produce, Dairy, Meat & Seafood, Bakery and Frozen items get a default expiry date. Moved items are removed from the list and archived into the purchase history.",
+                        requestBody: {
+                            required: false,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        properties: {
+                                            listId: { type: "integer", description: "Defaults to the user's default list" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Items moved",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                listId: { type: "integer" },
+                                                movedCount: { type: "integer" },
+                                                added: {
+                                                    type: "array",
+                                                    description: "One entry per pantry lot created; send back to the undo endpoint",
+                                                    items: { $ref: "#/components/schemas/ShoppingTripEntry" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            404: { description: "List not found" },
+                        },
+                    },
+                },
+                "/api/grocery/finish-trip/undo": {
+                    post: {
+                        tags: ["Grocery"],
+                        summary: "Undo a finished shopping trip",
+                        description:
+                            "Removes the pantry lots a trip created and puts the items back on the list, checked off, with their meal-plan sources, and out of the purchase history. Lots already used up or deleted are skipped; a lot that has been partly used or edited since the trip stops the undo.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["added"],
+                                        properties: {
+                                            listId: { type: "integer" },
+                                            added: {
+                                                type: "array",
+                                                items: { $ref: "#/components/schemas/ShoppingTripEntry" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Trip undone",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                listId: { type: "integer" },
+                                                restoredCount: { type: "integer" },
+                                                removedLotCount: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing or invalid trip entries" },
+                            404: { description: "List not found" },
+                            409: { description: "A lot from the trip has been used or changed since" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Categories ──────────────────────────────
+                "/api/grocery/categories": {
+                    get: {
+                        tags: ["Grocery Categories"],
+                        summary: "List grocery categories",
+                        description:
+                            "Returns user's custom grocery categories. Seeds defaults on first call. Categories are shared by all of a user's lists; with listId each category also reports its item count on that list. With storeId categories come back in that store's walking order (categories the store doesn't know go last) with their aisle.",
+                        parameters: [
+                            {
+                                name: "listId",
+                                in: "query",
+                                required: false,
+                                schema: { type: "integer" },
+                                description: "Grocery list ID (defaults to the user's default list)",
+                            },
+                            {
+                                name: "storeId",
+                                in: "query",
+                                required: false,
+                                schema: { type: "integer" },
+                                description: "Store profile ID to order categories by",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Category list",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                categories: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/GroceryCategory" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    post: {
+                        tags: ["Grocery Categories"],
+                        summary: "Add a grocery category",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name"],
+                                        properties: {
+                                            name: { type: "string", example: "Snacks" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Category added" },
+                            400: { description: "Missing name" },
+                            409: { description: "Category already exists" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Grocery Categories"],
+                        summary: "Delete a grocery category",
+                        description:
+                            "Removes a category and reassigns its items on every list (and in the pantry) to Other.",
+                        parameters: [
+                            {
+                                name: "name",
+                                in: "query",
+                                required: true,
+                                schema: { type: "string" },
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Category deleted",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                reassignedTo: { type: "string" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            404: { description: "Category not found" },
+                        },
+                    },
+                },
+
+                // ─── Grocery Import ──────────────────────────────────
+                "/api/grocery/import": {
+                    post: {
+                        tags: ["Grocery Import"],
+                        summary: "Import ingredients from meal plan",
+                        description:
+                            "Aggregates meal-plan ingredients into the grocery list. Subtracts pantry stock (with unit and density conversion) so only the shortfall is added; items the pantry fully covers are filtered out. Merges quantities for existing grocery items.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["items"],
+                                        properties: {
+                                            listId: { type: "integer", description: "Target list (defaults to the user's default list)" },
+                                            items: {
+                                                type: "array",
+                                                items: {
+                                                    type: "object",
+                                                    properties: {
+                                                        name: { type: "string" },
+                                                        totalAmount: { type: "number" },
+                                                        unit: { type: "string" },
+                                                        category: { type: "string" },
+                                                        sources: {
+                                                            type: "array",
+                                                            description: "Per-meal contributions, stored so the item can shrink when those meals change",
+                                                            items: { $ref: "#/components/schemas/GroceryItemSource" },
+                                                        },
+                                                    },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Import results",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                listId: { type: "integer" },
+                                                addedCount: { type: "integer" },
+                                                updatedCount: { type: "integer" },
+                                                filteredCount: { type: "integer" },
+                                                stapleCount: { type: "integer", description: "Ingredients skipped because a staple for them is already on the list" },
+                                                reduced: {
+                                                    type: "array",
+                                                    description: "Ingredients whose amount was lowered by pantry stock",
+                                                    items: {
+                                                        type: "object",
+                                                        properties: {
+                                                            name: { type: "string" },
+                                                            unit: { type: "string" },
+                                                            requestedAmount: { type: "number" },
+                                                            reducedBy: { type: "number" },
+                                                            addedAmount: { type: "number" },
+                                                        },
+                                                    },
+                                                },
+                                                totalProcessed: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/grocery": {
+                    get: {
+                        tags: ["Grocery Budget"],
+                        summary: "Estimate a planned week's grocery cost",
+                        description:
+                            "Prices what the planned meals still need after pantry stock at the user's price-book prices. " +
+                            "Ingredients priced per item are rounded up to whole packages where package sizes are known. " +
+                            "Pass weekStart for a week, or from and to for any range of dates (at most 93 days).",
+                        parameters: [
+                            {
+                                name: "weekStart",
+                                in: "query",
+                                schema: { type: "string", format: "date", example: "2026-04-06" },
+                            },
+                            { name: "from", in: "query", schema: { type: "string", format: "date" }, description: "With to, instead of weekStart" },
+                            { name: "to", in: "query", schema: { type: "string", format: "date" }, description: "Last date included" },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Cost estimate",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                from: { type: "string", format: "date" },
+                                                to: { type: "string", format: "date" },
+                                                total: { type: "number" },
+                                                pricedCount: { type: "integer" },
+                                                unpricedCount: { type: "integer", description: "Ingredients without a price-book price" },
+                                                items: {
+                                                    type: "array",
+                                                    items: {
+                                                        type: "object",
+                                                        properties: {
+                                                            name: { type: "string" },
+                                                            quantity: { type: "string" },
+                                                            cost: { type: "number", nullable: true },
+                                                        },
+                                                    },
+                                                },
+                                                missingRecipeIds: { type: "array", items: { type: "integer" } },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing or malformed dates" },
+                            404: { description: "Nothing is planned for those dates" },
+                        },
+                    },
+                    post: {
+                        tags: ["Grocery Import"],
+                        summary: "Build grocery list from a saved week",
+                        description:
+                            "Server-side version of the meal-plan import. Send weekStart for a week, or from and to for any range of dates. Loads every recipe planned for those dates (custom recipes from CustomRecipeIngredient, others from Spoonacular), scales to planned servings, drops staples, consolidates units, subtracts pantry stock and merges the result into the grocery list. Each item remembers how much every meal entry contributed.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        properties: {
+                                            weekStart: { type: "string", format: "date", example: "2026-04-06" },
+                                            from: { type: "string", format: "date", description: "With to, instead of weekStart" },
+                                            to: { type: "string", format: "date", description: "Last date included" },
+                                            listId: { type: "integer", description: "Target list (defaults to the user's default list)" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Import results, as for /api/grocery/import",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                listId: { type: "integer" },
+                                                addedCount: { type: "integer" },
+                                                updatedCount: { type: "integer" },
+                                                filteredCount: { type: "integer" },
+                                                stapleCount: { type: "integer", description: "Ingredients skipped because a staple for them is already on the list" },
+                                                reduced: { type: "array", items: { type: "object" } },
+                                                totalProcessed: { type: "integer" },
+                                                missingRecipeIds: {
+                                                    type: "array",
+                                                    description: "Recipes whose ingredients could not be loaded",
+                                                    items: { type: "integer" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing or malformed dates" },
+                            404: { description: "Nothing is planned for those dates" },
+                        },
+                    },
+                },
+
+                // ─── Meal Plan ───────────────────────────────────────
+                "/api/meal-plan": {
+                    get: {
+                        tags: ["Meal Plan"],
+                        summary: "Get weekly meal plan",
+                        description: "Returns the meal plan for a given week, or null if none exists.",
+                        parameters: [
+                            {
+                                name: "weekStart",
+                                in: "query",
+                                required: true,
+                                schema: { type: "string", format: "date" },
+                                description: "Start date of the week (YYYY-MM-DD)",
+                                example: "2026-04-06",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Meal plan (or null)",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                plan: {
+                                                    nullable: true,
+                                                    $ref: "#/components/schemas/WeeklyMealPlan",
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing weekStart" },
+                        },
+                    },
+                    post: {
+                        tags: ["Meal Plan"],
+                        summary: "Save weekly meal plan",
+                        description:
+                            "Creates or replaces the meal plan for a given week (transactional upsert); single changes go through /api/meal-plan/entries. plan.version must be the version the client last read (0 for a new week), otherwise the answer is 409 with the current plan. Plans in the old shape, with one breakfast, lunch and dinner entry per day, are still accepted. Every day has to be in the week; an entry's leftoverOf is dropped unless it names one of the user's meals (not leftovers) cooked on or before the entry's date. Grocery quantities added for meals that were removed, swapped for another recipe or scaled down are taken back off the list; meal-plan items left empty are removed.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["plan"],
+                                        properties: {
+                                            plan: { $ref: "#/components/schemas/WeeklyMealPlan" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Plan saved, with its new version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid meal plan data or version, or a day outside the week" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/entries": {
+                    post: {
+                        tags: ["Meal Plan"],
+                        summary: "Add a meal entry",
+                        description:
+                            "Adds one entry to a slot, before the entry at index or at the end of the slot. With entry.leftoverOf the entry eats from that meal's batch (in any week, cooked on or before date) and takes its recipe.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weekStart", "version", "date", "mealType", "entry"],
+                                        properties: {
+                                            weekStart: { type: "string", format: "date" },
+                                            version: { type: "integer" },
+                                            date: { type: "string", format: "date", description: "A day of that week" },
+                                            mealType: { type: "string", example: "dinner" },
+                                            index: { type: "integer", minimum: 0 },
+                                            entry: {
+                                                type: "object",
+                                                required: ["recipeId", "title", "servings"],
+                                                properties: {
+                                                    id: { type: "string", description: "Generated when omitted" },
+                                                    recipeId: { type: "integer" },
+                                                    title: { type: "string" },
+                                                    image: { type: "string" },
+                                                    servings: { type: "integer" },
+                                                    originalServings: { type: "integer", description: "Defaults to servings" },
+                                                    readyInMinutes: { type: "integer" },
+                                                    cookedServings: { type: "integer", minimum: 1 },
+                                                    leftoverOf: { type: "string", description: "entryId of the meal cooked for it" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Meal added; also returns its entryId",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid week, version, slot or entry, or leftovers before the meal is cooked" },
+                            404: { description: "The meal the leftovers come from was not found" },
+                            409: {
+                                description: "Stale version, or an entry with that id already exists",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    patch: {
+                        tags: ["Meal Plan"],
+                        summary: "Move, swap or rescale a meal entry",
+                        description:
+                            "Send exactly one of servings, cookedServings (the batch size, or null to cook just the servings eaten; not for leftovers), to (move; without index the entry goes to the end of the slot) or swapWith (trade places with another entry). Lowering servings or the batch size takes the matching share back off the grocery list.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weekStart", "version", "entryId"],
+                                        properties: {
+                                            weekStart: { type: "string", format: "date" },
+                                            version: { type: "integer" },
+                                            entryId: { type: "string" },
+                                            servings: { type: "integer", minimum: 1 },
+                                            cookedServings: { type: "integer", minimum: 1, nullable: true },
+                                            to: {
+                                                type: "object",
+                                                properties: {
+                                                    date: { type: "string", format: "date" },
+                                                    mealType: { type: "string" },
+                                                    index: { type: "integer", minimum: 0 },
+                                                },
+                                            },
+                                            swapWith: { type: "string", description: "entryId of the other entry" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Meal updated",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid input, or not exactly one change" },
+                            404: { description: "Meal entry not found" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    delete: {
+                        tags: ["Meal Plan"],
+                        summary: "Remove a meal entry",
+                        description:
+                            "Removes one entry and takes what it added back off the grocery list. Leftovers planned from it, in any week, become meals that are cooked.",
+                        parameters: [
+                            { name: "weekStart", in: "query", required: true, schema: { type: "string", format: "date" } },
+                            { name: "version", in: "query", required: true, schema: { type: "integer" } },
+                            { name: "entryId", in: "query", required: true, schema: { type: "string" } },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Meal removed",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid week or version" },
+                            404: { description: "Meal entry not found" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/range": {
+                    get: {
+                        tags: ["Meal Plan"],
+                        summary: "Meal plan for a range of dates",
+                        description:
+                            "Every planned entry from one date to another (both included, at most 93 days), whichever weeks they were saved under. Every date in the range gets a day, planned or not.",
+                        parameters: [
+                            { name: "from", in: "query", required: true, schema: { type: "string", format: "date" } },
+                            { name: "to", in: "query", required: true, schema: { type: "string", format: "date" } },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Planned days",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                from: { type: "string", format: "date" },
+                                                to: { type: "string", format: "date" },
+                                                days: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/DayPlan" },
+                                                },
+                                                entryCount: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid dates, to before from, or too long a range" },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/generate": {
+                    post: {
+                        tags: ["Meal Plan"],
+                        summary: "Generate a week from the user's own recipes",
+                        description:
+                            "Plans the week from the user's saved recipes, recipes in their shared collections and their custom recipes. " +
+                            "Aims for the profile's daily calorie and protein goals, prefers recipes that use pantry items before they " +
+                            "expire, leaves out recipes with the profile's intolerances or excluded ingredients, keeps to each slot's max " +
+                            "readyInMinutes and avoids repeating a recipe within avoidRepeatDays. The plan is returned, not saved " +
+                            "(save it with POST /api/meal-plan). The same seed and recipes always give the same plan.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weekStart"],
+                                        properties: {
+                                            weekStart: { type: "string", format: "date" },
+                                            seed: { type: "string", description: "Random when left out; the one used is returned" },
+                                            slots: {
+                                                type: "array",
+                                                items: { type: "string" },
+                                                description: "Slots to fill; defaults to all of the user's slots",
+                                            },
+                                            dailyCalories: { type: "integer", description: "Overrides the profile's calorie goal" },
+                                            diet: {
+                                                type: "string",
+                                                example: "Vegetarian",
+                                                description:
+                                                    "Recipes whose diet labels fit; custom recipes have none, so they rank below those and a warning asks to check them",
+                                            },
+                                            exclude: {
+                                                oneOf: [{ type: "string" }, { type: "array", items: { type: "string" } }],
+                                                example: "olives, anchovies",
+                                            },
+                                            maxReadyInMinutes: {
+                                                type: "object",
+                                                additionalProperties: { type: "integer" },
+                                                example: { lunch: 20, dinner: 40 },
+                                            },
+                                            avoidRepeatDays: { type: "integer", minimum: 0, maximum: 28, default: 7 },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Generated week",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                weekStart: { type: "string", format: "date" },
+                                                seed: { type: "string" },
+                                                slots: { type: "array", items: { type: "string" } },
+                                                recipeCount: { type: "integer", description: "Recipes the plan was picked from" },
+                                                days: {
+                                                    type: "array",
+                                                    description: "Every requested slot of every day; empty when nothing fits",
+                                                    items: { $ref: "#/components/schemas/DayPlan" },
+                                                },
+                                                dailyTotals: {
+                                                    type: "array",
+                                                    items: {
+                                                        type: "object",
+                                                        properties: {
+                                                            date: { type: "string", format: "date" },
+                                                            calories: { type: "integer", nullable: true },
+                                                            protein: { type: "integer", nullable: true },
+                                                        },
+                                                    },
+                                                },
+                                                usesExpiring: {
+                                                    type: "array",
+                                                    items: { type: "string" },
+                                                    description: "Pantry items the plan uses before they expire",
+                                                },
+                                                warnings: { type: "array", items: { type: "string" } },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid options, or the user has no recipes to plan from" },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/leftovers": {
+                    get: {
+                        tags: ["Meal Plan"],
+                        summary: "Leftover batches",
+                        description:
+                            "The batches cooked or eaten from in a week (or from/to): every meal cooked with a batch size or with leftovers planned, its leftovers wherever they're planned and the servings left. warnings lists batches with more leftovers planned than were cooked, or leftovers planned before the batch is cooked.",
+                        parameters: [
+                            { name: "weekStart", in: "query", schema: { type: "string", format: "date" } },
+                            { name: "from", in: "query", schema: { type: "string", format: "date" } },
+                            { name: "to", in: "query", schema: { type: "string", format: "date" } },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Batches",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                from: { type: "string", format: "date" },
+                                                to: { type: "string", format: "date" },
+                                                batches: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/LeftoverBatch" },
+                                                },
+                                                warnings: { type: "array", items: { type: "string" } },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid week or dates" },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/templates": {
+                    get: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "List meal plan templates",
+                        description: "Returns the user's templates, newest first.",
+                        responses: {
+                            200: {
+                                description: "Templates",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                templates: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/MealPlanTemplate" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    post: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "Save a week as a template",
+                        description: "Stores the meals of a saved week by day of the week, with their slots, order and servings.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name", "weekStart"],
+                                        properties: {
+                                            name: { type: "string", example: "Busy week", maxLength: 80 },
+                                            weekStart: { type: "string", format: "date" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Template saved",
+                                content: {
+                                    "application/json": {
                                         schema: {
                                             type: "object",
                                             properties: {
                                                 ok: { type: "boolean" },
                                                 message: { type: "string" },
-                                                reassignedTo: { type: "string" },
+                                                template: { $ref: "#/components/schemas/MealPlanTemplate" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing name, invalid week, or nothing planned that week" },
+                            409: { description: "Template already exists" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "Delete a meal plan template",
+                        parameters: [{ name: "id", in: "query", required: true, schema: { type: "integer" } }],
+                        responses: {
+                            200: { description: "Template deleted" },
+                            400: { description: "Missing id" },
+                            404: { description: "Template not found" },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/templates/apply": {
+                    post: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "Apply a template to a week",
+                        description:
+                            "Each template day lands on the same day of the week starting at weekStart, with new entry ids. Meals are added after what's planned, or with replace the week is cleared first.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["templateId", "weekStart", "version"],
+                                        properties: {
+                                            templateId: { type: "integer" },
+                                            weekStart: { type: "string", format: "date" },
+                                            version: { type: "integer" },
+                                            replace: { type: "boolean", default: false },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Template applied",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid template, week or version" },
+                            404: { description: "Template not found" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/copy-week": {
+                    post: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "Copy a week forward",
+                        description:
+                            "Copies the meals of fromWeekStart (the week before weekStart when omitted) day for day into the week starting at weekStart. Meals are added after what's planned, or with replace the week is cleared first.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weekStart", "version"],
+                                        properties: {
+                                            weekStart: { type: "string", format: "date" },
+                                            version: { type: "integer" },
+                                            fromWeekStart: { type: "string", format: "date" },
+                                            replace: { type: "boolean", default: false },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Week copied; also returns copiedCount",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid week or version, or the same week twice" },
+                            404: { description: "Nothing is planned that week" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/copy-day": {
+                    post: {
+                        tags: ["Meal Plan Templates"],
+                        summary: "Duplicate a day",
+                        description:
+                            "Copies the meals planned on fromDate (any week) onto toDate, a day of the week starting at weekStart. Meals are added after what's planned that day, or replace it.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["weekStart", "version", "fromDate", "toDate"],
+                                        properties: {
+                                            weekStart: { type: "string", format: "date" },
+                                            version: { type: "integer" },
+                                            fromDate: { type: "string", format: "date" },
+                                            toDate: { type: "string", format: "date" },
+                                            replace: { type: "boolean", default: false },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Day copied",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanWriteResult" },
+                                    },
+                                },
+                            },
+                            400: { description: "Invalid dates or version, or toDate outside the week" },
+                            404: { description: "Nothing is planned that day" },
+                            409: {
+                                description: "Stale version",
+                                content: {
+                                    "application/json": {
+                                        schema: { $ref: "#/components/schemas/MealPlanConflict" },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/meal-plan/slots": {
+                    get: {
+                        tags: ["Meal Slots"],
+                        summary: "List meal slots",
+                        description: "Returns the user's meal slots in planner order. Breakfast, lunch and dinner are created on first use.",
+                        responses: {
+                            200: {
+                                description: "Meal slots",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                slots: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/MealSlot" },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    post: {
+                        tags: ["Meal Slots"],
+                        summary: "Add a meal slot",
+                        description: "Adds a slot after the existing ones. Names are stored lower case. Breakfast, lunch and dinner are created first if the user has no slots yet.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name"],
+                                        properties: {
+                                            name: { type: "string", example: "Snack", maxLength: 40 },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Meal slot added" },
+                            400: { description: "Missing name" },
+                            409: { description: "Meal slot already exists" },
+                        },
+                    },
+                    put: {
+                        tags: ["Meal Slots"],
+                        summary: "Reorder meal slots",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["names"],
+                                        properties: {
+                                            names: {
+                                                type: "array",
+                                                description: "Every slot, in the new order",
+                                                items: { type: "string" },
+                                                example: ["breakfast", "snack", "lunch", "dinner"],
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Meal slots reordered" },
+                            400: { description: "names doesn't list every slot exactly once" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Meal Slots"],
+                        summary: "Remove a meal slot",
+                        description: "Only slots with no meals planned in any week can be removed, and the last slot stays.",
+                        parameters: [
+                            { name: "name", in: "query", required: true, schema: { type: "string" } },
+                        ],
+                        responses: {
+                            200: { description: "Meal slot deleted" },
+                            400: { description: "Missing name, or the last slot" },
+                            404: { description: "Meal slot not found" },
+                            409: { description: "Meals are still planned in this slot" },
+                        },
+                    },
+                    patch: {
+                        tags: ["Meal Slots"],
+                        summary: "Set a slot's meal time",
+                        description:
+                            "Sets when the slot's meals are eaten, for the calendar feed. Breakfast (08:00), lunch (12:30), " +
+                            "snack (15:30), dinner (18:30) and dessert (20:00) have defaults; other slots without a time are all-day events.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["name", "time"],
+                                        properties: {
+                                            name: { type: "string", example: "dinner" },
+                                            time: {
+                                                type: "string",
+                                                nullable: true,
+                                                example: "19:00",
+                                                description: "24-hour HH:MM; null goes back to the default",
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: { description: "Meal time saved" },
+                            400: { description: "Missing name, or time isn't HH:MM" },
+                            404: { description: "Meal slot not found" },
+                        },
+                    },
+                },
+
+                // ─── Meal Plan Calendar ──────────────────────────────
+                "/api/meal-plan/calendar": {
+                    get: {
+                        tags: ["Meal Plan Calendar"],
+                        summary: "Get the calendar feed",
+                        description: "The user's iCalendar feed link, or null if they haven't created one.",
+                        responses: {
+                            200: {
+                                description: "Calendar feed",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                feed: { allOf: [{ $ref: "#/components/schemas/MealPlanCalendarFeed" }], nullable: true },
                                             },
                                         },
                                     },
                                 },
                             },
-                            404: { description: "Category not found" },
                         },
                     },
-                },
-
-                // ─── Grocery Import ──────────────────────────────────
-                "/api/grocery/import": {
                     post: {
-                        tags: ["Grocery Import"],
-                        summary: "Import ingredients from meal plan",
+                        tags: ["Meal Plan Calendar"],
+                        summary: "Create or update the calendar feed",
                         description:
-                            "Aggregates meal-plan ingredients into the grocery list. Filters out items already in pantry. Merges quantities for existing grocery items.",
+                            "Creates the feed the first time, otherwise changes its options. regenerate gives it a new link; " +
+                            "calendars subscribed to the old link stop updating.",
                         requestBody: {
                             required: true,
                             content: {
                                 "application/json": {
                                     schema: {
                                         type: "object",
-                                        required: ["items"],
                                         properties: {
-                                            items: {
-                                                type: "array",
-                                                items: {
-                                                    type: "object",
-                                                    properties: {
-                                                        name: { type: "string" },
-                                                        totalAmount: { type: "number" },
-                                                        unit: { type: "string" },
-                                                        category: { type: "string" },
-                                                    },
-                                                },
+                                            includePantryExpiry: {
+                                                type: "boolean",
+                                                description: "Add all-day events for pantry items on the day they expire",
                                             },
+                                            regenerate: { type: "boolean" },
                                         },
                                     },
                                 },
@@ -590,7 +2754,7 @@ export const getApiDocs = async () => {
                         },
                         responses: {
                             200: {
-                                description: "Import results",
+                                description: "Calendar feed created, updated or given a new link",
                                 content: {
                                     "application/json": {
                                         schema: {
@@ -598,77 +2762,44 @@ export const getApiDocs = async () => {
                                             properties: {
                                                 ok: { type: "boolean" },
                                                 message: { type: "string" },
-                                                addedCount: { type: "integer" },
-                                                updatedCount: { type: "integer" },
-                                                filteredCount: { type: "integer" },
-                                                totalProcessed: { type: "integer" },
+                                                feed: { $ref: "#/components/schemas/MealPlanCalendarFeed" },
                                             },
                                         },
                                     },
                                 },
                             },
+                            400: { description: "includePantryExpiry isn't a boolean" },
+                        },
+                    },
+                    delete: {
+                        tags: ["Meal Plan Calendar"],
+                        summary: "Turn off the calendar feed",
+                        responses: {
+                            200: { description: "Calendar feed turned off" },
+                            404: { description: "No calendar feed" },
                         },
                     },
                 },
-
-                // ─── Meal Plan ───────────────────────────────────────
-                "/api/meal-plan": {
+                "/api/meal-plan/calendar/{token}.ics": {
                     get: {
-                        tags: ["Meal Plan"],
-                        summary: "Get weekly meal plan",
-                        description: "Returns the meal plan for a given week, or null if none exists.",
+                        tags: ["Meal Plan Calendar"],
+                        summary: "Subscribe to the meal plan (public)",
+                        description:
+                            "No authentication; the token is the only protection. An iCalendar feed of the meals planned from " +
+                            "two weeks ago to two months ahead, at each slot's meal time with a reminder readyInMinutes before " +
+                            "to start cooking. Times have no time zone, so they show as set in any calendar.",
+                        security: [],
                         parameters: [
                             {
-                                name: "weekStart",
-                                in: "query",
+                                name: "token",
+                                in: "path",
                                 required: true,
-                                schema: { type: "string", format: "date" },
-                                description: "Start date of the week (YYYY-MM-DD)",
-                                example: "2026-04-06",
+                                schema: { type: "string" },
                             },
                         ],
                         responses: {
-                            200: {
-                                description: "Meal plan (or null)",
-                                content: {
-                                    "application/json": {
-                                        schema: {
-                                            type: "object",
-                                            properties: {
-                                                plan: {
-                                                    nullable: true,
-                                                    $ref: "#/components/schemas/WeeklyMealPlan",
-                                                },
-                                            },
-                                        },
-                                    },
-                                },
-                            },
-                            400: { description: "Missing weekStart" },
-                        },
-                    },
-                    post: {
-                        tags: ["Meal Plan"],
-                        summary: "Save weekly meal plan",
-                        description:
-                            "Creates or replaces the meal plan for a given week (transactional upsert).",
-                        requestBody: {
-                            required: true,
-                            content: {
-                                "application/json": {
-                                    schema: {
-                                        type: "object",
-                                        required: ["plan"],
-                                        properties: {
-                                            plan: { $ref: "#/components/schemas/WeeklyMealPlan" },
-                                        },
-                                    },
-                                },
-                            },
-                        },
-                        responses: {
-                            200: { description: "Plan saved" },
-                            400: { description: "Invalid meal plan data" },
+                            200: { description: "text/calendar feed" },
+                            404: { description: "Feed doesn't exist or was turned off" },
                         },
                     },
                 },
@@ -679,14 +2810,17 @@ export const getApiDocs = async () => {
                         tags: ["Nutrition Summary"],
                         summary: "Get nutrition summary for a week",
                         description:
-                            "Returns daily macro totals and progress vs. user goals for each day in the meal plan.",
+                            "Returns daily macro totals and progress vs. user goals for each day of a week (weekStart) " +
+                            "or of any range of dates (from and to, at most 93 days). Empty when nothing is planned. " +
+                            "Custom recipes use the nutrition estimated from their ingredients; other recipes come from Spoonacular.",
                         parameters: [
                             {
                                 name: "weekStart",
                                 in: "query",
-                                required: true,
                                 schema: { type: "string", format: "date" },
                             },
+                            { name: "from", in: "query", schema: { type: "string", format: "date" }, description: "With to, instead of weekStart" },
+                            { name: "to", in: "query", schema: { type: "string", format: "date" }, description: "Last date included" },
                         ],
                         responses: {
                             200: {
@@ -705,7 +2839,22 @@ export const getApiDocs = async () => {
                                                             totals: { $ref: "#/components/schemas/MacroTotals" },
                                                             goals: { type: "object" },
                                                             progress: { type: "object" },
-                                                            meals: { type: "array", items: { type: "object" } },
+                                                            meals: {
+                                                                type: "array",
+                                                                description: "Sorted by meal slot order, then position in the slot",
+                                                                items: {
+                                                                    type: "object",
+                                                                    properties: {
+                                                                        entryId: { type: "string" },
+                                                                        mealType: { type: "string" },
+                                                                        position: { type: "integer" },
+                                                                        recipeId: { type: "integer" },
+                                                                        title: { type: "string" },
+                                                                        servings: { type: "integer" },
+                                                                        nutrition: { $ref: "#/components/schemas/MacroTotals" },
+                                                                    },
+                                                                },
+                                                            },
                                                         },
                                                     },
                                                 },
@@ -749,38 +2898,49 @@ export const getApiDocs = async () => {
                         tags: ["Pantry"],
                         summary: "Add pantry item",
                         description:
-                            "Adds a new pantry item. Accepts structured amount+unit or legacy quantity string. Deduplicates by canonical name.",
+                            "Adds a new pantry item. Accepts structured amount+unit or legacy quantity string. If an item with the same canonical name exists, the quantity is stored as a new lot with its own expiry date. Send `items` to add a batch in one transaction. Without a category, new items are filed by the ingredient classifier.",
                         requestBody: {
                             required: true,
                             content: {
                                 "application/json": {
                                     schema: {
                                         type: "object",
-                                        required: ["name", "category"],
+                                        required: ["name"],
                                         properties: {
                                             name: { type: "string", example: "Eggs" },
                                             quantity: { type: "string", example: "12 large" },
                                             amount: { type: "number", example: 12, nullable: true },
                                             unit: { type: "string", example: "large" },
-                                            category: { type: "string", example: "Dairy" },
+                                            category: {
+                                                type: "string",
+                                                example: "Dairy",
+                                                description: "Omit to classify the item from its name (the user's past corrections first)",
+                                            },
                                             expiryDate: {
                                                 type: "string",
                                                 format: "date",
                                                 nullable: true,
                                             },
+                                            items: {
+                                                type: "array",
+                                                description: "Batch of items with the fields above; replaces the single-item fields",
+                                                items: { type: "object" },
+                                            },
                                         },
                                     },
                                 },
                             },
                         },
                         responses: {
-                            200: { description: "Item added or updated" },
+                            200: { description: "Item added or updated (`items` for batches)" },
                             400: { description: "Missing required fields" },
                         },
                     },
                     put: {
                         tags: ["Pantry"],
                         summary: "Update pantry item",
+                        description:
+                            "Updates an item. With `lotId`, quantity and expiry changes apply to that lot only. Without it, a quantity change on a multi-lot item replaces its lots with a single lot. A category change is remembered for the next time the same ingredient is added. Staples that drop below their par level are added to the grocery list (returned as `restocked`).",
                         requestBody: {
                             required: true,
                             content: {
@@ -790,6 +2950,7 @@ export const getApiDocs = async () => {
                                         required: ["id"],
                                         properties: {
                                             id: { type: "integer" },
+                                            lotId: { type: "integer", nullable: true },
                                             name: { type: "string" },
                                             quantity: { type: "string" },
                                             amount: { type: "number", nullable: true },
@@ -809,6 +2970,8 @@ export const getApiDocs = async () => {
                     delete: {
                         tags: ["Pantry"],
                         summary: "Delete pantry item",
+                        description:
+                            "Deletes an item, or a single lot when `lotId` is given (deleting the last lot deletes the item). Staples that drop below their par level are added to the grocery list (returned as `restocked`).",
                         parameters: [
                             {
                                 name: "id",
@@ -816,10 +2979,71 @@ export const getApiDocs = async () => {
                                 required: true,
                                 schema: { type: "integer" },
                             },
+                            {
+                                name: "lotId",
+                                in: "query",
+                                required: false,
+                                schema: { type: "integer" },
+                            },
                         ],
                         responses: {
-                            200: { description: "Item deleted" },
-                            404: { description: "Item not found" },
+                            200: { description: "Item or lot deleted" },
+                            404: { description: "Item or lot not found" },
+                        },
+                    },
+                },
+
+                // ─── Quick Add ───────────────────────────────────────
+                "/api/quick-add": {
+                    post: {
+                        tags: ["Quick Add"],
+                        summary: "Preview a natural-language quick add",
+                        description:
+                            "Splits text like \"2 lbs chicken thighs, a dozen eggs and 1 gallon milk\" into items, parses amounts and units, canonicalizes names and picks a category with the ingredient classifier (the user's own corrections first). Nothing is saved; commit the preview with POST /api/grocery or POST /api/pantry using `items`.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["text"],
+                                        properties: {
+                                            text: { type: "string", maxLength: 2000, example: "2 lbs chicken thighs, a dozen eggs and 1 gallon milk" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Parsed items",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                items: {
+                                                    type: "array",
+                                                    items: {
+                                                        type: "object",
+                                                        properties: {
+                                                            name: { type: "string", example: "chicken thigh" },
+                                                            amount: { type: "number", nullable: true, example: 2 },
+                                                            unit: { type: "string", example: "lbs" },
+                                                            quantity: { type: "string", nullable: true, example: "2 lbs" },
+                                                            category: { type: "string", example: "Meat & Seafood" },
+                                                            original: { type: "string", example: "2 lbs chicken thighs" },
+                                                        },
+                                                    },
+                                                },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing or too long text" },
                         },
                     },
                 },
@@ -830,7 +3054,7 @@ export const getApiDocs = async () => {
                         tags: ["Pantry Match"],
                         summary: "Match ingredients against pantry",
                         description:
-                            "Compares recipe ingredients to pantry inventory. Returns matched/partial/unmatched status with fuzzy name matching and unit conversion.",
+                            "Compares recipe ingredients to pantry inventory. Returns matched/partial/unmatched status with fuzzy name matching and unit conversion. Volume, weight and whole-item counts convert using per-ingredient density and typical item weights; amounts that still cannot be compared are reported as unconvertible. Amounts are totalled across all lots of an item.",
                         requestBody: {
                             required: true,
                             content: {
@@ -873,7 +3097,7 @@ export const getApiDocs = async () => {
                                                             ingredientName: { type: "string" },
                                                             status: {
                                                                 type: "string",
-                                                                enum: ["matched", "partial", "unmatched"],
+                                                                enum: ["matched", "partial", "unmatched", "unconvertible"],
                                                             },
                                                             pantryItem: { type: "object", nullable: true },
                                                         },
@@ -894,7 +3118,7 @@ export const getApiDocs = async () => {
                         tags: ["Pantry Deduct"],
                         summary: "Deduct ingredients from pantry",
                         description:
-                            "Subtracts ingredient amounts after cooking. Removes items that reach zero. Handles unit conversion.",
+                            "Subtracts ingredient amounts after cooking, using up the soonest-expiring lot first. Removes lots that reach zero and items with no lots left. Handles unit conversion, including volume/weight/count via ingredient density; items whose units cannot be converted are reported as unconvertible and left unchanged. When the lots can't cover the whole amount (they run out, or some don't convert), the rest is reported as shortfallAmount in the deduction's unit and kept on the cook event. The changes are recorded as one cook event that can be reversed with /api/pantry/undo. Staples that drop below their par level are added to the grocery list.",
                         requestBody: {
                             required: true,
                             content: {
@@ -915,6 +3139,9 @@ export const getApiDocs = async () => {
                                                     },
                                                 },
                                             },
+                                            recipeId: { type: "integer" },
+                                            recipeTitle: { type: "string" },
+                                            servings: { type: "integer" },
                                         },
                                     },
                                 },
@@ -935,12 +3162,147 @@ export const getApiDocs = async () => {
                                                         type: "object",
                                                         properties: {
                                                             pantryItemId: { type: "integer" },
-                                                            action: { type: "string", enum: ["updated", "removed"] },
+                                                            action: { type: "string", enum: ["updated", "removed", "unconvertible"] },
                                                             remainingAmount: { type: "number" },
                                                             remainingUnit: { type: "string" },
+                                                            shortfallAmount: {
+                                                                type: "number",
+                                                                description: "Only present when part of the amount couldn't be taken off",
+                                                            },
+                                                            shortfallUnit: { type: "string" },
                                                         },
                                                     },
                                                 },
+                                                cookEventId: { type: "integer", nullable: true },
+                                                restocked: {
+                                                    type: "array",
+                                                    description: "Staples added to the grocery list because stock fell below par",
+                                                    items: { $ref: "#/components/schemas/GroceryItem" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+
+                "/api/pantry/leftovers": {
+                    post: {
+                        tags: ["Pantry Deduct"],
+                        summary: "Add leftovers to the pantry",
+                        description:
+                            "Adds what's left of a cooked dish as \"<recipe> (leftovers)\", counted in servings, in the Leftovers category. It expires after the Leftovers shelf life (4 days).",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["recipeTitle", "servings"],
+                                        properties: {
+                                            recipeTitle: { type: "string" },
+                                            servings: { type: "integer", minimum: 1 },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "The pantry item the leftovers were added to",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                item: { $ref: "#/components/schemas/PantryItem" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            400: { description: "Missing recipeTitle or invalid servings" },
+                        },
+                    },
+                },
+
+                // ─── Pantry History ──────────────────────────────────
+                "/api/pantry/undo": {
+                    post: {
+                        tags: ["Pantry History"],
+                        summary: "Undo a cook deduction",
+                        description:
+                            "Restores what a cook event deducted. Lots get back the amount that was taken, so later edits are kept; used-up items are recreated.",
+                        requestBody: {
+                            required: true,
+                            content: {
+                                "application/json": {
+                                    schema: {
+                                        type: "object",
+                                        required: ["cookEventId"],
+                                        properties: {
+                                            cookEventId: { type: "integer" },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        responses: {
+                            200: {
+                                description: "Restored items",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                message: { type: "string" },
+                                                items: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/PantryItem" },
+                                                },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                            404: { description: "Cook event not found" },
+                            409: { description: "Cook event has already been undone" },
+                        },
+                    },
+                },
+                "/api/pantry/history": {
+                    get: {
+                        tags: ["Pantry History"],
+                        summary: "List pantry item history",
+                        description:
+                            "Returns the 50 most recent ledger events for an item, newest first. Includes events for earlier items with the same canonical name.",
+                        parameters: [
+                            {
+                                name: "itemId",
+                                in: "query",
+                                required: true,
+                                schema: { type: "integer" },
+                                description: "Pantry item ID",
+                            },
+                        ],
+                        responses: {
+                            200: {
+                                description: "Ledger events",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                events: {
+                                                    type: "array",
+                                                    items: { $ref: "#/components/schemas/PantryEvent" },
+                                                },
                                             },
                                         },
                                     },
@@ -956,7 +3318,9 @@ export const getApiDocs = async () => {
                         tags: ["Custom Recipes"],
                         summary: "Get custom recipes",
                         description:
-                            "With `?id=`: returns a single custom recipe (no auth). Without: returns all recipes for the authenticated user.",
+                            "With `?id=`: returns a single custom recipe (no auth), with `nutrition` per serving estimated " +
+                            "from its ingredients (null when none could be counted) and `nutritionMissing`, the ingredients " +
+                            "left out of the estimate. Without: returns all recipes for the authenticated user.",
                         parameters: [
                             {
                                 name: "id",
@@ -967,13 +3331,43 @@ export const getApiDocs = async () => {
                             },
                         ],
                         responses: {
-                            200: { description: "Recipe(s) returned" },
+                            200: {
+                                description: "Recipe(s) returned",
+                                content: {
+                                    "application/json": {
+                                        schema: {
+                                            type: "object",
+                                            properties: {
+                                                ok: { type: "boolean" },
+                                                recipe: { type: "object" },
+                                                nutrition: {
+                                                    type: "object",
+                                                    nullable: true,
+                                                    description: "Single lookup only, in the nutritionWidget shape",
+                                                    properties: {
+                                                        calories: { type: "string", example: "412k" },
+                                                        carbs: { type: "string", example: "38g" },
+                                                        fat: { type: "string", example: "17g" },
+                                                        protein: { type: "string", example: "26g" },
+                                                    },
+                                                },
+                                                nutritionMissing: { type: "array", items: { type: "string" } },
+                                                recipes: { type: "array", items: { type: "object" } },
+                                                count: { type: "integer" },
+                                            },
+                                        },
+                                    },
+                                },
+                            },
                             404: { description: "Recipe not found" },
                         },
                     },
                     post: {
                         tags: ["Custom Recipes"],
                         summary: "Create a custom recipe",
+                        description:
+                            "Nutrition per serving is estimated from the ingredients with a bundled nutrient table " +
+                            "and returned as `nutrition` and `nutritionMissing`, as for single lookups.",
                         requestBody: {
                             required: true,
                             content: {
@@ -1,7 +1,14 @@
 // lib/types/meal-plan.ts
 // Meal plan type definitions
-// Provides MealPlanEntry, MealType, DayPlan, WeeklyMealPlan, AggregatedIngredient
-// and createEmptyWeekPlan(), getWeekMonday(), generateMealEntryId()
+// Provides MealPlanEntry, MealType, DayPlan, WeeklyMealPlan, AggregatedIngredient,
+// IngredientContribution
+// and createEmptyWeekPlan(), getWeekStart(), generateMealEntryId()
+// Days hold an ordered list of entries per meal slot ("dinner": main + side);
+// slots are configured per user (see /api/meal-plan/slots)
+// A leftover entry eats from an earlier entry's batch instead of being cooked
+// (see lib/meal-plan-leftovers.ts)
+// Plans carry the server version they were read at; writes made against an older
+// version are refused with the current plan (see lib/meal-plan-service.ts)
 
 export interface MealPlanEntry {
   id: string;
@@ -11,20 +18,29 @@ export interface MealPlanEntry {
   servings: number;         // User's desired servings
   originalServings: number; // Recipe's default servings (from Spoonacular)
   readyInMinutes?: number;
+  cookedServings?: number;  // Servings cooked when extra is made for leftovers (default: servings)
+  leftoverOf?: string;      // id of the entry whose batch this meal eats from
 }
 
-export type MealType = 'breakfast' | 'lunch' | 'dinner';
+// A meal slot: "breakfast", "lunch", "dinner", "snack", "dessert" or a user's own name
+export type MealType = string;
 
 export interface DayPlan {
   date: string; // ISO date string (YYYY-MM-DD)
-  breakfast?: MealPlanEntry;
-  lunch?: MealPlanEntry;
-  dinner?: MealPlanEntry;
+  meals: Record<MealType, MealPlanEntry[]>; // Entries per slot, in the order they're served
+}
+
+// A configured meal slot, in the order slots appear on the planner
+export interface MealSlotConfig {
+  id: number;
+  name: MealType;
+  sortOrder: number;
 }
 
 export interface WeeklyMealPlan {
-  weekStart: string; // ISO date of Monday
+  weekStart: string; // ISO date of the week's first day (the user's weekStartDay)
   days: DayPlan[];
+  version?: number; // Server version the plan was read at; 0 for a week never saved
 }
 
 export interface AggregatedIngredient {
@@ -33,6 +49,19 @@ export interface AggregatedIngredient {
   unit: string;
   category: string;
   sourceRecipes: string[];
+  sources?: IngredientContribution[];
+}
+
+// How much of an aggregated ingredient one meal-plan entry asked for,
+// expressed in the aggregated ingredient's unit
+export interface IngredientContribution {
+  mealEntryId: string;
+  recipeId: number;
+  recipeTitle: string;
+  date: string;
+  mealType: string;
+  amount: number;
+  unit: string;
 }
 
 export interface NutritionMetricProgress {
@@ -64,7 +93,9 @@ export interface NutritionDaySummary {
     fat: NutritionMetricProgress;
   };
   meals: {
+    entryId: string;
     mealType: string;
+    position: number;
     recipeId: number;
     title: string;
     servings: number;
@@ -94,6 +125,7 @@ export function createEmptyWeekPlan(weekStart: Date): WeeklyMealPlan {
     date.setDate(weekStart.getDate() + i);
     days.push({
       date: formatLocalDateStr(date),
+      meals: {},
     });
   }
   return {
@@ -102,21 +134,14 @@ export function createEmptyWeekPlan(weekStart: Date): WeeklyMealPlan {
   };
 }
 
-// Helper to get Monday of the week for a given date
-// If today is Sunday, show the upcoming week (next Monday)
-export function getWeekMonday(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-
-  // If Sunday (day === 0), get next Monday (add 1 day)
-  // Otherwise, get the Monday of the current week
-  if (day === 0) {
-    d.setDate(d.getDate() + 1);
-  } else {
-    const diff = d.getDate() - day + 1;
-    d.setDate(diff);
-  }
+// Day weeks start on unless the user picks another in their profile
+// (0 = Sunday ... 6 = Saturday, like Date.getDay())
+export const DEFAULT_WEEK_START_DAY = 1;
 
+// Helper to get the first day of the week a date falls in
+export function getWeekStart(date: Date, weekStartDay: number = DEFAULT_WEEK_START_DAY): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() - ((d.getDay() - weekStartDay + 7) % 7));
   d.setHours(0, 0, 0, 0);
   return d;
 }
@@ -21,6 +21,15 @@ export const VOLUME_CONVERSIONS: Record<string, number> = {
   'fl oz': 29.574,
   'fluid ounce': 29.574,
   'fluid ounces': 29.574,
+  pint: 473.176,
+  pints: 473.176,
+  pt: 473.176,
+  quart: 946.353,
+  quarts: 946.353,
+  qt: 946.353,
+  gallon: 3785.41,
+  gallons: 3785.41,
+  gal: 3785.41,
 };
 
 export const WEIGHT_CONVERSIONS: Record<string, number> = {
@@ -86,6 +95,28 @@ export function convertToBase(amount: number, unit: string): { amount: number; b
   return null;
 }
 
+// Convert an amount from one unit to another of the same type
+// Returns null when the units are not compatible (e.g. cups -> grams)
+export function convertAmount(amount: number, fromUnit: string, toUnit: string): number | null {
+  const from = normalizeUnit(fromUnit);
+  const to = normalizeUnit(toUnit);
+  if (from === to) return amount;
+
+  const fromType = getUnitType(from);
+  if (fromType === 'unknown' || fromType !== getUnitType(to)) return null;
+
+  if (fromType === 'count') {
+    const fromMultiplier = COUNT_MULTIPLIERS[from] ?? 1;
+    const toMultiplier = COUNT_MULTIPLIERS[to] ?? 1;
+    return (amount * fromMultiplier) / toMultiplier;
+  }
+
+  const fromBase = convertToBase(amount, from);
+  const toFactor = convertToBase(1, to);
+  if (!fromBase || !toFactor) return null;
+  return fromBase.amount / toFactor.amount;
+}
+
 // Convert from base unit to a display unit
 export function convertFromBase(amount: number, baseUnit: string): { amount: number; unit: string } {
   if (baseUnit === 'ml') {
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "PantryLot" (
+    "id" SERIAL NOT NULL,
+    "pantryItemId" INTEGER NOT NULL,
+    "quantity" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "unit" TEXT NOT NULL DEFAULT '',
+    "expiryDate" TIMESTAMP(3),
+    "addedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PantryLot_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "PantryLot" ADD CONSTRAINT "PantryLot_pantryItemId_fkey" FOREIGN KEY ("pantryItemId") REFERENCES "PantryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: every existing pantry item becomes a single lot
+INSERT INTO "PantryLot" ("pantryItemId", "quantity", "amount", "unit", "expiryDate", "addedAt")
+SELECT "id", "quantity", "amount", "unit", "expiryDate", "addedAt" FROM "PantryItem";
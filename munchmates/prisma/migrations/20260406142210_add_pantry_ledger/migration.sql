@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "PantryEvent" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "pantryItemId" INTEGER NOT NULL,
+    "itemName" TEXT NOT NULL,
+    "canonName" TEXT NOT NULL DEFAULT '',
+    "action" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "cookEventId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PantryEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CookEvent" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recipeId" INTEGER,
+    "recipeTitle" TEXT NOT NULL DEFAULT '',
+    "servings" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "undoneAt" TIMESTAMP(3),
+
+    CONSTRAINT "CookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PantryEvent_userId_pantryItemId_idx" ON "PantryEvent"("userId", "pantryItemId");
+
+-- CreateIndex
+CREATE INDEX "PantryEvent_userId_canonName_idx" ON "PantryEvent"("userId", "canonName");
+
+-- AddForeignKey
+ALTER TABLE "PantryEvent" ADD CONSTRAINT "PantryEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PantryEvent" ADD CONSTRAINT "PantryEvent_cookEventId_fkey" FOREIGN KEY ("cookEventId") REFERENCES "CookEvent"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CookEvent" ADD CONSTRAINT "CookEvent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "GroceryItemSource" (
+    "id" SERIAL NOT NULL,
+    "groceryItemId" INTEGER NOT NULL,
+    "mealEntryId" TEXT NOT NULL,
+    "recipeId" INTEGER NOT NULL,
+    "recipeTitle" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "mealType" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "unit" TEXT NOT NULL DEFAULT '',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroceryItemSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GroceryItemSource_mealEntryId_idx" ON "GroceryItemSource"("mealEntryId");
+
+-- AddForeignKey
+ALTER TABLE "GroceryItemSource" ADD CONSTRAINT "GroceryItemSource_groceryItemId_fkey" FOREIGN KEY ("groceryItemId") REFERENCES "GroceryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "GroceryList" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroceryList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroceryList_userId_name_key" ON "GroceryList"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "GroceryList" ADD CONSTRAINT "GroceryList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: move every existing item onto a default list for its owner
+INSERT INTO "GroceryList" ("userId", "name")
+SELECT DISTINCT "userId", 'Grocery List' FROM "GroceryItem";
+
+-- AlterTable
+ALTER TABLE "GroceryItem" ADD COLUMN "listId" INTEGER;
+
+UPDATE "GroceryItem" AS item
+SET "listId" = list."id"
+FROM "GroceryList" AS list
+WHERE list."userId" = item."userId";
+
+ALTER TABLE "GroceryItem" ALTER COLUMN "listId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "GroceryItem_userId_name_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroceryItem_listId_name_key" ON "GroceryItem"("listId", "name");
+
+-- AddForeignKey
+ALTER TABLE "GroceryItem" ADD CONSTRAINT "GroceryItem_listId_fkey" FOREIGN KEY ("listId") REFERENCES "GroceryList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "StoreProfile" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "learnOrder" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StoreProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "StoreCategoryOrder" (
+    "id" SERIAL NOT NULL,
+    "storeId" INTEGER NOT NULL,
+    "category" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+    "aisle" TEXT,
+    "walkPosition" DOUBLE PRECISION,
+    "walkSamples" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "StoreCategoryOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoreProfile_userId_name_key" ON "StoreProfile"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "StoreCategoryOrder_storeId_category_key" ON "StoreCategoryOrder"("storeId", "category");
+
+-- AddForeignKey
+ALTER TABLE "StoreProfile" ADD CONSTRAINT "StoreProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StoreCategoryOrder" ADD CONSTRAINT "StoreCategoryOrder_storeId_fkey" FOREIGN KEY ("storeId") REFERENCES "StoreProfile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
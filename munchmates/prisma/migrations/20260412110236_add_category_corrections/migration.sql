@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CategoryCorrection" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "canonName" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CategoryCorrection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CategoryCorrection_userId_canonName_key" ON "CategoryCorrection"("userId", "canonName");
+
+-- AddForeignKey
+ALTER TABLE "CategoryCorrection" ADD CONSTRAINT "CategoryCorrection_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "GroceryStaple" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "listId" INTEGER,
+    "name" TEXT NOT NULL,
+    "canonName" TEXT NOT NULL,
+    "quantity" TEXT,
+    "category" TEXT NOT NULL,
+    "weekday" INTEGER,
+    "intervalWeeks" INTEGER NOT NULL DEFAULT 1,
+    "parAmount" DOUBLE PRECISION,
+    "parUnit" TEXT NOT NULL DEFAULT '',
+    "lastAddedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroceryStaple_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroceryStaple_userId_canonName_key" ON "GroceryStaple"("userId", "canonName");
+
+-- AddForeignKey
+ALTER TABLE "GroceryStaple" ADD CONSTRAINT "GroceryStaple_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroceryStaple" ADD CONSTRAINT "GroceryStaple_listId_fkey" FOREIGN KEY ("listId") REFERENCES "GroceryList"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "GroceryShareLink" (
+    "id" SERIAL NOT NULL,
+    "token" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "listId" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroceryShareLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroceryShareLink_token_key" ON "GroceryShareLink"("token");
+
+-- CreateIndex
+CREATE INDEX "GroceryShareLink_listId_idx" ON "GroceryShareLink"("listId");
+
+-- AddForeignKey
+ALTER TABLE "GroceryShareLink" ADD CONSTRAINT "GroceryShareLink_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroceryShareLink" ADD CONSTRAINT "GroceryShareLink_listId_fkey" FOREIGN KEY ("listId") REFERENCES "GroceryList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
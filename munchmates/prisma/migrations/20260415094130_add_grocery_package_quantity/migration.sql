@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "GroceryItem" ADD COLUMN     "packageQuantity" TEXT;
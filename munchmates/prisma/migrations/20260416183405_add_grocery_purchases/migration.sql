@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "GroceryPurchase" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "listId" INTEGER,
+    "name" TEXT NOT NULL,
+    "canonName" TEXT NOT NULL,
+    "quantity" TEXT,
+    "category" TEXT NOT NULL,
+    "purchasedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroceryPurchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GroceryPurchase_userId_purchasedAt_idx" ON "GroceryPurchase"("userId", "purchasedAt");
+
+-- AddForeignKey
+ALTER TABLE "GroceryPurchase" ADD CONSTRAINT "GroceryPurchase_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GroceryPurchase" ADD CONSTRAINT "GroceryPurchase_listId_fkey" FOREIGN KEY ("listId") REFERENCES "GroceryList"("id") ON DELETE SET NULL ON UPDATE CASCADE;
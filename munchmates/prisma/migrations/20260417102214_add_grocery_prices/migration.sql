@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "weeklyGroceryBudget" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "GroceryItem" ADD COLUMN     "unitPrice" DOUBLE PRECISION,
+ADD COLUMN     "priceUnit" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "GroceryPurchase" ADD COLUMN     "cost" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "PriceBookEntry" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "canonName" TEXT NOT NULL,
+    "unitPrice" DOUBLE PRECISION NOT NULL,
+    "priceUnit" TEXT NOT NULL DEFAULT '',
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PriceBookEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PriceBookEntry_userId_canonName_key" ON "PriceBookEntry"("userId", "canonName");
+
+-- AddForeignKey
+ALTER TABLE "PriceBookEntry" ADD CONSTRAINT "PriceBookEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- DropIndex
+DROP INDEX "MealEntry_mealPlanId_date_mealType_key";
+
+-- AlterTable
+ALTER TABLE "MealEntry" ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "MealSlot" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "sortOrder" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "MealSlot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "MealEntry_mealPlanId_date_mealType_idx" ON "MealEntry"("mealPlanId", "date", "mealType");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealSlot_userId_name_key" ON "MealSlot"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "MealSlot" ADD CONSTRAINT "MealSlot_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
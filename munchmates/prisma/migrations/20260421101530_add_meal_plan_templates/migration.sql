@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "MealPlanTemplate" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MealPlanTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MealPlanTemplateEntry" (
+    "id" SERIAL NOT NULL,
+    "templateId" INTEGER NOT NULL,
+    "dayOffset" INTEGER NOT NULL,
+    "mealType" TEXT NOT NULL,
+    "position" INTEGER NOT NULL DEFAULT 0,
+    "recipeId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "image" TEXT,
+    "servings" INTEGER NOT NULL,
+    "originalServings" INTEGER NOT NULL,
+    "readyInMinutes" INTEGER,
+
+    CONSTRAINT "MealPlanTemplateEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlanTemplate_userId_name_key" ON "MealPlanTemplate"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "MealPlanTemplateEntry_templateId_idx" ON "MealPlanTemplateEntry"("templateId");
+
+-- AddForeignKey
+ALTER TABLE "MealPlanTemplate" ADD CONSTRAINT "MealPlanTemplate_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MealPlanTemplateEntry" ADD CONSTRAINT "MealPlanTemplateEntry_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "MealPlanTemplate"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "UserProfile" ADD COLUMN     "weekStartDay" INTEGER NOT NULL DEFAULT 1;
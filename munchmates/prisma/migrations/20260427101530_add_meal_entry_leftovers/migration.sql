@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "MealEntry" ADD COLUMN     "cookedServings" INTEGER,
+ADD COLUMN     "leftoverOf" TEXT;
+
+-- CreateIndex
+CREATE INDEX "MealEntry_leftoverOf_idx" ON "MealEntry"("leftoverOf");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "MealSlot" ADD COLUMN     "time" TEXT;
+
+-- CreateTable
+CREATE TABLE "MealPlanCalendarFeed" (
+    "id" SERIAL NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "includePantryExpiry" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MealPlanCalendarFeed_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlanCalendarFeed_userId_key" ON "MealPlanCalendarFeed"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MealPlanCalendarFeed_token_key" ON "MealPlanCalendarFeed"("token");
+
+-- AddForeignKey
+ALTER TABLE "MealPlanCalendarFeed" ADD CONSTRAINT "MealPlanCalendarFeed_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
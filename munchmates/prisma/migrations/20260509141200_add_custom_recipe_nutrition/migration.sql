@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CustomRecipe" ADD COLUMN     "calories" DOUBLE PRECISION,
+ADD COLUMN     "carbs" DOUBLE PRECISION,
+ADD COLUMN     "fat" DOUBLE PRECISION,
+ADD COLUMN     "nutritionMissing" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "nutritionVersion" INTEGER,
+ADD COLUMN     "protein" DOUBLE PRECISION;
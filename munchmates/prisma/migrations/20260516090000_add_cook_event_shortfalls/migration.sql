@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CookEvent" ADD COLUMN     "shortfalls" JSONB NOT NULL DEFAULT '[]';